@@ -0,0 +1,172 @@
+/**
+ * Rule Package Diff Utility
+ *
+ * Compares two versions of a rule package: added, removed and changed
+ * rules, threshold changes with old and new values, required field changes,
+ * and which fixture profiles flip between eligible and ineligible.
+ *
+ * Usage:
+ *   npm run diff-rules <before.json> <after.json>
+ *   npm run diff-rules old/snap-federal-rules.json src/rules/federal/snap/snap-federal-rules.json
+ *
+ * Options:
+ *   --fixtures=<dir>   Profile fixtures directory (default: src/rules/__fixtures__)
+ *   --as-of=2025-03-01 Evaluation date for the poverty guideline year
+ *   --json             Print the diff as JSON instead of Markdown
+ *
+ * Fixtures are `profiles.json` (a list of `{ id, description, data }` rule
+ * data contexts) plus any household fixture (`{ householdId, members,
+ * location }`), whose members' `income` is read as monthly wages.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { registerBenefitOperators } from '../src/rules/core/evaluator';
+import {
+  diffRulePackages,
+  formatRulePackageDiff,
+  type DiffProfile,
+} from '../src/rules/core/packageDiff';
+import type { RulePackage } from '../src/rules/core/schema';
+import { buildHouseholdMemberDataContext, normalizeHouseholdMembers } from '../src/utils/householdMembers';
+import { getGuidelineRegionForState } from '../src/utils/povertyGuidelines';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface HouseholdFixture {
+  householdId: string;
+  members: Array<{ name?: string; age?: number; relationship?: string; income?: number }>;
+  location?: { state?: string; county?: string };
+}
+
+interface DiffSettings {
+  fixturesDir: string;
+  asOf?: string;
+  json: boolean;
+}
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function isHouseholdFixture(value: unknown): value is HouseholdFixture {
+  return typeof value === 'object' && value !== null
+    && typeof (value as HouseholdFixture).householdId === 'string'
+    && Array.isArray((value as HouseholdFixture).members);
+}
+
+/**
+ * Convert a household fixture into a rule data context
+ */
+function householdFixtureToProfile(fixture: HouseholdFixture): DiffProfile {
+  const members = normalizeHouseholdMembers(fixture.members.map((member, index) => ({
+    id: `member-${index + 1}`,
+    age: member.age,
+    relationship: member.relationship,
+    income: { wages: member.income ?? 0 },
+  })));
+
+  const data: Record<string, unknown> = buildHouseholdMemberDataContext(members);
+
+  const state = fixture.location?.state;
+  if (state) {
+    data.state = state;
+    data.stateCode = state;
+    data.livesInState = true;
+    data.fplRegion = getGuidelineRegionForState(state);
+  }
+  if (fixture.location?.county) {
+    data.county = fixture.location.county;
+  }
+
+  const location = [fixture.location?.county, state].filter(Boolean).join(', ');
+  return {
+    id: fixture.householdId,
+    description: `Household of ${members.length}${location ? `, ${location}` : ''}`,
+    data,
+  };
+}
+
+/**
+ * Load every profile fixture in a directory
+ */
+function loadFixtureProfiles(dir: string): DiffProfile[] {
+  const profiles: DiffProfile[] = [];
+  const files = readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+
+  for (const file of files) {
+    const parsed = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as unknown;
+    if (Array.isArray(parsed)) {
+      profiles.push(...(parsed as DiffProfile[]).filter(profile => profile.id && profile.data));
+    } else if (isHouseholdFixture(parsed)) {
+      profiles.push(householdFixtureToProfile(parsed));
+    }
+  }
+
+  return profiles;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function parseDiffSettings(args: string[]): DiffSettings {
+  const settings: DiffSettings = {
+    fixturesDir: join(process.cwd(), 'src', 'rules', '__fixtures__'),
+    json: false,
+  };
+
+  for (const arg of args) {
+    if (arg.startsWith('--fixtures=')) {
+      settings.fixturesDir = arg.slice('--fixtures='.length);
+    } else if (arg.startsWith('--as-of=')) {
+      settings.asOf = arg.slice('--as-of='.length);
+    } else if (arg === '--json') {
+      settings.json = true;
+    }
+  }
+
+  return settings;
+}
+
+function loadRulePackage(filepath: string): RulePackage {
+  return JSON.parse(readFileSync(filepath, 'utf-8')) as RulePackage;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const files = args.filter(arg => !arg.startsWith('--'));
+  const settings = parseDiffSettings(args);
+
+  if (files.length !== 2) {
+    console.error('Usage: npm run diff-rules <before.json> <after.json> [--fixtures=<dir>] [--as-of=<date>] [--json]');
+    process.exit(1);
+  }
+
+  registerBenefitOperators();
+
+  let before: RulePackage;
+  let after: RulePackage;
+  let profiles: DiffProfile[];
+  try {
+    before = loadRulePackage(files[0]);
+    after = loadRulePackage(files[1]);
+    profiles = loadFixtureProfiles(settings.fixturesDir);
+  } catch (error) {
+    console.error(`Failed to load input: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const diff = diffRulePackages(before, after, { profiles, asOf: settings.asOf });
+
+  console.log(settings.json ? JSON.stringify(diff, null, 2) : formatRulePackageDiff(diff));
+}
+
+// Run when executed as a script (not when imported by tests)
+if (process.argv[1]?.includes('diff-rules')) {
+  main();
+}
+
+export { householdFixtureToProfile, loadFixtureProfiles, parseDiffSettings };
@@ -0,0 +1,184 @@
+/**
+ * Population Impact Simulator
+ *
+ * Generates a seeded synthetic population of households, evaluates every
+ * program for each one and prints eligibility rates per program and state,
+ * with households the rules could not decide counted as undetermined.
+ * With `--candidate`, runs the same population against a changed rule set
+ * and prints the difference, so a threshold change can be sized before it
+ * is merged.
+ *
+ * Runs under vite-node, since rule evaluation reads `import.meta.env`:
+ *   npm run simulate -- --size=2000 --seed=7
+ *   npm run simulate -- --states=GA,TX --candidate=/tmp/snap-federal-rules.json
+ *
+ * Options:
+ *   --size=1000            Number of households
+ *   --seed=1               RNG seed; the same seed gives the same population
+ *   --states=GA,TX         Limit households to these states
+ *   --as-of=2025-06-01     Evaluation date
+ *   --median-income=55000  Median annual income of a household of 2–3
+ *   --candidate=<path>     Rule package file or directory; packages replace
+ *                          baseline packages with the same metadata.id
+ *   --json                 Print JSON instead of Markdown
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { performance } from 'node:perf_hooks';
+import { registerBenefitOperators } from '../src/rules/core/evaluator';
+import type { RulePackage } from '../src/rules/core/schema';
+import {
+  buildSimulationPrograms,
+  compareSimulations,
+  formatSimulationReport,
+  generatePopulation,
+  simulateEligibility,
+  type PopulationOptions,
+} from '../src/rules/core/simulation';
+import { AMIDataService } from '../src/data/services/AMIDataService';
+import federalRules from '../src/rules/federal';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SimulationSettings {
+  population: PopulationOptions;
+  asOf?: number;
+  candidatePath?: string;
+  json: boolean;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+function loadPackages(path: string): RulePackage[] {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path, { recursive: true })
+      .filter((file): file is string => typeof file === 'string' && file.endsWith('.json'))
+      .map(file => join(path, file))
+    : [path];
+
+  return files.map(file => JSON.parse(readFileSync(file, 'utf-8')) as RulePackage);
+}
+
+/**
+ * Federal packages the app loads, plus every state package
+ */
+function loadBaselinePackages(): RulePackage[] {
+  return [
+    ...Object.values(federalRules) as unknown as RulePackage[],
+    ...loadPackages(join(process.cwd(), 'src', 'rules', 'state')),
+  ];
+}
+
+function replacePackages(baseline: RulePackage[], replacements: RulePackage[]): RulePackage[] {
+  const byId = new Map(baseline.map(pkg => [pkg.metadata.id, pkg]));
+  replacements.forEach(pkg => byId.set(pkg.metadata.id, pkg));
+  return Array.from(byId.values());
+}
+
+/**
+ * Counties with Area Median Income data, so housing programs see real limits
+ */
+async function loadCounties(states: string[]): Promise<Record<string, string[]>> {
+  const service = AMIDataService.getInstance();
+  const counties: Record<string, string[]> = {};
+  for (const state of states) {
+    const available = await service.getCountiesForState(state);
+    if (available.length > 0) {
+      counties[state] = available;
+    }
+  }
+  return counties;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function parseSimulationSettings(args: string[]): SimulationSettings {
+  const settings: SimulationSettings = { population: { size: 1000, seed: 1 }, json: false };
+  const value = (arg: string): string => arg.slice(arg.indexOf('=') + 1);
+
+  for (const arg of args) {
+    if (arg.startsWith('--size=')) {
+      settings.population.size = Number(value(arg));
+    } else if (arg.startsWith('--seed=')) {
+      settings.population.seed = Number(value(arg));
+    } else if (arg.startsWith('--states=')) {
+      settings.population.states = value(arg).split(',').map(state => state.trim().toUpperCase()).filter(Boolean);
+    } else if (arg.startsWith('--as-of=')) {
+      settings.asOf = Date.parse(value(arg));
+    } else if (arg.startsWith('--median-income=')) {
+      settings.population.income = { medianAnnual: Number(value(arg)) };
+    } else if (arg.startsWith('--candidate=')) {
+      settings.candidatePath = value(arg);
+    } else if (arg === '--json') {
+      settings.json = true;
+    }
+  }
+
+  if (!Number.isInteger(settings.population.size) || settings.population.size <= 0) {
+    throw new Error('--size must be a positive whole number');
+  }
+  if (settings.asOf !== undefined && Number.isNaN(settings.asOf)) {
+    throw new Error('--as-of must be a date (YYYY-MM-DD)');
+  }
+  settings.population.referenceDate = settings.asOf;
+
+  return settings;
+}
+
+/**
+ * Run `fn` with console output from rule evaluation silenced
+ *
+ * Data context preparation logs every income conversion, which would bury
+ * the report for thousands of households.
+ */
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const { log, warn, debug } = console;
+  console.log = console.warn = console.debug = (): void => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, { log, warn, debug });
+  }
+}
+
+async function main(): Promise<void> {
+  const settings = parseSimulationSettings(process.argv.slice(2));
+  registerBenefitOperators();
+
+  const baselinePackages = loadBaselinePackages();
+  const states = settings.population.states ?? [];
+  settings.population.counties = await quietly(() => loadCounties(states.length > 0 ? states : ['CA', 'FL', 'GA']));
+  const population = generatePopulation(settings.population);
+
+  const start = performance.now();
+  const baseline = await quietly(() =>
+    simulateEligibility(population, buildSimulationPrograms(baselinePackages), { asOf: settings.asOf })
+  );
+
+  if (!settings.candidatePath) {
+    console.log(settings.json ? JSON.stringify({ baseline }, null, 2) : formatSimulationReport(baseline));
+  } else {
+    const candidatePackages = replacePackages(baselinePackages, loadPackages(settings.candidatePath));
+    const candidate = await quietly(() =>
+      simulateEligibility(population, buildSimulationPrograms(candidatePackages), { asOf: settings.asOf })
+    );
+    const delta = compareSimulations(baseline, candidate);
+    console.log(settings.json
+      ? JSON.stringify({ baseline, candidate, delta }, null, 2)
+      : formatSimulationReport(candidate, delta));
+  }
+
+  console.error(`Simulated ${population.length} households in ${Math.round(performance.now() - start)}ms`);
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -6,12 +6,27 @@
  *   npm run validate-rules [filepath]
  *   npm run validate-rules src/rules/packages/snap-federal-rules.json
  *   npm run validate-rules  (validates all rules in packages/)
+ *
+ * Coverage options:
+ *   --coverage                 Report which JSON Logic branches the test cases reach
+ *   --mutation                 Also report mutants (changed thresholds/operators) the tests miss
+ *   --min-branch-coverage=80   Fail packages whose branch coverage is below 80%
+ *   --min-mutation-score=60    Fail packages whose mutation score is below 60%
  */
 
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { validateRulePackage } from '../src/rules/core/schema';
+import { resolvePackageRules } from '../src/rules/core/packageResolution';
+import { validateRuleVariables } from '../src/rules/core/validator';
+import { getTranslationCoverage, type TranslationCoverage } from '../src/rules/core/localization';
+import {
+  analyzePackageCoverage,
+  type CoverageEvaluator,
+  type PackageCoverageReport,
+} from '../src/rules/core/coverage';
 import type { RulePackage, RuleDefinition } from '../src/rules/core/schema';
+import type { JsonLogicRule } from '../src/rules/core/types';
 import jsonLogic from 'json-logic-js';
 import { registerBenefitOperators } from '../src/rules/core/evaluator';
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -60,6 +75,15 @@ interface ValidationReport {
   warnings: string[];
   ruleCount: number;
   testResults?: TestSuiteReport;
+  translationCoverage?: TranslationCoverage[];
+  coverage?: PackageCoverageReport;
+}
+
+interface CoverageSettings {
+  coverage: boolean;
+  mutation: boolean;
+  minBranchCoverage?: number;
+  minMutationScore?: number;
 }
 
 interface TestSuiteReport {
@@ -79,6 +103,11 @@ interface RuleTestReport {
   warnings: string[];
 }
 
+interface RelationshipReport {
+  errors: string[];
+  warnings: string[];
+}
+
 interface TestFailure {
   testId: string;
   description: string;
@@ -174,6 +203,27 @@ function validatePackageStructure(pkg: RulePackage, filepath: string): Validatio
       }
     });
 
+    // Check variables against the variable registry
+    pkg.rules.forEach((rule: RuleDefinition) => {
+      validateRuleVariables(rule.ruleLogic as JsonLogicRule).forEach((warning) => {
+        report.warnings.push(`Rule ${rule.id}: ${warning.message}`);
+      });
+    });
+
+    // Check that translated lists line up with the lists they translate
+    pkg.rules.forEach((rule: RuleDefinition) => {
+      Object.entries(rule.translations ?? {}).forEach(([language, translation]) => {
+        if ((translation.requiredDocuments?.length ?? 0) > (rule.requiredDocuments?.length ?? 0)) {
+          report.warnings.push(`Rule ${rule.id} has more ${language} requiredDocuments than requiredDocuments`);
+        }
+        if ((translation.nextSteps?.length ?? 0) > (rule.nextSteps?.length ?? 0)) {
+          report.warnings.push(`Rule ${rule.id} has more ${language} nextSteps than nextSteps`);
+        }
+      });
+    });
+
+    report.translationCoverage = getTranslationCoverage(pkg.rules);
+
     // Check for draft rules that are active
     pkg.rules.forEach((rule: RuleDefinition) => {
       if (rule.draft && rule.active) {
@@ -185,6 +235,73 @@ function validatePackageStructure(pkg: RulePackage, filepath: string): Validatio
   return report;
 }
 
+/**
+ * Check `extends` / `overrides` relationships across packages
+ *
+ * Flags overrides whose target is not in any extended package, rules that
+ * redefine or doubly override an inherited rule, and circular extends.
+ * Packages that share an ID are merged so either file can serve as the base.
+ */
+function validatePackageRelationships(
+  packages: Array<{ file: string; pkg: RulePackage }>
+): Map<string, RelationshipReport> {
+  const reports = new Map<string, RelationshipReport>();
+  const getReport = (file: string): RelationshipReport => {
+    const existing = reports.get(file);
+    if (existing) {return existing;}
+    const created: RelationshipReport = { errors: [], warnings: [] };
+    reports.set(file, created);
+    return created;
+  };
+
+  const filesById = new Map<string, string[]>();
+  packages.forEach(({ file, pkg }) => {
+    filesById.set(pkg.metadata.id, [...(filesById.get(pkg.metadata.id) ?? []), file]);
+  });
+
+  const mergedById = new Map<string, RulePackage>();
+  packages.forEach(({ pkg }) => {
+    const merged = mergedById.get(pkg.metadata.id);
+    if (!merged) {
+      mergedById.set(pkg.metadata.id, { ...pkg, rules: [...pkg.rules] });
+      return;
+    }
+    const knownIds = new Set(merged.rules.map(rule => rule.id));
+    merged.rules.push(...pkg.rules.filter(rule => !knownIds.has(rule.id)));
+  });
+
+  packages.forEach(({ file, pkg }) => {
+    const declaresExtends = (pkg.metadata.extends ?? []).length > 0;
+    const declaresOverrides = pkg.rules.some(rule => rule.overrides);
+    if (!declaresExtends && !declaresOverrides) {return;}
+
+    const report = getReport(file);
+    const sameIdFiles = filesById.get(pkg.metadata.id) ?? [];
+    if (sameIdFiles.length > 1) {
+      report.warnings.push(`Package ID ${pkg.metadata.id} is also used by ${sameIdFiles.filter(f => f !== file).join(', ')}`);
+    }
+
+    const candidates = [
+      ...Array.from(mergedById.values()).filter(candidate => candidate.metadata.id !== pkg.metadata.id),
+      pkg,
+    ];
+    const { issues } = resolvePackageRules(pkg.metadata.id, candidates);
+    const hasMissingBase = issues.some(issue => issue.type === 'missing-base');
+
+    issues.forEach((issue) => {
+      if (issue.type === 'missing-base') {
+        report.warnings.push(`Cannot check overrides: ${issue.message} (validate it together with this file)`);
+      } else if (issue.type === 'orphaned-override' && hasMissingBase) {
+        // The target may be in the base package that was not loaded
+      } else {
+        report.errors.push(`${issue.type}: ${issue.message}`);
+      }
+    });
+  });
+
+  return reports;
+}
+
 /**
  * Test a single rule's logic with its test cases
  */
@@ -300,6 +417,73 @@ function testRulePackage(pkg: RulePackage, packagePath?: string): TestSuiteRepor
   return report;
 }
 
+/**
+ * Evaluate logic for a test case the same way `testRule` does
+ */
+function createCoverageEvaluator(rule: RuleDefinition, packagePath: string): CoverageEvaluator {
+  return (logic, testCase) => {
+    const input = normalizeTestInput(testCase.input, packagePath);
+    const resolvedLogic = resolveHouseholdMultiplication(logic, input, rule, packagePath);
+    return jsonLogic.apply(resolvedLogic as unknown as ReturnType<typeof jsonLogic.apply>, input);
+  };
+}
+
+/**
+ * Measure branch coverage (and mutation score) of a package and apply the minimums
+ */
+function checkPackageCoverage(
+  pkg: RulePackage,
+  packagePath: string,
+  settings: CoverageSettings,
+  report: ValidationReport
+): void {
+  const coverage = analyzePackageCoverage(
+    pkg.metadata.id,
+    pkg.rules.map(rule => ({ ...rule, ruleLogic: rule.ruleLogic as JsonLogicRule })),
+    (rule) => ({
+      mutation: settings.mutation,
+      evaluate: createCoverageEvaluator(rule as RuleDefinition, packagePath),
+    })
+  );
+  report.coverage = coverage;
+
+  if (settings.minBranchCoverage !== undefined && coverage.branchCoverage < settings.minBranchCoverage) {
+    report.errors.push(`Branch coverage ${coverage.branchCoverage}% is below the ${settings.minBranchCoverage}% minimum`);
+    report.valid = false;
+  }
+  if (
+    settings.minMutationScore !== undefined &&
+    coverage.mutationScore !== undefined &&
+    coverage.mutationScore < settings.minMutationScore
+  ) {
+    report.errors.push(`Mutation score ${coverage.mutationScore}% is below the ${settings.minMutationScore}% minimum`);
+    report.valid = false;
+  }
+}
+
+/**
+ * Read coverage options from the command line
+ */
+function parseCoverageSettings(args: string[]): CoverageSettings {
+  const readNumber = (name: string): number | undefined => {
+    const arg = args.find(a => a.startsWith(`--${name}=`));
+    if (!arg) {return undefined;}
+    const value = Number(arg.slice(name.length + 3));
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const minBranchCoverage = readNumber('min-branch-coverage');
+  const minMutationScore = readNumber('min-mutation-score');
+  const mutation = args.includes('--mutation') || minMutationScore !== undefined;
+
+  return {
+    coverage: mutation || args.includes('--coverage') || minBranchCoverage !== undefined,
+    mutation,
+    minBranchCoverage,
+    minMutationScore,
+  };
+}
+
 // ============================================================================
 // REPORTING FUNCTIONS
 // ============================================================================
@@ -527,10 +711,51 @@ function printValidationReport(report: ValidationReport): void {
     });
   }
 
+  // Translation coverage
+  report.translationCoverage?.forEach((coverage) => {
+    console.log(`  Translations (${coverage.language}): ${formatCoverage(coverage.translated, coverage.total)}`);
+  });
+
   // Test results
   if (report.testResults) {
     printTestReport(report.testResults);
   }
+
+  if (report.coverage) {
+    printCoverageReport(report.coverage);
+  }
+}
+
+/**
+ * Print branch coverage and surviving mutants
+ */
+function printCoverageReport(coverage: PackageCoverageReport): void {
+  console.log(`\n${colors.bright}Coverage:${colors.reset}`);
+  console.log(`  Branches: ${coverage.coveredBranches}/${coverage.totalBranches} (${coverage.branchCoverage}%)`);
+  if (coverage.mutationScore !== undefined) {
+    console.log(`  Mutants killed: ${coverage.killedMutants}/${coverage.totalMutants} (${coverage.mutationScore}%)`);
+  }
+
+  coverage.rules.forEach((rule) => {
+    const survivors = rule.mutation?.survivors ?? [];
+    if (rule.uncoveredBranches.length === 0 && survivors.length === 0) {return;}
+
+    console.log(`\n  ${colors.bright}${rule.ruleId}${colors.reset} (${rule.passingTests} passing test(s))`);
+    if (rule.uncoveredBranches.length > 0) {
+      console.log(`    ${colors.yellow}Uncovered:${colors.reset} ${rule.uncoveredBranches.map(b => b.id).join(', ')}`);
+    }
+    survivors.forEach((survivor) => {
+      console.log(`    ${colors.yellow}Survived:${colors.reset} ${survivor.path} ${survivor.description}`);
+    });
+  });
+}
+
+/**
+ * Format translated/total strings as a count and percentage
+ */
+function formatCoverage(translated: number, total: number): string {
+  const percent = total === 0 ? 100 : Math.round((translated / total) * 100);
+  return `${translated}/${total} strings (${percent}%)`;
 }
 
 /**
@@ -590,6 +815,30 @@ function printSummary(reports: ValidationReport[]): void {
   console.log(`Rules: ${totalRules} total`);
   console.log(`Tests: ${passedTests}/${totalTests} passed`);
 
+  const coverageByLanguage = new Map<string, { translated: number; total: number }>();
+  reports.forEach((r) => r.translationCoverage?.forEach((coverage) => {
+    const totals = coverageByLanguage.get(coverage.language) ?? { translated: 0, total: 0 };
+    totals.translated += coverage.translated;
+    totals.total += coverage.total;
+    coverageByLanguage.set(coverage.language, totals);
+  }));
+  coverageByLanguage.forEach((totals, language) => {
+    console.log(`Translations (${language}): ${formatCoverage(totals.translated, totals.total)}`);
+  });
+
+  const coverageReports = reports.map(r => r.coverage).filter((c): c is PackageCoverageReport => c !== undefined);
+  if (coverageReports.length > 0) {
+    const covered = coverageReports.reduce((sum, c) => sum + c.coveredBranches, 0);
+    const branches = coverageReports.reduce((sum, c) => sum + c.totalBranches, 0);
+    console.log(`Branches: ${covered}/${branches} covered (${branches === 0 ? 100 : Math.round((covered / branches) * 100)}%)`);
+
+    const killed = coverageReports.reduce((sum, c) => sum + (c.killedMutants ?? 0), 0);
+    const mutants = coverageReports.reduce((sum, c) => sum + (c.totalMutants ?? 0), 0);
+    if (mutants > 0) {
+      console.log(`Mutants: ${killed}/${mutants} killed (${Math.round((killed / mutants) * 100)}%)`);
+    }
+  }
+
   if (validFiles === totalFiles && failedTests === 0) {
     console.log(`\n${colors.green}${colors.bright}✓ All validations passed!${colors.reset}\n`);
   } else if (validFiles < totalFiles) {
@@ -610,7 +859,8 @@ function main(): void {
   // Register custom benefit operators before running tests
   registerBenefitOperators();
 
-  const args = process.argv.slice(2);
+  const args = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const coverageSettings = parseCoverageSettings(process.argv.slice(2));
 
   let filesToValidate: string[] = [];
 
@@ -658,6 +908,7 @@ function main(): void {
   console.log(`${colors.bright}Validating ${filesToValidate.length} rule file(s)...${colors.reset}`);
 
   const reports: ValidationReport[] = [];
+  const loadedPackages: Array<{ file: string; pkg: RulePackage }> = [];
 
   filesToValidate.forEach((filepath) => {
     const pkg = loadRulePackage(filepath);
@@ -677,9 +928,26 @@ function main(): void {
     // Run tests if validation passed
     if (report.valid) {
       report.testResults = testRulePackage(pkg, filepath);
+      if (coverageSettings.coverage) {
+        checkPackageCoverage(pkg, filepath, coverageSettings, report);
+      }
     }
 
     reports.push(report);
+    loadedPackages.push({ file: filepath, pkg });
+  });
+
+  // Cross-package checks need every package loaded first
+  const relationshipReports = validatePackageRelationships(loadedPackages);
+  reports.forEach((report) => {
+    const relationships = relationshipReports.get(report.file);
+    if (relationships) {
+      report.errors.push(...relationships.errors);
+      report.warnings.push(...relationships.warnings);
+      if (relationships.errors.length > 0) {
+        report.valid = false;
+      }
+    }
     printValidationReport(report);
   });
 
@@ -711,8 +979,8 @@ function main(): void {
   process.exit(hasBlockingErrors ? 1 : 0);
 }
 
-export { validatePackageStructure, testRulePackage, computeFplThresholdFromBase, resolveHouseholdMultiplication, normalizeTestInput, FPL_BASE_MAPPING };
-export type { ValidationReport, TestSuiteReport };
+export { validatePackageStructure, validatePackageRelationships, testRulePackage, checkPackageCoverage, parseCoverageSettings, computeFplThresholdFromBase, resolveHouseholdMultiplication, normalizeTestInput, FPL_BASE_MAPPING };
+export type { ValidationReport, TestSuiteReport, RelationshipReport, CoverageSettings };
 
 // Run main function when executed as a script (not when imported by tests)
 try {
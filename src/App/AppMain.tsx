@@ -3,13 +3,14 @@
  * Refactored modular structure
  */
 
-import React from 'react';
+import React, { Suspense } from 'react';
 import { LiveRegion } from '../questionnaire/accessibility';
 import { ErrorBoundary } from '../components/ErrorBoundary';
 import { ThemeProvider } from '../contexts/ThemeContext';
 import { TextSizeProvider } from '../contexts/TextSizeContext';
 import { KeyboardShortcuts } from '../components/KeyboardShortcuts';
 import { Routes } from '../components/Routes';
+import { LazyRuleDebuggerPanel, LazyRulePackageImport } from '../components/LazyComponents';
 import type { EligibilityResults } from '../components/results';
 
 // Import modular pieces
@@ -64,7 +65,7 @@ function App(): React.ReactElement {
   } = useResultsLoader();
 
   // Effects
-  useDevHelpers();
+  const { isRuleDebuggerOpen, closeRuleDebugger, isRulePackageImportOpen, closeRulePackageImport } = useDevHelpers();
   useRoutePreloading(appState);
   useTestMode(appState, setCurrentResults, setHasResults, async (params) => {
     await saveResults(params);
@@ -109,7 +110,7 @@ function App(): React.ReactElement {
     }
   );
 
-  const { handleImportResults } = createResultsHandlers(
+  const { handleImportResults, handlePreviewRuleChanges } = createResultsHandlers(
     async (params) => {
       await saveResults(params);
     },
@@ -118,6 +119,10 @@ function App(): React.ReactElement {
     setAnnouncementMessage
   );
 
+  // Rule change previews re-evaluate the stored profile, so they are only
+  // offered for results from this session's questionnaire
+  const previewProfileId = typeof currentUserProfile?.profileId === 'string' ? currentUserProfile.profileId : undefined;
+
   return (
     <ErrorBoundary
       onError={(error: Error, errorInfo: React.ErrorInfo) => {
@@ -178,6 +183,9 @@ function App(): React.ReactElement {
                   onImportResults={async (results: EligibilityResults) => {
                     await handleImportResults(results);
                   }}
+                  onPreviewRuleChanges={previewProfileId
+                    ? async (asOfDate: Date) => handlePreviewRuleChanges(previewProfileId, asOfDate)
+                    : undefined}
                 />
               )}
               {appState === 'error' && (
@@ -201,6 +209,18 @@ function App(): React.ReactElement {
               onStartAssessmentFromGuide={handleStartAssessmentFromGuide}
               onCloseShortcutsHelp={() => setShowShortcutsHelp(false)}
             />
+
+            {import.meta.env.DEV && isRuleDebuggerOpen && (
+              <Suspense fallback={null}>
+                <LazyRuleDebuggerPanel profile={currentUserProfile} onClose={closeRuleDebugger} />
+              </Suspense>
+            )}
+
+            {import.meta.env.DEV && isRulePackageImportOpen && (
+              <Suspense fallback={null}>
+                <LazyRulePackageImport open onOpenChange={(open) => { if (!open) {closeRulePackageImport();} }} />
+              </Suspense>
+            )}
           </div>
         </TextSizeProvider>
       </ThemeProvider>
@@ -7,12 +7,11 @@ import type { AppState } from '../types';
 import type { EligibilityResults } from '../../components/results';
 import { initializeApp } from '../../utils/initializeApp';
 import { createUserProfile } from '../../db/utils';
-import { evaluateAllPrograms, getAllProgramRuleIds } from '../../rules';
+import { evaluateAllPrograms } from '../../rules';
 import {
   convertAnswersToProfileData,
   importRulesWithLogging,
-  createResultFromEvaluation,
-  categorizeResults,
+  buildEligibilityResults,
 } from '../utils';
 
 export function createQuestionnaireHandlers(
@@ -68,7 +67,7 @@ export function createQuestionnaireHandlers(
           console.warn(`  - Citizenship: ${profile.citizenship}`);
         }
 
-        setCurrentUserProfile({ ...userProfile });
+        setCurrentUserProfile({ ...userProfile, profileId: profile.id });
         await importRulesWithLogging(state);
 
         console.log('🔍 [DEBUG] handleCompleteQuestionnaire: About to evaluate all programs for profile:', profile.id);
@@ -102,58 +101,7 @@ export function createQuestionnaireHandlers(
         }
       }
 
-      const programRulesMap = new Map<string, string[]>();
-      for (const result of evaluationResults) {
-        if (!programRulesMap.has(result.programId)) {
-          const allRules = await getAllProgramRuleIds(result.programId);
-          programRulesMap.set(result.programId, allRules);
-        }
-      }
-      console.log('[DEBUG] App.tsx - programRulesMap', programRulesMap);
-
-      const { qualified, maybe, incomeHardStops, notQualified } = categorizeResults(evaluationResults);
-
-      const qualifiedResults = qualified.map((result) => ({
-        ...createResultFromEvaluation(result, programRulesMap),
-        status: 'qualified' as const,
-        confidence: result.confidence > 80 ? 'high' as const : 'medium' as const,
-      }));
-
-      const maybeResults = maybe.map((result) => ({
-        ...createResultFromEvaluation(result, programRulesMap),
-        status: 'maybe' as const,
-        confidence: result.confidence < 50 ? 'low' as const : 'medium' as const,
-      }));
-
-      const incomeHardStopResults = incomeHardStops.map((result) => ({
-        ...createResultFromEvaluation(result, programRulesMap),
-        status: 'not-qualified' as const,
-        confidence: 'high' as const,
-      }));
-
-      const notQualifiedResults = notQualified.map((result) => ({
-        ...createResultFromEvaluation(result, programRulesMap),
-        status: 'not-qualified' as const,
-        confidence: result.confidence >= 90 ? 'high' as const : 'medium' as const,
-      }));
-
-      const results = {
-        qualified: qualifiedResults,
-        likely: [],
-        maybe: maybeResults,
-        notQualified: [...incomeHardStopResults, ...notQualifiedResults],
-        totalPrograms: evaluationResults.length,
-        evaluatedAt: new Date()
-      };
-
-      console.log('🔍 [UI CATEGORIZATION] Final categorization results:', {
-        qualified: qualifiedResults.length,
-        maybe: maybeResults.length,
-        incomeHardStops: incomeHardStopResults.length,
-        notQualified: notQualifiedResults.length,
-        totalNotQualified: results.notQualified.length,
-        totalPrograms: evaluationResults.length,
-      });
+      const results = await buildEligibilityResults(evaluationResults);
 
       await saveResults({ results });
       setCurrentResults(results);
@@ -1,9 +1,11 @@
 /**
  * Results handlers
- * Manages results import operations
+ * Manages results import and rule change preview operations
  */
 
 import type { EligibilityResults } from '../../components/results';
+import { evaluateAllPrograms } from '../../rules';
+import { buildEligibilityResults } from '../utils';
 
 export function createResultsHandlers(
   saveResults: (params: { results: EligibilityResults }) => Promise<void>,
@@ -23,7 +25,18 @@ export function createResultsHandlers(
     }
   };
 
+  /**
+   * Re-evaluate a profile under the rules in effect on another date
+   *
+   * Preview results are returned to the caller and are not saved.
+   */
+  const handlePreviewRuleChanges = async (profileId: string, asOfDate: Date): Promise<EligibilityResults> => {
+    const batchResult = await evaluateAllPrograms(profileId, { asOfDate: asOfDate.getTime() });
+    return buildEligibilityResults(Array.from(batchResult.programResults.values()), asOfDate.getTime());
+  };
+
   return {
     handleImportResults,
+    handlePreviewRuleChanges,
   };
 }
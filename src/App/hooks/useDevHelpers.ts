@@ -1,14 +1,18 @@
 /**
  * Development helpers hook
- * Registers global development utilities
+ * Registers global development utilities and tracks the rule debugger panel
+ * and rule package import dialog
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { clearDatabase } from '../../db/database';
 import { clearAndReinitialize } from '../../utils/clearAndReinitialize';
 import { forceFixProgramNames } from '../../utils/forceFixProgramNames';
 
 export function useDevHelpers() {
+  const [isRuleDebuggerOpen, setIsRuleDebuggerOpen] = useState(false);
+  const [isRulePackageImportOpen, setIsRulePackageImportOpen] = useState(false);
+
   useEffect(() => {
     if (!import.meta.env.DEV) { return; }
 
@@ -47,5 +51,20 @@ export function useDevHelpers() {
         console.error('Failed to force fix program names:', error);
       }
     };
+
+    // Step through a program's rules against the current profile
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (window as any).openRuleDebugger = () => setIsRuleDebuggerOpen(true);
+
+    // Import a rule package file into the local database
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (window as any).openRulePackageImport = () => setIsRulePackageImportOpen(true);
   }, []);
+
+  return {
+    isRuleDebuggerOpen,
+    closeRuleDebugger: () => setIsRuleDebuggerOpen(false),
+    isRulePackageImportOpen,
+    closeRulePackageImport: () => setIsRulePackageImportOpen(false),
+  };
 }
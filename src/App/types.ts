@@ -2,6 +2,8 @@
  * App-level type definitions
  */
 
+import type { HouseholdAssets, HouseholdMember, IncomeSourceEntry } from '../db/schemas';
+
 export type AppState = 'home' | 'questionnaire' | 'results' | 'error';
 
 export interface ProfileData {
@@ -18,6 +20,14 @@ export interface ProfileData {
   hasChildren: boolean;
   isBlind?: boolean;
   isElderly?: boolean;
+  householdMembers?: HouseholdMember[];
+  incomeSourceEntries?: IncomeSourceEntry[];
+  shelterCosts?: number;
+  paysHeatingCooling?: boolean;
+  dependentCareCosts?: number;
+  childSupportPaid?: number;
+  medicalExpenses?: number;
+  assets?: HouseholdAssets;
 }
 
 export interface UserProfile {
@@ -32,4 +42,12 @@ export interface UserProfile {
   hasChildren: boolean;
   isBlind?: boolean;
   isElderly?: boolean;
+  householdMembers?: HouseholdMember[];
+  incomeSourceEntries?: IncomeSourceEntry[];
+  shelterCosts?: number;
+  paysHeatingCooling?: boolean;
+  dependentCareCosts?: number;
+  childSupportPaid?: number;
+  medicalExpenses?: number;
+  assets?: HouseholdAssets;
 }
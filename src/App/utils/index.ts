@@ -6,3 +6,4 @@ export { convertAnswersToProfileData } from './profileConversion';
 export { importRulesWithLogging } from './ruleImport';
 export { createResultFromEvaluation } from './resultTransform';
 export { categorizeResults } from './resultCategorization';
+export { buildEligibilityResults } from './resultAssembly';
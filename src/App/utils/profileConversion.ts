@@ -4,13 +4,108 @@
  */
 
 import type { ProfileData, UserProfile } from '../types';
+import type { HouseholdAssets, HouseholdMember, IncomeSourceEntry } from '../../db/schemas';
+import { deriveHouseholdFields, normalizeHouseholdMembers } from '../../utils/householdMembers';
+import { normalizeHouseholdAssets } from '../../utils/countableResources';
+import { normalizeIncomeSources, summarizeIncomeSources } from '../../utils/incomeSources';
+
+/**
+ * Replace the lump-sum income answer with the total of the income sources
+ *
+ * Sources are converted to monthly by pay frequency; the flat profile
+ * stores income as annual.
+ */
+function applyIncomeSources(profileData: ProfileData, entries: IncomeSourceEntry[]): ProfileData {
+  if (entries.length === 0) {
+    return profileData;
+  }
+
+  const { details } = summarizeIncomeSources(entries);
+
+  return {
+    ...profileData,
+    incomeSourceEntries: entries,
+    householdIncome: Math.round(details.total * 12 * 100) / 100,
+    incomePeriod: 'annual',
+  };
+}
+
+/**
+ * Overlay fields derived from the household member list onto the flat profile
+ *
+ * Members are the more detailed source, so any field they determine replaces
+ * the corresponding lump-sum answer. Member income is monthly; the flat
+ * profile stores income as annual.
+ */
+function applyHouseholdMembers(profileData: ProfileData, members: HouseholdMember[]): ProfileData {
+  if (members.length === 0) {
+    return profileData;
+  }
+
+  const derived = deriveHouseholdFields(members);
+
+  return {
+    ...profileData,
+    householdMembers: members,
+    householdSize: derived.householdSize,
+    householdIncome: derived.monthlyIncome !== undefined ? derived.monthlyIncome * 12 : profileData.householdIncome,
+    incomePeriod: derived.monthlyIncome !== undefined ? 'annual' : profileData.incomePeriod,
+    dateOfBirth: derived.dateOfBirth ?? profileData.dateOfBirth,
+    citizenship: derived.citizenship ?? profileData.citizenship,
+    hasDisability: derived.hasDisability ?? profileData.hasDisability,
+    isBlind: derived.isBlind ?? profileData.isBlind,
+    isElderly: derived.isElderly ?? profileData.isElderly,
+    isPregnant: derived.isPregnant || profileData.isPregnant,
+    hasChildren: derived.hasChildren || profileData.hasChildren,
+  };
+}
+
+/**
+ * Parse an optional currency answer; blank or invalid answers are omitted
+ */
+function parseOptionalAmount(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {return undefined;}
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]+/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Parse an optional yes/no answer; unanswered questions are omitted
+ */
+function parseOptionalBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === 'true') {return true;}
+  if (value === false || value === 'false') {return false;}
+  return undefined;
+}
+
+/**
+ * Collect asset answers into the profile's assets object
+ *
+ * Answering "no" to the assets question records an empty object (nothing
+ * to count); leaving it unanswered leaves assets unknown.
+ */
+function parseAssets(answers: Record<string, unknown>): HouseholdAssets | undefined {
+  const hasAssets = parseOptionalBoolean(answers.hasAssets);
+  if (hasAssets === undefined) {return undefined;}
+  if (!hasAssets) {return {};}
+
+  return normalizeHouseholdAssets({
+    cash: answers.assetCash,
+    bankAccounts: answers.assetBankAccounts,
+    primaryVehicle: answers.assetPrimaryVehicle,
+    otherVehicles: answers.assetOtherVehicles,
+    realProperty: answers.assetRealProperty,
+    retirementAccounts: answers.assetRetirementAccounts,
+  });
+}
 
 export function convertAnswersToProfileData(answers: Record<string, unknown>): {
   profileData: ProfileData;
   userProfile: UserProfile;
 } {
   const rawIncome = answers.householdIncome as unknown;
-  const incomePeriod = (answers.incomePeriod as string) ?? 'annual';
+  // "sources" means income was entered per source; the total is applied below
+  const incomePeriod = answers.incomePeriod === 'sources' ? 'annual' : (answers.incomePeriod as string) ?? 'annual';
   const householdSize = Number(answers.householdSize) || 1;
 
   // Normalize income: accept numbers or numeric strings, default to 0 when null/invalid
@@ -63,34 +158,51 @@ export function convertAnswersToProfileData(answers: Record<string, unknown>): {
     console.warn(`  - State: ${state}`);
   }
 
+  const profileData = applyHouseholdMembers(applyIncomeSources({
+    householdSize,
+    householdIncome: annualIncome,
+    incomePeriod: incomePeriod as 'monthly' | 'annual',
+    dateOfBirth,
+    citizenship: citizenship as 'us_citizen' | 'permanent_resident' | 'refugee' | 'asylee' | 'other',
+    employmentStatus: employmentStatus as 'employed' | 'unemployed' | 'self_employed' | 'retired' | 'disabled' | 'student',
+    state,
+    county,
+    hasDisability: hasQualifyingDisability,
+    isPregnant,
+    hasChildren,
+    isBlind,
+    isElderly,
+    // Monthly expenses used for SNAP net income deductions
+    shelterCosts: parseOptionalAmount(answers.shelterCosts),
+    paysHeatingCooling: parseOptionalBoolean(answers.paysHeatingCooling),
+    dependentCareCosts: parseOptionalAmount(answers.dependentCareCosts),
+    childSupportPaid: parseOptionalAmount(answers.childSupportPaid),
+    medicalExpenses: parseOptionalAmount(answers.medicalExpenses),
+    assets: parseAssets(answers),
+  }, normalizeIncomeSources(answers.incomeSourceEntries)), normalizeHouseholdMembers(answers.householdMembers));
+
   return {
-    profileData: {
-      householdSize,
-      householdIncome: annualIncome,
-      incomePeriod: incomePeriod as 'monthly' | 'annual',
-      dateOfBirth,
-      citizenship: citizenship as 'us_citizen' | 'permanent_resident' | 'refugee' | 'asylee' | 'other',
-      employmentStatus: employmentStatus as 'employed' | 'unemployed' | 'self_employed' | 'retired' | 'disabled' | 'student',
-      state,
-      county,
-      hasDisability: hasQualifyingDisability,
-      isPregnant,
-      hasChildren,
-      isBlind,
-      isElderly,
-    },
+    profileData,
     userProfile: {
       state,
-      householdSize,
-      householdIncome: annualIncome,
-      incomePeriod: incomePeriod as 'monthly' | 'annual',
-      citizenship,
+      householdSize: profileData.householdSize,
+      householdIncome: profileData.householdIncome,
+      incomePeriod: profileData.incomePeriod,
+      citizenship: profileData.citizenship,
       employmentStatus,
-      hasDisability: hasQualifyingDisability,
-      isPregnant,
-      hasChildren,
-      isBlind,
-      isElderly
+      hasDisability: profileData.hasDisability,
+      isPregnant: profileData.isPregnant,
+      hasChildren: profileData.hasChildren,
+      isBlind: profileData.isBlind,
+      isElderly: profileData.isElderly,
+      householdMembers: profileData.householdMembers,
+      incomeSourceEntries: profileData.incomeSourceEntries,
+      shelterCosts: profileData.shelterCosts,
+      paysHeatingCooling: profileData.paysHeatingCooling,
+      dependentCareCosts: profileData.dependentCareCosts,
+      childSupportPaid: profileData.childSupportPaid,
+      medicalExpenses: profileData.medicalExpenses,
+      assets: profileData.assets,
     }
   };
 }
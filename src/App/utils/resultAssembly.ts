@@ -0,0 +1,74 @@
+/**
+ * Result assembly utilities
+ * Builds the results page data from a batch of evaluation results
+ */
+
+import type { EligibilityResults } from '../../components/results';
+import { getAllProgramRuleIds, type EligibilityEvaluationResult } from '../../rules';
+import { createResultFromEvaluation } from './resultTransform';
+import { categorizeResults } from './resultCategorization';
+
+/**
+ * Categorize evaluation results and convert them to display format
+ *
+ * @param asOfDate Cite the rules in effect on this date (ms timestamp) instead of today
+ */
+export async function buildEligibilityResults(
+  evaluationResults: EligibilityEvaluationResult[],
+  asOfDate?: number
+): Promise<EligibilityResults> {
+  const programRulesMap = new Map<string, string[]>();
+  for (const result of evaluationResults) {
+    if (!programRulesMap.has(result.programId)) {
+      const allRules = await getAllProgramRuleIds(result.programId, asOfDate);
+      programRulesMap.set(result.programId, allRules);
+    }
+  }
+  console.log('[DEBUG] App.tsx - programRulesMap', programRulesMap);
+
+  const { qualified, maybe, incomeHardStops, notQualified } = categorizeResults(evaluationResults);
+
+  const qualifiedResults = qualified.map((result) => ({
+    ...createResultFromEvaluation(result, programRulesMap),
+    status: 'qualified' as const,
+    confidence: result.confidence > 80 ? 'high' as const : 'medium' as const,
+  }));
+
+  const maybeResults = maybe.map((result) => ({
+    ...createResultFromEvaluation(result, programRulesMap),
+    status: 'maybe' as const,
+    confidence: result.confidence < 50 ? 'low' as const : 'medium' as const,
+  }));
+
+  const incomeHardStopResults = incomeHardStops.map((result) => ({
+    ...createResultFromEvaluation(result, programRulesMap),
+    status: 'not-qualified' as const,
+    confidence: 'high' as const,
+  }));
+
+  const notQualifiedResults = notQualified.map((result) => ({
+    ...createResultFromEvaluation(result, programRulesMap),
+    status: 'not-qualified' as const,
+    confidence: result.confidence >= 90 ? 'high' as const : 'medium' as const,
+  }));
+
+  const results = {
+    qualified: qualifiedResults,
+    likely: [],
+    maybe: maybeResults,
+    notQualified: [...incomeHardStopResults, ...notQualifiedResults],
+    totalPrograms: evaluationResults.length,
+    evaluatedAt: new Date()
+  };
+
+  console.log('🔍 [UI CATEGORIZATION] Final categorization results:', {
+    qualified: qualifiedResults.length,
+    maybe: maybeResults.length,
+    incomeHardStops: incomeHardStopResults.length,
+    notQualified: notQualifiedResults.length,
+    totalNotQualified: results.notQualified.length,
+    totalPrograms: evaluationResults.length,
+  });
+
+  return results;
+}
@@ -6,6 +6,8 @@
 import type { EligibilityEvaluationResult } from '../../rules';
 
 function isIncomeHardStop(result: EligibilityEvaluationResult): boolean {
+  // Unanswered questions left the result open; no income test failed
+  if (result.incomplete) { return false; }
   return result.reason.includes('income') ||
     result.reason.includes('Income') ||
     result.reason.includes('hard stop') ||
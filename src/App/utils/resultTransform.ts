@@ -3,11 +3,39 @@
  * Converts evaluation results to display format
  */
 
-import type { EligibilityEvaluationResult } from '../../rules';
+import { describeCategoricalEligibility, type Counterfactual, type EligibilityEvaluationResult } from '../../rules';
+import type { RuleContentTranslations } from '../../rules/core/schema';
 import { getProgramName, getProgramDescription } from '../../utils/programHelpers';
 import { formatCriteriaDetails } from '../../utils/formatCriteriaDetails';
+import type { BenefitCalculationStep } from '../../utils/benefitEstimators';
 import { US_FEDERAL_JURISDICTION } from '../constants';
 
+type DisplayEstimate = {
+  amount: number;
+  frequency: 'monthly' | 'annual' | 'one-time';
+  description?: string;
+  descriptionKey?: string;
+  descriptionValues?: Record<string, string | number>;
+  steps?: BenefitCalculationStep[];
+};
+
+function toDisplayEstimate(estimate: NonNullable<EligibilityEvaluationResult['estimatedBenefit']>): DisplayEstimate {
+  return {
+    amount: estimate.amount ?? 0,
+    frequency: ((): 'monthly' | 'annual' | 'one-time' => {
+      const freq = estimate.frequency;
+      if (freq === 'one_time') { return 'one-time'; }
+      if (freq === 'quarterly') { return 'monthly'; }
+      if (freq === 'annual') { return 'annual'; }
+      return 'monthly';
+    })(),
+    description: estimate.description,
+    descriptionKey: estimate.descriptionKey,
+    descriptionValues: estimate.descriptionValues,
+    steps: estimate.steps
+  };
+}
+
 export function createResultFromEvaluation(
   result: EligibilityEvaluationResult,
   programRulesMap: Map<string, string[]>
@@ -21,6 +49,8 @@ export function createResultFromEvaluation(
     reason: string;
     details: string[];
     rulesCited: string[];
+    counterfactuals?: Counterfactual[];
+    missingFields?: string[];
   };
   requiredDocuments: Array<{
     id: string;
@@ -36,11 +66,9 @@ export function createResultFromEvaluation(
   }>;
   evaluatedAt: Date;
   rulesVersion: string;
-  estimatedBenefit?: {
-    amount: number;
-    frequency: 'monthly' | 'annual' | 'one-time';
-    description?: string;
-  };
+  translations?: RuleContentTranslations;
+  estimatedBenefit?: DisplayEstimate;
+  estimatedCost?: DisplayEstimate;
 } {
   const baseResult = {
     programId: result.programId,
@@ -50,8 +78,13 @@ export function createResultFromEvaluation(
     confidenceScore: result.confidence,
     explanation: {
       reason: result.reason,
-      details: formatCriteriaDetails(result.criteriaResults, result.eligible, result.programId),
-      rulesCited: programRulesMap.get(result.programId) ?? [result.ruleId]
+      details: [
+        ...describeCategoricalEligibility(result.programId, result.categoricallyEligibleVia ?? []),
+        ...formatCriteriaDetails(result.criteriaResults, result.eligible, result.programId)
+      ],
+      rulesCited: programRulesMap.get(result.programId) ?? [result.ruleId],
+      counterfactuals: result.counterfactuals,
+      missingFields: result.missingFields
     },
     requiredDocuments: result.requiredDocuments?.map(doc => ({
       id: `doc-${Math.random().toString(36).substr(2, 9)}`,
@@ -66,25 +99,13 @@ export function createResultFromEvaluation(
       priority: step.priority ?? 'medium' as const
     })) ?? [],
     evaluatedAt: new Date(result.evaluatedAt),
-    rulesVersion: result.ruleVersion ?? '1.0.0'
+    rulesVersion: result.ruleVersion ?? '1.0.0',
+    translations: result.translations
   };
 
-  if (result.estimatedBenefit) {
-    return {
-      ...baseResult,
-      estimatedBenefit: {
-        amount: result.estimatedBenefit.amount ?? 0,
-        frequency: ((): 'monthly' | 'annual' | 'one-time' => {
-          const freq = result.estimatedBenefit.frequency;
-          if (freq === 'one_time') { return 'one-time'; }
-          if (freq === 'quarterly') { return 'monthly'; }
-          if (freq === 'annual') { return 'annual'; }
-          return 'monthly';
-        })(),
-        description: result.estimatedBenefit.description
-      }
-    };
-  }
-
-  return baseResult;
+  return {
+    ...baseResult,
+    ...(result.estimatedBenefit && { estimatedBenefit: toDisplayEstimate(result.estimatedBenefit) }),
+    ...(result.estimatedCost && { estimatedCost: toDisplayEstimate(result.estimatedCost) })
+  };
 }
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { validatePackageRelationships } from '../../scripts/validate-rules';
+import type { RulePackage, RuleDefinition } from '../rules/core/schema';
+
+const rule = (id: string, overrides?: string): RuleDefinition => ({
+  id,
+  programId: 'snap',
+  name: id,
+  ruleLogic: { '==': [1, 1] },
+  version: { major: 1, minor: 0, patch: 0 },
+  citations: [{ title: 'Source', url: 'https://example.gov' }],
+  active: true,
+  createdAt: 1,
+  updatedAt: 1,
+  ...(overrides ? { overrides } : {}),
+});
+
+const pkg = (id: string, rules: RuleDefinition[], extendsIds?: string[]): RulePackage => ({
+  metadata: {
+    id,
+    name: id,
+    version: { major: 1, minor: 0, patch: 0 },
+    createdAt: 1,
+    updatedAt: 1,
+    ...(extendsIds ? { extends: extendsIds } : {}),
+  },
+  rules,
+});
+
+const federal = pkg('snap-federal', [rule('gross-income'), rule('net-income')]);
+
+describe('validatePackageRelationships', () => {
+  it('accepts overrides of rules in an extended package', () => {
+    const reports = validatePackageRelationships([
+      { file: 'federal.json', pkg: federal },
+      { file: 'texas.json', pkg: pkg('snap-texas', [rule('tx-gross', 'gross-income')], ['snap-federal']) },
+    ]);
+
+    expect(reports.get('texas.json')).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('flags orphaned overrides and conflicting duplicates', () => {
+    const reports = validatePackageRelationships([
+      { file: 'federal.json', pkg: federal },
+      {
+        file: 'texas.json',
+        pkg: pkg('snap-texas', [rule('tx-assets', 'asset-limit'), rule('net-income')], ['snap-federal']),
+      },
+      { file: 'ohio.json', pkg: pkg('snap-ohio', [rule('oh-gross', 'gross-income')]) },
+    ]);
+
+    expect(reports.get('texas.json')?.errors).toEqual([
+      expect.stringContaining('orphaned-override'),
+      expect.stringContaining('conflicting-duplicate'),
+    ]);
+    expect(reports.get('ohio.json')?.errors).toEqual([expect.stringContaining('orphaned-override')]);
+  });
+
+  it('warns instead of failing when the base package was not loaded', () => {
+    const reports = validatePackageRelationships([
+      { file: 'texas.json', pkg: pkg('snap-texas', [rule('tx-gross', 'gross-income')], ['snap-federal']) },
+    ]);
+
+    expect(reports.get('texas.json')?.errors).toEqual([]);
+    expect(reports.get('texas.json')?.warnings).toEqual([expect.stringContaining('snap-federal')]);
+  });
+});
@@ -38,6 +38,30 @@ export const LazyQuestionnaireAnswersCard = lazy(() =>
   }))
 );
 
+export const LazyRuleChangePreview = lazy(() =>
+  import('./results/RuleChangePreview').then(module => ({
+    default: module.RuleChangePreview
+  }))
+);
+
+export const LazyBenefitCliffChart = lazy(() =>
+  import('./results/BenefitCliffChart').then(module => ({
+    default: module.BenefitCliffChart
+  }))
+);
+
+export const LazyRulePackageImport = lazy(() =>
+  import('./rules/RulePackageImport').then(module => ({
+    default: module.RulePackageImport
+  }))
+);
+
+export const LazyRuleDebuggerPanel = lazy(() =>
+  import('./rules/RuleDebuggerPanel').then(module => ({
+    default: module.RuleDebuggerPanel
+  }))
+);
+
 // Lazy load onboarding components
 export const LazyWelcomeTour = lazy(() =>
   import('./onboarding/WelcomeTour').then(module => ({
@@ -66,6 +66,7 @@ export const Routes = {
     isProcessingResults: boolean;
     onNewAssessment: () => void;
     onImportResults: (results: EligibilityResults) => Promise<void>;
+    onPreviewRuleChanges?: (asOfDate: Date) => Promise<EligibilityResults>;
   }) => (
     <RouteComponent>
       <LazyResultsPage {...props} />
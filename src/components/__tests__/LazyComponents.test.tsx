@@ -73,6 +73,28 @@ describe('LazyComponents', () => {
       expect(LazyComponents.LazyQuestionnaireAnswersCard).toBeDefined();
       expect(['object', 'function']).toContain(typeof LazyComponents.LazyQuestionnaireAnswersCard);
     });
+
+    it('should export LazyRuleChangePreview as a lazy component', () => {
+      expect(LazyComponents.LazyRuleChangePreview).toBeDefined();
+      expect(['object', 'function']).toContain(typeof LazyComponents.LazyRuleChangePreview);
+    });
+
+    it('should export LazyBenefitCliffChart as a lazy component', () => {
+      expect(LazyComponents.LazyBenefitCliffChart).toBeDefined();
+      expect(['object', 'function']).toContain(typeof LazyComponents.LazyBenefitCliffChart);
+    });
+  });
+
+  describe('Rule Components', () => {
+    it('should export LazyRulePackageImport as a lazy component', () => {
+      expect(LazyComponents.LazyRulePackageImport).toBeDefined();
+      expect(['object', 'function']).toContain(typeof LazyComponents.LazyRulePackageImport);
+    });
+
+    it('should export LazyRuleDebuggerPanel as a lazy component', () => {
+      expect(LazyComponents.LazyRuleDebuggerPanel).toBeDefined();
+      expect(['object', 'function']).toContain(typeof LazyComponents.LazyRuleDebuggerPanel);
+    });
   });
 
   describe('Onboarding Components', () => {
@@ -112,6 +134,10 @@ describe('LazyComponents', () => {
         LazyComponents.LazyResultsExport,
         LazyComponents.LazyResultsImport,
         LazyComponents.LazyQuestionnaireAnswersCard,
+        LazyComponents.LazyRuleChangePreview,
+        LazyComponents.LazyBenefitCliffChart,
+        LazyComponents.LazyRulePackageImport,
+        LazyComponents.LazyRuleDebuggerPanel,
         LazyComponents.LazyWelcomeTour,
         LazyComponents.LazyPrivacyExplainer,
         LazyComponents.LazyQuickStartGuide,
@@ -126,14 +152,18 @@ describe('LazyComponents', () => {
       });
     });
 
-    it('should export exactly 10 lazy components', () => {
+    it('should export exactly 14 lazy components', () => {
       const exportedKeys = Object.keys(LazyComponents);
-      expect(exportedKeys).toHaveLength(10);
+      expect(exportedKeys).toHaveLength(14);
       expect(exportedKeys).toContain('LazyResultsSummary');
       expect(exportedKeys).toContain('LazyProgramCard');
       expect(exportedKeys).toContain('LazyResultsExport');
       expect(exportedKeys).toContain('LazyResultsImport');
       expect(exportedKeys).toContain('LazyQuestionnaireAnswersCard');
+      expect(exportedKeys).toContain('LazyRuleChangePreview');
+      expect(exportedKeys).toContain('LazyBenefitCliffChart');
+      expect(exportedKeys).toContain('LazyRulePackageImport');
+      expect(exportedKeys).toContain('LazyRuleDebuggerPanel');
       expect(exportedKeys).toContain('LazyWelcomeTour');
       expect(exportedKeys).toContain('LazyPrivacyExplainer');
       expect(exportedKeys).toContain('LazyQuickStartGuide');
@@ -150,6 +180,8 @@ describe('LazyComponents', () => {
         'LazyResultsExport',
         'LazyResultsImport',
         'LazyQuestionnaireAnswersCard',
+        'LazyRuleChangePreview',
+        'LazyBenefitCliffChart',
       ];
 
       resultsComponents.forEach(name => {
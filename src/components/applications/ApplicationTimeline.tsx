@@ -0,0 +1,46 @@
+/**
+ * Application Timeline Component
+ *
+ * Lists an application's status changes and scheduled dates in date order.
+ */
+
+import React, { useMemo } from 'react';
+import type { Application } from '../../db/schemas';
+import { getApplicationTimeline } from './applicationUtils';
+import { useI18n } from '../../i18n/hooks';
+
+interface ApplicationTimelineProps {
+  application: Application;
+}
+
+export const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({ application }) => {
+  const { t, i18n } = useI18n();
+  const entries = useMemo(() => getApplicationTimeline(application), [application]);
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-3">
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${entry.upcoming ? 'bg-white border-2 border-blue-500' : 'bg-blue-500'}`}
+            aria-hidden="true"
+          />
+          <time dateTime={new Date(entry.date).toISOString()} className="block text-xs text-gray-500">
+            {new Date(entry.date).toLocaleDateString(i18n.language)}
+          </time>
+          <p className="text-sm font-medium text-gray-900">
+            {entry.status
+              ? t(`applications.statuses.${entry.status}`)
+              : t(`applications.dates.${entry.milestone}`)}
+            {entry.upcoming && (
+              <span className="ml-2 text-xs font-normal text-blue-700">{t('applications.upcoming')}</span>
+            )}
+          </p>
+          {entry.note && <p className="text-sm text-gray-600">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ApplicationTimeline;
@@ -0,0 +1,228 @@
+/**
+ * Application Tracker Component
+ *
+ * Lets the user keep their own record of applying for a program: its status,
+ * key dates, case number and a timeline of what has happened so far.
+ */
+
+import React, { useState } from 'react';
+import { APPLICATION_STATUS_VALUES, type Application } from '../../db/schemas';
+import {
+  getRenewalDue,
+  isApplicationStatus,
+  type ApplicationDateField,
+  type TrackableProgram,
+} from './applicationUtils';
+import { useApplications } from './useApplications';
+import { ApplicationTimeline } from './ApplicationTimeline';
+import { useI18n } from '../../i18n/hooks';
+
+interface ApplicationTrackerProps {
+  program: TrackableProgram;
+}
+
+const DATE_FIELDS: ApplicationDateField[] = ['deadlineAt', 'submittedAt', 'interviewAt', 'decisionAt', 'renewalDueAt'];
+
+/**
+ * Timestamp as the YYYY-MM-DD value of a date input, in local time
+ */
+function toDateInputValue(timestamp?: number): string {
+  if (timestamp === undefined) {return '';}
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Date input value as a timestamp at local midnight
+ */
+function fromDateInputValue(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {return undefined;}
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+interface ApplicationDetailsFormProps {
+  application: Application;
+  onSave: (caseNumber: string, dates: Partial<Application['dates']>) => void;
+}
+
+const ApplicationDetailsForm: React.FC<ApplicationDetailsFormProps> = ({ application, onSave }) => {
+  const { t } = useI18n();
+  const [caseNumber, setCaseNumber] = useState(application.caseNumber ?? '');
+  const [dates, setDates] = useState<Record<ApplicationDateField, string>>(() => ({
+    deadlineAt: toDateInputValue(application.dates.deadlineAt),
+    submittedAt: toDateInputValue(application.dates.submittedAt),
+    interviewAt: toDateInputValue(application.dates.interviewAt),
+    decisionAt: toDateInputValue(application.dates.decisionAt),
+    renewalDueAt: toDateInputValue(application.dates.renewalDueAt),
+  }));
+  const fieldId = (field: string): string => `application-${application.programId}-${field}`;
+
+  const handleSubmit = (event: React.FormEvent): void => {
+    event.preventDefault();
+    const parsed: Partial<Application['dates']> = {};
+    for (const field of DATE_FIELDS) {
+      parsed[field] = fromDateInputValue(dates[field]);
+    }
+    onSave(caseNumber.trim(), parsed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor={fieldId('case-number')} className="block text-sm font-medium text-gray-700 mb-1">
+          {t('applications.caseNumber')}
+        </label>
+        <input
+          id={fieldId('case-number')}
+          type="text"
+          value={caseNumber}
+          maxLength={100}
+          onChange={(event) => setCaseNumber(event.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {DATE_FIELDS.map(field => (
+          <div key={field}>
+            <label htmlFor={fieldId(field)} className="block text-sm font-medium text-gray-700 mb-1">
+              {t(`applications.dates.${field}`)}
+            </label>
+            <input
+              id={fieldId(field)}
+              type="date"
+              value={dates[field]}
+              onChange={(event) => setDates(current => ({ ...current, [field]: event.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="submit"
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm min-h-[44px] touch-manipulation"
+      >
+        {t('applications.saveDetails')}
+      </button>
+    </form>
+  );
+};
+
+interface RenewalEstimateNoticeProps {
+  application: Application;
+  onUseDate: (date: number) => void;
+}
+
+/**
+ * Estimated renewal date from the approval date, until the user enters one
+ */
+const RenewalEstimateNotice: React.FC<RenewalEstimateNoticeProps> = ({ application, onUseDate }) => {
+  const { t, i18n } = useI18n();
+  const estimate = getRenewalDue(application)?.estimate;
+
+  if (!estimate) {return null;}
+
+  const date = new Date(estimate.date).toLocaleDateString(i18n.language);
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+      <p>
+        {estimate.minMonths === estimate.maxMonths
+          ? t('applications.renewalEstimate', { date, months: estimate.minMonths })
+          : t('applications.renewalEstimateRange', { date, minMonths: estimate.minMonths, maxMonths: estimate.maxMonths })}
+      </p>
+      <button
+        type="button"
+        onClick={() => onUseDate(estimate.date)}
+        className="mt-2 text-sm font-medium text-blue-700 hover:text-blue-900 underline"
+      >
+        {t('applications.useEstimate')}
+      </button>
+    </div>
+  );
+};
+
+export const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ program }) => {
+  const { t } = useI18n();
+  const { getApplication, trackProgram, updateStatus, updateDetails, removeApplication, isLoading, error } = useApplications();
+  const application = getApplication(program.programId);
+  const statusId = `application-${program.programId}-status`;
+
+  // Errors are kept in the hook's error state
+  const ignoreRejection = (operation: Promise<void>): void => {
+    operation.catch(() => undefined);
+  };
+
+  if (!application) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">{t('applications.trackHint')}</p>
+        <button
+          type="button"
+          onClick={() => ignoreRejection(trackProgram(program))}
+          disabled={isLoading}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm min-h-[44px] touch-manipulation"
+        >
+          {t('applications.track')}
+        </button>
+        {error && <p role="alert" className="text-sm text-red-700">{error.message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label htmlFor={statusId} className="block text-sm font-medium text-gray-700 mb-1">
+          {t('applications.status')}
+        </label>
+        <select
+          id={statusId}
+          value={application.status}
+          onChange={(event) => {
+            const { value } = event.target;
+            if (isApplicationStatus(value)) {
+              ignoreRejection(updateStatus(program.programId, value));
+            }
+          }}
+          className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          {APPLICATION_STATUS_VALUES.map(status => (
+            <option key={status} value={status}>{t(`applications.statuses.${status}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <RenewalEstimateNotice
+        application={application}
+        onUseDate={(renewalDueAt) => ignoreRejection(updateDetails(program.programId, { dates: { renewalDueAt } }))}
+      />
+
+      <ApplicationDetailsForm
+        key={application.updatedAt}
+        application={application}
+        onSave={(caseNumber, dates) => ignoreRejection(updateDetails(program.programId, { caseNumber, dates }))}
+      />
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">{t('applications.timeline')}</h4>
+        <ApplicationTimeline application={application} />
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-700">{error.message}</p>}
+
+      <button
+        type="button"
+        onClick={() => ignoreRejection(removeApplication(program.programId))}
+        className="text-sm text-red-700 hover:text-red-900 underline"
+      >
+        {t('applications.stopTracking')}
+      </button>
+    </div>
+  );
+};
+
+export default ApplicationTracker;
@@ -0,0 +1,86 @@
+/**
+ * Calendar Export Button Component
+ *
+ * Downloads application deadlines, interviews and renewals as an `.ics`
+ * file with reminders, for the user's own calendar app.
+ */
+
+import React, { useMemo } from 'react';
+import type { ProgramEligibilityResult } from '../results/types';
+import {
+  buildApplicationCalendarEvents,
+  createApplicationCalendarFile,
+  type ApplicationCalendarLabels,
+} from './applicationCalendar';
+import { useApplications } from './useApplications';
+import { useI18n } from '../../i18n/hooks';
+import { getProgramNameKey } from '../../utils/programHelpers';
+
+interface CalendarExportButtonProps {
+  /** Program results to take deadlines and next steps from */
+  results?: ProgramEligibilityResult[];
+  className?: string;
+}
+
+export const CalendarExportButton: React.FC<CalendarExportButtonProps> = ({
+  results,
+  className = '',
+}) => {
+  const { t } = useI18n();
+  const { applications } = useApplications();
+
+  const options = useMemo(() => {
+    const labels: ApplicationCalendarLabels = {
+      calendarName: t('applications.calendar.name'),
+      applyBy: program => t('applications.calendar.applyBy', { program }),
+      interview: program => t('applications.calendar.interview', { program }),
+      renewBy: program => t('applications.calendar.renewBy', { program }),
+      deadlineReminder: program => t('applications.calendar.deadlineReminder', { program }),
+      interviewReminder: program => t('applications.calendar.interviewReminder', { program }),
+      renewalReminder: program => t('applications.calendar.renewalReminder', { program }),
+      nextSteps: t('applications.calendar.nextSteps'),
+      timeNeeded: minutes => (minutes < 60
+        ? t('applications.calendar.timeNeededMinutes', { count: minutes })
+        : t('applications.calendar.timeNeededHours', { count: Math.ceil(minutes / 30) / 2 })),
+      caseNumber: caseNumber => t('applications.calendar.caseNumber', { caseNumber }),
+      renewalEstimate: (minMonths, maxMonths) => (minMonths === maxMonths
+        ? t('applications.calendar.renewalEstimate', { months: minMonths })
+        : t('applications.calendar.renewalEstimateRange', { minMonths, maxMonths })),
+    };
+
+    return {
+      results,
+      applications,
+      labels,
+      programName: (programId: string) => t(getProgramNameKey(programId)),
+    };
+  }, [results, applications, t]);
+
+  const eventCount = useMemo(() => buildApplicationCalendarEvents(options).length, [options]);
+
+  const handleExport = async (): Promise<void> => {
+    // Export helpers load on demand so the home page stays light
+    const { downloadBlob, generateExportFilename } = await import('../results/exportUtils');
+    const blob = createApplicationCalendarFile({ ...options, now: new Date() });
+    downloadBlob(blob, `${generateExportFilename('benefit-calendar')}.ics`);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        handleExport().catch((err: unknown) => console.error('Calendar export failed:', err));
+      }}
+      disabled={eventCount === 0}
+      title={eventCount === 0 ? t('applications.calendar.nothingToAdd') : undefined}
+      className={`flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors w-full sm:w-auto min-h-[44px] touch-manipulation ${className}`}
+    >
+      <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+      <span className="whitespace-nowrap">{t('applications.calendar.export')}</span>
+    </button>
+  );
+};
+
+export default CalendarExportButton;
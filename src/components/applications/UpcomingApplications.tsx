@@ -0,0 +1,77 @@
+/**
+ * Upcoming Applications Component
+ *
+ * The "what's next" list for the home page: one next action per active
+ * application, soonest first. Renders nothing until an application is tracked.
+ */
+
+import React, { useMemo } from 'react';
+import { getUpcomingActions } from './applicationUtils';
+import { useApplications } from './useApplications';
+import { CalendarExportButton } from './CalendarExportButton';
+import { useI18n } from '../../i18n/hooks';
+import { getProgramNameKey } from '../../utils/programHelpers';
+
+interface UpcomingApplicationsProps {
+  /** Opens the results page, where applications are updated */
+  onViewApplications?: () => void;
+  className?: string;
+}
+
+export const UpcomingApplications: React.FC<UpcomingApplicationsProps> = ({
+  onViewApplications,
+  className = '',
+}) => {
+  const { t, i18n } = useI18n();
+  const { applications } = useApplications();
+  const actions = useMemo(() => getUpcomingActions(applications), [applications]);
+
+  if (actions.length === 0) {return null;}
+
+  return (
+    <section
+      aria-labelledby="upcoming-applications-title"
+      className={`bg-white/80 dark:bg-secondary-800/80 rounded-xl p-6 shadow-lg border border-secondary-200 dark:border-secondary-700 text-left ${className}`}
+    >
+      <h3 id="upcoming-applications-title" className="text-lg sm:text-xl font-semibold mb-4 text-secondary-900 dark:text-secondary-100">
+        {t('applications.whatsNext.title')}
+      </h3>
+      <ul className="space-y-3">
+        {actions.map(action => (
+          <li key={action.programId} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+            <div>
+              <p className="font-medium text-secondary-900 dark:text-secondary-100">
+                {t(getProgramNameKey(action.programId))}
+              </p>
+              <p className="text-sm text-secondary-600 dark:text-secondary-300">
+                {t(`applications.whatsNext.${action.kind}`)}
+              </p>
+            </div>
+            {action.date !== undefined && (
+              <p className={`text-sm ${action.overdue ? 'text-red-700 font-semibold' : 'text-secondary-600 dark:text-secondary-300'}`}>
+                {t(action.overdue ? 'applications.whatsNext.overdue' : 'applications.whatsNext.due', {
+                  date: new Date(action.date).toLocaleDateString(i18n.language),
+                })}
+                {action.estimated && ` ${t('applications.whatsNext.estimated')}`}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <CalendarExportButton />
+        {onViewApplications && (
+          <button
+            type="button"
+            onClick={onViewApplications}
+            className="text-sm font-medium text-primary-600 hover:text-primary-800 underline"
+          >
+            {t('applications.whatsNext.update')}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default UpcomingApplications;
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { ApplicationTracker } from '../ApplicationTracker';
+import { UpcomingApplications } from '../UpcomingApplications';
+import { createApplication } from '../applicationUtils';
+import { getApplicationsCollection } from '../useApplications';
+import { initializeDatabase } from '../../../db/database';
+
+const program = { programId: 'snap-federal', programName: 'SNAP', jurisdiction: 'US-FEDERAL' };
+
+describe('ApplicationTracker', () => {
+  beforeEach(async () => {
+    // Resets the mock database stores
+    await initializeDatabase();
+  });
+
+  it('tracks a program and records its status, case number and dates', async () => {
+    render(<ApplicationTracker program={program} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Track' }));
+    fireEvent.change(await screen.findByLabelText('Status'), { target: { value: 'submitted' } });
+
+    const timeline = await screen.findByRole('list');
+    await waitFor(() => expect(within(timeline).getByText('Submitted')).toBeInTheDocument());
+    expect(within(timeline).getByText('Planning')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('CaseNumber'), { target: { value: ' GA-12345 ' } });
+    fireEvent.change(screen.getByLabelText('InterviewAt'), { target: { value: '2030-04-02' } });
+    fireEvent.click(screen.getByRole('button', { name: 'SaveDetails' }));
+
+    await waitFor(() => expect(within(screen.getByRole('list')).getByText('InterviewAt')).toBeInTheDocument());
+
+    const collection = await getApplicationsCollection();
+    const stored = (await collection.findOne('snap-federal').exec())?.toMutableJSON();
+    expect(stored).toMatchObject({
+      status: 'submitted',
+      caseNumber: 'GA-12345',
+      dates: { interviewAt: new Date(2030, 3, 2).getTime() },
+    });
+    expect(stored?.events.map(event => event.status)).toEqual(['planning', 'submitted']);
+  });
+
+  it('stops tracking a program', async () => {
+    const collection = await getApplicationsCollection();
+    await collection.insert(createApplication(program));
+    render(<ApplicationTracker program={program} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'StopTracking' }));
+
+    expect(await screen.findByRole('button', { name: 'Track' })).toBeInTheDocument();
+    expect(await collection.findOne('snap-federal').exec()).toBeNull();
+  });
+});
+
+describe('UpcomingApplications', () => {
+  beforeEach(async () => {
+    await initializeDatabase();
+  });
+
+  it('renders nothing until an application is tracked', async () => {
+    const { container } = render(<UpcomingApplications />);
+
+    await waitFor(() => expect(container).toBeEmptyDOMElement());
+  });
+
+  it('shows what to do next for active applications', async () => {
+    const collection = await getApplicationsCollection();
+    await collection.insert(createApplication({ ...program, applicationDeadline: new Date('2020-01-01') }));
+    render(<UpcomingApplications />);
+
+    expect(await screen.findByRole('heading', { name: 'Title' })).toBeInTheDocument();
+    expect(screen.getByText('Submit')).toBeInTheDocument();
+    expect(screen.getByText('Overdue')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Application Calendar Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildApplicationCalendarEvents,
+  createApplicationCalendarFile,
+  parseEstimatedMinutes,
+} from '../applicationCalendar';
+import { createApplication, updateApplicationDetails, updateApplicationStatus } from '../applicationUtils';
+import type { ProgramEligibilityResult } from '../../results/types';
+
+const now = new Date(2025, 2, 1, 10, 0);
+const day = (month: number, date: number, year = 2025): number => new Date(year, month, date).getTime();
+
+/** jsdom's Blob has no text() */
+function readBlobAsText(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+const snapResult = {
+  programId: 'snap-federal',
+  programName: 'SNAP',
+  applicationDeadline: new Date(day(3, 15)),
+  nextSteps: [
+    { step: 'Gather pay stubs', estimatedTime: '30-45 minutes' },
+    { step: 'Apply online', url: 'https://www.fns.usda.gov/snap/apply', estimatedTime: '1-2 hours' },
+    { step: 'Wait for a decision', estimatedTime: 'Same day to 2 weeks' },
+  ],
+} as unknown as ProgramEligibilityResult;
+
+describe('parseEstimatedMinutes', () => {
+  it('reads the upper bound of hands-on time and ignores waiting time', () => {
+    expect(parseEstimatedMinutes('30-45 minutes')).toBe(45);
+    expect(parseEstimatedMinutes('1-2 hours per property')).toBe(120);
+    expect(parseEstimatedMinutes('5 minutes')).toBe(5);
+    expect(parseEstimatedMinutes('Same day to 2 weeks')).toBeUndefined();
+    expect(parseEstimatedMinutes('1-2 days')).toBeUndefined();
+  });
+});
+
+describe('buildApplicationCalendarEvents', () => {
+  it('adds the application deadline with next steps, time needed and reminders', () => {
+    const [event] = buildApplicationCalendarEvents({ results: [snapResult], now });
+
+    expect(event).toMatchObject({
+      uid: 'snap-federal-deadline@benefit-finder',
+      date: new Date(day(3, 15)),
+      summary: 'Apply for SNAP',
+      url: 'https://www.fns.usda.gov/snap/apply',
+    });
+    expect(event.description).toBe([
+      'Next steps:',
+      '- Gather pay stubs (30-45 minutes)',
+      '- Apply online (1-2 hours)',
+      '- Wait for a decision (Same day to 2 weeks)',
+      '',
+      'Set aside about 3 hours',
+    ].join('\n'));
+    // 9:00 a week before and the day before
+    expect(event.alarms?.map(alarm => alarm.minutesBefore)).toEqual([7 * 24 * 60 - 9 * 60, 15 * 60]);
+  });
+
+  it('follows tracked applications from deadline to interview to renewal', () => {
+    const planning = createApplication(snapResult, now.getTime());
+    const submitted = updateApplicationDetails(
+      updateApplicationStatus(planning, 'submitted', {}, day(2, 10)),
+      { caseNumber: 'GA-12345', dates: { interviewAt: day(3, 2) } },
+      day(2, 10)
+    );
+    const approved = updateApplicationStatus(submitted, 'approved', { date: day(3, 20) }, day(3, 20));
+
+    expect(buildApplicationCalendarEvents({ results: [snapResult], applications: [submitted], now }))
+      .toEqual([expect.objectContaining({
+        uid: 'snap-federal-interview@benefit-finder',
+        date: new Date(day(3, 2)),
+        description: 'Case number: GA-12345',
+      })]);
+
+    const [renewal] = buildApplicationCalendarEvents({ results: [snapResult], applications: [approved], now });
+    expect(renewal).toMatchObject({
+      uid: 'snap-federal-renewal@benefit-finder',
+      summary: 'Renew SNAP',
+      // SNAP recertifies every 6 to 12 months; the estimate uses the earliest
+      date: new Date(day(9, 20)),
+      description: 'Estimated from your approval date. This program usually renews every 6 to 12 months.\nCase number: GA-12345',
+    });
+  });
+
+  it('prefers a renewal date the user entered and leaves out past and denied events', () => {
+    const medicaid = updateApplicationDetails(
+      updateApplicationStatus(createApplication({ programId: 'medicaid-georgia', programName: 'Medicaid' }), 'approved', { date: day(0, 5) }),
+      { dates: { renewalDueAt: day(11, 1) } }
+    );
+    const denied = updateApplicationStatus(createApplication({ programId: 'tanf-federal', programName: 'TANF' }), 'denied', { date: day(1, 1) });
+    const pastDeadline = { ...snapResult, applicationDeadline: new Date(day(1, 1)) };
+
+    const events = buildApplicationCalendarEvents({
+      results: [pastDeadline],
+      applications: [medicaid, denied],
+      programName: (_programId, fallback) => fallback.toUpperCase(),
+      now,
+    });
+
+    expect(events).toEqual([expect.objectContaining({
+      summary: 'Renew MEDICAID',
+      date: new Date(day(11, 1)),
+      description: undefined,
+    })]);
+  });
+
+  it('leaves out renewals until the application is approved', () => {
+    const renewalDueAt = day(11, 1);
+    const planning = updateApplicationDetails(
+      createApplication({ programId: 'medicaid-georgia', programName: 'Medicaid' }),
+      { dates: { renewalDueAt } }
+    );
+    const submitted = updateApplicationStatus(planning, 'submitted', {}, day(0, 5));
+    const renewalDue = updateApplicationStatus(
+      updateApplicationStatus(submitted, 'approved', { date: day(0, 10) }, day(0, 10)),
+      'renewal-due',
+      {},
+      day(0, 15)
+    );
+
+    expect(buildApplicationCalendarEvents({ applications: [planning], now })).toEqual([]);
+    expect(buildApplicationCalendarEvents({ applications: [submitted], now })).toEqual([]);
+    expect(buildApplicationCalendarEvents({ applications: [renewalDue], now })).toEqual([
+      expect.objectContaining({ uid: 'medicaid-georgia-renewal@benefit-finder', date: new Date(renewalDueAt) }),
+    ]);
+  });
+});
+
+describe('createApplicationCalendarFile', () => {
+  it('creates an iCalendar file', async () => {
+    const blob = createApplicationCalendarFile({ results: [snapResult], now });
+    const text = await readBlobAsText(blob);
+
+    expect(blob.type).toBe('text/calendar;charset=utf-8');
+    expect(text).toContain('X-WR-CALNAME:Benefit applications');
+    expect(text.match(/BEGIN:VALARM/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Application Tracking Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createApplication,
+  estimateRenewalDue,
+  getApplicationTimeline,
+  getNextAction,
+  getUpcomingActions,
+  updateApplicationDetails,
+  updateApplicationStatus,
+} from '../applicationUtils';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date('2025-03-01T12:00:00.000Z').getTime();
+
+const snap = (): ReturnType<typeof createApplication> =>
+  createApplication({ programId: 'snap-federal', programName: 'SNAP', jurisdiction: 'US-FEDERAL' }, start);
+
+describe('createApplication', () => {
+  it('starts in planning with the program deadline', () => {
+    const application = createApplication({
+      programId: 'liheap-ga',
+      programName: 'LIHEAP',
+      applicationDeadline: new Date(start + 30 * DAY),
+    }, start);
+
+    expect(application).toMatchObject({
+      programId: 'liheap-ga',
+      status: 'planning',
+      dates: { deadlineAt: start + 30 * DAY },
+      createdAt: start,
+      updatedAt: start,
+    });
+    expect(application.events).toEqual([{ id: expect.any(String), status: 'planning', date: start }]);
+  });
+});
+
+describe('updateApplicationStatus', () => {
+  it('adds the change to the timeline and records submission and decision dates', () => {
+    const submitted = updateApplicationStatus(snap(), 'submitted', { note: ' Applied online ' }, start + DAY);
+    const approved = updateApplicationStatus(submitted, 'approved', { date: start + 20 * DAY }, start + 21 * DAY);
+
+    expect(approved.status).toBe('approved');
+    expect(approved.dates).toEqual({ submittedAt: start + DAY, decisionAt: start + 20 * DAY });
+    expect(approved.events.map(event => event.status)).toEqual(['planning', 'submitted', 'approved']);
+    expect(approved.events[1].note).toBe('Applied online');
+    expect(approved.updatedAt).toBe(start + 21 * DAY);
+  });
+});
+
+describe('updateApplicationDetails', () => {
+  it('sets the case number and clears dates passed as undefined', () => {
+    const withDates = updateApplicationDetails(snap(), {
+      dates: { deadlineAt: start + 10 * DAY, interviewAt: start + 5 * DAY },
+    }, start);
+    const updated = updateApplicationDetails(withDates, {
+      caseNumber: 'GA-12345',
+      dates: { interviewAt: undefined },
+    }, start + DAY);
+
+    expect(updated.caseNumber).toBe('GA-12345');
+    expect(updated.dates).toEqual({ deadlineAt: start + 10 * DAY });
+  });
+});
+
+describe('getApplicationTimeline', () => {
+  it('merges status changes with scheduled dates in date order', () => {
+    let application = updateApplicationStatus(snap(), 'submitted', {}, start + DAY);
+    application = updateApplicationDetails(application, {
+      dates: { interviewAt: start + 7 * DAY, deadlineAt: start + 2 * DAY },
+    }, start + DAY);
+
+    const timeline = getApplicationTimeline(application, start + 3 * DAY);
+
+    expect(timeline.map(entry => entry.status ?? entry.milestone)).toEqual([
+      'planning',
+      'submitted',
+      'deadlineAt',
+      'interviewAt',
+    ]);
+    expect(timeline.map(entry => entry.upcoming)).toEqual([false, false, false, true]);
+  });
+});
+
+describe('getNextAction', () => {
+  it('follows the application through its statuses', () => {
+    const now = start + 5 * DAY;
+    let application = updateApplicationDetails(snap(), { dates: { deadlineAt: start + 3 * DAY } }, start);
+
+    expect(getNextAction(application, now)).toMatchObject({ kind: 'submit', date: start + 3 * DAY, overdue: true });
+
+    application = updateApplicationStatus(application, 'submitted', {}, start + 2 * DAY);
+    expect(getNextAction(application, now)).toMatchObject({ kind: 'await-decision', overdue: false });
+
+    application = updateApplicationDetails(application, { dates: { interviewAt: start + 9 * DAY } }, now);
+    expect(getNextAction(application, now)).toMatchObject({ kind: 'interview', date: start + 9 * DAY });
+
+    application = updateApplicationStatus(application, 'approved', {}, start + 10 * DAY);
+    expect(getNextAction(application, now)).toMatchObject({
+      kind: 'renew',
+      date: estimateRenewalDue('snap-federal', start + 10 * DAY)?.date,
+      estimated: true,
+    });
+
+    application = updateApplicationDetails(application, { dates: { renewalDueAt: start + 180 * DAY } }, now);
+    expect(getNextAction(application, now)).toEqual(expect.objectContaining({ kind: 'renew', date: start + 180 * DAY }));
+    expect(getNextAction(application, now)?.estimated).toBeUndefined();
+
+    const unknownProgram = updateApplicationStatus(
+      createApplication({ programId: 'lifeline-federal', programName: 'Lifeline' }, start),
+      'approved',
+      {},
+      now
+    );
+    expect(getNextAction(unknownProgram, now)).toBeNull();
+
+    expect(getNextAction(updateApplicationStatus(application, 'denied', {}, now), now)).toBeNull();
+  });
+});
+
+describe('getUpcomingActions', () => {
+  it('lists dated actions soonest first, then undated ones', () => {
+    const now = start;
+    const waiting = updateApplicationStatus(snap(), 'submitted', {}, now);
+    const interview = updateApplicationDetails(
+      updateApplicationStatus(createApplication({ programId: 'wic-federal', programName: 'WIC' }, now), 'interview-scheduled', {}, now),
+      { dates: { interviewAt: start + 4 * DAY } },
+      now
+    );
+    const deadline = createApplication({
+      programId: 'liheap-ga',
+      programName: 'LIHEAP',
+      applicationDeadline: new Date(start + 2 * DAY),
+    }, now);
+    const denied = updateApplicationStatus(createApplication({ programId: 'tanf-federal', programName: 'TANF' }, now), 'denied', {}, now);
+
+    expect(getUpcomingActions([waiting, interview, denied, deadline], now).map(action => action.programId)).toEqual([
+      'liheap-ga',
+      'wic-federal',
+      'snap-federal',
+    ]);
+  });
+});
+
+describe('estimateRenewalDue', () => {
+  it('adds the shortest recertification period for the program family', () => {
+    expect(estimateRenewalDue('snap-texas', new Date(2025, 0, 31).getTime())).toEqual({
+      date: new Date(2025, 6, 31).getTime(),
+      minMonths: 6,
+      maxMonths: 12,
+    });
+    expect(estimateRenewalDue('medi-cal-california', new Date(2024, 1, 29).getTime())?.date)
+      .toBe(new Date(2025, 1, 28).getTime());
+    expect(estimateRenewalDue('section8-federal', new Date(2025, 4, 1).getTime())?.date)
+      .toBe(new Date(2026, 4, 1).getTime());
+    expect(estimateRenewalDue('lifeline-federal', start)).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Application Calendar
+ *
+ * Turns application deadlines, scheduled interviews and renewal dates into
+ * calendar events with reminders, exported as an `.ics` file the user
+ * imports into their own calendar. Nothing is sent anywhere.
+ */
+
+import type { Application } from '../../db/schemas';
+import type { ProgramEligibilityResult } from '../results/types';
+import { createIcsCalendar, type IcsEvent } from '../../utils/icsCalendar';
+import { getRenewalDue } from './applicationUtils';
+
+export interface ApplicationCalendarLabels {
+  calendarName: string;
+  applyBy: (program: string) => string;
+  interview: (program: string) => string;
+  renewBy: (program: string) => string;
+  deadlineReminder: (program: string) => string;
+  interviewReminder: (program: string) => string;
+  renewalReminder: (program: string) => string;
+  nextSteps: string;
+  timeNeeded: (minutes: number) => string;
+  caseNumber: (caseNumber: string) => string;
+  renewalEstimate: (minMonths: number, maxMonths: number) => string;
+}
+
+export const DEFAULT_APPLICATION_CALENDAR_LABELS: ApplicationCalendarLabels = {
+  calendarName: 'Benefit applications',
+  applyBy: program => `Apply for ${program}`,
+  interview: program => `${program} interview`,
+  renewBy: program => `Renew ${program}`,
+  deadlineReminder: program => `${program} application is due soon`,
+  interviewReminder: program => `${program} interview is coming up`,
+  renewalReminder: program => `${program} renewal is due soon`,
+  nextSteps: 'Next steps',
+  timeNeeded: minutes => (minutes < 60
+    ? `Set aside about ${minutes} minutes`
+    : `Set aside about ${Math.ceil(minutes / 30) / 2} hours`),
+  caseNumber: caseNumber => `Case number: ${caseNumber}`,
+  renewalEstimate: (minMonths, maxMonths) => (minMonths === maxMonths
+    ? `Estimated from your approval date. This program usually renews every ${minMonths} months.`
+    : `Estimated from your approval date. This program usually renews every ${minMonths} to ${maxMonths} months.`),
+};
+
+export interface ApplicationCalendarOptions {
+  /** Program results, for deadlines and next steps not yet tracked */
+  results?: ProgramEligibilityResult[];
+  /** Tracked applications, for interviews, renewals and updated deadlines */
+  applications?: Application[];
+  labels?: Partial<ApplicationCalendarLabels>;
+  /** Display name for a program (default: the name stored with it) */
+  programName?: (programId: string, fallback: string) => string;
+  /** Events before this day are left out (default: now) */
+  now?: Date;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+/** Reminders go off at 9:00 on the day they fall on */
+const REMINDER_HOUR = 9;
+const UID_DOMAIN = 'benefit-finder';
+
+/**
+ * Minutes before an all-day event that fall at the reminder hour, `days` days earlier
+ */
+const daysBefore = (days: number): number => days * MINUTES_PER_DAY - REMINDER_HOUR * 60;
+
+/**
+ * Upper bound of a hands-on time estimate such as "30-45 minutes" or "1-2 hours"
+ *
+ * Waiting times ("Same day to 2 weeks", "1-2 days") are not work the user
+ * schedules, so they return undefined.
+ *
+ * @example
+ * parseEstimatedMinutes('30-45 minutes'); // 45
+ * parseEstimatedMinutes('1-2 hours per property'); // 120
+ */
+export function parseEstimatedMinutes(text: string): number | undefined {
+  const match = /(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(minutes?|mins?|hours?|hrs?)\b/i.exec(text);
+  if (!match) {return undefined;}
+
+  const amount = Number(match[2] ?? match[1]);
+  return /^h/i.test(match[3]) ? amount * 60 : amount;
+}
+
+function isWebUrl(url: string | undefined): url is string {
+  return url !== undefined && /^https?:\/\//i.test(url);
+}
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+function deadlineDescription(result: ProgramEligibilityResult | undefined, labels: ApplicationCalendarLabels): string {
+  if (!result || result.nextSteps.length === 0) {return '';}
+
+  const steps = result.nextSteps.map(step => (
+    step.estimatedTime ? `- ${step.step} (${step.estimatedTime})` : `- ${step.step}`
+  ));
+  const minutes = result.nextSteps
+    .map(step => (step.estimatedTime ? parseEstimatedMinutes(step.estimatedTime) : undefined))
+    .reduce<number>((total, stepMinutes) => total + (stepMinutes ?? 0), 0);
+
+  return [
+    `${labels.nextSteps}:`,
+    ...steps,
+    ...(minutes > 0 ? ['', labels.timeNeeded(minutes)] : []),
+  ].join('\n');
+}
+
+/**
+ * Calendar events for application deadlines, interviews and renewals
+ *
+ * Deadlines come from the tracked application, falling back to the program
+ * result, and are left out once the application is submitted. Renewals use
+ * the date the user entered, or an estimate from their approval date, and
+ * are only added once the application is approved or due for renewal.
+ */
+export function buildApplicationCalendarEvents(options: ApplicationCalendarOptions): IcsEvent[] {
+  const labels = { ...DEFAULT_APPLICATION_CALENDAR_LABELS, ...options.labels };
+  const today = startOfDay(options.now ?? new Date());
+  const results = new Map((options.results ?? []).map(result => [result.programId, result]));
+  const applications = new Map((options.applications ?? []).map(application => [application.programId, application]));
+  const programIds = [...new Set([...results.keys(), ...applications.keys()])];
+  const events: IcsEvent[] = [];
+
+  for (const programId of programIds) {
+    const result = results.get(programId);
+    const application = applications.get(programId);
+    const fallbackName = application?.programName ?? result?.programName ?? programId;
+    const program = options.programName?.(programId, fallbackName) ?? fallbackName;
+    const caseNumber = application?.caseNumber ? labels.caseNumber(application.caseNumber) : undefined;
+    const add = (kind: string, date: number, event: Omit<IcsEvent, 'uid' | 'date'>): void => {
+      if (date < today) {return;}
+      events.push({ uid: `${programId}-${kind}@${UID_DOMAIN}`, date: new Date(date), ...event });
+    };
+
+    // Application deadline, until the application is sent
+    const deadline = application?.dates.deadlineAt ?? result?.applicationDeadline?.getTime();
+    if (deadline !== undefined && !Number.isNaN(deadline) && (!application || application.status === 'planning')) {
+      add('deadline', deadline, {
+        summary: labels.applyBy(program),
+        description: deadlineDescription(result, labels) || undefined,
+        url: result?.nextSteps.map(step => step.url).find(isWebUrl),
+        alarms: [
+          { minutesBefore: daysBefore(7), description: labels.deadlineReminder(program) },
+          { minutesBefore: daysBefore(1), description: labels.deadlineReminder(program) },
+        ],
+      });
+    }
+
+    if (!application) {continue;}
+
+    // Interview, while a decision is pending
+    const { interviewAt } = application.dates;
+    if (interviewAt !== undefined && (application.status === 'submitted' || application.status === 'interview-scheduled')) {
+      add('interview', interviewAt, {
+        summary: labels.interview(program),
+        description: caseNumber,
+        alarms: [
+          { minutesBefore: daysBefore(2), description: labels.interviewReminder(program) },
+          { minutesBefore: daysBefore(1), description: labels.interviewReminder(program) },
+        ],
+      });
+    }
+
+    // Renewal, once benefits are approved
+    const approved = application.status === 'approved' || application.status === 'renewal-due';
+    const renewal = approved ? getRenewalDue(application) : null;
+    if (renewal) {
+      const { estimate } = renewal;
+      const description = [
+        ...(estimate ? [labels.renewalEstimate(estimate.minMonths, estimate.maxMonths)] : []),
+        ...(caseNumber ? [caseNumber] : []),
+      ].join('\n');
+
+      add('renewal', renewal.date, {
+        summary: labels.renewBy(program),
+        description: description || undefined,
+        alarms: [
+          { minutesBefore: daysBefore(30), description: labels.renewalReminder(program) },
+          { minutesBefore: daysBefore(7), description: labels.renewalReminder(program) },
+        ],
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Write application deadlines, interviews and renewals as an `.ics` file
+ */
+export function createApplicationCalendarFile(options: ApplicationCalendarOptions): Blob {
+  const labels = { ...DEFAULT_APPLICATION_CALENDAR_LABELS, ...options.labels };
+  const ics = createIcsCalendar(buildApplicationCalendarEvents(options), {
+    name: labels.calendarName,
+    createdAt: options.now,
+  });
+
+  return new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+}
@@ -0,0 +1,308 @@
+/**
+ * Application Tracking Utilities
+ *
+ * Pure helpers for the applications a user tracks from their results:
+ * starting a record, moving it through its statuses, building its timeline
+ * and working out what the user needs to do next.
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  APPLICATION_STATUS_VALUES,
+  type Application,
+  type ApplicationStatus,
+} from '../../db/schemas';
+import { getProgramCategory } from '../../rules/core/eligibility/evaluation/programDependencies';
+
+export type ApplicationDateField = keyof Application['dates'];
+
+/**
+ * Dates the user schedules ahead, shown on the timeline alongside status changes
+ */
+export const SCHEDULED_DATE_FIELDS: ApplicationDateField[] = ['deadlineAt', 'interviewAt', 'renewalDueAt'];
+
+/**
+ * Date recorded automatically when an application reaches a status
+ */
+const STATUS_DATE_FIELDS: Partial<Record<ApplicationStatus, ApplicationDateField>> = {
+  submitted: 'submittedAt',
+  approved: 'decisionAt',
+  denied: 'decisionAt',
+};
+
+/**
+ * How often programs usually ask for renewal (recertification), in months
+ *
+ * States set the exact period within these ranges, often per household.
+ */
+export const RECERTIFICATION_PERIODS: Record<string, { minMonths: number; maxMonths: number }> = {
+  snap: { minMonths: 6, maxMonths: 12 },
+  medicaid: { minMonths: 12, maxMonths: 12 },
+  wic: { minMonths: 6, maxMonths: 12 },
+  tanf: { minMonths: 6, maxMonths: 12 },
+  ssi: { minMonths: 12, maxMonths: 72 },
+  section8: { minMonths: 12, maxMonths: 12 },
+  lihtc: { minMonths: 12, maxMonths: 12 },
+};
+
+/**
+ * Program details needed to start tracking an application
+ */
+export interface TrackableProgram {
+  programId: string;
+  programName: string;
+  jurisdiction?: string;
+  applicationDeadline?: Date;
+}
+
+export interface ApplicationDetails {
+  caseNumber?: string;
+  notes?: string;
+  dates?: Partial<Application['dates']>;
+}
+
+export interface StatusChangeOptions {
+  /** When the change happened (default: now) */
+  date?: number;
+  note?: string;
+}
+
+export interface TimelineEntry {
+  id: string;
+  date: number;
+  /** Set for status changes */
+  status?: ApplicationStatus;
+  /** Set for scheduled dates */
+  milestone?: ApplicationDateField;
+  note?: string;
+  /** Scheduled dates that have not happened yet */
+  upcoming: boolean;
+}
+
+export interface RenewalEstimate {
+  /** Earliest the renewal is usually due, so reminders are never late */
+  date: number;
+  minMonths: number;
+  maxMonths: number;
+}
+
+export type NextActionKind = 'submit' | 'await-decision' | 'interview' | 'renew';
+
+export interface NextAction {
+  programId: string;
+  programName: string;
+  kind: NextActionKind;
+  /** When the action is due, if the user recorded a date */
+  date?: number;
+  /** The date is an estimate, not one the user entered */
+  estimated?: boolean;
+  overdue: boolean;
+}
+
+/**
+ * Check whether a value is a known application status
+ */
+export function isApplicationStatus(value: string): value is ApplicationStatus {
+  return (APPLICATION_STATUS_VALUES as readonly string[]).includes(value);
+}
+
+/**
+ * Start tracking an application for a program, in the planning stage
+ *
+ * @example
+ * const application = createApplication({ programId: 'snap-federal', programName: 'SNAP' });
+ * application.status; // 'planning'
+ */
+export function createApplication(program: TrackableProgram, now = Date.now()): Application {
+  const deadline = program.applicationDeadline?.getTime();
+
+  return {
+    programId: program.programId,
+    programName: program.programName,
+    ...(program.jurisdiction && { jurisdiction: program.jurisdiction }),
+    status: 'planning',
+    dates: deadline !== undefined && !Number.isNaN(deadline) ? { deadlineAt: deadline } : {},
+    events: [{ id: nanoid(), status: 'planning', date: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Move an application to a new status, adding the change to its timeline
+ *
+ * Submitting records the submission date, and an approval or denial records
+ * the decision date.
+ */
+export function updateApplicationStatus(
+  application: Application,
+  status: ApplicationStatus,
+  options: StatusChangeOptions = {},
+  now = Date.now()
+): Application {
+  const date = options.date ?? now;
+  const dateField = STATUS_DATE_FIELDS[status];
+  const note = options.note?.trim();
+
+  return {
+    ...application,
+    status,
+    dates: dateField ? { ...application.dates, [dateField]: date } : application.dates,
+    events: [
+      ...application.events,
+      { id: nanoid(), status, date, ...(note && { note }) },
+    ],
+    updatedAt: now,
+  };
+}
+
+/**
+ * Update an application's case number, notes or dates
+ *
+ * Dates passed as undefined are cleared.
+ */
+export function updateApplicationDetails(
+  application: Application,
+  details: ApplicationDetails,
+  now = Date.now()
+): Application {
+  const dates = { ...application.dates, ...details.dates };
+  for (const field of Object.keys(dates) as ApplicationDateField[]) {
+    if (dates[field] === undefined) {
+      delete dates[field];
+    }
+  }
+
+  return {
+    ...application,
+    ...(details.caseNumber !== undefined && { caseNumber: details.caseNumber }),
+    ...(details.notes !== undefined && { notes: details.notes }),
+    dates,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Status changes and scheduled dates in date order
+ *
+ * @example
+ * getApplicationTimeline(application).map(entry => entry.status ?? entry.milestone);
+ * // ['planning', 'submitted', 'interviewAt']
+ */
+export function getApplicationTimeline(application: Application, now = Date.now()): TimelineEntry[] {
+  const statusEntries: TimelineEntry[] = application.events.map(event => ({
+    id: event.id,
+    date: event.date,
+    status: event.status,
+    note: event.note,
+    upcoming: false,
+  }));
+
+  const milestoneEntries: TimelineEntry[] = SCHEDULED_DATE_FIELDS.flatMap((field) => {
+    const date = application.dates[field];
+    if (date === undefined) {return [];}
+    return [{ id: field, date, milestone: field, upcoming: date > now }];
+  });
+
+  // Stable sort keeps same-day status changes in the order they were made
+  return [...statusEntries, ...milestoneEntries].sort((a, b) => a.date - b.date);
+}
+
+/**
+ * Add calendar months, keeping to the last day of shorter months
+ */
+function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes());
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target.getTime();
+}
+
+/**
+ * Estimate when benefits must be renewed from the date they were approved
+ *
+ * Returns null for programs without a known recertification period.
+ *
+ * @example
+ * estimateRenewalDue('snap-texas', new Date(2025, 0, 31).getTime());
+ * // { date: <July 31, 2025>, minMonths: 6, maxMonths: 12 }
+ */
+export function estimateRenewalDue(programId: string, approvedAt: number): RenewalEstimate | null {
+  const family = getProgramCategory(programId) ?? programId.toLowerCase().split('-')[0];
+  const period = Object.prototype.hasOwnProperty.call(RECERTIFICATION_PERIODS, family) ? RECERTIFICATION_PERIODS[family] : undefined;
+  if (!period) {return null;}
+
+  return {
+    date: addMonths(approvedAt, period.minMonths),
+    minMonths: period.minMonths,
+    maxMonths: period.maxMonths,
+  };
+}
+
+/**
+ * When an application's benefits must be renewed: the date the user entered,
+ * or an estimate from the approval date
+ */
+export function getRenewalDue(application: Application): { date: number; estimate: RenewalEstimate | null } | null {
+  const { renewalDueAt, decisionAt } = application.dates;
+  if (renewalDueAt !== undefined) {
+    return { date: renewalDueAt, estimate: null };
+  }
+  if (decisionAt === undefined || (application.status !== 'approved' && application.status !== 'renewal-due')) {
+    return null;
+  }
+
+  const estimate = estimateRenewalDue(application.programId, decisionAt);
+  return estimate ? { date: estimate.date, estimate } : null;
+}
+
+/**
+ * What the user needs to do next for an application, or null once it needs nothing
+ */
+export function getNextAction(application: Application, now = Date.now()): NextAction | null {
+  const { dates } = application;
+  const renewal = getRenewalDue(application);
+  const action = (kind: NextActionKind, date?: number, estimated = false): NextAction => ({
+    programId: application.programId,
+    programName: application.programName,
+    kind,
+    date,
+    ...(estimated && { estimated }),
+    overdue: date !== undefined && date < now,
+  });
+
+  switch (application.status) {
+    case 'planning':
+      return action('submit', dates.deadlineAt);
+    case 'submitted':
+      return dates.interviewAt !== undefined && dates.interviewAt >= now
+        ? action('interview', dates.interviewAt)
+        : action('await-decision');
+    case 'interview-scheduled':
+      return action('interview', dates.interviewAt);
+    case 'approved':
+      return renewal ? action('renew', renewal.date, renewal.estimate !== null) : null;
+    case 'renewal-due':
+      return action('renew', renewal?.date, Boolean(renewal?.estimate));
+    case 'denied':
+      return null;
+  }
+}
+
+/**
+ * Next actions across all applications, soonest first
+ *
+ * Actions without a date follow the dated ones.
+ */
+export function getUpcomingActions(applications: Application[], now = Date.now()): NextAction[] {
+  return applications
+    .map(application => getNextAction(application, now))
+    .filter((action): action is NextAction => action !== null)
+    .sort((a, b) => {
+      if (a.date === undefined || b.date === undefined) {
+        return Number(a.date === undefined) - Number(b.date === undefined);
+      }
+      return a.date - b.date;
+    });
+}
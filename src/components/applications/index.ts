@@ -0,0 +1,43 @@
+/**
+ * Application Tracking Components
+ *
+ * Track applications for programs from the results page, with a timeline
+ * per program, a "what's next" summary for the home page and a calendar
+ * export with reminders.
+ */
+
+export { ApplicationTracker } from './ApplicationTracker';
+export { ApplicationTimeline } from './ApplicationTimeline';
+export { UpcomingApplications } from './UpcomingApplications';
+export { CalendarExportButton } from './CalendarExportButton';
+export { useApplications, getApplicationsCollection } from './useApplications';
+export {
+  createApplication,
+  updateApplicationStatus,
+  updateApplicationDetails,
+  getApplicationTimeline,
+  getNextAction,
+  getUpcomingActions,
+  estimateRenewalDue,
+  getRenewalDue,
+  RECERTIFICATION_PERIODS,
+} from './applicationUtils';
+export {
+  buildApplicationCalendarEvents,
+  createApplicationCalendarFile,
+  parseEstimatedMinutes,
+  DEFAULT_APPLICATION_CALENDAR_LABELS,
+} from './applicationCalendar';
+
+// Types
+export type {
+  ApplicationDateField,
+  ApplicationDetails,
+  NextAction,
+  NextActionKind,
+  RenewalEstimate,
+  StatusChangeOptions,
+  TimelineEntry,
+  TrackableProgram,
+} from './applicationUtils';
+export type { ApplicationCalendarLabels, ApplicationCalendarOptions } from './applicationCalendar';
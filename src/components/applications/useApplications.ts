@@ -0,0 +1,185 @@
+/**
+ * useApplications Hook
+ *
+ * Tracks the applications a user is making for programs from their results.
+ * Applications are kept in the encrypted `applications` collection, and
+ * `applications` follows a live query so the results page and home page
+ * stay in step.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { getDatabase, initializeDatabase } from '../../db/database';
+import type { ApplicationsCollection } from '../../db/database-engine/types';
+import type { Application, ApplicationStatus } from '../../db/schemas';
+import {
+  createApplication,
+  updateApplicationDetails,
+  updateApplicationStatus,
+  type ApplicationDetails,
+  type StatusChangeOptions,
+  type TrackableProgram,
+} from './applicationUtils';
+
+interface UseApplicationsReturn {
+  applications: Application[];
+  isLoading: boolean;
+  error: Error | null;
+  getApplication: (programId: string) => Application | undefined;
+  trackProgram: (program: TrackableProgram) => Promise<void>;
+  updateStatus: (programId: string, status: ApplicationStatus, options?: StatusChangeOptions) => Promise<void>;
+  updateDetails: (programId: string, details: ApplicationDetails) => Promise<void>;
+  removeApplication: (programId: string) => Promise<void>;
+}
+
+/**
+ * Open the applications collection
+ */
+export async function getApplicationsCollection(): Promise<ApplicationsCollection> {
+  const db = getDatabase() ?? await initializeDatabase();
+  return db.applications;
+}
+
+/**
+ * Hook for tracking applications
+ */
+export function useApplications(): UseApplicationsReturn {
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Run a storage operation, tracking loading and error state
+   */
+  const runOperation = useCallback(async <T>(operation: () => Promise<T>, failureMessage: string): Promise<T> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await operation();
+    } catch (err) {
+      const operationError = err instanceof Error ? err : new Error(failureMessage);
+      setError(operationError);
+      throw operationError;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Replace a tracked application with a changed copy
+   */
+  const modifyApplication = useCallback((
+    programId: string,
+    change: (application: Application) => Application,
+    failureMessage: string
+  ): Promise<void> => {
+    return runOperation(async () => {
+      const collection = await getApplicationsCollection();
+      const doc = await collection.findOne(programId).exec();
+      if (!doc) {
+        throw new Error(`No application is tracked for ${programId}`);
+      }
+      await collection.upsert(change(doc.toMutableJSON()));
+    }, failureMessage);
+  }, [runOperation]);
+
+  const getApplication = useCallback((programId: string): Application | undefined => {
+    return applications.find(application => application.programId === programId);
+  }, [applications]);
+
+  /**
+   * Start tracking an application; a program already tracked is left as it is
+   */
+  const trackProgram = useCallback((program: TrackableProgram): Promise<void> => {
+    return runOperation(async () => {
+      const collection = await getApplicationsCollection();
+      const existing = await collection.findOne(program.programId).exec();
+      if (!existing) {
+        await collection.insert(createApplication(program));
+      }
+    }, 'Failed to track application');
+  }, [runOperation]);
+
+  /**
+   * Move an application to a new status
+   */
+  const updateStatus = useCallback((
+    programId: string,
+    status: ApplicationStatus,
+    options?: StatusChangeOptions
+  ): Promise<void> => {
+    return modifyApplication(
+      programId,
+      application => updateApplicationStatus(application, status, options),
+      'Failed to update application status'
+    );
+  }, [modifyApplication]);
+
+  /**
+   * Update an application's case number, notes or dates
+   */
+  const updateDetails = useCallback((programId: string, details: ApplicationDetails): Promise<void> => {
+    return modifyApplication(
+      programId,
+      application => updateApplicationDetails(application, details),
+      'Failed to update application'
+    );
+  }, [modifyApplication]);
+
+  /**
+   * Stop tracking an application
+   */
+  const removeApplication = useCallback((programId: string): Promise<void> => {
+    return runOperation(async () => {
+      const collection = await getApplicationsCollection();
+      const doc = await collection.findOne(programId).exec();
+      await doc?.remove();
+    }, 'Failed to remove application');
+  }, [runOperation]);
+
+  /**
+   * Follow the tracked applications
+   * The live query re-emits whenever an application is tracked, updated or removed
+   */
+  useEffect(() => {
+    let cancelled = false;
+    let subscription: { unsubscribe: () => void } | undefined;
+
+    getApplicationsCollection()
+      .then((collection) => {
+        if (cancelled) {return;}
+        subscription = collection.findTracked().$.subscribe((docs) => {
+          setApplications(docs.map(doc => doc.toMutableJSON()));
+          setIsLoading(false);
+        });
+      })
+      .catch((err: unknown) => {
+        console.error(err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('Failed to load applications'));
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      subscription?.unsubscribe();
+    };
+  }, []);
+
+  return {
+    // State
+    applications,
+    isLoading,
+    error,
+
+    // Actions
+    getApplication,
+    trackProgram,
+    updateStatus,
+    updateDetails,
+    removeApplication,
+  };
+}
+
+export default useApplications;
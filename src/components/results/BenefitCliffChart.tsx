@@ -0,0 +1,217 @@
+/**
+ * Benefit Cliff Chart Component
+ *
+ * Charts net resources (income plus estimated benefits) against monthly
+ * earnings so families can see where a raise would cost them more in
+ * benefits than it pays, with poverty-guideline income limits marked.
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Switch from '@radix-ui/react-switch';
+import { createChartScale, loadBenefitCliffAnalysis, type BenefitCliffData } from './benefitCliffUtils';
+import { useI18n } from '../../i18n/hooks';
+
+interface BenefitCliffChartProps {
+  /** Questionnaire answers; a stored `profileId` is used when present */
+  userProfile?: Record<string, unknown>;
+}
+
+const CHART_SIZE = { width: 640, height: 280, padding: 40 };
+
+function formatDollars(amount: number): string {
+  return `$${Math.round(amount).toLocaleString()}`;
+}
+
+export const BenefitCliffChart: React.FC<BenefitCliffChartProps> = ({ userProfile }) => {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(false);
+  const [cliffData, setCliffData] = useState<BenefitCliffData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {return undefined;}
+
+    let cancelled = false;
+    setIsLoading(true);
+    setHasError(false);
+
+    loadBenefitCliffAnalysis(userProfile)
+      .then((data) => {
+        if (!cancelled) {setCliffData(data);}
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to analyze benefit cliffs:', error);
+        if (!cancelled) {
+          setCliffData(null);
+          setHasError(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {setIsLoading(false);}
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userProfile]);
+
+  const renderChart = ({ analysis, programNames }: BenefitCliffData): React.ReactNode => {
+    const { x, y } = createChartScale(analysis, CHART_SIZE);
+    const line = (value: (point: typeof analysis.points[number]) => number): string =>
+      analysis.points.map(point => `${x(point.earnings).toFixed(1)},${y(value(point)).toFixed(1)}`).join(' ');
+    const bottom = CHART_SIZE.height - CHART_SIZE.padding;
+    const programList = (programIds: string[]): string =>
+      programIds.map(programId => programNames[programId] ?? programId).join(', ');
+
+    return (
+      <>
+        <p className="text-sm text-gray-700 mb-3">
+          {analysis.cliffs.length > 0
+            ? t('results.benefitCliff.cliffCount', { count: analysis.cliffs.length })
+            : t('results.benefitCliff.noCliffs')}
+        </p>
+
+        <svg
+          viewBox={`0 0 ${CHART_SIZE.width} ${CHART_SIZE.height}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={t('results.benefitCliff.chartLabel')}
+          data-testid="benefit-cliff-chart"
+        >
+          <line x1={CHART_SIZE.padding} y1={bottom} x2={CHART_SIZE.width - CHART_SIZE.padding} y2={bottom} stroke="#9ca3af" />
+          <line x1={CHART_SIZE.padding} y1={CHART_SIZE.padding} x2={CHART_SIZE.padding} y2={bottom} stroke="#9ca3af" />
+
+          {analysis.thresholds.map(threshold => (
+            <g key={threshold.percent} data-testid="benefit-cliff-threshold">
+              <line
+                x1={x(threshold.earnings)}
+                y1={CHART_SIZE.padding}
+                x2={x(threshold.earnings)}
+                y2={bottom}
+                stroke="#d1d5db"
+                strokeDasharray="4 4"
+              />
+              <title>{`${threshold.label}: ${formatDollars(threshold.householdIncome)}`}</title>
+            </g>
+          ))}
+
+          <polyline points={line(point => point.householdIncome)} fill="none" stroke="#9ca3af" strokeWidth={2} strokeDasharray="6 4" />
+          <polyline points={line(point => point.netResources)} fill="none" stroke="#2563eb" strokeWidth={2.5} />
+
+          <line
+            x1={x(analysis.currentEarnings)}
+            y1={CHART_SIZE.padding}
+            x2={x(analysis.currentEarnings)}
+            y2={bottom}
+            stroke="#16a34a"
+          />
+
+          {analysis.cliffs.map(cliff => (
+            <circle
+              key={cliff.fromEarnings}
+              cx={x(cliff.toEarnings)}
+              cy={y(analysis.points.find(point => point.earnings === cliff.toEarnings)?.netResources ?? 0)}
+              r={5}
+              fill="#dc2626"
+              data-testid="benefit-cliff-marker"
+            >
+              <title>{programList(cliff.programsLost)}</title>
+            </circle>
+          ))}
+
+          <text x={CHART_SIZE.padding} y={CHART_SIZE.height - 12} fontSize={12} fill="#4b5563">
+            {formatDollars(analysis.points[0]?.earnings ?? 0)}
+          </text>
+          <text x={CHART_SIZE.width - CHART_SIZE.padding} y={CHART_SIZE.height - 12} fontSize={12} fill="#4b5563" textAnchor="end">
+            {formatDollars(analysis.points[analysis.points.length - 1]?.earnings ?? 0)}
+          </text>
+        </svg>
+
+        <ul className="flex flex-wrap gap-4 text-xs text-gray-600 mt-2">
+          <li><span className="inline-block w-4 h-0.5 bg-blue-600 align-middle mr-1" />{t('results.benefitCliff.netResources')}</li>
+          <li><span className="inline-block w-4 h-0.5 bg-gray-400 align-middle mr-1" />{t('results.benefitCliff.income')}</li>
+          <li><span className="inline-block w-4 h-0.5 bg-green-600 align-middle mr-1" />{t('results.benefitCliff.currentEarnings')}</li>
+          <li><span className="inline-block w-2 h-2 rounded-full bg-red-600 align-middle mr-1" />{t('results.benefitCliff.cliff')}</li>
+        </ul>
+
+        {analysis.cliffs.length > 0 && (
+          <ul className="mt-4 space-y-2 text-sm text-gray-700" data-testid="benefit-cliff-list">
+            {analysis.cliffs.map(cliff => (
+              <li key={cliff.fromEarnings}>
+                {t(cliff.loss > 0 ? 'results.benefitCliff.cliffLoss' : 'results.benefitCliff.cliffProgramsOnly', {
+                  from: formatDollars(cliff.fromEarnings),
+                  to: formatDollars(cliff.toEarnings),
+                  loss: formatDollars(cliff.loss),
+                  programs: programList(cliff.programsLost),
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {analysis.thresholds.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-semibold text-gray-900 mb-1">{t('results.benefitCliff.thresholds')}</h4>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {analysis.thresholds.map(threshold => (
+                <li key={threshold.percent}>
+                  {t('results.benefitCliff.threshold', {
+                    label: threshold.label,
+                    amount: formatDollars(threshold.householdIncome),
+                    earnings: formatDollars(threshold.earnings),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <section
+      className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-4xl mx-auto print:hidden"
+      aria-labelledby="benefit-cliff-heading"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 id="benefit-cliff-heading" className="text-lg font-semibold text-gray-900">
+            {t('results.benefitCliff.title')}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {t('results.benefitCliff.description')}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label htmlFor="benefit-cliff-toggle" className="text-sm font-medium text-gray-700">
+            {t('results.benefitCliff.toggle')}
+          </label>
+          <Switch.Root
+            id="benefit-cliff-toggle"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            className="relative w-11 h-6 rounded-full bg-gray-300 data-[state=checked]:bg-blue-600 transition-colors min-w-[44px]"
+          >
+            <Switch.Thumb className="block w-5 h-5 rounded-full bg-white shadow transition-transform translate-x-0.5 data-[state=checked]:translate-x-[22px]" />
+          </Switch.Root>
+        </div>
+      </div>
+
+      {enabled && (
+        <div className="mt-4" aria-live="polite">
+          {isLoading && (
+            <p className="text-sm text-gray-600">{t('results.benefitCliff.loading')}</p>
+          )}
+          {!isLoading && hasError && (
+            <p className="text-sm text-red-600">{t('results.benefitCliff.error')}</p>
+          )}
+          {!isLoading && !hasError && cliffData && renderChart(cliffData)}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BenefitCliffChart;
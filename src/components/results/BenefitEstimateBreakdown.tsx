@@ -0,0 +1,77 @@
+/**
+ * Benefit Estimate Breakdown Component
+ *
+ * Shows an estimated benefit amount and the calculation steps behind it.
+ * Cost estimates, such as the Section 8 tenant rent share, use their own
+ * heading and disclaimer so they are not read as a benefit.
+ */
+
+import React from 'react';
+import type { EstimatedBenefit } from './types';
+import { useI18n } from '../../i18n/hooks';
+
+interface BenefitEstimateBreakdownProps {
+  estimatedBenefit?: EstimatedBenefit;
+  /** Whether the amount is a benefit paid to the household or a cost it pays */
+  kind?: 'benefit' | 'cost';
+}
+
+function formatAmount(amount: number): string {
+  const sign = amount < 0 ? '−' : '';
+  return `${sign}$${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+export const BenefitEstimateBreakdown: React.FC<BenefitEstimateBreakdownProps> = ({
+  estimatedBenefit,
+  kind = 'benefit',
+}) => {
+  const { t } = useI18n();
+
+  if (!estimatedBenefit) {
+    return null;
+  }
+
+  const isCost = kind === 'cost';
+  const steps = estimatedBenefit.steps ?? [];
+  const description = estimatedBenefit.descriptionKey
+    ? t(`results.estimate.descriptions.${estimatedBenefit.descriptionKey}`, estimatedBenefit.descriptionValues)
+    : estimatedBenefit.description;
+
+  return (
+    <div className="mb-6">
+      <h4 className="font-semibold text-gray-900 mb-3">{t(isCost ? 'results.estimate.cost.title' : 'results.estimate.title')}</h4>
+      <div className={`rounded-lg p-4 border ${isCost ? 'bg-gray-50 border-gray-300' : 'bg-blue-50 border-blue-200'}`}>
+        <p className={`text-lg font-bold ${isCost ? 'text-gray-900' : 'text-blue-700'}`}>
+          {formatAmount(estimatedBenefit.amount)} {t(`results.estimate.frequency.${estimatedBenefit.frequency}`)}
+        </p>
+        {description && (
+          <p className={`text-sm mt-1 ${isCost ? 'text-gray-700' : 'text-blue-900'}`}>{description}</p>
+        )}
+
+        {steps.length > 0 && (
+          <table className="w-full mt-3 text-sm">
+            <caption className="sr-only">{t('results.estimate.calculationCaption')}</caption>
+            <tbody>
+              {steps.map((step, index) => (
+                <tr
+                  key={index}
+                  className={index === steps.length - 1 ? 'border-t border-blue-200 font-semibold' : ''}
+                >
+                  <th scope="row" className="text-left font-normal text-gray-700 py-1 pr-4">
+                    {step.key ? t(`results.estimate.steps.${step.key}`, step.values) : step.label}
+                  </th>
+                  <td className="text-right font-mono text-gray-900 py-1">
+                    {formatAmount(step.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 mt-2">{t(isCost ? 'results.estimate.cost.disclaimer' : 'results.estimate.disclaimer')}</p>
+    </div>
+  );
+};
+
+export default BenefitEstimateBreakdown;
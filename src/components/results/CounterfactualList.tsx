@@ -0,0 +1,47 @@
+/**
+ * Counterfactual List Component
+ *
+ * Lists the smallest changes to the user's answers that would make them
+ * eligible, such as a lower income or reporting dependent care costs.
+ */
+
+import React from 'react';
+import { formatCounterfactualAmount, type Counterfactual } from '../../rules/core/counterfactual';
+import { getVariableLabel } from '../../rules/core/variables';
+import { useI18n } from '../../i18n/hooks';
+
+interface CounterfactualListProps {
+  counterfactuals?: Counterfactual[];
+}
+
+export const CounterfactualList: React.FC<CounterfactualListProps> = ({ counterfactuals = [] }) => {
+  const { t } = useI18n();
+
+  if (counterfactuals.length === 0) {
+    return null;
+  }
+
+  return (
+    <div data-testid="counterfactual-list">
+      <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+        <span className="text-lg mr-2">🔁</span>
+        {t('results.whatWouldChange.title')}
+      </h4>
+      <ul className="space-y-2">
+        {counterfactuals.map(counterfactual => (
+          <li key={counterfactual.field} className="flex items-start">
+            <span className="text-blue-600 mr-2 mt-0.5">•</span>
+            <span className="text-gray-700">
+              {t(`results.whatWouldChange.${counterfactual.change}`, {
+                field: getVariableLabel(counterfactual.field, (key) => t(key)),
+                amount: formatCounterfactualAmount(counterfactual),
+              })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CounterfactualList;
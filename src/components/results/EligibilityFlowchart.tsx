@@ -0,0 +1,163 @@
+/**
+ * Eligibility Flowchart Component
+ *
+ * Shows how a program's rules decide eligibility as an auto-laid-out
+ * flowchart, with each rule and condition colored by how it applies to the
+ * user's answers. A second program can be shown side by side.
+ */
+
+import React, { useEffect, useState } from 'react';
+import ReactFlow, { Background, Controls, Handle, Position, type NodeProps } from 'reactflow';
+import 'reactflow/dist/style.css';
+import {
+  FLOW_NODE_WIDTH,
+  layoutEligibilityFlow,
+  loadFlowPrograms,
+  loadProgramFlow,
+  type FlowLayout,
+  type FlowProgramOption,
+} from './flowchartUtils';
+import type { EligibilityFlowNode, FlowNodeStatus } from '../../rules/core/explanation-system';
+import { useI18n } from '../../i18n/hooks';
+
+interface EligibilityFlowchartProps {
+  programId: string;
+  userProfile?: {
+    state?: string;
+    [key: string]: unknown;
+  };
+}
+
+const STATUS_STYLES: Record<FlowNodeStatus, { classes: string; icon: string; key: string }> = {
+  pass: { classes: 'bg-green-50 border-green-600 text-green-900', icon: '✓', key: 'results.flowchart.status.pass' },
+  fail: { classes: 'bg-red-50 border-red-600 text-red-900', icon: '✗', key: 'results.flowchart.status.fail' },
+  unknown: { classes: 'bg-gray-50 border-gray-400 border-dashed text-gray-800', icon: '?', key: 'results.flowchart.status.unknown' },
+};
+
+const EligibilityFlowNodeView: React.FC<NodeProps<EligibilityFlowNode>> = ({ data }) => {
+  const { t } = useI18n();
+  const style = STATUS_STYLES[data.status];
+
+  return (
+    <div
+      className={`rounded-lg border-2 px-3 py-2 text-xs ${style.classes} ${data.kind === 'condition' ? '' : 'font-semibold'}`}
+      style={{ width: FLOW_NODE_WIDTH }}
+      data-status={data.status}
+    >
+      <Handle type="target" position={Position.Top} />
+      <p>
+        <span aria-label={t(style.key)} className="mr-1">{style.icon}</span>
+        {data.label}
+      </p>
+      {data.details.map(detail => (
+        <p key={detail} className="mt-0.5 font-normal opacity-80">{detail}</p>
+      ))}
+      <Handle type="source" position={Position.Bottom} />
+    </div>
+  );
+};
+
+const nodeTypes = { eligibility: EligibilityFlowNodeView };
+
+const ProgramFlow: React.FC<EligibilityFlowchartProps> = ({ programId, userProfile }) => {
+  const { t } = useI18n();
+  const [layout, setLayout] = useState<FlowLayout | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLayout(null);
+    setHasError(false);
+
+    loadProgramFlow(programId, userProfile)
+      .then(layoutEligibilityFlow)
+      .then((result) => {
+        if (!cancelled) {setLayout(result);}
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to build eligibility flowchart:', error);
+        if (!cancelled) {setHasError(true);}
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [programId, userProfile]);
+
+  if (hasError) {
+    return <p className="text-sm text-red-700" role="alert">{t('results.flowchart.error')}</p>;
+  }
+
+  if (!layout) {
+    return <p className="text-sm text-gray-600" role="status">{t('results.flowchart.loading')}</p>;
+  }
+
+  return (
+    <div className="h-[28rem] border border-gray-200 rounded-lg" data-testid={`flowchart-${programId}`}>
+      <ReactFlow
+        nodes={layout.nodes}
+        edges={layout.edges.map(edge => ({
+          ...edge,
+          label: edge.label ? t(`results.flowchart.branch.${String(edge.label)}`) : undefined,
+        }))}
+        nodeTypes={nodeTypes}
+        nodesConnectable={false}
+        fitView
+        minZoom={0.2}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background />
+        <Controls showInteractive={false} />
+      </ReactFlow>
+    </div>
+  );
+};
+
+export const EligibilityFlowchart: React.FC<EligibilityFlowchartProps> = ({ programId, userProfile }) => {
+  const { t } = useI18n();
+  const [programs, setPrograms] = useState<FlowProgramOption[]>([]);
+  const [compareId, setCompareId] = useState('');
+
+  useEffect(() => {
+    loadFlowPrograms()
+      .then(setPrograms)
+      .catch((error: unknown) => console.error('Failed to load programs for comparison:', error));
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor={`flowchart-compare-${programId}`} className="text-sm font-medium text-gray-700">
+          {t('results.flowchart.compareWith')}
+        </label>
+        <select
+          id={`flowchart-compare-${programId}`}
+          value={compareId}
+          onChange={(event) => setCompareId(event.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="">{t('results.flowchart.noComparison')}</option>
+          {programs.filter(program => program.id !== programId).map(program => (
+            <option key={program.id} value={program.id}>{program.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="flex flex-wrap gap-4 text-xs text-gray-700">
+        {(Object.keys(STATUS_STYLES) as FlowNodeStatus[]).map(status => (
+          <li key={status} className="flex items-center gap-1">
+            <span className={`inline-block w-4 h-4 rounded border-2 ${STATUS_STYLES[status].classes}`} aria-hidden="true" />
+            {t(STATUS_STYLES[status].key)}
+          </li>
+        ))}
+      </ul>
+
+      <div className={`grid gap-4 ${compareId ? 'lg:grid-cols-2' : ''}`}>
+        <ProgramFlow programId={programId} userProfile={userProfile} />
+        {compareId && <ProgramFlow programId={compareId} userProfile={userProfile} />}
+      </div>
+    </div>
+  );
+};
+
+export default EligibilityFlowchart;
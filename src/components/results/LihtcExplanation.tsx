@@ -175,6 +175,8 @@ export const LihtcExplanation: React.FC<LihtcExplanationProps> = ({
         programId="lihtc-federal"
         status={status}
         userProfile={userProfile}
+        counterfactuals={_explanation.counterfactuals}
+        missingFields={_explanation.missingFields}
       />
 
       <div className="mb-6">
@@ -2,48 +2,69 @@
  * Maybe Reasons Section Component
  *
  * Generic component for displaying specific reasons for Maybe status
- * that shows users what they need to address for potential eligibility.
+ * that shows users what they need to address for potential eligibility,
+ * followed by the answer changes that would make them eligible. When
+ * evaluation reports the unanswered questions that decide the result,
+ * those replace the profile-based reasons.
  */
 
 import React from 'react';
 import { getMaybeReasons, type UserProfile } from '../../utils/specificReasons';
 import { EligibilityStatus } from './types';
+import { CounterfactualList } from './CounterfactualList';
+import { UnansweredQuestionsList } from './UnansweredQuestionsList';
+import type { Counterfactual } from '../../rules/core/counterfactual';
 import { useI18n } from '../../i18n/hooks';
 
 interface MaybeReasonsSectionProps {
   programId: string;
   status: EligibilityStatus;
   userProfile?: UserProfile;
+  counterfactuals?: Counterfactual[];
+  /** Unanswered questions that would settle the result */
+  missingFields?: string[];
 }
 
 export const MaybeReasonsSection: React.FC<MaybeReasonsSectionProps> = ({
   programId,
   status,
   userProfile,
+  counterfactuals = [],
+  missingFields = [],
 }) => {
   const { t } = useI18n();
 
-  const maybeReasons = getMaybeReasons(programId, status, userProfile);
+  const maybeReasons = missingFields.length > 0 ? [] : getMaybeReasons(programId, status, userProfile);
 
-  // Don't render if no maybe reasons or not maybe status
-  if (maybeReasons.length === 0) {
+  // Don't render if there is nothing to address and nothing that would change the result
+  if (maybeReasons.length === 0 && missingFields.length === 0 && counterfactuals.length === 0) {
     return null;
   }
 
   return (
     <div>
-      <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
-        <span className="text-lg mr-2">⚠️</span>
-        {t('results.maybeReasons.title')}
-      </h4>
-      <ul className="space-y-2">
-        {maybeReasons.map((reason, index) => (
-          <li key={index} className="flex items-start">
-            <span className="text-yellow-600 mr-2 mt-0.5">•</span>
-            <span className="text-gray-700">{reason}</span>
-          </li>
-        ))}
-      </ul>
+      {missingFields.length > 0 && (
+        <div className={counterfactuals.length > 0 ? 'mb-6' : undefined}>
+          <UnansweredQuestionsList fields={missingFields} />
+        </div>
+      )}
+      {maybeReasons.length > 0 && (
+        <div className={counterfactuals.length > 0 ? 'mb-6' : undefined}>
+          <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+            <span className="text-lg mr-2">⚠️</span>
+            {t('results.maybeReasons.title')}
+          </h4>
+          <ul className="space-y-2">
+            {maybeReasons.map((reason, index) => (
+              <li key={index} className="flex items-start">
+                <span className="text-yellow-600 mr-2 mt-0.5">•</span>
+                <span className="text-gray-700">{reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <CounterfactualList counterfactuals={counterfactuals} />
     </div>
   );
 };
@@ -245,6 +245,8 @@ export const MedicaidExplanation: React.FC<MedicaidExplanationProps> = ({
           programId="medicaid-federal"
           status={status}
           userProfile={userProfile}
+          counterfactuals={_explanation.counterfactuals}
+          missingFields={_explanation.missingFields}
           evaluationResult={_explanation}
         />
 
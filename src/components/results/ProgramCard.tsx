@@ -19,8 +19,13 @@ import { LihtcExplanation } from './LihtcExplanation';
 import { ConfidenceScore } from './ConfidenceScore';
 import { DocumentChecklist } from './DocumentChecklist';
 import { NextStepsList } from './NextStepsList';
+import { ApplicationTracker } from '../applications/ApplicationTracker';
 import { useI18n } from '../../i18n/hooks';
 import { getProgramNameKey, getProgramDescriptionKey } from '../../utils/programHelpers';
+import { localizeProgramResult } from './localizeResult';
+
+// React Flow and ELK are only loaded when a flowchart is opened
+const EligibilityFlowchart = React.lazy(() => import('./EligibilityFlowchart').then(m => ({ default: m.EligibilityFlowchart })));
 
 interface ProgramCardProps {
   result: ProgramEligibilityResult;
@@ -104,6 +109,8 @@ const getExplanationComponent = (programId: string, result: ProgramEligibilityRe
     status: result.status,
     explanation: result.explanation,
     userProfile,
+    estimatedBenefit: result.estimatedBenefit,
+    estimatedCost: result.estimatedCost,
     onClose
   };
 
@@ -139,14 +146,17 @@ const getExplanationComponent = (programId: string, result: ProgramEligibilityRe
 };
 
 export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
-  result,
+  result: sourceResult,
   userProfile,
   onDocumentToggle,
   onStepToggle,
   className = '',
 }) => {
-  const { t } = useI18n();
+  const { t, i18n } = useI18n();
+  const language = i18n.language;
+  const result = useMemo(() => localizeProgramResult(sourceResult, language), [sourceResult, language]);
   const [showExplanation, setShowExplanation] = useState(false);
+  const [showFlowchart, setShowFlowchart] = useState(false);
 
   // Add SNAP-specific debug logging
   if (result.programId.includes('snap') && import.meta.env.DEV) {
@@ -161,7 +171,7 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
   }
 
 
-  const { shouldShowDocuments, shouldShowNextSteps, jurisdictionLabel, formattedBenefit } = useMemo(() => {
+  const { shouldShowDocuments, shouldShowNextSteps, jurisdictionLabel, formattedBenefit, formattedCost } = useMemo(() => {
     const showDocs = result.status === 'qualified' || result.status === 'likely';
     const showSteps = result.status !== 'not-qualified';
 
@@ -181,14 +191,19 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
     if (result.estimatedBenefit) {
       benefit = `$${result.estimatedBenefit.amount.toLocaleString()}/${result.estimatedBenefit.frequency}`;
     }
+    let cost = null;
+    if (result.estimatedCost) {
+      cost = `$${result.estimatedCost.amount.toLocaleString()}/${result.estimatedCost.frequency}`;
+    }
 
     return {
       shouldShowDocuments: showDocs,
       shouldShowNextSteps: showSteps,
       jurisdictionLabel: jurisdiction,
-      formattedBenefit: benefit
+      formattedBenefit: benefit,
+      formattedCost: cost
     };
-  }, [result.status, result.jurisdiction, result.estimatedBenefit]);
+  }, [result.status, result.jurisdiction, result.estimatedBenefit, result.estimatedCost]);
 
   return (
     <div
@@ -225,7 +240,7 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-blue-900">
-                Estimated Benefit:
+                {t('results.estimate.title')}
               </span>
               <span className="text-lg font-bold text-blue-700">
                 {formattedBenefit}
@@ -239,8 +254,27 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
           </div>
         )}
 
-        {/* Why Button */}
-        <div className="mt-4 print:hidden">
+        {/* Estimated Cost */}
+        {result.estimatedCost && (
+          <div className="mt-4 p-3 bg-gray-50 border border-gray-300 rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">
+                {t('results.estimate.cost.title')}
+              </span>
+              <span className="text-lg font-bold text-gray-900">
+                {formattedCost}
+              </span>
+            </div>
+            {result.estimatedCost.description && (
+              <p className="text-xs text-gray-700 mt-1">
+                {result.estimatedCost.description}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Why and Flowchart Buttons */}
+        <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2 print:hidden">
           <button
             onClick={() => setShowExplanation(true)}
             className="text-blue-600 hover:text-blue-800 text-sm font-medium flex items-center transition-colors"
@@ -248,6 +282,13 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
             <span className="mr-1">❓</span>
             {t('results.actions.whyThisResult')}
           </button>
+          <button
+            onClick={() => setShowFlowchart(true)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium flex items-center transition-colors"
+          >
+            <span className="mr-1">🔀</span>
+            {t('results.flowchart.open')}
+          </button>
         </div>
       </div>
 
@@ -299,6 +340,26 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
           </Accordion.Item>
         )}
 
+        {/* Application Tracking */}
+        {shouldShowNextSteps && (
+          <Accordion.Item value="application" className="border-b border-gray-200 print:hidden">
+            <Accordion.Header>
+              <Accordion.Trigger className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50 transition-colors">
+                <div className="flex items-center">
+                  <span className="text-lg mr-2">🗂️</span>
+                  <span className="font-semibold text-gray-900">
+                    {t('applications.title')}
+                  </span>
+                </div>
+                <span className="text-gray-400">▼</span>
+              </Accordion.Trigger>
+            </Accordion.Header>
+            <Accordion.Content className="px-6 py-4">
+              <ApplicationTracker program={result} />
+            </Accordion.Content>
+          </Accordion.Item>
+        )}
+
         {/* Additional Information */}
         {(result.processingTime ?? result.applicationDeadline) && (
           <Accordion.Item value="info">
@@ -344,6 +405,35 @@ export const ProgramCard: React.FC<ProgramCardProps> = React.memo(({
           </Dialog.Content>
         </Dialog.Portal>
       </Dialog.Root>
+
+      {/* Flowchart Dialog */}
+      <Dialog.Root open={showFlowchart} onOpenChange={setShowFlowchart}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40 print:hidden" />
+          <Dialog.Content
+            className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] overflow-y-auto z-50 p-6 print:hidden"
+          >
+            <Dialog.Title className="text-xl font-bold text-gray-900 mb-2">
+              {t('results.flowchart.title', { program: t(getProgramNameKey(result.programId)) })}
+            </Dialog.Title>
+            <Dialog.Description className="text-sm text-gray-600 mb-4">
+              {t('results.flowchart.description')}
+            </Dialog.Description>
+            {showFlowchart && (
+              <React.Suspense fallback={<p className="text-sm text-gray-600">{t('results.flowchart.loading')}</p>}>
+                <EligibilityFlowchart programId={result.programId} userProfile={userProfile} />
+              </React.Suspense>
+            )}
+            <div className="flex justify-end mt-4">
+              <Dialog.Close asChild>
+                <button className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 min-h-[44px]">
+                  {t('results.flowchart.close')}
+                </button>
+              </Dialog.Close>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
     </div>
   );
 });
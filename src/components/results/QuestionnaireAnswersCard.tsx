@@ -6,7 +6,7 @@
 
 import React, { useMemo } from 'react';
 import { useQuestionFlowStore } from '../../questionnaire/store';
-import type { QuestionDefinition } from '../../questionnaire/types';
+import { getAnsweredQuestions } from './questionnaireAnswers';
 
 interface QuestionnaireAnswersCardProps {
   className?: string;
@@ -21,124 +21,16 @@ export const QuestionnaireAnswersCard: React.FC<QuestionnaireAnswersCardProps> =
   // Recalculate when answers change to ensure dynamic question text is updated
   const questionContext = useMemo(() => getAnswerContext(), [getAnswerContext]);
 
-  // Memoize the expensive filtering operations
-  const answeredQuestions = useMemo(() => {
-    if (!flow) { return []; }
-
-    // Get all questions from the flow to display them in order
-    const questions = Array.from(flow.nodes.values());
-
-    // Filter to only show questions that have answers.
-    // For numeric/currency fields, also show questions where value is null/undefined
-    // because the questionnaire submission may default those to 0 and we want
-    // to display that explicitly on the results page.
-    return questions.filter((node: { question: QuestionDefinition }) => {
-      const answer = answers.get(node.question.id);
-      if (!answer) { return false; }
-
-      const val = answer.value;
-
-      // If the value is null/undefined/empty string, include it when the input
-      // type is numeric so we can render it as 0. Otherwise, exclude it.
-      if (val === null || val === undefined || val === '') {
-        return node.question.inputType === 'currency' || node.question.inputType === 'number';
-      }
-
-      return true;
-    });
-  }, [answers, flow]);
+  // Memoize the expensive filtering and formatting
+  const answeredQuestions = useMemo(
+    () => getAnsweredQuestions(flow, answers, questionContext),
+    [answers, flow, questionContext]
+  );
 
   if (answeredQuestions.length === 0) {
     return null;
   }
 
-  // Helper function to format boolean values
-  const formatBoolean = (value: unknown): string => {
-    if (value === true) {
-      return 'Yes';
-    }
-    if (value === false) {
-      return 'No';
-    }
-    return String(value);
-  };
-
-  // Helper function to format select/radio values
-  const formatSelectValue = (value: unknown, question: QuestionDefinition): string => {
-    const option = question.options?.find(opt => opt.value === value);
-    return option ? option.label : String(value);
-  };
-
-  // Helper function to format multiselect/checkbox values
-  const formatMultiValue = (value: unknown, question: QuestionDefinition): string => {
-    if (Array.isArray(value)) {
-      return value.map(val => {
-        const option = question.options?.find(opt => opt.value === val);
-        return option ? option.label : String(val);
-      }).join(', ');
-    }
-    return String(value);
-  };
-
-  // Helper function to format date values
-  const formatDateValue = (value: unknown): string => {
-    if (typeof value === 'string') {
-      try {
-        return new Date(value).toLocaleDateString();
-      } catch {
-        return String(value);
-      }
-    }
-    return String(value);
-  };
-
-  const formatValue = (value: unknown, question: QuestionDefinition): string => {
-    // Treat null/undefined/empty for numeric inputs as 0 so they display as if
-    // the user had entered 0 (submission may default these to 0).
-    if (value === null || value === undefined || value === '') {
-      if (question.inputType === 'currency') {
-        return `$${(0).toLocaleString()}`;
-      }
-      if (question.inputType === 'number') {
-        return (0).toLocaleString();
-      }
-
-      return 'Not answered';
-    }
-
-    switch (question.inputType) {
-      case 'currency':
-        return typeof value === 'number' ? `$${value.toLocaleString()}` : String(value);
-      case 'number':
-        return typeof value === 'number' ? value.toLocaleString() : String(value);
-      case 'boolean':
-        return formatBoolean(value);
-      case 'select':
-      case 'radio': {
-        return formatSelectValue(value, question);
-      }
-      case 'multiselect':
-      case 'checkbox':
-        return formatMultiValue(value, question);
-      case 'date':
-        return formatDateValue(value);
-      default:
-        return String(value);
-    }
-  };
-
-  const getQuestionLabel = (question: QuestionDefinition): string => {
-    // Resolve question text if it's a function
-    const resolvedText = typeof question.text === 'function'
-      ? question.text(questionContext)
-      : question.text;
-
-    // Use the question text, but make it more concise for display
-    return typeof resolvedText === 'string'
-      ? resolvedText.replace(/\?$/, '').trim()
-      : String(resolvedText);
-  };
-
   return (
     <div className={`bg-white rounded-lg shadow-md p-6 mb-6 print:shadow-none ${className}`}>
       <div className="mb-4">
@@ -152,22 +44,16 @@ export const QuestionnaireAnswersCard: React.FC<QuestionnaireAnswersCardProps> =
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {answeredQuestions.map(({ question }: { question: QuestionDefinition }) => {
-          const answer = answers.get(question.id);
-
-          if (!answer) { return null; }
-
-          return (
-            <div key={question.id} className="bg-gray-50 rounded-lg p-4 print:border print:bg-white">
-              <dt className="text-sm font-medium text-gray-700 mb-1">
-                {getQuestionLabel(question)}
-              </dt>
-              <dd className="text-sm text-gray-900 font-medium">
-                {formatValue(answer.value, question)}
-              </dd>
-            </div>
-          );
-        })}
+        {answeredQuestions.map(({ id, label, value }) => (
+          <div key={id} className="bg-gray-50 rounded-lg p-4 print:border print:bg-white">
+            <dt className="text-sm font-medium text-gray-700 mb-1">
+              {label}
+            </dt>
+            <dd className="text-sm text-gray-900 font-medium">
+              {value}
+            </dd>
+          </div>
+        ))}
       </div>
 
       <div className="mt-4 pt-4 border-t border-gray-200 print:border-t print:mt-2">
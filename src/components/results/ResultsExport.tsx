@@ -1,16 +1,26 @@
 /**
  * Results Export Component
  *
- * UI for exporting results as PDF or encrypted file
+ * UI for exporting results as a tagged PDF or encrypted file, sending the
+ * encrypted file to another device as QR codes, or adding application
+ * deadlines and renewals to the user's calendar
  */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import type { EligibilityResults } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
 // Lazy wrappers are exported from the results index to avoid bundling heavy export logic
-import { exportToPDF, exportEncrypted, downloadBlob, generateExportFilename } from './index';
+import { exportToPDFFile, exportEncrypted, downloadBlob, generateExportFilename } from './index';
+import { getAnsweredQuestions } from './questionnaireAnswers';
+import { createTransferCode } from './transferUtils';
+import { TransferQrCode } from './TransferQrCode';
+import { CalendarExportButton } from '../applications/CalendarExportButton';
+import { useQuestionFlowStore } from '../../questionnaire/store';
 import { useI18n } from '../../i18n/hooks';
 
+/** Where the encrypted export goes: a downloaded file or another device */
+type EncryptedExportTarget = 'file' | 'transfer';
+
 interface ResultsExportProps {
   results: EligibilityResults;
   profileSnapshot?: Record<string, unknown>;
@@ -25,8 +35,10 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
   profileSnapshot,
   userInfo,
 }) => {
-  const { t } = useI18n();
+  const { t, i18n } = useI18n();
   const [showEncryptDialog, setShowEncryptDialog] = useState(false);
+  const [exportTarget, setExportTarget] = useState<EncryptedExportTarget>('file');
+  const [transferCode, setTransferCode] = useState<string | null>(null);
   const passwordRef = useRef<HTMLInputElement>(null);
   const confirmPasswordRef = useRef<HTMLInputElement>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -34,6 +46,10 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isPasswordValid, setIsPasswordValid] = useState(false);
+  const calendarResults = useMemo(
+    () => [...results.qualified, ...results.likely, ...results.maybe],
+    [results]
+  );
 
   // Validate passwords in real-time
   useEffect(() => {
@@ -64,15 +80,53 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
     }
   };
 
-  const handlePDFExport = (): void => {
+  const handlePDFExport = async (): Promise<void> => {
+    setExportError(null);
+
     try {
       setIsExporting(true);
-      void exportToPDF(results, {
+
+      // Include the answers the results were based on
+      const { answers, flow, getAnswerContext } = useQuestionFlowStore.getState();
+      const blob = await exportToPDFFile(results, {
         userInfo: {
           name: userInfo?.name,
           evaluationDate: results.evaluatedAt,
         },
+        answers: getAnsweredQuestions(flow, answers, getAnswerContext()),
+        language: i18n.language,
+        labels: {
+          title: t('results.export.pdf.title'),
+          preparedFor: t('results.export.pdf.preparedFor'),
+          date: t('results.export.pdf.date'),
+          summary: t('results.export.pdf.summary'),
+          totalPrograms: t('results.export.pdf.totalPrograms'),
+          qualified: t('results.export.pdf.qualified'),
+          likely: t('results.export.pdf.likely'),
+          maybe: t('results.export.pdf.maybe'),
+          qualifiedHeading: t('results.export.pdf.qualifiedHeading'),
+          likelyHeading: t('results.export.pdf.likelyHeading'),
+          maybeHeading: t('results.export.pdf.maybeHeading'),
+          estimatedBenefit: t('results.export.pdf.estimatedBenefit'),
+          frequency: {
+            monthly: t('results.export.pdf.frequency.monthly'),
+            annual: t('results.export.pdf.frequency.annual'),
+            'one-time': t('results.export.pdf.frequency.oneTime'),
+          },
+          why: t('results.export.pdf.why'),
+          documents: t('results.export.pdf.documents'),
+          nextSteps: t('results.export.pdf.nextSteps'),
+          answers: t('results.export.pdf.answers'),
+          question: t('results.export.pdf.question'),
+          answer: t('results.export.pdf.answer'),
+          disclaimer: t('results.export.pdf.disclaimer'),
+          privacy: t('results.export.pdf.privacy'),
+          page: (page, pageCount) => t('results.export.pdf.page', { page, pageCount }),
+        },
       });
+
+      const filename = `${(await generateExportFilename('benefit-results'))}.pdf`;
+      await downloadBlob(blob, filename);
       setIsExporting(false);
     } catch (err) {
       console.error('PDF export failed:', err);
@@ -102,9 +156,13 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
         },
       });
 
-      // Download
-      const filename = `${(await generateExportFilename('benefit-results'))}.bfx`;
-      await downloadBlob(blob, filename);
+      if (exportTarget === 'transfer') {
+        // Shown as QR codes and a text code; nothing leaves the device
+        setTransferCode(await createTransferCode(blob));
+      } else {
+        const filename = `${(await generateExportFilename('benefit-results'))}.bfx`;
+        await downloadBlob(blob, filename);
+      }
 
       setIsExporting(false);
       setShowEncryptDialog(false);
@@ -121,7 +179,9 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
     <>
       {/* PDF Export Button */}
       <button
-        onClick={handlePDFExport}
+        onClick={() => {
+          void handlePDFExport();
+        }}
         disabled={isExporting}
         className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors w-full sm:w-auto min-h-[44px] touch-manipulation"
       >
@@ -133,7 +193,10 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
 
       {/* Encrypted Export Button */}
       <button
-        onClick={() => setShowEncryptDialog(true)}
+        onClick={() => {
+          setExportTarget('file');
+          setShowEncryptDialog(true);
+        }}
         disabled={isExporting}
         className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors w-full sm:w-auto min-h-[44px] touch-manipulation"
       >
@@ -143,13 +206,31 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
         <span className="whitespace-nowrap">{t('results.export.exportEncrypted')}</span>
       </button>
 
+      {/* Device Transfer Button */}
+      <button
+        onClick={() => {
+          setExportTarget('transfer');
+          setShowEncryptDialog(true);
+        }}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors w-full sm:w-auto min-h-[44px] touch-manipulation"
+      >
+        <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
+        </svg>
+        <span className="whitespace-nowrap">{t('results.transfer.sendToDevice')}</span>
+      </button>
+
+      {/* Calendar Export Button */}
+      <CalendarExportButton results={calendarResults} />
+
       {/* Encrypted Export Dialog */}
       <Dialog.Root open={showEncryptDialog} onOpenChange={setShowEncryptDialog}>
         <Dialog.Portal>
           <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
           <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto z-50 p-6 mx-4">
             <Dialog.Title className="text-xl font-bold mb-4">
-              {t('results.export.exportEncryptedResults')}
+              {exportTarget === 'transfer' ? t('results.transfer.sendToDevice') : t('results.export.exportEncryptedResults')}
             </Dialog.Title>
 
             <div className="mb-6">
@@ -221,7 +302,7 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
                 disabled={isExporting || !isPasswordValid}
                 className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
               >
-                {isExporting ? 'Exporting...' : 'Export File'}
+                {isExporting ? 'Exporting...' : exportTarget === 'transfer' ? t('results.transfer.createCode') : 'Export File'}
               </button>
             </div>
 
@@ -233,6 +314,31 @@ export const ResultsExport: React.FC<ResultsExportProps> = ({
           </Dialog.Content>
         </Dialog.Portal>
       </Dialog.Root>
+
+      {/* Device Transfer Dialog */}
+      <Dialog.Root open={transferCode !== null} onOpenChange={(open) => { if (!open) { setTransferCode(null); } }}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto z-50 p-6 mx-4">
+            <Dialog.Title className="text-xl font-bold mb-2">
+              {t('results.transfer.sendToDevice')}
+            </Dialog.Title>
+            <Dialog.Description className="text-sm text-gray-600 mb-4">
+              {t('results.transfer.sendInstructions')}
+            </Dialog.Description>
+
+            {transferCode && <TransferQrCode code={transferCode} />}
+
+            <div className="flex justify-end mt-6">
+              <Dialog.Close asChild>
+                <button className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 min-h-[44px] touch-manipulation">
+                  {t('results.transfer.done')}
+                </button>
+              </Dialog.Close>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
     </>
   );
 };
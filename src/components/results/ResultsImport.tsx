@@ -1,16 +1,21 @@
 /**
  * Results Import Component
  *
- * UI for importing encrypted results files
+ * UI for importing encrypted results files, or an encrypted transfer
+ * scanned or pasted from another device
  */
 
 import React, { useState, useRef } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 // Lazy wrapper exported from index to avoid bundling heavy export logic
 import { importEncrypted } from './index';
+import { readTransferCode } from './transferUtils';
+import { TransferCodeScanner } from './TransferCodeScanner';
 import type { EligibilityResults } from './types';
 import { useI18n } from '../../i18n/hooks';
 
+type ImportSource = 'file' | 'transfer';
+
 interface ResultsImportProps {
   onImport: (results: EligibilityResults, metadata?: Record<string, unknown>) => void;
   trigger?: React.ReactNode;
@@ -22,11 +27,14 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
 }) => {
   const { t } = useI18n();
   const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>('file');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [transferCode, setTransferCode] = useState('');
   const passwordRef = useRef<HTMLInputElement>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasInput = source === 'file' ? selectedFile !== null : transferCode.trim() !== '';
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>): void => {
     const file = event.target.files?.[0];
@@ -39,19 +47,23 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
   const handleImport = async (): Promise<void> => {
     const password = passwordRef.current?.value ?? '';
 
-    if (!selectedFile || !password) { return; }
+    if (!hasInput || !password) { return; }
 
     setIsImporting(true);
     setImportError(null);
 
     try {
-      const imported = await importEncrypted(selectedFile, password);
+      const encryptedExport = source === 'file' && selectedFile
+        ? selectedFile
+        : await readTransferCode(transferCode);
+      const imported = await importEncrypted(encryptedExport, password);
 
       onImport(imported.results, imported.metadata);
 
       // Reset and close
       setIsOpen(false);
       setSelectedFile(null);
+      setTransferCode('');
       if (passwordRef.current) { passwordRef.current.value = ''; }
       setIsImporting(false);
     } catch (err) {
@@ -62,6 +74,7 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
 
   const handleReset = (): void => {
     setSelectedFile(null);
+    setTransferCode('');
     if (passwordRef.current) { passwordRef.current.value = ''; }
     setImportError(null);
     if (fileInputRef.current) {
@@ -104,44 +117,91 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
               </div>
             </div>
 
-            {/* File Selection */}
+            {/* Import Source */}
+            <div className="flex gap-2 mb-4" role="group" aria-label={t('results.transfer.importSource')}>
+              {(['file', 'transfer'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={source === option}
+                  onClick={() => {
+                    setSource(option);
+                    setImportError(null);
+                  }}
+                  className={`flex-1 px-3 py-2 text-sm rounded-lg border min-h-[44px] touch-manipulation ${
+                    source === option
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option === 'file' ? t('results.transfer.fromFile') : t('results.transfer.fromDevice')}
+                </button>
+              ))}
+            </div>
+
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Select File (.bfx)
-                </label>
-                <div className="flex items-center gap-3">
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".bfx"
-                    onChange={handleFileSelect}
-                    className="block w-full text-sm text-gray-500
-                      file:mr-4 file:py-2 file:px-4
-                      file:rounded-lg file:border-0
-                      file:text-sm file:font-semibold
-                      file:bg-blue-50 file:text-blue-700
-                      hover:file:bg-blue-100
-                      cursor-pointer"
-                  />
+              {source === 'transfer' && (
+                <div className="space-y-3">
+                  <TransferCodeScanner onComplete={setTransferCode} />
+                  <div>
+                    <label htmlFor="import-transfer-code" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('results.transfer.pasteCode')}
+                    </label>
+                    <textarea
+                      id="import-transfer-code"
+                      value={transferCode}
+                      onChange={(event) => {
+                        setTransferCode(event.target.value);
+                        setImportError(null);
+                      }}
+                      rows={4}
+                      spellCheck={false}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      placeholder="BFX1:..."
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* File Selection */}
+              {source === 'file' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Select File (.bfx)
+                  </label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".bfx"
+                      onChange={handleFileSelect}
+                      className="block w-full text-sm text-gray-500
+                        file:mr-4 file:py-2 file:px-4
+                        file:rounded-lg file:border-0
+                        file:text-sm file:font-semibold
+                        file:bg-blue-50 file:text-blue-700
+                        hover:file:bg-blue-100
+                        cursor-pointer"
+                    />
+                    {selectedFile && (
+                      <button
+                        onClick={handleReset}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Clear selection"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
                   {selectedFile && (
-                    <button
-                      onClick={handleReset}
-                      className="text-gray-400 hover:text-gray-600"
-                      title="Clear selection"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
+                    <p className="text-xs text-gray-600 mt-2">
+                      Selected: {selectedFile.name} ({(selectedFile.size / 1024).toFixed(1)} KB)
+                    </p>
                   )}
                 </div>
-                {selectedFile && (
-                  <p className="text-xs text-gray-600 mt-2">
-                    Selected: {selectedFile.name} ({(selectedFile.size / 1024).toFixed(1)} KB)
-                  </p>
-                )}
-              </div>
+              )}
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -152,7 +212,7 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
                   ref={passwordRef}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
                   placeholder="Enter file password"
-                  disabled={!selectedFile}
+                  disabled={!hasInput}
                 />
               </div>
 
@@ -176,7 +236,7 @@ export const ResultsImport: React.FC<ResultsImportProps> = ({
             </Dialog.Close>
             <button
               onClick={() => void handleImport()}
-              disabled={isImporting || !selectedFile}
+              disabled={isImporting || !hasInput}
               className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
             >
               {isImporting ? 'Importing...' : 'Import'}
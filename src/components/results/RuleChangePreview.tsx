@@ -0,0 +1,191 @@
+/**
+ * Rule Change Preview Component
+ *
+ * Re-evaluates eligibility under the rules in effect on a later date and
+ * shows the results side by side with current rules
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as Switch from '@radix-ui/react-switch';
+import type { EligibilityResults, EligibilityStatus } from './types';
+import {
+  compareResultsByProgram,
+  fromDateInputValue,
+  getNextFiscalYearStart,
+  toDateInputValue,
+} from './rulePreviewUtils';
+import { useI18n } from '../../i18n/hooks';
+
+interface RuleChangePreviewProps {
+  currentResults: EligibilityResults;
+  /** Evaluate the same household under the rules in effect on a date */
+  onPreview: (asOfDate: Date) => Promise<EligibilityResults>;
+  /** Initial preview date; defaults to the start of the next federal fiscal year */
+  defaultAsOfDate?: Date;
+}
+
+const STATUS_KEYS: Record<EligibilityStatus, string> = {
+  'qualified': 'results.status.qualified',
+  'likely': 'results.status.likely',
+  'maybe': 'results.status.maybe',
+  'unlikely': 'results.status.unlikely',
+  'not-qualified': 'results.status.notQualified',
+};
+
+export const RuleChangePreview: React.FC<RuleChangePreviewProps> = ({
+  currentResults,
+  onPreview,
+  defaultAsOfDate,
+}) => {
+  const { t } = useI18n();
+  const [enabled, setEnabled] = useState(false);
+  const [dateValue, setDateValue] = useState(() => toDateInputValue(defaultAsOfDate ?? getNextFiscalYearStart()));
+  const [previewResults, setPreviewResults] = useState<EligibilityResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+
+  const asOfDate = useMemo(() => fromDateInputValue(dateValue), [dateValue]);
+
+  // Use a ref so a new callback identity from the parent does not re-run the preview
+  const onPreviewRef = useRef(onPreview);
+  useEffect(() => {
+    onPreviewRef.current = onPreview;
+  }, [onPreview]);
+
+  useEffect(() => {
+    if (!enabled || !asOfDate) {return undefined;}
+
+    let cancelled = false;
+    setIsLoading(true);
+    setHasError(false);
+
+    onPreviewRef.current(asOfDate)
+      .then((results) => {
+        if (!cancelled) {setPreviewResults(results);}
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to preview rule changes:', error);
+        if (!cancelled) {
+          setPreviewResults(null);
+          setHasError(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {setIsLoading(false);}
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, asOfDate]);
+
+  const rows = useMemo(
+    () => (previewResults ? compareResultsByProgram(currentResults, previewResults) : []),
+    [currentResults, previewResults]
+  );
+  const changedCount = rows.filter(row => row.changed).length;
+
+  const renderStatus = (status: EligibilityStatus | undefined): string =>
+    status ? t(STATUS_KEYS[status]) : t('results.rulePreview.notEvaluated');
+
+  return (
+    <section
+      className="bg-white rounded-lg shadow-md p-6 mb-6 max-w-4xl mx-auto print:hidden"
+      aria-labelledby="rule-preview-heading"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 id="rule-preview-heading" className="text-lg font-semibold text-gray-900">
+            {t('results.rulePreview.title')}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {t('results.rulePreview.description')}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label htmlFor="rule-preview-toggle" className="text-sm font-medium text-gray-700">
+            {t('results.rulePreview.toggle')}
+          </label>
+          <Switch.Root
+            id="rule-preview-toggle"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            className="relative w-11 h-6 rounded-full bg-gray-300 data-[state=checked]:bg-blue-600 transition-colors min-w-[44px]"
+          >
+            <Switch.Thumb className="block w-5 h-5 rounded-full bg-white shadow transition-transform translate-x-0.5 data-[state=checked]:translate-x-[22px]" />
+          </Switch.Root>
+        </div>
+      </div>
+
+      {enabled && (
+        <div className="mt-4">
+          <label htmlFor="rule-preview-date" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('results.rulePreview.dateLabel')}
+          </label>
+          <input
+            id="rule-preview-date"
+            type="date"
+            value={dateValue}
+            onChange={(event) => setDateValue(event.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+
+          <div className="mt-4" aria-live="polite">
+            {isLoading && (
+              <p className="text-sm text-gray-600">{t('results.rulePreview.loading')}</p>
+            )}
+            {!isLoading && hasError && (
+              <p className="text-sm text-red-600">{t('results.rulePreview.error')}</p>
+            )}
+            {!isLoading && !hasError && previewResults && asOfDate && (
+              <>
+                <p className="text-sm text-gray-700 mb-3">
+                  {changedCount > 0
+                    ? t('results.rulePreview.changedCount', { count: changedCount })
+                    : t('results.rulePreview.noChanges')}
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th scope="col" className="px-4 py-2 text-left font-semibold text-gray-700">
+                          {t('results.rulePreview.program')}
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-left font-semibold text-gray-700">
+                          {t('results.rulePreview.currentRules')}
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-left font-semibold text-gray-700">
+                          {t('results.rulePreview.rulesAsOf', { date: asOfDate.toLocaleDateString() })}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {rows.map(row => (
+                        <tr key={row.programId} className={row.changed ? 'bg-yellow-50' : undefined}>
+                          <th scope="row" className="px-4 py-2 text-left font-medium text-gray-900">
+                            {row.programName}
+                          </th>
+                          <td className="px-4 py-2 text-gray-700">{renderStatus(row.currentStatus)}</td>
+                          <td className="px-4 py-2 text-gray-700">
+                            {renderStatus(row.previewStatus)}
+                            {row.changed && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                {t('results.rulePreview.changed')}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RuleChangePreview;
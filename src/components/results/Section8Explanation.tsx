@@ -1,6 +1,7 @@
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 import { useI18n } from '../../i18n/hooks';
 import { SpecificReasonsSection } from './SpecificReasonsSection';
 // Status helper functions
@@ -52,6 +53,9 @@ interface Section8ExplanationProps {
     hasChildren?: boolean;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
+  /** Estimated share of the rent the household would pay */
+  estimatedCost?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -128,6 +132,8 @@ export const Section8Explanation: React.FC<Section8ExplanationProps> = ({
   status,
   explanation: _explanation,
   userProfile,
+  estimatedBenefit,
+  estimatedCost,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -169,11 +175,19 @@ export const Section8Explanation: React.FC<Section8ExplanationProps> = ({
         </div>
       </div>
 
+      {/* Estimated Benefit */}
+      <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
+      {/* Estimated Rent Share */}
+      <BenefitEstimateBreakdown estimatedBenefit={estimatedCost} kind="cost" />
+
       {/* Specific Reasons for Not Qualifying */}
       <SpecificReasonsSection
         programId="section8-federal"
         status={status}
         userProfile={userProfile}
+        counterfactuals={_explanation.counterfactuals}
+        missingFields={_explanation.missingFields}
       />
 
       <div className="mb-6">
@@ -6,8 +6,9 @@
  */
 
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 import { useI18n } from '../../i18n/hooks';
 import { SpecificReasonsSection } from './SpecificReasonsSection';
 
@@ -24,6 +25,7 @@ interface SnapExplanationProps {
     age?: number;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -143,6 +145,7 @@ export const SnapExplanation: React.FC<SnapExplanationProps> = ({
   status,
   explanation: _explanation,
   userProfile,
+  estimatedBenefit,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -246,6 +249,9 @@ export const SnapExplanation: React.FC<SnapExplanationProps> = ({
               </div>
             </div>
 
+            {/* Estimated Benefit */}
+            <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
             {/* SNAP-Specific Information */}
             <div className="space-y-6">
               {/* Specific Reasons for Not Qualifying */}
@@ -253,6 +259,8 @@ export const SnapExplanation: React.FC<SnapExplanationProps> = ({
                 programId="snap-federal"
                 status={status}
                 userProfile={userProfile}
+                counterfactuals={_explanation.counterfactuals}
+                missingFields={_explanation.missingFields}
                 evaluationResult={_explanation}
               />
 
@@ -11,12 +11,17 @@ import { generateEvaluationBasedReasons, type EvaluationResult } from '../../uti
 import type { EligibilityExplanation } from './types';
 import { EligibilityStatus } from './types';
 import { useI18n } from '../../i18n/hooks';
+import { MaybeReasonsSection } from './MaybeReasonsSection';
+import type { Counterfactual } from '../../rules/core/counterfactual';
 
 interface SpecificReasonsSectionProps {
   programId: string;
   status: EligibilityStatus;
   userProfile?: UserProfile;
   evaluationResult?: EvaluationResult | EligibilityExplanation | undefined; // Accept evaluation shapes or legacy explanation
+  counterfactuals?: Counterfactual[];
+  /** Unanswered questions that would settle the result */
+  missingFields?: string[];
 }
 
 export const SpecificReasonsSection: React.FC<SpecificReasonsSectionProps> = ({
@@ -24,6 +29,8 @@ export const SpecificReasonsSection: React.FC<SpecificReasonsSectionProps> = ({
   status,
   userProfile,
   evaluationResult,
+  counterfactuals = [],
+  missingFields = [],
 }) => {
   const { t } = useI18n();
 
@@ -41,8 +48,8 @@ export const SpecificReasonsSection: React.FC<SpecificReasonsSectionProps> = ({
 
   const maybeReasons = getMaybeReasons(programId, status, userProfile);
 
-  // Don't render if no reasons for either status
-  if (specificReasons.length === 0 && maybeReasons.length === 0) {
+  // Don't render if no reasons for either status and nothing would change the result
+  if (specificReasons.length === 0 && maybeReasons.length === 0 && missingFields.length === 0 && counterfactuals.length === 0) {
     return null;
   }
 
@@ -66,23 +73,14 @@ export const SpecificReasonsSection: React.FC<SpecificReasonsSectionProps> = ({
         </div>
       )}
 
-      {/* Maybe Reasons */}
-      {maybeReasons.length > 0 && (
-        <div>
-          <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
-            <span className="text-lg mr-2">⚠️</span>
-            {t('results.maybeReasons.title')}
-          </h4>
-          <ul className="space-y-2">
-            {maybeReasons.map((reason, index) => (
-              <li key={index} className="flex items-start">
-                <span className="text-yellow-600 mr-2 mt-0.5">•</span>
-                <span className="text-gray-700">{reason}</span>
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
+      {/* Maybe Reasons and what would change the result */}
+      <MaybeReasonsSection
+        programId={programId}
+        status={status}
+        userProfile={userProfile}
+        counterfactuals={counterfactuals}
+        missingFields={missingFields}
+      />
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 import { useI18n } from '../../i18n/hooks';
 import { SpecificReasonsSection } from './SpecificReasonsSection';
 
@@ -16,6 +17,7 @@ interface SsiExplanationProps {
     state?: string;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -24,6 +26,7 @@ export const SsiExplanation: React.FC<SsiExplanationProps> = ({
   status,
   explanation: _explanation,
   userProfile,
+  estimatedBenefit,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -187,11 +190,16 @@ export const SsiExplanation: React.FC<SsiExplanationProps> = ({
         </div>
       </div>
 
+      {/* Estimated Benefit */}
+      <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
       {/* Specific Reasons for Not Qualifying */}
       <SpecificReasonsSection
         programId="ssi-federal"
         status={status}
         userProfile={userProfile}
+        counterfactuals={_explanation.counterfactuals}
+        missingFields={_explanation.missingFields}
       />
 
       {/* Benefits Section */}
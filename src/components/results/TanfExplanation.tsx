@@ -6,8 +6,9 @@
  */
 
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 import { useI18n } from '../../i18n/hooks';
 import { SpecificReasonsSection } from './SpecificReasonsSection';
 
@@ -23,6 +24,7 @@ interface TanfExplanationProps {
     isEmployed?: boolean;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -137,6 +139,7 @@ export const TanfExplanation: React.FC<TanfExplanationProps> = ({
   status,
   explanation: _explanation,
   userProfile,
+  estimatedBenefit,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -223,6 +226,9 @@ export const TanfExplanation: React.FC<TanfExplanationProps> = ({
         </div>
       </div>
 
+      {/* Estimated Benefit */}
+      <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
       {/* TANF-Specific Information */}
       <div className="space-y-6">
         {/* Specific Reasons for Not Qualifying */}
@@ -230,6 +236,8 @@ export const TanfExplanation: React.FC<TanfExplanationProps> = ({
           programId="tanf-federal"
           status={status}
           userProfile={userProfile}
+          counterfactuals={_explanation.counterfactuals}
+          missingFields={_explanation.missingFields}
         />
 
         {/* What TANF Provides */}
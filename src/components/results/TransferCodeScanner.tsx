@@ -0,0 +1,160 @@
+/**
+ * Transfer Code Scanner Component
+ *
+ * Reads the animated QR frames of a device transfer with the camera and
+ * reassembles the text code. Frames are decoded on the device with the
+ * browser's built-in barcode detector; where that is unavailable the user
+ * pastes the text code instead.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { addTransferFrame, getTransferCode, type TransferProgress } from './transferUtils';
+import { useI18n } from '../../i18n/hooks';
+
+interface TransferCodeScannerProps {
+  /** Called with the text code once every frame has been scanned */
+  onComplete: (code: string) => void;
+}
+
+// Shape Detection API; not yet in the TypeScript DOM types
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL = 150;
+
+/**
+ * The browser's QR detector, when it also has a camera API to feed it
+ */
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  if (typeof navigator === 'undefined' || !('mediaDevices' in navigator)) {return undefined;}
+  return (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+export const TransferCodeScanner: React.FC<TransferCodeScannerProps> = ({ onComplete }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const progressRef = useRef<TransferProgress | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [cameraUnavailable, setCameraUnavailable] = useState(false);
+  const BarcodeDetector = getBarcodeDetector();
+
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    if (!isScanning || !BarcodeDetector) {return undefined;}
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+
+    const scan = async (): Promise<void> => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) {return;}
+
+      const barcodes = await detector.detect(video);
+      for (const { rawValue } of barcodes) {
+        progressRef.current = addTransferFrame(progressRef.current, rawValue);
+      }
+      setProgress(progressRef.current);
+
+      const code = getTransferCode(progressRef.current);
+      if (code !== null && !stopped) {
+        stopped = true;
+        setIsScanning(false);
+        onCompleteRef.current(code);
+      }
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        stream = media;
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          void videoRef.current.play();
+        }
+        timer = setInterval(() => {
+          scan().catch((err: unknown) => console.error('QR scan failed:', err));
+        }, SCAN_INTERVAL);
+      })
+      .catch((err: unknown) => {
+        console.error('Camera unavailable:', err);
+        setCameraUnavailable(true);
+        setIsScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning, BarcodeDetector]);
+
+  if (!BarcodeDetector) {
+    return (
+      <p className="text-sm text-gray-600">{t('results.transfer.scanUnsupported')}</p>
+    );
+  }
+
+  const startScanning = (): void => {
+    progressRef.current = null;
+    setProgress(null);
+    setCameraUnavailable(false);
+    setIsScanning(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isScanning ? (
+        <>
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className="w-full rounded-lg bg-black"
+            aria-label={t('results.transfer.cameraPreview')}
+          />
+          <p className="text-sm text-gray-700" aria-live="polite">
+            {progress
+              ? t('results.transfer.scanProgress', { received: progress.received, total: progress.total })
+              : t('results.transfer.scanWaiting')}
+          </p>
+          <button
+            type="button"
+            onClick={() => setIsScanning(false)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 min-h-[44px] touch-manipulation"
+          >
+            {t('results.transfer.stopScanning')}
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={startScanning}
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 min-h-[44px] touch-manipulation"
+        >
+          {t('results.transfer.scanQrCodes')}
+        </button>
+      )}
+
+      {cameraUnavailable && (
+        <p className="text-sm text-red-700">{t('results.transfer.cameraUnavailable')}</p>
+      )}
+    </div>
+  );
+};
+
+export default TransferCodeScanner;
@@ -0,0 +1,110 @@
+/**
+ * Transfer QR Code Component
+ *
+ * Cycles through the QR frames of a device transfer code so another device
+ * can scan them, with the text code alongside for devices without a camera.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { encodeQrCode, qrCodeToSvgPath } from '../../utils/qrCode';
+import { splitTransferCode } from './transferUtils';
+import { useI18n } from '../../i18n/hooks';
+
+interface TransferQrCodeProps {
+  /** Text code from createTransferCode */
+  code: string;
+  /** Milliseconds each frame is shown (default: 400) */
+  frameInterval?: number;
+}
+
+/** Light modules around the symbol so scanners can find its edges */
+const QUIET_ZONE = 4;
+
+export const TransferQrCode: React.FC<TransferQrCodeProps> = ({
+  code,
+  frameInterval = 400,
+}) => {
+  const { t } = useI18n();
+  const frames = useMemo(() => splitTransferCode(code), [code]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setFrameIndex(0);
+  }, [frames]);
+
+  useEffect(() => {
+    if (isPaused || frames.length < 2) {return undefined;}
+
+    const timer = setInterval(() => {
+      setFrameIndex(index => (index + 1) % frames.length);
+    }, frameInterval);
+    return () => clearInterval(timer);
+  }, [frames, frameInterval, isPaused]);
+
+  // Encode only the frame on screen; long transfers can have many frames
+  const qr = useMemo(() => encodeQrCode(frames[frameIndex] ?? frames[0]), [frames, frameIndex]);
+  const viewSize = qr.size + QUIET_ZONE * 2;
+
+  const handleCopy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy transfer code:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center gap-2">
+        <svg
+          role="img"
+          aria-label={t('results.transfer.qrFrame', { current: frameIndex + 1, total: frames.length })}
+          viewBox={`0 0 ${viewSize} ${viewSize}`}
+          className="w-64 h-64 bg-white border border-gray-200 rounded"
+          shapeRendering="crispEdges"
+        >
+          <rect width={viewSize} height={viewSize} fill="#ffffff" />
+          <path d={qrCodeToSvgPath(qr)} transform={`translate(${QUIET_ZONE} ${QUIET_ZONE})`} fill="#000000" />
+        </svg>
+        <p className="text-sm text-gray-600" aria-live="off">
+          {t('results.transfer.qrFrame', { current: frameIndex + 1, total: frames.length })}
+        </p>
+        {frames.length > 1 && (
+          <button
+            type="button"
+            onClick={() => setIsPaused(paused => !paused)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 min-h-[44px] touch-manipulation"
+          >
+            {isPaused ? t('results.transfer.resume') : t('results.transfer.pause')}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="transfer-code" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('results.transfer.textCode')}
+        </label>
+        <textarea
+          id="transfer-code"
+          readOnly
+          value={code}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs break-all"
+          onFocus={(event) => event.currentTarget.select()}
+        />
+        <button
+          type="button"
+          onClick={() => void handleCopy()}
+          className="mt-2 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 min-h-[44px] touch-manipulation"
+        >
+          {copied ? t('results.transfer.copied') : t('results.transfer.copyCode')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TransferQrCode;
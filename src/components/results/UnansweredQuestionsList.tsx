@@ -0,0 +1,45 @@
+/**
+ * Unanswered Questions List Component
+ *
+ * Lists the skipped questions that decide an undetermined result; answering
+ * them settles whether the user qualifies.
+ */
+
+import React from 'react';
+import { getVariableLabel } from '../../rules/core/variables';
+import { useI18n } from '../../i18n/hooks';
+
+interface UnansweredQuestionsListProps {
+  /** Variable names of the unanswered questions */
+  fields?: string[];
+}
+
+export const UnansweredQuestionsList: React.FC<UnansweredQuestionsListProps> = ({ fields = [] }) => {
+  const { t } = useI18n();
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div data-testid="unanswered-questions-list">
+      <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+        <span className="text-lg mr-2">❓</span>
+        {t('results.unansweredQuestions.title')}
+      </h4>
+      <ul className="space-y-2">
+        {fields.map(field => {
+          const label = getVariableLabel(field, (key) => t(key));
+          return (
+            <li key={field} className="flex items-start">
+              <span className="text-blue-600 mr-2 mt-0.5">•</span>
+              <span className="text-gray-700">{label.charAt(0).toUpperCase() + label.slice(1)}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default UnansweredQuestionsList;
@@ -5,8 +5,11 @@
  */
 
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
+import { CounterfactualList } from './CounterfactualList';
+import { UnansweredQuestionsList } from './UnansweredQuestionsList';
 
 /**
  * Medicaid expansion status by state code (as of 2024)
@@ -33,6 +36,7 @@ interface WhyExplanationProps {
     state?: string;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -267,6 +271,7 @@ export const WhyExplanation: React.FC<WhyExplanationProps> = ({
   status,
   explanation,
   userProfile,
+  estimatedBenefit,
   onClose,
 }) => {
   // Debug logging to see what rulesCited are being passed to the component
@@ -351,6 +356,9 @@ export const WhyExplanation: React.FC<WhyExplanationProps> = ({
         </div>
       </div>
 
+      {/* Estimated Benefit */}
+      <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
       {/* Details */}
       {(explanation.details?.length ?? 0) > 0 && (
         <div className="mb-6">
@@ -390,6 +398,20 @@ export const WhyExplanation: React.FC<WhyExplanationProps> = ({
         </div>
       )}
 
+      {/* Unanswered Questions That Decide the Result */}
+      {(explanation.missingFields?.length ?? 0) > 0 && (
+        <div className="mb-6">
+          <UnansweredQuestionsList fields={explanation.missingFields} />
+        </div>
+      )}
+
+      {/* What Would Change the Result */}
+      {(explanation.counterfactuals?.length ?? 0) > 0 && (
+        <div className="mb-6">
+          <CounterfactualList counterfactuals={explanation.counterfactuals} />
+        </div>
+      )}
+
       {/* Program Requirements */}
       {(explanation.rulesCited?.length ?? 0) > 0 && (
         <div className="mb-6">
@@ -6,8 +6,9 @@
  */
 
 import React from 'react';
-import { EligibilityStatus, EligibilityExplanation } from './types';
+import { EligibilityStatus, EligibilityExplanation, EstimatedBenefit } from './types';
 import * as Dialog from '@radix-ui/react-dialog';
+import { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 import { useI18n } from '../../i18n/hooks';
 import { SpecificReasonsSection } from './SpecificReasonsSection';
 
@@ -24,6 +25,7 @@ interface WicExplanationProps {
     citizenship?: string;
     [key: string]: unknown;
   };
+  estimatedBenefit?: EstimatedBenefit;
   onClose: () => void;
 }
 
@@ -143,6 +145,7 @@ export const WicExplanation: React.FC<WicExplanationProps> = ({
   status,
   explanation: _explanation,
   userProfile,
+  estimatedBenefit,
   onClose,
 }) => {
   const { t } = useI18n();
@@ -236,6 +239,9 @@ export const WicExplanation: React.FC<WicExplanationProps> = ({
               </div>
             </div>
 
+            {/* Estimated Benefit */}
+            <BenefitEstimateBreakdown estimatedBenefit={estimatedBenefit} />
+
             {/* WIC-Specific Information */}
             <div className="space-y-6">
               {/* Specific Reasons for Not Qualifying */}
@@ -243,6 +249,8 @@ export const WicExplanation: React.FC<WicExplanationProps> = ({
                 programId="wic-federal"
                 status={status}
                 userProfile={userProfile}
+                counterfactuals={_explanation.counterfactuals}
+                missingFields={_explanation.missingFields}
               />
 
               {/* What WIC Provides */}
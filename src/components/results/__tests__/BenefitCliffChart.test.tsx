@@ -0,0 +1,62 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BenefitCliffChart } from '../BenefitCliffChart';
+import { loadBenefitCliffAnalysis } from '../benefitCliffUtils';
+import type { BenefitCliffAnalysis } from '../../../rules/core/benefitCliff';
+
+vi.mock('../benefitCliffUtils', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../benefitCliffUtils')>(),
+  loadBenefitCliffAnalysis: vi.fn(),
+}));
+
+const point = (earnings: number, snap: number): BenefitCliffAnalysis['points'][number] => ({
+  earnings,
+  householdIncome: earnings,
+  eligiblePrograms: snap > 0 ? ['snap-federal'] : [],
+  benefits: snap > 0 ? { 'snap-federal': snap } : {},
+  totalBenefits: snap,
+  netResources: earnings + snap,
+});
+
+const analysis: BenefitCliffAnalysis = {
+  householdSize: 1,
+  currentEarnings: 1000,
+  unearnedIncome: 0,
+  points: [point(0, 400), point(1000, 400), point(2000, 400), point(2100, 0)],
+  cliffs: [{ fromEarnings: 2000, toEarnings: 2100, loss: 300, programsLost: ['snap-federal'] }],
+  thresholds: [{ percent: 130, label: 'SNAP Gross Income Limit', householdIncome: 1696, earnings: 1696 }],
+};
+
+describe('BenefitCliffChart', () => {
+  beforeEach(() => {
+    vi.mocked(loadBenefitCliffAnalysis).mockReset().mockResolvedValue({
+      analysis,
+      programNames: { 'snap-federal': 'SNAP' },
+    });
+  });
+
+  it('loads the analysis only when the chart is shown', async () => {
+    const user = userEvent.setup();
+    render(<BenefitCliffChart userProfile={{ householdIncome: 1000 }} />);
+
+    expect(loadBenefitCliffAnalysis).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('switch'));
+
+    expect(await screen.findByTestId('benefit-cliff-chart')).toBeInTheDocument();
+    expect(loadBenefitCliffAnalysis).toHaveBeenCalledWith({ householdIncome: 1000 });
+  });
+
+  it('marks each cliff and the income limits', async () => {
+    const user = userEvent.setup();
+    render(<BenefitCliffChart />);
+
+    await user.click(screen.getByRole('switch'));
+
+    await screen.findByTestId('benefit-cliff-chart');
+    expect(screen.getAllByTestId('benefit-cliff-marker')).toHaveLength(1);
+    expect(screen.getAllByTestId('benefit-cliff-threshold')).toHaveLength(1);
+    expect(screen.getByTestId('benefit-cliff-list').querySelectorAll('li')).toHaveLength(1);
+  });
+});
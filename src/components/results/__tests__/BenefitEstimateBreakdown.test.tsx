@@ -0,0 +1,66 @@
+/**
+ * BenefitEstimateBreakdown Component Tests
+ */
+
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { BenefitEstimateBreakdown } from '../BenefitEstimateBreakdown';
+import { estimateSNAPAllotment, estimateSection8TenantRent } from '../../../utils/benefitEstimators';
+
+// Translate with the Spanish locale files
+vi.mock('../../../i18n/hooks', async () => {
+  const { default: i18n } = await import('../../../i18n');
+  const t = i18n.getFixedT('es');
+  return { useI18n: () => ({ t: (key: string, options?: Record<string, unknown>) => t(key, options) }) };
+});
+
+describe('BenefitEstimateBreakdown', () => {
+  it('renders the estimate and its calculation in the user\'s language', () => {
+    const estimate = estimateSNAPAllotment({
+      householdSize: 3,
+      grossIncome: 2000,
+      earnedIncome: 2000,
+      shelterCosts: 1200,
+      asOf: '2025-06-01',
+    });
+
+    render(<BenefitEstimateBreakdown estimatedBenefit={estimate} />);
+
+    expect(screen.getByText('Beneficio estimado:')).toBeInTheDocument();
+    expect(screen.getByText('$499 al mes')).toBeInTheDocument();
+    expect(screen.getByText(/año fiscal 2025/)).toBeInTheDocument();
+    expect(screen.getByText('Asignación máxima (hogar de 3)')).toBeInTheDocument();
+    expect(screen.getByText('Beneficio mensual estimado de SNAP')).toBeInTheDocument();
+    expect(screen.getByText('Cómo se calculó el estimado')).toBeInTheDocument();
+    expect(screen.queryByText('Estimated monthly SNAP benefit')).not.toBeInTheDocument();
+  });
+
+  it('gives a cost estimate its own heading and disclaimer', () => {
+    render(
+      <BenefitEstimateBreakdown
+        estimatedBenefit={estimateSection8TenantRent({ grossIncome: 2000, dependents: 2 })}
+        kind="cost"
+      />
+    );
+
+    expect(screen.getByText('Alquiler estimado que usted pagaría:')).toBeInTheDocument();
+    expect(screen.getByText(/no un beneficio/)).toBeInTheDocument();
+    expect(screen.queryByText('Beneficio estimado:')).not.toBeInTheDocument();
+  });
+
+  it('falls back to the English labels of results saved without translation keys', () => {
+    render(
+      <BenefitEstimateBreakdown
+        estimatedBenefit={{
+          amount: 567,
+          frequency: 'monthly',
+          description: 'Estimated federal SSI payment',
+          steps: [{ label: 'Estimated monthly SSI payment', amount: 567 }],
+        }}
+      />
+    );
+
+    expect(screen.getByText('Estimated federal SSI payment')).toBeInTheDocument();
+    expect(screen.getByText('Estimated monthly SSI payment')).toBeInTheDocument();
+  });
+});
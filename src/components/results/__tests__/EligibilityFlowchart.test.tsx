@@ -0,0 +1,82 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EligibilityFlowchart } from '../EligibilityFlowchart';
+import { layoutEligibilityFlow, loadFlowPrograms, loadProgramFlow } from '../flowchartUtils';
+import { buildEligibilityFlow } from '../../../rules/core/explanation-system';
+
+vi.mock('../flowchartUtils', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../flowchartUtils')>(),
+  loadFlowPrograms: vi.fn(),
+  loadProgramFlow: vi.fn(),
+}));
+
+const incomeRule = {
+  id: 'income',
+  name: 'Gross Income Test',
+  ruleLogic: { '<=': [{ var: 'householdIncome' }, 2000] },
+};
+
+const textsWithStatus = (chart: HTMLElement, status: string): string[] =>
+  Array.from(chart.querySelectorAll(`[data-status="${status}"]`)).map(node => node.textContent ?? '');
+
+const flows = {
+  'snap-federal': buildEligibilityFlow({ id: 'snap-federal', name: 'SNAP' }, [incomeRule], { householdIncome: 2500 }),
+  'wic-federal': buildEligibilityFlow({ id: 'wic-federal', name: 'WIC' }, [
+    { ...incomeRule, id: 'wic-income', ruleLogic: { '<=': [{ var: 'householdIncome' }, 3000] } },
+  ], { householdIncome: 2500 }),
+};
+
+describe('EligibilityFlowchart', () => {
+  beforeEach(() => {
+    vi.mocked(loadFlowPrograms).mockReset().mockResolvedValue([
+      { id: 'snap-federal', name: 'SNAP' },
+      { id: 'wic-federal', name: 'WIC' },
+    ]);
+    vi.mocked(loadProgramFlow).mockReset().mockImplementation(
+      async (programId) => flows[programId as keyof typeof flows]
+    );
+  });
+
+  it('renders the program flow with nodes colored by status', async () => {
+    render(<EligibilityFlowchart programId="snap-federal" userProfile={{ householdIncome: 2500 }} />);
+
+    const chart = await screen.findByTestId('flowchart-snap-federal');
+    await waitFor(() => {
+      expect(chart.querySelectorAll('[data-status]')).toHaveLength(3);
+    });
+    expect(textsWithStatus(chart, 'fail')).toEqual([
+      expect.stringContaining('SNAP'),
+      expect.stringContaining('Gross Income Test'),
+      expect.stringContaining('$2,500'),
+    ]);
+    expect(loadProgramFlow).toHaveBeenCalledWith('snap-federal', { householdIncome: 2500 });
+  });
+
+  it('shows a second program side by side in comparison mode', async () => {
+    const user = userEvent.setup();
+    render(<EligibilityFlowchart programId="snap-federal" />);
+
+    await screen.findByTestId('flowchart-snap-federal');
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'WIC' })).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('option', { name: 'SNAP' })).not.toBeInTheDocument();
+
+    await user.selectOptions(screen.getByRole('combobox'), 'wic-federal');
+
+    const comparison = await screen.findByTestId('flowchart-wic-federal');
+    await waitFor(() => {
+      expect(textsWithStatus(comparison, 'pass')).toContainEqual(expect.stringContaining('Gross Income Test'));
+    });
+  });
+
+  it('lays out every node below its parent', async () => {
+    const layout = await layoutEligibilityFlow(flows['snap-federal']);
+    const y = new Map(layout.nodes.map(node => [node.id, node.position.y]));
+
+    layout.edges.forEach(edge => {
+      expect(y.get(edge.target)).toBeGreaterThan(y.get(edge.source) ?? Infinity);
+    });
+  });
+});
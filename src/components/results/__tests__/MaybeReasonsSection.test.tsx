@@ -0,0 +1,74 @@
+/**
+ * MaybeReasonsSection Component Tests
+ */
+
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { MaybeReasonsSection } from '../MaybeReasonsSection';
+import type { Counterfactual } from '../../../rules/core/counterfactual';
+
+const counterfactuals: Counterfactual[] = [
+  {
+    field: 'householdIncome',
+    change: 'decrease',
+    from: 2212,
+    to: 2000,
+    amount: 212,
+    unit: 'usd',
+    description: 'if your household\'s monthly income were $212 lower',
+  },
+];
+
+describe('MaybeReasonsSection', () => {
+  it('renders nothing without maybe reasons or answer changes', () => {
+    const { container } = render(
+      <MaybeReasonsSection programId="snap-federal" status="not-qualified" userProfile={{ householdIncome: 2212 }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists the answer changes that would make the program eligible', () => {
+    render(
+      <MaybeReasonsSection
+        programId="snap-federal"
+        status="not-qualified"
+        userProfile={{ householdIncome: 2212 }}
+        counterfactuals={counterfactuals}
+      />
+    );
+
+    const list = screen.getByTestId('counterfactual-list');
+    expect(list.querySelectorAll('li')).toHaveLength(1);
+    expect(screen.getAllByRole('list')).toHaveLength(1);
+  });
+
+  it('shows maybe reasons alongside the answer changes', () => {
+    render(
+      <MaybeReasonsSection
+        programId="snap-federal"
+        status="maybe"
+        userProfile={{ householdIncome: 2212 }}
+        counterfactuals={counterfactuals}
+      />
+    );
+
+    expect(screen.getAllByRole('list')).toHaveLength(2);
+    expect(screen.getByTestId('counterfactual-list')).toBeInTheDocument();
+  });
+
+  it('lists the unanswered questions that decide the result instead of profile-based reasons', () => {
+    render(
+      <MaybeReasonsSection
+        programId="snap-federal"
+        status="maybe"
+        userProfile={{ householdIncome: 2212 }}
+        missingFields={['householdIncome', 'dependentCareCosts']}
+      />
+    );
+
+    const list = screen.getByTestId('unanswered-questions-list');
+    expect(list.querySelectorAll('li')).toHaveLength(2);
+    expect(screen.getAllByRole('list')).toHaveLength(1);
+  });
+});
@@ -1,9 +1,25 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi } from 'vitest';
 import { ProgramCard } from '../ProgramCard';
 import { ProgramEligibilityResult } from '../types';
 import { I18nextProvider } from 'react-i18next';
 import i18n from '../../../i18n';
+import { loadFlowPrograms, loadProgramFlow } from '../flowchartUtils';
+import { buildEligibilityFlow } from '../../../rules/core/explanation-system';
+
+// The global setup stubs React.lazy; the flowchart dialog needs the real one
+vi.mock('react', async () => {
+  const actual = await vi.importActual<typeof import('react')>('react');
+  return { ...actual, default: actual };
+});
+
+vi.mock('../flowchartUtils', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../flowchartUtils')>(),
+  loadFlowPrograms: vi.fn(),
+  loadProgramFlow: vi.fn(),
+}));
 
 // Mock data for testing
 const mockProgramResult: ProgramEligibilityResult = {
@@ -64,6 +80,26 @@ describe('ProgramCard', () => {
 
     // Should render the translated action text
     expect(screen.getByText('Why this result?')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /View eligibility flowchart/ })).toBeInTheDocument();
+  });
+
+  it('opens the eligibility flowchart in a dialog', async () => {
+    const user = userEvent.setup();
+    vi.mocked(loadFlowPrograms).mockResolvedValue([{ id: 'medicaid-federal', name: 'Medicaid' }]);
+    vi.mocked(loadProgramFlow).mockResolvedValue(buildEligibilityFlow(
+      { id: 'medicaid-federal', name: 'Medicaid' },
+      [{ id: 'income', name: 'Income Test', ruleLogic: { '<=': [{ var: 'householdIncome' }, 2000] } }],
+      { householdIncome: 1500 }
+    ));
+    renderWithI18n(<ProgramCard result={mockProgramResult} userProfile={{ householdIncome: 1500 }} />);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /View eligibility flowchart/ }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'How eligibility is decided' });
+    const chart = await within(dialog).findByTestId('flowchart-medicaid-federal');
+    expect(chart).toHaveTextContent('Income Test');
+    expect(loadProgramFlow).toHaveBeenCalledWith('medicaid-federal', { householdIncome: 1500 });
   });
 
   it('renders different status badges correctly', () => {
@@ -87,6 +123,20 @@ describe('ProgramCard', () => {
     expect(screen.getByText('Not Qualified')).toBeInTheDocument();
   });
 
+  it('labels a rent share estimate as a cost, not a benefit', () => {
+    const { estimatedBenefit: _estimatedBenefit, ...rest } = mockProgramResult;
+    const section8Result: ProgramEligibilityResult = {
+      ...rest,
+      programId: 'section8-federal',
+      estimatedCost: { amount: 576, frequency: 'monthly' },
+    };
+    renderWithI18n(<ProgramCard result={section8Result} />);
+
+    expect(screen.getByText('Estimated rent you would pay:')).toBeInTheDocument();
+    expect(screen.getByText('$576/monthly')).toBeInTheDocument();
+    expect(screen.queryByText('Estimated benefit:')).not.toBeInTheDocument();
+  });
+
   it('applies custom className', () => {
     renderWithI18n(<ProgramCard result={mockProgramResult} className="custom-class" />);
 
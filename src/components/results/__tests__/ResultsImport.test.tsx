@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ResultsImport } from '../ResultsImport';
+import { exportEncrypted } from '../exportUtils';
+import { createTransferCode } from '../transferUtils';
+import type { EligibilityResults } from '../types';
+
+const results: EligibilityResults = {
+  qualified: [],
+  likely: [],
+  maybe: [],
+  notQualified: [],
+  totalPrograms: 4,
+  evaluatedAt: new Date('2025-01-15T12:00:00.000Z'),
+};
+
+function openTransferImport(onImport = vi.fn()): typeof onImport {
+  render(<ResultsImport onImport={onImport} trigger={<button>Open import</button>} />);
+  fireEvent.click(screen.getByRole('button', { name: 'Open import' }));
+  fireEvent.click(screen.getByRole('button', { name: 'FromDevice' }));
+  return onImport;
+}
+
+describe('ResultsImport device transfer', () => {
+  it('imports a pasted transfer code with the sender\'s password', async () => {
+    const code = await createTransferCode(await exportEncrypted(results, 'transfer password', {
+      metadata: { state: 'GA' },
+    }));
+    const onImport = openTransferImport();
+
+    fireEvent.change(screen.getByLabelText('PasteCode'), { target: { value: code } });
+    fireEvent.change(screen.getByPlaceholderText('Enter file password'), { target: { value: 'transfer password' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => expect(onImport).toHaveBeenCalledTimes(1));
+    expect(onImport.mock.calls[0][0]).toMatchObject({ totalPrograms: 4 });
+    expect(onImport.mock.calls[0][1]).toMatchObject({ state: 'GA' });
+  });
+
+  it('reports a damaged code without importing', async () => {
+    const onImport = openTransferImport();
+
+    fireEvent.change(screen.getByLabelText('PasteCode'), { target: { value: 'BFX1:0123456789abcdef:AAAA' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter file password'), { target: { value: 'transfer password' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByText('Transfer code is incomplete or damaged')).toBeInTheDocument();
+    expect(onImport).not.toHaveBeenCalled();
+  });
+
+  it('offers the text code when the browser cannot scan QR codes', () => {
+    openTransferImport();
+
+    expect(screen.getByText('ScanUnsupported')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import' })).toBeDisabled();
+  });
+});
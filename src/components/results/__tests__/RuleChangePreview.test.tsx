@@ -0,0 +1,113 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RuleChangePreview } from '../RuleChangePreview';
+import { getNextFiscalYearStart, compareResultsByProgram } from '../rulePreviewUtils';
+import type { EligibilityResults, ProgramEligibilityResult } from '../types';
+import { I18nextProvider } from 'react-i18next';
+import i18n from '../../../i18n';
+
+const program = (programId: string, programName: string, status: ProgramEligibilityResult['status']): ProgramEligibilityResult => ({
+  programId,
+  programName,
+  programDescription: `${programName} program`,
+  jurisdiction: 'US-FEDERAL',
+  status,
+  confidence: 'high',
+  confidenceScore: 90,
+  explanation: { reason: '', details: [], rulesCited: [] },
+  requiredDocuments: [],
+  nextSteps: [],
+  evaluatedAt: new Date('2025-06-01'),
+  rulesVersion: '1.0.0',
+});
+
+const currentResults: EligibilityResults = {
+  qualified: [program('wic-federal', 'WIC', 'qualified')],
+  likely: [],
+  maybe: [],
+  notQualified: [program('snap-federal', 'SNAP', 'not-qualified')],
+  totalPrograms: 2,
+  evaluatedAt: new Date('2025-06-01'),
+};
+
+const previewResults: EligibilityResults = {
+  qualified: [program('wic-federal', 'WIC', 'qualified'), program('snap-federal', 'SNAP', 'qualified')],
+  likely: [],
+  maybe: [],
+  notQualified: [],
+  totalPrograms: 2,
+  evaluatedAt: new Date('2025-06-01'),
+};
+
+describe('RuleChangePreview', () => {
+  beforeEach(() => {
+    void i18n.changeLanguage('en');
+  });
+
+  const renderPreview = (onPreview: (asOfDate: Date) => Promise<EligibilityResults>): ReturnType<typeof render> =>
+    render(
+      <I18nextProvider i18n={i18n}>
+        <RuleChangePreview
+          currentResults={currentResults}
+          onPreview={onPreview}
+          defaultAsOfDate={new Date(2025, 9, 1)}
+        />
+      </I18nextProvider>
+    );
+
+  it('does not evaluate until the preview is turned on', () => {
+    const onPreview = vi.fn().mockResolvedValue(previewResults);
+    renderPreview(onPreview);
+
+    expect(screen.getByRole('heading', { name: 'Title' })).toBeInTheDocument();
+    expect(onPreview).not.toHaveBeenCalled();
+  });
+
+  it('shows current and upcoming results side by side', async () => {
+    const user = userEvent.setup();
+    const onPreview = vi.fn().mockResolvedValue(previewResults);
+    renderPreview(onPreview);
+
+    await user.click(screen.getByRole('switch', { name: 'Toggle' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('ChangedCount')).toBeInTheDocument();
+    });
+    expect(onPreview).toHaveBeenCalledWith(new Date(2025, 9, 1));
+
+    const snapRow = screen.getByRole('row', { name: /SNAP/ });
+    expect(snapRow).toHaveTextContent('NotQualified');
+    expect(snapRow).toHaveTextContent('You Qualify');
+    expect(snapRow).toHaveTextContent('Changed');
+    expect(screen.getByRole('row', { name: /WIC/ })).not.toHaveTextContent('Changed');
+  });
+
+  it('shows an error message when the preview fails', async () => {
+    const user = userEvent.setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onPreview = vi.fn().mockRejectedValue(new Error('No rules'));
+    renderPreview(onPreview);
+
+    await user.click(screen.getByRole('switch', { name: 'Toggle' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Error')).toBeInTheDocument();
+    });
+    consoleError.mockRestore();
+  });
+});
+
+describe('rulePreviewUtils', () => {
+  it('finds the start of the next federal fiscal year', () => {
+    expect(getNextFiscalYearStart(new Date(2025, 5, 15))).toEqual(new Date(2025, 9, 1));
+    expect(getNextFiscalYearStart(new Date(2025, 9, 1))).toEqual(new Date(2026, 9, 1));
+  });
+
+  it('pairs program statuses and flags changes', () => {
+    expect(compareResultsByProgram(currentResults, previewResults)).toEqual([
+      { programId: 'wic-federal', programName: 'WIC', currentStatus: 'qualified', previewStatus: 'qualified', changed: false },
+      { programId: 'snap-federal', programName: 'SNAP', currentStatus: 'not-qualified', previewStatus: 'qualified', changed: true },
+    ]);
+  });
+});
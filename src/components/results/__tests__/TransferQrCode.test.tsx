@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import { TransferQrCode } from '../TransferQrCode';
+
+// Long enough to need three frames
+const code = `BFX1:0123456789abcdef:${'A'.repeat(1000)}`;
+
+describe('TransferQrCode', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('cycles through the QR frames until paused', () => {
+    vi.useFakeTimers();
+    const { container } = render(<TransferQrCode code={code} frameInterval={100} />);
+    const currentPath = (): string | null => container.querySelector('svg path')?.getAttribute('d') ?? null;
+
+    const first = currentPath();
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    const second = currentPath();
+    expect(second).not.toBe(first);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause' }));
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(currentPath()).toBe(second);
+  });
+
+  it('shows the text code for devices without a camera', () => {
+    render(<TransferQrCode code={code} />);
+
+    expect(screen.getByRole('textbox')).toHaveValue(code);
+    expect(screen.getByRole('img')).toBeInTheDocument();
+  });
+});
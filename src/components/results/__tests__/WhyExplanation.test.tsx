@@ -254,6 +254,79 @@ describe('WhyExplanation Component', () => {
     expect(screen.getByText('Federal SNAP state residence requirements')).toBeInTheDocument();
   });
 
+  it('should display the estimated benefit with its calculation steps', () => {
+    render(
+      <WhyExplanation
+        programName="SNAP"
+        status="qualified"
+        explanation={mockExplanation}
+        estimatedBenefit={{
+          amount: 499,
+          frequency: 'monthly',
+          description: 'Estimated SNAP allotment',
+          steps: [
+            { label: 'Net monthly income', amount: 894 },
+            { label: 'Maximum allotment (household of 3)', amount: 768 },
+            { label: '30% of net income', amount: -269 },
+            { label: 'Estimated monthly SNAP benefit', amount: 499 },
+          ],
+        }}
+        onClose={mockOnClose}
+      />
+    );
+
+    expect(screen.getByText('Estimated benefit:')).toBeInTheDocument();
+    expect(screen.getByText('$499 per month')).toBeInTheDocument();
+    expect(screen.getByText('Maximum allotment (household of 3)')).toBeInTheDocument();
+    expect(screen.getByText('−$269')).toBeInTheDocument();
+  });
+
+  it('should not display an estimate when none is provided', () => {
+    render(
+      <WhyExplanation
+        programName="SNAP"
+        status="qualified"
+        explanation={mockExplanation}
+        onClose={mockOnClose}
+      />
+    );
+
+    expect(screen.queryByText('Estimated benefit:')).not.toBeInTheDocument();
+  });
+
+  it('should list the answer changes that would change the result', () => {
+    render(
+      <WhyExplanation
+        programName="SNAP"
+        status="not-qualified"
+        explanation={{
+          ...mockExplanation,
+          counterfactuals: [
+            { field: 'householdIncome', change: 'decrease', from: 2212, to: 2000, amount: 212, unit: 'usd', description: 'if your household\'s monthly income were $212 lower' },
+            { field: 'dependentCareCosts', change: 'report', to: 150, amount: 150, unit: 'usd', description: 'if you report your dependent care costs of at least $150' },
+          ],
+        }}
+        onClose={mockOnClose}
+      />
+    );
+
+    const list = screen.getByTestId('counterfactual-list');
+    expect(list.querySelectorAll('li')).toHaveLength(2);
+  });
+
+  it('should not list answer changes when there are none', () => {
+    render(
+      <WhyExplanation
+        programName="SNAP"
+        status="qualified"
+        explanation={mockExplanation}
+        onClose={mockOnClose}
+      />
+    );
+
+    expect(screen.queryByTestId('counterfactual-list')).not.toBeInTheDocument();
+  });
+
   it('should display privacy note', () => {
     render(
       <WhyExplanation
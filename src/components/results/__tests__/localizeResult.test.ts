@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { localizeProgramResult } from '../localizeResult';
+import type { ProgramEligibilityResult } from '../types';
+
+const result: ProgramEligibilityResult = {
+  programId: 'snap-federal',
+  programName: 'SNAP',
+  programDescription: 'Food assistance',
+  jurisdiction: 'US-FEDERAL',
+  status: 'qualified',
+  confidence: 'high',
+  confidenceScore: 95,
+  explanation: {
+    reason: 'Your income is below the limit.',
+    details: ['Gross income: $1,200'],
+    rulesCited: ['snap-federal-gross-income'],
+  },
+  requiredDocuments: [{ id: 'doc-1', name: 'Proof of Income', required: true }],
+  nextSteps: [{ step: 'Apply online', priority: 'high' }],
+  evaluatedAt: new Date('2025-01-01'),
+  rulesVersion: '1.0.0',
+  translations: {
+    es: {
+      explanation: 'Su ingreso está por debajo del límite.',
+      requiredDocuments: [{ name: 'Comprobante de ingresos' }],
+      nextSteps: ['Presente su solicitud en línea'],
+    },
+  },
+};
+
+describe('localizeProgramResult', () => {
+  it('shows translated reason, documents and steps for the active language', () => {
+    const localized = localizeProgramResult(result, 'es');
+
+    expect(localized.explanation).toEqual({ ...result.explanation, reason: 'Su ingreso está por debajo del límite.' });
+    expect(localized.requiredDocuments).toEqual([{ id: 'doc-1', name: 'Comprobante de ingresos', required: true }]);
+    expect(localized.nextSteps).toEqual([{ step: 'Presente su solicitud en línea', priority: 'high' }]);
+  });
+
+  it('leaves English results unchanged', () => {
+    expect(localizeProgramResult(result, 'en')).toEqual(result);
+  });
+});
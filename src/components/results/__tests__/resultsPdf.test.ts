@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildResultsPDF } from '../resultsPdf';
+import { exportToPDFFile } from '../exportUtils';
+import { parsePdf } from '../../../test/pdf';
+import type { EligibilityResults, ProgramEligibilityResult } from '../types';
+
+const snap: ProgramEligibilityResult = {
+  programId: 'snap-federal',
+  programName: 'SNAP',
+  programDescription: 'Food assistance',
+  jurisdiction: 'US-FEDERAL',
+  status: 'qualified',
+  confidence: 'high',
+  confidenceScore: 95,
+  explanation: {
+    reason: 'Your income is below the limit.',
+    details: ['Gross income: $1,200'],
+  },
+  requiredDocuments: [
+    { id: 'doc-1', name: 'Proof of Income', required: true, where: 'Your employer' },
+    { id: 'doc-2', name: 'Utility bill', required: false },
+  ],
+  nextSteps: [
+    { step: 'Apply online', url: 'https://www.fns.usda.gov/snap' },
+    { step: 'Book an interview', url: 'javascript:alert(1)' },
+  ],
+  estimatedBenefit: { amount: 450, frequency: 'monthly' },
+  evaluatedAt: new Date('2025-01-15'),
+  rulesVersion: '1.0.0',
+  translations: {
+    es: {
+      explanation: 'Su ingreso está por debajo del límite.',
+      requiredDocuments: [{ name: 'Comprobante de ingresos' }],
+    },
+  },
+};
+
+const results: EligibilityResults = {
+  qualified: [snap],
+  likely: [],
+  maybe: [{ ...snap, programId: 'wic-federal', programName: 'WIC', status: 'maybe', translations: undefined }],
+  notQualified: [{ ...snap, programId: 'tanf-federal', programName: 'TANF', status: 'not-qualified' }],
+  totalPrograms: 3,
+  evaluatedAt: new Date('2025-01-15T12:00:00Z'),
+};
+
+function pdfText(bytes: Uint8Array): string[] {
+  return parsePdf(bytes).pages.flat();
+}
+
+describe('buildResultsPDF', () => {
+  it('lists the summary, each eligible program and the answers', () => {
+    const text = pdfText(buildResultsPDF(results, {
+      userInfo: { name: 'Jordan' },
+      answers: [{ id: 'household-size', label: 'How many people live in your household', value: '3' }],
+    }));
+
+    expect(text).toEqual(expect.arrayContaining([
+      'Benefit Eligibility Results',
+      'Prepared for: Jordan',
+      'Total Programs', '3',
+      'Programs You Qualify For',
+      'SNAP',
+      'Estimated Benefit: $450 per month',
+      'Why: Your income is below the limit.',
+      'Gross income: $1,200',
+      'Required Documents',
+      'Proof of Income (Your employer)',
+      'Next Steps',
+      'Apply online - https://www.fns.usda.gov/snap',
+      'Book an interview',
+      'Programs You May Qualify For',
+      'WIC',
+      'Your Answers',
+      'Question', 'Answer',
+      'How many people live in your household',
+    ]));
+    expect(text).not.toContain('Utility bill');
+    expect(text).not.toContain('TANF');
+    expect(text).not.toContain('Programs You Likely Qualify For');
+  });
+
+  it('localizes program text and uses the given labels', () => {
+    const bytes = buildResultsPDF(results, {
+      language: 'es',
+      labels: { title: 'Resultados', why: 'Por qué', page: (page, pageCount) => `Página ${page} de ${pageCount}` },
+    });
+    const { objects, pages } = parsePdf(bytes);
+    const text = pages.flat();
+
+    expect(objects.get(1)).toContain('/Lang (es)');
+    expect(objects.get(5)).toContain('/Title (Resultados)');
+    expect(text).toContain('Por qué: Su ingreso está por debajo del límite.');
+    expect(text).toContain('Comprobante de ingresos (Your employer)');
+    expect(text).toContain(`Página 1 de ${pages.length}`);
+  });
+
+  it('leaves out the answers when none are given', () => {
+    expect(pdfText(buildResultsPDF(results))).not.toContain('Your Answers');
+  });
+});
+
+describe('exportToPDFFile', () => {
+  it('wraps the PDF bytes in a PDF blob', () => {
+    const blob = exportToPDFFile(results);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(blob.size).toBe(buildResultsPDF(results).length);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  LEGACY_RESULTS_STORAGE_KEY,
+  migrateLegacySavedResults,
+} from '../savedResultsStorage';
+import type { SavedResultsCollection } from '../../../db/database-engine/types';
+
+const legacyEntry = (id: string): Record<string, unknown> => ({
+  id,
+  results: {
+    qualified: [{ programId: 'snap-federal' }],
+    likely: [],
+    maybe: [],
+    notQualified: [],
+    totalPrograms: 1,
+    evaluatedAt: '2025-01-15T12:00:00.000Z',
+  },
+  profileSnapshot: { householdSize: 2, householdIncome: 1800 },
+  evaluatedAt: 1736942400000,
+  state: 'GA',
+  programsEvaluated: ['snap-federal'],
+  qualifiedCount: 1,
+  tags: ['first visit'],
+  notes: 'Bring pay stubs',
+  createdAt: 1736942400000,
+  updatedAt: 1736942400000,
+});
+
+/** Storage that records every write, so overwrites can be checked */
+function createRecordingStorage(): Storage & { writes: Array<[string, string]> } {
+  const items = new Map<string, string>();
+  const writes: Array<[string, string]> = [];
+  return {
+    writes,
+    get length() { return items.size; },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      writes.push([key, value]);
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+}
+
+function createCollection(error: unknown[] = []): SavedResultsCollection {
+  return {
+    bulkUpsert: vi.fn().mockResolvedValue({ success: [], error }),
+  } as unknown as SavedResultsCollection;
+}
+
+describe('migrateLegacySavedResults', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('copies valid entries into the collection and overwrites the plaintext before removing it', async () => {
+    const storage = createRecordingStorage();
+    vi.stubGlobal('localStorage', storage);
+    const stored = JSON.stringify([legacyEntry('a'), legacyEntry('b')]);
+    storage.setItem(LEGACY_RESULTS_STORAGE_KEY, stored);
+    const collection = createCollection();
+
+    const migration = await migrateLegacySavedResults(collection);
+
+    expect(migration).toEqual({ migrated: 2, skipped: 0 });
+    expect(collection.bulkUpsert).toHaveBeenCalledWith([legacyEntry('a'), legacyEntry('b')]);
+    expect(storage.writes).toEqual([
+      [LEGACY_RESULTS_STORAGE_KEY, stored],
+      [LEGACY_RESULTS_STORAGE_KEY, '0'.repeat(stored.length)],
+    ]);
+    expect(storage.getItem(LEGACY_RESULTS_STORAGE_KEY)).toBeNull();
+  });
+
+  it('leaves entries that do not fit the collection schema in localStorage', async () => {
+    const storage = createRecordingStorage();
+    vi.stubGlobal('localStorage', storage);
+    const longNotes = { ...legacyEntry('long'), notes: 'x'.repeat(6000) };
+    const stored = JSON.stringify([legacyEntry('a'), longNotes]);
+    storage.setItem(LEGACY_RESULTS_STORAGE_KEY, stored);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const collection = createCollection();
+
+    expect(await migrateLegacySavedResults(collection)).toEqual({ migrated: 1, skipped: 1 });
+    expect(collection.bulkUpsert).toHaveBeenCalledWith([legacyEntry('a')]);
+    expect(storage.writes[1]).toEqual([LEGACY_RESULTS_STORAGE_KEY, '0'.repeat(stored.length)]);
+    expect(JSON.parse(storage.getItem(LEGACY_RESULTS_STORAGE_KEY) ?? '')).toEqual([longNotes]);
+  });
+
+  it('leaves storage it cannot read untouched', async () => {
+    localStorage.setItem(LEGACY_RESULTS_STORAGE_KEY, '{not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const collection = createCollection();
+
+    expect(await migrateLegacySavedResults(collection)).toEqual({ migrated: 0, skipped: 0 });
+    expect(localStorage.getItem(LEGACY_RESULTS_STORAGE_KEY)).toBe('{not json');
+  });
+
+  it('keeps the plaintext entries when they cannot be written', async () => {
+    const stored = JSON.stringify([legacyEntry('a')]);
+    localStorage.setItem(LEGACY_RESULTS_STORAGE_KEY, stored);
+
+    await expect(migrateLegacySavedResults(createCollection([{ status: 409 }]))).rejects.toThrow(
+      'Failed to migrate 1 saved results'
+    );
+    expect(localStorage.getItem(LEGACY_RESULTS_STORAGE_KEY)).toBe(stored);
+  });
+
+  it('does nothing once the plaintext entries are gone', async () => {
+    const collection = createCollection();
+
+    expect(await migrateLegacySavedResults(collection)).toEqual({ migrated: 0, skipped: 0 });
+    expect(collection.bulkUpsert).not.toHaveBeenCalled();
+  });
+});
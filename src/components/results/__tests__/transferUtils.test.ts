@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTransferFrame,
+  createTransferCode,
+  getTransferCode,
+  parseTransferFrame,
+  readTransferCode,
+  splitTransferCode,
+  type TransferProgress,
+} from '../transferUtils';
+import { exportEncrypted, importEncrypted } from '../exportUtils';
+import type { EligibilityResults } from '../types';
+
+const results: EligibilityResults = {
+  qualified: [{
+    programId: 'snap-federal',
+    programName: 'SNAP',
+    programDescription: 'Food assistance',
+    jurisdiction: 'US-FEDERAL',
+    status: 'qualified',
+    confidence: 'high',
+    confidenceScore: 95,
+    explanation: { reason: 'Your income is below the limit.', details: [] },
+    requiredDocuments: [],
+    nextSteps: [],
+    evaluatedAt: new Date('2025-01-15T12:00:00.000Z'),
+    rulesVersion: '1.0.0',
+  }],
+  likely: [],
+  maybe: [],
+  notQualified: [],
+  totalPrograms: 1,
+  evaluatedAt: new Date('2025-01-15T12:00:00.000Z'),
+};
+
+const password = 'correct horse battery';
+
+async function createCode(): Promise<string> {
+  const blob = await exportEncrypted(results, password, { profileSnapshot: { householdSize: 3 } });
+  return createTransferCode(blob);
+}
+
+describe('device transfer codes', () => {
+  it('reassembles frames scanned out of order and decrypts them', async () => {
+    const frames = splitTransferCode(await createCode(), 100);
+    expect(frames.length).toBeGreaterThan(2);
+
+    // Cameras see frames in any order and more than once
+    let progress: TransferProgress | null = null;
+    for (const frame of [...frames].reverse().concat(frames[0], 'not a frame')) {
+      progress = addTransferFrame(progress, frame);
+    }
+    expect(progress?.received).toBe(frames.length);
+
+    const code = getTransferCode(progress);
+    expect(code).not.toBeNull();
+
+    const imported = await importEncrypted(await readTransferCode(code ?? ''), password);
+    expect(imported.results.qualified[0].programName).toBe('SNAP');
+    expect(imported.profileSnapshot).toEqual({ householdSize: 3 });
+  });
+
+  it('waits for every frame before producing a code', async () => {
+    const frames = splitTransferCode(await createCode(), 100);
+
+    const progress = frames.slice(1).reduce<TransferProgress | null>(addTransferFrame, null);
+
+    expect(progress).toMatchObject({ total: frames.length, received: frames.length - 1 });
+    expect(getTransferCode(progress)).toBeNull();
+  });
+
+  it('starts over when frames from another transfer arrive', async () => {
+    const first = splitTransferCode(await createCode(), 100);
+    const second = splitTransferCode(await createCode(), 100);
+
+    const progress = addTransferFrame(addTransferFrame(null, first[0]), second[0]);
+
+    expect(progress).toMatchObject({ id: parseTransferFrame(second[0])?.id, received: 1 });
+  });
+
+  it('accepts a pasted code with line breaks', async () => {
+    const code = await createCode();
+    const pasted = code.replace(/(.{60})/g, '$1\n  ');
+
+    const imported = await importEncrypted(await readTransferCode(pasted), password);
+
+    expect(imported.results.totalPrograms).toBe(1);
+  });
+
+  it('rejects codes that were altered or cut short', async () => {
+    const code = await createCode();
+    const altered = code.slice(0, -6) + (code.endsWith('AAAAAA') ? 'BBBBBB' : 'AAAAAA');
+
+    await expect(readTransferCode(altered)).rejects.toThrow('Transfer code is incomplete or damaged');
+    await expect(readTransferCode(code.slice(0, 80))).rejects.toThrow('Transfer code is incomplete or damaged');
+    await expect(readTransferCode('hello')).rejects.toThrow('Invalid transfer code');
+  });
+
+  it('ignores frames with an impossible position', () => {
+    expect(parseTransferFrame('BFX1:0123456789abcdef:3/2:AAAA')).toBeNull();
+    expect(parseTransferFrame('BFX1:0123456789abcdef:0/2:AAAA')).toBeNull();
+    expect(parseTransferFrame('BFX1:0123456789abcdef:2/2:AAAA')).toEqual({
+      id: '0123456789abcdef',
+      index: 2,
+      total: 2,
+      data: 'AAAA',
+    });
+  });
+});
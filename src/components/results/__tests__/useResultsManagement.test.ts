@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useResultsManagement } from '../useResultsManagement';
+import { initializeDatabase } from '../../../db/database';
+import type { EligibilityResults } from '../types';
+
+const results = (qualifiedCount: number, evaluatedAt: Date): EligibilityResults => ({
+  qualified: Array.from({ length: qualifiedCount }, (_, index) => ({
+    programId: `program-${index}`,
+  })) as unknown as EligibilityResults['qualified'],
+  likely: [],
+  maybe: [],
+  notQualified: [],
+  totalPrograms: 3,
+  evaluatedAt,
+});
+
+describe('useResultsManagement', () => {
+  beforeEach(async () => {
+    // Resets the mock database stores
+    await initializeDatabase();
+  });
+
+  it('keeps the history in sync as results are saved, edited and deleted', async () => {
+    const { result } = renderHook(() => useResultsManagement());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.savedResults).toEqual([]);
+
+    let olderId = '';
+    await act(async () => {
+      olderId = await result.current.saveResults({ results: results(1, new Date('2025-01-01')), state: 'GA' });
+      await result.current.saveResults({ results: results(2, new Date('2025-02-01')) });
+    });
+
+    expect(result.current.savedResults.map(saved => saved.qualifiedCount)).toEqual([2, 1]);
+
+    await act(async () => {
+      await result.current.updateResult(olderId, { notes: 'Applied for SNAP', tags: ['snap'] });
+    });
+
+    expect(result.current.savedResults[1]).toMatchObject({
+      id: olderId,
+      state: 'GA',
+      notes: 'Applied for SNAP',
+      tags: ['snap'],
+    });
+
+    await act(async () => {
+      await result.current.deleteResult(olderId);
+    });
+
+    expect(result.current.savedResults).toHaveLength(1);
+  });
+
+  it('loads saved results back with their evaluation date', async () => {
+    const { result } = renderHook(() => useResultsManagement());
+    const evaluatedAt = new Date('2025-03-01T10:00:00.000Z');
+
+    let id = '';
+    await act(async () => {
+      id = await result.current.saveResults({ results: results(1, evaluatedAt) });
+    });
+
+    let loaded: EligibilityResults | null = null;
+    let missing: EligibilityResults | null = null;
+    await act(async () => {
+      loaded = await result.current.loadResult(id);
+      missing = await result.current.loadResult('missing');
+    });
+
+    expect(loaded).toMatchObject({ evaluatedAt, qualified: [{ programId: 'program-0' }] });
+    expect(missing).toBeNull();
+  });
+
+  it('rejects loads that were cancelled', async () => {
+    const { result } = renderHook(() => useResultsManagement());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const controller = new AbortController();
+    controller.abort();
+
+    await act(async () => {
+      await expect(result.current.loadAllResults(controller.signal)).rejects.toThrow('Operation cancelled');
+    });
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Benefit cliff chart helpers
+ *
+ * Loads every active program's rules and the user's profile from the
+ * database and sweeps the household's earnings with analyzeBenefitCliffs.
+ */
+
+import {
+  ensureOperatorsRegistered,
+  selectRulesInEffect,
+} from '../../rules/core/eligibility/evaluation';
+import { analyzeBenefitCliffs } from '../../rules/core/benefitCliff';
+import type { BenefitCliffAnalysis, BenefitCliffOptions } from '../../rules/core/benefitCliff';
+import { loadProfileRuleData, requireDatabase } from './flowchartUtils';
+
+export interface BenefitCliffData {
+  analysis: BenefitCliffAnalysis;
+  /** Program names by ID, for the chart legend and cliff list */
+  programNames: Record<string, string>;
+}
+
+/**
+ * Sweep the user's earnings across every active program
+ *
+ * Uses the rules in effect today, including benefit amount rules.
+ */
+export async function loadBenefitCliffAnalysis(
+  userProfile: Record<string, unknown> = {},
+  options: BenefitCliffOptions = {}
+): Promise<BenefitCliffData> {
+  ensureOperatorsRegistered();
+  const db = requireDatabase();
+  const asOf = options.asOf ?? Date.now();
+
+  const programs = await db.benefit_programs.findActivePrograms();
+  const cliffPrograms = await Promise.all(programs.map(async program => ({
+    programId: program.id,
+    rules: selectRulesInEffect(await db.eligibility_rules.findRulesByProgram(program.id, asOf), asOf),
+  })));
+
+  const data = await loadProfileRuleData(userProfile);
+
+  return {
+    analysis: analyzeBenefitCliffs(cliffPrograms, data, { ...options, asOf }),
+    programNames: Object.fromEntries(programs.map(program => [program.id, program.name])),
+  };
+}
+
+/**
+ * Scale earnings and dollar amounts onto chart coordinates
+ */
+export function createChartScale(
+  analysis: BenefitCliffAnalysis,
+  size: { width: number; height: number; padding: number }
+): { x: (earnings: number) => number; y: (amount: number) => number } {
+  const { points } = analysis;
+  const minX = points[0]?.earnings ?? 0;
+  const maxX = Math.max(points[points.length - 1]?.earnings ?? 0, minX + 1);
+  const maxY = Math.max(...points.map(point => point.netResources), 1);
+  const plotWidth = size.width - size.padding * 2;
+  const plotHeight = size.height - size.padding * 2;
+
+  return {
+    x: (earnings: number) => size.padding + ((earnings - minX) / (maxX - minX)) * plotWidth,
+    y: (amount: number) => size.height - size.padding - (amount / maxY) * plotHeight,
+  };
+}
@@ -7,6 +7,7 @@
 import type { EligibilityResults, ProgramEligibilityResult } from './types';
 import { encryptToString, decryptFromString, deriveKeyFromPassphrase } from '../../utils/encryption';
 import DOMPurify from 'isomorphic-dompurify';
+import { buildResultsPDF, type ResultsPdfOptions } from './resultsPdf';
 
 /**
  * Sanitize text content for safe HTML injection
@@ -83,6 +84,17 @@ export function exportToPDF(
   }, 100);
 }
 
+/**
+ * Generate a tagged PDF file from results, without the print dialog
+ */
+export function exportToPDFFile(
+  results: EligibilityResults,
+  options?: ResultsPdfOptions
+): Blob {
+  const bytes = buildResultsPDF(results, options);
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
 /**
  * Build HTML for printing/PDF
  */
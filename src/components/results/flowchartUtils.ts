@@ -0,0 +1,146 @@
+/**
+ * Eligibility flowchart helpers
+ *
+ * Loads a program's rules and the user's profile from the database, builds
+ * the eligibility flow graph and lays it out with ELK for React Flow.
+ */
+
+import ELK from 'elkjs/lib/elk.bundled.js';
+import type { Edge, Node } from 'reactflow';
+import { getDatabase } from '../../db/database';
+import {
+  buildProfileDataContext,
+  ensureOperatorsRegistered,
+  prepareDataContext,
+  selectRulesInEffect,
+  withEvaluationDate,
+} from '../../rules/core/eligibility/evaluation';
+import { buildEligibilityFlow } from '../../rules/core/explanation-system';
+import type {
+  EligibilityFlow,
+  EligibilityFlowNode,
+  FlowNodeStatus,
+} from '../../rules/core/explanation-system';
+import type { UserProfile } from '../../db/schemas';
+import type { JsonLogicData } from '../../rules/core/types';
+
+export const FLOW_NODE_WIDTH = 240;
+
+export interface FlowProgramOption {
+  id: string;
+  name: string;
+}
+
+export interface FlowLayout {
+  nodes: Array<Node<EligibilityFlowNode>>;
+  edges: Edge[];
+}
+
+export const FLOW_EDGE_COLORS: Record<FlowNodeStatus, string> = {
+  pass: '#16a34a',
+  fail: '#dc2626',
+  unknown: '#9ca3af',
+};
+
+const elk = new ELK();
+
+export function requireDatabase(): NonNullable<ReturnType<typeof getDatabase>> {
+  const db = getDatabase();
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+/**
+ * Active programs to offer for side-by-side comparison
+ */
+export async function loadFlowPrograms(): Promise<FlowProgramOption[]> {
+  const programs = await requireDatabase().benefit_programs.find({ selector: { active: true } }).exec();
+  return programs
+    .map(program => ({ id: program.id, name: program.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Rule data for the user: the stored profile when this session saved one,
+ * otherwise the questionnaire answers
+ */
+export async function loadProfileRuleData(userProfile: Record<string, unknown>): Promise<JsonLogicData> {
+  const { profileId } = userProfile;
+  if (typeof profileId === 'string') {
+    const stored = await requireDatabase().user_profiles.findOne(profileId).exec();
+    if (stored) {
+      return prepareDataContext(stored);
+    }
+  }
+  return buildProfileDataContext(userProfile as Partial<UserProfile>);
+}
+
+/**
+ * Build a program's eligibility flow against the user's questionnaire answers
+ *
+ * Uses the rules in effect today that decide eligibility; benefit amount
+ * rules are left out, as they are in evaluation.
+ */
+export async function loadProgramFlow(
+  programId: string,
+  userProfile: Record<string, unknown> = {}
+): Promise<EligibilityFlow> {
+  ensureOperatorsRegistered();
+  const db = requireDatabase();
+
+  const program = await db.benefit_programs.findOne(programId).exec();
+  const asOf = Date.now();
+  const rules = selectRulesInEffect(await db.eligibility_rules.findRulesByProgram(programId, asOf), asOf)
+    .filter(rule => rule.ruleType !== 'benefit_amount')
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+  const data = withEvaluationDate(await loadProfileRuleData(userProfile), {});
+
+  return buildEligibilityFlow(
+    { id: programId, name: program?.name ?? programId },
+    rules.map(rule => ({ id: rule.id, name: rule.name, ruleLogic: rule.ruleLogic })),
+    data
+  );
+}
+
+function nodeHeight(node: EligibilityFlowNode): number {
+  return 56 + node.details.length * 16;
+}
+
+/**
+ * Lay out a flow top to bottom with ELK's layered algorithm
+ */
+export async function layoutEligibilityFlow(flow: EligibilityFlow): Promise<FlowLayout> {
+  const graph = await elk.layout({
+    id: flow.programId,
+    layoutOptions: {
+      'elk.algorithm': 'layered',
+      'elk.direction': 'DOWN',
+      'elk.spacing.nodeNode': '24',
+      'elk.layered.spacing.nodeNodeBetweenLayers': '48',
+    },
+    children: flow.nodes.map(node => ({ id: node.id, width: FLOW_NODE_WIDTH, height: nodeHeight(node) })),
+    edges: flow.edges.map(edge => ({ id: edge.id, sources: [edge.source], targets: [edge.target] })),
+  });
+
+  const positions = new Map((graph.children ?? []).map(child => [child.id, { x: child.x ?? 0, y: child.y ?? 0 }]));
+  const statuses = new Map(flow.nodes.map(node => [node.id, node.status]));
+
+  return {
+    nodes: flow.nodes.map(node => ({
+      id: node.id,
+      type: 'eligibility',
+      position: positions.get(node.id) ?? { x: 0, y: 0 },
+      data: node,
+    })),
+    edges: flow.edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: edge.label,
+      style: { stroke: FLOW_EDGE_COLORS[statuses.get(edge.target) ?? 'unknown'] },
+    })),
+  };
+}
@@ -12,14 +12,18 @@ export { getContextualLabelFromBasicData } from './confidenceUtils';
 export { DocumentChecklist } from './DocumentChecklist';
 export { NextStepsList } from './NextStepsList';
 export { WhyExplanation } from './WhyExplanation';
+export { BenefitEstimateBreakdown } from './BenefitEstimateBreakdown';
 export { PrintView } from './PrintView';
 export { QuestionnaireAnswersCard } from './QuestionnaireAnswersCard';
+export { RuleChangePreview } from './RuleChangePreview';
 
 // Management Components
 export { ResultsHistory } from './ResultsHistory';
 export { ResultsExport } from './ResultsExport';
 export { ResultsImport } from './ResultsImport';
 export { ResultsComparison } from './ResultsComparison';
+export { TransferQrCode } from './TransferQrCode';
+export { TransferCodeScanner } from './TransferCodeScanner';
 
 // Hooks
 export { default as useEligibilityEvaluation } from './useEligibilityEvaluation';
@@ -29,12 +33,14 @@ export { useResultsManagement } from './useResultsManagement';
 // Provide a typed shape for the lazy-imported module so callers retain proper
 // runtime types while avoiding explicit `any` usage.
 import type { EligibilityResults } from './types';
+import type { ResultsPdfOptions } from './resultsPdf';
 
 type ExportUtilsModule = {
   exportToPDF: (
     results: EligibilityResults,
     options?: { userInfo?: { name?: string; evaluationDate?: Date } }
   ) => void;
+  exportToPDFFile: (results: EligibilityResults, options?: ResultsPdfOptions) => Blob;
   exportEncrypted: (
     results: EligibilityResults,
     password: string,
@@ -58,6 +64,11 @@ export const exportToPDF = async (...args: Parameters<ExportUtilsModule['exportT
   return m.exportToPDF(...args);
 };
 
+export const exportToPDFFile = async (...args: Parameters<ExportUtilsModule['exportToPDFFile']>) => {
+  const m = (await import('./exportUtils')) as ExportUtilsModule;
+  return m.exportToPDFFile(...args);
+};
+
 export const exportEncrypted = async (...args: Parameters<ExportUtilsModule['exportEncrypted']>) => {
   const m = (await import('./exportUtils')) as ExportUtilsModule;
   return m.exportEncrypted(...args);
@@ -85,6 +96,8 @@ export type {
   RequiredDocument,
   NextStep,
   EligibilityExplanation,
+  BenefitCalculationStep,
+  EstimatedBenefit,
   ProgramEligibilityResult,
   EligibilityResults,
   ResultsFilter,
@@ -96,6 +109,9 @@ export type {
   EligibilityResultsDocument,
 } from './resultsSchema';
 
+export type { ResultsPdfLabels, ResultsPdfOptions } from './resultsPdf';
+export type { AnsweredQuestion } from './questionnaireAnswers';
+
 // Import print styles
 import './print.css';
 
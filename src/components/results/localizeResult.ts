@@ -0,0 +1,41 @@
+/**
+ * Result Localization
+ *
+ * Shows a result's rule content (reason, documents, next steps) in the
+ * active language
+ */
+
+import { localizeRuleContent } from '../../rules/core/localization';
+import type { ProgramEligibilityResult } from './types';
+
+/**
+ * Swap in translated reason, document and next step text for a language
+ *
+ * Results without translations for the language are returned unchanged.
+ *
+ * @example
+ * ```typescript
+ * const { i18n } = useI18n();
+ * const localized = localizeProgramResult(result, i18n.language);
+ * ```
+ */
+export function localizeProgramResult(
+  result: ProgramEligibilityResult,
+  language: string | undefined
+): ProgramEligibilityResult {
+  if (!result.translations) {return result;}
+
+  const localized = localizeRuleContent({
+    explanation: result.explanation.reason,
+    requiredDocuments: result.requiredDocuments,
+    nextSteps: result.nextSteps,
+    translations: result.translations,
+  }, language);
+
+  return {
+    ...result,
+    explanation: { ...result.explanation, reason: localized.explanation },
+    requiredDocuments: localized.requiredDocuments ?? result.requiredDocuments,
+    nextSteps: localized.nextSteps ?? result.nextSteps,
+  };
+}
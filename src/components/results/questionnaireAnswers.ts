@@ -0,0 +1,152 @@
+/**
+ * Questionnaire answer formatting
+ *
+ * Turns the question flow and its answers into label/value pairs, shared by
+ * QuestionnaireAnswersCard and the results PDF.
+ */
+
+import type { QuestionAnswer, QuestionContext, QuestionDefinition, QuestionFlow } from '../../questionnaire/types';
+
+export interface AnsweredQuestion {
+  id: string;
+  /** Question text without its trailing question mark */
+  label: string;
+  /** Answer formatted for display */
+  value: string;
+}
+
+// Helper function to format boolean values
+const formatBoolean = (value: unknown): string => {
+  if (value === true) {
+    return 'Yes';
+  }
+  if (value === false) {
+    return 'No';
+  }
+  return String(value);
+};
+
+// Helper function to format select/radio values
+const formatSelectValue = (value: unknown, question: QuestionDefinition): string => {
+  const option = question.options?.find(opt => opt.value === value);
+  return option ? option.label : String(value);
+};
+
+// Helper function to format multiselect/checkbox values
+const formatMultiValue = (value: unknown, question: QuestionDefinition): string => {
+  if (Array.isArray(value)) {
+    return value.map(val => {
+      const option = question.options?.find(opt => opt.value === val);
+      return option ? option.label : String(val);
+    }).join(', ');
+  }
+  return String(value);
+};
+
+// Helper function to format date values
+const formatDateValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    try {
+      return new Date(value).toLocaleDateString();
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+};
+
+/**
+ * Format an answer for display
+ */
+export function formatAnswerValue(value: unknown, question: QuestionDefinition): string {
+  // Treat null/undefined/empty for numeric inputs as 0 so they display as if
+  // the user had entered 0 (submission may default these to 0).
+  if (value === null || value === undefined || value === '') {
+    if (question.inputType === 'currency') {
+      return `$${(0).toLocaleString()}`;
+    }
+    if (question.inputType === 'number') {
+      return (0).toLocaleString();
+    }
+
+    return 'Not answered';
+  }
+
+  switch (question.inputType) {
+    case 'currency':
+      return typeof value === 'number' ? `$${value.toLocaleString()}` : String(value);
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'boolean':
+      return formatBoolean(value);
+    case 'select':
+    case 'radio': {
+      return formatSelectValue(value, question);
+    }
+    case 'multiselect':
+    case 'checkbox':
+      return formatMultiValue(value, question);
+    case 'date':
+      return formatDateValue(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Question text for display, resolved against the current answers
+ */
+export function getQuestionLabel(question: QuestionDefinition, context: QuestionContext): string {
+  // Resolve question text if it's a function
+  const resolvedText = typeof question.text === 'function'
+    ? question.text(context)
+    : question.text;
+
+  // Use the question text, but make it more concise for display
+  return typeof resolvedText === 'string'
+    ? resolvedText.replace(/\?$/, '').trim()
+    : String(resolvedText);
+}
+
+/**
+ * Answered questions in flow order, formatted for display
+ *
+ * @example
+ * ```typescript
+ * const { answers, flow, getAnswerContext } = useQuestionFlowStore.getState();
+ * getAnsweredQuestions(flow, answers, getAnswerContext());
+ * // [{ id: 'household-size', label: 'How many people live in your household', value: '3' }]
+ * ```
+ */
+export function getAnsweredQuestions(
+  flow: QuestionFlow | null,
+  answers: Map<string, QuestionAnswer>,
+  context: QuestionContext
+): AnsweredQuestion[] {
+  if (!flow) { return []; }
+
+  // Get all questions from the flow to display them in order
+  const questions = Array.from(flow.nodes.values(), node => node.question);
+
+  // Filter to only show questions that have answers.
+  // For numeric/currency fields, also show questions where value is null/undefined
+  // because the questionnaire submission may default those to 0 and we want
+  // to display that explicitly.
+  return questions
+    .filter((question) => {
+      const answer = answers.get(question.id);
+      if (!answer) { return false; }
+
+      const val = answer.value;
+      if (val === null || val === undefined || val === '') {
+        return question.inputType === 'currency' || question.inputType === 'number';
+      }
+
+      return true;
+    })
+    .map(question => ({
+      id: question.id,
+      label: getQuestionLabel(question, context),
+      value: formatAnswerValue(answers.get(question.id)?.value, question),
+    }));
+}
@@ -0,0 +1,197 @@
+/**
+ * Results PDF
+ *
+ * Lays out eligibility results as a tagged, accessible PDF: the program
+ * summary, each program's reasons, document checklist and next steps, and
+ * the answers the results were based on.
+ */
+
+import { TaggedPdfWriter } from '../../utils/taggedPdf';
+import { localizeProgramResult } from './localizeResult';
+import type { AnsweredQuestion } from './questionnaireAnswers';
+import type { EligibilityResults, EstimatedBenefit, ProgramEligibilityResult } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Text used in the PDF, so callers can pass translations */
+export interface ResultsPdfLabels {
+  title: string;
+  preparedFor: string;
+  date: string;
+  summary: string;
+  totalPrograms: string;
+  qualified: string;
+  likely: string;
+  maybe: string;
+  qualifiedHeading: string;
+  likelyHeading: string;
+  maybeHeading: string;
+  estimatedBenefit: string;
+  frequency: Record<EstimatedBenefit['frequency'], string>;
+  why: string;
+  documents: string;
+  nextSteps: string;
+  answers: string;
+  question: string;
+  answer: string;
+  disclaimer: string;
+  privacy: string;
+  page: (page: number, pageCount: number) => string;
+}
+
+export interface ResultsPdfOptions {
+  userInfo?: {
+    name?: string;
+    evaluationDate?: Date;
+  };
+  /** Answers the results were based on, from getAnsweredQuestions */
+  answers?: AnsweredQuestion[];
+  /** Language to localize program text into (default: 'en') */
+  language?: string;
+  labels?: Partial<ResultsPdfLabels>;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_RESULTS_PDF_LABELS: ResultsPdfLabels = {
+  title: 'Benefit Eligibility Results',
+  preparedFor: 'Prepared for',
+  date: 'Date',
+  summary: 'Summary',
+  totalPrograms: 'Total Programs',
+  qualified: 'Qualified',
+  likely: 'Likely',
+  maybe: 'Maybe',
+  qualifiedHeading: 'Programs You Qualify For',
+  likelyHeading: 'Programs You Likely Qualify For',
+  maybeHeading: 'Programs You May Qualify For',
+  estimatedBenefit: 'Estimated Benefit',
+  frequency: {
+    monthly: 'per month',
+    annual: 'per year',
+    'one-time': 'one time',
+  },
+  why: 'Why',
+  documents: 'Required Documents',
+  nextSteps: 'Next Steps',
+  answers: 'Your Answers',
+  question: 'Question',
+  answer: 'Answer',
+  disclaimer: 'This eligibility screening is for informational purposes only. Final eligibility determinations are made by program administrators.',
+  privacy: 'All eligibility calculations were performed locally on your device. No personal information was sent to external servers. This document contains sensitive information - please keep it secure.',
+  page: (page, pageCount) => `Page ${page} of ${pageCount}`,
+};
+
+const PROGRAM_GROUPS = [
+  { key: 'qualified', heading: 'qualifiedHeading' },
+  { key: 'likely', heading: 'likelyHeading' },
+  { key: 'maybe', heading: 'maybeHeading' },
+] as const;
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+function isWebUrl(url: string | undefined): url is string {
+  return url !== undefined && /^https?:\/\//.test(url);
+}
+
+function addProgram(pdf: TaggedPdfWriter, program: ProgramEligibilityResult, labels: ResultsPdfLabels): void {
+  pdf.section(() => {
+    pdf.heading(program.programName, 3);
+    pdf.paragraph(program.jurisdiction);
+    if (program.programDescription) {
+      pdf.paragraph(program.programDescription);
+    }
+
+    if (program.estimatedBenefit) {
+      const { amount, frequency } = program.estimatedBenefit;
+      pdf.paragraph(`${labels.estimatedBenefit}: $${amount.toLocaleString()} ${labels.frequency[frequency]}`, { bold: true });
+    }
+
+    if (program.explanation.reason) {
+      pdf.paragraph(`${labels.why}: ${program.explanation.reason}`);
+    }
+    pdf.list(program.explanation.details ?? []);
+
+    const documents = program.requiredDocuments.filter(doc => doc.required);
+    if (documents.length > 0) {
+      pdf.heading(labels.documents, 4);
+      pdf.list(documents.map(doc => (doc.where ? `${doc.name} (${doc.where})` : doc.name)));
+    }
+
+    if (program.nextSteps.length > 0) {
+      pdf.heading(labels.nextSteps, 4);
+      pdf.list(
+        program.nextSteps.map(step => (isWebUrl(step.url) ? `${step.step} - ${step.url}` : step.step)),
+        { ordered: true }
+      );
+    }
+  });
+}
+
+/**
+ * Build a tagged PDF of eligibility results
+ *
+ * @example
+ * ```typescript
+ * const bytes = buildResultsPDF(results, {
+ *   userInfo: { name: 'Jordan' },
+ *   answers: getAnsweredQuestions(flow, answers, context),
+ *   language: i18n.language,
+ * });
+ * downloadBlob(new Blob([bytes], { type: 'application/pdf' }), 'results.pdf');
+ * ```
+ */
+export function buildResultsPDF(results: EligibilityResults, options: ResultsPdfOptions = {}): Uint8Array<ArrayBuffer> {
+  const labels = { ...DEFAULT_RESULTS_PDF_LABELS, ...options.labels };
+  const language = options.language ?? 'en';
+  const evaluationDate = options.userInfo?.evaluationDate ?? results.evaluatedAt;
+
+  const pdf = new TaggedPdfWriter({
+    title: labels.title,
+    language,
+    author: options.userInfo?.name,
+    pageLabel: labels.page,
+  });
+
+  pdf.heading(labels.title, 1);
+  if (options.userInfo?.name) {
+    pdf.paragraph(`${labels.preparedFor}: ${options.userInfo.name}`);
+  }
+  pdf.paragraph(`${labels.date}: ${evaluationDate.toLocaleDateString(language)}`);
+
+  pdf.heading(labels.summary, 2);
+  pdf.table([
+    [labels.totalPrograms, String(results.totalPrograms)],
+    [labels.qualified, String(results.qualified.length)],
+    [labels.likely, String(results.likely.length)],
+    [labels.maybe, String(results.maybe.length)],
+  ]);
+
+  for (const group of PROGRAM_GROUPS) {
+    const programs = results[group.key];
+    if (programs.length === 0) {continue;}
+
+    pdf.heading(labels[group.heading], 2);
+    programs.forEach(program => addProgram(pdf, localizeProgramResult(program, language), labels));
+  }
+
+  const answers = options.answers ?? [];
+  if (answers.length > 0) {
+    pdf.heading(labels.answers, 2);
+    pdf.table(
+      answers.map(answer => [answer.label, answer.value]),
+      { headers: [labels.question, labels.answer] }
+    );
+  }
+
+  pdf.paragraph(labels.disclaimer);
+  pdf.paragraph(labels.privacy);
+
+  return pdf.toBytes();
+}
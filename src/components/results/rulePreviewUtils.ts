@@ -0,0 +1,89 @@
+/**
+ * Rule Change Preview Utilities
+ *
+ * Helpers for comparing results under current rules with results under the
+ * rules in effect on a later date
+ */
+
+import type { EligibilityResults, EligibilityStatus } from './types';
+
+export interface RuleChangeComparisonRow {
+  programId: string;
+  programName: string;
+  currentStatus?: EligibilityStatus;
+  previewStatus?: EligibilityStatus;
+  changed: boolean;
+}
+
+/**
+ * Start of the next federal fiscal year (October 1)
+ *
+ * SNAP income limits, deductions and resource limits change on this date
+ * each year.
+ *
+ * @example
+ * ```typescript
+ * getNextFiscalYearStart(new Date(2025, 5, 15)); // 2025-10-01
+ * getNextFiscalYearStart(new Date(2025, 9, 1)); // 2026-10-01
+ * ```
+ */
+export function getNextFiscalYearStart(from: Date = new Date()): Date {
+  const year = from.getMonth() >= 9 ? from.getFullYear() + 1 : from.getFullYear();
+  return new Date(year, 9, 1);
+}
+
+/**
+ * Format a date for an `<input type="date">` value (local time)
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse an `<input type="date">` value as local midnight
+ *
+ * Returns undefined for empty or invalid input.
+ */
+export function fromDateInputValue(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {return undefined;}
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function getStatusByProgram(results: EligibilityResults): Map<string, { name: string; status: EligibilityStatus }> {
+  const statuses = new Map<string, { name: string; status: EligibilityStatus }>();
+  for (const result of [...results.qualified, ...results.likely, ...results.maybe, ...results.notQualified]) {
+    statuses.set(result.programId, { name: result.programName, status: result.status });
+  }
+  return statuses;
+}
+
+/**
+ * Pair each program's status under current rules with its status in the preview
+ *
+ * Programs appear in current-results order, followed by any programs only
+ * present in the preview.
+ */
+export function compareResultsByProgram(
+  current: EligibilityResults,
+  preview: EligibilityResults
+): RuleChangeComparisonRow[] {
+  const currentStatuses = getStatusByProgram(current);
+  const previewStatuses = getStatusByProgram(preview);
+  const programIds = new Set([...currentStatuses.keys(), ...previewStatuses.keys()]);
+
+  return Array.from(programIds, programId => {
+    const currentEntry = currentStatuses.get(programId);
+    const previewEntry = previewStatuses.get(programId);
+    return {
+      programId,
+      programName: currentEntry?.name ?? previewEntry?.name ?? programId,
+      currentStatus: currentEntry?.status,
+      previewStatus: previewEntry?.status,
+      changed: currentEntry?.status !== previewEntry?.status,
+    };
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * Saved Results Storage
+ *
+ * Opens the encrypted `saved_results` collection and, the first time it is
+ * opened, moves results history that earlier versions kept in plaintext
+ * localStorage into it.
+ */
+
+import { getDatabase, initializeDatabase } from '../../db/database';
+import type { SavedResultsCollection } from '../../db/database-engine/types';
+import { SavedEligibilityResultsZodSchema, type SavedEligibilityResults } from '../../db/schemas';
+
+/** localStorage key earlier versions saved results history under */
+export const LEGACY_RESULTS_STORAGE_KEY = 'eligibility_results';
+
+export interface LegacyResultsMigration {
+  /** Entries copied into the encrypted collection */
+  migrated: number;
+  /** Entries left in localStorage because they are not valid saved results */
+  skipped: number;
+}
+
+const migrations = new WeakMap<SavedResultsCollection, Promise<LegacyResultsMigration>>();
+
+/**
+ * Overwrite a localStorage entry before removing it
+ *
+ * Browsers can leave a removed value on disk until storage is compacted;
+ * overwriting it first means only filler is left behind.
+ */
+export function secureRemoveItem(key: string): void {
+  const value = localStorage.getItem(key);
+  if (value === null) {return;}
+
+  localStorage.setItem(key, '0'.repeat(value.length));
+  localStorage.removeItem(key);
+}
+
+function readLegacyEntries(stored: string): unknown[] | null {
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy plaintext localStorage results into the encrypted collection
+ *
+ * Only migrated results are removed from localStorage, overwriting them
+ * first. Entries the collection's schema rejects (for example notes longer
+ * than it allows) stay where they are rather than being lost, and storage
+ * that cannot be read as a list of results is left untouched.
+ *
+ * @example
+ * ```typescript
+ * const { migrated } = await migrateLegacySavedResults(db.saved_results);
+ * ```
+ */
+export async function migrateLegacySavedResults(
+  collection: SavedResultsCollection
+): Promise<LegacyResultsMigration> {
+  const stored = localStorage.getItem(LEGACY_RESULTS_STORAGE_KEY);
+  if (stored === null) {return { migrated: 0, skipped: 0 };}
+
+  const entries = readLegacyEntries(stored);
+  if (entries === null) {
+    console.warn('Saved results history in localStorage could not be read and was left in place');
+    return { migrated: 0, skipped: 0 };
+  }
+
+  const documents: SavedEligibilityResults[] = [];
+  const remaining: unknown[] = [];
+  for (const entry of entries) {
+    const parsed = SavedEligibilityResultsZodSchema.safeParse(entry);
+    if (parsed.success) {
+      documents.push(parsed.data);
+    } else {
+      remaining.push(entry);
+    }
+  }
+
+  if (documents.length > 0) {
+    const { error } = await collection.bulkUpsert(documents);
+    if (error.length > 0) {
+      throw new Error(`Failed to migrate ${error.length} saved results`);
+    }
+  }
+
+  secureRemoveItem(LEGACY_RESULTS_STORAGE_KEY);
+  if (remaining.length > 0) {
+    localStorage.setItem(LEGACY_RESULTS_STORAGE_KEY, JSON.stringify(remaining));
+    console.warn(`Left ${remaining.length} saved results that could not be migrated in localStorage`);
+  }
+
+  return { migrated: documents.length, skipped: remaining.length };
+}
+
+/**
+ * Open the saved results collection, migrating legacy history first
+ */
+export async function getSavedResultsCollection(): Promise<SavedResultsCollection> {
+  const db = getDatabase() ?? await initializeDatabase();
+  const collection = db.saved_results;
+
+  let migration = migrations.get(collection);
+  if (!migration) {
+    migration = migrateLegacySavedResults(collection);
+    migrations.set(collection, migration);
+    // Let a failed migration be retried on the next open
+    migration.catch(() => migrations.delete(collection));
+  }
+  await migration;
+
+  return collection;
+}
@@ -0,0 +1,216 @@
+/**
+ * Device Transfer Utilities
+ *
+ * Moves an encrypted export (see `exportEncrypted`) between devices as a
+ * sequence of QR codes or a text code that can be pasted. The payload is
+ * compressed and tagged with a digest so the receiving device can tell when
+ * it has every piece and that nothing was damaged. Nothing is sent over the
+ * network; the export stays encrypted with the user's password throughout.
+ *
+ * Text code:  BFX1:<digest>:<base64 payload>
+ * QR frame:   BFX1:<digest>:<index>/<total>:<slice of the payload>
+ */
+
+import { arrayBufferToBase64, base64ToUint8Array } from '../../utils/encryption';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TransferFrame {
+  /** Digest of the whole payload, shared by every frame of a transfer */
+  id: string;
+  /** 1-based position of the frame */
+  index: number;
+  total: number;
+  data: string;
+}
+
+/** Frames received so far for one transfer */
+export interface TransferProgress {
+  id: string;
+  total: number;
+  frames: Array<string | undefined>;
+  received: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Marks BenefitFinder transfer codes; bump when the format changes */
+export const TRANSFER_CODE_PREFIX = 'BFX1';
+
+/** Payload characters per QR frame, small enough for phone cameras to read */
+export const DEFAULT_FRAME_SIZE = 400;
+
+const DIGEST_LENGTH = 16;
+const CODE_PATTERN = /^BFX1:([0-9a-f]{16}):([A-Za-z0-9+/=]+)$/;
+const FRAME_PATTERN = /^BFX1:([0-9a-f]{16}):(\d+)\/(\d+):([A-Za-z0-9+/=]+)$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function readBlobText(blob: Blob): Promise<string> {
+  if (typeof blob.text === 'function') {
+    return await blob.text();
+  }
+  // Fallback to FileReader for environments without Blob.text() support
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transformBytes(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // Errors (e.g. corrupt input) surface when reading below
+  writer.write(bytes as Uint8Array<ArrayBuffer>).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {break;}
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+async function digest(payload: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, DIGEST_LENGTH);
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Compress an encrypted export into a text code
+ *
+ * @example
+ * ```typescript
+ * const blob = await exportEncrypted(results, password, { profileSnapshot });
+ * const code = await createTransferCode(blob);
+ * const frames = splitTransferCode(code);
+ * ```
+ */
+export async function createTransferCode(encryptedExport: Blob): Promise<string> {
+  const text = await readBlobText(encryptedExport);
+  const compressed = await transformBytes(new TextEncoder().encode(text), new CompressionStream('deflate'));
+  const payload = arrayBufferToBase64(compressed.buffer);
+  return `${TRANSFER_CODE_PREFIX}:${await digest(payload)}:${payload}`;
+}
+
+/**
+ * Split a text code into QR frame texts
+ */
+export function splitTransferCode(code: string, frameSize: number = DEFAULT_FRAME_SIZE): string[] {
+  const match = CODE_PATTERN.exec(code);
+  if (!match) {
+    throw new Error('Invalid transfer code');
+  }
+
+  const [, id, payload] = match;
+  const total = Math.ceil(payload.length / frameSize);
+  return Array.from({ length: total }, (_, index) => (
+    `${TRANSFER_CODE_PREFIX}:${id}:${index + 1}/${total}:${payload.slice(index * frameSize, (index + 1) * frameSize)}`
+  ));
+}
+
+// ============================================================================
+// RECEIVING
+// ============================================================================
+
+/**
+ * Read a scanned QR frame, or null if it is not a transfer frame
+ */
+export function parseTransferFrame(text: string): TransferFrame | null {
+  const match = FRAME_PATTERN.exec(text.trim());
+  if (!match) {return null;}
+
+  const index = Number(match[2]);
+  const total = Number(match[3]);
+  if (index < 1 || index > total) {return null;}
+
+  return { id: match[1], index, total, data: match[4] };
+}
+
+/**
+ * Record a scanned frame; frames may arrive in any order and repeat
+ *
+ * A frame from a different transfer starts over, so scanning a second
+ * sender's codes never mixes the two.
+ *
+ * @example
+ * ```typescript
+ * let progress: TransferProgress | null = null;
+ * progress = addTransferFrame(progress, scannedText);
+ * const code = getTransferCode(progress); // null until every frame is in
+ * ```
+ */
+export function addTransferFrame(progress: TransferProgress | null, text: string): TransferProgress | null {
+  const frame = parseTransferFrame(text);
+  if (!frame) {return progress;}
+
+  const current = progress?.id === frame.id && progress.total === frame.total
+    ? progress
+    : { id: frame.id, total: frame.total, frames: new Array<string | undefined>(frame.total).fill(undefined), received: 0 };
+  if (current.frames[frame.index - 1] !== undefined) {return current;}
+
+  const frames = [...current.frames];
+  frames[frame.index - 1] = frame.data;
+  return { ...current, frames, received: current.received + 1 };
+}
+
+/**
+ * The text code once every frame has been received
+ */
+export function getTransferCode(progress: TransferProgress | null): string | null {
+  if (!progress || progress.received < progress.total) {return null;}
+  return `${TRANSFER_CODE_PREFIX}:${progress.id}:${progress.frames.join('')}`;
+}
+
+/**
+ * Verify and decompress a text code back into the encrypted export
+ *
+ * The result can be passed to `importEncrypted` with the sender's password.
+ */
+export async function readTransferCode(code: string): Promise<Blob> {
+  const match = CODE_PATTERN.exec(code.replace(/\s+/g, ''));
+  if (!match) {
+    throw new Error('Invalid transfer code');
+  }
+
+  const [, id, payload] = match;
+  if (await digest(payload) !== id) {
+    throw new Error('Transfer code is incomplete or damaged');
+  }
+
+  try {
+    const bytes = await transformBytes(base64ToUint8Array(payload), new DecompressionStream('deflate'));
+    return new Blob([new TextDecoder().decode(bytes)], { type: 'application/octet-stream' });
+  } catch {
+    throw new Error('Transfer code is incomplete or damaged');
+  }
+}
@@ -2,6 +2,9 @@
  * Types for Eligibility Results Display
  */
 
+import type { RuleContentTranslations } from '../../rules/core/schema';
+import type { Counterfactual } from '../../rules/core/counterfactual';
+
 /**
  * Eligibility status for a program
  */
@@ -49,11 +52,40 @@ export interface EligibilityExplanation {
     value: string | number;
     comparison?: string;
   }[];
+  /** Smallest answer changes that would make an ineligible result eligible */
+  counterfactuals?: Counterfactual[];
+  /** Unanswered questions that would settle an undetermined result */
+  missingFields?: string[];
 
   // Allow legacy/custom shapes during migration (e.g. `reasoning`, `confidence`, `factors`, `criteria`)
   [key: string]: unknown;
 }
 
+/**
+ * One line of a benefit calculation (deductions are negative)
+ *
+ * `key` and `values` translate the label under `results.estimate.steps`.
+ */
+export interface BenefitCalculationStep {
+  label: string;
+  amount: number;
+  key?: string;
+  values?: Record<string, string | number>;
+}
+
+/**
+ * Estimated benefit amount with how it was calculated
+ */
+export interface EstimatedBenefit {
+  amount: number;
+  frequency: 'monthly' | 'annual' | 'one-time';
+  description?: string;
+  /** Translates the description under `results.estimate.descriptions` */
+  descriptionKey?: string;
+  descriptionValues?: Record<string, string | number>;
+  steps?: BenefitCalculationStep[];
+}
+
 /**
  * Program eligibility result
  */
@@ -77,17 +109,18 @@ export interface ProgramEligibilityResult {
   nextSteps: NextStep[];
 
   // Additional info
-  estimatedBenefit?: {
-    amount: number;
-    frequency: 'monthly' | 'annual' | 'one-time';
-    description?: string;
-  };
+  estimatedBenefit?: EstimatedBenefit;
+  /** Estimated amount the household pays, e.g. the Section 8 rent share */
+  estimatedCost?: EstimatedBenefit;
   applicationDeadline?: Date;
   processingTime?: string;
 
   // Metadata
   evaluatedAt: Date;
   rulesVersion: string;
+
+  /** Translated reason, documents and next steps, keyed by language */
+  translations?: RuleContentTranslations;
 }
 
 /**
@@ -0,0 +1,292 @@
+/**
+ * Rule Debugger
+ *
+ * Developer tool for stepping through a rule's evaluation trace. Shows the
+ * JSON Logic tree with the current step highlighted, variable values
+ * inline and the sub-expression that made the rule fail marked, and lets
+ * variables be edited and the rule re-run.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { debugRule, findFailingPath, inspectAllVariables } from '../../rules/core/debug';
+import { withEvaluationDate } from '../../rules/core/eligibility/evaluation/ruleEvaluation';
+import type { DebugTraceStep } from '../../rules/core/debug';
+import type { JsonLogicData, JsonLogicRule } from '../../rules/core/types';
+
+export interface DebuggableRule {
+  id: string;
+  name: string;
+  ruleLogic: unknown;
+  effectiveDate?: number;
+}
+
+interface RuleDebuggerProps {
+  /** Rules of the selected program, in evaluation order */
+  rules: DebuggableRule[];
+  /** Rule data context for the selected profile */
+  data: JsonLogicData;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {return 'undefined';}
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse an edited value: JSON where it parses (numbers, booleans, arrays),
+ * otherwise the raw text; an empty field removes the variable
+ */
+function parseValue(text: string): unknown {
+  if (text.trim() === '') {return undefined;}
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+function setVariable(data: JsonLogicData, name: string, value: unknown): JsonLogicData {
+  const keys = name.split('.');
+  const copy: Record<string, unknown> = { ...data };
+  let target = copy;
+  keys.slice(0, -1).forEach((key) => {
+    const next = target[key];
+    target[key] = typeof next === 'object' && next !== null ? { ...next } : {};
+    target = target[key] as Record<string, unknown>;
+  });
+  const last = keys[keys.length - 1];
+  if (value === undefined) {
+    delete target[last];
+  } else {
+    target[last] = value;
+  }
+  return copy;
+}
+
+function childPath(path: string, segment: string | number): string {
+  if (typeof segment === 'number') {return `${path}[${segment}]`;}
+  return path ? `${path}.${segment}` : segment;
+}
+
+// ============================================================================
+// LOGIC TREE
+// ============================================================================
+
+interface LogicNodeProps {
+  node: unknown;
+  path: string;
+  /** Steps reached so far, by path */
+  reached: Map<string, DebugTraceStep>;
+  activePath?: string;
+  failingPath?: string;
+}
+
+const LogicNode: React.FC<LogicNodeProps> = ({ node, path, reached, activePath, failingPath }) => {
+  const step = reached.get(path);
+  const isActive = step !== undefined && path === activePath;
+  const isFailing = path === failingPath;
+
+  const className = [
+    'rounded px-1',
+    isActive ? 'bg-yellow-100 ring-2 ring-yellow-400' : '',
+    isFailing ? 'border border-red-500 bg-red-50' : '',
+  ].join(' ');
+
+  const resultBadge = step && (
+    <span className="ml-2 text-xs text-gray-600" data-testid={`result-${path || 'root'}`}>
+      → {formatValue(step.result)}
+    </span>
+  );
+
+  if (node === null || typeof node !== 'object') {
+    return <span className="text-purple-700">{formatValue(node)}</span>;
+  }
+
+  if (Array.isArray(node)) {
+    return (
+      <span>
+        [{node.map((item, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && ', '}
+            <LogicNode node={item} path={childPath(path, index)} reached={reached} activePath={activePath} failingPath={failingPath} />
+          </React.Fragment>
+        ))}]
+      </span>
+    );
+  }
+
+  const [operator] = Object.keys(node);
+  const value = (node as Record<string, unknown>)[operator];
+
+  if (operator === 'var') {
+    return (
+      <span className={className} data-path={path}>
+        <span className="text-blue-700">var</span>({formatValue(value)}){resultBadge}
+      </span>
+    );
+  }
+
+  const operands = Array.isArray(value) ? value : [value];
+  return (
+    <div className={className} data-path={path}>
+      <span className="font-semibold text-gray-900">{operator}</span>
+      {resultBadge}
+      {isFailing && <span className="ml-2 text-xs font-semibold text-red-700">failing</span>}
+      <ul className="ml-4 border-l border-gray-200 pl-2">
+        {operands.map((operand, index) => (
+          <li key={index}>
+            <LogicNode
+              node={operand}
+              path={Array.isArray(value) ? childPath(childPath(path, operator), index) : childPath(path, operator)}
+              reached={reached}
+              activePath={activePath}
+              failingPath={failingPath}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// ============================================================================
+// DEBUGGER
+// ============================================================================
+
+export const RuleDebugger: React.FC<RuleDebuggerProps> = ({ rules, data }) => {
+  const [ruleId, setRuleId] = useState(rules[0]?.id);
+  const [overrides, setOverrides] = useState<Record<string, unknown>>({});
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const rule = rules.find(candidate => candidate.id === ruleId) ?? rules[0];
+
+  const runData = useMemo(() => {
+    if (!rule) {return data;}
+    return Object.entries(overrides).reduce(
+      (current, [name, value]) => setVariable(current, name, value),
+      withEvaluationDate(data, rule)
+    );
+  }, [rule, data, overrides]);
+
+  const debug = useMemo(
+    () => (rule ? debugRule(rule.ruleLogic as JsonLogicRule, runData) : undefined),
+    [rule, runData]
+  );
+  const failingPath = useMemo(() => (debug ? findFailingPath(debug.trace) : undefined), [debug]);
+  const variables = useMemo(
+    () => (rule ? inspectAllVariables(rule.ruleLogic as JsonLogicRule, runData) : []),
+    [rule, runData]
+  );
+
+  if (!rule || !debug) {
+    return <p className="text-sm text-gray-600">No rules to debug for this program.</p>;
+  }
+
+  const lastStep = Math.max(debug.trace.length - 1, 0);
+  const currentStep = debug.trace[Math.min(stepIndex, lastStep)] as DebugTraceStep | undefined;
+  const reached = new Map<string, DebugTraceStep>();
+  debug.trace.slice(0, stepIndex + 1).forEach((step) => {
+    if (step.path !== undefined) {reached.set(step.path, step);}
+  });
+
+  const selectRule = (id: string): void => {
+    setRuleId(id);
+    setOverrides({});
+    setDrafts({});
+    setStepIndex(0);
+  };
+
+  const rerun = (): void => {
+    const next = { ...overrides };
+    Object.entries(drafts).forEach(([name, text]) => {
+      next[name] = parseValue(text);
+    });
+    setOverrides(next);
+    setStepIndex(0);
+  };
+
+  const reset = (): void => {
+    setOverrides({});
+    setDrafts({});
+    setStepIndex(0);
+  };
+
+  const buttonClass = 'px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <label htmlFor="rule-debugger-rule" className="block font-medium text-gray-700 mb-1">Rule</label>
+        <select
+          id="rule-debugger-rule"
+          value={rule.id}
+          onChange={(event) => selectRule(event.target.value)}
+          className="w-full border border-gray-300 rounded px-2 py-1"
+        >
+          {rules.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div
+        className={`p-2 rounded border ${debug.result ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}
+        role="status"
+      >
+        Result: <strong>{formatValue(debug.result)}</strong>
+        {debug.errors.length > 0 && <span className="ml-2 text-red-700">{debug.errors.join('; ')}</span>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button className={buttonClass} onClick={() => setStepIndex(0)} disabled={stepIndex === 0}>First</button>
+        <button className={buttonClass} onClick={() => setStepIndex(stepIndex - 1)} disabled={stepIndex === 0}>Back</button>
+        <button className={buttonClass} onClick={() => setStepIndex(stepIndex + 1)} disabled={stepIndex >= lastStep}>Next</button>
+        <button className={buttonClass} onClick={() => setStepIndex(lastStep)} disabled={stepIndex >= lastStep}>Last</button>
+        <span className="text-gray-600">
+          Step {Math.min(stepIndex, lastStep) + 1} of {debug.trace.length}
+          {currentStep && `: ${currentStep.operation} → ${formatValue(currentStep.result)}`}
+        </span>
+      </div>
+
+      <div className="font-mono text-xs p-2 bg-gray-50 rounded border border-gray-200 overflow-x-auto">
+        <LogicNode
+          node={rule.ruleLogic}
+          path=""
+          reached={reached}
+          activePath={currentStep?.path}
+          failingPath={failingPath}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="font-medium text-gray-700 mb-1">Variables</legend>
+        <div className="space-y-1">
+          {variables.map(variable => (
+            <label key={variable.name} className="flex items-center gap-2">
+              <span className="w-48 font-mono text-xs truncate">{variable.name}</span>
+              <input
+                aria-label={variable.name}
+                value={drafts[variable.name] ?? (variable.defined ? formatValue(variable.value) : '')}
+                onChange={(event) => setDrafts({ ...drafts, [variable.name]: event.target.value })}
+                className="flex-1 border border-gray-300 rounded px-2 py-1 font-mono text-xs"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button className={buttonClass} onClick={rerun}>Re-run</button>
+          <button className={buttonClass} onClick={reset} disabled={Object.keys(overrides).length === 0 && Object.keys(drafts).length === 0}>
+            Reset
+          </button>
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+export default RuleDebugger;
@@ -0,0 +1,142 @@
+/**
+ * Rule Debugger Panel
+ *
+ * Development-only dialog that loads a program's rules and the current
+ * profile from the database and opens them in the rule debugger. Opened
+ * from the console with `openRuleDebugger()` (see useDevHelpers).
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { getDatabase } from '../../db/database';
+import { registerBenefitOperators } from '../../rules/core/evaluator';
+import {
+  buildProfileDataContext,
+  prepareDataContext,
+  selectRulesInEffect,
+} from '../../rules/core/eligibility/evaluation';
+import { RuleDebugger, type DebuggableRule } from './RuleDebugger';
+import type { UserProfile } from '../../db/schemas';
+import type { JsonLogicData } from '../../rules/core/types';
+
+interface RuleDebuggerPanelProps {
+  /** The current profile; a `profileId` loads the stored profile */
+  profile?: Record<string, unknown> | null;
+  onClose: () => void;
+}
+
+interface ProgramOption {
+  id: string;
+  name: string;
+}
+
+async function loadProfileData(profile: Record<string, unknown>): Promise<JsonLogicData> {
+  const { profileId } = profile;
+  if (typeof profileId === 'string') {
+    const stored = await getDatabase()?.user_profiles.findOne(profileId).exec();
+    if (stored) {
+      return prepareDataContext(stored);
+    }
+  }
+  return buildProfileDataContext(profile as Partial<UserProfile>);
+}
+
+async function loadProgramRules(programId: string): Promise<DebuggableRule[]> {
+  const asOf = Date.now();
+  const rules = await getDatabase()?.eligibility_rules.findRulesByProgram(programId, asOf) ?? [];
+  return selectRulesInEffect(rules, asOf)
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    .map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      ruleLogic: rule.ruleLogic,
+      effectiveDate: rule.effectiveDate,
+    }));
+}
+
+export const RuleDebuggerPanel: React.FC<RuleDebuggerPanelProps> = ({ profile, onClose }) => {
+  const [programs, setPrograms] = useState<ProgramOption[]>([]);
+  const [programId, setProgramId] = useState('');
+  const [rules, setRules] = useState<DebuggableRule[] | null>(null);
+  const [data, setData] = useState<JsonLogicData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    registerBenefitOperators();
+
+    const load = async (): Promise<void> => {
+      const docs = await getDatabase()?.benefit_programs.find({ selector: { active: true } }).exec() ?? [];
+      setPrograms(docs
+        .map(program => ({ id: program.id, name: program.name }))
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      if (profile) {
+        setData(await loadProfileData(profile));
+      }
+    };
+
+    load().catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  }, [profile]);
+
+  useEffect(() => {
+    if (!programId) {return;}
+    setRules(null);
+    loadProgramRules(programId)
+      .then(setRules)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+  }, [programId]);
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => { if (!open) {onClose();} }}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white text-gray-900 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto z-50 p-6 mx-4">
+          <Dialog.Title className="text-xl font-bold mb-2">Rule Debugger</Dialog.Title>
+          <Dialog.Description className="text-sm text-gray-600 mb-4">
+            Step through a program&apos;s rules against the current profile.
+          </Dialog.Description>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="rule-debugger-program" className="block text-sm font-medium text-gray-700 mb-1">Program</label>
+              <select
+                id="rule-debugger-program"
+                value={programId}
+                onChange={(event) => setProgramId(event.target.value)}
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                <option value="">Select a program…</option>
+                {programs.map(program => (
+                  <option key={program.id} value={program.id}>{program.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {!profile && (
+              <p className="text-sm text-gray-600">Complete the questionnaire to debug rules against a profile.</p>
+            )}
+
+            {programId && data && rules && (
+              <RuleDebugger key={programId} rules={rules} data={data} />
+            )}
+          </div>
+
+          <div className="flex justify-end mt-6">
+            <Dialog.Close asChild>
+              <button className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 min-h-[44px]">
+                Close
+              </button>
+            </Dialog.Close>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
+
+export default RuleDebuggerPanel;
@@ -0,0 +1,262 @@
+/**
+ * Rule Package Import Component
+ *
+ * UI for importing rule package files. Shows who signed the package before
+ * import, refuses packages that changed after signing, and imports unsigned
+ * or untrusted packages only after the user accepts a warning.
+ *
+ * Development only: opened from the console with `openRulePackageImport()`
+ * (see useDevHelpers).
+ */
+
+import React, { useState, useRef } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import {
+  importRulePackage,
+  verifyRulePackageSignature,
+  type PackageSignatureVerification,
+  type RuleImportResult,
+  type RulePackage,
+} from '../../rules';
+import { useI18n } from '../../i18n/hooks';
+
+interface RulePackageImportProps {
+  onImport?: (result: RuleImportResult) => void;
+  trigger?: React.ReactNode;
+  /** Controlled open state; no trigger button is rendered when set */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const readFileText = (file: File): Promise<string> => {
+  if (typeof file.text === 'function') {return file.text();}
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+};
+
+export const RulePackageImport: React.FC<RulePackageImportProps> = ({
+  onImport,
+  trigger,
+  open,
+  onOpenChange,
+}) => {
+  const { t } = useI18n();
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const isOpen = open ?? uncontrolledOpen;
+  const [packageData, setPackageData] = useState<RulePackage | null>(null);
+  const [verification, setVerification] = useState<PackageSignatureVerification | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<RuleImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleReset = (): void => {
+    setPackageData(null);
+    setVerification(null);
+    setAcknowledged(false);
+    setImportError(null);
+    setImportResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean): void => {
+    setUncontrolledOpen(nextOpen);
+    onOpenChange?.(nextOpen);
+    if (!nextOpen) {handleReset();}
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    if (!file) {return;}
+
+    setPackageData(null);
+    setVerification(null);
+    setAcknowledged(false);
+    setImportError(null);
+    setImportResult(null);
+
+    try {
+      const parsed = JSON.parse(await readFileText(file)) as RulePackage;
+      setPackageData(parsed);
+      setVerification(await verifyRulePackageSignature(parsed));
+    } catch {
+      setImportError(t('rulePackage.import.readError'));
+    }
+  };
+
+  const needsAcknowledgement = verification?.status === 'unsigned' || verification?.status === 'untrusted';
+  const canImport = Boolean(packageData) &&
+    verification !== null &&
+    verification.status !== 'invalid' &&
+    (!needsAcknowledgement || acknowledged);
+
+  const handleImport = async (): Promise<void> => {
+    if (!packageData || !canImport) {return;}
+
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      // A signature is only waived once the user has accepted the warning
+      const result = await importRulePackage(packageData, { requireSignature: !acknowledged });
+      setImportResult(result);
+      onImport?.(result);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : t('rulePackage.import.failed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderVerification = (): React.ReactNode => {
+    if (!verification) {return null;}
+
+    switch (verification.status) {
+      case 'verified':
+        return (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg" role="status">
+            <p className="text-sm font-semibold text-green-800">{t('rulePackage.import.verified')}</p>
+            <p className="text-sm text-green-700">
+              {t('rulePackage.import.signedBy', { signer: verification.signer })}
+            </p>
+          </div>
+        );
+      case 'invalid':
+        return (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            <p className="text-sm font-semibold text-red-800">{t('rulePackage.import.invalid')}</p>
+            <p className="text-sm text-red-700">{t('rulePackage.import.invalidDetail')}</p>
+          </div>
+        );
+      case 'unsigned':
+      case 'untrusted':
+        return (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg" role="alert">
+            <p className="text-sm font-semibold text-amber-800">
+              {verification.status === 'unsigned'
+                ? t('rulePackage.import.unsigned')
+                : t('rulePackage.import.untrusted', { keyId: verification.keyId ?? '' })}
+            </p>
+            <p className="text-sm text-amber-700 mb-2">{t('rulePackage.import.unverifiedDetail')}</p>
+            <label className="flex items-start gap-2 text-sm text-amber-900">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(event) => setAcknowledged(event.target.checked)}
+                className="mt-0.5"
+              />
+              {t('rulePackage.import.acknowledge')}
+            </label>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      {open === undefined && (
+        <Dialog.Trigger asChild>
+          {trigger ?? (
+            <button className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors w-full sm:w-auto min-h-[44px] touch-manipulation">
+              <span className="whitespace-nowrap">{t('rulePackage.import.trigger')}</span>
+            </button>
+          )}
+        </Dialog.Trigger>
+      )}
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40" />
+        <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto z-50 p-6 mx-4">
+          <Dialog.Title className="text-xl font-bold mb-4">
+            {t('rulePackage.import.title')}
+          </Dialog.Title>
+          <Dialog.Description className="text-sm text-gray-600 mb-4">
+            {t('rulePackage.import.description')}
+          </Dialog.Description>
+
+          <div className="space-y-4 mb-6">
+            <div>
+              <label htmlFor="rule-package-file" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('rulePackage.import.fileLabel')}
+              </label>
+              <input
+                id="rule-package-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={(event) => void handleFileSelect(event)}
+                className="block w-full text-sm text-gray-500
+                  file:mr-4 file:py-2 file:px-4
+                  file:rounded-lg file:border-0
+                  file:text-sm file:font-semibold
+                  file:bg-blue-50 file:text-blue-700
+                  hover:file:bg-blue-100
+                  cursor-pointer"
+              />
+            </div>
+
+            {renderVerification()}
+
+            {importResult && (
+              <div
+                className={`p-3 rounded-lg border ${importResult.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}
+                role="status"
+              >
+                <p className="text-sm font-semibold">
+                  {importResult.success
+                    ? t('rulePackage.import.imported', { count: importResult.imported })
+                    : t('rulePackage.import.failed')}
+                </p>
+                {importResult.errors.length > 0 && (
+                  <ul className="mt-1 text-sm text-red-700 list-disc list-inside">
+                    {importResult.errors.map((error, index) => (
+                      <li key={`${error.ruleId ?? 'package'}-${index}`}>{error.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {importError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-700">{importError}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
+            <Dialog.Close asChild>
+              <button
+                disabled={isImporting}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:bg-gray-100 min-h-[44px] touch-manipulation"
+              >
+                {importResult ? t('rulePackage.import.close') : t('rulePackage.import.cancel')}
+              </button>
+            </Dialog.Close>
+            {!importResult && (
+              <button
+                onClick={() => void handleImport()}
+                disabled={isImporting || !canImport}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed min-h-[44px] touch-manipulation"
+              >
+                {isImporting ? t('rulePackage.import.importing') : t('rulePackage.import.submit')}
+              </button>
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
+
+export default RulePackageImport;
@@ -0,0 +1,86 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect } from 'vitest';
+import { RuleDebugger } from '../RuleDebugger';
+
+const rules = [
+  {
+    id: 'snap-income',
+    name: 'Gross Income Test',
+    ruleLogic: {
+      and: [
+        { '>=': [{ var: 'householdSize' }, 1] },
+        { '<=': [{ var: 'householdIncome' }, 2000] },
+      ],
+    },
+  },
+  {
+    id: 'snap-citizenship',
+    name: 'Citizenship',
+    ruleLogic: { '==': [{ var: 'citizenship' }, 'us_citizen'] },
+  },
+];
+
+const data = { householdSize: 2, householdIncome: 2500, citizenship: 'us_citizen' };
+
+const pathOf = (path: string): HTMLElement => {
+  const element = document.querySelector<HTMLElement>(`[data-path="${path}"]`);
+  if (!element) {throw new Error(`No node at ${path}`);}
+  return element;
+};
+
+describe('RuleDebugger', () => {
+  it('steps forward and backward through the trace', async () => {
+    const user = userEvent.setup();
+    render(<RuleDebugger rules={rules} data={data} />);
+
+    expect(screen.getByText(/Step 1 of 5/)).toBeInTheDocument();
+    expect(pathOf('and[0].>=[0]').className).toContain('bg-yellow-100');
+    expect(screen.getByTestId('result-and[0].>=[0]')).toHaveTextContent('→ 2');
+    expect(screen.queryByTestId('result-and[1]')).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Last' }));
+    expect(screen.getByText(/Step 5 of 5/)).toBeInTheDocument();
+    expect(screen.getByTestId('result-and[1].<=[0]')).toHaveTextContent('→ 2500');
+    expect(screen.getByTestId('result-root')).toHaveTextContent('→ false');
+
+    await user.click(screen.getByRole('button', { name: 'Back' }));
+    expect(screen.getByText(/Step 4 of 5/)).toBeInTheDocument();
+    expect(pathOf('and[1]').className).toContain('bg-yellow-100');
+  });
+
+  it('marks the failing sub-expression', () => {
+    render(<RuleDebugger rules={rules} data={data} />);
+
+    expect(pathOf('and[1]').className).toContain('border-red-500');
+    expect(pathOf('and[0]').className).not.toContain('border-red-500');
+  });
+
+  it('re-runs the rule with an edited variable', async () => {
+    const user = userEvent.setup();
+    render(<RuleDebugger rules={rules} data={data} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Result: false');
+
+    const income = screen.getByLabelText('householdIncome');
+    await user.clear(income);
+    await user.type(income, '1500');
+    await user.click(screen.getByRole('button', { name: 'Re-run' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Result: true');
+    expect(document.querySelector('.border-red-500')).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: 'Reset' }));
+    expect(screen.getByRole('status')).toHaveTextContent('Result: false');
+  });
+
+  it('switches between the program\'s rules', async () => {
+    const user = userEvent.setup();
+    render(<RuleDebugger rules={rules} data={data} />);
+
+    await user.selectOptions(screen.getByLabelText('Rule'), 'snap-citizenship');
+
+    expect(screen.getByRole('status')).toHaveTextContent('Result: true');
+    expect(screen.getByLabelText('citizenship')).toHaveValue('"us_citizen"');
+  });
+});
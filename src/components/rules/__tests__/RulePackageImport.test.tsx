@@ -0,0 +1,90 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RulePackageImport } from '../RulePackageImport';
+import { importRulePackage, verifyRulePackageSignature } from '../../../rules';
+
+vi.mock('../../../rules', () => ({
+  importRulePackage: vi.fn(),
+  verifyRulePackageSignature: vi.fn(),
+}));
+
+const packageFile = (): File =>
+  new File(
+    [JSON.stringify({ metadata: { id: 'package-1', name: 'Update' }, rules: [], signature: 'abc', signatureKeyId: 'key-1' })],
+    'package.json',
+    { type: 'application/json' }
+  );
+
+const importedResult = {
+  success: true,
+  imported: 3,
+  skipped: 0,
+  failed: 0,
+  errors: [],
+  warnings: [],
+};
+
+describe('RulePackageImport', () => {
+  beforeEach(() => {
+    vi.mocked(importRulePackage).mockReset().mockResolvedValue(importedResult);
+    vi.mocked(verifyRulePackageSignature).mockReset();
+  });
+
+  const selectFile = async (): Promise<ReturnType<typeof userEvent.setup>> => {
+    const user = userEvent.setup();
+    render(<RulePackageImport />);
+    await user.click(screen.getByRole('button', { name: 'Trigger' }));
+    await user.upload(screen.getByLabelText('FileLabel'), packageFile());
+    return user;
+  };
+
+  it('shows the signer and imports a verified package', async () => {
+    vi.mocked(verifyRulePackageSignature).mockResolvedValue({
+      status: 'verified',
+      keyId: 'key-1',
+      signer: 'BenefitFinder Maintainers',
+    });
+    const user = await selectFile();
+
+    await waitFor(() => {
+      expect(screen.getByText('SignedBy')).toBeInTheDocument();
+    });
+    await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Imported')).toBeInTheDocument();
+    });
+    expect(importRulePackage).toHaveBeenCalledWith(
+      expect.objectContaining({ signatureKeyId: 'key-1' }),
+      { requireSignature: true }
+    );
+  });
+
+  it('refuses a package whose signature does not match', async () => {
+    vi.mocked(verifyRulePackageSignature).mockResolvedValue({ status: 'invalid', keyId: 'key-1', signer: 'BenefitFinder Maintainers' });
+    await selectFile();
+
+    await waitFor(() => {
+      expect(screen.getByText('InvalidDetail')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: 'Submit' })).toBeDisabled();
+  });
+
+  it('requires confirmation before importing an unsigned package', async () => {
+    vi.mocked(verifyRulePackageSignature).mockResolvedValue({ status: 'unsigned' });
+    const user = await selectFile();
+
+    await waitFor(() => {
+      expect(screen.getByText('Unsigned')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: 'Submit' })).toBeDisabled();
+
+    await user.click(screen.getByRole('checkbox', { name: 'Acknowledge' }));
+    await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => {
+      expect(importRulePackage).toHaveBeenCalledWith(expect.anything(), { requireSignature: false });
+    });
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Rule Management Components
+ */
+
+export { RulePackageImport } from './RulePackageImport';
+export { RuleDebugger } from './RuleDebugger';
+export { RuleDebuggerPanel } from './RuleDebuggerPanel';
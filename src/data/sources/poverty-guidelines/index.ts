@@ -0,0 +1,14 @@
+/**
+ * HHS Poverty Guideline Tables
+ *
+ * One JSON file per guideline year. To add a new year, drop the published
+ * table in this directory and list it below.
+ */
+
+import guidelines2024 from './2024.json';
+import guidelines2025 from './2025.json';
+
+export const POVERTY_GUIDELINE_SOURCES = [
+  guidelines2024,
+  guidelines2025,
+];
@@ -16,6 +16,8 @@ import {
   getDatabaseStats,
   clearUserData,
 } from '../utils';
+import { eligibilityResultsCollection } from '../collections';
+import type { EligibilityResult } from '../schemas';
 
 describe('Database Collections', () => {
   beforeAll(async () => {
@@ -241,6 +243,27 @@ describe('Database Collections', () => {
       // expect(result.isEligible()).toBe(true);
       // expect(result.isExpired()).toBe(false);
     });
+
+    it('should move a saved Section 8 rent share from estimatedBenefit to estimatedCost', () => {
+      const migrate = eligibilityResultsCollection.migrationStrategies?.[3] as (doc: EligibilityResult) => EligibilityResult;
+      const base = {
+        id: 'result-1',
+        userProfileId: 'profile-1',
+        ruleId: 'rule-1',
+        eligible: true,
+        confidence: 90,
+        evaluatedAt: 0,
+      };
+      const estimate = { amount: 576, frequency: 'monthly' as const, currency: 'USD' as const };
+
+      const section8 = migrate({ ...base, programId: 'section8-federal', estimatedBenefit: estimate });
+      expect(section8.estimatedBenefit).toBeUndefined();
+      expect(section8.estimatedCost).toEqual({ ...estimate, kind: 'cost' });
+
+      const snap = migrate({ ...base, programId: 'snap-federal', estimatedBenefit: estimate });
+      expect(snap.estimatedBenefit).toEqual(estimate);
+      expect(snap.estimatedCost).toBeUndefined();
+    });
   });
 
   describe('Statistics', () => {
@@ -4,22 +4,28 @@
  * Defines all collections with their schemas and methods.
  */
 
-import type { RxCollectionCreator, RxDocument, RxCollection } from 'rxdb';
+import type { RxCollectionCreator, RxDocument, RxCollection, RxQuery } from 'rxdb';
 import {
   userProfileSchema,
   benefitProgramSchema,
   eligibilityRuleSchema,
   eligibilityResultSchema,
+  savedEligibilityResultsSchema,
+  applicationSchema,
   appSettingSchema,
   type UserProfile,
   type BenefitProgram,
   type EligibilityRule,
   type EligibilityResult,
+  type SavedEligibilityResults,
+  type Application,
   type AppSetting,
   type UserProfileDocument,
   type BenefitProgramDocument,
   type EligibilityRuleDocument,
   type EligibilityResultDocument,
+  type SavedEligibilityResultsDocument,
+  type ApplicationDocument,
   type AppSettingDocument,
 } from './schemas';
 
@@ -28,6 +34,24 @@ import {
  */
 export const userProfilesCollection: RxCollectionCreator<UserProfile> = {
   schema: userProfileSchema,
+  migrationStrategies: {
+    /**
+     * v1 adds the optional householdMembers array; existing profiles are valid as-is
+     */
+    1: (oldDoc: UserProfile): UserProfile => oldDoc,
+    /**
+     * v2 adds the optional monthly expense fields used for SNAP deductions
+     */
+    2: (oldDoc: UserProfile): UserProfile => oldDoc,
+    /**
+     * v3 adds the optional assets object used for resource tests
+     */
+    3: (oldDoc: UserProfile): UserProfile => oldDoc,
+    /**
+     * v4 adds the optional incomeSourceEntries array
+     */
+    4: (oldDoc: UserProfile): UserProfile => oldDoc,
+  },
   methods: {
     /**
      * Get full name
@@ -125,28 +149,42 @@ export const benefitProgramsCollection: RxCollectionCreator<BenefitProgram> = {
  */
 export const eligibilityRulesCollection: RxCollectionCreator<EligibilityRule> = {
   schema: eligibilityRuleSchema,
+  migrationStrategies: {
+    /**
+     * v1 adds the optional supersedes field; existing rules are valid as-is
+     */
+    1: (oldDoc: EligibilityRule): EligibilityRule => oldDoc,
+    /**
+     * v2 adds the optional translations field; existing rules are valid as-is
+     */
+    2: (oldDoc: EligibilityRule): EligibilityRule => oldDoc,
+  },
   methods: {
     /**
-     * Check if rule is currently valid
+     * Check if rule is valid on a date (defaults to now)
      */
-    isValid(this: RxDocument<EligibilityRule>): boolean {
+    isValid(this: RxDocument<EligibilityRule>, asOf: number = Date.now()): boolean {
       if (!this.active) {return false;}
 
-      const now = Date.now();
-
-      if (this.effectiveDate && now < this.effectiveDate) {return false;}
-      if (this.expirationDate && now > this.expirationDate) {return false;}
+      if (this.effectiveDate && asOf < this.effectiveDate) {return false;}
+      if (this.expirationDate && asOf > this.expirationDate) {return false;}
 
       return true;
     },
   },
   statics: {
     /**
-     * Find active rules for a program
+     * Find active rules for a program that have taken effect by a date
+     * (defaults to now)
+     *
+     * Expiration and superseded rules are resolved by the caller; see
+     * `selectRulesInEffect`.
      */
-    findRulesByProgram(this: RxCollection<EligibilityRule>, programId: string): Promise<EligibilityRuleDocument[]> {
-      const now = Date.now();
-
+    findRulesByProgram(
+      this: RxCollection<EligibilityRule>,
+      programId: string,
+      asOf: number = Date.now()
+    ): Promise<EligibilityRuleDocument[]> {
       console.log(`🔍 [RULE QUERY DEBUG] findRulesByProgram: Searching for rules with programId: ${programId}`);
 
       // First, let's see what rules exist in the database at all
@@ -169,7 +207,7 @@ export const eligibilityRulesCollection: RxCollectionCreator<EligibilityRule> =
             active: true,
             $or: [
               { effectiveDate: { $exists: false } },
-              { effectiveDate: { $lte: now } },
+              { effectiveDate: { $lte: asOf } },
             ],
           },
         }).exec().then(rules => {
@@ -183,7 +221,7 @@ export const eligibilityRulesCollection: RxCollectionCreator<EligibilityRule> =
             console.log(`🔍 [RULE QUERY DEBUG] No rules found. Debugging query conditions:`);
             console.log(`  - programId: ${programId}`);
             console.log(`  - active: true`);
-            console.log(`  - effectiveDate: ${now} or not set`);
+            console.log(`  - effectiveDate: ${asOf} or not set`);
 
             // Check each condition separately
             const byProgram = allRules.filter(r => r.programId === programId);
@@ -192,7 +230,7 @@ export const eligibilityRulesCollection: RxCollectionCreator<EligibilityRule> =
             const byActive = byProgram.filter(r => r.active);
             console.log(`  - Rules that are active: ${byActive.length}`);
 
-            const byEffective = byActive.filter(r => !r.effectiveDate || r.effectiveDate <= now);
+            const byEffective = byActive.filter(r => !r.effectiveDate || r.effectiveDate <= asOf);
             console.log(`  - Rules that are effective: ${byEffective.length}`);
           }
 
@@ -208,6 +246,27 @@ export const eligibilityRulesCollection: RxCollectionCreator<EligibilityRule> =
  */
 export const eligibilityResultsCollection: RxCollectionCreator<EligibilityResult> = {
   schema: eligibilityResultSchema,
+  migrationStrategies: {
+    /**
+     * v1 adds optional calculation steps to estimatedBenefit; existing results are valid as-is
+     */
+    1: (oldDoc: EligibilityResult): EligibilityResult => oldDoc,
+    /**
+     * v2 adds optional translation keys to estimatedBenefit; results without them show the English labels
+     */
+    2: (oldDoc: EligibilityResult): EligibilityResult => oldDoc,
+    /**
+     * v3 adds estimatedCost, for amounts the household pays; the Section 8
+     * tenant rent share moves there from estimatedBenefit
+     */
+    3: (oldDoc: EligibilityResult): EligibilityResult => {
+      if (oldDoc.programId !== 'section8-federal' || !oldDoc.estimatedBenefit) {
+        return oldDoc;
+      }
+      const { estimatedBenefit, ...rest } = oldDoc;
+      return { ...rest, estimatedCost: { ...estimatedBenefit, kind: 'cost' } };
+    },
+  },
   methods: {
     /**
      * Check if result is expired
@@ -278,6 +337,48 @@ export const eligibilityResultsCollection: RxCollectionCreator<EligibilityResult
   },
 };
 
+/**
+ * Saved Results Collection
+ */
+export const savedResultsCollection: RxCollectionCreator<SavedEligibilityResults> = {
+  schema: savedEligibilityResultsSchema,
+  statics: {
+    /**
+     * Query all saved results, newest first
+     *
+     * Subscribe to `.$` for a history that updates as results are saved or removed.
+     */
+    findHistory(
+      this: RxCollection<SavedEligibilityResults>
+    ): RxQuery<SavedEligibilityResults, SavedEligibilityResultsDocument[]> {
+      return this.find({
+        sort: [{ evaluatedAt: 'desc' }],
+      });
+    },
+  },
+};
+
+/**
+ * Applications Collection
+ */
+export const applicationsCollection: RxCollectionCreator<Application> = {
+  schema: applicationSchema,
+  statics: {
+    /**
+     * Query all tracked applications, most recently updated first
+     *
+     * Subscribe to `.$` to follow applications as they are tracked, updated or removed.
+     */
+    findTracked(
+      this: RxCollection<Application>
+    ): RxQuery<Application, ApplicationDocument[]> {
+      return this.find({
+        sort: [{ updatedAt: 'desc' }],
+      });
+    },
+  },
+};
+
 /**
  * App Settings Collection
  */
@@ -342,6 +443,8 @@ export const collections = {
   benefit_programs: benefitProgramsCollection,
   eligibility_rules: eligibilityRulesCollection,
   eligibility_results: eligibilityResultsCollection,
+  saved_results: savedResultsCollection,
+  applications: applicationsCollection,
   app_settings: appSettingsCollection,
 };
 
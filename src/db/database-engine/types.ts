@@ -1,17 +1,21 @@
 /**
  * Database type definitions
  */
-import type { RxDatabase, RxCollection } from 'rxdb';
+import type { RxDatabase, RxCollection, RxQuery } from 'rxdb';
 import type {
   UserProfile,
   BenefitProgram,
   EligibilityRule,
   EligibilityResult,
+  SavedEligibilityResults,
+  Application,
   AppSetting,
   UserProfileDocument,
   BenefitProgramDocument,
   EligibilityRuleDocument,
   EligibilityResultDocument,
+  SavedEligibilityResultsDocument,
+  ApplicationDocument,
 } from '../schemas';
 
 export interface WindowWithDevUtils extends Window {
@@ -30,7 +34,7 @@ export interface BenefitProgramsCollection extends RxCollection<BenefitProgram>
 }
 
 export interface EligibilityRulesCollection extends RxCollection<EligibilityRule> {
-  findRulesByProgram: (programId: string) => Promise<EligibilityRuleDocument[]>;
+  findRulesByProgram: (programId: string, asOf?: number) => Promise<EligibilityRuleDocument[]>;
 }
 
 export interface EligibilityResultsCollection extends RxCollection<EligibilityResult> {
@@ -39,6 +43,14 @@ export interface EligibilityResultsCollection extends RxCollection<EligibilityRe
   clearExpired: () => Promise<number>;
 }
 
+export interface SavedResultsCollection extends RxCollection<SavedEligibilityResults> {
+  findHistory: () => RxQuery<SavedEligibilityResults, SavedEligibilityResultsDocument[]>;
+}
+
+export interface ApplicationsCollection extends RxCollection<Application> {
+  findTracked: () => RxQuery<Application, ApplicationDocument[]>;
+}
+
 export interface AppSettingsCollection extends RxCollection<AppSetting> {
   findSettingByKey: (key: string) => Promise<unknown>;
   set: (key: string, value: unknown, encrypted?: boolean) => Promise<void>;
@@ -49,6 +61,8 @@ export interface BenefitFinderCollections {
   benefit_programs: BenefitProgramsCollection;
   eligibility_rules: EligibilityRulesCollection;
   eligibility_results: EligibilityResultsCollection;
+  saved_results: SavedResultsCollection;
+  applications: ApplicationsCollection;
   app_settings: AppSettingsCollection;
 }
 
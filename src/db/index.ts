@@ -82,6 +82,14 @@ export type {
   EligibilityResult,
   EligibilityResultDocument,
   EligibilityResultCollection,
+  SavedEligibilityResults,
+  SavedEligibilityResultsDocument,
+  SavedEligibilityResultsCollection,
+  Application,
+  ApplicationEvent,
+  ApplicationStatus,
+  ApplicationDocument,
+  ApplicationCollection,
   AppSetting,
   AppSettingDocument,
   AppSettingCollection,
@@ -93,6 +101,9 @@ export {
   BenefitProgramZodSchema,
   EligibilityRuleZodSchema,
   EligibilityResultZodSchema,
+  SavedEligibilityResultsZodSchema,
+  ApplicationZodSchema,
   AppSettingZodSchema,
+  APPLICATION_STATUS_VALUES,
 } from './schemas';
 
@@ -9,6 +9,7 @@
  * - Programs: Benefit program definitions
  * - Rules: Eligibility rule sets (JSON Logic)
  * - EligibilityResults: Cached evaluation results
+ * - SavedResults: Saved results history with notes and tags
  * - AppSettings: User preferences and app state
  */
 
@@ -23,6 +24,102 @@ import type {
 // USER PROFILES SCHEMA
 // ============================================================================
 
+const CITIZENSHIP_VALUES = ['us_citizen', 'permanent_resident', 'refugee', 'asylee', 'other'] as const;
+
+const MEMBER_RELATIONSHIP_VALUES = ['self', 'spouse', 'child', 'parent', 'grandparent', 'grandchild', 'sibling', 'other'] as const;
+
+/**
+ * Zod Schema: Household Member Income
+ *
+ * Monthly income amounts for one household member, broken down by source.
+ */
+export const HouseholdMemberIncomeZodSchema = z.object({
+  wages: z.number().nonnegative().max(1000000).optional().describe('Monthly wages and salary'),
+  selfEmployment: z.number().nonnegative().max(1000000).optional().describe('Monthly net self-employment income'),
+  socialSecurity: z.number().nonnegative().max(1000000).optional().describe('Monthly Social Security retirement/survivor benefits'),
+  ssi: z.number().nonnegative().max(1000000).optional().describe('Monthly SSI payments'),
+  ssdi: z.number().nonnegative().max(1000000).optional().describe('Monthly SSDI payments'),
+  childSupport: z.number().nonnegative().max(1000000).optional().describe('Monthly child support received'),
+  unemployment: z.number().nonnegative().max(1000000).optional().describe('Monthly unemployment benefits'),
+  pension: z.number().nonnegative().max(1000000).optional().describe('Monthly pension or retirement distributions'),
+  other: z.number().nonnegative().max(1000000).optional().describe('Other monthly income'),
+});
+
+export type HouseholdMemberIncome = z.infer<typeof HouseholdMemberIncomeZodSchema>;
+
+/**
+ * Zod Schema: Household Member
+ *
+ * One person in the household. Stored as an array on the user profile.
+ */
+export const HouseholdMemberZodSchema = z.object({
+  id: z.string().min(1).max(64).describe('Member identifier (unique within the profile)'),
+  relationship: z.enum(MEMBER_RELATIONSHIP_VALUES).describe('Relationship to the applicant'),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Date of birth (YYYY-MM-DD)'),
+  age: z.number().int().nonnegative().max(130).optional().describe('Age in years (used when no date of birth)'),
+  citizenship: z.enum(CITIZENSHIP_VALUES).optional().describe('Citizenship status'),
+  hasDisability: z.boolean().optional().describe('Has disability'),
+  isBlind: z.boolean().optional().describe('Is blind'),
+  isPregnant: z.boolean().optional().describe('Is pregnant'),
+  isStudent: z.boolean().optional().describe('Is enrolled in school at least half-time'),
+  income: HouseholdMemberIncomeZodSchema.optional().describe('Monthly income by source'),
+});
+
+export type HouseholdMember = z.infer<typeof HouseholdMemberZodSchema>;
+export type HouseholdMemberRelationship = HouseholdMember['relationship'];
+
+/**
+ * Zod Schema: Household Assets
+ *
+ * Current value of household resources by category. Program-specific
+ * exclusions are applied when resource tests run.
+ */
+export const HouseholdAssetsZodSchema = z.object({
+  cash: z.number().nonnegative().max(100000000).optional().describe('Cash on hand'),
+  bankAccounts: z.number().nonnegative().max(100000000).optional().describe('Checking and savings balances'),
+  primaryVehicle: z.number().nonnegative().max(100000000).optional().describe('Value of the main vehicle used for transportation'),
+  otherVehicles: z.number().nonnegative().max(100000000).optional().describe('Combined value of other vehicles'),
+  realProperty: z.number().nonnegative().max(100000000).optional().describe('Equity in real estate other than the home'),
+  retirementAccounts: z.number().nonnegative().max(100000000).optional().describe('Retirement account balances'),
+});
+
+export type HouseholdAssets = z.infer<typeof HouseholdAssetsZodSchema>;
+
+const INCOME_SOURCE_VALUES = [
+  'employment',
+  'selfEmployment',
+  'socialSecurity',
+  'disability',
+  'pension',
+  'childSupport',
+  'alimony',
+  'unemployment',
+  'other',
+] as const;
+
+const INCOME_FREQUENCY_VALUES = ['weekly', 'biweekly', 'semimonthly', 'monthly', 'annual', 'hourly'] as const;
+
+/** Most income sources a profile can hold */
+export const MAX_INCOME_SOURCES = 50;
+
+/**
+ * Zod Schema: Income Source
+ *
+ * One household income source as entered, in its own pay frequency.
+ * Amounts are converted to monthly when the data context is built.
+ */
+export const IncomeSourceEntryZodSchema = z.object({
+  id: z.string().min(1).max(64).describe('Entry identifier (unique within the profile)'),
+  source: z.enum(INCOME_SOURCE_VALUES).describe('Kind of income'),
+  amount: z.number().nonnegative().max(10000000).describe('Gross amount per period (hourly rate for hourly pay)'),
+  frequency: z.enum(INCOME_FREQUENCY_VALUES).describe('How often the amount is received'),
+  hoursPerWeek: z.number().positive().max(168).optional().describe('Hours worked per week (hourly pay only)'),
+});
+
+export type IncomeSourceEntry = z.infer<typeof IncomeSourceEntryZodSchema>;
+export type IncomeSourceType = IncomeSourceEntry['source'];
+export type IncomeFrequency = IncomeSourceEntry['frequency'];
+
 /**
  * Zod Schema: User Profile
  *
@@ -50,7 +147,7 @@ export const UserProfileZodSchema = z.object({
   county: z.string().max(100).optional().describe('County name'),
 
   // Citizenship & Status (will be encrypted)
-  citizenship: z.enum(['us_citizen', 'permanent_resident', 'refugee', 'asylee', 'other']).optional().describe('Citizenship status'),
+  citizenship: z.enum(CITIZENSHIP_VALUES).optional().describe('Citizenship status'),
   employmentStatus: z.enum(['employed', 'unemployed', 'self_employed', 'retired', 'disabled', 'student']).optional().describe('Employment status'),
 
   // Additional Demographics (will be encrypted)
@@ -59,6 +156,22 @@ export const UserProfileZodSchema = z.object({
   isPregnant: z.boolean().optional().describe('Is pregnant'),
   hasChildren: z.boolean().optional().describe('Has children under 18'),
 
+  // Household Members (will be encrypted)
+  householdMembers: z.array(HouseholdMemberZodSchema).max(50).optional().describe('Individual household members'),
+
+  // Income Sources (will be encrypted)
+  incomeSourceEntries: z.array(IncomeSourceEntryZodSchema).max(MAX_INCOME_SOURCES).optional().describe('Household income by source and pay frequency'),
+
+  // Monthly Expenses (will be encrypted)
+  shelterCosts: z.number().nonnegative().max(1000000).optional().describe('Monthly rent or mortgage, property tax and insurance'),
+  paysHeatingCooling: z.boolean().optional().describe('Pays for heating or cooling separately from rent'),
+  dependentCareCosts: z.number().nonnegative().max(1000000).optional().describe('Monthly child or dependent care costs'),
+  childSupportPaid: z.number().nonnegative().max(1000000).optional().describe('Monthly legally obligated child support paid'),
+  medicalExpenses: z.number().nonnegative().max(1000000).optional().describe('Monthly medical expenses of elderly or disabled members'),
+
+  // Resources (will be encrypted)
+  assets: HouseholdAssetsZodSchema.optional().describe('Household assets by category'),
+
   // Metadata (not encrypted)
   createdAt: z.number().positive().describe('Creation timestamp'),
   updatedAt: z.number().positive().describe('Last update timestamp'),
@@ -70,7 +183,7 @@ export type UserProfile = z.infer<typeof UserProfileZodSchema>;
 
 // RxDB JSON Schema
 export const userProfileSchema: RxJsonSchema<UserProfile> = {
-  version: 0,
+  version: 4,
   primaryKey: 'id',
   type: 'object',
   properties: {
@@ -84,12 +197,76 @@ export const userProfileSchema: RxJsonSchema<UserProfile> = {
     state: { type: 'string', maxLength: 2 },
     zipCode: { type: 'string', maxLength: 10 },
     county: { type: 'string', maxLength: 100 },
-    citizenship: { type: 'string', enum: ['us_citizen', 'permanent_resident', 'refugee', 'asylee', 'other'] },
+    citizenship: { type: 'string', enum: [...CITIZENSHIP_VALUES] },
     employmentStatus: { type: 'string', enum: ['employed', 'unemployed', 'self_employed', 'retired', 'disabled', 'student'] },
     hasDisability: { type: 'boolean' },
     isVeteran: { type: 'boolean' },
     isPregnant: { type: 'boolean' },
     hasChildren: { type: 'boolean' },
+    householdMembers: {
+      type: 'array',
+      maxItems: 50,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', maxLength: 64 },
+          relationship: { type: 'string', enum: [...MEMBER_RELATIONSHIP_VALUES] },
+          dateOfBirth: { type: 'string' },
+          age: { type: 'number', minimum: 0, maximum: 130, multipleOf: 1 },
+          citizenship: { type: 'string', enum: [...CITIZENSHIP_VALUES] },
+          hasDisability: { type: 'boolean' },
+          isBlind: { type: 'boolean' },
+          isPregnant: { type: 'boolean' },
+          isStudent: { type: 'boolean' },
+          income: {
+            type: 'object',
+            properties: {
+              wages: { type: 'number', minimum: 0 },
+              selfEmployment: { type: 'number', minimum: 0 },
+              socialSecurity: { type: 'number', minimum: 0 },
+              ssi: { type: 'number', minimum: 0 },
+              ssdi: { type: 'number', minimum: 0 },
+              childSupport: { type: 'number', minimum: 0 },
+              unemployment: { type: 'number', minimum: 0 },
+              pension: { type: 'number', minimum: 0 },
+              other: { type: 'number', minimum: 0 },
+            },
+          },
+        },
+        required: ['id', 'relationship'],
+      },
+    },
+    incomeSourceEntries: {
+      type: 'array',
+      maxItems: MAX_INCOME_SOURCES,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', maxLength: 64 },
+          source: { type: 'string', enum: [...INCOME_SOURCE_VALUES] },
+          amount: { type: 'number', minimum: 0, maximum: 10000000 },
+          frequency: { type: 'string', enum: [...INCOME_FREQUENCY_VALUES] },
+          hoursPerWeek: { type: 'number', minimum: 0, maximum: 168 },
+        },
+        required: ['id', 'source', 'amount', 'frequency'],
+      },
+    },
+    shelterCosts: { type: 'number', minimum: 0, maximum: 1000000 },
+    paysHeatingCooling: { type: 'boolean' },
+    dependentCareCosts: { type: 'number', minimum: 0, maximum: 1000000 },
+    childSupportPaid: { type: 'number', minimum: 0, maximum: 1000000 },
+    medicalExpenses: { type: 'number', minimum: 0, maximum: 1000000 },
+    assets: {
+      type: 'object',
+      properties: {
+        cash: { type: 'number', minimum: 0 },
+        bankAccounts: { type: 'number', minimum: 0 },
+        primaryVehicle: { type: 'number', minimum: 0 },
+        otherVehicles: { type: 'number', minimum: 0 },
+        realProperty: { type: 'number', minimum: 0 },
+        retirementAccounts: { type: 'number', minimum: 0 },
+      },
+    },
     createdAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
     updatedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
     lastAccessedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
@@ -111,6 +288,14 @@ export const userProfileSchema: RxJsonSchema<UserProfile> = {
     'isVeteran',
     'isPregnant',
     'hasChildren',
+    'householdMembers',
+    'incomeSourceEntries',
+    'shelterCosts',
+    'paysHeatingCooling',
+    'dependentCareCosts',
+    'childSupportPaid',
+    'medicalExpenses',
+    'assets',
   ],
   indexes: ['createdAt', 'updatedAt'],
 };
@@ -253,10 +438,23 @@ export const EligibilityRuleZodSchema = z.object({
   // Required Fields (what data is needed to evaluate)
   requiredFields: z.array(z.string().max(100)).optional().describe('Profile fields needed for evaluation'),
 
+  // Translated explanation, documents and next steps, keyed by language code
+  translations: z.record(z.object({
+    explanation: z.string().max(2000).optional(),
+    requiredDocuments: z.array(z.object({
+      name: z.string().max(200).optional(),
+      description: z.string().max(500).optional(),
+      where: z.string().max(500).optional(),
+      alternatives: z.array(z.string().max(200)).optional(),
+    })).optional(),
+    nextSteps: z.array(z.string().max(500)).optional(),
+  })).optional().describe('Rule content in other languages'),
+
   // Version & Dates
   version: z.string().max(50).describe('Rule version (e.g., "2024.1")'),
   effectiveDate: z.number().positive().optional().describe('When rule becomes active'),
   expirationDate: z.number().positive().optional().describe('When rule expires'),
+  supersedes: z.string().max(128).optional().describe('Rule ID this rule replaces once effective'),
 
   // Source & Attribution
   source: z.string().max(500).optional().describe('Official source URL'),
@@ -286,7 +484,7 @@ export const EligibilityRuleZodSchema = z.object({
 export type EligibilityRule = z.infer<typeof EligibilityRuleZodSchema>;
 
 export const eligibilityRuleSchema: RxJsonSchema<EligibilityRule> = {
-  version: 0,
+  version: 2,
   primaryKey: 'id',
   type: 'object',
   properties: {
@@ -299,9 +497,11 @@ export const eligibilityRuleSchema: RxJsonSchema<EligibilityRule> = {
     explanation: { type: 'string', maxLength: 2000 },
     requiredDocuments: { type: 'array', items: { type: 'string', maxLength: 200 } },
     requiredFields: { type: 'array', items: { type: 'string', maxLength: 100 } },
+    translations: { type: 'object' },
     version: { type: 'string', maxLength: 50 },
     effectiveDate: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
     expirationDate: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+    supersedes: { type: 'string', maxLength: 128 },
     source: { type: 'string', maxLength: 500 },
     sourceDocument: { type: 'string', maxLength: 200 },
     legalReference: { type: 'string', maxLength: 200 },
@@ -340,6 +540,31 @@ export type EligibilityRuleCollection = RxCollection<EligibilityRule>;
 // ELIGIBILITY RESULTS SCHEMA
 // ============================================================================
 
+/**
+ * Zod Schema: Estimated amount
+ *
+ * A benefit the household would receive or, with `kind: 'cost'`, an amount
+ * it would pay, with the calculation steps behind it.
+ */
+export const EstimatedAmountZodSchema = z.object({
+  amount: z.number().optional(),
+  minAmount: z.number().optional(),
+  maxAmount: z.number().optional(),
+  frequency: z.enum(['one_time', 'monthly', 'quarterly', 'annual']),
+  kind: z.enum(['benefit', 'cost']).optional(),
+  description: z.string().max(500).optional(),
+  currency: z.literal('USD'),
+  calculation: z.string().max(500).optional(),
+  descriptionKey: z.string().max(100).optional(),
+  descriptionValues: z.record(z.union([z.string(), z.number()])).optional(),
+  steps: z.array(z.object({
+    label: z.string().max(200),
+    amount: z.number(),
+    key: z.string().max(100).optional(),
+    values: z.record(z.union([z.string(), z.number()])).optional(),
+  })).optional(),
+});
+
 /**
  * Zod Schema: Eligibility Result
  *
@@ -393,16 +618,9 @@ export const EligibilityResultZodSchema = z.object({
     helpText: z.string().max(500).optional(),
   })).optional().describe('Documents needed for application'),
 
-  // Benefit Estimate (encrypted)
-  estimatedBenefit: z.object({
-    amount: z.number().optional(),
-    minAmount: z.number().optional(),
-    maxAmount: z.number().optional(),
-    frequency: z.enum(['one_time', 'monthly', 'quarterly', 'annual']),
-    description: z.string().max(500).optional(),
-    currency: z.literal('USD'),
-    calculation: z.string().max(500).optional(),
-  }).optional().describe('Estimated benefit amount'),
+  // Estimates (encrypted)
+  estimatedBenefit: EstimatedAmountZodSchema.optional().describe('Estimated benefit amount'),
+  estimatedCost: EstimatedAmountZodSchema.optional().describe('Estimated amount the household pays, such as Section 8 rent'),
 
   // Evaluation Metadata
   ruleVersion: z.string().max(50).optional().describe('Version of rule used'),
@@ -416,8 +634,38 @@ export const EligibilityResultZodSchema = z.object({
 
 export type EligibilityResult = z.infer<typeof EligibilityResultZodSchema>;
 
+const ESTIMATED_AMOUNT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number' },
+    minAmount: { type: 'number' },
+    maxAmount: { type: 'number' },
+    frequency: { type: 'string', enum: ['one_time', 'monthly', 'quarterly', 'annual'] },
+    kind: { type: 'string', enum: ['benefit', 'cost'] },
+    description: { type: 'string', maxLength: 500 },
+    currency: { type: 'string', enum: ['USD'] },
+    calculation: { type: 'string', maxLength: 500 },
+    descriptionKey: { type: 'string', maxLength: 100 },
+    descriptionValues: { type: 'object' },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string', maxLength: 200 },
+          amount: { type: 'number' },
+          key: { type: 'string', maxLength: 100 },
+          values: { type: 'object' },
+        },
+        required: ['label', 'amount'],
+      },
+    },
+  },
+  required: ['frequency', 'currency'],
+} as const;
+
 export const eligibilityResultSchema: RxJsonSchema<EligibilityResult> = {
-  version: 0,
+  version: 3,
   primaryKey: 'id',
   type: 'object',
   properties: {
@@ -474,19 +722,8 @@ export const eligibilityResultSchema: RxJsonSchema<EligibilityResult> = {
         required: ['document', 'required'],
       },
     },
-    estimatedBenefit: {
-      type: 'object',
-      properties: {
-        amount: { type: 'number' },
-        minAmount: { type: 'number' },
-        maxAmount: { type: 'number' },
-        frequency: { type: 'string', enum: ['one_time', 'monthly', 'quarterly', 'annual'] },
-        description: { type: 'string', maxLength: 500 },
-        currency: { type: 'string', enum: ['USD'] },
-        calculation: { type: 'string', maxLength: 500 },
-      },
-      required: ['frequency', 'currency'],
-    },
+    estimatedBenefit: ESTIMATED_AMOUNT_JSON_SCHEMA,
+    estimatedCost: ESTIMATED_AMOUNT_JSON_SCHEMA,
     ruleVersion: { type: 'string', maxLength: 50 },
     evaluatedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
     expiresAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
@@ -505,6 +742,7 @@ export const eligibilityResultSchema: RxJsonSchema<EligibilityResult> = {
     'nextSteps',
     'requiredDocuments',
     'estimatedBenefit',
+    'estimatedCost',
   ],
   indexes: ['userProfileId', 'programId', 'evaluatedAt', ['userProfileId', 'programId']],
 };
@@ -512,6 +750,216 @@ export const eligibilityResultSchema: RxJsonSchema<EligibilityResult> = {
 export type EligibilityResultDocument = RxDocument<EligibilityResult>;
 export type EligibilityResultCollection = RxCollection<EligibilityResult>;
 
+// ============================================================================
+// SAVED RESULTS SCHEMA
+// ============================================================================
+
+/**
+ * Zod Schema: Saved Eligibility Results
+ *
+ * A complete results screen the user saved to their history, with the
+ * profile it was evaluated against and their own notes and tags.
+ * Results, profile, notes and tags are encrypted.
+ */
+export const SavedEligibilityResultsZodSchema = z.object({
+  // Primary Key
+  id: z.string().min(1).max(128).describe('Unique saved results identifier'),
+
+  // User identification (encrypted)
+  userId: z.string().max(128).optional().describe('Who the results belong to'),
+  userName: z.string().max(200).optional().describe('Display name for the results owner'),
+
+  // Results (encrypted)
+  results: z.object({
+    qualified: z.array(z.any()),
+    likely: z.array(z.any()),
+    maybe: z.array(z.any()),
+    notQualified: z.array(z.any()),
+    totalPrograms: z.number(),
+    evaluatedAt: z.string(),
+  }).describe('Program results by status'),
+
+  // Profile used for evaluation (encrypted)
+  profileSnapshot: z.record(z.unknown()).optional().describe('Questionnaire answers at evaluation time'),
+
+  // Location (encrypted)
+  state: z.string().max(50).optional().describe('State the results were evaluated for'),
+
+  // Metadata (not encrypted)
+  evaluatedAt: z.number().positive().describe('Evaluation timestamp'),
+  programsEvaluated: z.array(z.string()).describe('Program IDs included in the results'),
+  qualifiedCount: z.number().nonnegative().describe('Number of qualified programs'),
+
+  // User annotations (encrypted)
+  tags: z.array(z.string().max(100)).optional().describe('User-defined tags'),
+  notes: z.string().max(5000).optional().describe('User notes'),
+
+  // Timestamps
+  createdAt: z.number().positive().describe('Creation timestamp'),
+  updatedAt: z.number().positive().describe('Last update timestamp'),
+});
+
+export type SavedEligibilityResults = z.infer<typeof SavedEligibilityResultsZodSchema>;
+
+export const savedEligibilityResultsSchema: RxJsonSchema<SavedEligibilityResults> = {
+  version: 0,
+  primaryKey: 'id',
+  type: 'object',
+  properties: {
+    id: { type: 'string', maxLength: 128 },
+    userId: { type: 'string', maxLength: 128 },
+    userName: { type: 'string', maxLength: 200 },
+    results: {
+      type: 'object',
+      properties: {
+        qualified: { type: 'array', items: { type: 'object' } },
+        likely: { type: 'array', items: { type: 'object' } },
+        maybe: { type: 'array', items: { type: 'object' } },
+        notQualified: { type: 'array', items: { type: 'object' } },
+        totalPrograms: { type: 'number' },
+        evaluatedAt: { type: 'string' },
+      },
+      required: ['qualified', 'likely', 'maybe', 'notQualified', 'totalPrograms', 'evaluatedAt'],
+    },
+    profileSnapshot: { type: 'object' },
+    state: { type: 'string', maxLength: 50 },
+    evaluatedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+    programsEvaluated: { type: 'array', items: { type: 'string' } },
+    qualifiedCount: { type: 'number', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string', maxLength: 100 } },
+    notes: { type: 'string', maxLength: 5000 },
+    createdAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+    updatedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+  },
+  required: ['id', 'results', 'evaluatedAt', 'programsEvaluated', 'qualifiedCount', 'createdAt', 'updatedAt'],
+  encrypted: [
+    'userId',
+    'userName',
+    'results',
+    'profileSnapshot',
+    'state',
+    'tags',
+    'notes',
+  ],
+  indexes: ['evaluatedAt'],
+};
+
+export type SavedEligibilityResultsDocument = RxDocument<SavedEligibilityResults>;
+export type SavedEligibilityResultsCollection = RxCollection<SavedEligibilityResults>;
+
+// ============================================================================
+// APPLICATIONS SCHEMA
+// ============================================================================
+
+/**
+ * Application statuses, in the order an application usually moves through them
+ */
+export const APPLICATION_STATUS_VALUES = [
+  'planning',
+  'submitted',
+  'interview-scheduled',
+  'approved',
+  'denied',
+  'renewal-due',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUS_VALUES[number];
+
+/**
+ * Zod Schema: Application
+ *
+ * The user's own record of applying for a program they saw in their results:
+ * its status, key dates, case number and a timeline of status changes.
+ * One application is tracked per program; a renewal continues the same timeline.
+ * Everything except the program ID and timestamps is encrypted.
+ */
+export const ApplicationZodSchema = z.object({
+  // Primary Key
+  programId: z.string().min(1).max(128).describe('Program being applied for'),
+
+  // Program details (encrypted)
+  programName: z.string().min(1).max(200).describe('Program name at the time tracking started'),
+  jurisdiction: z.string().max(50).optional().describe('Where the application is made'),
+
+  // Progress (encrypted)
+  status: z.enum(APPLICATION_STATUS_VALUES).describe('Current application status'),
+  caseNumber: z.string().max(100).optional().describe('Case or application number from the agency'),
+  dates: z.object({
+    deadlineAt: z.number().positive().optional().describe('Date to submit the application by'),
+    submittedAt: z.number().positive().optional().describe('Date the application was submitted'),
+    interviewAt: z.number().positive().optional().describe('Scheduled interview date'),
+    decisionAt: z.number().positive().optional().describe('Date the decision was received'),
+    renewalDueAt: z.number().positive().optional().describe('Date benefits must be renewed by'),
+  }).describe('Key application dates'),
+  events: z.array(z.object({
+    id: z.string().min(1).max(128),
+    status: z.enum(APPLICATION_STATUS_VALUES),
+    date: z.number().positive(),
+    note: z.string().max(1000).optional(),
+  })).describe('Status changes, oldest first'),
+  notes: z.string().max(5000).optional().describe('User notes'),
+
+  // Timestamps
+  createdAt: z.number().positive().describe('Creation timestamp'),
+  updatedAt: z.number().positive().describe('Last update timestamp'),
+});
+
+export type Application = z.infer<typeof ApplicationZodSchema>;
+export type ApplicationEvent = Application['events'][number];
+
+export const applicationSchema: RxJsonSchema<Application> = {
+  version: 0,
+  primaryKey: 'programId',
+  type: 'object',
+  properties: {
+    programId: { type: 'string', maxLength: 128 },
+    programName: { type: 'string', maxLength: 200 },
+    jurisdiction: { type: 'string', maxLength: 50 },
+    status: { type: 'string', enum: [...APPLICATION_STATUS_VALUES] },
+    caseNumber: { type: 'string', maxLength: 100 },
+    dates: {
+      type: 'object',
+      properties: {
+        deadlineAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+        submittedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+        interviewAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+        decisionAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+        renewalDueAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+      },
+    },
+    events: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', maxLength: 128 },
+          status: { type: 'string', enum: [...APPLICATION_STATUS_VALUES] },
+          date: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+          note: { type: 'string', maxLength: 1000 },
+        },
+        required: ['id', 'status', 'date'],
+      },
+    },
+    notes: { type: 'string', maxLength: 5000 },
+    createdAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+    updatedAt: { type: 'number', minimum: 0, maximum: 8640000000000000, multipleOf: 1 },
+  },
+  required: ['programId', 'programName', 'status', 'dates', 'events', 'createdAt', 'updatedAt'],
+  encrypted: [
+    'programName',
+    'jurisdiction',
+    'status',
+    'caseNumber',
+    'dates',
+    'events',
+    'notes',
+  ],
+  indexes: ['updatedAt'],
+};
+
+export type ApplicationDocument = RxDocument<Application>;
+export type ApplicationCollection = RxCollection<Application>;
+
 // ============================================================================
 // APP SETTINGS SCHEMA
 // ============================================================================
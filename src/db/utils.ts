@@ -119,6 +119,14 @@ export async function createUserProfile(
     isVeteran: data.isVeteran,
     isPregnant: data.isPregnant,
     hasChildren: data.hasChildren,
+    householdMembers: data.householdMembers,
+    incomeSourceEntries: data.incomeSourceEntries,
+    shelterCosts: data.shelterCosts,
+    paysHeatingCooling: data.paysHeatingCooling,
+    dependentCareCosts: data.dependentCareCosts,
+    childSupportPaid: data.childSupportPaid,
+    medicalExpenses: data.medicalExpenses,
+    assets: data.assets,
     lastAccessedAt: data.lastAccessedAt,
     createdAt: Date.now(),
     updatedAt: Date.now(),
@@ -593,7 +601,8 @@ export function saveEligibilityResult(
 /**
  * Clear all user data (for privacy/reset)
  *
- * This will delete all user profiles and eligibility results.
+ * This will delete all user profiles, eligibility results, saved results and
+ * tracked applications.
  * Benefit programs and rules are preserved.
  */
 export async function clearUserData(): Promise<void> {
@@ -610,6 +619,18 @@ export async function clearUserData(): Promise<void> {
   for (const result of results) {
     await result.remove();
   }
+
+  // Remove saved results history
+  const savedResults = await db.saved_results.find().exec();
+  for (const saved of savedResults) {
+    await saved.remove();
+  }
+
+  // Remove tracked applications
+  const applications = await db.applications.find().exec();
+  for (const application of applications) {
+    await application.remove();
+  }
 }
 
 /**
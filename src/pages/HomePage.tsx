@@ -7,6 +7,7 @@
 import React from 'react';
 import { Button } from '../components/Button';
 import { HelpTooltip } from '../components/onboarding/HelpTooltip';
+import { UpcomingApplications } from '../components/applications/UpcomingApplications';
 import { LanguageSwitcher as _LanguageSwitcher } from '../components/LanguageSwitcher';
 import { ThemeSwitcher as _ThemeSwitcher } from '../components/ThemeSwitcher';
 import { TextSizeControls as _TextSizeControls } from '../components/TextSizeControls';
@@ -72,6 +73,10 @@ export const HomePage: React.FC<HomePageProps> = ({
         )}
       </div>
 
+      <div className="max-w-3xl mx-auto px-4">
+        <UpcomingApplications onViewApplications={hasResults ? onViewResults : undefined} />
+      </div>
+
       <div className="mt-8 sm:mt-12 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8 px-4">
         <div
           className="bg-white/80 dark:bg-secondary-800/80 backdrop-blur-sm rounded-xl p-6 sm:p-8 shadow-lg border border-secondary-200 dark:border-secondary-700 hover:shadow-xl transition-all duration-300 hover:-translate-y-1"
@@ -11,7 +11,9 @@ import {
   LazyProgramCard,
   LazyResultsExport,
   LazyResultsImport,
-  LazyQuestionnaireAnswersCard
+  LazyQuestionnaireAnswersCard,
+  LazyRuleChangePreview,
+  LazyBenefitCliffChart
 } from '../components/LazyComponents';
 import { useI18n } from '../i18n/hooks';
 import type { EligibilityResults } from '../components/results';
@@ -22,6 +24,8 @@ interface ResultsPageProps {
   isProcessingResults: boolean;
   onNewAssessment: () => void;
   onImportResults: (results: EligibilityResults) => Promise<void>;
+  /** Re-evaluate under the rules in effect on a date; the preview is hidden when omitted */
+  onPreviewRuleChanges?: (asOfDate: Date) => Promise<EligibilityResults>;
 }
 
 export const ResultsPage: React.FC<ResultsPageProps> = ({
@@ -30,6 +34,7 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
   isProcessingResults,
   onNewAssessment,
   onImportResults,
+  onPreviewRuleChanges,
 }) => {
   const { t } = useI18n();
 
@@ -115,6 +120,10 @@ export const ResultsPage: React.FC<ResultsPageProps> = ({
       </div>
 
       <LazyResultsSummary results={currentResults} />
+      {onPreviewRuleChanges && (
+        <LazyRuleChangePreview currentResults={currentResults} onPreview={onPreviewRuleChanges} />
+      )}
+      <LazyBenefitCliffChart userProfile={currentUserProfile ?? undefined} />
       <LazyQuestionnaireAnswersCard />
 
       <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6 px-4 sm:px-0">
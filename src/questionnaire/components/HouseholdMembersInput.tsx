@@ -0,0 +1,259 @@
+/**
+ * Household Members Input Component
+ *
+ * Repeating editor for household members: relationship, age, status flags
+ * and monthly income by source. Produces a `HouseholdMember[]` value.
+ */
+
+import React, { useId } from 'react';
+import type { HouseholdMember, HouseholdMemberIncome } from '../../db/schemas';
+import type { HouseholdMembersInputProps } from './types';
+import { resolveQuestionString } from '../resolveQuestionText';
+
+const RELATIONSHIP_OPTIONS: Array<{ value: HouseholdMember['relationship']; label: string }> = [
+  { value: 'self', label: 'Me (applicant)' },
+  { value: 'spouse', label: 'Spouse or partner' },
+  { value: 'child', label: 'Child' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'grandparent', label: 'Grandparent' },
+  { value: 'grandchild', label: 'Grandchild' },
+  { value: 'sibling', label: 'Brother or sister' },
+  { value: 'other', label: 'Other' },
+];
+
+const CITIZENSHIP_OPTIONS: Array<{ value: NonNullable<HouseholdMember['citizenship']>; label: string }> = [
+  { value: 'us_citizen', label: 'U.S. Citizen' },
+  { value: 'permanent_resident', label: 'Permanent Resident' },
+  { value: 'refugee', label: 'Refugee' },
+  { value: 'asylee', label: 'Asylee' },
+  { value: 'other', label: 'Other Status' },
+];
+
+const FLAG_OPTIONS: Array<{ key: 'hasDisability' | 'isBlind' | 'isPregnant' | 'isStudent'; label: string }> = [
+  { key: 'hasDisability', label: 'Has a disability' },
+  { key: 'isBlind', label: 'Is blind' },
+  { key: 'isPregnant', label: 'Is pregnant' },
+  { key: 'isStudent', label: 'Is a student' },
+];
+
+const INCOME_FIELDS: Array<{ key: keyof HouseholdMemberIncome; label: string }> = [
+  { key: 'wages', label: 'Wages / salary' },
+  { key: 'selfEmployment', label: 'Self-employment (net)' },
+  { key: 'socialSecurity', label: 'Social Security' },
+  { key: 'ssi', label: 'SSI' },
+  { key: 'ssdi', label: 'SSDI' },
+  { key: 'childSupport', label: 'Child support received' },
+  { key: 'unemployment', label: 'Unemployment' },
+  { key: 'pension', label: 'Pension / retirement' },
+  { key: 'other', label: 'Other income' },
+];
+
+function createMember(existing: HouseholdMember[]): HouseholdMember {
+  const hasSelf = existing.some(member => member.relationship === 'self');
+  let next = existing.length + 1;
+  while (existing.some(member => member.id === `member-${next}`)) {
+    next++;
+  }
+  return {
+    id: `member-${next}`,
+    relationship: hasSelf ? 'child' : 'self',
+  };
+}
+
+export const HouseholdMembersInput: React.FC<HouseholdMembersInputProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  className = '',
+  maxMembers,
+}) => {
+  const id = useId();
+  const descId = `${id}-desc`;
+  const errorId = `${id}-error`;
+  const members = value ?? [];
+  const limit = maxMembers ?? question.max ?? 20;
+
+  const errors: string[] = (() => {
+    if (Array.isArray(error)) { return error; }
+    if (error) { return [error]; }
+    return [];
+  })();
+
+  const updateMember = (memberId: string, changes: Partial<HouseholdMember>): void => {
+    onChange(members.map(member => (member.id === memberId ? { ...member, ...changes } : member)));
+  };
+
+  const updateIncome = (member: HouseholdMember, key: keyof HouseholdMemberIncome, raw: string): void => {
+    const income: HouseholdMemberIncome = { ...member.income };
+    const amount = raw === '' ? undefined : Number(raw);
+    if (amount === undefined || !Number.isFinite(amount) || amount < 0) {
+      delete income[key];
+    } else {
+      income[key] = amount;
+    }
+    updateMember(member.id, { income: Object.keys(income).length > 0 ? income : undefined });
+  };
+
+  const handleAdd = (): void => {
+    if (members.length >= limit) { return; }
+    onChange([...members, createMember(members)]);
+  };
+
+  const handleRemove = (memberId: string): void => {
+    const remaining = members.filter(member => member.id !== memberId);
+    onChange(remaining.length > 0 ? remaining : null);
+  };
+
+  return (
+    <div className={`question-household-members ${className}`}>
+      <p id={id} className="question-label block">
+        {resolveQuestionString(question.text)}
+        {question.required && (
+          <span className="required-indicator" aria-label="required">
+            *
+          </span>
+        )}
+      </p>
+
+      {question.description && resolveQuestionString(question.description) && (
+        <p id={descId} className="question-description">
+          {resolveQuestionString(question.description)}
+        </p>
+      )}
+
+      <ul className="space-y-4 mt-3" aria-labelledby={id}>
+        {members.map((member, index) => {
+          const memberLabel = `Person ${index + 1}`;
+          return (
+            <li
+              key={member.id}
+              className="p-4 border rounded-md border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-800"
+            >
+              <fieldset disabled={disabled}>
+                <legend className="font-medium text-secondary-900 dark:text-secondary-100">
+                  {memberLabel}
+                </legend>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-2">
+                  <label className="block text-sm">
+                    Relationship
+                    <select
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={member.relationship}
+                      onChange={(e) => updateMember(member.id, { relationship: e.target.value as HouseholdMember['relationship'] })}
+                    >
+                      {RELATIONSHIP_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="block text-sm">
+                    Age
+                    <input
+                      type="number"
+                      min={0}
+                      max={130}
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={member.age ?? ''}
+                      onChange={(e) => {
+                        const age = e.target.value === '' ? undefined : Math.floor(Number(e.target.value));
+                        updateMember(member.id, { age: age !== undefined && Number.isFinite(age) && age >= 0 ? age : undefined });
+                      }}
+                    />
+                  </label>
+
+                  <label className="block text-sm">
+                    Citizenship
+                    <select
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={member.citizenship ?? ''}
+                      onChange={(e) => updateMember(member.id, {
+                        citizenship: e.target.value === '' ? undefined : e.target.value as HouseholdMember['citizenship'],
+                      })}
+                    >
+                      <option value="">Not sure</option>
+                      {CITIZENSHIP_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <div className="flex flex-wrap gap-4 mt-3">
+                  {FLAG_OPTIONS.map(flag => (
+                    <label key={flag.key} className="inline-flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={member[flag.key] === true}
+                        onChange={(e) => updateMember(member.id, { [flag.key]: e.target.checked })}
+                      />
+                      {flag.label}
+                    </label>
+                  ))}
+                </div>
+
+                <details className="mt-3">
+                  <summary className="cursor-pointer text-sm font-medium">
+                    Monthly income for {memberLabel.toLowerCase()}
+                  </summary>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-2">
+                    {INCOME_FIELDS.map(field => (
+                      <label key={field.key} className="block text-sm">
+                        {field.label}
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          inputMode="decimal"
+                          className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                          value={member.income?.[field.key] ?? ''}
+                          onChange={(e) => updateIncome(member, field.key, e.target.value)}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </details>
+
+                <button
+                  type="button"
+                  className="mt-3 text-sm text-red-600 dark:text-red-400 underline"
+                  onClick={() => handleRemove(member.id)}
+                >
+                  Remove {memberLabel.toLowerCase()}
+                </button>
+              </fieldset>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={disabled || members.length >= limit}
+        className="mt-4 px-4 py-2 rounded-md border-2 border-blue-500 text-blue-600 dark:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add a person
+      </button>
+
+      {question.helpText && errors.length === 0 && (
+        <p className="question-help-text">
+          {question.helpText}
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <div id={errorId} role="alert" aria-live="polite" className="question-error-text">
+          {errors.map((err, idx) => (
+            <p key={idx}>{err}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+HouseholdMembersInput.displayName = 'HouseholdMembersInput';
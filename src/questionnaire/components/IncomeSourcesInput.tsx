@@ -0,0 +1,230 @@
+/**
+ * Income Sources Input Component
+ *
+ * Repeating editor for household income: source, amount and how often it
+ * is received (hourly pay also asks for hours per week). Shows the monthly
+ * equivalent of each entry. Produces an `IncomeSourceEntry[]` value.
+ */
+
+import React, { useId } from 'react';
+import { MAX_INCOME_SOURCES } from '../../db/schemas';
+import type { IncomeFrequency, IncomeSourceEntry, IncomeSourceType } from '../../db/schemas';
+import type { IncomeSourcesInputProps } from './types';
+import { resolveQuestionString } from '../resolveQuestionText';
+import { getMonthlyIncome } from '../../utils/incomeSources';
+
+const SOURCE_OPTIONS: Array<{ value: IncomeSourceType; label: string }> = [
+  { value: 'employment', label: 'Job (wages or salary)' },
+  { value: 'selfEmployment', label: 'Self-employment (net)' },
+  { value: 'socialSecurity', label: 'Social Security' },
+  { value: 'disability', label: 'Disability benefits (SSI, SSDI)' },
+  { value: 'pension', label: 'Pension / retirement' },
+  { value: 'childSupport', label: 'Child support received' },
+  { value: 'alimony', label: 'Alimony received' },
+  { value: 'unemployment', label: 'Unemployment' },
+  { value: 'other', label: 'Other income' },
+];
+
+const FREQUENCY_OPTIONS: Array<{ value: IncomeFrequency; label: string }> = [
+  { value: 'hourly', label: 'Per hour' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'semimonthly', label: 'Twice a month' },
+  { value: 'monthly', label: 'Every month' },
+  { value: 'annual', label: 'Every year' },
+];
+
+const monthlyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+function createEntry(existing: IncomeSourceEntry[]): IncomeSourceEntry {
+  let next = existing.length + 1;
+  while (existing.some(entry => entry.id === `income-${next}`)) {
+    next++;
+  }
+  return {
+    id: `income-${next}`,
+    source: existing.length === 0 ? 'employment' : 'other',
+    amount: 0,
+    frequency: 'monthly',
+  };
+}
+
+export const IncomeSourcesInput: React.FC<IncomeSourcesInputProps> = ({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  className = '',
+  maxSources,
+}) => {
+  const id = useId();
+  const descId = `${id}-desc`;
+  const errorId = `${id}-error`;
+  const entries = value ?? [];
+  const limit = maxSources ?? question.max ?? MAX_INCOME_SOURCES;
+
+  const errors: string[] = (() => {
+    if (Array.isArray(error)) { return error; }
+    if (error) { return [error]; }
+    return [];
+  })();
+
+  const updateEntry = (entryId: string, changes: Partial<IncomeSourceEntry>): void => {
+    onChange(entries.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateFrequency = (entry: IncomeSourceEntry, frequency: IncomeFrequency): void => {
+    updateEntry(entry.id, {
+      frequency,
+      hoursPerWeek: frequency === 'hourly' ? entry.hoursPerWeek : undefined,
+    });
+  };
+
+  const toNumber = (raw: string): number | undefined => {
+    const parsed = raw === '' ? undefined : Number(raw);
+    return parsed !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  const handleAdd = (): void => {
+    if (entries.length >= limit) { return; }
+    onChange([...entries, createEntry(entries)]);
+  };
+
+  const handleRemove = (entryId: string): void => {
+    const remaining = entries.filter(entry => entry.id !== entryId);
+    onChange(remaining.length > 0 ? remaining : null);
+  };
+
+  return (
+    <div className={`question-income-sources ${className}`}>
+      <p id={id} className="question-label block">
+        {resolveQuestionString(question.text)}
+        {question.required && (
+          <span className="required-indicator" aria-label="required">
+            *
+          </span>
+        )}
+      </p>
+
+      {question.description && resolveQuestionString(question.description) && (
+        <p id={descId} className="question-description">
+          {resolveQuestionString(question.description)}
+        </p>
+      )}
+
+      <ul className="space-y-4 mt-3" aria-labelledby={id}>
+        {entries.map((entry, index) => {
+          const entryLabel = `Income ${index + 1}`;
+          const isHourly = entry.frequency === 'hourly';
+          return (
+            <li
+              key={entry.id}
+              className="p-4 border rounded-md border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-800"
+            >
+              <fieldset disabled={disabled}>
+                <legend className="font-medium text-secondary-900 dark:text-secondary-100">
+                  {entryLabel}
+                </legend>
+
+                <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mt-2">
+                  <label className="block text-sm">
+                    Source
+                    <select
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={entry.source}
+                      onChange={(e) => updateEntry(entry.id, { source: e.target.value as IncomeSourceType })}
+                    >
+                      {SOURCE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="block text-sm">
+                    {isHourly ? 'Hourly rate' : 'Amount before taxes'}
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      inputMode="decimal"
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={entry.amount === 0 ? '' : entry.amount}
+                      onChange={(e) => updateEntry(entry.id, { amount: toNumber(e.target.value) ?? 0 })}
+                    />
+                  </label>
+
+                  <label className="block text-sm">
+                    How often
+                    <select
+                      className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                      value={entry.frequency}
+                      onChange={(e) => updateFrequency(entry, e.target.value as IncomeFrequency)}
+                    >
+                      {FREQUENCY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  {isHourly && (
+                    <label className="block text-sm">
+                      Hours per week
+                      <input
+                        type="number"
+                        min={0}
+                        max={168}
+                        step="0.5"
+                        inputMode="decimal"
+                        className="question-input mt-1 w-full px-3 py-2 border rounded-md"
+                        value={entry.hoursPerWeek ?? ''}
+                        onChange={(e) => updateEntry(entry.id, { hoursPerWeek: toNumber(e.target.value) })}
+                      />
+                    </label>
+                  )}
+                </div>
+
+                <p className="mt-2 text-sm text-secondary-600 dark:text-secondary-300" aria-live="polite">
+                  About {monthlyFormatter.format(getMonthlyIncome(entry))} per month
+                </p>
+
+                <button
+                  type="button"
+                  className="mt-3 text-sm text-red-600 dark:text-red-400 underline"
+                  onClick={() => handleRemove(entry.id)}
+                >
+                  Remove {entryLabel.toLowerCase()}
+                </button>
+              </fieldset>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={disabled || entries.length >= limit}
+        className="mt-4 px-4 py-2 rounded-md border-2 border-blue-500 text-blue-600 dark:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add income
+      </button>
+
+      {question.helpText && errors.length === 0 && (
+        <p className="question-help-text">
+          {question.helpText}
+        </p>
+      )}
+
+      {errors.length > 0 && (
+        <div id={errorId} role="alert" aria-live="polite" className="question-error-text">
+          {errors.map((err, idx) => (
+            <p key={idx}>{err}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+IncomeSourcesInput.displayName = 'IncomeSourcesInput';
@@ -11,6 +11,8 @@ export { CurrencyInput } from './CurrencyInput';
 export { SelectInput } from './SelectInput';
 export { MultiSelectInput } from './MultiSelectInput';
 export { DateInput } from './DateInput';
+export { HouseholdMembersInput } from './HouseholdMembersInput';
+export { IncomeSourcesInput } from './IncomeSourcesInput';
 export { EnhancedStateSelector } from './EnhancedStateSelector';
 export { EnhancedCountySelector } from './EnhancedCountySelector';
 
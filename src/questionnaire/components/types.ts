@@ -5,6 +5,7 @@
  */
 
 import type { QuestionDefinition, QuestionOption } from '../types';
+import type { HouseholdMember, IncomeSourceEntry } from '../../db/schemas';
 
 /**
  * Base props for all question components
@@ -127,6 +128,22 @@ export interface BooleanInputProps extends BaseQuestionProps<boolean> {
   };
 }
 
+/**
+ * Household members props (repeating member editor)
+ */
+export interface HouseholdMembersInputProps extends BaseQuestionProps<HouseholdMember[]> {
+  /** Maximum number of members */
+  maxMembers?: number;
+}
+
+/**
+ * Income sources props (repeating income editor)
+ */
+export interface IncomeSourcesInputProps extends BaseQuestionProps<IncomeSourceEntry[]> {
+  /** Maximum number of income sources */
+  maxSources?: number;
+}
+
 /**
  * Validation result
  */
@@ -6,6 +6,7 @@
 
 import type { QuestionFlow, FlowNode } from './types';
 import { getCaliforniaQuestions } from './california-questions';
+import { MAX_INCOME_SOURCES } from '../db/schemas';
 
 // Constants for flow node IDs
 const DISABILITY_STATUS_ID = 'disability-status';
@@ -81,6 +82,22 @@ const nodes: FlowNode[] = [
       max: 20,
       defaultValue: 1
     },
+    nextId: 'household-members'
+  },
+  {
+    id: 'household-members',
+    question: {
+      id: 'household-members',
+      text: 'Tell us about the people in your household',
+      description: 'Add each person, including yourself. Ages, pregnancy, disability and income for each person help us check programs that look at individual household members.',
+      inputType: 'household-members',
+      fieldName: 'householdMembers',
+      required: false,
+      max: 20,
+      showIf: { '>': [{ var: 'householdSize' }, 1] },
+      helpText: 'Optional. If you skip this, we will use the household totals you enter next.'
+    },
+    previousId: 'household-size',
     nextId: 'income-period'
   },
   {
@@ -94,11 +111,28 @@ const nodes: FlowNode[] = [
       required: true,
       options: [
         { value: 'monthly', label: 'Monthly income (e.g., $3,000/month)' },
-        { value: 'annual', label: 'Annual income (e.g., $36,000/year)' }
+        { value: 'annual', label: 'Annual income (e.g., $36,000/year)' },
+        { value: 'sources', label: 'By source and pay frequency (e.g., $15/hour, $800 every two weeks)' }
       ],
       defaultValue: 'monthly'
     },
-    previousId: 'household-size',
+    previousId: 'household-members',
+    nextId: 'income-sources'
+  },
+  {
+    id: 'income-sources',
+    question: {
+      id: 'income-sources',
+      text: 'What income does your household receive?',
+      description: 'Add each source of income before taxes and how often it is paid. We convert everything to a monthly amount.',
+      inputType: 'income-sources',
+      fieldName: 'incomeSourceEntries',
+      required: true,
+      max: MAX_INCOME_SOURCES,
+      showIf: { '==': [{ var: 'incomePeriod' }, 'sources'] },
+      helpText: 'Work income (wages, self-employment) and other income (benefits, support) are counted separately by some programs.'
+    },
+    previousId: 'income-period',
     nextId: 'income'
   },
   {
@@ -147,9 +181,10 @@ const nodes: FlowNode[] = [
       inputType: 'currency',
       fieldName: 'householdIncome',
       required: true,
-      min: 0
+      min: 0,
+      showIf: { '!=': [{ var: 'incomePeriod' }, 'sources'] }
     },
-    previousId: 'income-period',
+    previousId: 'income-sources',
     nextId: 'date-of-birth'
   },
   {
@@ -326,6 +361,189 @@ const nodes: FlowNode[] = [
       required: true
     },
     previousId: 'student-status',
+    nextId: 'shelter-costs'
+  },
+
+  // Household Expenses (SNAP net income deductions)
+  {
+    id: 'shelter-costs',
+    question: {
+      id: 'shelter-costs',
+      text: 'How much does your household pay for housing each month?',
+      description: 'Include rent or mortgage payments, property taxes and homeowner\'s insurance. Do not include utilities.',
+      inputType: 'currency',
+      fieldName: 'shelterCosts',
+      required: false,
+      min: 0,
+      helpText: 'High housing costs can increase the SNAP benefit you qualify for. Enter 0 if you do not pay for housing.'
+    },
+    previousId: 'has-children',
+    nextId: 'heating-cooling-costs'
+  },
+  {
+    id: 'heating-cooling-costs',
+    question: {
+      id: 'heating-cooling-costs',
+      text: 'Do you pay for heating or air conditioning separately from your rent or mortgage?',
+      description: 'Answer yes if you receive a heating or cooling bill, or if you received energy assistance (LIHEAP) in the past year.',
+      inputType: 'boolean',
+      fieldName: 'paysHeatingCooling',
+      required: false,
+      helpText: 'SNAP uses your state\'s standard utility allowance instead of your actual utility bills.'
+    },
+    previousId: 'shelter-costs',
+    nextId: 'dependent-care-costs'
+  },
+  {
+    id: 'dependent-care-costs',
+    question: {
+      id: 'dependent-care-costs',
+      text: 'How much does your household pay each month for child care or care for a disabled adult?',
+      description: 'Only include care that lets someone in your household work, look for work, or go to school or training.',
+      inputType: 'currency',
+      fieldName: 'dependentCareCosts',
+      required: false,
+      min: 0
+    },
+    previousId: 'heating-cooling-costs',
+    nextId: 'child-support-paid'
+  },
+  {
+    id: 'child-support-paid',
+    question: {
+      id: 'child-support-paid',
+      text: 'How much child support does your household pay each month?',
+      description: 'Only include child support you are legally required to pay to someone who does not live with you.',
+      inputType: 'currency',
+      fieldName: 'childSupportPaid',
+      required: false,
+      min: 0
+    },
+    previousId: 'dependent-care-costs',
+    nextId: 'medical-expenses'
+  },
+  {
+    id: 'medical-expenses',
+    question: {
+      id: 'medical-expenses',
+      text: 'How much do household members who are 60 or older or have a disability pay for medical care each month?',
+      description: 'Include doctor visits, prescriptions, health insurance premiums, dental care and medical transportation that insurance does not cover.',
+      inputType: 'currency',
+      fieldName: 'medicalExpenses',
+      required: false,
+      min: 0,
+      helpText: 'Leave blank if no one in your household is 60 or older or has a disability. Costs over $35 a month can be deducted for SNAP.'
+    },
+    previousId: 'child-support-paid',
+    nextId: 'has-assets'
+  },
+
+  // Resource Questions (asset limits)
+  {
+    id: 'has-assets',
+    question: {
+      id: 'has-assets',
+      text: 'Does your household have any savings, vehicles or other property?',
+      description: 'Some programs, such as SSI, TANF and Medicaid for people who are older or disabled, limit how much your household can own. Your home does not count.',
+      inputType: 'boolean',
+      fieldName: 'hasAssets',
+      required: false,
+      helpText: 'Answer yes if anyone in your household has cash, bank accounts, vehicles, retirement savings or property other than your home.'
+    },
+    previousId: 'medical-expenses',
+    nextId: 'asset-cash'
+  },
+  {
+    id: 'asset-cash',
+    question: {
+      id: 'asset-cash',
+      text: 'How much cash does your household have on hand?',
+      description: 'Include cash at home or carried with you.',
+      inputType: 'currency',
+      fieldName: 'assetCash',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] }
+    },
+    previousId: 'has-assets',
+    nextId: 'asset-bank-accounts'
+  },
+  {
+    id: 'asset-bank-accounts',
+    question: {
+      id: 'asset-bank-accounts',
+      text: 'What is the total balance of your household\'s checking and savings accounts?',
+      description: 'Include all bank and credit union accounts, prepaid cards and money market accounts.',
+      inputType: 'currency',
+      fieldName: 'assetBankAccounts',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] }
+    },
+    previousId: 'asset-cash',
+    nextId: 'asset-primary-vehicle'
+  },
+  {
+    id: 'asset-primary-vehicle',
+    question: {
+      id: 'asset-primary-vehicle',
+      text: 'What is your household\'s main vehicle worth?',
+      description: 'Enter what the vehicle would sell for, minus any amount still owed on it.',
+      inputType: 'currency',
+      fieldName: 'assetPrimaryVehicle',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] },
+      helpText: 'One vehicle used for transportation is not counted for SSI or Medicaid, and most states do not count it for SNAP or TANF.'
+    },
+    previousId: 'asset-bank-accounts',
+    nextId: 'asset-other-vehicles'
+  },
+  {
+    id: 'asset-other-vehicles',
+    question: {
+      id: 'asset-other-vehicles',
+      text: 'What are any other vehicles your household owns worth in total?',
+      description: 'Include cars, trucks, motorcycles, boats and recreational vehicles. Subtract any amount still owed.',
+      inputType: 'currency',
+      fieldName: 'assetOtherVehicles',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] }
+    },
+    previousId: 'asset-primary-vehicle',
+    nextId: 'asset-real-property'
+  },
+  {
+    id: 'asset-real-property',
+    question: {
+      id: 'asset-real-property',
+      text: 'How much equity does your household have in property other than your home?',
+      description: 'Include land, rental property or a second home. Do not include the home you live in.',
+      inputType: 'currency',
+      fieldName: 'assetRealProperty',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] },
+      helpText: 'Equity is what the property would sell for minus what is still owed on it.'
+    },
+    previousId: 'asset-other-vehicles',
+    nextId: 'asset-retirement-accounts'
+  },
+  {
+    id: 'asset-retirement-accounts',
+    question: {
+      id: 'asset-retirement-accounts',
+      text: 'What is the total balance of your household\'s retirement accounts?',
+      description: 'Include 401(k), 403(b), IRA, pension and similar accounts.',
+      inputType: 'currency',
+      fieldName: 'assetRetirementAccounts',
+      required: false,
+      min: 0,
+      showIf: { '==': [{ var: 'hasAssets' }, 'true'] },
+      helpText: 'Retirement accounts are not counted for SNAP. SSI counts funds you can withdraw.'
+    },
+    previousId: 'asset-real-property',
     nextId: 'criminal-background'
   },
 
@@ -341,7 +559,7 @@ const nodes: FlowNode[] = [
       required: true,
       helpText: 'Include any convictions, pending charges, or arrests. This information is used for housing eligibility determination.'
     },
-    previousId: 'has-children',
+    previousId: 'asset-retirement-accounts',
     nextId: 'rental-history'
   },
   {
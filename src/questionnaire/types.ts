@@ -28,7 +28,9 @@ export type QuestionInputType =
   | 'boolean'
   | 'address'
   | 'ssn'
-  | 'searchable-select';
+  | 'searchable-select'
+  | 'household-members'
+  | 'income-sources';
 
 /**
  * Question validation rule
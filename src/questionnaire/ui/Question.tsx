@@ -13,6 +13,8 @@ import {
   SelectInput,
   MultiSelectInput,
   DateInput,
+  HouseholdMembersInput,
+  IncomeSourcesInput,
 } from '../components';
 import { SearchableSelectInput } from '../components/SearchableSelectInput';
 import { DateOfBirthInput } from '../components/DateOfBirthInput';
@@ -21,6 +23,7 @@ import { EnhancedCountySelector } from '../components/EnhancedCountySelector';
 import { useDeviceDetection } from '../hooks/useDeviceDetection';
 import { useQuestionFlowStore } from '../store';
 import type { QuestionDefinition, QuestionContext } from '../types';
+import type { HouseholdMember, IncomeSourceEntry } from '../../db/schemas';
 import { createSchemaFromQuestion, validateWithSchema } from '../validation/schemas';
 
 export interface QuestionProps {
@@ -482,6 +485,12 @@ export const Question: React.FC<QuestionProps> = ({
       case 'date':
         return renderDateInput(commonProps);
 
+      case 'household-members':
+        return <HouseholdMembersInput {...commonProps} value={value as HouseholdMember[]} />;
+
+      case 'income-sources':
+        return <IncomeSourcesInput {...commonProps} value={value as IncomeSourceEntry[]} />;
+
       case 'boolean':
         return (
           <SelectInput
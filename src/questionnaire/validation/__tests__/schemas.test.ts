@@ -15,6 +15,7 @@ import {
   validateWithSchema,
   createSchemaFromQuestion,
 } from '../schemas';
+import { enhancedFlow } from '../../enhanced-flow';
 
 describe('Zod Validation Schemas', () => {
   describe('emailSchema', () => {
@@ -147,6 +148,22 @@ describe('Zod Validation Schemas', () => {
       expect(schema.safeParse(101).success).toBe(false);
     });
 
+    it('should accept as many income sources as the questionnaire allows', () => {
+      const question = enhancedFlow.nodes.get('income-sources')?.question;
+      const max = question?.max ?? 0;
+      const schema = createSchemaFromQuestion({ inputType: 'income-sources', required: true, max });
+      const entries = (count: number): unknown[] => Array.from({ length: count }, (_, index) => ({
+        id: `source-${index}`,
+        source: 'employment',
+        amount: 100,
+        frequency: 'monthly',
+      }));
+
+      expect(max).toBeGreaterThan(0);
+      expect(schema.safeParse(entries(max)).success).toBe(true);
+      expect(schema.safeParse(entries(max + 1)).success).toBe(false);
+    });
+
     it('should make schema optional if not required', () => {
       const schema = createSchemaFromQuestion({
         inputType: 'text',
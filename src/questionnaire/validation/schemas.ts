@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { HouseholdMemberZodSchema, IncomeSourceEntryZodSchema, MAX_INCOME_SOURCES } from '../../db/schemas';
 
 /**
  * Text input schemas
@@ -148,6 +149,28 @@ export const multiSelectSchema = <T extends string>(
   return schema;
 };
 
+/**
+ * Household members schema (repeating member editor)
+ */
+export const householdMembersSchema = z
+  .array(HouseholdMemberZodSchema, { invalid_type_error: 'Please add the people in your household' })
+  .min(1, 'Please add at least one person')
+  .max(50, 'A household can have at most 50 people');
+
+/**
+ * Income sources schema (repeating income editor)
+ */
+export const incomeSourcesSchema = z
+  .array(
+    IncomeSourceEntryZodSchema.refine(
+      entry => entry.frequency !== 'hourly' || entry.hoursPerWeek !== undefined,
+      { message: 'Please enter hours per week for hourly pay', path: ['hoursPerWeek'] }
+    ),
+    { invalid_type_error: 'Please add your income sources' }
+  )
+  .min(1, 'Please add at least one income source')
+  .max(MAX_INCOME_SOURCES, `You can add at most ${MAX_INCOME_SOURCES} income sources`);
+
 /**
  * Optional schema wrapper
  */
@@ -226,6 +249,10 @@ function getBaseSchema(
       });
     case 'multiselect':
       return multiSelectSchema();
+    case 'household-members':
+      return householdMembersSchema;
+    case 'income-sources':
+      return incomeSourcesSchema;
     case 'text':
     default:
       return textSchema;
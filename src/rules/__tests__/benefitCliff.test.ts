@@ -0,0 +1,137 @@
+/**
+ * Benefit Cliff Analysis Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { analyzeBenefitCliffs, getIncomeThresholds, type CliffProgram } from '../core/benefitCliff';
+import { buildProfileDataContext } from '../core/eligibility/evaluation/dataContext';
+import { registerBenefitOperators } from '../core/evaluator';
+import { calculateFPL, getSNAPGrossIncomeLimit } from '../../utils/benefitThresholds';
+
+const snap: CliffProgram = {
+  programId: 'snap-federal',
+  rules: [
+    { id: 'snap-gross-income', name: 'Gross Income Test', ruleLogic: { '<=': [{ var: 'householdIncome' }, 2000] } },
+    {
+      id: 'snap-benefit-amount',
+      name: 'Benefit Amount',
+      ruleType: 'benefit_amount',
+      ruleLogic: { if: [true, { amount: 400, frequency: 'monthly' }, null] },
+    },
+  ],
+};
+
+const medicaid: CliffProgram = {
+  programId: 'medicaid-federal',
+  rules: [{ id: 'medicaid-income', name: 'Income Limit', ruleLogic: { '<=': [{ var: 'householdIncome' }, 1500] } }],
+};
+
+describe('Benefit Cliff Analysis', () => {
+  beforeAll(() => {
+    registerBenefitOperators();
+  });
+
+  it('finds the step where a raise ends a program and lowers net resources', () => {
+    const analysis = analyzeBenefitCliffs([snap], { householdSize: 1, householdIncome: 1800 }, {
+      maxEarnings: 2500,
+      step: 100,
+    });
+
+    expect(analysis.currentEarnings).toBe(1800);
+    expect(analysis.points.find(point => point.earnings === 2000)).toMatchObject({
+      eligiblePrograms: ['snap-federal'],
+      benefits: { 'snap-federal': 400 },
+      netResources: 2400,
+    });
+    expect(analysis.points.find(point => point.earnings === 2100)?.netResources).toBe(2100);
+    expect(analysis.cliffs).toEqual([
+      { fromEarnings: 2000, toEarnings: 2100, loss: 300, programsLost: ['snap-federal'] },
+    ]);
+  });
+
+  it('does not count the Section 8 tenant rent share as a benefit', () => {
+    const section8: CliffProgram = {
+      programId: 'section8-federal',
+      rules: [
+        { id: 'section8-income', name: 'Income Limit', ruleLogic: { '<=': [{ var: 'householdIncome' }, 3000] } },
+        {
+          id: 'section8-tenant-rent',
+          name: 'Tenant Rent',
+          ruleType: 'benefit_amount',
+          ruleLogic: { section8_tenant_rent: [{ var: 'householdIncome' }, 2, false, 0] },
+        },
+      ],
+    };
+    const analysis = analyzeBenefitCliffs([section8, snap], {
+      householdSize: 3,
+      householdIncome: 0,
+    }, { maxEarnings: 1000, step: 500 });
+
+    expect(analysis.points.find(point => point.earnings === 1000)).toMatchObject({
+      eligiblePrograms: ['section8-federal', 'snap-federal'],
+      benefits: { 'snap-federal': 400 },
+      totalBenefits: 400,
+      netResources: 1400,
+    });
+  });
+
+  it('reports programs without an estimated amount as cliffs with no loss', () => {
+    const analysis = analyzeBenefitCliffs([medicaid], { householdSize: 1, householdIncome: 0 }, {
+      maxEarnings: 2000,
+      step: 250,
+    });
+
+    expect(analysis.cliffs).toEqual([
+      { fromEarnings: 1500, toEarnings: 1750, loss: 0, programsLost: ['medicaid-federal'] },
+    ]);
+  });
+
+  it('keeps unearned income fixed and converts annual benefits to monthly', () => {
+    const annual: CliffProgram = {
+      programId: 'liheap-federal',
+      rules: [{
+        id: 'liheap-amount',
+        name: 'Benefit Amount',
+        ruleType: 'benefit_amount',
+        ruleLogic: { if: [true, { amount: 1200, frequency: 'annual' }, null] },
+      }],
+    };
+    const analysis = analyzeBenefitCliffs([annual], {
+      householdSize: 2,
+      householdIncome: 1500,
+      earnedIncome: 1000,
+    }, { maxEarnings: 1000, step: 500 });
+
+    expect(analysis.unearnedIncome).toBe(500);
+    expect(analysis.points.map(point => [point.earnings, point.householdIncome, point.netResources])).toEqual([
+      [0, 500, 600],
+      [500, 1000, 1100],
+      [1000, 1500, 1600],
+    ]);
+  });
+
+  it('recomputes SNAP net income at each step', async () => {
+    const data = await buildProfileDataContext({ householdSize: 1, householdIncome: 1000, incomePeriod: 'monthly' });
+    const netIncomeRule: CliffProgram = {
+      programId: 'snap-federal',
+      rules: [{ id: 'snap-net-income', name: 'Net Income Test', ruleLogic: { '<=': [{ var: 'snapNetIncome' }, 1000] } }],
+    };
+
+    const analysis = analyzeBenefitCliffs([netIncomeRule], data, { maxEarnings: 2000, step: 100 });
+
+    expect(analysis.points[0].eligiblePrograms).toEqual(['snap-federal']);
+    expect(analysis.points[analysis.points.length - 1].eligiblePrograms).toEqual([]);
+  });
+
+  it('places poverty-guideline limits on the earnings axis', () => {
+    const analysis = analyzeBenefitCliffs([], { householdSize: 3, householdIncome: 500, unearnedIncome: 500 });
+    const snapLimit = analysis.thresholds.find(threshold => threshold.percent === 130);
+
+    expect(getIncomeThresholds(3)[0]).toEqual({ percent: 100, label: 'Federal Poverty Level', householdIncome: calculateFPL(3) });
+    expect(snapLimit).toMatchObject({
+      label: 'SNAP Gross Income Limit',
+      householdIncome: getSNAPGrossIncomeLimit(3),
+      earnings: getSNAPGrossIncomeLimit(3) - 500,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Counterfactual Search Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { findCounterfactuals, getAdjustableFields } from '../core/counterfactual';
+import { buildProfileDataContext } from '../core/eligibility/evaluation/dataContext';
+import { registerBenefitOperators } from '../core/evaluator';
+
+const incomeLimit = { ruleLogic: { '<=': [{ var: 'householdIncome' }, 2000] } };
+
+describe('Counterfactual Search', () => {
+  beforeAll(() => {
+    registerBenefitOperators();
+  });
+
+  it('finds the smallest income decrease that makes the program eligible', () => {
+    const [change] = findCounterfactuals([incomeLimit], { householdIncome: 2212, householdSize: 1 });
+
+    expect(change).toMatchObject({ field: 'householdIncome', change: 'decrease', from: 2212, to: 2000, amount: 212 });
+    expect(change.description).toBe('if your household\'s monthly income were $212 lower');
+  });
+
+  it('returns nothing when the program already passes', () => {
+    expect(findCounterfactuals([incomeLimit], { householdIncome: 1500 })).toEqual([]);
+  });
+
+  it('leaves fixed answers such as age and citizenship alone', () => {
+    const rules = [
+      { ruleLogic: { '>=': [{ var: 'age' }, 65] } },
+      { ruleLogic: { '==': [{ var: 'citizenship' }, 'us_citizen'] } },
+    ];
+
+    expect(getAdjustableFields()).not.toContain('age');
+    expect(findCounterfactuals(rules, { age: 40, citizenship: 'other' })).toEqual([]);
+  });
+
+  it('recomputes SNAP net income when expenses are reported', async () => {
+    const data = await buildProfileDataContext({ householdSize: 1, householdIncome: 1500, incomePeriod: 'monthly' });
+    const netIncome = data.snapNetIncome as number;
+    const rules = [{ ruleLogic: { '<=': [{ var: 'snapNetIncome' }, netIncome - 100] } }];
+
+    const changes = findCounterfactuals(rules, data, { limit: 10 });
+    const dependentCare = changes.find(change => change.field === 'dependentCareCosts');
+
+    expect(changes[0].field).toBe('householdIncome');
+    expect(dependentCare?.change).toBe('report');
+    expect(dependentCare?.to).toBeGreaterThanOrEqual(100);
+    expect(dependentCare?.description).toMatch(/^if you report your dependent care costs of at least \$\d+$/);
+  });
+
+  it('flips yes/no answers', () => {
+    const rules = [{ ruleLogic: { '!': [{ var: 'isStudent' }] } }];
+
+    expect(findCounterfactuals(rules, { isStudent: true })).toEqual([
+      expect.objectContaining({ field: 'isStudent', change: 'no', from: true, to: false }),
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Rule Coverage and Mutation Testing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRuleBranches,
+  traceRuleBranches,
+  generateRuleMutants,
+  runMutationTests,
+  analyzeRuleCoverage,
+  analyzePackageCoverage,
+} from '../core/coverage';
+import type { JsonLogicRule } from '../core/types';
+
+const incomeRule: JsonLogicRule = {
+  or: [
+    { var: 'hasElderlyOrDisabled' },
+    { '<=': [{ var: 'householdIncome' }, 2000] },
+  ],
+};
+
+describe('Rule Coverage', () => {
+  describe('getRuleBranches', () => {
+    it('lists a true and false outcome for each and/or operand and if condition', () => {
+      const rule: JsonLogicRule = {
+        if: [{ var: 'a' }, { and: [{ var: 'b' }, { var: 'c' }] }, false],
+      };
+
+      expect(getRuleBranches(rule).map(branch => branch.id)).toEqual([
+        'if[0]:true',
+        'if[0]:false',
+        'if[1].and[0]:true',
+        'if[1].and[0]:false',
+        'if[1].and[1]:true',
+        'if[1].and[1]:false',
+      ]);
+    });
+
+    it('finds no branches in straight-line logic', () => {
+      expect(getRuleBranches({ '<': [{ var: 'age' }, 18] })).toEqual([]);
+    });
+  });
+
+  describe('traceRuleBranches', () => {
+    it('records only the operands each test evaluates', () => {
+      const reached = traceRuleBranches(incomeRule, [
+        { input: { hasElderlyOrDisabled: true, householdIncome: 5000 } },
+      ]);
+
+      // `or` stops at the first true operand
+      expect(reached).toEqual(['or[0]:true']);
+    });
+
+    it('traces branches inside item-scoped operators', () => {
+      const rule: JsonLogicRule = {
+        some: [{ var: 'members' }, { and: [{ var: 'isChild' }, { var: 'isStudent' }] }],
+      };
+      const reached = traceRuleBranches(rule, [
+        { input: { members: [{ isChild: true, isStudent: false }] } },
+      ]);
+
+      expect(reached.sort()).toEqual(['some[1].and[0]:true', 'some[1].and[1]:false']);
+    });
+  });
+
+  describe('mutation testing', () => {
+    it('swaps comparison operators and moves thresholds', () => {
+      expect(generateRuleMutants({ '<=': [{ var: ['income', 0] }, 2000] }).map(m => m.description)).toEqual([
+        '"<=" → "<"',
+        '2000 → 2001',
+        '2000 → 1999',
+      ]);
+    });
+
+    it('reports mutants the tests do not catch', () => {
+      const report = runMutationTests(incomeRule, [
+        { input: { householdIncome: 1500 }, expected: true },
+        { input: { householdIncome: 2500 }, expected: false },
+      ]);
+
+      expect(report.total).toBe(3);
+      expect(report.killed).toBe(0);
+      expect(report.survivors.map(s => s.description)).toContain('"<=" → "<"');
+    });
+
+    it('kills boundary mutants when a test sits on the threshold', () => {
+      const report = runMutationTests(incomeRule, [
+        { input: { householdIncome: 2000 }, expected: true },
+        { input: { householdIncome: 2001 }, expected: false },
+      ]);
+
+      expect(report.killed).toBe(report.total);
+    });
+  });
+
+  describe('analyzeRuleCoverage', () => {
+    it('ignores failing tests and lists uncovered branches', () => {
+      const report = analyzeRuleCoverage({
+        id: 'income',
+        ruleLogic: incomeRule,
+        testCases: [
+          { input: { hasElderlyOrDisabled: false, householdIncome: 1500 }, expected: true },
+          { input: { hasElderlyOrDisabled: true }, expected: false },
+        ],
+      });
+
+      expect(report.passingTests).toBe(1);
+      expect(report.coveredBranches).toEqual(['or[0]:false', 'or[1]:true']);
+      expect(report.uncoveredBranches.map(b => b.id)).toEqual(['or[0]:true', 'or[1]:false']);
+      expect(report.mutation).toBeUndefined();
+    });
+  });
+
+  describe('analyzePackageCoverage', () => {
+    it('totals branches and mutants across rules', () => {
+      const report = analyzePackageCoverage('pkg', [
+        {
+          id: 'income',
+          ruleLogic: incomeRule,
+          testCases: [
+            { input: { hasElderlyOrDisabled: true }, expected: true },
+            { input: { hasElderlyOrDisabled: false, householdIncome: 2000 }, expected: true },
+            { input: { hasElderlyOrDisabled: false, householdIncome: 2001 }, expected: false },
+          ],
+        },
+        { id: 'untested', ruleLogic: { and: [{ var: 'a' }, { var: 'b' }] } },
+      ], { mutation: true });
+
+      expect(report.totalBranches).toBe(8);
+      expect(report.coveredBranches).toBe(4);
+      expect(report.branchCoverage).toBe(50);
+      expect(report.mutationScore).toBe(100);
+    });
+  });
+});
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   debugRule,
+  findFailingPath,
   inspectVariable,
   inspectAllVariables,
   inspectRule,
@@ -48,6 +49,68 @@ describe('Debug Utilities', () => {
       expect(debug).toBeDefined();
       expect(debug.trace.length).toBeGreaterThanOrEqual(0);
     });
+
+    it('should trace nested expressions in evaluation order with their paths', () => {
+      const rule: JsonLogicRule = {
+        and: [
+          { '>=': [{ var: 'age' }, 18] },
+          { '<=': [{ var: 'income' }, 2000] },
+        ],
+      };
+
+      const debug = debugRule(rule, { age: 30, income: 1500 });
+
+      expect(debug.trace.map((step) => [step.path, step.result])).toEqual([
+        ['and[0].>=[0]', 30],
+        ['and[0]', true],
+        ['and[1].<=[0]', 1500],
+        ['and[1]', true],
+        ['', true],
+      ]);
+      expect(debug.variablesAccessed).toEqual(new Set(['age', 'income']));
+    });
+
+    it('should stop tracing where evaluation short-circuits', () => {
+      const rule: JsonLogicRule = {
+        or: [{ var: 'isCitizen' }, { '==': [{ var: 'status' }, 'refugee'] }],
+      };
+
+      const debug = debugRule(rule, { isCitizen: true, status: 'refugee' });
+
+      expect(debug.trace.map((step) => step.path)).toEqual(['or[0]', '']);
+    });
+
+    it('should resolve nested variables', () => {
+      const debug = debugRule({ var: 'household.size' }, { household: { size: 3 } });
+
+      expect(debug.result).toBe(3);
+    });
+  });
+
+  describe('findFailingPath', () => {
+    it('should find the failing operand of an and', () => {
+      const rule: JsonLogicRule = {
+        and: [
+          { '>=': [{ var: 'age' }, 18] },
+          { '<=': [{ var: 'income' }, 2000] },
+        ],
+      };
+
+      expect(findFailingPath(debugRule(rule, { age: 30, income: 2500 }).trace)).toBe('and[1]');
+      expect(findFailingPath(debugRule(rule, { age: 30, income: 1500 }).trace)).toBeUndefined();
+    });
+
+    it('should follow the branch an if took', () => {
+      const rule: JsonLogicRule = {
+        if: [
+          { var: 'hasDisability' },
+          { '<=': [{ var: 'assets' }, 3000] },
+          { '<=': [{ var: 'assets' }, 2000] },
+        ],
+      };
+
+      expect(findFailingPath(debugRule(rule, { hasDisability: false, assets: 2500 }).trace)).toBe('if[2]');
+    });
   });
 
   describe('inspectVariable', () => {
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
-import { initializeDatabase, destroyDatabase } from '../../db/database';
+import { initializeDatabase, destroyDatabase, getDatabase } from '../../db/database';
 import {
   evaluateEligibility,
   evaluateMultiplePrograms,
@@ -102,9 +102,52 @@ describe('Eligibility Evaluation', () => {
 
       expect(result.incomplete).toBe(true);
       expect(result.missingFields).toContain('householdIncome');
+      expect(result.confidence).toBe(50);
       expect(result.missingFields).toContain('householdSize');
     });
 
+    it('should settle a rule when its answered side decides it', async () => {
+      const profile = await createUserProfile({
+        firstName: 'Test',
+        householdIncome: 4500,
+        householdSize: 2,
+        // hasDisability skipped
+      });
+
+      const program = await createBenefitProgram({
+        name: 'Test Program',
+        shortName: 'TEST',
+        description: 'Test',
+        category: 'food',
+        jurisdiction: 'US-TEST',
+        active: true,
+      });
+
+      await createEligibilityRule({
+        programId: program.id,
+        name: 'Disability Or Low Income',
+        ruleLogic: { or: [{ var: 'hasDisability' }, { '<': [{ var: 'householdIncome' }, 5000] }] },
+        version: '1.0.0',
+        active: true,
+        requiredFields: ['hasDisability', 'householdIncome'],
+      });
+      await createEligibilityRule({
+        programId: program.id,
+        name: 'Disability And Household',
+        ruleLogic: { and: [{ var: 'hasDisability' }, { '>=': [{ var: 'householdSize' }, 1] }] },
+        version: '1.0.0',
+        active: true,
+        requiredFields: ['hasDisability', 'householdSize'],
+      });
+
+      const result = await evaluateEligibility(profile.id, program.id, { cacheResult: false });
+
+      expect(result.eligible).toBe(false);
+      expect(result.incomplete).toBe(true);
+      expect(result.missingFields).toEqual(['hasDisability']);
+      expect(result.confidence).toBe(70);
+    });
+
     it('should cache results', async () => {
       const profile = await createUserProfile({
         firstName: 'Test',
@@ -144,6 +187,90 @@ describe('Eligibility Evaluation', () => {
       // Results should be the same
       expect(result2.eligible).toBe(result1.eligible);
     });
+
+    it('should use the rules in effect on the asOfDate', async () => {
+      const profile = await createUserProfile({
+        firstName: 'Test',
+        householdIncome: 4500,
+        householdSize: 2,
+      });
+
+      const program = await createBenefitProgram({
+        name: 'Test Program',
+        shortName: 'TEST',
+        description: 'Test',
+        category: 'food',
+        jurisdiction: 'US-TEST',
+        active: true,
+      });
+
+      const current = await createEligibilityRule({
+        programId: program.id,
+        name: 'Current Limit',
+        ruleLogic: { '<': [{ var: 'householdIncome' }, 4000] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      const upcomingStart = Date.now() + 1000 * 60 * 60 * 24 * 30;
+      const upcoming = await createEligibilityRule({
+        programId: program.id,
+        name: 'Upcoming Limit',
+        ruleLogic: { '<': [{ var: 'householdIncome' }, 5000] },
+        version: '2.0.0',
+        active: true,
+        effectiveDate: upcomingStart,
+        supersedes: current.id,
+      });
+
+      const today = await evaluateEligibility(profile.id, program.id, { cacheResult: false });
+      const preview = await evaluateEligibility(profile.id, program.id, { asOfDate: upcomingStart });
+
+      expect(today.ruleId).toBe(current.id);
+      expect(today.eligible).toBe(false);
+      expect(preview.ruleId).toBe(upcoming.id);
+      expect(preview.eligible).toBe(true);
+    });
+
+    it('should report the Section 8 rent share as a cost, not a benefit', async () => {
+      const profile = await createUserProfile({
+        firstName: 'Test',
+        householdIncome: 2000,
+        householdSize: 3,
+      });
+
+      const program = await createBenefitProgram({
+        name: 'Housing Program',
+        shortName: 'HOUSING',
+        description: 'Test',
+        category: 'housing',
+        jurisdiction: 'US-TEST',
+        active: true,
+      });
+
+      await createEligibilityRule({
+        programId: program.id,
+        name: 'Income Test',
+        ruleLogic: { '<': [{ var: 'householdIncome' }, 4000] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      await createEligibilityRule({
+        programId: program.id,
+        name: 'Tenant Rent',
+        ruleType: 'benefit_amount',
+        ruleLogic: { section8_tenant_rent: [{ var: 'householdIncome' }, 2, false, 0] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      const result = await evaluateEligibility(profile.id, program.id, { cacheResult: false });
+
+      expect(result.eligible).toBe(true);
+      expect(result.estimatedBenefit).toBeUndefined();
+      expect(result.estimatedCost).toMatchObject({ amount: 576, kind: 'cost' });
+    });
   });
 
   describe('evaluateMultiplePrograms', () => {
@@ -198,6 +325,97 @@ describe('Eligibility Evaluation', () => {
       expect(result.summary.total).toBe(2);
       expect(result.totalTime).toBeGreaterThan(0);
     });
+
+    it('should pass likely eligibility to dependent programs', async () => {
+      const profile = await createUserProfile({
+        firstName: 'Test',
+        householdIncome: 3000,
+        householdSize: 2,
+      });
+
+      const db = getDatabase()!;
+      for (const id of ['wic-test', 'tanf-test']) {
+        await db.benefit_programs.insert({
+          id,
+          name: id,
+          shortName: id,
+          description: 'Test',
+          category: 'food',
+          jurisdiction: 'US-TEST',
+          active: true,
+          lastUpdated: Date.now(),
+          createdAt: Date.now(),
+        });
+      }
+
+      await createEligibilityRule({
+        programId: 'tanf-test',
+        name: 'TANF Rule',
+        ruleLogic: { '<': [{ var: 'householdIncome' }, 5000] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      await createEligibilityRule({
+        programId: 'wic-test',
+        name: 'WIC Rule',
+        ruleLogic: { '==': [{ var: 'likelyEligibleTANF' }, true] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      const result = await evaluateMultiplePrograms(profile.id, ['wic-test', 'tanf-test']);
+      const wic = result.programResults.get('wic-test');
+
+      expect(Array.from(result.programResults.keys())).toEqual(['wic-test', 'tanf-test']);
+      expect(wic?.eligible).toBe(true);
+      expect(wic?.categoricallyEligibleVia).toEqual(['tanf-test']);
+    });
+
+    it('should not credit likely eligibility when a program passes its own tests', async () => {
+      const profile = await createUserProfile({
+        firstName: 'Test',
+        householdIncome: 3000,
+        householdSize: 2,
+      });
+
+      const db = getDatabase()!;
+      for (const id of ['wic-test', 'tanf-test']) {
+        await db.benefit_programs.insert({
+          id,
+          name: id,
+          shortName: id,
+          description: 'Test',
+          category: 'food',
+          jurisdiction: 'US-TEST',
+          active: true,
+          lastUpdated: Date.now(),
+          createdAt: Date.now(),
+        });
+      }
+
+      await createEligibilityRule({
+        programId: 'tanf-test',
+        name: 'TANF Rule',
+        ruleLogic: { '<': [{ var: 'householdIncome' }, 5000] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      await createEligibilityRule({
+        programId: 'wic-test',
+        name: 'WIC Rule',
+        ruleLogic: { or: [{ var: 'likelyEligibleTANF' }, { '<': [{ var: 'householdIncome' }, 4000] }] },
+        version: '1.0.0',
+        active: true,
+      });
+
+      const result = await evaluateMultiplePrograms(profile.id, ['wic-test', 'tanf-test']);
+      const wic = result.programResults.get('wic-test');
+
+      expect(wic?.eligible).toBe(true);
+      expect(wic?.categoricallyEligibleVia).toBeUndefined();
+    });
   });
 
   describe('clearCachedResults', () => {
@@ -203,6 +203,75 @@ describe('Rule Evaluator', () => {
       expect(result.result).toBe(true);
     });
 
+    it('should use fpl_percent operator with an explicit guideline year', async () => {
+      const rule: JsonLogicRule = {
+        '<=': [
+          { var: 'householdIncome' },
+          { fpl_percent: [{ var: 'fplYear' }, { var: 'householdSize' }, 130] },
+        ],
+      };
+
+      const eligible = await evaluateRule(rule, { householdIncome: 1690, householdSize: 1, fplYear: 2025 });
+      expect(eligible.result).toBe(true);
+
+      // Same income exceeds the lower 2024 limit ($1,632)
+      const ineligible = await evaluateRule(rule, { householdIncome: 1690, householdSize: 1, fplYear: 2024 });
+      expect(ineligible.result).toBe(false);
+    });
+
+    it('should not find SNAP income eligibility without a household size', async () => {
+      const rule: JsonLogicRule = {
+        or: [
+          { snap_income_eligible: [{ var: 'householdIncome' }, { var: 'householdSize' }] },
+          { var: 'receivesSNAP' },
+        ],
+      };
+
+      const missingSize = await evaluateRule(rule, { householdIncome: 1000, receivesSNAP: false });
+      expect(missingSize.success).toBe(true);
+      expect(missingSize.result).toBe(false);
+
+      const receivesSNAP = await evaluateRule(rule, { householdIncome: 1000, receivesSNAP: true });
+      expect(receivesSNAP.result).toBe(true);
+
+      const withSize = await evaluateRule(rule, { householdIncome: 1000, householdSize: 1, receivesSNAP: false });
+      expect(withSize.result).toBe(true);
+    });
+
+    it('should resolve fpl_percent year from a date and region from a state code', async () => {
+      const asOf = await evaluateRule({ fpl_percent: ['2024-06-01', 3, 100] }, {});
+      expect(asOf.result).toBe(2152);
+
+      const alaska = await evaluateRule({ fpl_percent: [2025, 3, 100, 'AK'] }, {});
+      expect(alaska.result).toBe(2776);
+
+      const latest = await evaluateRule({ fpl_percent: [null, 3, 130, 'contiguous'] }, {});
+      expect(typeof latest.result).toBe('number');
+    });
+
+    it('should estimate benefit amounts with calculation steps', async () => {
+      const snap = await evaluateRule<{ amount: number; steps: unknown[] }>(
+        {
+          snap_benefit_estimate: [
+            { var: 'evaluationDate' }, { var: 'householdSize' }, { var: 'householdIncome' },
+            { var: 'earnedIncome' }, { var: 'shelterCosts' }, 0, false,
+          ],
+        },
+        { evaluationDate: '2025-06-01', householdSize: 3, householdIncome: 2000, earnedIncome: 2000, shelterCosts: 1200 }
+      );
+      expect(snap.result.amount).toBe(499);
+      expect(snap.result.steps.length).toBeGreaterThan(0);
+
+      const ssi = await evaluateRule<{ amount: number }>({ ssi_benefit_estimate: ['2025-06-01', false, 0, 420] }, {});
+      expect(ssi.result.amount).toBe(567);
+
+      const tanf = await evaluateRule<{ amount: number }>({ tanf_benefit_estimate: ['GA', 3, 0, 0] }, {});
+      expect(tanf.result.amount).toBe(280);
+
+      const rent = await evaluateRule<{ amount: number }>({ section8_tenant_rent: [2000, 2, false, 0] }, {});
+      expect(rent.result.amount).toBe(576);
+    });
+
     it('should unregister custom operators', () => {
       unregisterBenefitOperators();
       // After unregistering, custom operators should not work
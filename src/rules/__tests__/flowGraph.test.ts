@@ -0,0 +1,91 @@
+/**
+ * Eligibility Flow Graph Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildEligibilityFlow } from '../core/explanation-system';
+
+const program = { id: 'snap-federal', name: 'SNAP' };
+
+const rules = [
+  {
+    id: 'snap-income',
+    name: 'Gross Income Test',
+    ruleLogic: {
+      and: [
+        { '>=': [{ var: 'householdSize' }, 1] },
+        { '<=': [{ var: 'householdIncome' }, 2000] },
+      ],
+    },
+  },
+  {
+    id: 'snap-citizenship',
+    name: 'Citizenship',
+    ruleLogic: {
+      or: [
+        { '==': [{ var: 'citizenship' }, 'us_citizen'] },
+        { var: 'isQualifiedNoncitizen' },
+      ],
+    },
+  },
+];
+
+const statusOf = (flow: ReturnType<typeof buildEligibilityFlow>, id: string): string | undefined =>
+  flow.nodes.find(node => node.id === id)?.status;
+
+describe('buildEligibilityFlow', () => {
+  it('links the program to each rule and each rule to its conditions', () => {
+    const flow = buildEligibilityFlow(program, rules, { householdSize: 2, householdIncome: 1500, citizenship: 'us_citizen' });
+
+    expect(flow.nodes.map(node => [node.id, node.kind])).toEqual([
+      ['program:snap-federal', 'program'],
+      ['rule:snap-income', 'rule'],
+      ['rule:snap-income/', 'condition'],
+      ['rule:snap-income/and[0]', 'condition'],
+      ['rule:snap-income/and[1]', 'condition'],
+      ['rule:snap-citizenship', 'rule'],
+      ['rule:snap-citizenship/', 'condition'],
+      ['rule:snap-citizenship/or[0]', 'condition'],
+      ['rule:snap-citizenship/or[1]', 'condition'],
+    ]);
+    expect(flow.edges.map(edge => `${edge.source} -> ${edge.target}`)).toContain('rule:snap-income/ -> rule:snap-income/and[1]');
+    expect(flow.status).toBe('pass');
+  });
+
+  it('marks conditions pass, fail or unknown against the profile', () => {
+    const flow = buildEligibilityFlow(program, rules, { householdSize: 2, householdIncome: 2500 });
+
+    expect(statusOf(flow, 'rule:snap-income/and[0]')).toBe('pass');
+    expect(statusOf(flow, 'rule:snap-income/and[1]')).toBe('fail');
+    expect(statusOf(flow, 'rule:snap-income')).toBe('fail');
+    expect(statusOf(flow, 'rule:snap-citizenship/or[0]')).toBe('unknown');
+    expect(statusOf(flow, 'rule:snap-citizenship')).toBe('unknown');
+    expect(flow.status).toBe('fail');
+  });
+
+  it('labels conditions from the explanation tree with the values they read', () => {
+    const flow = buildEligibilityFlow(program, rules, { householdSize: 2, householdIncome: 2500 });
+    const income = flow.nodes.find(node => node.id === 'rule:snap-income/and[1]');
+
+    expect(income?.label).toContain('is less than or equal to $2,000');
+    expect(income?.details).toEqual([expect.stringMatching(/: \$2,500$/)]);
+  });
+
+  it('follows the branch an if takes and labels its edges', () => {
+    const flow = buildEligibilityFlow(program, [{
+      id: 'ssi-assets',
+      name: 'Resource Limit',
+      ruleLogic: {
+        if: [
+          { var: 'isMarried' },
+          { '<=': [{ var: 'assets' }, 3000] },
+          { '<=': [{ var: 'assets' }, 2000] },
+        ],
+      },
+    }], { isMarried: false, assets: 2500 });
+
+    expect(statusOf(flow, 'rule:ssi-assets/')).toBe('fail');
+    expect(flow.edges.filter(edge => edge.source === 'rule:ssi-assets/').map(edge => edge.label))
+      .toEqual(['condition', 'then', 'otherwise']);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Rule Content Localization Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTranslationCoverage,
+  localizeRuleContent,
+  omitTranslatedExplanations,
+  selectTranslation,
+} from '../core/localization';
+import { RuleDefinitionSchema, type RuleDefinition } from '../core/schema';
+import { convertDatabaseRuleToDefinition } from '../core/import-export/database';
+import type { EligibilityRule } from '../../db/schemas';
+import snapFederalRules from '../federal/snap/snap-federal-rules.json';
+
+const rule = {
+  id: 'snap-assets',
+  explanation: 'Most households can have up to $3,000 in countable resources.',
+  requiredDocuments: [
+    { name: 'Proof of Assets', description: 'Bank statements', where: 'Your bank' },
+    { name: 'Vehicle title' },
+  ],
+  nextSteps: [{ step: 'Gather bank statements' }, { step: 'Apply online' }],
+  translations: {
+    es: {
+      explanation: 'La mayoría de los hogares pueden tener hasta $3,000 en recursos contables.',
+      requiredDocuments: [{ name: 'Comprobante de bienes', where: 'Su banco' }],
+      nextSteps: ['Reúna sus estados de cuenta bancarios'],
+    },
+  },
+};
+
+describe('selectTranslation', () => {
+  it('falls back from a regional code to the language', () => {
+    expect(selectTranslation(rule.translations, 'es-MX')).toBe(rule.translations.es);
+    expect(selectTranslation(rule.translations, 'es')).toBe(rule.translations.es);
+  });
+
+  it('returns nothing for English and untranslated languages', () => {
+    expect(selectTranslation(rule.translations, 'en-US')).toBeUndefined();
+    expect(selectTranslation(rule.translations, 'fr')).toBeUndefined();
+    expect(selectTranslation(undefined, 'es')).toBeUndefined();
+  });
+});
+
+describe('localizeRuleContent', () => {
+  it('replaces translated fields and keeps English for the rest', () => {
+    const localized = localizeRuleContent(rule, 'es');
+
+    expect(localized.explanation).toBe(rule.translations.es.explanation);
+    expect(localized.requiredDocuments).toEqual([
+      { name: 'Comprobante de bienes', description: 'Bank statements', where: 'Su banco' },
+      { name: 'Vehicle title' },
+    ]);
+    expect(localized.nextSteps).toEqual([{ step: 'Reúna sus estados de cuenta bancarios' }, { step: 'Apply online' }]);
+  });
+
+  it('returns the content unchanged for English', () => {
+    expect(localizeRuleContent(rule, 'en')).toBe(rule);
+  });
+});
+
+describe('omitTranslatedExplanations', () => {
+  it('keeps documents and steps', () => {
+    expect(omitTranslatedExplanations(rule.translations)).toEqual({
+      es: {
+        requiredDocuments: rule.translations.es.requiredDocuments,
+        nextSteps: rule.translations.es.nextSteps,
+      },
+    });
+  });
+});
+
+describe('getTranslationCoverage', () => {
+  it('counts translated strings and lists the missing ones', () => {
+    const [coverage] = getTranslationCoverage([rule]);
+
+    expect(coverage).toMatchObject({ language: 'es', translated: 4, total: 7 });
+    expect(coverage.missing).toEqual([
+      'snap-assets.requiredDocuments[0].description',
+      'snap-assets.requiredDocuments[1].name',
+      'snap-assets.nextSteps[1]',
+    ]);
+  });
+
+  it('reports the federal SNAP package as fully translated into Spanish', () => {
+    const [coverage] = getTranslationCoverage(snapFederalRules.rules);
+
+    expect(coverage.missing).toEqual([]);
+    expect(coverage.total).toBeGreaterThan(0);
+  });
+});
+
+describe('rule translations in schema and database', () => {
+  const definition = {
+    id: 'snap-assets',
+    programId: 'snap-federal',
+    name: 'SNAP asset limit',
+    ruleLogic: { '<=': [{ var: 'assets' }, 3000] },
+    explanation: rule.explanation,
+    translations: { es: { explanation: rule.translations.es.explanation } },
+    version: { major: 1, minor: 0, patch: 0 },
+    citations: [{ title: '7 CFR 273.8' }],
+    active: true,
+    createdAt: 1,
+    updatedAt: 1,
+  };
+
+  it('accepts translations keyed by language code', () => {
+    expect(RuleDefinitionSchema.safeParse(definition).success).toBe(true);
+    expect(RuleDefinitionSchema.safeParse({ ...definition, translations: { Spanish: {} } }).success).toBe(false);
+  });
+
+  it('keeps translations when converting a stored rule back to a definition', () => {
+    const stored = {
+      ...definition,
+      version: JSON.stringify(definition.version),
+    } as unknown as EligibilityRule;
+
+    const converted: RuleDefinition = convertDatabaseRuleToDefinition(stored, {});
+
+    expect(converted.translations).toEqual(definition.translations);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Rule Package Diff Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffRule, diffRulePackages, formatRulePackageDiff } from '../core/packageDiff';
+import type { RuleDefinition, RulePackage } from '../core/schema';
+
+function createRule(overrides: Partial<RuleDefinition> = {}): RuleDefinition {
+  return {
+    id: 'income',
+    programId: 'snap',
+    name: 'Income Test',
+    ruleLogic: { '<=': [{ var: 'householdIncome' }, 2000] },
+    ruleType: 'eligibility',
+    requiredFields: ['householdIncome'],
+    version: { major: 1, minor: 0, patch: 0 },
+    citations: [{ title: 'Source', url: 'https://example.gov' }],
+    active: true,
+    ...overrides,
+  } as RuleDefinition;
+}
+
+function createPackage(rules: RuleDefinition[], minor = 0): RulePackage {
+  return {
+    metadata: {
+      id: 'snap-rules',
+      name: 'SNAP Rules',
+      version: { major: 1, minor, patch: 0 },
+    },
+    rules,
+  } as RulePackage;
+}
+
+const profiles = [
+  { id: 'low', data: { householdIncome: 1500, citizenship: 'us_citizen' } },
+  { id: 'middle', description: 'Between limits', data: { householdIncome: 1900, citizenship: 'us_citizen' } },
+  { id: 'high', data: { householdIncome: 2500, citizenship: 'us_citizen' } },
+];
+
+describe('Rule Package Diff', () => {
+  describe('diffRule', () => {
+    it('reports threshold changes with old and new values', () => {
+      const diff = diffRule(
+        createRule(),
+        createRule({ ruleLogic: { '<=': [{ var: 'householdIncome' }, 1800] } })
+      );
+
+      expect(diff.changedFields).toEqual(['ruleLogic']);
+      expect(diff.thresholdChanges).toEqual([{ path: '<=[1]', before: 2000, after: 1800 }]);
+      expect(diff.logicChanged).toBe(false);
+    });
+
+    it('flags structural logic changes and required field changes', () => {
+      const diff = diffRule(
+        createRule(),
+        createRule({
+          ruleLogic: { '<': [{ var: 'earnedIncome' }, 2000] },
+          requiredFields: ['earnedIncome'],
+        })
+      );
+
+      expect(diff.logicChanged).toBe(true);
+      expect(diff.thresholdChanges).toEqual([]);
+      expect(diff.requiredFields).toEqual({ added: ['earnedIncome'], removed: ['householdIncome'] });
+    });
+
+    it('ignores changelog entries', () => {
+      const diff = diffRule(
+        createRule(),
+        createRule({ changelog: [{ version: { major: 1, minor: 0, patch: 1 }, date: 1, description: 'Typo' }] } as Partial<RuleDefinition>)
+      );
+
+      expect(diff.changedFields).toEqual([]);
+    });
+  });
+
+  describe('diffRulePackages', () => {
+    it('lists added, removed and changed rules', () => {
+      const before = createPackage([createRule(), createRule({ id: 'residence', name: 'Residence' })]);
+      const after = createPackage([
+        createRule({ name: 'Gross Income Test' }),
+        createRule({ id: 'assets', name: 'Asset Test' }),
+      ], 1);
+
+      const diff = diffRulePackages(before, after);
+
+      expect(diff.before.version).toBe('1.0.0');
+      expect(diff.after.version).toBe('1.1.0');
+      expect(diff.addedRules).toEqual([{ ruleId: 'assets', programId: 'snap', name: 'Asset Test' }]);
+      expect(diff.removedRules).toEqual([{ ruleId: 'residence', programId: 'snap', name: 'Residence' }]);
+      expect(diff.changedRules.map(rule => rule.changedFields)).toEqual([['name']]);
+    });
+
+    it('finds profiles that flip between eligible and ineligible', () => {
+      const before = createPackage([createRule()]);
+      const after = createPackage([createRule({ ruleLogic: { '<=': [{ var: 'householdIncome' }, 1800] } })]);
+
+      const diff = diffRulePackages(before, after, { profiles });
+
+      expect(diff.programsCompared).toEqual(['snap']);
+      expect(diff.profilesCompared).toBe(3);
+      expect(diff.flips).toEqual([
+        { profileId: 'middle', description: 'Between limits', programId: 'snap', before: true, after: false },
+      ]);
+    });
+
+    it('requires every eligibility rule but skips benefit amount, inactive and draft rules', () => {
+      const citizenship = createRule({ id: 'citizenship', ruleLogic: { '==': [{ var: 'citizenship' }, 'us_citizen'] } });
+      const before = createPackage([createRule(), citizenship]);
+      const after = createPackage([
+        createRule(),
+        citizenship,
+        createRule({ id: 'amount', ruleType: 'benefit_amount', ruleLogic: { '-': [300, 10] } }),
+        createRule({ id: 'draft', draft: true, ruleLogic: false }),
+        createRule({ id: 'inactive', active: false, ruleLogic: false }),
+      ]);
+
+      expect(diffRulePackages(before, after, { profiles }).flips).toEqual([]);
+    });
+
+    it('supplies the poverty guideline year for the evaluation date', () => {
+      const rule = createRule({ ruleLogic: { '>=': [{ var: 'fplYear' }, 2025] } });
+      const before = createPackage([createRule({ ruleLogic: true })]);
+      const after = createPackage([rule]);
+
+      expect(diffRulePackages(before, after, { profiles, asOf: '2024-06-01' }).flips).toHaveLength(3);
+      expect(diffRulePackages(before, after, { profiles, asOf: '2025-06-01' }).flips).toHaveLength(0);
+    });
+  });
+
+  describe('formatRulePackageDiff', () => {
+    it('formats thresholds and flips as Markdown', () => {
+      const report = formatRulePackageDiff(diffRulePackages(
+        createPackage([createRule()]),
+        createPackage([createRule({ ruleLogic: { '<=': [{ var: 'householdIncome' }, 1800] } })], 1),
+        { profiles }
+      ));
+
+      expect(report).toContain('# snap-rules 1.0.0 → snap-rules 1.1.0');
+      expect(report).toContain('- Threshold `<=[1]`: 2000 → 1800');
+      expect(report).toContain('- middle (Between limits), snap: eligible → ineligible');
+    });
+  });
+});
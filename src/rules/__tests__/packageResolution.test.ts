@@ -0,0 +1,135 @@
+/**
+ * Rule Package Resolution Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolvePackageRules, type ResolvablePackage } from '../core/packageResolution';
+import { loadProgramRules } from '../dynamic-loader';
+
+const federal: ResolvablePackage = {
+  metadata: { id: 'snap-federal' },
+  rules: [
+    { id: 'gross-income' },
+    { id: 'net-income' },
+    { id: 'citizenship' },
+  ],
+};
+
+const texas: ResolvablePackage = {
+  metadata: { id: 'snap-texas', extends: ['snap-federal'] },
+  rules: [
+    { id: 'tx-gross-income', overrides: 'gross-income' },
+    { id: 'tx-application' },
+  ],
+};
+
+describe('resolvePackageRules', () => {
+  it('replaces overridden rules and keeps the rest of the base package', () => {
+    const resolved = resolvePackageRules('snap-texas', [federal, texas]);
+
+    expect(resolved.rules.map(rule => rule.id)).toEqual([
+      'net-income',
+      'citizenship',
+      'tx-gross-income',
+      'tx-application',
+    ]);
+    expect(resolved.issues).toEqual([]);
+  });
+
+  it('reports which rule won', () => {
+    const resolved = resolvePackageRules('snap-texas', [federal, texas]);
+
+    expect(resolved.resolution).toContainEqual({
+      ruleId: 'gross-income',
+      packageId: 'snap-federal',
+      overriddenBy: { ruleId: 'tx-gross-income', packageId: 'snap-texas' },
+    });
+    expect(resolved.resolution).toContainEqual({ ruleId: 'net-income', packageId: 'snap-federal' });
+    expect(resolved.resolution).toContainEqual({ ruleId: 'tx-gross-income', packageId: 'snap-texas' });
+  });
+
+  it('resolves multi-level extends', () => {
+    const county: ResolvablePackage = {
+      metadata: { id: 'snap-harris', extends: ['snap-texas'] },
+      rules: [{ id: 'harris-net-income', overrides: 'net-income' }],
+    };
+
+    const resolved = resolvePackageRules('snap-harris', [federal, texas, county]);
+
+    expect(resolved.rules.map(rule => rule.id)).toEqual([
+      'citizenship',
+      'tx-gross-income',
+      'tx-application',
+      'harris-net-income',
+    ]);
+  });
+
+  it('flags orphaned overrides', () => {
+    const pkg: ResolvablePackage = {
+      metadata: { id: 'snap-texas', extends: ['snap-federal'] },
+      rules: [{ id: 'tx-asset-limit', overrides: 'asset-limit' }],
+    };
+
+    const resolved = resolvePackageRules('snap-texas', [federal, pkg]);
+
+    expect(resolved.issues).toEqual([
+      expect.objectContaining({ type: 'orphaned-override', ruleId: 'tx-asset-limit' }),
+    ]);
+    expect(resolved.rules.map(rule => rule.id)).toContain('tx-asset-limit');
+  });
+
+  it('flags conflicting duplicates', () => {
+    const pkg: ResolvablePackage = {
+      metadata: { id: 'snap-texas', extends: ['snap-federal'] },
+      rules: [
+        { id: 'citizenship' },
+        { id: 'tx-gross-income', overrides: 'gross-income' },
+        { id: 'tx-gross-income-2', overrides: 'gross-income' },
+      ],
+    };
+
+    const resolved = resolvePackageRules('snap-texas', [federal, pkg]);
+
+    expect(resolved.issues.map(issue => [issue.type, issue.ruleId])).toEqual([
+      ['conflicting-duplicate', 'citizenship'],
+      ['conflicting-duplicate', 'tx-gross-income-2'],
+    ]);
+    expect(resolved.rules.filter(rule => rule.id === 'citizenship')).toHaveLength(1);
+  });
+
+  it('flags missing bases and circular extends', () => {
+    const a: ResolvablePackage = { metadata: { id: 'a', extends: ['b'] }, rules: [{ id: 'a-rule' }] };
+    const b: ResolvablePackage = { metadata: { id: 'b', extends: ['a', 'missing'] }, rules: [{ id: 'b-rule' }] };
+
+    const resolved = resolvePackageRules('a', [a, b]);
+
+    expect(resolved.issues.map(issue => issue.type).sort()).toEqual(['circular-extends', 'missing-base']);
+    expect(resolved.rules.map(rule => rule.id)).toEqual(['b-rule', 'a-rule']);
+  });
+});
+
+describe('loadProgramRules', () => {
+  it('merges Texas SNAP with the federal package it extends', async () => {
+    const result = await loadProgramRules('snap', 'TX');
+    const ruleIds = result.rules.snap.rules.map(rule => rule.id);
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(ruleIds).toContain('snap-tx-gross-income-limit');
+    expect(ruleIds).toContain('snap-federal-residence');
+    expect(ruleIds).not.toContain('snap-federal-gross-income');
+    expect(result.resolution?.snap).toContainEqual({
+      ruleId: 'snap-federal-gross-income',
+      packageId: 'snap-federal-rules-2024',
+      overriddenBy: { ruleId: 'snap-tx-gross-income-limit', packageId: 'snap-texas-rules-2024' },
+    });
+  });
+
+  it('lets a state package that does not extend federal replace it', async () => {
+    const result = await loadProgramRules('snap', 'ID');
+    const ruleIds = result.rules.snap.rules.map(rule => rule.id);
+
+    expect(ruleIds).not.toContain('snap-federal-residence');
+    expect(result.resolution?.snap).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Program Dependency Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getProgramCategory,
+  orderProgramsByDependencies,
+  buildCategoricalContext,
+  findDecisiveCategoricalSources,
+  describeCategoricalEligibility,
+} from '../core/eligibility/evaluation/programDependencies';
+import type { EligibilityEvaluationResult } from '../core/eligibility/types';
+
+function result(programId: string, eligible: boolean): EligibilityEvaluationResult {
+  return {
+    profileId: 'profile-1',
+    programId,
+    ruleId: `${programId}-rule`,
+    eligible,
+    confidence: 90,
+    reason: '',
+    evaluatedAt: 0,
+  };
+}
+
+describe('Program Dependencies', () => {
+  describe('getProgramCategory', () => {
+    it('maps federal and state program IDs to program families', () => {
+      expect(getProgramCategory('snap-federal')).toBe('snap');
+      expect(getProgramCategory('calfresh')).toBe('snap');
+      expect(getProgramCategory('medi-cal-pregnancy')).toBe('medicaid');
+      expect(getProgramCategory('medicaid-disabled-texas')).toBe('medicaid');
+      expect(getProgramCategory('section8-federal')).toBeUndefined();
+    });
+  });
+
+  describe('orderProgramsByDependencies', () => {
+    it('evaluates conferring programs first and keeps other programs in order', () => {
+      const ordered = orderProgramsByDependencies([
+        'wic-federal',
+        'section8-federal',
+        'snap-federal',
+        'medicaid-federal',
+        'tanf-federal',
+        'ssi-federal',
+      ]);
+
+      expect(ordered.indexOf('tanf-federal')).toBeLessThan(ordered.indexOf('snap-federal'));
+      expect(ordered.indexOf('ssi-federal')).toBeLessThan(ordered.indexOf('medicaid-federal'));
+      expect(ordered.indexOf('snap-federal')).toBeLessThan(ordered.indexOf('wic-federal'));
+      expect(ordered.indexOf('medicaid-federal')).toBeLessThan(ordered.indexOf('wic-federal'));
+      expect(ordered[0]).toBe('section8-federal');
+      expect(ordered).toHaveLength(6);
+    });
+  });
+
+  describe('buildCategoricalContext', () => {
+    it('sets variables only for eligible conferring programs', () => {
+      const results = new Map([
+        ['medicaid-georgia', result('medicaid-georgia', true)],
+        ['snap-federal', result('snap-federal', false)],
+        ['ssi-federal', result('ssi-federal', true)],
+      ]);
+
+      expect(buildCategoricalContext('wic-federal', results)).toEqual({
+        variables: { likelyEligibleMedicaid: true },
+        sourceProgramIds: ['medicaid-georgia'],
+      });
+      expect(buildCategoricalContext('section8-federal', results).sourceProgramIds).toEqual([]);
+    });
+  });
+
+  describe('findDecisiveCategoricalSources', () => {
+    const context = {
+      variables: { likelyEligibleSNAP: true, likelyEligibleMedicaid: true },
+      sourceProgramIds: ['snap-federal', 'medicaid-georgia'],
+    };
+
+    it('credits sources whose variables made a rule pass', () => {
+      const rules = [{
+        ruleLogic: { or: [{ var: 'likelyEligibleSNAP' }, { '<': [{ var: 'householdIncome' }, 1000] }] },
+        ruleType: 'eligibility' as const,
+      }];
+
+      expect(findDecisiveCategoricalSources(rules, { householdIncome: 3000, ...context.variables }, context))
+        .toEqual(['snap-federal']);
+    });
+
+    it('credits nothing when the program passes its own tests', () => {
+      const rules = [{
+        ruleLogic: { or: [{ var: 'likelyEligibleSNAP' }, { '<': [{ var: 'householdIncome' }, 5000] }] },
+        ruleType: 'eligibility' as const,
+      }];
+
+      expect(findDecisiveCategoricalSources(rules, { householdIncome: 3000, ...context.variables }, context))
+        .toEqual([]);
+    });
+  });
+
+  describe('describeCategoricalEligibility', () => {
+    it('names each conferring program once', () => {
+      expect(describeCategoricalEligibility('wic-federal', ['medicaid-federal', 'medicaid-georgia'])).toEqual([
+        'You likely qualify for WIC because you likely qualify for Medicaid.',
+      ]);
+    });
+  });
+});
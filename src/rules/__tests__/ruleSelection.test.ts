@@ -0,0 +1,71 @@
+/**
+ * Rule Selection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isRuleInEffect,
+  selectRulesInEffect,
+  type DatedRule,
+} from '../core/eligibility/evaluation/ruleSelection';
+
+const FY2025_START = Date.UTC(2024, 9, 1);
+const FY2026_START = Date.UTC(2025, 9, 1);
+
+describe('Rule Selection', () => {
+  describe('isRuleInEffect', () => {
+    it('treats rules without dates as always in effect', () => {
+      expect(isRuleInEffect({ id: 'rule', active: true }, FY2025_START)).toBe(true);
+    });
+
+    it('excludes inactive rules', () => {
+      expect(isRuleInEffect({ id: 'rule', active: false }, FY2025_START)).toBe(false);
+    });
+
+    it('includes the effective and expiration dates', () => {
+      const rule: DatedRule = {
+        id: 'rule',
+        active: true,
+        effectiveDate: FY2025_START,
+        expirationDate: FY2026_START - 1,
+      };
+
+      expect(isRuleInEffect(rule, FY2025_START - 1)).toBe(false);
+      expect(isRuleInEffect(rule, FY2025_START)).toBe(true);
+      expect(isRuleInEffect(rule, FY2026_START - 1)).toBe(true);
+      expect(isRuleInEffect(rule, FY2026_START)).toBe(false);
+    });
+  });
+
+  describe('selectRulesInEffect', () => {
+    const current: DatedRule = { id: 'snap-gross-fy2025', active: true, effectiveDate: FY2025_START };
+    const upcoming: DatedRule = {
+      id: 'snap-gross-fy2026',
+      active: true,
+      effectiveDate: FY2026_START,
+      supersedes: 'snap-gross-fy2025',
+    };
+    const unrelated: DatedRule = { id: 'snap-citizenship', active: true };
+
+    it('keeps the superseded rule until its replacement takes effect', () => {
+      const selected = selectRulesInEffect([current, upcoming, unrelated], Date.UTC(2025, 5, 1));
+      expect(selected.map(rule => rule.id)).toEqual(['snap-gross-fy2025', 'snap-citizenship']);
+    });
+
+    it('switches to the replacement once it takes effect', () => {
+      const selected = selectRulesInEffect([current, upcoming, unrelated], Date.UTC(2025, 11, 1));
+      expect(selected.map(rule => rule.id)).toEqual(['snap-gross-fy2026', 'snap-citizenship']);
+    });
+
+    it('keeps the superseded rule when the replacement has expired', () => {
+      const expired = { ...upcoming, expirationDate: Date.UTC(2025, 10, 1) };
+      const selected = selectRulesInEffect([current, expired], Date.UTC(2025, 11, 1));
+      expect(selected.map(rule => rule.id)).toEqual(['snap-gross-fy2025']);
+    });
+
+    it('drops expired rules', () => {
+      const expired = { ...current, expirationDate: FY2026_START - 1 };
+      expect(selectRulesInEffect([expired], FY2026_START)).toEqual([]);
+    });
+  });
+});
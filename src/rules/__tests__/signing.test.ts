@@ -0,0 +1,137 @@
+/**
+ * Rule Package Signing Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  canonicalJSONStringify,
+  generateSigningKeyPair,
+  signRulePackage,
+  verifyRulePackageSignature,
+} from '../core/import-export/signing';
+import { importRulePackage } from '../core/import-export/importers';
+import { IMPORT_ERROR_CODES } from '../core/import-export/constants';
+import { TRUSTED_SIGNING_KEYS, type TrustedSigningKey } from '../core/import-export/trustedKeys';
+import type { RulePackage } from '../core/schema';
+
+function createPackage(): RulePackage {
+  return {
+    metadata: {
+      id: 'package-1',
+      name: 'SNAP FY2026 Update',
+      version: { major: 1, minor: 0, patch: 0 },
+      createdAt: 1727740800000,
+      updatedAt: 1727740800000,
+    },
+    rules: [],
+  };
+}
+
+describe('Rule Package Signing', () => {
+  let keyPair: CryptoKeyPair;
+  let trustedKeys: TrustedSigningKey[];
+
+  beforeAll(async () => {
+    keyPair = await generateSigningKeyPair();
+    trustedKeys = [{
+      keyId: 'benefit-finder-2025',
+      name: 'BenefitFinder Maintainers',
+      publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    }];
+  });
+
+  const sign = (pkg: RulePackage): Promise<RulePackage> =>
+    signRulePackage(pkg, { keyId: 'benefit-finder-2025', privateKey: keyPair.privateKey });
+
+  describe('canonicalJSONStringify', () => {
+    it('sorts object keys at every level', () => {
+      expect(canonicalJSONStringify({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: 3 } }))
+        .toBe('{"a":{"c":3,"d":[2,{"e":0,"f":1}]},"b":1}');
+    });
+  });
+
+  describe('verifyRulePackageSignature', () => {
+    it('verifies a package signed by a trusted key', async () => {
+      const signed = await sign(createPackage());
+
+      expect(signed.signatureKeyId).toBe('benefit-finder-2025');
+      expect(await verifyRulePackageSignature(signed, trustedKeys)).toEqual({
+        status: 'verified',
+        keyId: 'benefit-finder-2025',
+        signer: 'BenefitFinder Maintainers',
+      });
+    });
+
+    it('verifies after a JSON round trip that reorders keys', async () => {
+      const signed = await sign(createPackage());
+      const { metadata, ...rest } = JSON.parse(JSON.stringify(signed)) as RulePackage;
+      const reordered = { ...rest, metadata: Object.fromEntries(Object.entries(metadata).reverse()) as RulePackage['metadata'] };
+
+      expect((await verifyRulePackageSignature(reordered, trustedKeys)).status).toBe('verified');
+    });
+
+    it('detects tampering', async () => {
+      const signed = await sign(createPackage());
+      const tampered = { ...signed, metadata: { ...signed.metadata, name: 'Something Else' } };
+
+      expect((await verifyRulePackageSignature(tampered, trustedKeys)).status).toBe('invalid');
+    });
+
+    it('reports unsigned packages and unknown keys', async () => {
+      const signed = await sign(createPackage());
+
+      expect(await verifyRulePackageSignature(createPackage(), trustedKeys)).toEqual({ status: 'unsigned' });
+      expect(await verifyRulePackageSignature(signed, [])).toEqual({ status: 'untrusted', keyId: 'benefit-finder-2025' });
+    });
+  });
+
+  describe('importRulePackage', () => {
+    it('refuses a tampered package', async () => {
+      const signed = await sign(createPackage());
+      const tampered = { ...signed, metadata: { ...signed.metadata, name: 'Something Else' } };
+
+      const result = await importRulePackage(tampered, { trustedKeys });
+
+      expect(result.success).toBe(false);
+      expect(result.signature?.status).toBe('invalid');
+      expect(result.errors[0].code).toBe(IMPORT_ERROR_CODES.SIGNATURE_INVALID);
+    });
+
+    it('refuses unsigned and untrusted packages unless the caller opts out', async () => {
+      const refused = await importRulePackage(createPackage(), { trustedKeys });
+      expect(refused.success).toBe(false);
+      expect(refused.errors[0].code).toBe(IMPORT_ERROR_CODES.SIGNATURE_REQUIRED);
+
+      const untrusted = await importRulePackage(await sign(createPackage()), { trustedKeys: [] });
+      expect(untrusted.success).toBe(false);
+      expect(untrusted.signature?.status).toBe('untrusted');
+
+      const allowed = await importRulePackage(createPackage(), { trustedKeys, requireSignature: false });
+      expect(allowed.success).toBe(true);
+      expect(allowed.warnings.map(w => w.message)).toContain('Package is not signed');
+    });
+
+    it('reports the signer of a verified package', async () => {
+      const result = await importRulePackage(await sign(createPackage()), { trustedKeys });
+
+      expect(result.success).toBe(true);
+      expect(result.signature).toEqual({
+        status: 'verified',
+        keyId: 'benefit-finder-2025',
+        signer: 'BenefitFinder Maintainers',
+      });
+    });
+  });
+
+  describe('TRUSTED_SIGNING_KEYS', () => {
+    it('bundles at least one usable ECDSA P-256 public key', async () => {
+      expect(TRUSTED_SIGNING_KEYS.length).toBeGreaterThan(0);
+
+      for (const key of TRUSTED_SIGNING_KEYS) {
+        expect(key.publicKey).not.toHaveProperty('d');
+        await expect(crypto.subtle.importKey('jwk', key.publicKey, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']))
+          .resolves.toBeDefined();
+      }
+    });
+  });
+});
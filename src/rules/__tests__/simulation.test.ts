@@ -0,0 +1,176 @@
+/**
+ * Population Simulation Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createSeededRandom,
+  generatePopulation,
+  buildSimulationPrograms,
+  simulateEligibility,
+  compareSimulations,
+  formatSimulationReport,
+  type SimulationProgram,
+  type SyntheticHousehold,
+} from '../core/simulation';
+import { registerBenefitOperators } from '../core/evaluator';
+import type { RuleDefinition, RulePackage } from '../core/schema';
+import federalRules from '../federal';
+
+function createRule(overrides: Partial<RuleDefinition>): RuleDefinition {
+  return {
+    id: 'rule',
+    programId: 'snap-federal',
+    name: 'Rule',
+    ruleLogic: true,
+    ruleType: 'eligibility',
+    version: { major: 1, minor: 0, patch: 0 },
+    citations: [{ title: 'Source', url: 'https://example.gov' }],
+    active: true,
+    ...overrides,
+  } as RuleDefinition;
+}
+
+function incomeLimit(programId: string, monthlyLimit: number): SimulationProgram {
+  return {
+    programId,
+    rules: [createRule({
+      id: `${programId}-income`,
+      programId,
+      name: 'Gross Income Limit',
+      ruleLogic: { '<=': [{ var: 'householdIncome' }, monthlyLimit] },
+    })],
+  };
+}
+
+const population: SyntheticHousehold[] = [
+  { id: 'a', profile: { householdSize: 1, householdIncome: 12000, incomePeriod: 'annual', state: 'GA' } },
+  { id: 'b', profile: { householdSize: 2, householdIncome: 24000, incomePeriod: 'annual', state: 'GA' } },
+  { id: 'c', profile: { householdSize: 3, householdIncome: 60000, incomePeriod: 'annual', state: 'TX' } },
+];
+
+describe('Population Simulation', () => {
+  beforeAll(() => {
+    registerBenefitOperators();
+  });
+
+  describe('generatePopulation', () => {
+    it('produces the same population for the same seed', () => {
+      const options = { size: 25, seed: 42, referenceDate: Date.UTC(2025, 0, 1) };
+
+      expect(generatePopulation(options)).toEqual(generatePopulation(options));
+      expect(generatePopulation({ ...options, seed: 43 })).not.toEqual(generatePopulation(options));
+      expect(createSeededRandom(1)()).toBe(createSeededRandom(1)());
+    });
+
+    it('draws states and counties from the options', () => {
+      const households = generatePopulation({
+        size: 50,
+        seed: 3,
+        states: ['GA', 'TX'],
+        counties: { GA: ['Fulton County'] },
+      });
+
+      expect(households).toHaveLength(50);
+      expect(new Set(households.map(h => h.profile.state))).toEqual(new Set(['GA', 'TX']));
+      households.forEach(({ profile }) => {
+        expect(profile.county).toBe(profile.state === 'GA' ? 'Fulton County' : undefined);
+        expect(profile.householdSize).toBeGreaterThanOrEqual(1);
+        expect(profile.householdIncome).toBeGreaterThanOrEqual(0);
+        expect(profile.dateOfBirth).toMatch(/^\d{4}-07-01$/);
+        expect(profile.assets).toBeDefined();
+      });
+    });
+  });
+
+  describe('buildSimulationPrograms', () => {
+    it('includes inherited federal rules in state programs and limits them to the state', () => {
+      const federal = {
+        metadata: { id: 'snap-federal-rules', jurisdiction: 'US' },
+        rules: [createRule({ id: 'snap-federal-income' }), createRule({ id: 'snap-federal-residence' })],
+      } as unknown as RulePackage;
+      const georgia = {
+        metadata: { id: 'snap-georgia-rules', jurisdiction: 'US-GA', extends: ['snap-federal-rules'] },
+        rules: [createRule({ id: 'snap-ga-income', programId: 'snap-georgia', overrides: 'snap-federal-income' })],
+      } as unknown as RulePackage;
+
+      const programs = buildSimulationPrograms([federal, georgia]);
+
+      expect(programs.map(p => [p.programId, p.state, p.rules.map(r => r.id)])).toEqual([
+        ['snap-federal', undefined, ['snap-federal-income', 'snap-federal-residence']],
+        ['snap-georgia', 'GA', ['snap-federal-residence', 'snap-ga-income']],
+      ]);
+    });
+  });
+
+  describe('simulateEligibility', () => {
+    it('reports eligibility rates per program and state', async () => {
+      const report = await simulateEligibility(population, [
+        incomeLimit('snap-federal', 2100),
+        { ...incomeLimit('snap-georgia', 1500), state: 'GA' },
+      ], { asOf: Date.UTC(2025, 5, 1) });
+
+      expect(report.programs['snap-federal']).toEqual({ evaluated: 3, eligible: 2, undetermined: 0, rate: 66.7 });
+      expect(report.programs['snap-georgia']).toEqual({ evaluated: 2, eligible: 1, undetermined: 0, rate: 50 });
+      expect(report.byState.TX).toEqual({ 'snap-federal': { evaluated: 1, eligible: 0, undetermined: 0, rate: 0 } });
+      expect(report.outcomes.b).toEqual({ 'snap-federal': 'eligible', 'snap-georgia': 'ineligible' });
+    });
+
+    it('counts households missing answers as undetermined, not ineligible', async () => {
+      const report = await simulateEligibility(population, [{
+        programId: 'ssi-federal',
+        rules: [createRule({
+          id: 'ssi-assets',
+          programId: 'ssi-federal',
+          ruleLogic: { '<=': [{ var: 'totalAssets' }, 2000] },
+          requiredFields: ['assets'],
+        })],
+      }]);
+
+      expect(report.programs['ssi-federal']).toEqual({ evaluated: 3, eligible: 0, undetermined: 3, rate: 0 });
+      expect(report.outcomes.a).toEqual({ 'ssi-federal': 'undetermined' });
+      expect(formatSimulationReport(report)).toContain('| ssi-federal | 0% (0/3) | 3 |');
+    });
+
+    it('determines the bundled federal programs for a generated population', async () => {
+      const asOf = Date.UTC(2025, 5, 1);
+      const households = generatePopulation({ size: 40, seed: 3, referenceDate: asOf });
+      const programs = buildSimulationPrograms(Object.values(federalRules) as unknown as RulePackage[]);
+
+      const report = await simulateEligibility(households, programs, { asOf });
+
+      for (const programId of ['snap-federal', 'ssi-federal', 'tanf-federal', 'medicaid-federal', 'wic-federal']) {
+        expect(report.programs[programId]).toMatchObject({ evaluated: 40, undetermined: 0 });
+      }
+      expect(report.programs['snap-federal'].eligible).toBeGreaterThan(0);
+      expect(report.programs['tanf-federal'].eligible).toBeGreaterThan(0);
+    });
+
+    it('passes categorical eligibility from earlier programs', async () => {
+      const report = await simulateEligibility(population, [
+        {
+          programId: 'wic-federal',
+          rules: [createRule({ id: 'wic-adjunctive', programId: 'wic-federal', ruleLogic: { var: 'likelyEligibleSNAP' } })],
+        },
+        incomeLimit('snap-federal', 1500),
+      ]);
+
+      expect(report.outcomes.a).toEqual({ 'snap-federal': 'eligible', 'wic-federal': 'eligible' });
+      expect(report.outcomes.c).toEqual({ 'snap-federal': 'ineligible', 'wic-federal': 'ineligible' });
+    });
+  });
+
+  describe('compareSimulations', () => {
+    it('counts households that gain or lose eligibility', async () => {
+      const before = await simulateEligibility(population, [incomeLimit('snap-federal', 2100)]);
+      const after = await simulateEligibility(population, [incomeLimit('snap-federal', 1500)]);
+
+      const delta = compareSimulations(before, after);
+
+      expect(delta.programs['snap-federal']).toMatchObject({ rateChange: -33.4, gained: 0, lost: 1 });
+      expect(delta.byState.GA['snap-federal'].rateChange).toBe(-50);
+      expect(delta.householdsAffected).toBe(1);
+      expect(formatSimulationReport(after, delta)).toContain('| snap-federal | 66.7% (2/3) | 33.3% (1/3) | -33.4 | 0 | 1 |');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Three-Valued Evaluation Tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { evaluateThreeValued, getRuleVariables } from '../core/threeValued';
+import { registerBenefitOperators } from '../core/evaluator';
+
+const snapOrIncome = {
+  or: [
+    { var: 'receivesSNAP' },
+    { '<=': [{ var: 'householdIncome' }, 2000] },
+  ],
+};
+
+describe('Three-Valued Evaluation', () => {
+  beforeAll(() => {
+    registerBenefitOperators();
+  });
+
+  it('resolves or when the answered side passes', () => {
+    expect(evaluateThreeValued(snapOrIncome, { householdIncome: 1500 })).toEqual({ value: true, unknownFields: [] });
+  });
+
+  it('names the unanswered question when the answered side does not settle it', () => {
+    expect(evaluateThreeValued(snapOrIncome, { householdIncome: 2500 })).toEqual({
+      value: 'unknown',
+      unknownFields: ['receivesSNAP'],
+    });
+  });
+
+  it('fails and when any answered part fails', () => {
+    const rule = { and: [{ var: 'isCitizen' }, { '>=': [{ var: 'age' }, 65] }] };
+
+    expect(evaluateThreeValued(rule, { age: 40 })).toEqual({ value: false, unknownFields: [] });
+    expect(evaluateThreeValued(rule, { age: 70 })).toEqual({ value: 'unknown', unknownFields: ['isCitizen'] });
+  });
+
+  it('keeps negation unknown and settles if when both branches agree', () => {
+    expect(evaluateThreeValued({ '!': { var: 'hasCriminalHistory' } }, {}).value).toBe('unknown');
+    expect(evaluateThreeValued({ if: [{ var: 'isMarried' }, true, true] }, {}).value).toBe(true);
+    expect(evaluateThreeValued({
+      if: [{ var: 'isMarried' }, { '<=': [{ var: 'assets' }, 3000] }, { '<=': [{ var: 'assets' }, 2000] }],
+    }, { assets: 2500 })).toEqual({ value: 'unknown', unknownFields: ['isMarried'] });
+  });
+
+  it('treats only the given fields as unanswered', () => {
+    expect(evaluateThreeValued(snapOrIncome, { householdIncome: 2500 }, { unknownFields: [] }).value).toBe(false);
+    expect(evaluateThreeValued(snapOrIncome, { householdIncome: 1500, receivesSNAP: false }, {
+      unknownFields: ['householdIncome'],
+    })).toEqual({ value: 'unknown', unknownFields: ['householdIncome'] });
+  });
+
+  it('leaves out variables with defaults and array item variables', () => {
+    expect(getRuleVariables({
+      and: [
+        { '<=': [{ var: ['earnedIncome', 0] }, { var: 'limit' }] },
+        { some: [{ var: 'householdMembers' }, { '>=': [{ var: 'age' }, 60] }] },
+      ],
+    })).toEqual(['limit', 'householdMembers']);
+  });
+});
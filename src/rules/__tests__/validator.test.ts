@@ -7,6 +7,7 @@ import {
   validateRule,
   isValidRule,
   sanitizeRule,
+  validateRuleVariables,
   STANDARD_OPERATORS,
 } from '../core/validator';
 import type { JsonLogicRule } from '../core/types';
@@ -135,6 +136,61 @@ describe('Rule Validator', () => {
     });
   });
 
+  describe('validateRuleVariables', () => {
+    it('should accept registered variables used as their type', () => {
+      const rule: JsonLogicRule = {
+        and: [
+          { '<=': [{ var: 'householdIncome' }, 2000] },
+          { '==': [{ var: 'isPregnant' }, true] },
+          { '==': [{ var: 'state' }, 'TX'] },
+          { var: 'livesInTexas' },
+          { '>': [{ var: 'assets.cash' }, 0] },
+        ],
+      };
+
+      expect(validateRuleVariables(rule)).toEqual([]);
+    });
+
+    it('should warn about unknown variables', () => {
+      const rule: JsonLogicRule = { '>': [{ var: 'houseHoldIncome' }, 0] };
+
+      expect(validateRuleVariables(rule)).toEqual([
+        expect.objectContaining({ code: 'VAL_UNKNOWN_VARIABLE', path: ['houseHoldIncome'] }),
+      ]);
+    });
+
+    it('should warn about variables used as the wrong type', () => {
+      const rule: JsonLogicRule = {
+        and: [
+          { '>': [{ var: 'isPregnant' }, 0] },
+          { '==': [{ var: 'age' }, 'adult'] },
+        ],
+      };
+
+      const warnings = validateRuleVariables(rule);
+
+      expect(warnings.map((w) => [w.code, w.path])).toEqual([
+        ['VAL_VARIABLE_TYPE_MISMATCH', ['isPregnant']],
+        ['VAL_VARIABLE_TYPE_MISMATCH', ['age']],
+      ]);
+    });
+
+    it('should not check item-relative variables inside array operators', () => {
+      const rule: JsonLogicRule = {
+        some: [{ var: 'householdMembers' }, { '<': [{ var: 'age' }, 6] }],
+      };
+
+      expect(validateRuleVariables(rule)).toEqual([]);
+    });
+
+    it('should report variable warnings from validateRule unless disabled', () => {
+      const rule: JsonLogicRule = { '>': [{ var: 'unregistered' }, 0] };
+
+      expect(validateRule(rule).warnings.some((w) => w.code === 'VAL_UNKNOWN_VARIABLE')).toBe(true);
+      expect(validateRule(rule, { checkVariables: false }).warnings).toEqual([]);
+    });
+  });
+
   describe('isValidRule', () => {
     it('should return true for valid rule', () => {
       const rule: JsonLogicRule = { '>': [{ var: 'age' }, 18] };
@@ -0,0 +1,57 @@
+/**
+ * Variable Registry Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FIELD_NAME_MAPPINGS,
+  VARIABLE_REGISTRY,
+  capitalizeLabel,
+  getVariableDefinition,
+  getVariableLabel,
+  getVariableLabels,
+  humanizeVariableName,
+  isKnownVariable,
+} from '../core/variables';
+
+describe('Variable Registry', () => {
+  it('keys every definition by its name and label key', () => {
+    for (const [name, definition] of Object.entries(VARIABLE_REGISTRY)) {
+      expect(definition.name).toBe(name);
+      expect(definition.labelKey).toBe(`variables.${name}`);
+    }
+  });
+
+  it('describes money variables with a unit and period', () => {
+    expect(getVariableDefinition('householdIncome')).toMatchObject({
+      type: 'number',
+      unit: 'usd',
+      period: 'monthly',
+    });
+  });
+
+  it('resolves pattern variables and dotted paths', () => {
+    expect(getVariableDefinition('livesInOhio')).toMatchObject({ name: 'livesInOhio', type: 'boolean' });
+    expect(getVariableDefinition('ami50')).toMatchObject({ type: 'number', unit: 'usd' });
+    expect(getVariableDefinition('assets.cash')?.name).toBe('assets');
+    expect(isKnownVariable('livesInohio')).toBe(false);
+    expect(isKnownVariable('notAVariable')).toBe(false);
+  });
+
+  it('builds field labels from the registry', () => {
+    expect(getVariableLabels().age).toBe('your age');
+    expect(getVariableLabels({ capitalize: true }).age).toBe('Your age');
+    expect(getVariableLabels().hasChildUnder6).toBeUndefined();
+    expect(FIELD_NAME_MAPPINGS).toEqual(getVariableLabels());
+    expect(capitalizeLabel(FIELD_NAME_MAPPINGS.age)).toBe('Your age');
+  });
+
+  it('prefers translated labels and falls back to humanized names', () => {
+    const t = (key: string): string => (key === 'variables.age' ? 'su edad' : key);
+
+    expect(getVariableLabel('age', t)).toBe('su edad');
+    expect(getVariableLabel('income', t)).toBe('your income');
+    expect(getVariableLabel('someNewField')).toBe('Some New Field');
+    expect(humanizeVariableName('household_size')).toBe('Household Size');
+  });
+});
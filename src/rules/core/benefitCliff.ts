@@ -0,0 +1,325 @@
+/**
+ * Benefit Cliff Analysis
+ *
+ * Answers "if I take this raise, do I lose more in benefits than I gain?"
+ * by sweeping a household's monthly earnings across a range and, at each
+ * step, re-evaluating every program (`evaluateAllRules`, with categorical
+ * eligibility between programs) and its estimated benefit amount. Net
+ * resources are earnings plus unearned income plus monthly benefits; a
+ * cliff is a step where a raise ends a program or leaves the household
+ * with less.
+ *
+ * Only earnings change during the sweep. Unearned income, expenses and
+ * every other answer stay as reported, and derived variables such as SNAP
+ * net income are recomputed at each step.
+ */
+
+import type { EligibilityRule, EligibilityRuleDocument } from '../../db/schemas';
+import type { JsonLogicData } from './types';
+import type { EstimatedBenefit } from './eligibility/types';
+import { evaluateAllRules } from './eligibility/evaluation/multiRuleEvaluation';
+import { processBenefitAmountRules } from './eligibility/evaluation/benefitAmounts';
+import { recomputeDerivedVariables } from './eligibility/evaluation/dataContext';
+import {
+  buildCategoricalContext,
+  orderProgramsByDependencies,
+} from './eligibility/evaluation/programDependencies';
+import {
+  calculateFPL,
+  calculateFPLPercentage,
+  describeFPLPercentage,
+  getSNAPGrossIncomeLimit,
+  getWICIncomeLimit,
+  MEDICAID_CHILDREN_PREGNANT_MIN_FPL_PERCENT,
+  MEDICAID_EXPANSION_FPL_PERCENT,
+} from '../../utils/benefitThresholds';
+import { getGuidelineRegionForState } from '../../utils/povertyGuidelines';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A rule in effect for a program; `benefit_amount` rules estimate amounts
+ */
+export type CliffRule = Pick<EligibilityRule, 'id' | 'name' | 'ruleLogic'> &
+  Partial<Pick<EligibilityRule, 'ruleType' | 'priority' | 'effectiveDate' | 'requiredFields'>>;
+
+/**
+ * Rules for one program
+ */
+export interface CliffProgram {
+  programId: string;
+  rules: CliffRule[];
+}
+
+/**
+ * Options for analyzeBenefitCliffs (amounts are monthly)
+ */
+export interface BenefitCliffOptions {
+  /** Lowest earnings to evaluate (default 0) */
+  minEarnings?: number;
+  /** Highest earnings to evaluate (default 250% of the poverty guideline for the household) */
+  maxEarnings?: number;
+  /** Earnings increase between steps (default: the range in 50 steps, rounded up to $10) */
+  step?: number;
+  /** Evaluation date (ms timestamp) for rule dates and poverty guidelines */
+  asOf?: number;
+}
+
+/**
+ * Programs and resources at one earnings level
+ */
+export interface IncomeSweepPoint {
+  earnings: number;
+  /** Earnings plus unearned income */
+  householdIncome: number;
+  eligiblePrograms: string[];
+  /** Estimated monthly benefit per program; one-time benefits are left out */
+  benefits: Record<string, number>;
+  totalBenefits: number;
+  /** Household income plus benefits */
+  netResources: number;
+}
+
+/**
+ * A raise between two steps that ends a program or lowers net resources
+ */
+export interface BenefitCliff {
+  fromEarnings: number;
+  toEarnings: number;
+  /** Drop in net resources; 0 when only programs without an estimated amount end */
+  loss: number;
+  programsLost: string[];
+}
+
+/**
+ * A poverty-guideline income limit, placed on the earnings axis
+ */
+export interface IncomeThresholdMarker {
+  /** Percentage of the poverty guideline */
+  percent: number;
+  /** e.g. `SNAP Gross Income Limit` */
+  label: string;
+  /** Monthly household income limit */
+  householdIncome: number;
+  /** Earnings at which household income reaches the limit */
+  earnings: number;
+}
+
+/**
+ * Result of sweeping a household's earnings
+ */
+export interface BenefitCliffAnalysis {
+  householdSize: number;
+  /** Earnings the household reported */
+  currentEarnings: number;
+  unearnedIncome: number;
+  points: IncomeSweepPoint[];
+  cliffs: BenefitCliff[];
+  /** Income limits that fall within the earnings range */
+  thresholds: IncomeThresholdMarker[];
+}
+
+const DEFAULT_MAX_FPL_PERCENT = 250;
+const DEFAULT_STEP_COUNT = 50;
+const STEP_ROUNDING = 10;
+
+const FREQUENCY_TO_MONTHLY: Record<EstimatedBenefit['frequency'], number> = {
+  one_time: 0,
+  monthly: 1,
+  quarterly: 1 / 3,
+  annual: 1 / 12,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toAmount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Split reported monthly income into earnings and unearned income
+ *
+ * Income sources report both; otherwise all income counts as earnings.
+ */
+function splitIncome(data: JsonLogicData): { earnings: number; unearned: number } {
+  const householdIncome = toAmount(data.householdIncome) ?? 0;
+  const earned = toAmount(data.earnedIncome);
+  const unearned = toAmount(data.unearnedIncome);
+
+  if (earned !== undefined) {
+    return { earnings: earned, unearned: unearned ?? Math.max(householdIncome - earned, 0) };
+  }
+  return { earnings: Math.max(householdIncome - (unearned ?? 0), 0), unearned: unearned ?? 0 };
+}
+
+function toMonthlyBenefit(benefit: EstimatedBenefit | undefined): number {
+  if (!benefit) {return 0;}
+  return Math.round(benefit.amount * (FREQUENCY_TO_MONTHLY[benefit.frequency] ?? 0));
+}
+
+function defaultStep(minEarnings: number, maxEarnings: number): number {
+  const range = Math.max(maxEarnings - minEarnings, STEP_ROUNDING);
+  return Math.ceil(range / DEFAULT_STEP_COUNT / STEP_ROUNDING) * STEP_ROUNDING;
+}
+
+function evaluateAtEarnings(
+  programs: Map<string, CliffProgram>,
+  orderedProgramIds: string[],
+  data: JsonLogicData,
+  earnings: number,
+  unearned: number,
+  asOf: number
+): IncomeSweepPoint {
+  const householdIncome = unearned + earnings;
+  const stepData = recomputeDerivedVariables({ ...data, householdIncome, earnedIncome: earnings });
+  const results = new Map<string, { eligible: boolean }>();
+  const benefits: Record<string, number> = {};
+
+  for (const programId of orderedProgramIds) {
+    const program = programs.get(programId);
+    if (!program) {continue;}
+
+    const rules = program.rules as unknown as EligibilityRuleDocument[];
+    const programData = { ...stepData, ...buildCategoricalContext(programId, results).variables };
+    const { overallEligible } = evaluateAllRules(rules, programData, 'benefit-cliff', programId, asOf);
+    results.set(programId, { eligible: overallEligible });
+
+    // Only benefits add to net resources; cost estimates such as the Section 8
+    // tenant rent share are what the household pays, not what it receives
+    const monthlyBenefit = toMonthlyBenefit(processBenefitAmountRules(rules, programData, overallEligible, asOf, 'benefit'));
+    if (monthlyBenefit > 0) {
+      benefits[programId] = monthlyBenefit;
+    }
+  }
+
+  const totalBenefits = Object.values(benefits).reduce((sum, amount) => sum + amount, 0);
+  return {
+    earnings,
+    householdIncome,
+    eligiblePrograms: orderedProgramIds.filter(programId => results.get(programId)?.eligible),
+    benefits,
+    totalBenefits,
+    netResources: householdIncome + totalBenefits,
+  };
+}
+
+function findCliffs(points: IncomeSweepPoint[]): BenefitCliff[] {
+  const cliffs: BenefitCliff[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const before = points[i - 1];
+    const after = points[i];
+    const programsLost = before.eligiblePrograms.filter(programId => !after.eligiblePrograms.includes(programId));
+    const loss = Math.max(before.netResources - after.netResources, 0);
+    if (loss > 0 || programsLost.length > 0) {
+      cliffs.push({ fromEarnings: before.earnings, toEarnings: after.earnings, loss, programsLost });
+    }
+  }
+  return cliffs;
+}
+
+// ============================================================================
+// THRESHOLDS
+// ============================================================================
+
+/**
+ * Poverty-guideline income limits for a household, monthly
+ *
+ * The federal poverty level, the SNAP gross income limit, the Medicaid
+ * expansion limit, the WIC limit and the Medicaid children/pregnant
+ * minimum, labelled with describeFPLPercentage.
+ *
+ * @example
+ * ```typescript
+ * getIncomeThresholds(3, { stateCode: 'GA' });
+ * // [{ percent: 100, label: 'Federal Poverty Level', householdIncome: 2221 }, ...]
+ * ```
+ */
+export function getIncomeThresholds(
+  householdSize: number,
+  options: { stateCode?: string; asOf?: number } = {}
+): Array<Pick<IncomeThresholdMarker, 'percent' | 'label' | 'householdIncome'>> {
+  const lookup = { asOf: options.asOf, region: getGuidelineRegionForState(options.stateCode) };
+  const limits: Array<[number, number]> = [
+    [100, calculateFPL(householdSize, lookup)],
+    [130, getSNAPGrossIncomeLimit(householdSize, lookup)],
+    [MEDICAID_EXPANSION_FPL_PERCENT, calculateFPLPercentage(householdSize, MEDICAID_EXPANSION_FPL_PERCENT, lookup)],
+    [185, getWICIncomeLimit(householdSize, lookup)],
+    [MEDICAID_CHILDREN_PREGNANT_MIN_FPL_PERCENT, calculateFPLPercentage(householdSize, MEDICAID_CHILDREN_PREGNANT_MIN_FPL_PERCENT, lookup)],
+  ];
+
+  return limits.map(([percent, householdIncome]) => ({
+    percent,
+    label: describeFPLPercentage(percent),
+    householdIncome,
+  }));
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Sweep a household's monthly earnings and find benefit cliffs
+ *
+ * `data` is the built data context the household was evaluated against;
+ * `programs` hold the rules in effect for each program. The current
+ * earnings are always one of the steps.
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeBenefitCliffs(programs, data, { maxEarnings: 5000 });
+ * analysis.cliffs[0]; // { fromEarnings: 2800, toEarnings: 2900, loss: 185, programsLost: ['snap-federal'] }
+ * ```
+ */
+export function analyzeBenefitCliffs(
+  programs: CliffProgram[],
+  data: JsonLogicData,
+  options: BenefitCliffOptions = {}
+): BenefitCliffAnalysis {
+  const asOf = options.asOf ?? Date.now();
+  const householdSize = Math.max(toAmount(data.householdSize) ?? 1, 1);
+  const stateCode = typeof data.stateCode === 'string' ? data.stateCode : undefined;
+  const { earnings: currentEarnings, unearned } = splitIncome(data);
+
+  const minEarnings = Math.max(options.minEarnings ?? 0, 0);
+  const maxEarnings = Math.max(
+    options.maxEarnings ?? calculateFPLPercentage(householdSize, DEFAULT_MAX_FPL_PERCENT, {
+      asOf,
+      region: getGuidelineRegionForState(stateCode),
+    }),
+    minEarnings
+  );
+  const step = options.step && options.step > 0 ? options.step : defaultStep(minEarnings, maxEarnings);
+
+  const earningsLevels = new Set<number>();
+  for (let earnings = minEarnings; earnings < maxEarnings; earnings += step) {
+    earningsLevels.add(earnings);
+  }
+  earningsLevels.add(maxEarnings);
+  if (currentEarnings >= minEarnings && currentEarnings <= maxEarnings) {
+    earningsLevels.add(currentEarnings);
+  }
+
+  const programsById = new Map(programs.map(program => [program.programId, program]));
+  const orderedProgramIds = orderProgramsByDependencies(Array.from(programsById.keys()));
+  const points = Array.from(earningsLevels)
+    .sort((a, b) => a - b)
+    .map(earnings => evaluateAtEarnings(programsById, orderedProgramIds, data, earnings, unearned, asOf));
+
+  const thresholds = getIncomeThresholds(householdSize, { stateCode, asOf })
+    .map(threshold => ({ ...threshold, earnings: threshold.householdIncome - unearned }))
+    .filter(threshold => threshold.earnings >= minEarnings && threshold.earnings <= maxEarnings);
+
+  return {
+    householdSize,
+    currentEarnings,
+    unearnedIncome: unearned,
+    points,
+    cliffs: findCliffs(points),
+    thresholds,
+  };
+}
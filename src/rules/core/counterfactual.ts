@@ -0,0 +1,237 @@
+/**
+ * Counterfactual Search
+ *
+ * Finds the smallest changes to a household's answers that would make an
+ * ineligible program eligible: "if your household's monthly income were
+ * $212 lower", "if you report your dependent care costs of at least $150".
+ *
+ * Only answers the user can change are searched — numeric and yes/no
+ * variables answered directly by a question and not marked `fixed` in the
+ * variable registry (age, citizenship, household size, ...). Each answer
+ * is changed on its own; derived variables such as SNAP net income are
+ * recomputed after every change.
+ */
+
+import jsonLogic from 'json-logic-js';
+import type { EligibilityRuleDocument } from '../../db/schemas';
+import type { JsonLogicData } from './types';
+import { withEvaluationDate } from './eligibility/evaluation/ruleEvaluation';
+import { recomputeDerivedVariables } from './eligibility/evaluation/dataContext';
+import { VARIABLE_REGISTRY, getVariableDefinition, getVariableLabel } from './variables';
+import type { VariableUnit } from './variables';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A rule to evaluate; `benefit_amount` rules are skipped
+ */
+export type CounterfactualRule = Pick<EligibilityRuleDocument, 'ruleLogic'> &
+  Partial<Pick<EligibilityRuleDocument, 'effectiveDate' | 'ruleType'>>;
+
+/**
+ * How an answer changes: a number goes down or up, a missing or zero
+ * amount is reported, or a yes/no answer flips
+ */
+export type CounterfactualChange = 'decrease' | 'increase' | 'report' | 'yes' | 'no';
+
+/**
+ * One answer change that makes the program eligible
+ */
+export interface Counterfactual {
+  field: string;
+  change: CounterfactualChange;
+  /** Current answer; absent when the question wasn't answered */
+  from?: number | boolean;
+  to: number | boolean;
+  /** Size of a numeric change */
+  amount?: number;
+  unit?: VariableUnit;
+  /** English phrasing, e.g. `if your household's monthly income were $212 lower` */
+  description: string;
+}
+
+/**
+ * Options for findCounterfactuals
+ */
+export interface CounterfactualOptions {
+  /** Evaluation date (ms timestamp) for rule dates and poverty guidelines */
+  asOf?: number;
+  /** Fields to search (default: getAdjustableFields()) */
+  fields?: string[];
+  /** Largest increase to try for a numeric answer (default 5000) */
+  maxIncrease?: number;
+  /** Most changes to return (default 3) */
+  limit?: number;
+}
+
+const DEFAULT_MAX_INCREASE = 5000;
+const DEFAULT_LIMIT = 3;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Fields the search may change: numeric or yes/no answers to a question of
+ * the same name that are not marked `fixed`
+ */
+export function getAdjustableFields(): string[] {
+  return Object.values(VARIABLE_REGISTRY)
+    .filter(definition =>
+      definition.sourceQuestion === definition.name &&
+      !definition.fixed &&
+      (definition.type === 'number' || definition.type === 'boolean')
+    )
+    .map(definition => definition.name);
+}
+
+function programPasses(rules: CounterfactualRule[], data: JsonLogicData, asOf?: number): boolean {
+  const derived = recomputeDerivedVariables(data);
+  return rules.every(rule => {
+    try {
+      return Boolean(jsonLogic.apply(
+        rule.ruleLogic as Parameters<typeof jsonLogic.apply>[0],
+        withEvaluationDate(derived, rule, asOf)
+      ));
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Format the amount a counterfactual mentions: the change, or the value to
+ * report (`$212`, rounded up to whole units)
+ */
+export function formatCounterfactualAmount(counterfactual: Pick<Counterfactual, 'change' | 'to' | 'amount' | 'unit'>): string {
+  const value = counterfactual.change === 'report' ? Number(counterfactual.to) : (counterfactual.amount ?? 0);
+  const rounded = Math.ceil(value).toLocaleString('en-US');
+  return counterfactual.unit === 'usd' ? `$${rounded}` : rounded;
+}
+
+function describe(counterfactual: Omit<Counterfactual, 'description'>): string {
+  const label = getVariableLabel(counterfactual.field);
+  const amount = formatCounterfactualAmount(counterfactual);
+  switch (counterfactual.change) {
+    case 'decrease':
+      return `if ${label} were ${amount} lower`;
+    case 'increase':
+      return `if ${label} were ${amount} higher`;
+    case 'report':
+      return `if you report ${label} of at least ${amount}`;
+    default:
+      return `if you answered "${counterfactual.change}" for ${label}`;
+  }
+}
+
+/**
+ * Relative size of a change, for ranking: the share of the current value
+ * a number moves by, capped at 1; reports and flipped answers count as 1
+ */
+function changeCost(counterfactual: Counterfactual): number {
+  if (counterfactual.change !== 'decrease' && counterfactual.change !== 'increase') {return 1;}
+  const amount = counterfactual.amount ?? 0;
+  return amount / Math.max(Number(counterfactual.from ?? 0), amount, 1);
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Smallest change to a numeric answer that makes the program pass
+ *
+ * Binary search to whole units between the current value and 0 (going
+ * down) or the current value plus `maxIncrease` (going up). Assumes
+ * eligibility changes once along the way, as with income limits.
+ */
+function searchAmount(
+  field: string,
+  data: JsonLogicData,
+  passes: (data: JsonLogicData) => boolean,
+  maxIncrease: number
+): Omit<Counterfactual, 'description'> | null {
+  const value = data[field];
+  const from = typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  const current = from ?? 0;
+  const passesWith = (candidate: number): boolean => passes({ ...data, [field]: candidate });
+  const unit = getVariableDefinition(field)?.unit;
+  const found: Array<Omit<Counterfactual, 'description'>> = [];
+
+  if (current > 0 && passesWith(0)) {
+    // low passes, high fails
+    let low = 0;
+    let high = current;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (passesWith(mid)) {low = mid;} else {high = mid;}
+    }
+    found.push({ field, change: 'decrease', from, to: low, amount: current - low, unit });
+  }
+
+  if (passesWith(current + maxIncrease)) {
+    // low fails, high passes
+    let low = current;
+    let high = current + maxIncrease;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (passesWith(mid)) {high = mid;} else {low = mid;}
+    }
+    found.push({ field, change: current > 0 ? 'increase' : 'report', from, to: high, amount: high - current, unit });
+  }
+
+  return found.sort((a, b) => (a.amount ?? 0) - (b.amount ?? 0))[0] ?? null;
+}
+
+function searchFlag(
+  field: string,
+  data: JsonLogicData,
+  passes: (data: JsonLogicData) => boolean
+): Omit<Counterfactual, 'description'> | null {
+  const value = data[field];
+  const to = value !== true;
+  if (!passes({ ...data, [field]: to })) {return null;}
+  return { field, change: to ? 'yes' : 'no', from: typeof value === 'boolean' ? value : undefined, to };
+}
+
+/**
+ * Find the smallest single-answer changes that make a program eligible
+ *
+ * `data` is the built data context the program was evaluated against.
+ * Returns nothing when the program already passes. Changes are ranked by
+ * relative size, so "$50 less income" comes before "report $400 of costs".
+ *
+ * @example
+ * ```typescript
+ * const changes = findCounterfactuals(rules, data);
+ * changes[0]?.description; // "if your household's monthly income were $212 lower"
+ * ```
+ */
+export function findCounterfactuals(
+  rules: CounterfactualRule[],
+  data: JsonLogicData,
+  options: CounterfactualOptions = {}
+): Counterfactual[] {
+  const eligibilityRules = rules.filter(rule => rule.ruleType !== 'benefit_amount');
+  const passes = (candidate: JsonLogicData): boolean => programPasses(eligibilityRules, candidate, options.asOf);
+  if (eligibilityRules.length === 0 || passes(data)) {return [];}
+
+  const maxIncrease = options.maxIncrease ?? DEFAULT_MAX_INCREASE;
+  const counterfactuals: Counterfactual[] = [];
+
+  for (const field of options.fields ?? getAdjustableFields()) {
+    const type = getVariableDefinition(field)?.type;
+    const found = type === 'number'
+      ? searchAmount(field, data, passes, maxIncrease)
+      : type === 'boolean' ? searchFlag(field, data, passes) : null;
+    if (found) {
+      counterfactuals.push({ ...found, description: describe(found) });
+    }
+  }
+
+  return counterfactuals
+    .sort((a, b) => changeCost(a) - changeCost(b))
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
@@ -0,0 +1,480 @@
+/**
+ * Rule Coverage and Mutation Testing
+ *
+ * Measures which branches of a rule's JSON Logic its test cases exercise,
+ * and which small changes to the rule (a threshold off by one, `<` instead
+ * of `<=`) its test cases fail to catch.
+ *
+ * A branch is one outcome of an operand of `and` / `or`, or of a condition
+ * of `if`: each can come out true or false. Branches are traced by wrapping
+ * those operands in a recording operator, so short-circuiting and item
+ * scopes (`some`, `filter`, ...) behave exactly as in evaluation.
+ */
+
+import jsonLogic from 'json-logic-js';
+import type { JsonLogicData, JsonLogicRule } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Test case as embedded in rule definitions
+ */
+export interface CoverageTestCase {
+  id?: string;
+  description?: string;
+  input: JsonLogicData;
+  expected?: unknown;
+}
+
+/**
+ * Evaluate rule logic for one test case
+ *
+ * Lets callers apply the same input normalization they use to run tests.
+ */
+export type CoverageEvaluator = (logic: JsonLogicRule, testCase: CoverageTestCase) => unknown;
+
+/**
+ * One outcome of a branching operand
+ */
+export interface RuleBranch {
+  /** `<path>:true` or `<path>:false` */
+  id: string;
+  /** Location of the operand in the rule logic (e.g. `and[1].if[0]`) */
+  path: string;
+  operator: 'and' | 'or' | 'if';
+  outcome: boolean;
+}
+
+/**
+ * A changed copy of a rule
+ */
+export interface RuleMutant {
+  /** Location of the changed node */
+  path: string;
+  kind: 'operator' | 'threshold';
+  /** What changed (e.g. `"<=" → "<"`, `2000 → 2001`) */
+  description: string;
+  logic: JsonLogicRule;
+}
+
+/**
+ * Mutation testing outcome for one rule
+ */
+export interface RuleMutationReport {
+  total: number;
+  killed: number;
+  /** Mutants no passing test case detected */
+  survivors: Array<Pick<RuleMutant, 'path' | 'kind' | 'description'>>;
+}
+
+/**
+ * Coverage of one rule by its test cases
+ */
+export interface RuleCoverageReport {
+  ruleId: string;
+  /** Test cases that pass against the unchanged rule */
+  passingTests: number;
+  branches: RuleBranch[];
+  coveredBranches: string[];
+  uncoveredBranches: RuleBranch[];
+  mutation?: RuleMutationReport;
+}
+
+/**
+ * Coverage of a rule package
+ */
+export interface PackageCoverageReport {
+  packageId: string;
+  rules: RuleCoverageReport[];
+  totalBranches: number;
+  coveredBranches: number;
+  /** Percentage of branches covered (100 when there are none) */
+  branchCoverage: number;
+  totalMutants?: number;
+  killedMutants?: number;
+  /** Percentage of mutants killed (100 when there are none) */
+  mutationScore?: number;
+}
+
+/**
+ * Options for coverage analysis
+ */
+export interface CoverageOptions {
+  /** Also run mutation testing */
+  mutation?: boolean;
+  /** Evaluate logic for a test case (defaults to `jsonLogic.apply` on the input) */
+  evaluate?: CoverageEvaluator;
+}
+
+/**
+ * Rule shape needed for coverage analysis
+ */
+export interface CoverageRule {
+  id: string;
+  ruleLogic: JsonLogicRule;
+  testCases?: CoverageTestCase[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TRACE_OPERATOR = '__coverage_branch';
+
+const BRANCHING_OPERATORS: Record<string, RuleBranch['operator']> = {
+  and: 'and',
+  or: 'or',
+  if: 'if',
+  '?:': 'if',
+};
+
+/** Boundary and negation swaps for comparison operators */
+export const OPERATOR_MUTATIONS: Readonly<Record<string, string>> = {
+  '<': '<=',
+  '<=': '<',
+  '>': '>=',
+  '>=': '>',
+  '==': '!=',
+  '!=': '==',
+  '===': '!==',
+  '!==': '===',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type PathSegment = string | number;
+
+function isOperation(node: unknown): node is Record<string, unknown> {
+  return typeof node === 'object' && node !== null && !Array.isArray(node) && Object.keys(node).length === 1;
+}
+
+function operandsOf(node: Record<string, unknown>): { operator: string; operands: unknown[]; wrapped: boolean } {
+  const [operator] = Object.keys(node);
+  const value = node[operator];
+  return Array.isArray(value)
+    ? { operator, operands: value, wrapped: false }
+    : { operator, operands: [value], wrapped: true };
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') {return `${path}[${segment}]`;}
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+/** Whether operand `index` of a branching operator has a true/false outcome */
+function isBranchOperand(operator: RuleBranch['operator'], index: number, count: number): boolean {
+  if (operator !== 'if') {return true;}
+  // Conditions sit at even positions; a trailing odd operand is the else arm
+  return index % 2 === 0 && index < count - 1;
+}
+
+/** JSON Logic truthiness (empty arrays are false) */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function defaultEvaluate(logic: JsonLogicRule, testCase: CoverageTestCase): unknown {
+  return jsonLogic.apply(logic as unknown as ReturnType<typeof jsonLogic.apply>, testCase.input);
+}
+
+function resultsMatch(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) {return true;}
+  if (typeof actual === 'object' && actual !== null && typeof expected === 'object' && expected !== null) {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+  return false;
+}
+
+function passes(evaluate: CoverageEvaluator, logic: JsonLogicRule, testCase: CoverageTestCase): boolean {
+  try {
+    return resultsMatch(evaluate(logic, testCase), testCase.expected);
+  } catch {
+    return false;
+  }
+}
+
+function replaceAt(logic: JsonLogicRule, segments: PathSegment[], replacement: unknown): JsonLogicRule {
+  if (segments.length === 0) {return replacement as JsonLogicRule;}
+  const copy = JSON.parse(JSON.stringify(logic)) as Record<PathSegment, unknown>;
+  let parent = copy;
+  for (const segment of segments.slice(0, -1)) {
+    parent = parent[segment] as Record<PathSegment, unknown>;
+  }
+  parent[segments[segments.length - 1]] = replacement;
+  return copy as unknown as JsonLogicRule;
+}
+
+// ============================================================================
+// BRANCH COVERAGE
+// ============================================================================
+
+/**
+ * List every branch outcome in a rule
+ *
+ * @example
+ * ```typescript
+ * getRuleBranches({ and: [{ var: 'a' }, { var: 'b' }] }).map(b => b.id);
+ * // ['and[0]:true', 'and[0]:false', 'and[1]:true', 'and[1]:false']
+ * ```
+ */
+export function getRuleBranches(logic: JsonLogicRule): RuleBranch[] {
+  const branches: RuleBranch[] = [];
+
+  const visit = (node: unknown, segments: PathSegment[]): void => {
+    if (Array.isArray(node)) {
+      node.forEach((item, i) => visit(item, [...segments, i]));
+      return;
+    }
+    if (!isOperation(node)) {return;}
+
+    const { operator, operands, wrapped } = operandsOf(node);
+    if (operator === 'var') {return;}
+
+    const branching = BRANCHING_OPERATORS[operator];
+    operands.forEach((operand, i) => {
+      const operandSegments = wrapped ? [...segments, operator] : [...segments, operator, i];
+      if (branching && isBranchOperand(branching, i, operands.length)) {
+        const path = formatPath(operandSegments);
+        branches.push(
+          { id: `${path}:true`, path, operator: branching, outcome: true },
+          { id: `${path}:false`, path, operator: branching, outcome: false }
+        );
+      }
+      visit(operand, operandSegments);
+    });
+  };
+
+  visit(logic, []);
+  return branches;
+}
+
+/**
+ * Wrap each branching operand in the trace operator, tagged with its path
+ */
+function instrumentRule(logic: JsonLogicRule): JsonLogicRule {
+  const visit = (node: unknown, segments: PathSegment[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, i) => visit(item, [...segments, i]));
+    }
+    if (!isOperation(node)) {return node;}
+
+    const { operator, operands, wrapped } = operandsOf(node);
+    if (operator === 'var') {return node;}
+
+    const branching = BRANCHING_OPERATORS[operator];
+    const instrumented = operands.map((operand, i) => {
+      const operandSegments = wrapped ? [...segments, operator] : [...segments, operator, i];
+      const inner = visit(operand, operandSegments);
+      return branching && isBranchOperand(branching, i, operands.length)
+        ? { [TRACE_OPERATOR]: [formatPath(operandSegments), inner] }
+        : inner;
+    });
+
+    return { [operator]: wrapped ? instrumented[0] : instrumented };
+  };
+
+  return visit(logic, []) as JsonLogicRule;
+}
+
+/**
+ * Find the branch outcomes a set of test cases reaches
+ *
+ * @returns IDs of the branches reached
+ */
+export function traceRuleBranches(
+  logic: JsonLogicRule,
+  testCases: CoverageTestCase[],
+  evaluate: CoverageEvaluator = defaultEvaluate
+): string[] {
+  const reached = new Set<string>();
+  const instrumented = instrumentRule(logic);
+
+  jsonLogic.add_operation(TRACE_OPERATOR, (path: string, value: unknown) => {
+    reached.add(`${path}:${isTruthy(value)}`);
+    return value;
+  });
+
+  try {
+    for (const testCase of testCases) {
+      try {
+        evaluate(instrumented, testCase);
+      } catch {
+        // Branches reached before the error still count
+      }
+    }
+  } finally {
+    jsonLogic.rm_operation(TRACE_OPERATOR);
+  }
+
+  return Array.from(reached);
+}
+
+// ============================================================================
+// MUTATION TESTING
+// ============================================================================
+
+/**
+ * Nearby values for a threshold: ±1 for integers, ±10% otherwise
+ */
+function perturb(value: number): number[] {
+  if (Number.isInteger(value)) {return [value + 1, value - 1];}
+  return [value * 1.1, value * 0.9].map(n => Math.round(n * 1e6) / 1e6);
+}
+
+/**
+ * Build the mutants of a rule
+ *
+ * Swaps each comparison operator for its boundary or negated form and
+ * moves each numeric literal up and down. Numbers inside `var` (paths and
+ * defaults) are left alone.
+ *
+ * @example
+ * ```typescript
+ * generateRuleMutants({ '<=': [{ var: 'income' }, 2000] }).map(m => m.description);
+ * // ['"<=" → "<"', '2000 → 2001', '2000 → 1999']
+ * ```
+ */
+export function generateRuleMutants(logic: JsonLogicRule): RuleMutant[] {
+  const mutants: RuleMutant[] = [];
+
+  const visit = (node: unknown, segments: PathSegment[]): void => {
+    if (typeof node === 'number') {
+      for (const value of perturb(node)) {
+        mutants.push({
+          path: formatPath(segments),
+          kind: 'threshold',
+          description: `${node} → ${value}`,
+          logic: replaceAt(logic, segments, value),
+        });
+      }
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach((item, i) => visit(item, [...segments, i]));
+      return;
+    }
+    if (!isOperation(node)) {return;}
+
+    const { operator, operands, wrapped } = operandsOf(node);
+    if (operator === 'var') {return;}
+
+    const swapped = OPERATOR_MUTATIONS[operator];
+    if (swapped) {
+      mutants.push({
+        path: formatPath(segments) || '(root)',
+        kind: 'operator',
+        description: `"${operator}" → "${swapped}"`,
+        logic: replaceAt(logic, segments, { [swapped]: node[operator] }),
+      });
+    }
+
+    operands.forEach((operand, i) => {
+      visit(operand, wrapped ? [...segments, operator] : [...segments, operator, i]);
+    });
+  };
+
+  visit(logic, []);
+  return mutants;
+}
+
+/**
+ * Run a rule's mutants against the test cases that pass on the original
+ *
+ * A mutant is killed when at least one of those test cases fails on it.
+ */
+export function runMutationTests(
+  logic: JsonLogicRule,
+  testCases: CoverageTestCase[],
+  evaluate: CoverageEvaluator = defaultEvaluate
+): RuleMutationReport {
+  const passingTests = testCases.filter(testCase => passes(evaluate, logic, testCase));
+  const report: RuleMutationReport = { total: 0, killed: 0, survivors: [] };
+
+  for (const mutant of generateRuleMutants(logic)) {
+    report.total++;
+    if (passingTests.some(testCase => !passes(evaluate, mutant.logic, testCase))) {
+      report.killed++;
+    } else {
+      report.survivors.push({ path: mutant.path, kind: mutant.kind, description: mutant.description });
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+function toPercent(part: number, total: number): number {
+  return total === 0 ? 100 : Math.round((part / total) * 1000) / 10;
+}
+
+/**
+ * Branch coverage (and optionally mutation results) for one rule
+ *
+ * Only test cases with an expected value that pass on the rule count, so a
+ * failing test does not make its branches look exercised.
+ */
+export function analyzeRuleCoverage(rule: CoverageRule, options: CoverageOptions = {}): RuleCoverageReport {
+  const evaluate = options.evaluate ?? defaultEvaluate;
+  const testCases = (rule.testCases ?? []).filter(testCase => testCase.expected !== undefined);
+  const passingTests = testCases.filter(testCase => passes(evaluate, rule.ruleLogic, testCase));
+
+  const branches = getRuleBranches(rule.ruleLogic);
+  const reached = new Set(traceRuleBranches(rule.ruleLogic, passingTests, evaluate));
+  const covered = branches.filter(branch => reached.has(branch.id));
+
+  return {
+    ruleId: rule.id,
+    passingTests: passingTests.length,
+    branches,
+    coveredBranches: covered.map(branch => branch.id),
+    uncoveredBranches: branches.filter(branch => !reached.has(branch.id)),
+    mutation: options.mutation ? runMutationTests(rule.ruleLogic, passingTests, evaluate) : undefined,
+  };
+}
+
+/**
+ * Branch coverage (and optionally mutation score) for a rule package
+ *
+ * @example
+ * ```typescript
+ * const report = analyzePackageCoverage(pkg.metadata.id, pkg.rules, { mutation: true });
+ * console.log(`${report.branchCoverage}% branches, ${report.mutationScore}% mutants killed`);
+ * ```
+ */
+export function analyzePackageCoverage(
+  packageId: string,
+  rules: CoverageRule[],
+  options: CoverageOptions | ((rule: CoverageRule) => CoverageOptions) = {}
+): PackageCoverageReport {
+  const ruleReports = rules.map(rule =>
+    analyzeRuleCoverage(rule, typeof options === 'function' ? options(rule) : options)
+  );
+
+  const totalBranches = ruleReports.reduce((sum, r) => sum + r.branches.length, 0);
+  const coveredBranches = ruleReports.reduce((sum, r) => sum + r.coveredBranches.length, 0);
+  const report: PackageCoverageReport = {
+    packageId,
+    rules: ruleReports,
+    totalBranches,
+    coveredBranches,
+    branchCoverage: toPercent(coveredBranches, totalBranches),
+  };
+
+  const mutations = ruleReports.map(r => r.mutation).filter((m): m is RuleMutationReport => m !== undefined);
+  if (mutations.length > 0) {
+    report.totalMutants = mutations.reduce((sum, m) => sum + m.total, 0);
+    report.killedMutants = mutations.reduce((sum, m) => sum + m.killed, 0);
+    report.mutationScore = toPercent(report.killedMutants, report.totalMutants);
+  }
+
+  return report;
+}
@@ -35,6 +35,11 @@ export interface DebugTraceStep {
   level: number;
   /** Duration in milliseconds */
   duration?: number;
+  /**
+   * Location of the evaluated expression in the rule logic, in the same
+   * format as branch coverage (e.g. `and[1].<=[0]`; the root is `''`)
+   */
+  path?: string;
 }
 
 /**
@@ -108,6 +113,54 @@ export interface RuleInspection {
 // DEBUG EXECUTION
 // ============================================================================
 
+// Operators whose later operands run once per array item, with the item as data
+const ITEM_SCOPED_OPERATORS = new Set(['some', 'all', 'none', 'filter', 'map', 'reduce']);
+
+/** JSON Logic truthiness (empty arrays are false) */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Evaluate the operands json-logic would reach, in its order, so their
+ * steps land in the trace before the operator's own step
+ */
+function traceOperands(
+  operator: string,
+  count: number,
+  applyOperand: (index: number) => unknown
+): void {
+  if (ITEM_SCOPED_OPERATORS.has(operator)) {
+    if (count > 0) {applyOperand(0);}
+    return;
+  }
+
+  if (operator === 'and' || operator === 'or') {
+    for (let index = 0; index < count; index++) {
+      const value = isTruthy(applyOperand(index));
+      if (operator === 'and' ? !value : value) {return;}
+    }
+    return;
+  }
+
+  if (operator === 'if' || operator === '?:') {
+    let index = 0;
+    while (index < count - 1) {
+      if (isTruthy(applyOperand(index))) {
+        applyOperand(index + 1);
+        return;
+      }
+      index += 2;
+    }
+    if (index === count - 1) {applyOperand(index);}
+    return;
+  }
+
+  for (let index = 0; index < count; index++) {
+    applyOperand(index);
+  }
+}
+
 /**
  * Debug a rule with step-by-step trace
  *
@@ -139,9 +192,14 @@ export function debugRule(
   let maxDepth = 0;
   let stepCounter = 0;
 
+  const childPath = (path: string, segment: string | number): string => {
+    if (typeof segment === 'number') {return `${path}[${segment}]`;}
+    return path ? `${path}.${segment}` : segment;
+  };
+
   // Create a wrapper to intercept operations
   const interceptor = {
-    apply: (rule: JsonLogicRule, data: JsonLogicData, level: number): unknown => {
+    apply: (rule: JsonLogicRule, data: JsonLogicData, level: number, path = ''): unknown => {
       maxDepth = Math.max(maxDepth, level);
 
       // Handle primitives
@@ -151,19 +209,17 @@ export function debugRule(
 
       // Handle arrays
       if (Array.isArray(rule)) {
-        return rule.map((item) => interceptor.apply(item, data, level + 1));
+        return rule.map((item, index) => interceptor.apply(item, data, level + 1, childPath(path, index)));
       }
 
       // Handle variable references
       if ('var' in rule) {
-        const varPath = rule.var as string;
+        const varSpec = rule.var as unknown;
+        const varPath = String(Array.isArray(varSpec) ? varSpec[0] : varSpec);
         variablesAccessed.add(varPath);
 
-        // Safe access using Object.prototype.hasOwnProperty
-        const dataRecord = data as Record<string, unknown>;
-        const value = Object.prototype.hasOwnProperty.call(dataRecord, varPath)
-          ? dataRecord[varPath]  
-          : undefined;
+        // json-logic resolves dotted paths and defaults
+        const value = jsonLogic.apply(rule as Parameters<typeof jsonLogic.apply>[0], data) as unknown;
 
         trace.push({
           step: stepCounter++,
@@ -173,6 +229,7 @@ export function debugRule(
           result: value,
           context: data,
           level,
+          path,
         });
 
         return value;
@@ -184,28 +241,36 @@ export function debugRule(
 
       operatorsUsed.add(operator);
 
+      // Safe access to rule properties
+      const ruleRecord = rule as Record<string, unknown>;
+      const operatorValue = Object.prototype.hasOwnProperty.call(ruleRecord, operator)
+        ? ruleRecord[operator]
+        : undefined;
+
+      // Convert operatorValue to operands array
+      let operands: unknown[];
+      if (Array.isArray(operatorValue)) {
+        operands = operatorValue;
+      } else if (operatorValue !== undefined) {
+        operands = [operatorValue];
+      } else {
+        operands = [];
+      }
+
+      const operandPath = (index: number): string => (Array.isArray(operatorValue)
+        ? childPath(childPath(path, operator), index)
+        : childPath(path, operator));
+      const applyOperand = (index: number): unknown =>
+        interceptor.apply(operands[index] as JsonLogicRule, data, level + 1, operandPath(index));
+
       const stepStart = performance.now();
 
       try {
+        traceOperands(operator, operands.length, applyOperand);
+
         const result = jsonLogic.apply(rule, data);
         const stepEnd = performance.now();
 
-        // Safe access to rule properties
-        const ruleRecord = rule as Record<string, unknown>;
-        const operatorValue = Object.prototype.hasOwnProperty.call(ruleRecord, operator)
-          ? ruleRecord[operator]  
-          : undefined;
-
-        // Convert operatorValue to operands array
-        let operands: unknown[];
-        if (Array.isArray(operatorValue)) {
-          operands = operatorValue;
-        } else if (operatorValue !== undefined) {
-          operands = [operatorValue];
-        } else {
-          operands = [];
-        }
-
         trace.push({
           step: stepCounter++,
           operation: `Operator: ${operator}`,
@@ -214,6 +279,7 @@ export function debugRule(
           result,
           level,
           duration: stepEnd - stepStart,
+          path,
         });
 
         return result;
@@ -227,6 +293,7 @@ export function debugRule(
           operator,
           result: null,
           level,
+          path,
         });
 
         throw error;
@@ -267,6 +334,61 @@ export function debugRule(
   }
 }
 
+/**
+ * Find the sub-expression responsible for a falsy result
+ *
+ * Starting at the root, follows the first failing operand of an `and` and
+ * the branch an `if` took, and stops at the first expression that can't be
+ * narrowed further (a comparison, `or`, `!`, variable, etc.).
+ *
+ * @param trace Trace from debugRule
+ * @returns Path of the failing expression, or undefined if the rule passed
+ *
+ * @example
+ * ```typescript
+ * const { trace } = debugRule(
+ *   { and: [{ '>=': [{ var: 'age' }, 18] }, { '<=': [{ var: 'income' }, 2000] }] },
+ *   { age: 30, income: 2500 }
+ * );
+ * findFailingPath(trace); // 'and[1]'
+ * ```
+ */
+export function findFailingPath(trace: DebugTraceStep[]): string | undefined {
+  const byPath = new Map<string, DebugTraceStep>();
+  for (const step of trace) {
+    if (step.path !== undefined) {byPath.set(step.path, step);}
+  }
+
+  let current = byPath.get('');
+  if (!current || isTruthy(current.result)) {return undefined;}
+
+  for (;;) {
+    const { operator, path = '' } = current;
+    const count = current.operands?.length ?? 0;
+    const prefix = path ? `${path}.${operator}` : operator ?? '';
+    const operandAt = (index: number): DebugTraceStep | undefined => byPath.get(`${prefix}[${index}]`);
+
+    let next: DebugTraceStep | undefined;
+    if (operator === 'and') {
+      for (let index = 0; index < count && !next; index++) {
+        const operand = operandAt(index);
+        if (operand && !isTruthy(operand.result)) {next = operand;}
+      }
+    } else if (operator === 'if' || operator === '?:') {
+      // The taken branch is the last operand evaluated, unless it was a condition
+      let last = -1;
+      for (let index = 0; index < count; index++) {
+        if (operandAt(index)) {last = index;}
+      }
+      const isCondition = last % 2 === 0 && last < count - 1;
+      if (last >= 0 && !isCondition) {next = operandAt(last);}
+    }
+
+    if (!next) {return path;}
+    current = next;
+  }
+}
+
 /**
  * Inspect a variable in the data context
  *
@@ -6,8 +6,7 @@
  */
 
 import { getDatabase } from '../../db/database';
-import { evaluateRuleWithDetails, type DetailedEvaluationResult } from './detailedEvaluator';
-import type { JsonLogicRule } from './types';
+import type { DetailedEvaluationResult } from './detailedEvaluator';
 import type { UserProfileDocument, EligibilityRuleDocument } from '../../db/schemas';
 
 // Import types
@@ -27,10 +26,18 @@ import {
   buildEvaluationResult,
   buildErrorResult,
   prepareDataContext,
-  ensureOperatorsRegistered
+  ensureOperatorsRegistered,
+  selectRulesInEffect,
+  orderProgramsByDependencies,
+  buildCategoricalContext,
+  findDecisiveCategoricalSources,
+  describeCategoricalEligibility,
+  processBenefitAmountRules,
+  PROGRAM_DEPENDENCIES
 } from './eligibility/evaluation';
 import { generateCriteriaBreakdown } from './eligibility/utils';
 import { ensureSNAPRulesAreCorrect } from './eligibility/snap';
+import { findCounterfactuals } from './counterfactual';
 
 // Re-export types
 export type {
@@ -40,7 +47,14 @@ export type {
 };
 
 // Re-export helper functions
-export { getAllProgramRuleIds, ensureSNAPRulesAreCorrect };
+export {
+  getAllProgramRuleIds,
+  selectRulesInEffect,
+  ensureSNAPRulesAreCorrect,
+  orderProgramsByDependencies,
+  describeCategoricalEligibility,
+  PROGRAM_DEPENDENCIES
+};
 
 // Constants for program IDs
 const SNAP_FEDERAL_PROGRAM = 'snap-federal';
@@ -61,43 +75,6 @@ function debugLog(...args: unknown[]): void {
 
 
 
-/**
- * Process benefit amount rules for eligible programs
- */
-function processBenefitAmountRules(
-  rules: EligibilityRuleDocument[],
-  data: Record<string, unknown>,
-  overallEligible: boolean
-): { amount: number; frequency: 'one_time' | 'monthly' | 'quarterly' | 'annual'; description?: string } | undefined {
-  if (!overallEligible) {
-    return undefined;
-  }
-
-  const benefitAmountRules = rules.filter(rule => rule.ruleType === 'benefit_amount');
-  debugLog('Processing benefit amount rules', { benefitAmountRulesCount: benefitAmountRules.length });
-
-  for (const benefitRule of benefitAmountRules) {
-    try {
-      const benefitResult = evaluateRuleWithDetails(
-        benefitRule.ruleLogic as JsonLogicRule,
-        data
-      );
-
-      if (benefitResult.success && benefitResult.result && typeof benefitResult.result === 'object') {
-        const benefitInfo = benefitResult.result as { amount: number; frequency: 'one_time' | 'monthly' | 'quarterly' | 'annual'; description?: string };
-        if (benefitInfo.amount > 0) {
-          debugLog('Benefit amount calculated', { ruleId: benefitRule.id, estimatedBenefit: benefitInfo });
-          return benefitInfo; // Use the first matching benefit amount rule
-        }
-      }
-    } catch (error) {
-      debugLog('Error evaluating benefit amount rule', { ruleId: benefitRule.id, error });
-    }
-  }
-
-  return undefined;
-}
-
 /**
  * Log debug information for development
  */
@@ -175,8 +152,12 @@ async function performEligibilityEvaluation(
   startTime: number,
   opts: EligibilityEvaluationOptions
 ): Promise<EligibilityEvaluationResult> {
-  // Prepare data
-  const data = await prepareDataContext(profile);
+  // Prepare data, adding likely eligibility for programs evaluated earlier in the batch
+  const categoricalContext = opts.categoricalContext;
+  const data = {
+    ...await prepareDataContext(profile),
+    ...categoricalContext?.variables
+  };
 
   // Evaluate ALL rules - ALL must pass for eligibility
   const {
@@ -184,8 +165,9 @@ async function performEligibilityEvaluation(
     overallEligible,
     firstFailedRule,
     firstFailedResult,
-    allMissingFields
-  } = evaluateAllRules(rules, data, profileId, programId);
+    allMissingFields,
+    undetermined
+  } = evaluateAllRules(rules, data, profileId, programId, opts.asOfDate);
 
   const executionTime = performance.now() - startTime;
   const finalMissingFields = Array.from(allMissingFields);
@@ -230,7 +212,8 @@ async function performEligibilityEvaluation(
   debugLog('Result rule selected', { resultRule, combinedEvalResult });
 
   // Process benefit amount rules if eligible
-  const estimatedBenefit = processBenefitAmountRules(rules, data, overallEligible);
+  const estimatedBenefit = processBenefitAmountRules(rules, data, overallEligible, opts.asOfDate);
+  const estimatedCost = processBenefitAmountRules(rules, data, overallEligible, opts.asOfDate, 'cost');
 
   const resultRuleDetails = ruleResults.find(r => r.rule.id === resultRule.id)?.detailedResult;
 
@@ -250,9 +233,26 @@ async function performEligibilityEvaluation(
     resultRuleDetails ? (resultRuleDetails as DetailedEvaluationResult) : fallbackDetailedResult,
     finalMissingFields,
     executionTime,
-    estimatedBenefit
+    estimatedBenefit,
+    ruleResults.map(ruleResult => ruleResult.outcome)
   );
 
+  if (estimatedCost) {
+    result.estimatedCost = estimatedCost;
+  }
+
+  if (overallEligible && categoricalContext) {
+    const decisiveSources = findDecisiveCategoricalSources(rules, data, categoricalContext, opts.asOfDate);
+    if (decisiveSources.length > 0) {
+      result.categoricallyEligibleVia = decisiveSources;
+    }
+  }
+
+  // Unanswered questions, not answer changes, settle an undetermined result
+  if (!overallEligible && !undetermined) {
+    result.counterfactuals = findCounterfactuals(rules, data, { asOf: opts.asOfDate });
+  }
+
   debugLog('Final built result', result);
 
   // Log debug information
@@ -314,8 +314,18 @@ export async function evaluateEligibility(
     forceReEvaluation: options.forceReEvaluation ?? false,
     expiresIn: options.expiresIn ?? 1000 * 60 * 60 * 24 * 30,
     evaluationOptions: options.evaluationOptions ?? {},
+    asOfDate: options.asOfDate,
+    categoricalContext: options.categoricalContext,
   };
 
+  // Results for another date, or that depend on other programs' results,
+  // must not be served from or written to the cache
+  const hasCategoricalContext = (opts.categoricalContext?.sourceProgramIds.length ?? 0) > 0;
+  if (opts.asOfDate !== undefined || hasCategoricalContext) {
+    opts.cacheResult = false;
+    opts.forceReEvaluation = true;
+  }
+
   try {
     // Check cache first
     const cachedResult = await checkCache(profileId, programId, startTime, opts.forceReEvaluation);
@@ -325,7 +335,7 @@ export async function evaluateEligibility(
     }
 
     // Get required entities
-    const { profile, rules } = await getEvaluationEntities(profileId, programId);
+    const { profile, rules } = await getEvaluationEntities(profileId, programId, opts.asOfDate);
 
     // Enhanced debug logging for SNAP and SSI entities
     logSNAPSIDebug(programId, 'Retrieved entities', {
@@ -363,6 +373,10 @@ export async function evaluateEligibility(
 /**
  * Evaluate eligibility for multiple programs
  *
+ * Programs are evaluated in dependency order (see `PROGRAM_DEPENDENCIES`);
+ * each program sees `likelyEligible*` variables for the conferring programs
+ * that came back eligible earlier in the batch.
+ *
  * @param profileId User profile ID
  * @param programIds Array of program IDs
  * @param options Evaluation options
@@ -385,15 +399,19 @@ export async function evaluateMultiplePrograms(
   const startTime = performance.now();
   const programResults = new Map<string, EligibilityEvaluationResult>();
 
-  // Evaluate each program
-  for (const programId of programIds) {
+  // Evaluate each program, conferring programs first
+  const orderedProgramIds = orderProgramsByDependencies(programIds);
+  debugLog('Program evaluation order', { orderedProgramIds, dependencies: PROGRAM_DEPENDENCIES });
+
+  for (const programId of orderedProgramIds) {
     debugLog('Evaluating next program in batch', programId);
     if (import.meta.env.DEV) {
       console.warn(`🔍 [DEBUG] evaluateMultiplePrograms: Evaluating program ${programId}...`);
     }
 
     try {
-      const result = await evaluateEligibility(profileId, programId, options);
+      const categoricalContext = buildCategoricalContext(programId, programResults);
+      const result = await evaluateEligibility(profileId, programId, { ...options, categoricalContext });
       programResults.set(programId, result);
       debugLog('Program eligibility result', { programId, result });
       if (import.meta.env.DEV) {
@@ -413,8 +431,17 @@ export async function evaluateMultiplePrograms(
 
   const endTime = performance.now();
 
+  // Report results in the order the programs were requested
+  const orderedResults = new Map<string, EligibilityEvaluationResult>();
+  for (const programId of programIds) {
+    const result = programResults.get(programId);
+    if (result) {
+      orderedResults.set(programId, result);
+    }
+  }
+
   // Calculate summary
-  const results = Array.from(programResults.values());
+  const results = Array.from(orderedResults.values());
   const summary = {
     total: results.length,
     eligible: results.filter((r) => r.eligible).length,
@@ -440,7 +467,7 @@ export async function evaluateMultiplePrograms(
 
   return {
     profileId,
-    programResults,
+    programResults: orderedResults,
     summary,
     totalTime: endTime - startTime,
   };
@@ -114,6 +114,11 @@ export async function cacheResult(
       frequency: result.estimatedBenefit.frequency ?? 'monthly',
       currency: 'USD' as const,
     } : undefined,
+    estimatedCost: result.estimatedCost ? {
+      ...result.estimatedCost,
+      frequency: result.estimatedCost.frequency ?? 'monthly',
+      currency: 'USD' as const,
+    } : undefined,
     ruleVersion: result.ruleVersion,
     evaluatedAt: result.evaluatedAt,
     expiresAt: Date.now() + expiresIn,
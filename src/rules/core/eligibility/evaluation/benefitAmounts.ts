@@ -0,0 +1,54 @@
+/**
+ * Benefit amount estimation
+ */
+
+import type { EligibilityRuleDocument } from '../../../../db/schemas';
+import type { JsonLogicRule } from '../../types';
+import type { EstimatedBenefit } from '../types';
+import type { EstimateKind } from '../../../../utils/benefitEstimators';
+import { evaluateRuleWithDetails } from '../../detailedEvaluator';
+import { withEvaluationDate } from './ruleEvaluation';
+import { debugLog } from './utils';
+
+/**
+ * Process benefit amount rules for eligible programs
+ *
+ * Returns the first `benefit_amount` rule's estimate of the given kind with
+ * an amount above zero, or nothing when the household isn't eligible. By
+ * default only benefits count; pass `'cost'` for amounts the household pays.
+ */
+export function processBenefitAmountRules(
+  rules: EligibilityRuleDocument[],
+  data: Record<string, unknown>,
+  overallEligible: boolean,
+  asOf?: number,
+  kind: EstimateKind = 'benefit'
+): EstimatedBenefit | undefined {
+  if (!overallEligible) {
+    return undefined;
+  }
+
+  const benefitAmountRules = rules.filter(rule => rule.ruleType === 'benefit_amount');
+  debugLog('Processing benefit amount rules', { benefitAmountRulesCount: benefitAmountRules.length });
+
+  for (const benefitRule of benefitAmountRules) {
+    try {
+      const benefitResult = evaluateRuleWithDetails(
+        benefitRule.ruleLogic as JsonLogicRule,
+        withEvaluationDate(data, benefitRule, asOf)
+      );
+
+      if (benefitResult.success && benefitResult.result && typeof benefitResult.result === 'object') {
+        const benefitInfo = benefitResult.result as EstimatedBenefit;
+        if (benefitInfo.amount > 0 && (benefitInfo.kind ?? 'benefit') === kind) {
+          debugLog('Benefit amount calculated', { ruleId: benefitRule.id, estimatedBenefit: benefitInfo });
+          return benefitInfo; // Use the first matching benefit amount rule
+        }
+      }
+    } catch (error) {
+      debugLog('Error evaluating benefit amount rule', { ruleId: benefitRule.id, error });
+    }
+  }
+
+  return undefined;
+}
@@ -2,7 +2,7 @@
  * Data context preparation functions
  */
 
-import type { UserProfileDocument } from '../../../../db/schemas';
+import type { UserProfile, UserProfileDocument } from '../../../../db/schemas';
 import type { JsonLogicData } from '../../types';
 import {
   debugLog,
@@ -11,6 +11,19 @@ import {
   calculateAgeFromDateOfBirth
 } from './utils';
 import { getAMIDataForContext } from './amiData';
+import {
+  buildHouseholdMemberDataContext,
+  normalizeHouseholdMembers
+} from '../../../../utils/householdMembers';
+import { getGuidelineRegionForState } from '../../../../utils/povertyGuidelines';
+import { calculateSNAPNetIncome, SNAP_ELDERLY_AGE } from '../../../../utils/benefitEstimators';
+import { getSNAPUtilityAllowance } from '../../../../utils/snapUtilityAllowances';
+import {
+  getCountableResources,
+  getTotalAssets,
+  normalizeHouseholdAssets
+} from '../../../../utils/countableResources';
+import { normalizeIncomeSources, summarizeIncomeSources } from '../../../../utils/incomeSources';
 
 /**
  * Convert annual income to monthly
@@ -73,6 +86,65 @@ function convertAnnualIncomeToMonthly(processedData: Record<string, unknown>): R
   return processedData;
 }
 
+/**
+ * Add income source variables to processed data
+ *
+ * When the profile lists income sources, their monthly total replaces
+ * `householdIncome` and `incomeDetails` (monthly by source), `earnedIncome`
+ * and `unearnedIncome` are added. Member income, when reported, is applied
+ * afterwards and takes precedence.
+ */
+function addIncomeSourceVariables(processedData: Record<string, unknown>): Record<string, unknown> {
+  const entries = normalizeIncomeSources(processedData.incomeSourceEntries);
+  if (entries.length === 0) {
+    return processedData;
+  }
+
+  const { details, earnedIncome, unearnedIncome } = summarizeIncomeSources(entries);
+  const variables = {
+    incomeSourceEntries: entries,
+    incomeDetails: details,
+    earnedIncome,
+    unearnedIncome,
+    householdIncome: details.total,
+  };
+
+  debugLog('Added income source variables', {
+    sourceCount: entries.length,
+    householdIncome: details.total,
+    earnedIncome,
+    unearnedIncome
+  });
+
+  return { ...processedData, ...variables };
+}
+
+/**
+ * Add the household member array and the flat fields derived from it
+ *
+ * Member-derived values replace the lump-sum answers so that rules written
+ * against `householdSize`, `householdIncome` (monthly), `isPregnant`, etc.
+ * keep working when a member list is present.
+ */
+function addHouseholdMemberVariables(processedData: Record<string, unknown>): Record<string, unknown> {
+  const members = normalizeHouseholdMembers(processedData.householdMembers);
+  if (members.length === 0) {
+    return processedData;
+  }
+
+  const memberContext = buildHouseholdMemberDataContext(members);
+
+  debugLog('Added household member variables', {
+    memberCount: members.length,
+    householdSize: memberContext.householdSize,
+    householdIncome: memberContext.householdIncome,
+    childCount: memberContext.childCount,
+    elderlyCount: memberContext.elderlyCount
+  });
+
+  return { ...processedData, ...memberContext };
+}
+
 /**
  * Add state-specific variables to processed data
  */
@@ -85,12 +157,15 @@ async function addStateSpecificVariables(
 
   // Create new object with state-specific variables
   const stateVariables = {
+    stateCode,
     stateHasExpanded: isMedicaidExpansionState(stateCode),
     livesInState: true,
     livesInGeorgia: stateCode === 'GA',
     livesInCalifornia: stateCode === 'CA',
     livesInTexas: stateCode === 'TX',
-    livesInFlorida: stateCode === 'FL'
+    livesInFlorida: stateCode === 'FL',
+    // Poverty guideline region for fpl_percent (Alaska and Hawaii have their own tables)
+    fplRegion: getGuidelineRegionForState(stateCode)
   };
 
   // Add Area Median Income (AMI) data for housing programs
@@ -129,6 +204,98 @@ async function addStateSpecificVariables(
   return updatedData;
 }
 
+/**
+ * Check whether anyone in the household is 60 or older or has a disability
+ */
+function hasSNAPElderlyOrDisabledMember(processedData: Record<string, unknown>): boolean {
+  if (processedData.hasElderlyOrDisabled === true) {return true;}
+  if (processedData.hasDisability === true || processedData.isElderly === true) {return true;}
+  if (typeof processedData.age === 'number' && processedData.age >= SNAP_ELDERLY_AGE) {return true;}
+
+  const members = Array.isArray(processedData.householdMembers) ? processedData.householdMembers as Array<Record<string, unknown>> : [];
+  return members.some(member =>
+    member.hasDisability === true || (typeof member.age === 'number' && member.age >= SNAP_ELDERLY_AGE)
+  );
+}
+
+/**
+ * Read an optional monthly amount from the profile
+ */
+function toExpenseAmount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * SNAP deduction variables for processed data
+ *
+ * `hasElderlyOrDisabled`, the state's standard `utilityAllowance` (when
+ * the household pays heating or cooling), and — when income and household
+ * size are known — `allowedDeductions` and `snapNetIncome` (monthly).
+ */
+function getSNAPDeductionVariables(processedData: Record<string, unknown>): Record<string, unknown> {
+  const hasElderlyOrDisabled = hasSNAPElderlyOrDisabledMember(processedData);
+  const utilityAllowance = processedData.paysHeatingCooling === true
+    ? getSNAPUtilityAllowance(processedData.stateCode as string | undefined)
+    : 0;
+  const variables: Record<string, unknown> = { hasElderlyOrDisabled, utilityAllowance };
+
+  const { householdSize, householdIncome } = processedData;
+  if (typeof householdSize === 'number' && householdSize >= 1 && typeof householdIncome === 'number') {
+    const netIncome = calculateSNAPNetIncome({
+      householdSize,
+      grossIncome: householdIncome,
+      earnedIncome: toExpenseAmount(processedData.earnedIncome),
+      shelterCosts: toExpenseAmount(processedData.shelterCosts),
+      utilityAllowance,
+      dependentCareCosts: toExpenseAmount(processedData.dependentCareCosts),
+      childSupportPaid: toExpenseAmount(processedData.childSupportPaid),
+      medicalExpenses: toExpenseAmount(processedData.medicalExpenses),
+      hasElderlyOrDisabled,
+    });
+    variables.allowedDeductions = netIncome.totalDeductions;
+    variables.snapNetIncome = netIncome.netIncome;
+  }
+
+  return variables;
+}
+
+/**
+ * Add SNAP deduction variables to processed data
+ */
+function addSNAPDeductionVariables(processedData: Record<string, unknown>): Record<string, unknown> {
+  const variables = getSNAPDeductionVariables(processedData);
+  debugLog('Added SNAP deduction variables', variables);
+  return { ...processedData, ...variables };
+}
+
+/**
+ * Add resource test variables to processed data
+ *
+ * When the profile reports assets, adds the normalized `assets` object,
+ * `totalAssets`, and countable resources after each program's exclusions
+ * (`ssiCountableResources`, `snapCountableResources`, `tanfCountableResources`,
+ * `medicaidCountableResources`).
+ */
+function addResourceVariables(processedData: Record<string, unknown>): Record<string, unknown> {
+  const assets = normalizeHouseholdAssets(processedData.assets);
+  if (!assets) {
+    return processedData;
+  }
+
+  const variables = {
+    assets,
+    totalAssets: getTotalAssets(assets),
+    ssiCountableResources: getCountableResources('ssi', assets),
+    snapCountableResources: getCountableResources('snap', assets),
+    tanfCountableResources: getCountableResources('tanf', assets),
+    medicaidCountableResources: getCountableResources('medicaid', assets),
+  };
+
+  debugLog('Added resource variables', variables);
+
+  return { ...processedData, ...variables };
+}
+
 /**
  * Log final processed data for debugging
  */
@@ -187,8 +354,16 @@ function logFinalProcessedData(processedData: Record<string, unknown>): void {
  */
 export async function prepareDataContext(profile: UserProfileDocument): Promise<JsonLogicData> {
   debugLog('Preparing data context from user profile', profile.id);
-  const data = profile.toJSON();
+  return buildProfileDataContext(profile.toJSON() as Partial<UserProfile>);
+}
 
+/**
+ * Build the rule data context from plain profile data
+ *
+ * Same derivation as `prepareDataContext`, for profiles that are not stored
+ * in the database (for example synthetic households in simulations).
+ */
+export async function buildProfileDataContext(data: Partial<UserProfile>): Promise<JsonLogicData> {
   // Add computed fields
   const processedData: Record<string, unknown> = {
     ...data,
@@ -207,18 +382,30 @@ export async function prepareDataContext(profile: UserProfileDocument): Promise<
     });
   }
 
-  // Convert annual income to monthly
-  const dataWithIncome = convertAnnualIncomeToMonthly(processedData);
+  // Convert annual income to monthly, then apply income sources and member-derived fields
+  const dataWithIncome = addHouseholdMemberVariables(
+    addIncomeSourceVariables(convertAnnualIncomeToMonthly(processedData))
+  );
 
   // Add state-specific variables for benefit eligibility
   const stateValue = dataWithIncome.state as string;
-  if (stateValue) {
-    const finalData = await addStateSpecificVariables(dataWithIncome, stateValue);
-    logFinalProcessedData(finalData);
-    return finalData;
-  }
+  const dataWithState = stateValue
+    ? await addStateSpecificVariables(dataWithIncome, stateValue)
+    : dataWithIncome;
 
-  // Log final processed data for debugging (no state case)
-  logFinalProcessedData(dataWithIncome);
-  return dataWithIncome;
+  // SNAP deductions depend on the state's utility allowance
+  const finalData = addResourceVariables(addSNAPDeductionVariables(dataWithState));
+  logFinalProcessedData(finalData);
+  return finalData;
+}
+
+/**
+ * Recompute the variables derived from expense and income answers
+ *
+ * For a built data context whose answers were changed in place (for example
+ * a lower `householdIncome` or added `dependentCareCosts`): SNAP deductions
+ * and net income are recalculated; everything else is kept.
+ */
+export function recomputeDerivedVariables(data: JsonLogicData): JsonLogicData {
+  return { ...data, ...getSNAPDeductionVariables(data) };
 }
@@ -6,6 +6,7 @@ import { getDatabase } from '../../../../db/database';
 import type { EligibilityRuleDocument, UserProfileDocument } from '../../../../db/schemas';
 import type { EvaluationEntities } from '../types';
 import { debugLog } from './utils';
+import { selectRulesInEffect } from './ruleSelection';
 
 /**
  * Log detailed entities information for debugging
@@ -41,12 +42,15 @@ function logEntitiesDebugInfo(
 
 /**
  * Retrieve and validate required entities from database
+ *
+ * @param asOfDate Select the rules in effect on this date (ms timestamp) instead of today
  */
 export async function getEvaluationEntities(
   profileId: string,
-  programId: string
+  programId: string,
+  asOfDate?: number
 ): Promise<EvaluationEntities> {
-  debugLog('Retrieving evaluation entities for', { profileId, programId });
+  debugLog('Retrieving evaluation entities for', { profileId, programId, asOfDate });
   const db = getDatabase()!;
 
   // Get user profile
@@ -91,8 +95,9 @@ export async function getEvaluationEntities(
     category: program.category
   });
 
-  // Get active rules for program
-  const rules: EligibilityRuleDocument[] = await db.eligibility_rules.findRulesByProgram(programId);
+  // Get the program's rules in effect on the evaluation date
+  const asOf = asOfDate ?? Date.now();
+  const rules = selectRulesInEffect(await db.eligibility_rules.findRulesByProgram(programId, asOf), asOf);
   debugLog('🔍 [DEBUG] Rules found for program', {
     programId,
     ruleCount: rules.length,
@@ -101,7 +106,7 @@ export async function getEvaluationEntities(
   });
 
   if (rules.length === 0) {
-    debugLog('No active rules found for program', { programId });
+    debugLog('No active rules found for program', { programId, asOf });
     throw new Error(`No active rules found for program ${programId}`);
   }
 
@@ -130,13 +135,15 @@ export async function getEvaluationEntities(
  * Get all active rules for a program (for displaying program requirements)
  *
  * @param programId Program ID
+ * @param asOfDate List the rules in effect on this date (ms timestamp) instead of today
  * @returns Array of rule IDs for the program
  */
-export async function getAllProgramRuleIds(programId: string): Promise<string[]> {
-  debugLog('Retrieving all rule IDs for program', programId);
+export async function getAllProgramRuleIds(programId: string, asOfDate?: number): Promise<string[]> {
+  debugLog('Retrieving all rule IDs for program', { programId, asOfDate });
   try {
     const db = getDatabase()!;
-    const rules: EligibilityRuleDocument[] = await db.eligibility_rules.findRulesByProgram(programId);
+    const asOf = asOfDate ?? Date.now();
+    const rules = selectRulesInEffect(await db.eligibility_rules.findRulesByProgram(programId, asOf), asOf);
 
     // Sort by priority (highest first) for consistent order
     const sortedRules = rules.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
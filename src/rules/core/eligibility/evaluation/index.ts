@@ -9,9 +9,23 @@ import { debugLog } from './utils';
 
 // Re-export all public functions
 export { getEvaluationEntities, getAllProgramRuleIds } from './database';
-export { prepareDataContext } from './dataContext';
+export { isRuleInEffect, selectRulesInEffect } from './ruleSelection';
+export type { DatedRule } from './ruleSelection';
+export { prepareDataContext, buildProfileDataContext, recomputeDerivedVariables } from './dataContext';
 export { evaluateAllRules } from './multiRuleEvaluation';
+export { withEvaluationDate } from './ruleEvaluation';
+export { processBenefitAmountRules } from './benefitAmounts';
 export { selectResultRule, buildEvaluationResult, buildErrorResult } from './resultBuilder';
+export {
+  orderProgramsByDependencies,
+  buildCategoricalContext,
+  findDecisiveCategoricalSources,
+  describeCategoricalEligibility,
+  getProgramCategory,
+  PROGRAM_DEPENDENCIES,
+  LIKELY_ELIGIBLE_VARIABLES
+} from './programDependencies';
+export type { ProgramCategory, ProgramDependency, CategoricalContext } from './programDependencies';
 
 // Re-export types from parent directory
 export type {
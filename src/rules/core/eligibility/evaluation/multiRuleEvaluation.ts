@@ -18,7 +18,8 @@ function evaluateIncomeRules(
   profileId: string,
   programId: string,
   allMissingFields: Set<string>,
-  ruleResults: RuleEvaluationWithDetails[]
+  ruleResults: RuleEvaluationWithDetails[],
+  asOf?: number
 ): { overallEligible: boolean; firstFailedRule: EligibilityRuleDocument | null; firstFailedResult: RuleEvaluationResult | null } {
   let overallEligible = true;
   let firstFailedRule: EligibilityRuleDocument | null = null;
@@ -33,22 +34,23 @@ function evaluateIncomeRules(
       requiredFields: rule.requiredFields
     });
 
-    const ruleResult = evaluateSingleRule(rule, data, profileId, programId, allMissingFields);
+    const ruleResult = evaluateSingleRule(rule, data, profileId, programId, allMissingFields, asOf);
     ruleResults.push(ruleResult);
 
     // Check if this income rule passed
-    const rulePassedResult = ruleResult.evalResult.success ? Boolean(ruleResult.evalResult.result) : false;
+    const { outcome } = ruleResult;
     debugLog('🔍 [DEBUG] Income rule evaluation outcome', {
       ruleId: rule.id,
       ruleName: rule.name,
-      rulePassedResult,
+      outcome,
       success: ruleResult.evalResult.success,
       result: ruleResult.evalResult.result,
       error: ruleResult.evalResult.error,
       executionTime: ruleResult.evalResult.executionTime
     });
 
-    if (!rulePassedResult) {
+    // An unanswered income question is not a hard stop
+    if (outcome === false) {
       // Income rule failed - this is a hard stop
       overallEligible = false;
       firstFailedRule = rule;
@@ -74,7 +76,8 @@ function evaluateNonIncomeRules(
   profileId: string,
   programId: string,
   allMissingFields: Set<string>,
-  ruleResults: RuleEvaluationWithDetails[]
+  ruleResults: RuleEvaluationWithDetails[],
+  asOf?: number
 ): { overallEligible: boolean; firstFailedRule: EligibilityRuleDocument | null; firstFailedResult: RuleEvaluationResult | null } {
   let overallEligible = true;
   let firstFailedRule: EligibilityRuleDocument | null = null;
@@ -89,22 +92,22 @@ function evaluateNonIncomeRules(
       requiredFields: rule.requiredFields
     });
 
-    const ruleResult = evaluateSingleRule(rule, data, profileId, programId, allMissingFields);
+    const ruleResult = evaluateSingleRule(rule, data, profileId, programId, allMissingFields, asOf);
     ruleResults.push(ruleResult);
 
     // Check if this rule passed
-    const rulePassedResult = ruleResult.evalResult.success ? Boolean(ruleResult.evalResult.result) : false;
+    const { outcome } = ruleResult;
     debugLog('🔍 [DEBUG] Non-income rule evaluation outcome', {
       ruleId: rule.id,
       ruleName: rule.name,
-      rulePassedResult,
+      outcome,
       success: ruleResult.evalResult.success,
       result: ruleResult.evalResult.result,
       error: ruleResult.evalResult.error,
       executionTime: ruleResult.evalResult.executionTime
     });
 
-    if (!rulePassedResult && overallEligible) {
+    if (outcome === false && overallEligible) {
       overallEligible = false;
       firstFailedRule = rule;
       firstFailedResult = ruleResult.evalResult;
@@ -121,20 +124,31 @@ function evaluateNonIncomeRules(
 
 /**
  * Evaluate all rules for eligibility
+ *
+ * Rules are true, false or unknown (see `evaluateThreeValued`). A program
+ * is eligible when every rule passes; when none fails but some are
+ * unknown the result is undetermined and `allMissingFields` holds the
+ * unanswered questions that would settle it.
+ *
+ * @param asOf Optional evaluation date (ms timestamp) used to select poverty guideline tables
  */
 export function evaluateAllRules(
   rules: EligibilityRuleDocument[],
   data: JsonLogicData,
   profileId: string,
-  programId: string
+  programId: string,
+  asOf?: number
 ): AllRulesEvaluationResult {
   debugLog('Beginning evaluation of all rules', { profileId, programId, ruleCount: rules.length });
   const ruleResults: RuleEvaluationWithDetails[] = [];
   const allMissingFields = new Set<string>();
 
+  // Benefit amount rules produce estimates, not pass/fail results
+  const eligibilityRules = rules.filter(rule => rule.ruleType !== 'benefit_amount');
+
   // First pass: Check for income rule failures (hard stops)
-  const incomeRules = rules.filter(rule => isIncomeRule(rule));
-  const nonIncomeRules = rules.filter(rule => !isIncomeRule(rule));
+  const incomeRules = eligibilityRules.filter(rule => isIncomeRule(rule));
+  const nonIncomeRules = eligibilityRules.filter(rule => !isIncomeRule(rule));
 
   debugLog('🔍 [DEBUG] Income hard stops: Evaluating income rules first', {
     incomeRulesCount: incomeRules.length,
@@ -143,7 +157,7 @@ export function evaluateAllRules(
   });
 
   // Evaluate income rules first
-  const incomeResult = evaluateIncomeRules(incomeRules, data, profileId, programId, allMissingFields, ruleResults);
+  const incomeResult = evaluateIncomeRules(incomeRules, data, profileId, programId, allMissingFields, ruleResults, asOf);
 
   let { overallEligible, firstFailedRule, firstFailedResult } = incomeResult;
 
@@ -163,20 +177,33 @@ export function evaluateAllRules(
       nonIncomeRuleIds: nonIncomeRules.map(r => r.id)
     });
 
-    const nonIncomeResult = evaluateNonIncomeRules(nonIncomeRules, data, profileId, programId, allMissingFields, ruleResults);
+    const nonIncomeResult = evaluateNonIncomeRules(nonIncomeRules, data, profileId, programId, allMissingFields, ruleResults, asOf);
 
     if (!nonIncomeResult.overallEligible) {
       ({ overallEligible, firstFailedRule, firstFailedResult } = nonIncomeResult);
     }
   }
 
-  debugLog('All rule results evaluated', { ruleResults, overallEligible, firstFailedRule, firstFailedResult, allMissingFields: Array.from(allMissingFields) });
+  // A failed rule settles the program whatever the unanswered questions are;
+  // otherwise the first rule they decide stands in for the failure
+  const unknownResults = ruleResults.filter(ruleResult => ruleResult.outcome === 'unknown');
+  const undetermined = overallEligible && unknownResults.length > 0;
+  if (!overallEligible) {
+    allMissingFields.clear();
+  } else if (undetermined) {
+    overallEligible = false;
+    firstFailedRule = unknownResults[0].rule;
+    firstFailedResult = unknownResults[0].evalResult;
+  }
+
+  debugLog('All rule results evaluated', { ruleResults, overallEligible, undetermined, firstFailedRule, firstFailedResult, allMissingFields: Array.from(allMissingFields) });
 
   return {
     ruleResults,
     overallEligible,
     firstFailedRule,
     firstFailedResult,
-    allMissingFields
+    allMissingFields,
+    undetermined
   };
 }
@@ -0,0 +1,256 @@
+/**
+ * Categorical eligibility between programs
+ *
+ * Some programs grant eligibility (or skip a test) when the household
+ * receives another program. The dependency graph below orders batch
+ * evaluation so conferring programs are evaluated first, and their
+ * "likely eligible" results are fed into later programs' data context.
+ */
+
+import jsonLogic from 'json-logic-js';
+import type { EligibilityRuleDocument } from '../../../../db/schemas';
+import type { JsonLogicData } from '../../types';
+import type { EligibilityEvaluationResult } from '../types';
+import { getRuleVariables } from '../../threeValued';
+import { withEvaluationDate } from './ruleEvaluation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Program families that take part in categorical eligibility
+ */
+export type ProgramCategory = 'snap' | 'medicaid' | 'tanf' | 'ssi' | 'wic';
+
+/**
+ * A declared categorical eligibility link
+ */
+export interface ProgramDependency {
+  /** Program that becomes easier to qualify for */
+  program: ProgramCategory;
+  /** Programs whose likely eligibility carries over */
+  conferredBy: ProgramCategory[];
+  /** Policy basis, for documentation */
+  basis: string;
+}
+
+/**
+ * Data context additions for one program
+ */
+export interface CategoricalContext {
+  /** `likelyEligible*` variables set to true */
+  variables: Record<string, boolean>;
+  /** Program IDs whose likely eligibility was passed on */
+  sourceProgramIds: string[];
+}
+
+// ============================================================================
+// DEPENDENCY GRAPH
+// ============================================================================
+
+export const PROGRAM_DEPENDENCIES: readonly ProgramDependency[] = [
+  {
+    program: 'wic',
+    conferredBy: ['snap', 'medicaid', 'tanf'],
+    basis: 'WIC adjunctive income eligibility (7 CFR § 246.7(d)(2)(vi))',
+  },
+  {
+    program: 'snap',
+    conferredBy: ['tanf'],
+    basis: 'Broad-based categorical eligibility through TANF-funded services (7 CFR § 273.2(j)(2))',
+  },
+  {
+    program: 'medicaid',
+    conferredBy: ['ssi'],
+    basis: 'SSI recipients qualify for Medicaid in most states (42 U.S.C. § 1396a(a)(10)(A)(i)(II))',
+  },
+];
+
+/**
+ * Data context variable set when a program in the category is likely eligible
+ */
+export const LIKELY_ELIGIBLE_VARIABLES: Readonly<Record<ProgramCategory, string>> = {
+  snap: 'likelyEligibleSNAP',
+  medicaid: 'likelyEligibleMedicaid',
+  tanf: 'likelyEligibleTANF',
+  ssi: 'likelyEligibleSSI',
+  wic: 'likelyEligibleWIC',
+};
+
+const PROGRAM_CATEGORY_LABELS: Readonly<Record<ProgramCategory, string>> = {
+  snap: 'SNAP',
+  medicaid: 'Medicaid',
+  tanf: 'TANF',
+  ssi: 'SSI',
+  wic: 'WIC',
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Map a program ID to its program family
+ *
+ * @example
+ * ```typescript
+ * getProgramCategory('snap-texas'); // 'snap'
+ * getProgramCategory('medi-cal-california'); // 'medicaid'
+ * getProgramCategory('section8-federal'); // undefined
+ * ```
+ */
+export function getProgramCategory(programId: string): ProgramCategory | undefined {
+  const id = programId.toLowerCase();
+  if (id === 'calfresh' || id.startsWith('snap-')) {return 'snap';}
+  if (id.startsWith('medicaid-') || id.startsWith('medi-cal')) {return 'medicaid';}
+  if (id.startsWith('tanf-')) {return 'tanf';}
+  if (id.startsWith('ssi-')) {return 'ssi';}
+  if (id.startsWith('wic-')) {return 'wic';}
+  return undefined;
+}
+
+function getConferringCategories(category: ProgramCategory | undefined): ProgramCategory[] {
+  if (!category) {return [];}
+  return PROGRAM_DEPENDENCIES
+    .filter(dependency => dependency.program === category)
+    .flatMap(dependency => dependency.conferredBy);
+}
+
+// ============================================================================
+// ORDERING
+// ============================================================================
+
+/**
+ * Order program IDs so every program comes after the programs that confer
+ * eligibility on it
+ *
+ * Programs outside the graph keep their relative order.
+ *
+ * @throws Error if the dependency graph has a cycle
+ */
+export function orderProgramsByDependencies(programIds: string[]): string[] {
+  const remaining = [...programIds];
+  const ordered: string[] = [];
+
+  while (remaining.length > 0) {
+    const pendingCategories = new Set(remaining.map(getProgramCategory));
+    const index = remaining.findIndex(programId =>
+      getConferringCategories(getProgramCategory(programId)).every(category => !pendingCategories.has(category))
+    );
+
+    if (index === -1) {
+      throw new Error(`Program dependency cycle among: ${remaining.join(', ')}`);
+    }
+
+    ordered.push(...remaining.splice(index, 1));
+  }
+
+  return ordered;
+}
+
+// ============================================================================
+// CONTEXT AND EXPLANATIONS
+// ============================================================================
+
+/**
+ * Build the categorical eligibility variables for a program from results
+ * already computed in the batch
+ *
+ * Only conferring programs that came back eligible are included.
+ */
+export function buildCategoricalContext(
+  programId: string,
+  results: ReadonlyMap<string, Pick<EligibilityEvaluationResult, 'eligible'>>
+): CategoricalContext {
+  const conferring = getConferringCategories(getProgramCategory(programId));
+  const context: CategoricalContext = { variables: {}, sourceProgramIds: [] };
+
+  for (const [sourceId, result] of results) {
+    const category = getProgramCategory(sourceId);
+    if (!category || !conferring.includes(category) || !result.eligible) {continue;}
+    context.variables[LIKELY_ELIGIBLE_VARIABLES[category]] = true;
+    context.sourceProgramIds.push(sourceId);
+  }
+
+  return context;
+}
+
+function rulePasses(
+  rule: Pick<EligibilityRuleDocument, 'ruleLogic' | 'effectiveDate'>,
+  data: JsonLogicData,
+  asOf?: number
+): boolean {
+  try {
+    return Boolean(jsonLogic.apply(
+      rule.ruleLogic as Parameters<typeof jsonLogic.apply>[0],
+      withEvaluationDate(data, rule, asOf)
+    ));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the conferring programs that decided a program's result
+ *
+ * A source program counts only when a rule reading its `likelyEligible*`
+ * variable passes with the categorical variables and fails without them.
+ * Programs that pass their own tests anyway return an empty list.
+ */
+export function findDecisiveCategoricalSources(
+  rules: Pick<EligibilityRuleDocument, 'ruleLogic' | 'ruleType' | 'effectiveDate'>[],
+  data: JsonLogicData,
+  context: CategoricalContext,
+  asOf?: number
+): string[] {
+  const contextVariables = Object.keys(context.variables);
+  if (contextVariables.length === 0) {return [];}
+
+  const withoutCategorical: JsonLogicData = { ...data };
+  for (const name of contextVariables) {
+    withoutCategorical[name] = false;
+  }
+
+  const decisive = new Set<string>();
+  for (const rule of rules) {
+    if (rule.ruleType === 'benefit_amount') {continue;}
+    const variables = getRuleVariables(rule.ruleLogic);
+    if (!contextVariables.some(name => variables.includes(name))) {continue;}
+    if (!rulePasses(rule, data, asOf) || rulePasses(rule, withoutCategorical, asOf)) {continue;}
+
+    for (const sourceId of context.sourceProgramIds) {
+      const category = getProgramCategory(sourceId);
+      if (category && variables.includes(LIKELY_ELIGIBLE_VARIABLES[category])) {
+        decisive.add(sourceId);
+      }
+    }
+  }
+
+  return context.sourceProgramIds.filter(sourceId => decisive.has(sourceId));
+}
+
+/**
+ * Explain categorical eligibility in plain language
+ *
+ * @example
+ * ```typescript
+ * describeCategoricalEligibility('wic-federal', ['medicaid-georgia']);
+ * // ['You likely qualify for WIC because you likely qualify for Medicaid.']
+ * ```
+ */
+export function describeCategoricalEligibility(programId: string, sourceProgramIds: string[]): string[] {
+  const category = getProgramCategory(programId);
+  if (!category) {return [];}
+
+  const sourceLabels = new Set(
+    sourceProgramIds
+      .map(getProgramCategory)
+      .filter((source): source is ProgramCategory => source !== undefined)
+      .map(source => PROGRAM_CATEGORY_LABELS[source])
+  );
+
+  return Array.from(sourceLabels, label =>
+    `You likely qualify for ${PROGRAM_CATEGORY_LABELS[category]} because you likely qualify for ${label}.`
+  );
+}
@@ -5,19 +5,29 @@
 import type { DetailedEvaluationResult } from '../../detailedEvaluator';
 import type { EligibilityRuleDocument } from '../../../../db/schemas';
 import type { RuleEvaluationResult } from '../../types';
-import type { ResultRuleSelection, EligibilityEvaluationResult, RuleEvaluationWithDetails } from '../types';
+import type { ResultRuleSelection, EligibilityEvaluationResult, RuleEvaluationWithDetails, EstimatedBenefit } from '../types';
+import type { TruthValue } from '../../threeValued';
+import { omitTranslatedExplanations } from '../../localization';
 import { debugLog } from './utils';
 
 /**
  * Calculate confidence score
+ *
+ * An undetermined result starts at 50 and rises toward 90 with the share
+ * of the program's rules already known to pass.
  */
 function calculateConfidence(
   evalResult: RuleEvaluationResult,
-  incomplete: boolean
+  incomplete: boolean,
+  ruleOutcomes: TruthValue[]
 ): number {
-  debugLog('Calculating confidence score', { evalResult, incomplete });
+  debugLog('Calculating confidence score', { evalResult, incomplete, ruleOutcomes });
   if (!evalResult.success) {return 0;}
-  if (incomplete) {return 50;}
+  if (incomplete) {
+    if (ruleOutcomes.length === 0) {return 50;}
+    const passed = ruleOutcomes.filter(outcome => outcome === true).length;
+    return 50 + Math.round((passed / ruleOutcomes.length) * 40);
+  }
   return 95;
 }
 
@@ -75,7 +85,8 @@ export function buildEvaluationResult(
   detailedResult: DetailedEvaluationResult,
   missingFields: string[],
   executionTime: number,
-  estimatedBenefit?: { amount: number; frequency: 'one_time' | 'monthly' | 'quarterly' | 'annual'; description?: string }
+  estimatedBenefit?: EstimatedBenefit,
+  ruleOutcomes: TruthValue[] = []
 ): EligibilityEvaluationResult {
   debugLog('Building eligibility evaluation result', {
     profileId, programId, ruleId: rule.id, evalResult, missingFields, executionTime
@@ -119,7 +130,7 @@ export function buildEvaluationResult(
     programId,
     ruleId: rule.id,
     eligible: evalResult.success ? Boolean(evalResult.result) : false,
-    confidence: calculateConfidence(evalResult, incomplete),
+    confidence: calculateConfidence(evalResult, incomplete, ruleOutcomes),
     reason: generateReason(evalResult, rule, incomplete),
     criteriaResults,
     missingFields: incomplete ? missingFields : undefined,
@@ -135,6 +146,10 @@ export function buildEvaluationResult(
     ruleVersion: rule.version,
     needsReview: !evalResult.success || incomplete,
     incomplete,
+    // The rule's explanation is only the reason for an eligible result
+    translations: evalResult.success && !incomplete && evalResult.result && rule.explanation
+      ? rule.translations
+      : omitTranslatedExplanations(rule.translations),
   };
 }
 
@@ -7,6 +7,8 @@ import type { EligibilityRuleDocument } from '../../../../db/schemas';
 import type { JsonLogicData, JsonLogicRule, RuleEvaluationResult } from '../../types';
 import type { RuleEvaluationWithDetails } from '../types';
 import { debugLog, checkMissingFields } from './utils';
+import { evaluateThreeValued, getRuleVariables, type ThreeValuedResult } from '../../threeValued';
+import { getGuidelineYearForDate } from '../../../../utils/povertyGuidelines';
 
 /**
  * Debug logger for rule evaluation
@@ -50,15 +52,64 @@ function logRuleResult(
   }
 }
 
+/**
+ * Add the evaluation date and the poverty guideline year used by
+ * `fpl_percent` to the data context
+ *
+ * `evaluationDate` (YYYY-MM-DD) is the as-of date or today; benefit amount
+ * estimators use it to select their tables. For `fplYear` an explicit as-of
+ * date wins; otherwise the table in effect on the rule's effective date is
+ * used, falling back to today for undated rules.
+ */
+export function withEvaluationDate(
+  data: JsonLogicData,
+  rule: Pick<EligibilityRuleDocument, 'effectiveDate'>,
+  asOf?: number
+): JsonLogicData {
+  const fplYear = getGuidelineYearForDate(asOf ?? rule.effectiveDate ?? Date.now());
+  const evaluationDate = new Date(asOf ?? Date.now()).toISOString().slice(0, 10);
+  return { ...data, fplYear, evaluationDate };
+}
+
+/**
+ * Settle a rule as true, false or unknown given its unanswered required fields
+ *
+ * Rules with every required field answered keep their JSON Logic result.
+ * Otherwise the unanswered fields are unknown in three-valued evaluation,
+ * so the rule is still settled when its answered parts decide it. A
+ * required field the logic doesn't read (one a derived variable comes
+ * from) leaves the rule unknown.
+ */
+function settleRuleOutcome(
+  rule: EligibilityRuleDocument,
+  ruleData: JsonLogicData,
+  evalResult: RuleEvaluationResult,
+  missingFields: string[]
+): ThreeValuedResult {
+  if (missingFields.length === 0) {
+    return { value: evalResult.success && Boolean(evalResult.result), unknownFields: [] };
+  }
+
+  const variables = new Set(getRuleVariables(rule.ruleLogic));
+  if (missingFields.some(field => !variables.has(field))) {
+    return { value: 'unknown', unknownFields: missingFields };
+  }
+  return evaluateThreeValued(rule.ruleLogic, ruleData, { unknownFields: missingFields });
+}
+
 /**
  * Evaluate a single rule and return the result
+ *
+ * `missingFields` on the result lists the unanswered fields that leave the
+ * rule unknown; it is empty once the answered fields settle the rule.
  */
 export function evaluateSingleRule(
   rule: EligibilityRuleDocument,
   data: JsonLogicData,
   profileId: string,
   programId: string,
-  allMissingFields: Set<string>
+  allMissingFields: Set<string>,
+  asOf?: number
 ): RuleEvaluationWithDetails {
   // Check for missing fields for this rule
   const missingFields = checkMissingFields(data, rule.requiredFields ?? []);
@@ -68,15 +119,16 @@ export function evaluateSingleRule(
     requiredFields: rule.requiredFields,
     dataKeys: Object.keys(data)
   });
-  missingFields.forEach(field => allMissingFields.add(field));
+
+  const ruleData = withEvaluationDate(data, rule, asOf);
 
   // Add debugging for rule evaluation
-  logRuleEvaluation(profileId, programId, rule.id, rule.ruleLogic, data);
+  logRuleEvaluation(profileId, programId, rule.id, rule.ruleLogic, ruleData);
 
   // Use detailed evaluator to capture comparison values
   const detailedResult = evaluateRuleWithDetails(
     rule.ruleLogic as JsonLogicRule,
-    data
+    ruleData
   );
 
   // Convert to standard evaluation result format
@@ -90,7 +142,10 @@ export function evaluateSingleRule(
 
   logRuleResult(rule.id, evalResult.success, evalResult.result, evalResult.error);
 
-  return { rule, evalResult, missingFields, detailedResult };
+  const outcome = settleRuleOutcome(rule, ruleData, evalResult, missingFields);
+  outcome.unknownFields.forEach(field => allMissingFields.add(field));
+
+  return { rule, evalResult, outcome: outcome.value, missingFields: outcome.unknownFields, detailedResult };
 }
 
 /**
@@ -117,6 +172,7 @@ export function createSkippedRuleResults(
       error: undefined,
       context: { skipped: true, reason },
       comparisons: []
-    }
+    },
+    outcome: false
   }));
 }
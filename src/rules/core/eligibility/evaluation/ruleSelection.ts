@@ -0,0 +1,74 @@
+/**
+ * Date-aware rule selection
+ *
+ * Rules carry an optional effective window and may supersede an earlier
+ * rule. Evaluating "as of" a date picks the rules in effect on that date,
+ * so upcoming rule changes (for example next fiscal year's limits) can be
+ * loaded ahead of time without changing today's results.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Rule fields needed for date-aware selection
+ */
+export interface DatedRule {
+  id: string;
+  active: boolean;
+  effectiveDate?: number;
+  expirationDate?: number;
+  supersedes?: string;
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+/**
+ * Check whether a rule is in effect on a date
+ *
+ * The effective and expiration dates are both inclusive.
+ *
+ * @example
+ * ```typescript
+ * const rule = { id: 'snap-fy2026', active: true, effectiveDate: Date.UTC(2025, 9, 1) };
+ * isRuleInEffect(rule, Date.UTC(2025, 8, 30)); // false
+ * isRuleInEffect(rule, Date.UTC(2025, 9, 1)); // true
+ * ```
+ */
+export function isRuleInEffect(rule: DatedRule, asOf: number = Date.now()): boolean {
+  if (!rule.active) {return false;}
+  if (rule.effectiveDate !== undefined && asOf < rule.effectiveDate) {return false;}
+  if (rule.expirationDate !== undefined && asOf > rule.expirationDate) {return false;}
+  return true;
+}
+
+/**
+ * Select the rules in effect on a date
+ *
+ * A rule that is superseded by another rule in effect on the same date is
+ * dropped, even when it has no expiration date of its own. Input order is
+ * preserved.
+ *
+ * @example
+ * ```typescript
+ * const rules = [
+ *   { id: 'snap-gross-v1', active: true },
+ *   { id: 'snap-gross-v2', active: true, effectiveDate: Date.UTC(2025, 9, 1), supersedes: 'snap-gross-v1' },
+ * ];
+ * selectRulesInEffect(rules, Date.UTC(2025, 5, 1)); // [snap-gross-v1]
+ * selectRulesInEffect(rules, Date.UTC(2025, 11, 1)); // [snap-gross-v2]
+ * ```
+ */
+export function selectRulesInEffect<T extends DatedRule>(rules: T[], asOf: number = Date.now()): T[] {
+  const inEffect = rules.filter(rule => isRuleInEffect(rule, asOf));
+  const superseded = new Set(
+    inEffect
+      .map(rule => rule.supersedes)
+      .filter((id): id is string => typeof id === 'string' && id.length > 0)
+  );
+
+  return inEffect.filter(rule => !superseded.has(rule.id));
+}
@@ -6,6 +6,26 @@
 
 import type { RuleEvaluationOptions, RuleEvaluationResult } from '../types';
 import type { EligibilityRuleDocument, UserProfileDocument } from '../../../db/schemas';
+import type { BenefitCalculationStep, BenefitDescriptionKey, EstimateKind } from '../../../utils/benefitEstimators';
+import type { CategoricalContext } from './evaluation/programDependencies';
+import type { RuleContentTranslations } from '../schema';
+import type { Counterfactual } from '../counterfactual';
+import type { TruthValue } from '../threeValued';
+
+/**
+ * Benefit amount produced by a `benefit_amount` rule
+ */
+export interface EstimatedBenefit {
+  amount: number;
+  frequency: 'one_time' | 'monthly' | 'quarterly' | 'annual';
+  /** `cost` for amounts the household pays; absent for benefits */
+  kind?: EstimateKind;
+  description?: string;
+  descriptionKey?: BenefitDescriptionKey;
+  descriptionValues?: Record<string, string | number>;
+  /** How the amount was calculated, for display */
+  steps?: BenefitCalculationStep[];
+}
 
 /**
  * Eligibility evaluation result (extended)
@@ -26,6 +46,7 @@ export interface EligibilityEvaluationResult {
     message?: string;
     description?: string;
   }>;
+  /** Unanswered questions that would settle an undetermined result */
   missingFields?: string[];
   requiredDocuments?: Array<{
     document: string;
@@ -41,12 +62,23 @@ export interface EligibilityEvaluationResult {
     amount?: number;
     frequency?: 'one_time' | 'monthly' | 'quarterly' | 'annual';
     description?: string;
+    descriptionKey?: BenefitDescriptionKey;
+    descriptionValues?: Record<string, string | number>;
+    steps?: BenefitCalculationStep[];
   };
+  /** What the household would pay, such as the Section 8 tenant rent share; never part of `estimatedBenefit` */
+  estimatedCost?: EligibilityEvaluationResult['estimatedBenefit'];
   evaluatedAt: number;
   executionTime?: number;
   ruleVersion?: string;
   needsReview?: boolean;
   incomplete?: boolean;
+  /** Programs in the same batch whose likely eligibility made a rule pass that would otherwise fail */
+  categoricallyEligibleVia?: string[];
+  /** Translated reason, documents and next steps from the rule, keyed by language */
+  translations?: RuleContentTranslations;
+  /** For an ineligible result, the smallest answer changes that would make it eligible */
+  counterfactuals?: Counterfactual[];
 }
 
 /**
@@ -58,6 +90,17 @@ export interface EligibilityEvaluationOptions {
   forceReEvaluation?: boolean;
   expiresIn?: number;
   evaluationOptions?: Partial<RuleEvaluationOptions>;
+  /**
+   * Evaluate as of this date (ms timestamp) instead of today: selects the
+   * rules in effect on that date and that date's poverty guidelines.
+   * Results are not cached
+   */
+  asOfDate?: number;
+  /**
+   * Categorical eligibility from other programs in the batch, merged into the
+   * data context; results are not cached when any variables are present
+   */
+  categoricalContext?: CategoricalContext;
 }
 
 /**
@@ -90,6 +133,8 @@ export interface EvaluationEntities {
 export interface RuleEvaluationWithDetails {
   rule: EligibilityRuleDocument;
   evalResult: RuleEvaluationResult;
+  /** Whether the rule passed; unknown when unanswered questions decide it */
+  outcome: TruthValue;
   missingFields: string[];
   detailedResult: unknown; // Will be imported from detailedEvaluator
 }
@@ -103,6 +148,8 @@ export interface AllRulesEvaluationResult {
   firstFailedRule: EligibilityRuleDocument | null;
   firstFailedResult: RuleEvaluationResult | null;
   allMissingFields: Set<string>;
+  /** No rule failed, but unanswered questions decide at least one */
+  undetermined: boolean;
 }
 
 /**
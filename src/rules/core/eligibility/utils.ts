@@ -7,8 +7,9 @@
 
 import type { EligibilityRuleDocument } from '../../../db/schemas';
 import type { JsonLogicData, RuleEvaluationResult } from '../types';
-import type { CriteriaBreakdownItem, FieldNameMapping } from './types';
+import type { CriteriaBreakdownItem } from './types';
 import { hasOwnProperty } from '../../../utils/safePropertyAccess';
+import { FIELD_NAME_MAPPINGS, capitalizeLabel, humanizeVariableName } from '../variables';
 
 // Global debug log utility
 function debugLog(...args: unknown[]): void {
@@ -17,67 +18,17 @@ function debugLog(...args: unknown[]): void {
   }
 }
 
-/**
- * Maps technical field names to user-friendly descriptions
- */
-export const FIELD_NAME_MAPPINGS: FieldNameMapping = {
-  'age': 'Your age',
-  'isPregnant': 'Pregnancy status',
-  'hasChildren': 'Whether you have children',
-  'hasQualifyingDisability': 'Qualifying disability status',
-  'isCitizen': 'Citizenship status',
-  'isLegalResident': 'Legal residency status',
-  'ssn': 'Social Security number',
-  'householdIncome': 'Your household\'s monthly income',
-  'householdSize': 'Your household size',
-  'income': 'Your income',
-  'grossIncome': 'your gross income',
-  'netIncome': 'your net income',
-  'monthlyIncome': 'your monthly income',
-  'annualIncome': 'your annual income',
-  'assets': 'your household assets',
-  'resources': 'your available resources',
-  'liquidAssets': 'your liquid assets',
-  'vehicleValue': 'your vehicle value',
-  'bankBalance': 'your bank account balance',
-  'state': 'your state of residence',
-  'stateHasExpanded': 'whether your state has expanded coverage',
-  'zipCode': 'your ZIP code',
-  'county': 'your county',
-  'jurisdiction': 'your location',
-  'hasHealthInsurance': 'current health insurance coverage',
-  'employmentStatus': 'your employment status',
-  'isStudent': 'student status',
-  'isVeteran': 'veteran status',
-  'isSenior': 'senior status (65+)',
-  'hasMinorChildren': 'whether you have children under 18',
-  'housingCosts': 'your housing costs',
-  'rentAmount': 'your monthly rent',
-  'mortgageAmount': 'your monthly mortgage',
-  'isHomeless': 'housing situation',
-  'receivesSSI': 'Supplemental Security Income (SSI)',
-  'receivesSNAP': 'SNAP benefits',
-  'receivesTANF': 'TANF benefits',
-  'receivesWIC': 'WIC benefits',
-  'receivesUnemployment': 'unemployment benefits',
-  'livesInState': 'state residency',
-};
-
 /**
  * Format field name to human-readable description
  */
 export function formatFieldName(fieldName: string): string {
   debugLog('Formatting field name', fieldName);
   if (hasOwnProperty(FIELD_NAME_MAPPINGS, fieldName)) {
-    const mapping = FIELD_NAME_MAPPINGS[fieldName as keyof FieldNameMapping];
+    const mapping = capitalizeLabel(FIELD_NAME_MAPPINGS[fieldName]);
     debugLog('Field mapping found', fieldName, mapping);
     return mapping;
   }
-  return fieldName
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/_/g, ' ')
-    .replace(/\b\w/g, (l) => l.toUpperCase())
-    .trim();
+  return humanizeVariableName(fieldName);
 }
 
 /**
@@ -13,6 +13,26 @@ import type {
   RuleEvaluationOptions,
   RuleEvaluationError,
 } from './types';
+import { getSNAPGrossIncomeLimit } from '../../utils/benefitThresholds';
+import {
+  getMonthlyFPLLimit,
+  getGuidelineRegionForState,
+  type GuidelineLookupOptions,
+  type PovertyGuidelineRegion,
+} from '../../utils/povertyGuidelines';
+import {
+  estimateSNAPAllotment,
+  estimateSSIPayment,
+  estimateTANFPayment,
+  estimateSection8TenantRent,
+  type BenefitEstimate,
+} from '../../utils/benefitEstimators';
+import {
+  getCountableResources,
+  getResourceLimit,
+  isResourceProgram,
+  normalizeHouseholdAssets,
+} from '../../utils/countableResources';
 
 // ============================================================================
 // CONSTANTS
@@ -446,6 +466,14 @@ function createEvaluationErrorFromException(
 // PREDEFINED CUSTOM OPERATORS
 // ============================================================================
 
+function isGuidelineRegion(value: unknown): value is PovertyGuidelineRegion {
+  return value === 'contiguous' || value === 'alaska' || value === 'hawaii';
+}
+
+function toEstimateDate(value: unknown): string | number | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
 /**
  * Common custom operators for benefit eligibility
  */
@@ -528,11 +556,48 @@ export const BENEFIT_OPERATORS = {
   },
 
   /**
-   * Get SNAP income threshold for 130% of federal poverty level (2024)
+   * Monthly income limit at a percentage of the federal poverty level
+   *
+   * Usage: {"fpl_percent": [{"var": "fplYear"}, {"var": "householdSize"}, 130, {"var": "fplRegion"}]}
+   *
+   * @param year Guideline year, or a date string selecting the table in effect on that date.
+   *   null/undefined uses the latest table.
+   * @param householdSize Number of people in household
+   * @param percent Percentage of FPL (e.g. 130)
+   * @param region 'contiguous' | 'alaska' | 'hawaii', or a state code (defaults to contiguous)
+   * @returns Monthly income limit in dollars
+   */
+  fpl_percent: (year: unknown, householdSize: number, percent: number, region?: unknown): number => {
+    const options: GuidelineLookupOptions = {
+      region: isGuidelineRegion(region) ? region : getGuidelineRegionForState(typeof region === 'string' ? region : undefined),
+    };
+    if (typeof year === 'number' && Number.isFinite(year)) {
+      options.year = year;
+    } else if (typeof year === 'string' && year.length > 0) {
+      options.asOf = year;
+    }
+
+    const limit = getMonthlyFPLLimit(Number(householdSize) || 1, Number(percent), options);
+
+    if (isDevelopmentEnv()) {
+      console.warn(`🔍 [DEBUG] fpl_percent(${String(year ?? 'latest')}, ${householdSize}, ${percent}) = $${limit}/month`);
+    }
+
+    return limit;
+  },
+
+  /**
+   * Get SNAP income threshold for 130% of federal poverty level
    * @param householdSize Number of people in household
-   * @returns Monthly income threshold in dollars
+   * @param year Guideline year (defaults to the latest table)
+   * @returns Monthly income threshold in dollars; NaN without a household
+   *   size, so comparisons against it are false rather than throwing
    */
-  snap_income_threshold_130_fpl: (householdSize: number): number => {
+  snap_income_threshold_130_fpl: (householdSize: number, year?: number): number => {
+    if (typeof householdSize !== 'number' || !(householdSize >= 1)) {
+      return NaN;
+    }
+
     // Debug logging - check for both browser and Node.js environments
     const isDev = isDevelopmentEnv();
 
@@ -540,27 +605,7 @@ export const BENEFIT_OPERATORS = {
       console.warn(`🔍 [DEBUG] Calculating SNAP 130% FPL threshold for household size: ${householdSize}`);
     }
 
-    // 2024 Federal Poverty Level thresholds for 130% (SNAP gross income limits)
-    const thresholds: Record<number, number> = {
-      1: 1696,
-      2: 2292,
-      3: 2888,
-      4: 3483,
-      5: 4079,
-      6: 4675,
-      7: 5271,
-      8: 5867
-    };
-
-    let threshold: number;
-
-    if (householdSize <= 8) {
-       
-      threshold = thresholds[householdSize];
-    } else {
-      // For households larger than 8, add $596 per additional member
-      threshold = thresholds[8] + (596 * (householdSize - 8));
-    }
+    const threshold = getSNAPGrossIncomeLimit(householdSize, typeof year === 'number' ? { year } : {});
 
     if (isDev) {
       console.warn(`🔍 [DEBUG] SNAP 130% FPL threshold for ${householdSize} people: $${threshold}/month`);
@@ -608,6 +653,156 @@ export const BENEFIT_OPERATORS = {
     return benefitInfo;
   },
 
+  /**
+   * Estimate a monthly SNAP allotment
+   *
+   * Usage: {"snap_benefit_estimate": [{"var": "evaluationDate"}, {"var": "householdSize"}, {"var": "householdIncome"},
+   *   {"var": "earnedIncome"}, {"var": "shelterCosts"}, {"var": "dependentCareCosts"}, {"var": "hasElderlyOrDisabled"},
+   *   {"var": "childSupportPaid"}, {"var": "medicalExpenses"}, {"var": "utilityAllowance"}]}
+   *
+   * @returns Benefit estimate with amount, frequency, description and calculation steps
+   */
+  snap_benefit_estimate: (
+    asOf: unknown,
+    householdSize: number,
+    grossIncome: number,
+    earnedIncome?: number,
+    shelterCosts?: number,
+    dependentCareCosts?: number,
+    hasElderlyOrDisabled?: unknown,
+    childSupportPaid?: number,
+    medicalExpenses?: number,
+    utilityAllowance?: number
+  ): BenefitEstimate => {
+    const estimate = estimateSNAPAllotment({
+      householdSize: Number(householdSize) || 1,
+      grossIncome: Number(grossIncome) || 0,
+      earnedIncome: Number(earnedIncome) || 0,
+      shelterCosts: Number(shelterCosts) || 0,
+      dependentCareCosts: Number(dependentCareCosts) || 0,
+      hasElderlyOrDisabled: Boolean(hasElderlyOrDisabled),
+      childSupportPaid: Number(childSupportPaid) || 0,
+      medicalExpenses: Number(medicalExpenses) || 0,
+      utilityAllowance: Number(utilityAllowance) || 0,
+      asOf: toEstimateDate(asOf),
+    });
+
+    if (isDevelopmentEnv()) {
+      console.warn(`🔍 [DEBUG] SNAP Benefit Estimate: $${estimate.amount}/month`, estimate.steps);
+    }
+
+    return estimate;
+  },
+
+  /**
+   * Estimate a monthly federal SSI payment
+   *
+   * Usage: {"ssi_benefit_estimate": [{"var": "evaluationDate"}, {"var": "isMarried"}, {"var": "earnedIncome"}, {"var": "unearnedIncome"}]}
+   */
+  ssi_benefit_estimate: (
+    asOf: unknown,
+    isCouple: unknown,
+    earnedIncome?: number,
+    unearnedIncome?: number
+  ): BenefitEstimate => {
+    const estimate = estimateSSIPayment({
+      isCouple: Boolean(isCouple),
+      earnedIncome: Number(earnedIncome) || 0,
+      unearnedIncome: Number(unearnedIncome) || 0,
+      asOf: toEstimateDate(asOf),
+    });
+
+    if (isDevelopmentEnv()) {
+      console.warn(`🔍 [DEBUG] SSI Benefit Estimate: $${estimate.amount}/month`, estimate.steps);
+    }
+
+    return estimate;
+  },
+
+  /**
+   * Estimate monthly TANF cash assistance from the state payment standard
+   *
+   * Usage: {"tanf_benefit_estimate": [{"var": "state"}, {"var": "householdSize"}, {"var": "earnedIncome"}, {"var": "unearnedIncome"}]}
+   */
+  tanf_benefit_estimate: (
+    stateCode: unknown,
+    householdSize: number,
+    earnedIncome?: number,
+    unearnedIncome?: number
+  ): BenefitEstimate => {
+    const estimate = estimateTANFPayment({
+      stateCode: typeof stateCode === 'string' ? stateCode : '',
+      householdSize: Number(householdSize) || 1,
+      earnedIncome: Number(earnedIncome) || 0,
+      unearnedIncome: Number(unearnedIncome) || 0,
+    });
+
+    if (isDevelopmentEnv()) {
+      console.warn(`🔍 [DEBUG] TANF Benefit Estimate: $${estimate.amount}/month`, estimate.steps);
+    }
+
+    return estimate;
+  },
+
+  /**
+   * Estimate the monthly Section 8 tenant rent share
+   *
+   * Usage: {"section8_tenant_rent": [{"var": "householdIncome"}, {"var": "childCount"}, {"var": "isElderlyOrDisabled"}, {"var": "dependentCareCosts"}]}
+   */
+  section8_tenant_rent: (
+    grossIncome: number,
+    dependents?: number,
+    isElderlyOrDisabledFamily?: unknown,
+    childCareCosts?: number
+  ): BenefitEstimate => {
+    const estimate = estimateSection8TenantRent({
+      grossIncome: Number(grossIncome) || 0,
+      dependents: Number(dependents) || 0,
+      isElderlyOrDisabledFamily: Boolean(isElderlyOrDisabledFamily),
+      childCareCosts: Number(childCareCosts) || 0,
+    });
+
+    if (isDevelopmentEnv()) {
+      console.warn(`🔍 [DEBUG] Section 8 Tenant Rent Estimate: $${estimate.amount}/month`, estimate.steps);
+    }
+
+    return estimate;
+  },
+
+  /**
+   * Countable resources for a program after its exclusions
+   *
+   * Usage: {"countable_resources": ["ssi", {"var": "assets"}]}
+   *
+   * @param program 'ssi' | 'snap' | 'tanf' | 'medicaid'
+   * @param assets Household assets by category; missing assets count as none
+   * @returns Countable resources in dollars
+   */
+  countable_resources: (program: unknown, assets: unknown): number => {
+    if (!isResourceProgram(program)) {
+      throw new Error(`countable_resources: unknown program "${String(program)}"`);
+    }
+    return getCountableResources(program, normalizeHouseholdAssets(assets) ?? {});
+  },
+
+  /**
+   * Resource limit for a program
+   *
+   * Usage: {"resource_limit": ["ssi", {"var": "isMarried"}]}
+   * Usage: {"resource_limit": ["tanf", false, {"var": "stateCode"}]}
+   *
+   * @param program 'ssi' | 'snap' | 'tanf' | 'medicaid'
+   * @param useHigherLimit Couple (SSI, Medicaid) or elderly/disabled household (SNAP, TANF)
+   * @param stateCode Two-letter state code, for programs whose states set limits
+   * @returns Resource limit in dollars, or null when there is no resource test
+   */
+  resource_limit: (program: unknown, useHigherLimit?: unknown, stateCode?: unknown): number | null => {
+    if (!isResourceProgram(program)) {
+      throw new Error(`resource_limit: unknown program "${String(program)}"`);
+    }
+    return getResourceLimit(program, useHigherLimit === true, typeof stateCode === 'string' ? stateCode : undefined);
+  },
+
   /**
    * Switch operator for conditional logic
    * Handles the structure: ["switch", value, {default: x}, {case: 1, do: y}, {case: 2, do: z}]
@@ -0,0 +1,238 @@
+/**
+ * Eligibility Flow Graph
+ *
+ * Turns a program's rules into a flowchart graph: one node for the
+ * program, one per rule, and one per condition in the rule's logic, each
+ * marked pass, fail or unknown against a profile. Layout and rendering are
+ * left to the caller.
+ */
+
+import jsonLogic from 'json-logic-js';
+import type { JsonLogicData, JsonLogicRule, RuleExplanationNode } from '../types';
+import { generateExplanationTree } from './treeGeneration';
+import { formatFieldName, formatValue } from './formatting';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FlowNodeStatus = 'pass' | 'fail' | 'unknown';
+
+export interface EligibilityFlowNode {
+  id: string;
+  kind: 'program' | 'rule' | 'condition';
+  label: string;
+  /** Values the condition reads, e.g. `Household Income: $2,500` */
+  details: string[];
+  status: FlowNodeStatus;
+}
+
+export interface EligibilityFlowEdge {
+  id: string;
+  source: string;
+  target: string;
+  /** Branch label for `if` (condition, then, otherwise) */
+  label?: string;
+}
+
+export interface EligibilityFlow {
+  programId: string;
+  status: FlowNodeStatus;
+  nodes: EligibilityFlowNode[];
+  edges: EligibilityFlowEdge[];
+}
+
+export interface FlowRule {
+  id: string;
+  name: string;
+  ruleLogic: unknown;
+}
+
+// Operators whose operands are conditions in their own right
+const LOGICAL_OPERATORS = new Set(['and', 'or', '!', 'if']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isOperation(logic: unknown): logic is Record<string, unknown> {
+  return typeof logic === 'object' && logic !== null && !Array.isArray(logic);
+}
+
+function childPath(path: string, segment: string | number): string {
+  if (typeof segment === 'number') {return `${path}[${segment}]`;}
+  return path ? `${path}.${segment}` : segment;
+}
+
+/** Variables read anywhere in a logic subtree */
+function collectVariables(logic: unknown, found: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(logic)) {
+    logic.forEach(item => collectVariables(item, found));
+  } else if (isOperation(logic)) {
+    for (const [operator, value] of Object.entries(logic)) {
+      if (operator === 'var') {
+        const name = Array.isArray(value) ? value[0] : value;
+        if (typeof name === 'string' && name) {found.add(name);}
+      } else {
+        collectVariables(value, found);
+      }
+    }
+  }
+  return found;
+}
+
+function readVariable(name: string, data: JsonLogicData): unknown {
+  return jsonLogic.apply({ var: name }, data) as unknown;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** JSON Logic truthiness (empty arrays are false) */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Status of a condition that can't be broken down further: unknown when it
+ * reads a missing value, otherwise whether it evaluates truthy
+ */
+function evaluateLeaf(logic: unknown, variables: string[], data: JsonLogicData): FlowNodeStatus {
+  if (variables.some(name => isMissing(readVariable(name, data)))) {return 'unknown';}
+  try {
+    return isTruthy(jsonLogic.apply(logic as Parameters<typeof jsonLogic.apply>[0], data)) ? 'pass' : 'fail';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/** Which part of an `if` an operand is: conditions at even positions, then-branches after them, a trailing else */
+function ifBranchLabel(index: number, count: number): string {
+  if (index % 2 === 1) {return 'then';}
+  return index === count - 1 ? 'otherwise' : 'condition';
+}
+
+/** Combine child statuses the way the logical operator does */
+function combineStatuses(operator: string, statuses: FlowNodeStatus[]): FlowNodeStatus {
+  switch (operator) {
+    case 'and':
+      if (statuses.includes('fail')) {return 'fail';}
+      return statuses.includes('unknown') ? 'unknown' : 'pass';
+    case 'or':
+      if (statuses.includes('pass')) {return 'pass';}
+      return statuses.includes('unknown') ? 'unknown' : 'fail';
+    case '!':
+      if (statuses[0] === 'unknown') {return 'unknown';}
+      return statuses[0] === 'pass' ? 'fail' : 'pass';
+    default:
+      return 'unknown';
+  }
+}
+
+/** `if` takes the first branch whose condition passes */
+function combineIfStatuses(statuses: FlowNodeStatus[]): FlowNodeStatus {
+  let index = 0;
+  while (index < statuses.length - 1) {
+    if (statuses[index] === 'unknown') {return 'unknown';}
+    if (statuses[index] === 'pass') {return statuses[index + 1];}
+    index += 2;
+  }
+  return index === statuses.length - 1 ? statuses[index] : 'fail';
+}
+
+// ============================================================================
+// GRAPH BUILDING
+// ============================================================================
+
+/**
+ * Build the flowchart graph for a program's rules
+ *
+ * Node labels come from generateExplanationTree. Logical operators (`and`,
+ * `or`, `!`, `if`) expand into one node per operand; anything else is a
+ * single condition node listing the values it reads.
+ *
+ * @example
+ * ```typescript
+ * const flow = buildEligibilityFlow({ id: 'snap-federal', name: 'SNAP' }, rules, data);
+ * flow.status; // 'fail'
+ * flow.nodes.filter(node => node.status === 'fail'); // the failing conditions
+ * ```
+ */
+export function buildEligibilityFlow(
+  program: { id: string; name: string },
+  rules: FlowRule[],
+  data: JsonLogicData
+): EligibilityFlow {
+  const nodes: EligibilityFlowNode[] = [];
+  const edges: EligibilityFlowEdge[] = [];
+
+  const connect = (source: string, target: string, label?: string): void => {
+    edges.push({ id: `${source}->${target}`, source, target, label });
+  };
+
+  const visit = (
+    logic: unknown,
+    explanation: RuleExplanationNode,
+    ruleNodeId: string,
+    path: string
+  ): FlowNodeStatus => {
+    const id = `${ruleNodeId}/${path}`;
+
+    if (!isOperation(logic)) {
+      const status: FlowNodeStatus = isTruthy(logic) ? 'pass' : 'fail';
+      nodes.push({ id, kind: 'condition', label: `Result: ${formatValue(logic)}`, details: [], status });
+      return status;
+    }
+
+    const [operator] = Object.keys(logic);
+    const value = logic[operator];
+
+    if (LOGICAL_OPERATORS.has(operator)) {
+      const operands = Array.isArray(value) ? value : [value];
+      const node: EligibilityFlowNode = { id, kind: 'condition', label: explanation.description, details: [], status: 'unknown' };
+      nodes.push(node);
+
+      const statuses = operands.map((operand, index) => {
+        const operandPath = Array.isArray(value) ? childPath(childPath(path, operator), index) : childPath(path, operator);
+        connect(id, `${ruleNodeId}/${operandPath}`, operator === 'if' ? ifBranchLabel(index, operands.length) : undefined);
+        return visit(operand, explanation.children?.[index] ?? explanation, ruleNodeId, operandPath);
+      });
+
+      node.status = operator === 'if' ? combineIfStatuses(statuses) : combineStatuses(operator, statuses);
+      return node.status;
+    }
+
+    const variables = Array.from(collectVariables(logic));
+    const status = evaluateLeaf(logic, variables, data);
+    nodes.push({
+      id,
+      kind: 'condition',
+      label: explanation.description,
+      details: variables.map(name => `${formatFieldName(name)}: ${formatValue(readVariable(name, data))}`),
+      status,
+    });
+    return status;
+  };
+
+  const programNodeId = `program:${program.id}`;
+  const programNode: EligibilityFlowNode = { id: programNodeId, kind: 'program', label: program.name, details: [], status: 'unknown' };
+  nodes.push(programNode);
+
+  const ruleStatuses = rules.map(rule => {
+    const ruleNodeId = `rule:${rule.id}`;
+    const ruleNode: EligibilityFlowNode = { id: ruleNodeId, kind: 'rule', label: rule.name, details: [], status: 'unknown' };
+    nodes.push(ruleNode);
+    connect(programNodeId, ruleNodeId);
+
+    const logic = rule.ruleLogic as JsonLogicRule;
+    const [explanation] = generateExplanationTree(logic, 0);
+    connect(ruleNodeId, `${ruleNodeId}/`);
+    ruleNode.status = visit(logic, explanation, ruleNodeId, '');
+    return ruleNode.status;
+  });
+
+  programNode.status = combineStatuses('and', ruleStatuses);
+
+  return { programId: program.id, status: programNode.status, nodes, edges };
+}
@@ -8,9 +8,17 @@
 // Main functions
 export { explainResult, explainRule, formatRuleExplanation } from './main';
 export { explainDifference, explainWhatWouldPass } from './comparison';
+export { buildEligibilityFlow } from './flowGraph';
 
 // Types
 export type { ResultExplanation, ExplanationOptions } from './types';
+export type {
+  EligibilityFlow,
+  EligibilityFlowNode,
+  EligibilityFlowEdge,
+  FlowNodeStatus,
+  FlowRule,
+} from './flowGraph';
 
 // Utilities (for advanced usage)
 export { formatFieldName, formatValue } from './formatting';
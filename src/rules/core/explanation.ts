@@ -8,4 +8,6 @@
 // Re-export everything from the modular implementation
 export { explainResult, explainRule, formatRuleExplanation } from './explanation-system';
 export { explainDifference, explainWhatWouldPass } from './explanation-system';
-export type { ResultExplanation, ExplanationOptions } from './explanation-system';
\ No newline at end of file
+export { buildEligibilityFlow } from './explanation-system';
+export type { ResultExplanation, ExplanationOptions } from './explanation-system';
+export type { EligibilityFlow, EligibilityFlowNode, EligibilityFlowEdge, FlowNodeStatus } from './explanation-system';
\ No newline at end of file
@@ -21,6 +21,12 @@ export {
   exportProgramRules,
   exportToJSON,
   exportPackageToJSON,
+  canonicalJSONStringify,
+  generateSigningKeyPair,
+  signRulePackage,
+  verifyRulePackageSignature,
+  TRUSTED_SIGNING_KEYS,
+  findTrustedKey,
   validateRuleLogic,
   runRuleTests,
   performRuleValidationAndTests,
@@ -34,3 +40,11 @@ export {
   logSnapSsiError,
   logSnapSsiBatchImport,
 } from './import-export/index';
+
+export type {
+  PackageSigner,
+  PackageSignatureStatus,
+  PackageSignatureVerification,
+  TrustedSigningKey,
+  RulePackageImportOptions,
+} from './import-export/index';
@@ -10,6 +10,8 @@ export const IMPORT_ERROR_CODES = {
   TEST_FAILED: 'IMPORT_TEST_FAILED',
   VERSION_CONFLICT: 'IMPORT_VERSION_CONFLICT',
   CHECKSUM_MISMATCH: 'IMPORT_CHECKSUM_MISMATCH',
+  SIGNATURE_INVALID: 'IMPORT_SIGNATURE_INVALID',
+  SIGNATURE_REQUIRED: 'IMPORT_SIGNATURE_REQUIRED',
   DATABASE_ERROR: 'IMPORT_DATABASE_ERROR',
 } as const;
 
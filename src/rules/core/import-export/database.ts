@@ -64,9 +64,11 @@ export async function saveRuleToDatabase(
     explanation: rule.explanation,
     requiredDocuments: rule.requiredDocuments?.map((d) => d.name),
     requiredFields: rule.requiredFields,
+    translations: rule.translations,
     version: formatVersion(rule.version),
     effectiveDate: rule.effectiveDate,
     expirationDate: rule.expirationDate,
+    supersedes: rule.supersedes,
     source: rule.source,
     sourceDocument: rule.citations?.[0]?.document,
     legalReference: rule.legalReference,
@@ -117,9 +119,11 @@ export function convertDatabaseRuleToDefinition(
       name,
       required: true,
     })),
+    translations: dbRule.translations,
     version,
     effectiveDate: dbRule.effectiveDate,
     expirationDate: dbRule.expirationDate,
+    supersedes: dbRule.supersedes,
     source: dbRule.source,
     legalReference: dbRule.legalReference,
     active: dbRule.active,
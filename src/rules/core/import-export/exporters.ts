@@ -5,6 +5,7 @@
 import { getDatabase } from '../../../db/database';
 import { type RuleDefinition, type RuleExportOptions, type RulePackage, calculateChecksum } from '../schema';
 import { convertDatabaseRuleToDefinition } from './database';
+import { signRulePackage, type PackageSigner } from './signing';
 
 export async function exportRule(
   ruleId: string,
@@ -36,10 +37,16 @@ export async function exportRules(
   return rules;
 }
 
+/**
+ * Export rules as a package
+ *
+ * @param signer Sign the package so importers can verify who published it
+ */
 export async function exportRulePackage(
   ruleIds: string[],
   packageName: string,
-  options: RuleExportOptions = {}
+  options: RuleExportOptions = {},
+  signer?: PackageSigner
 ): Promise<RulePackage> {
   const rules = await exportRules(ruleIds, options);
 
@@ -61,7 +68,7 @@ export async function exportRulePackage(
     rules: pkg.rules,
   });
 
-  return pkg;
+  return signer ? signRulePackage(pkg, signer) : pkg;
 }
 
 export async function exportProgramRules(
@@ -91,9 +98,10 @@ export async function exportToJSON(
 export async function exportPackageToJSON(
   ruleIds: string[],
   packageName: string,
-  options: RuleExportOptions = {}
+  options: RuleExportOptions = {},
+  signer?: PackageSigner
 ): Promise<string> {
-  const pkg = await exportRulePackage(ruleIds, packageName, options);
+  const pkg = await exportRulePackage(ruleIds, packageName, options, signer);
 
   const indent = options.pretty ? 2 : undefined;
   return JSON.stringify(pkg, null, indent);
@@ -2,8 +2,10 @@
  * Rule Import Functions
  */
 
-import { validateRuleDefinition, validateRulePackage, calculateChecksum, formatVersion, type RuleImportOptions, type RuleImportResult } from '../schema';
+import { validateRuleDefinition, validateRulePackage, calculateChecksum, formatVersion, type RuleImportOptions, type RuleImportResult, type RulePackage } from '../schema';
 import { IMPORT_ERROR_CODES } from './constants';
+import { verifyRulePackageSignature, type PackageSignatureVerification } from './signing';
+import type { RulePackageImportOptions } from './types';
 import {
   extractRuleMetadata,
   logSnapSsiDebugInfo,
@@ -156,9 +158,43 @@ export async function importRules(
   return aggregateResult;
 }
 
+/**
+ * Decide whether a package signature allows import
+ *
+ * Tampered packages are always refused; unsigned packages and unknown
+ * signers are refused unless the caller turns off `requireSignature`.
+ */
+function checkPackageSignature(
+  verification: PackageSignatureVerification,
+  requireSignature: boolean
+): { error?: RuleImportResult['errors'][number]; warning?: string } {
+  switch (verification.status) {
+    case 'verified':
+      return {};
+    case 'invalid':
+      return {
+        error: {
+          message: 'Package signature does not match its contents - package may have been tampered with',
+          code: IMPORT_ERROR_CODES.SIGNATURE_INVALID,
+        },
+      };
+    case 'untrusted': {
+      const message = `Package is signed by an unknown key${verification.keyId ? ` (${verification.keyId})` : ''}`;
+      return requireSignature
+        ? { error: { message, code: IMPORT_ERROR_CODES.SIGNATURE_REQUIRED } }
+        : { warning: message };
+    }
+    case 'unsigned':
+    default:
+      return requireSignature
+        ? { error: { message: 'Package is not signed', code: IMPORT_ERROR_CODES.SIGNATURE_REQUIRED } }
+        : { warning: 'Package is not signed' };
+  }
+}
+
 export async function importRulePackage(
   packageData: unknown,
-  options: RuleImportOptions = {}
+  options: RulePackageImportOptions = {}
 ): Promise<RuleImportResult> {
   const result: RuleImportResult = {
     success: false,
@@ -199,6 +235,16 @@ export async function importRulePackage(
       }
     }
 
+    // Verify against the package as supplied, before schema parsing
+    const signature = await verifyRulePackageSignature(packageData as RulePackage, options.trustedKeys);
+    result.signature = signature;
+    const signatureCheck = checkPackageSignature(signature, options.requireSignature ?? true);
+    if (signatureCheck.error) {
+      result.errors.push(signatureCheck.error);
+      result.failed = 1;
+      return result;
+    }
+
     console.log(`🔍 [DEBUG] importRulePackage: Importing ${pkg.rules.length} rules from package: ${pkg.metadata.name}`);
     pkg.rules.forEach((rule, index) => {
       console.log(`  ${index + 1}. ${rule.id} (${rule.ruleType})`);
@@ -208,7 +254,9 @@ export async function importRulePackage(
 
     return {
       ...importResult,
+      signature,
       warnings: [
+        ...(signatureCheck.warning ? [{ message: signatureCheck.warning }] : []),
         ...importResult.warnings,
         {
           message: `Imported package: ${pkg.metadata.name} v${formatVersion(pkg.metadata.version)}`,
@@ -229,7 +277,7 @@ export async function importRulePackage(
 
 export async function importFromJSON(
   json: string,
-  options: RuleImportOptions = {}
+  options: RulePackageImportOptions = {}
 ): Promise<RuleImportResult> {
   try {
     const data = JSON.parse(json);
@@ -26,6 +26,18 @@ export {
   exportPackageToJSON,
 } from './exporters';
 
+// Export signing functions
+export {
+  canonicalJSONStringify,
+  generateSigningKeyPair,
+  signRulePackage,
+  verifyRulePackageSignature,
+} from './signing';
+export type { PackageSigner, PackageSignatureStatus, PackageSignatureVerification } from './signing';
+export { TRUSTED_SIGNING_KEYS, findTrustedKey } from './trustedKeys';
+export type { TrustedSigningKey } from './trustedKeys';
+export type { RulePackageImportOptions } from './types';
+
 // Export validation functions (if needed externally)
 export {
   validateRuleLogic,
@@ -0,0 +1,135 @@
+/**
+ * Rule Package Signing
+ *
+ * ECDSA P-256 signatures over a package's metadata and rules. The signed
+ * payload is canonical JSON (object keys sorted), so a package verifies
+ * after any JSON round trip that preserves its values.
+ */
+
+import type { RulePackage } from '../schema';
+import { arrayBufferToBase64, base64ToUint8Array } from '../../../utils/encryption';
+import { findTrustedKey, TRUSTED_SIGNING_KEYS, type TrustedSigningKey } from './trustedKeys';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Key used to sign exported packages
+ */
+export interface PackageSigner {
+  keyId: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Outcome of checking a package signature
+ *
+ * - `verified`: signed by a trusted key and unchanged since signing
+ * - `unsigned`: no signature
+ * - `untrusted`: signed, but not by a trusted key
+ * - `invalid`: signed by a trusted key, but the contents do not match
+ */
+export type PackageSignatureStatus = 'verified' | 'unsigned' | 'untrusted' | 'invalid';
+
+export interface PackageSignatureVerification {
+  status: PackageSignatureStatus;
+  keyId?: string;
+  /** Name of the trusted key holder */
+  signer?: string;
+}
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+// ============================================================================
+// PAYLOAD
+// ============================================================================
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level
+ */
+export function canonicalJSONStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      const source = current as Record<string, unknown>;
+      return Object.fromEntries(Object.keys(source).sort().map(key => [key, source[key]]));
+    }
+    return current;
+  });
+}
+
+function getSigningPayload(pkg: Pick<RulePackage, 'metadata' | 'rules'>): BufferSource {
+  return new TextEncoder().encode(canonicalJSONStringify({ metadata: pkg.metadata, rules: pkg.rules }));
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Generate a signing key pair
+ *
+ * Keep the private key out of the repository; add the public key to
+ * `TRUSTED_SIGNING_KEYS` as a JWK.
+ */
+export function generateSigningKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+}
+
+function importPublicKey(publicKey: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', publicKey, SIGNING_ALGORITHM, false, ['verify']);
+}
+
+// ============================================================================
+// SIGN AND VERIFY
+// ============================================================================
+
+/**
+ * Sign a package, returning a copy with `signature` and `signatureKeyId` set
+ */
+export async function signRulePackage(pkg: RulePackage, signer: PackageSigner): Promise<RulePackage> {
+  const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, signer.privateKey, getSigningPayload(pkg));
+
+  return {
+    ...pkg,
+    signature: arrayBufferToBase64(signature),
+    signatureKeyId: signer.keyId,
+  };
+}
+
+/**
+ * Check a package signature against trusted keys
+ *
+ * Pass the package as read from the file (before schema parsing) so fields
+ * the schema would drop are still covered by the check.
+ *
+ * @example
+ * ```typescript
+ * const verification = await verifyRulePackageSignature(JSON.parse(fileText));
+ * if (verification.status === 'invalid') {
+ *   // Refuse: the package changed after it was signed
+ * }
+ * ```
+ */
+export async function verifyRulePackageSignature(
+  pkg: Pick<RulePackage, 'metadata' | 'rules' | 'signature' | 'signatureKeyId'>,
+  trustedKeys: readonly TrustedSigningKey[] = TRUSTED_SIGNING_KEYS
+): Promise<PackageSignatureVerification> {
+  const { signature, signatureKeyId: keyId } = pkg;
+  if (!signature) {return { status: 'unsigned' };}
+  if (!keyId) {return { status: 'untrusted' };}
+
+  const trustedKey = findTrustedKey(keyId, trustedKeys);
+  if (!trustedKey) {return { status: 'untrusted', keyId };}
+
+  let valid = false;
+  try {
+    const publicKey = await importPublicKey(trustedKey.publicKey);
+    valid = await crypto.subtle.verify(SIGNATURE_PARAMS, publicKey, base64ToUint8Array(signature) as BufferSource, getSigningPayload(pkg));
+  } catch {
+    valid = false;
+  }
+
+  return { status: valid ? 'verified' : 'invalid', keyId, signer: trustedKey.name };
+}
@@ -0,0 +1,53 @@
+/**
+ * Trusted Rule Package Signing Keys
+ *
+ * Public keys whose signatures are accepted when importing rule packages.
+ * Packages that are unsigned or signed with any other key are refused
+ * unless the caller opts out of `requireSignature`.
+ *
+ * To add a key, export the public key as a JWK (ECDSA P-256) and add an
+ * entry below. Private keys must never be committed.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A public key trusted to sign rule packages
+ */
+export interface TrustedSigningKey {
+  /** Identifier written to `signatureKeyId` by the signer */
+  keyId: string;
+  /** Who holds the private key, shown in the import flow */
+  name: string;
+  /** ECDSA P-256 public key */
+  publicKey: JsonWebKey;
+}
+
+// ============================================================================
+// TRUSTED KEYS
+// ============================================================================
+
+export const TRUSTED_SIGNING_KEYS: readonly TrustedSigningKey[] = [
+  {
+    keyId: 'benefit-finder-2026',
+    name: 'BenefitFinder Maintainers',
+    publicKey: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: 'qfDFZq12fY_4BTlvIvUEhRCI8FwMtR8tJ0bkj5KpEF8',
+      y: 'yFcjOMemgSCUxCiJznozsLBLJ6EvrhBhV4XymhZXD_o',
+    },
+  },
+];
+
+/**
+ * Look up a trusted key by ID
+ */
+export function findTrustedKey(
+  keyId: string,
+  trustedKeys: readonly TrustedSigningKey[] = TRUSTED_SIGNING_KEYS
+): TrustedSigningKey | undefined {
+  return trustedKeys.find(key => key.keyId === keyId);
+}
@@ -2,6 +2,9 @@
  * Types for Rule Import/Export
  */
 
+import type { RuleImportOptions } from '../schema';
+import type { TrustedSigningKey } from './trustedKeys';
+
 export interface UnknownRuleData {
   id?: unknown;
   programId?: unknown;
@@ -17,3 +20,8 @@ export interface RuleMetadata {
   ruleId: string;
   programId: string;
 }
+
+export interface RulePackageImportOptions extends RuleImportOptions {
+  /** Keys to verify signatures against; defaults to `TRUSTED_SIGNING_KEYS` */
+  trustedKeys?: readonly TrustedSigningKey[];
+}
@@ -0,0 +1,182 @@
+/**
+ * Rule Content Localization
+ *
+ * Picks the translated explanation, documents and next steps for a language,
+ * falling back to the rule's English text, and measures translation coverage.
+ */
+
+import type { RuleContentTranslation, RuleContentTranslations } from './schema';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Language rule content is written in
+ */
+export const RULE_CONTENT_BASE_LANGUAGE = 'en';
+
+/**
+ * Languages rule content is translated into (matches the app's supported languages)
+ */
+export const RULE_CONTENT_LANGUAGES = ['es'] as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Rule or result fields that can be localized
+ */
+export interface LocalizableRuleContent {
+  explanation?: string;
+  requiredDocuments?: Array<{
+    name: string;
+    description?: string;
+    where?: string;
+    alternatives?: string[];
+  }>;
+  nextSteps?: Array<{ step: string }>;
+  translations?: RuleContentTranslations;
+}
+
+/**
+ * How much of a set of rules is translated into one language
+ */
+export interface TranslationCoverage {
+  language: string;
+  /** Strings with a translation */
+  translated: number;
+  /** Strings that need one */
+  total: number;
+  /** Paths of untranslated strings (e.g. `snap-asset-test.nextSteps[0]`) */
+  missing: string[];
+}
+
+// ============================================================================
+// LOCALIZATION
+// ============================================================================
+
+/**
+ * Find the translation for a language, trying the region-less code next
+ * (`es-MX` → `es`)
+ *
+ * Returns undefined for the base language and untranslated languages.
+ */
+export function selectTranslation(
+  translations: RuleContentTranslations | undefined,
+  language: string | undefined
+): RuleContentTranslation | undefined {
+  if (!translations || !language) {return undefined;}
+
+  const [baseLanguage] = language.split('-');
+  if (baseLanguage === RULE_CONTENT_BASE_LANGUAGE) {return undefined;}
+
+  for (const code of [language, baseLanguage]) {
+    if (Object.prototype.hasOwnProperty.call(translations, code)) {
+      return translations[code];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace explanation, document and next step text with a language's translation
+ *
+ * Untranslated fields keep their English text.
+ *
+ * @example
+ * ```typescript
+ * const spanish = localizeRuleContent(rule, i18n.language);
+ * spanish.explanation; // translations.es.explanation ?? rule.explanation
+ * ```
+ */
+export function localizeRuleContent<T extends LocalizableRuleContent>(content: T, language: string | undefined): T {
+  const translation = selectTranslation(content.translations, language);
+  if (!translation) {return content;}
+
+  return {
+    ...content,
+    explanation: translation.explanation ?? content.explanation,
+    requiredDocuments: content.requiredDocuments?.map((doc, i) => {
+      const translated = translation.requiredDocuments?.[i];
+      return translated
+        ? {
+          ...doc,
+          name: translated.name ?? doc.name,
+          description: translated.description ?? doc.description,
+          where: translated.where ?? doc.where,
+          alternatives: translated.alternatives ?? doc.alternatives,
+        }
+        : doc;
+    }),
+    nextSteps: content.nextSteps?.map((step, i) => {
+      const translated = translation.nextSteps?.[i];
+      return translated ? { ...step, step: translated } : step;
+    }),
+  };
+}
+
+/**
+ * Drop translated explanations, for results whose reason is not the rule's explanation
+ */
+export function omitTranslatedExplanations(
+  translations: RuleContentTranslations | undefined
+): RuleContentTranslations | undefined {
+  if (!translations) {return undefined;}
+
+  return Object.fromEntries(
+    Object.entries(translations).map(([language, { explanation: _explanation, ...rest }]) => [language, rest])
+  );
+}
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+/**
+ * Count translated rule strings per language
+ *
+ * Every explanation, document name/description/where and next step counts
+ * as one string.
+ *
+ * @example
+ * ```typescript
+ * getTranslationCoverage(pkg.rules);
+ * // [{ language: 'es', translated: 12, total: 40, missing: [...] }]
+ * ```
+ */
+export function getTranslationCoverage(
+  rules: Array<LocalizableRuleContent & { id: string }>,
+  languages: readonly string[] = RULE_CONTENT_LANGUAGES
+): TranslationCoverage[] {
+  return languages.map((language) => {
+    const coverage: TranslationCoverage = { language, translated: 0, total: 0, missing: [] };
+    const count = (path: string, source: string | undefined, translated: string | undefined): void => {
+      if (!source) {return;}
+      coverage.total++;
+      if (translated) {
+        coverage.translated++;
+      } else {
+        coverage.missing.push(path);
+      }
+    };
+
+    for (const rule of rules) {
+      const translation = rule.translations?.[language];
+
+      count(`${rule.id}.explanation`, rule.explanation, translation?.explanation);
+      rule.requiredDocuments?.forEach((doc, i) => {
+        const translatedDoc = translation?.requiredDocuments?.[i];
+        count(`${rule.id}.requiredDocuments[${i}].name`, doc.name, translatedDoc?.name);
+        count(`${rule.id}.requiredDocuments[${i}].description`, doc.description, translatedDoc?.description);
+        count(`${rule.id}.requiredDocuments[${i}].where`, doc.where, translatedDoc?.where);
+      });
+      rule.nextSteps?.forEach((step, i) => {
+        count(`${rule.id}.nextSteps[${i}]`, step.step, translation?.nextSteps?.[i]);
+      });
+    }
+
+    return coverage;
+  });
+}
@@ -0,0 +1,392 @@
+/**
+ * Rule Package Diff
+ *
+ * Semantic comparison of two versions of a rule package: which rules were
+ * added, removed or changed, which numeric thresholds moved (with old and
+ * new values), which required fields changed, and — given a corpus of
+ * profiles — which profiles flip between eligible and ineligible for a
+ * program.
+ *
+ * A program's eligibility is evaluated the way the engine does it: every
+ * active, non-draft rule for the program other than `benefit_amount` rules
+ * must pass.
+ */
+
+import jsonLogic from 'json-logic-js';
+import { formatVersion } from './schema';
+import { getGuidelineYearForDate } from '../../utils/povertyGuidelines';
+import type { RulePackage, RuleDefinition } from './schema';
+import type { JsonLogicData, JsonLogicRule } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A profile to evaluate both package versions against
+ */
+export interface DiffProfile {
+  id: string;
+  description?: string;
+  /** Rule data context (the variables rules read) */
+  data: JsonLogicData;
+}
+
+/**
+ * Evaluate rule logic against a profile's data
+ */
+export type DiffEvaluator = (logic: JsonLogicRule, data: JsonLogicData) => unknown;
+
+/**
+ * Options for diffRulePackages
+ */
+export interface RulePackageDiffOptions {
+  /** Profiles to check for eligibility flips */
+  profiles?: DiffProfile[];
+  /** Evaluation date for date-dependent values such as the poverty guideline year */
+  asOf?: Date | number | string;
+  /** Defaults to `jsonLogic.apply`; register benefit operators first */
+  evaluate?: DiffEvaluator;
+}
+
+/**
+ * A numeric literal that changed value at the same place in a rule's logic
+ */
+export interface ThresholdChange {
+  /** Location of the value in the rule logic (e.g. `and[1].<=[1]`) */
+  path: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Changes to a rule present in both packages
+ */
+export interface RuleDiff {
+  ruleId: string;
+  programId: string;
+  name: string;
+  /** Top-level rule fields whose values differ */
+  changedFields: string[];
+  thresholdChanges: ThresholdChange[];
+  /** The logic changed beyond numeric values (operators, variables, structure) */
+  logicChanged: boolean;
+  requiredFields: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+/**
+ * Summary of a rule that exists in only one package
+ */
+export interface RuleSummary {
+  ruleId: string;
+  programId: string;
+  name: string;
+}
+
+/**
+ * A profile whose eligibility for a program differs between packages
+ */
+export interface EligibilityFlip {
+  profileId: string;
+  description?: string;
+  programId: string;
+  before: boolean;
+  after: boolean;
+}
+
+/**
+ * Semantic difference between two rule packages
+ */
+export interface RulePackageDiff {
+  before: { id: string; version: string };
+  after: { id: string; version: string };
+  addedRules: RuleSummary[];
+  removedRules: RuleSummary[];
+  changedRules: RuleDiff[];
+  /** Programs evaluated for flips (present in both packages) */
+  programsCompared: string[];
+  profilesCompared: number;
+  flips: EligibilityFlip[];
+}
+
+// Fields that are bookkeeping rather than behavior
+const IGNORED_FIELDS = new Set(['changelog', 'updatedAt', 'createdAt']);
+
+// ============================================================================
+// LOGIC COMPARISON
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function childPath(path: string, segment: string): string {
+  return path ? `${path}.${segment}` : segment;
+}
+
+/**
+ * Walk two logic trees in parallel, collecting numeric literals that differ
+ *
+ * Returns false when the trees differ in anything other than numbers.
+ */
+function compareLogic(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: ThresholdChange[]
+): boolean {
+  if (typeof before === 'number' && typeof after === 'number') {
+    if (before !== after) {
+      changes.push({ path, before, after });
+    }
+    return true;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    let sameShape = before.length === after.length;
+    const length = Math.min(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      sameShape = compareLogic(before[index], after[index], `${path}[${index}]`, changes) && sameShape;
+    }
+    return sameShape;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const beforeKeys = Object.keys(before);
+    const afterKeys = Object.keys(after);
+    let sameShape = isEqual(beforeKeys, afterKeys);
+    for (const key of beforeKeys) {
+      if (key in after) {
+        sameShape = compareLogic(before[key], after[key], childPath(path, key), changes) && sameShape;
+      }
+    }
+    return sameShape;
+  }
+
+  return isEqual(before, after);
+}
+
+/**
+ * Compare two versions of a rule
+ *
+ * @example
+ * ```typescript
+ * diffRule(oldRule, newRule).thresholdChanges;
+ * // [{ path: '<=[1]', before: 1580, after: 1632 }]
+ * ```
+ */
+export function diffRule(before: RuleDefinition, after: RuleDefinition): RuleDiff {
+  const changedFields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => !isEqual(
+      (before as Record<string, unknown>)[field],
+      (after as Record<string, unknown>)[field]
+    ))
+    .sort();
+
+  const thresholdChanges: ThresholdChange[] = [];
+  const numbersOnly = compareLogic(before.ruleLogic, after.ruleLogic, '', thresholdChanges);
+
+  const beforeFields = before.requiredFields ?? [];
+  const afterFields = after.requiredFields ?? [];
+
+  return {
+    ruleId: after.id,
+    programId: after.programId,
+    name: after.name,
+    changedFields,
+    thresholdChanges,
+    logicChanged: !numbersOnly,
+    requiredFields: {
+      added: afterFields.filter(field => !beforeFields.includes(field)),
+      removed: beforeFields.filter(field => !afterFields.includes(field)),
+    },
+  };
+}
+
+// ============================================================================
+// ELIGIBILITY
+// ============================================================================
+
+function getEligibilityRules(pkg: RulePackage): Map<string, RuleDefinition[]> {
+  const byProgram = new Map<string, RuleDefinition[]>();
+  for (const rule of pkg.rules) {
+    if (!rule.active || rule.draft || rule.ruleType === 'benefit_amount') {continue;}
+    const rules = byProgram.get(rule.programId) ?? [];
+    rules.push(rule);
+    byProgram.set(rule.programId, rules);
+  }
+  return byProgram;
+}
+
+function isProgramEligible(
+  rules: RuleDefinition[],
+  profile: DiffProfile,
+  options: RulePackageDiffOptions
+): boolean {
+  const evaluate = options.evaluate ?? ((logic: JsonLogicRule, data: JsonLogicData) =>
+    jsonLogic.apply(logic as Parameters<typeof jsonLogic.apply>[0], data));
+
+  return rules.every(rule => {
+    const data: JsonLogicData = {
+      fplYear: getGuidelineYearForDate(options.asOf ?? rule.effectiveDate ?? Date.now()),
+      ...profile.data,
+    };
+    try {
+      return Boolean(evaluate(rule.ruleLogic as JsonLogicRule, data));
+    } catch {
+      return false;
+    }
+  });
+}
+
+// ============================================================================
+// PACKAGE DIFF
+// ============================================================================
+
+function summarizeRule(rule: RuleDefinition): RuleSummary {
+  return { ruleId: rule.id, programId: rule.programId, name: rule.name };
+}
+
+/**
+ * Compare two rule packages
+ *
+ * @example
+ * ```typescript
+ * const diff = diffRulePackages(snap2024, snap2025, { profiles });
+ * diff.changedRules[0].thresholdChanges; // old vs new limits
+ * diff.flips; // profiles whose SNAP eligibility changed
+ * ```
+ */
+export function diffRulePackages(
+  before: RulePackage,
+  after: RulePackage,
+  options: RulePackageDiffOptions = {}
+): RulePackageDiff {
+  const beforeRules = new Map(before.rules.map(rule => [rule.id, rule]));
+  const afterRules = new Map(after.rules.map(rule => [rule.id, rule]));
+
+  const addedRules = after.rules.filter(rule => !beforeRules.has(rule.id)).map(summarizeRule);
+  const removedRules = before.rules.filter(rule => !afterRules.has(rule.id)).map(summarizeRule);
+
+  const changedRules: RuleDiff[] = [];
+  for (const rule of after.rules) {
+    const previous = beforeRules.get(rule.id);
+    if (!previous) {continue;}
+    const ruleDiff = diffRule(previous, rule);
+    if (ruleDiff.changedFields.length > 0) {
+      changedRules.push(ruleDiff);
+    }
+  }
+
+  const beforePrograms = getEligibilityRules(before);
+  const afterPrograms = getEligibilityRules(after);
+  const programsCompared = Array.from(afterPrograms.keys())
+    .filter(programId => beforePrograms.has(programId))
+    .sort();
+
+  const profiles = options.profiles ?? [];
+  const flips: EligibilityFlip[] = [];
+  for (const profile of profiles) {
+    for (const programId of programsCompared) {
+      const wasEligible = isProgramEligible(beforePrograms.get(programId) ?? [], profile, options);
+      const isEligible = isProgramEligible(afterPrograms.get(programId) ?? [], profile, options);
+      if (wasEligible !== isEligible) {
+        flips.push({
+          profileId: profile.id,
+          description: profile.description,
+          programId,
+          before: wasEligible,
+          after: isEligible,
+        });
+      }
+    }
+  }
+
+  return {
+    before: { id: before.metadata.id, version: formatVersion(before.metadata.version) },
+    after: { id: after.metadata.id, version: formatVersion(after.metadata.version) },
+    addedRules,
+    removedRules,
+    changedRules,
+    programsCompared,
+    profilesCompared: profiles.length,
+    flips,
+  };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+function formatEligibility(eligible: boolean): string {
+  return eligible ? 'eligible' : 'ineligible';
+}
+
+/**
+ * Format a package diff as a Markdown report
+ */
+export function formatRulePackageDiff(diff: RulePackageDiff): string {
+  const lines: string[] = [
+    `# ${diff.before.id} ${diff.before.version} → ${diff.after.id} ${diff.after.version}`,
+    '',
+  ];
+
+  if (diff.addedRules.length > 0) {
+    lines.push('## Added rules', '');
+    diff.addedRules.forEach(rule => lines.push(`- \`${rule.ruleId}\` ${rule.name}`));
+    lines.push('');
+  }
+
+  if (diff.removedRules.length > 0) {
+    lines.push('## Removed rules', '');
+    diff.removedRules.forEach(rule => lines.push(`- \`${rule.ruleId}\` ${rule.name}`));
+    lines.push('');
+  }
+
+  if (diff.changedRules.length > 0) {
+    lines.push('## Changed rules', '');
+    for (const rule of diff.changedRules) {
+      lines.push(`### \`${rule.ruleId}\` ${rule.name}`, '');
+      lines.push(`- Fields: ${rule.changedFields.join(', ')}`);
+      rule.thresholdChanges.forEach(change => {
+        lines.push(`- Threshold \`${change.path}\`: ${change.before} → ${change.after}`);
+      });
+      if (rule.logicChanged) {
+        lines.push('- Logic changed beyond threshold values');
+      }
+      if (rule.requiredFields.added.length > 0) {
+        lines.push(`- Required fields added: ${rule.requiredFields.added.join(', ')}`);
+      }
+      if (rule.requiredFields.removed.length > 0) {
+        lines.push(`- Required fields removed: ${rule.requiredFields.removed.join(', ')}`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (diff.addedRules.length + diff.removedRules.length + diff.changedRules.length === 0) {
+    lines.push('No rule changes.', '');
+  }
+
+  lines.push('## Eligibility flips', '');
+  if (diff.profilesCompared === 0) {
+    lines.push('No profiles compared.');
+  } else if (diff.flips.length === 0) {
+    lines.push(`None across ${diff.profilesCompared} profiles.`);
+  } else {
+    diff.flips.forEach(flip => {
+      const label = flip.description ? `${flip.profileId} (${flip.description})` : flip.profileId;
+      lines.push(`- ${label}, ${flip.programId}: ${formatEligibility(flip.before)} → ${formatEligibility(flip.after)}`);
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,224 @@
+/**
+ * Rule Package Resolution
+ *
+ * Resolves the effective rule set for a package that builds on other
+ * packages. A package lists the packages it builds on in `metadata.extends`;
+ * its rules are added to the inherited ones, and a rule with `overrides`
+ * replaces the inherited rule with that ID.
+ *
+ * Precedence: the extending (more specific) package always wins. State
+ * packages extend federal packages, so a state rule that overrides a
+ * federal rule is used in its place.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Minimal rule shape needed for resolution
+ */
+export interface ResolvableRule {
+  id: string;
+  overrides?: string;
+}
+
+/**
+ * Minimal package shape needed for resolution
+ */
+export interface ResolvablePackage<R extends ResolvableRule = ResolvableRule> {
+  metadata: {
+    id: string;
+    extends?: string[];
+  };
+  rules: R[];
+}
+
+/**
+ * Where a rule came from and whether it made it into the effective set
+ */
+export interface RuleResolutionEntry {
+  ruleId: string;
+  packageId: string;
+  /** Rule that replaced this one; absent when this rule is in effect */
+  overriddenBy?: {
+    ruleId: string;
+    packageId: string;
+  };
+}
+
+export type PackageResolutionIssueType =
+  | 'orphaned-override'
+  | 'conflicting-duplicate'
+  | 'missing-base'
+  | 'circular-extends';
+
+export interface PackageResolutionIssue {
+  type: PackageResolutionIssueType;
+  packageId: string;
+  ruleId?: string;
+  message: string;
+}
+
+export interface ResolvedRuleSet<R extends ResolvableRule = ResolvableRule> {
+  packageId: string;
+  /** Effective rules, inherited rules first */
+  rules: R[];
+  /** One entry per rule considered, including overridden rules */
+  resolution: RuleResolutionEntry[];
+  issues: PackageResolutionIssue[];
+}
+
+interface SourcedRule<R extends ResolvableRule> {
+  rule: R;
+  packageId: string;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Resolve the effective rule set for a package
+ *
+ * @param packageId Package to resolve
+ * @param packages All packages available as bases (and the package itself)
+ *
+ * @example
+ * ```typescript
+ * const resolved = resolvePackageRules('snap-texas-rules-2024', [snapFederal, snapTexas]);
+ * resolved.resolution.find(r => r.ruleId === 'snap-federal-gross-income')?.overriddenBy;
+ * // { ruleId: 'snap-tx-gross-income-limit', packageId: 'snap-texas-rules-2024' }
+ * ```
+ */
+export function resolvePackageRules<R extends ResolvableRule>(
+  packageId: string,
+  packages: Iterable<ResolvablePackage<R>>
+): ResolvedRuleSet<R> {
+  const packagesById = new Map<string, ResolvablePackage<R>>();
+  for (const pkg of packages) {
+    packagesById.set(pkg.metadata.id, pkg);
+  }
+
+  const resolution = new Map<string, RuleResolutionEntry>();
+  const issues: PackageResolutionIssue[] = [];
+  const entryKey = (ruleId: string, sourceId: string): string => `${sourceId}::${ruleId}`;
+
+  const record = (ruleId: string, sourceId: string): void => {
+    const key = entryKey(ruleId, sourceId);
+    if (!resolution.has(key)) {
+      resolution.set(key, { ruleId, packageId: sourceId });
+    }
+  };
+
+  const markOverridden = (loser: SourcedRule<R>, winner: SourcedRule<R>): void => {
+    const entry = resolution.get(entryKey(loser.rule.id, loser.packageId));
+    if (entry) {
+      entry.overriddenBy = { ruleId: winner.rule.id, packageId: winner.packageId };
+    }
+  };
+
+  const resolve = (currentId: string, stack: string[]): SourcedRule<R>[] => {
+    if (stack.includes(currentId)) {
+      issues.push({
+        type: 'circular-extends',
+        packageId: currentId,
+        message: `Circular extends: ${[...stack, currentId].join(' -> ')}`,
+      });
+      return [];
+    }
+
+    const pkg = packagesById.get(currentId);
+    if (!pkg) {
+      issues.push({
+        type: 'missing-base',
+        packageId: stack[stack.length - 1] ?? currentId,
+        message: `Package ${currentId} is not available`,
+      });
+      return [];
+    }
+
+    // Inherit from each base in order, keeping one copy of shared ancestors
+    const inherited: SourcedRule<R>[] = [];
+    for (const baseId of pkg.metadata.extends ?? []) {
+      for (const sourced of resolve(baseId, [...stack, currentId])) {
+        const duplicate = inherited.find(existing => existing.rule.id === sourced.rule.id);
+        if (!duplicate) {
+          inherited.push(sourced);
+        } else if (duplicate.packageId !== sourced.packageId) {
+          issues.push({
+            type: 'conflicting-duplicate',
+            packageId: currentId,
+            ruleId: sourced.rule.id,
+            message: `Rule ${sourced.rule.id} is inherited from both ${duplicate.packageId} and ${sourced.packageId}`,
+          });
+        }
+      }
+    }
+
+    const effective = [...inherited];
+    const overriddenBy = new Map<string, string>();
+
+    for (const rule of pkg.rules) {
+      const own: SourcedRule<R> = { rule, packageId: currentId };
+      record(rule.id, currentId);
+
+      const sameId = effective.findIndex(existing => existing.rule.id === rule.id);
+      if (sameId >= 0) {
+        const existing = effective[sameId];
+        issues.push({
+          type: 'conflicting-duplicate',
+          packageId: currentId,
+          ruleId: rule.id,
+          message: existing.packageId === currentId
+            ? `Rule ${rule.id} is defined more than once`
+            : `Rule ${rule.id} redefines a rule from ${existing.packageId} without declaring overrides`,
+        });
+        markOverridden(existing, own);
+        effective.splice(sameId, 1);
+      }
+
+      if (rule.overrides) {
+        const previous = overriddenBy.get(rule.overrides);
+        if (previous) {
+          issues.push({
+            type: 'conflicting-duplicate',
+            packageId: currentId,
+            ruleId: rule.id,
+            message: `Rules ${previous} and ${rule.id} both override ${rule.overrides}`,
+          });
+        }
+        overriddenBy.set(rule.overrides, rule.id);
+
+        const target = inherited.find(existing => existing.rule.id === rule.overrides);
+        if (!target) {
+          issues.push({
+            type: 'orphaned-override',
+            packageId: currentId,
+            ruleId: rule.id,
+            message: `Rule ${rule.id} overrides ${rule.overrides}, which is not in any extended package`,
+          });
+        } else {
+          markOverridden(target, own);
+          const targetIndex = effective.indexOf(target);
+          if (targetIndex >= 0) {
+            effective.splice(targetIndex, 1);
+          }
+        }
+      }
+
+      effective.push(own);
+    }
+
+    return effective;
+  };
+
+  const effective = resolve(packageId, []);
+
+  return {
+    packageId,
+    rules: effective.map(sourced => sourced.rule),
+    resolution: Array.from(resolution.values()),
+    issues,
+  };
+}
@@ -92,6 +92,41 @@ export const NextStepSchema = z.object({
 
 export type NextStep = z.infer<typeof NextStepSchema>;
 
+/**
+ * Language code for translated rule content (e.g. "es", "es-MX")
+ */
+export const RuleContentLanguageSchema = z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/);
+
+/**
+ * Translated rule content for one language
+ *
+ * `requiredDocuments` and `nextSteps` line up by position with the rule's
+ * own lists; missing entries and fields fall back to the English text.
+ */
+export const RuleContentTranslationSchema = z.object({
+  explanation: z.string().max(2000).optional().describe('Translated explanation'),
+  requiredDocuments: z.array(z.object({
+    name: z.string().max(200).optional(),
+    description: z.string().max(500).optional(),
+    where: z.string().max(500).optional(),
+    alternatives: z.array(z.string().max(200)).optional(),
+  }))
+    .optional()
+    .describe('Translated documents, in the same order as requiredDocuments'),
+  nextSteps: z.array(z.string().max(500))
+    .optional()
+    .describe('Translated steps, in the same order as nextSteps'),
+});
+
+export type RuleContentTranslation = z.infer<typeof RuleContentTranslationSchema>;
+
+/**
+ * Translated rule content keyed by language code
+ */
+export const RuleContentTranslationsSchema = z.record(RuleContentLanguageSchema, RuleContentTranslationSchema);
+
+export type RuleContentTranslations = z.infer<typeof RuleContentTranslationsSchema>;
+
 /**
  * Rule test case (embedded in rule definition)
  */
@@ -139,11 +174,17 @@ export const RuleDefinitionSchema = z.object({
     .optional()
     .describe('Next steps after eligibility'),
 
+  // Translations of explanation, documents and next steps
+  translations: RuleContentTranslationsSchema
+    .optional()
+    .describe('Rule content in other languages'),
+
   // Versioning
   version: RuleVersionSchema.describe('Rule version'),
   effectiveDate: z.number().positive().optional().describe('When rule becomes effective'),
   expirationDate: z.number().positive().optional().describe('When rule expires'),
   supersedes: z.string().max(128).optional().describe('Previous rule ID this replaces'),
+  overrides: z.string().max(128).optional().describe('Rule ID from an extended package this replaces'),
 
   // Source & Attribution
   author: RuleAuthorSchema.optional().describe('Rule author'),
@@ -200,6 +241,7 @@ export const RulePackageMetadataSchema = z.object({
   repository: z.string().url().optional().describe('Source repository'),
   jurisdiction: z.string().max(100).optional().describe('Geographic jurisdiction'),
   programs: z.array(z.string().max(128)).optional().describe('Included program IDs'),
+  extends: z.array(z.string().max(128)).optional().describe('Package IDs this package builds on'),
   tags: z.array(z.string().max(50)).optional().describe('Package tags'),
   createdAt: z.number().positive().describe('Creation timestamp'),
   updatedAt: z.number().positive().describe('Last update timestamp'),
@@ -214,7 +256,8 @@ export const RulePackageSchema = z.object({
   metadata: RulePackageMetadataSchema.describe('Package metadata'),
   rules: z.array(RuleDefinitionSchema).describe('Rules in package'),
   checksum: z.string().max(128).optional().describe('Package integrity checksum'),
-  signature: z.string().max(500).optional().describe('Digital signature'),
+  signature: z.string().max(500).optional().describe('Digital signature (base64 ECDSA P-256)'),
+  signatureKeyId: z.string().max(128).optional().describe('ID of the key that signed the package'),
 });
 
 export type RulePackage = z.infer<typeof RulePackageSchema>;
@@ -232,6 +275,7 @@ export const RuleImportOptionsSchema = z.object({
   skipTests: z.boolean().optional().describe('Skip test execution'),
   overwriteExisting: z.boolean().optional().describe('Overwrite existing rules'),
   dryRun: z.boolean().optional().describe('Simulate import without saving'),
+  requireSignature: z.boolean().optional().describe('Refuse packages not signed by a trusted key (default: true)'),
 });
 
 export type RuleImportOptions = z.infer<typeof RuleImportOptionsSchema>;
@@ -254,6 +298,11 @@ export const RuleImportResultSchema = z.object({
     message: z.string(),
   })).describe('Import warnings'),
   dryRun: z.boolean().optional().describe('Was this a dry run'),
+  signature: z.object({
+    status: z.enum(['verified', 'unsigned', 'untrusted', 'invalid']),
+    keyId: z.string().optional(),
+    signer: z.string().optional(),
+  }).optional().describe('Package signature check (packages only)'),
 });
 
 export type RuleImportResult = z.infer<typeof RuleImportResultSchema>;
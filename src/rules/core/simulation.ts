@@ -0,0 +1,560 @@
+/**
+ * Population Impact Simulation
+ *
+ * Generates a synthetic population of household profiles from a seeded
+ * random number generator, evaluates every program's rules for each
+ * household the way the app does (`buildProfileDataContext`, then
+ * `evaluateAllRules` with categorical eligibility between programs), and
+ * reports eligibility rates per program and per state. Households whose
+ * answers leave a program undetermined are counted apart from ineligible
+ * ones. Comparing two simulations over the same population shows how many
+ * households a rule change affects.
+ *
+ * The same seed and options always produce the same population, so a
+ * baseline and a candidate rule set can be compared run to run.
+ */
+
+import type { EligibilityRuleDocument, HouseholdAssets, UserProfile } from '../../db/schemas';
+import type { RulePackage, RuleDefinition } from './schema';
+import type { JsonLogicData } from './types';
+import { resolvePackageRules } from './packageResolution';
+import { buildProfileDataContext } from './eligibility/evaluation/dataContext';
+import { evaluateAllRules } from './eligibility/evaluation/multiRuleEvaluation';
+import { selectRulesInEffect } from './eligibility/evaluation/ruleSelection';
+import {
+  buildCategoricalContext,
+  orderProgramsByDependencies,
+} from './eligibility/evaluation/programDependencies';
+import { STATE_NAME_TO_CODE } from './eligibility/evaluation/constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for generating a synthetic population
+ */
+export interface PopulationOptions {
+  /** Number of households */
+  size: number;
+  /** RNG seed (default 1) */
+  seed?: number;
+  /** State codes to draw from, uniformly (default: all states and DC) */
+  states?: string[];
+  /** County names per state code; households in other states get no county */
+  counties?: Record<string, string[]>;
+  /** Log-normal household income distribution */
+  income?: {
+    /** Median annual income of a household of 2–3 (default 55000) */
+    medianAnnual?: number;
+    /** Standard deviation of log income (default 0.8) */
+    spread?: number;
+    /** Share of households with no income (default 0.04) */
+    zeroIncomeRate?: number;
+  };
+  /** Share of adults under 65 with a disability (default 0.1; doubled at 65+) */
+  disabilityRate?: number;
+  /** Date ages are computed against (default now) */
+  referenceDate?: Date | number;
+}
+
+/**
+ * One generated household
+ */
+export interface SyntheticHousehold {
+  id: string;
+  /** Profile data as the questionnaire would store it (income is annual) */
+  profile: Partial<UserProfile>;
+  /**
+   * Answers to eligibility questions that are not profile fields
+   * (immigration status, marriage, blindness, work, housing and background checks),
+   * added to the rule data after the profile context is built
+   */
+  answers?: JsonLogicData;
+}
+
+/**
+ * Rules for one program, limited to a state for state programs
+ */
+export interface SimulationProgram {
+  programId: string;
+  /** Two-letter state code; national programs have none */
+  state?: string;
+  rules: RuleDefinition[];
+}
+
+/**
+ * Options for simulateEligibility
+ */
+export interface SimulationOptions {
+  /** Evaluation date (ms timestamp) for rule selection and poverty guidelines */
+  asOf?: number;
+}
+
+/**
+ * A household's result for one program; `undetermined` means no rule
+ * failed but unanswered questions decide at least one
+ */
+export type SimulationOutcome = 'eligible' | 'ineligible' | 'undetermined';
+
+/**
+ * Eligibility count for a program among the households evaluated for it
+ */
+export interface ProgramRate {
+  evaluated: number;
+  eligible: number;
+  /** Households missing answers the program's rules need */
+  undetermined: number;
+  /** Percentage of evaluated households that are eligible */
+  rate: number;
+}
+
+/**
+ * Result of simulating a population against a rule set
+ */
+export interface SimulationReport {
+  populationSize: number;
+  programs: Record<string, ProgramRate>;
+  /** Rates per state code, then program */
+  byState: Record<string, Record<string, ProgramRate>>;
+  /** Outcome per household ID, then program */
+  outcomes: Record<string, Record<string, SimulationOutcome>>;
+}
+
+/**
+ * Change in one program's eligibility between two simulations
+ */
+export interface ProgramRateDelta {
+  before?: ProgramRate;
+  after?: ProgramRate;
+  /** Percentage point change in the eligibility rate */
+  rateChange: number;
+  /** Households that became eligible */
+  gained: number;
+  /** Households that became ineligible */
+  lost: number;
+}
+
+/**
+ * Difference between two simulations over the same population
+ */
+export interface SimulationDelta {
+  programs: Record<string, ProgramRateDelta>;
+  byState: Record<string, Record<string, ProgramRateDelta>>;
+  /** Households whose eligibility changed for at least one program */
+  householdsAffected: number;
+}
+
+const ALL_STATE_CODES = Object.values(STATE_NAME_TO_CODE);
+
+const HOUSEHOLD_SIZE_WEIGHTS: ReadonlyArray<[number, number]> = [
+  [1, 0.28], [2, 0.34], [3, 0.15], [4, 0.13], [5, 0.06], [6, 0.04],
+];
+
+const AGE_BRACKET_WEIGHTS: ReadonlyArray<[number, number, number]> = [
+  [18, 29, 0.2], [30, 44, 0.28], [45, 59, 0.25], [60, 74, 0.18], [75, 90, 0.09],
+];
+
+// ============================================================================
+// RANDOM NUMBERS
+// ============================================================================
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom(42);
+ * random(); // same sequence of numbers in [0, 1) for every run
+ * ```
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function pickWeighted<T extends readonly unknown[]>(random: () => number, items: readonly T[]): T {
+  const total = items.reduce((sum, item) => sum + (item[item.length - 1] as number), 0);
+  let threshold = random() * total;
+  for (const item of items) {
+    threshold -= item[item.length - 1] as number;
+    if (threshold < 0) {return item;}
+  }
+  return items[items.length - 1];
+}
+
+function normal(random: () => number): number {
+  // Box-Muller; 1 - random() avoids log(0)
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// ============================================================================
+// POPULATION
+// ============================================================================
+
+function toDateOfBirth(age: number, referenceDate: Date): string {
+  const year = referenceDate.getUTCFullYear() - age - 1;
+  return `${year}-07-01`;
+}
+
+function drawAssets(random: () => number): HouseholdAssets {
+  return {
+    cash: Math.round(random() * 300),
+    bankAccounts: random() < 0.7 ? Math.round(1500 * Math.exp(1.5 * normal(random))) : 0,
+    primaryVehicle: random() < 0.85 ? Math.round(3000 + random() * 17000) : 0,
+  };
+}
+
+/**
+ * Draw the answers rules ask for beyond the profile, consistent with it
+ */
+function drawAnswers(random: () => number, profile: Partial<UserProfile>, age: number, belowMedian: boolean): JsonLogicData {
+  const isCitizen = profile.citizenship === 'us_citizen';
+  const isQualifiedImmigrant = profile.citizenship === 'permanent_resident';
+  const isEmployed = profile.employmentStatus === 'employed';
+  const isExemptFromWork = age >= 60 || profile.hasDisability === true || profile.isPregnant === true || profile.hasChildren === true;
+  const hasCriminalHistory = random() < 0.08;
+
+  const answers: JsonLogicData = {
+    isCitizen,
+    isUSCitizen: isCitizen,
+    isQualifiedImmigrant,
+    isEligibleImmigrant: isQualifiedImmigrant,
+    livesInUS: true,
+    hasSocialSecurityNumber: profile.citizenship !== 'other' || random() < 0.5,
+    hasAppliedForSSN: false,
+    isMarried: (profile.householdSize ?? 1) > 1 && random() < 0.55,
+    isBlind: random() < (age >= 65 ? 0.03 : 0.005),
+    isElderly: age >= 65,
+    isDisabled: profile.hasDisability === true,
+    disabilityPreventsWork: profile.hasDisability === true && !isEmployed,
+    isEmployed,
+    meetsWorkRequirement: isEmployed,
+    isABAWD: age >= 18 && age <= 54 && !isExemptFromWork,
+    isExemptFromWork,
+    isWorkExempt: isExemptFromWork,
+    monthsOnTANF: 0,
+    isHomeless: random() < 0.005,
+    isOvercrowded: random() < 0.03,
+    isUnsafeHousing: random() < 0.02,
+    isUnaffordableHousing: random() < (belowMedian ? 0.5 : 0.1),
+    // Applicants look for a unit that fits the household
+    maxUnitSize: profile.householdSize ?? 1,
+    hasRentalHistory: random() < 0.9,
+    hasEvictionHistory: random() < 0.03,
+    hasRentalDebt: random() < 0.05,
+    hasCriminalHistory,
+    hasDisqualifyingCrimes: hasCriminalHistory && random() < 0.2,
+  };
+  if (profile.hasChildren) {
+    answers.childAge = Math.floor(random() * 18);
+  }
+
+  return answers;
+}
+
+/**
+ * Generate a synthetic population of household profiles
+ *
+ * Household size, the applicant's age, disability, state and county are
+ * drawn independently; income is log-normal and scaled by household size.
+ * Assets and the answers the federal rules need beyond the profile are
+ * drawn to match, so a program is undetermined only when its rules ask for
+ * something else (mostly state-specific questions).
+ *
+ * @example
+ * ```typescript
+ * const population = generatePopulation({ size: 1000, seed: 7, states: ['GA', 'TX'] });
+ * ```
+ */
+export function generatePopulation(options: PopulationOptions): SyntheticHousehold[] {
+  const random = createSeededRandom(options.seed ?? 1);
+  const states = options.states && options.states.length > 0 ? options.states : ALL_STATE_CODES;
+  const medianAnnual = options.income?.medianAnnual ?? 55000;
+  const spread = options.income?.spread ?? 0.8;
+  const zeroIncomeRate = options.income?.zeroIncomeRate ?? 0.04;
+  const disabilityRate = options.disabilityRate ?? 0.1;
+  const referenceDate = new Date(options.referenceDate ?? Date.now());
+
+  const households: SyntheticHousehold[] = [];
+  for (let index = 0; index < options.size; index++) {
+    const [householdSize] = pickWeighted(random, HOUSEHOLD_SIZE_WEIGHTS);
+    const [minAge, maxAge] = pickWeighted(random, AGE_BRACKET_WEIGHTS);
+    const age = minAge + Math.floor(random() * (maxAge - minAge + 1));
+    const hasDisability = random() < (age >= 65 ? disabilityRate * 2 : disabilityRate);
+    const state = pick(random, states);
+    const counties = options.counties?.[state];
+    const county = counties && counties.length > 0 ? pick(random, counties) : undefined;
+
+    const incomeDraw = normal(random);
+    const householdIncome = random() < zeroIncomeRate
+      ? 0
+      : Math.round(medianAnnual * Math.sqrt(householdSize / 2.5) * Math.exp(spread * incomeDraw));
+
+    const hasChildren = householdSize > 1 && age < 60 && random() < 0.6;
+    const isPregnant = age < 45 && random() < 0.03;
+
+    let employmentStatus: UserProfile['employmentStatus'] = householdIncome > 0 ? 'employed' : 'unemployed';
+    if (age >= 67) {
+      employmentStatus = 'retired';
+    } else if (hasDisability && random() < 0.5) {
+      employmentStatus = 'disabled';
+    }
+
+    const profile: Partial<UserProfile> = {
+      householdSize,
+      householdIncome,
+      incomePeriod: 'annual',
+      dateOfBirth: toDateOfBirth(age, referenceDate),
+      state,
+      citizenship: pickWeighted(random, [['us_citizen', 0.9], ['permanent_resident', 0.06], ['other', 0.04]] as const)[0],
+      employmentStatus,
+      hasDisability,
+      isPregnant,
+      hasChildren,
+      assets: drawAssets(random),
+    };
+    if (county) {
+      profile.county = county;
+    }
+
+    const answers = drawAnswers(random, profile, age, householdIncome < medianAnnual);
+    households.push({ id: `household-${index + 1}`, profile, answers });
+  }
+
+  return households;
+}
+
+// ============================================================================
+// PROGRAMS
+// ============================================================================
+
+function getJurisdictionState(jurisdiction: string | undefined): string | undefined {
+  const match = /^US-([A-Z]{2})$/.exec(jurisdiction ?? '');
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Build the programs to simulate from rule packages
+ *
+ * Each package's rules are resolved against the packages it extends, so a
+ * state program includes the federal rules it does not override. Packages
+ * with a state jurisdiction (`US-GA`) are only evaluated for households in
+ * that state.
+ */
+export function buildSimulationPrograms(packages: RulePackage[]): SimulationProgram[] {
+  const programs: SimulationProgram[] = [];
+
+  for (const pkg of packages) {
+    const ownRuleIds = new Set(pkg.rules.map(rule => rule.id));
+    const resolved = resolvePackageRules(pkg.metadata.id, packages).rules;
+    const inherited = resolved.filter(rule => !ownRuleIds.has(rule.id));
+    const state = getJurisdictionState(pkg.metadata.jurisdiction);
+
+    for (const programId of new Set(pkg.rules.map(rule => rule.programId))) {
+      programs.push({
+        programId,
+        state,
+        rules: [...inherited, ...resolved.filter(rule => ownRuleIds.has(rule.id) && rule.programId === programId)],
+      });
+    }
+  }
+
+  return programs;
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+function addOutcome(rates: Record<string, ProgramRate>, programId: string, outcome: SimulationOutcome): void {
+  const rate = rates[programId] ?? { evaluated: 0, eligible: 0, undetermined: 0, rate: 0 };
+  rate.evaluated++;
+  if (outcome === 'eligible') {rate.eligible++;}
+  if (outcome === 'undetermined') {rate.undetermined++;}
+  rate.rate = Math.round((rate.eligible / rate.evaluated) * 1000) / 10;
+  rates[programId] = rate;
+}
+
+/**
+ * Evaluate every applicable program for every household
+ *
+ * Requires the benefit operators to be registered.
+ */
+export async function simulateEligibility(
+  population: SyntheticHousehold[],
+  programs: SimulationProgram[],
+  options: SimulationOptions = {}
+): Promise<SimulationReport> {
+  const asOf = options.asOf ?? Date.now();
+  const programsById = new Map<string, SimulationProgram>();
+  for (const program of programs) {
+    programsById.set(program.programId, {
+      ...program,
+      rules: selectRulesInEffect(program.rules.filter(rule => !rule.draft), asOf),
+    });
+  }
+  const orderedProgramIds = orderProgramsByDependencies(Array.from(programsById.keys()));
+
+  const report: SimulationReport = {
+    populationSize: population.length,
+    programs: {},
+    byState: {},
+    outcomes: {},
+  };
+
+  for (const household of population) {
+    const state = household.profile.state ?? '';
+    const data = { ...await buildProfileDataContext(household.profile), ...household.answers };
+    const results = new Map<string, { eligible: boolean }>();
+    const outcomes: Record<string, SimulationOutcome> = {};
+
+    for (const programId of orderedProgramIds) {
+      const program = programsById.get(programId);
+      if (!program || (program.state && program.state !== state)) {continue;}
+
+      const categoricalContext = buildCategoricalContext(programId, results);
+      const { overallEligible, undetermined } = evaluateAllRules(
+        program.rules as unknown as EligibilityRuleDocument[],
+        { ...data, ...categoricalContext.variables },
+        household.id,
+        programId,
+        asOf
+      );
+      results.set(programId, { eligible: overallEligible });
+
+      let outcome: SimulationOutcome = overallEligible ? 'eligible' : 'ineligible';
+      if (undetermined) {outcome = 'undetermined';}
+      outcomes[programId] = outcome;
+      addOutcome(report.programs, programId, outcome);
+      report.byState[state] = report.byState[state] ?? {};
+      addOutcome(report.byState[state], programId, outcome);
+    }
+
+    report.outcomes[household.id] = outcomes;
+  }
+
+  return report;
+}
+
+function compareRates(
+  before: Record<string, ProgramRate>,
+  after: Record<string, ProgramRate>
+): Record<string, ProgramRateDelta> {
+  const deltas: Record<string, ProgramRateDelta> = {};
+  for (const programId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const rateChange = (after[programId]?.rate ?? 0) - (before[programId]?.rate ?? 0);
+    deltas[programId] = {
+      before: before[programId],
+      after: after[programId],
+      rateChange: Math.round(rateChange * 10) / 10,
+      gained: 0,
+      lost: 0,
+    };
+  }
+  return deltas;
+}
+
+/**
+ * Compare two simulations of the same population
+ *
+ * @example
+ * ```typescript
+ * const population = generatePopulation({ size: 5000, seed: 1 });
+ * const delta = compareSimulations(
+ *   await simulateEligibility(population, baseline),
+ *   await simulateEligibility(population, candidate)
+ * );
+ * delta.programs['snap-federal']; // { rateChange: -1.2, gained: 0, lost: 60, ... }
+ * ```
+ */
+export function compareSimulations(before: SimulationReport, after: SimulationReport): SimulationDelta {
+  const delta: SimulationDelta = {
+    programs: compareRates(before.programs, after.programs),
+    byState: {},
+    householdsAffected: 0,
+  };
+
+  for (const state of new Set([...Object.keys(before.byState), ...Object.keys(after.byState)])) {
+    delta.byState[state] = compareRates(before.byState[state] ?? {}, after.byState[state] ?? {});
+  }
+
+  for (const [householdId, outcomes] of Object.entries(after.outcomes)) {
+    const previous = before.outcomes[householdId] ?? {};
+    let affected = false;
+    for (const [programId, outcome] of Object.entries(outcomes)) {
+      const eligible = outcome === 'eligible';
+      const wasEligible = previous[programId] === 'eligible';
+      if (eligible === wasEligible) {continue;}
+      affected = true;
+      const programDelta = delta.programs[programId];
+      if (eligible) {
+        programDelta.gained++;
+      } else {
+        programDelta.lost++;
+      }
+    }
+    if (affected) {delta.householdsAffected++;}
+  }
+
+  return delta;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+function formatRate(rate: ProgramRate | undefined): string {
+  if (!rate) {return '—';}
+  const undetermined = rate.undetermined > 0 ? `, ${rate.undetermined} undetermined` : '';
+  return `${rate.rate}% (${rate.eligible}/${rate.evaluated}${undetermined})`;
+}
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change}` : String(change);
+}
+
+/**
+ * Format a simulation (and optionally its delta against a baseline) as Markdown
+ */
+export function formatSimulationReport(report: SimulationReport, delta?: SimulationDelta): string {
+  const lines: string[] = [`# Eligibility simulation (${report.populationSize} households)`, ''];
+
+  lines.push('## Programs', '');
+  if (delta) {
+    lines.push('| Program | Baseline | Candidate | Change (pts) | Gained | Lost |', '| --- | --- | --- | --- | --- | --- |');
+    for (const [programId, programDelta] of Object.entries(delta.programs).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`| ${programId} | ${formatRate(programDelta.before)} | ${formatRate(programDelta.after)} | ${formatChange(programDelta.rateChange)} | ${programDelta.gained} | ${programDelta.lost} |`);
+    }
+    lines.push('', `Households affected: ${delta.householdsAffected}`);
+  } else {
+    lines.push('| Program | Eligible | Undetermined |', '| --- | --- | --- |');
+    for (const [programId, rate] of Object.entries(report.programs).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`| ${programId} | ${rate.rate}% (${rate.eligible}/${rate.evaluated}) | ${rate.undetermined} |`);
+    }
+  }
+
+  lines.push('', '## By state', '');
+  for (const state of Object.keys(report.byState).sort()) {
+    const entries = delta
+      ? Object.entries(delta.byState[state] ?? {})
+        .filter(([, stateDelta]) => stateDelta.rateChange !== 0)
+        .map(([programId, stateDelta]) => `${programId} ${formatRate(stateDelta.before)} → ${formatRate(stateDelta.after)}`)
+      : Object.entries(report.byState[state]).map(([programId, rate]) => `${programId} ${formatRate(rate)}`);
+    if (entries.length > 0) {
+      lines.push(`- ${state}: ${entries.join('; ')}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
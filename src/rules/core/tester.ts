@@ -360,6 +360,9 @@ export function formatTestSuiteResult(
 /**
  * Generate test coverage report
  *
+ * Counts operators and variables only; `analyzeRuleCoverage` in
+ * `./coverage` traces which branches each test reaches.
+ *
  * @param rule Rule to analyze
  * @param testCases Test cases
  * @returns Coverage information
@@ -0,0 +1,196 @@
+/**
+ * Three-Valued Rule Evaluation
+ *
+ * Evaluates JSON Logic as true, false or unknown when some answers are
+ * missing. Logical operators follow Kleene logic, so a rule like
+ * `or(receivesSNAP, householdIncome <= limit)` still passes when the user
+ * skipped the SNAP question but their income is under the limit, and
+ * `and(...)` still fails when any known part fails. Any other operation
+ * that reads an unanswered field is unknown.
+ *
+ * An unknown result lists the unanswered fields that decide it; answering
+ * them settles the outcome.
+ */
+
+import jsonLogic from 'json-logic-js';
+import type { JsonLogicData } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * True, false, or unknown because unanswered questions decide it
+ */
+export type TruthValue = boolean | 'unknown';
+
+/**
+ * Result of three-valued evaluation
+ */
+export interface ThreeValuedResult {
+  value: TruthValue;
+  /** Unanswered fields the result depends on; empty unless the value is unknown */
+  unknownFields: string[];
+}
+
+/**
+ * Options for evaluateThreeValued
+ */
+export interface ThreeValuedOptions {
+  /** Fields to treat as unanswered (default: every field the logic reads that has no value) */
+  unknownFields?: Iterable<string>;
+}
+
+// Operators whose later operands read each array item rather than the data
+const ARRAY_OPERATORS = new Set(['map', 'filter', 'reduce', 'all', 'none', 'some']);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isOperation(logic: unknown): logic is Record<string, unknown> {
+  return typeof logic === 'object' && logic !== null && !Array.isArray(logic) && Object.keys(logic).length === 1;
+}
+
+function operandsOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** JSON Logic truthiness (empty arrays are false) */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function known(value: boolean): ThreeValuedResult {
+  return { value, unknownFields: [] };
+}
+
+function unknown(results: ThreeValuedResult[]): ThreeValuedResult {
+  const fields = new Set(results.flatMap(result => result.unknownFields));
+  return { value: 'unknown', unknownFields: Array.from(fields) };
+}
+
+/**
+ * Fields a rule reads from the data, in order of appearance
+ *
+ * A `var` with a default never counts as unanswered, so it is left out.
+ *
+ * @example
+ * ```typescript
+ * getRuleVariables({ '<=': [{ var: 'householdIncome' }, { var: ['limit', 0] }] }); // ['householdIncome']
+ * ```
+ */
+export function getRuleVariables(logic: unknown, found: Set<string> = new Set()): string[] {
+  if (Array.isArray(logic)) {
+    logic.forEach(item => getRuleVariables(item, found));
+  } else if (isOperation(logic)) {
+    const [[operator, value]] = Object.entries(logic);
+    if (operator === 'var') {
+      const [name, fallback] = operandsOf(value);
+      if (typeof name === 'string' && name && fallback === undefined) {found.add(name);}
+    } else if (ARRAY_OPERATORS.has(operator)) {
+      getRuleVariables(operandsOf(value)[0], found);
+    } else {
+      getRuleVariables(value, found);
+    }
+  }
+  return Array.from(found);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function evaluateAnd(results: ThreeValuedResult[]): ThreeValuedResult {
+  if (results.some(result => result.value === false)) {return known(false);}
+  return results.some(result => result.value === 'unknown') ? unknown(results) : known(true);
+}
+
+function evaluateOr(results: ThreeValuedResult[]): ThreeValuedResult {
+  if (results.some(result => result.value === true)) {return known(true);}
+  return results.some(result => result.value === 'unknown') ? unknown(results) : known(false);
+}
+
+function negate(result: ThreeValuedResult): ThreeValuedResult {
+  return result.value === 'unknown' ? result : known(!result.value);
+}
+
+/**
+ * `if` takes the first branch whose condition passes; when a condition is
+ * unknown the result is known only if both ways out agree
+ */
+function evaluateIf(operands: unknown[], evaluate: (logic: unknown) => ThreeValuedResult): ThreeValuedResult {
+  if (operands.length === 0) {return known(false);}
+  if (operands.length === 1) {return evaluate(operands[0]);}
+
+  const condition = evaluate(operands[0]);
+  if (condition.value === true) {return evaluate(operands[1]);}
+
+  const otherwise = evaluateIf(operands.slice(2), evaluate);
+  if (condition.value === false) {return otherwise;}
+
+  const then = evaluate(operands[1]);
+  if (then.value !== 'unknown' && then.value === otherwise.value) {return then;}
+  return unknown([condition, then, otherwise]);
+}
+
+/**
+ * Evaluate JSON Logic as true, false or unknown
+ *
+ * @example
+ * ```typescript
+ * const rule = { or: [{ var: 'receivesSNAP' }, { '<=': [{ var: 'householdIncome' }, 2000] }] };
+ * evaluateThreeValued(rule, { householdIncome: 1500 });
+ * // { value: true, unknownFields: [] }
+ * evaluateThreeValued(rule, { householdIncome: 2500 });
+ * // { value: 'unknown', unknownFields: ['receivesSNAP'] }
+ * ```
+ */
+export function evaluateThreeValued(
+  logic: unknown,
+  data: JsonLogicData,
+  options: ThreeValuedOptions = {}
+): ThreeValuedResult {
+  const unknownFields = options.unknownFields ? new Set(options.unknownFields) : undefined;
+  const isUnknown = (field: string): boolean => unknownFields
+    ? unknownFields.has(field)
+    : isMissing(jsonLogic.apply({ var: field }, data));
+
+  const evaluate = (node: unknown): ThreeValuedResult => {
+    if (isOperation(node)) {
+      const [[operator, value]] = Object.entries(node);
+      const operands = operandsOf(value);
+      switch (operator) {
+        case 'and':
+          return evaluateAnd(operands.map(evaluate));
+        case 'or':
+          return evaluateOr(operands.map(evaluate));
+        case '!':
+          return negate(evaluate(operands[0]));
+        case '!!':
+          return evaluate(operands[0]);
+        case 'if':
+        case '?:':
+          return evaluateIf(operands, evaluate);
+        default:
+          break;
+      }
+    }
+
+    const unanswered = getRuleVariables(node).filter(isUnknown);
+    if (unanswered.length > 0) {
+      return { value: 'unknown', unknownFields: unanswered };
+    }
+    try {
+      return known(isTruthy(jsonLogic.apply(node as Parameters<typeof jsonLogic.apply>[0], data)));
+    } catch {
+      return known(false);
+    }
+  };
+
+  return evaluate(logic);
+}
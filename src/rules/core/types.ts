@@ -237,6 +237,8 @@ export interface RuleValidationOptions {
   requiredVariables?: string[];
   /** Check for unused variables */
   checkUnusedVariables?: boolean;
+  /** Warn about variables missing from the variable registry or used as the wrong type */
+  checkVariables?: boolean;
   /** Strict mode */
   strict?: boolean;
 }
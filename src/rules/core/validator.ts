@@ -13,6 +13,7 @@ import type {
   RuleValidationWarning,
   RuleValidationOptions,
 } from './types';
+import { getVariableDefinition, type VariableType } from './variables';
 
 // ============================================================================
 // CONSTANTS
@@ -50,6 +51,8 @@ export const VALIDATION_ERROR_CODES = {
   INVALID_OPERANDS: 'VAL_INVALID_OPERANDS',
   CIRCULAR_REFERENCE: 'VAL_CIRCULAR_REFERENCE',
   MISSING_REQUIRED_VARIABLE: 'VAL_MISSING_VARIABLE',
+  UNKNOWN_VARIABLE: 'VAL_UNKNOWN_VARIABLE',
+  VARIABLE_TYPE_MISMATCH: 'VAL_VARIABLE_TYPE_MISMATCH',
 } as const;
 
 /**
@@ -62,9 +65,25 @@ export const DEFAULT_VALIDATION_OPTIONS: Required<RuleValidationOptions> = {
   maxDepth: 20,
   requiredVariables: [],
   checkUnusedVariables: false,
+  checkVariables: true,
   strict: false,
 };
 
+/**
+ * Operators whose operands must be numbers
+ */
+const NUMERIC_OPERATORS = new Set(['<', '<=', '>', '>=', '+', '-', '*', '/', '%', 'min', 'max']);
+
+/**
+ * Operators whose operands are compared to each other
+ */
+const EQUALITY_OPERATORS = new Set(['==', '===', '!=', '!==']);
+
+/**
+ * Operators whose later operands run against array items, where `var` is item-relative
+ */
+const ITEM_SCOPED_OPERATORS = new Set(['map', 'filter', 'reduce', 'all', 'some', 'none']);
+
 // ============================================================================
 // ZOD SCHEMAS
 // ============================================================================
@@ -213,6 +232,108 @@ function validateRequiredVariables(
   }
 }
 
+/**
+ * Read the variable name from a `{ "var": ... }` node
+ */
+function getVarNodeName(node: unknown): string | undefined {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) {return undefined;}
+  const keys = Object.keys(node);
+  if (keys.length !== 1 || keys[0] !== 'var') {return undefined;}
+
+  const variables: string[] = [];
+  extractVariableFromVarOperator((node as Record<string, unknown>).var, variables);
+  return variables[0];
+}
+
+/**
+ * Check variable references against the variable registry
+ *
+ * Warns about variables that are not registered and about registered
+ * variables used where another type is expected: in arithmetic or
+ * ordering comparisons (numbers), or compared to a literal of another type.
+ *
+ * @example
+ * ```typescript
+ * validateRuleVariables({ '>': [{ var: 'isPregnant' }, 0] });
+ * // [{ code: 'VAL_VARIABLE_TYPE_MISMATCH', ... }]
+ * ```
+ */
+export function validateRuleVariables(rule: JsonLogicRule): RuleValidationWarning[] {
+  const warnings: RuleValidationWarning[] = [];
+  const reported = new Set<string>();
+
+  const warn = (code: string, name: string, message: string): void => {
+    const key = `${code}:${name}`;
+    if (reported.has(key)) {return;}
+    reported.add(key);
+    warnings.push({ message, code, path: [name], severity: 'warning' });
+  };
+
+  const checkKnown = (name: string): void => {
+    if (name === '' || getVariableDefinition(name)) {return;}
+    warn(VALIDATION_ERROR_CODES.UNKNOWN_VARIABLE, name, `Variable "${name}" is not in the variable registry`);
+  };
+
+  const checkType = (operand: unknown, expected: VariableType): void => {
+    const name = getVarNodeName(operand);
+    // Dotted paths reach into objects; only the root is registered
+    if (!name || name.includes('.')) {return;}
+    const definition = getVariableDefinition(name);
+    if (definition && definition.type !== expected) {
+      warn(
+        VALIDATION_ERROR_CODES.VARIABLE_TYPE_MISMATCH,
+        name,
+        `Variable "${name}" is a ${definition.type} but is used as a ${expected}`
+      );
+    }
+  };
+
+  const visit = (node: unknown): void => {
+    if (node === null || typeof node !== 'object') {return;}
+
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    const record = node as Record<string, unknown>;
+    for (const operator of Object.keys(record)) {
+      const value = record[operator];
+
+      if (operator === 'var') {
+        const name = getVarNodeName({ var: value });
+        if (name !== undefined) {checkKnown(name);}
+        continue;
+      }
+
+      const operands = Array.isArray(value) ? value : [value];
+
+      if (NUMERIC_OPERATORS.has(operator)) {
+        operands.forEach(operand => checkType(operand, 'number'));
+      } else if (EQUALITY_OPERATORS.has(operator) && operands.length === 2) {
+        const [left, right] = operands;
+        const literalType = (literal: unknown): VariableType | undefined =>
+          typeof literal === 'number' || typeof literal === 'boolean' || typeof literal === 'string'
+            ? typeof literal as VariableType
+            : undefined;
+        const rightType = literalType(right);
+        const leftType = literalType(left);
+        if (rightType) {checkType(left, rightType);}
+        if (leftType) {checkType(right, leftType);}
+      }
+
+      if (ITEM_SCOPED_OPERATORS.has(operator)) {
+        visit(operands[0]);
+      } else {
+        operands.forEach(visit);
+      }
+    }
+  };
+
+  visit(rule);
+  return warnings;
+}
+
 /**
  * Validate a JSON Logic rule
  *
@@ -255,6 +376,9 @@ export function validateRule(
 
     validateRuleOperators(operators, opts, errors, warnings);
     validateRequiredVariables(variables, opts, errors);
+    if (opts.checkVariables) {
+      warnings.push(...validateRuleVariables(validatedRule));
+    }
 
     if (hasCircularReference(validatedRule)) {
       errors.push({
@@ -0,0 +1,104 @@
+/**
+ * Rule Variables
+ *
+ * Lookup and labelling for the variables rules reference.
+ */
+
+import { VARIABLE_PATTERNS, VARIABLE_REGISTRY } from './registry';
+import type { VariableDefinition } from './types';
+
+export { VARIABLE_PATTERNS, VARIABLE_REGISTRY } from './registry';
+export type {
+  VariableDefinition,
+  VariableDefinitionInput,
+  VariablePattern,
+  VariablePeriod,
+  VariableType,
+  VariableUnit,
+} from './types';
+
+/**
+ * Look up a variable by name
+ *
+ * Dotted paths (`assets.cash`) resolve to their root variable.
+ *
+ * @example
+ * ```typescript
+ * getVariableDefinition('householdIncome')?.period; // 'monthly'
+ * getVariableDefinition('livesInOhio')?.type; // 'boolean'
+ * ```
+ */
+export function getVariableDefinition(name: string): VariableDefinition | undefined {
+  const root = name.split('.')[0];
+  if (Object.prototype.hasOwnProperty.call(VARIABLE_REGISTRY, root)) {
+    return VARIABLE_REGISTRY[root];
+  }
+
+  const match = VARIABLE_PATTERNS.find(({ pattern }) => pattern.test(root));
+  return match ? { ...match.definition, name: root, labelKey: `variables.${root}` } : undefined;
+}
+
+/**
+ * Check whether a variable is in the registry
+ */
+export function isKnownVariable(name: string): boolean {
+  return getVariableDefinition(name) !== undefined;
+}
+
+/**
+ * Map of variable name to English label, for variables that have one
+ *
+ * @param options.capitalize Capitalize the first letter, for list items
+ */
+export function getVariableLabels(options: { capitalize?: boolean } = {}): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const definition of Object.values(VARIABLE_REGISTRY)) {
+    if (definition.label) {
+      labels[definition.name] = options.capitalize ? capitalizeLabel(definition.label) : definition.label;
+    }
+  }
+  return labels;
+}
+
+/**
+ * Maps technical field names to user-friendly descriptions, taken from the variable registry
+ *
+ * Labels are lowercase for use mid-sentence; see {@link capitalizeLabel}.
+ */
+export const FIELD_NAME_MAPPINGS: Record<string, string> = getVariableLabels();
+
+/**
+ * Capitalize the first letter of a label, for list items (`your age` → `Your age`)
+ */
+export function capitalizeLabel(label: string): string {
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Turn a field name into words when no label exists (`hasChildUnder6` → `Has Child Under6`)
+ */
+export function humanizeVariableName(name: string): string {
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (l) => l.toUpperCase())
+    .trim();
+}
+
+/**
+ * Get the user-facing label for a variable
+ *
+ * Uses the translation for the variable's label key when `t` is given and
+ * has one, then the English label, then the humanized name.
+ */
+export function getVariableLabel(
+  name: string,
+  t?: (key: string) => string
+): string {
+  const definition = getVariableDefinition(name);
+  if (definition && t) {
+    const translated = t(definition.labelKey);
+    if (translated && translated !== definition.labelKey) {return translated;}
+  }
+  return definition?.label ?? humanizeVariableName(name);
+}
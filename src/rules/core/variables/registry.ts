@@ -0,0 +1,274 @@
+/**
+ * Rule Variable Registry
+ *
+ * Every variable rules may reference, with its type, unit and where its
+ * value comes from. Variables that are not answered directly by a question
+ * are derived in `prepareDataContext` or added by the evaluator.
+ */
+
+import type { VariableDefinition, VariableDefinitionInput, VariablePattern } from './types';
+
+function defineVariables(
+  inputs: Record<string, VariableDefinitionInput>
+): Record<string, VariableDefinition> {
+  return Object.fromEntries(
+    Object.entries(inputs).map(([name, input]) => [name, { ...input, name, labelKey: `variables.${name}` }])
+  );
+}
+
+const money = (description: string, extra: Partial<VariableDefinitionInput> = {}): VariableDefinitionInput => ({
+  type: 'number',
+  unit: 'usd',
+  period: 'monthly',
+  description,
+  ...extra,
+});
+
+const amount = (description: string, extra: Partial<VariableDefinitionInput> = {}): VariableDefinitionInput => ({
+  type: 'number',
+  unit: 'usd',
+  description,
+  ...extra,
+});
+
+const flag = (description: string, extra: Partial<VariableDefinitionInput> = {}): VariableDefinitionInput => ({
+  type: 'boolean',
+  description,
+  ...extra,
+});
+
+export const VARIABLE_REGISTRY: Record<string, VariableDefinition> = defineVariables({
+  // Demographics
+  age: { type: 'number', unit: 'years', sourceQuestion: 'age', description: 'Age of the applicant', label: 'your age', fixed: true },
+  isPregnant: flag('Applicant is pregnant', { sourceQuestion: 'isPregnant', label: 'pregnancy status', fixed: true }),
+  isPostpartum: flag('Applicant gave birth recently', { sourceQuestion: 'isPostpartum', fixed: true }),
+  isBreastfeeding: flag('Applicant is breastfeeding'),
+  monthsSinceBirth: { type: 'number', unit: 'months', description: 'Months since the applicant gave birth' },
+  isMarried: flag('Applicant is married'),
+  isElderly: flag('Applicant is 60 or older'),
+  isSenior: flag('Applicant is 65 or older', { label: 'senior status (65+)' }),
+  isBlind: flag('Applicant is blind'),
+  isDisabled: flag('Applicant has a disability'),
+  hasDisability: flag('Someone in the household has a disability'),
+  hasQualifyingDisability: flag('Applicant has a disability that meets program definitions', {
+    sourceQuestion: 'hasQualifyingDisability',
+    label: 'qualifying disability status',
+    fixed: true,
+  }),
+  disabilityPreventsWork: flag('A disability prevents the applicant from working'),
+  hasElderlyOrDisabled: flag('Someone in the household is 60 or older or has a disability'),
+  ssn: { type: 'string', description: 'Social Security number', label: 'Social Security number' },
+  hasSocialSecurityNumber: flag('Applicant has a Social Security number'),
+  hasAppliedForSSN: flag('Applicant has applied for a Social Security number'),
+
+  // Household
+  householdSize: {
+    type: 'number',
+    unit: 'people',
+    sourceQuestion: 'householdSize',
+    description: 'Number of people in the household',
+    label: 'your household size',
+    fixed: true,
+  },
+  householdMembers: { type: 'array', sourceQuestion: 'householdMembers', description: 'Household member details' },
+  hasChildren: flag('Household includes children', { sourceQuestion: 'hasChildren', label: 'whether you have children', fixed: true }),
+  hasMinorChildren: flag('Household includes children under 18', { label: 'whether you have children under 18' }),
+  hasDependentChildren: flag('Household includes dependent children'),
+  hasChildUnder6: flag('Household includes a child under 6'),
+  hasChildUnder12AndNoChildcare: flag('Household has a child under 12 and no available child care'),
+  childCount: { type: 'number', unit: 'count', description: 'Number of children in the household' },
+  childAge: { type: 'number', unit: 'years', description: 'Age of the child the rule applies to' },
+  ageOfYoungestChild: { type: 'number', unit: 'years', description: 'Age of the youngest child in the household' },
+  childInHighSchool: flag('The child is enrolled in high school'),
+  isParentOfDependentChild: flag('Applicant is the parent of a dependent child'),
+  isCaretakerOfRelativeChild: flag('Applicant cares for a relative\'s child'),
+  allMembersCategoricallyIneligible: flag('No household member can qualify on their own'),
+
+  // Citizenship & Immigration
+  citizenship: {
+    type: 'string',
+    sourceQuestion: 'citizenship',
+    description: 'Citizenship or immigration category (e.g. us_citizen, permanent_resident)',
+    label: 'citizenship status',
+    fixed: true,
+  },
+  immigration_status: { type: 'string', sourceQuestion: 'immigration_status', description: 'Detailed immigration status', fixed: true },
+  has_eligible_citizenship: flag('Citizenship or immigration status meets program rules'),
+  isCitizen: flag('Applicant is a U.S. citizen', { label: 'citizenship status' }),
+  isUSCitizen: flag('Applicant is a U.S. citizen'),
+  isLegalResident: flag('Applicant is a lawful permanent resident', { label: 'legal residency status' }),
+  isQualifiedImmigrant: flag('Applicant is a qualified immigrant'),
+  isEligibleImmigrant: flag('Applicant has an eligible immigration status'),
+  yearsInUS: { type: 'number', unit: 'years', sourceQuestion: 'yearsInUS', description: 'Years lived in the United States', fixed: true },
+
+  // Income
+  householdIncome: money('Total household gross income, converted to monthly', {
+    sourceQuestion: 'householdIncome',
+    label: 'your household\'s monthly income',
+  }),
+  earnedIncome: money('Monthly income from work, from income sources or member income', {
+    sourceQuestion: 'incomeSourceEntries',
+    label: 'your earned income',
+  }),
+  unearnedIncome: money('Monthly income not from work, such as benefits or support', {
+    sourceQuestion: 'incomeSourceEntries',
+    label: 'your unearned income',
+  }),
+  incomeSourceEntries: {
+    type: 'array',
+    sourceQuestion: 'incomeSourceEntries',
+    description: 'Income sources as entered, each with source, amount, frequency and hoursPerWeek',
+  },
+  incomeDetails: {
+    type: 'object',
+    description: 'Monthly income by source (employment, socialSecurity, ...) with a total',
+  },
+  income: money('Income', { label: 'your income' }),
+  grossIncome: money('Gross income before deductions', { label: 'your gross income' }),
+  netIncome: money('Income after deductions', { label: 'your net income' }),
+  monthlyIncome: money('Monthly income', { label: 'your monthly income' }),
+  annualIncome: money('Annual income', { period: 'annual', sourceQuestion: 'annualIncome', label: 'your annual income' }),
+  snapNetIncome: money('SNAP net income after all allowed deductions'),
+  allowedDeductions: money('Total SNAP deductions'),
+  expectedFamilyContributionZero: flag('Student aid expected family contribution is zero', {
+    sourceQuestion: 'expectedFamilyContributionZero',
+    fixed: true,
+  }),
+
+  // Expenses
+  shelterCosts: money('Rent or mortgage plus property tax and insurance', {
+    sourceQuestion: 'shelterCosts',
+    label: 'your shelter costs',
+  }),
+  utilityAllowance: money('Standard utility allowance for the state, when the household pays heating or cooling'),
+  paysHeatingCooling: flag('Household pays heating or cooling costs', {
+    sourceQuestion: 'paysHeatingCooling',
+    label: 'whether you pay heating or cooling costs',
+  }),
+  dependentCareCosts: money('Child or dependent care paid so someone can work or study', {
+    sourceQuestion: 'dependentCareCosts',
+    label: 'your dependent care costs',
+  }),
+  childSupportPaid: money('Legally required child support paid', {
+    sourceQuestion: 'childSupportPaid',
+    label: 'the child support you pay',
+  }),
+  medicalExpenses: money('Out-of-pocket medical costs for elderly or disabled members', {
+    sourceQuestion: 'medicalExpenses',
+    label: 'your medical expenses',
+  }),
+  hasExpenses: flag('Household reported expenses'),
+  housingCosts: money('Housing costs', { label: 'your housing costs' }),
+  rentAmount: money('Monthly rent', { label: 'your monthly rent' }),
+  monthlyRent: money('Monthly rent for the unit'),
+  mortgageAmount: money('Monthly mortgage payment', { label: 'your monthly mortgage' }),
+
+  // Assets
+  assets: {
+    type: 'object',
+    sourceQuestion: 'householdAssets',
+    description: 'Household assets by type; pass to countable_resources',
+    label: 'your household assets',
+  },
+  totalAssets: amount('Total value of all reported assets'),
+  countableAssets: amount('Assets counted toward the resource limit'),
+  ssiCountableResources: amount('Assets counted under SSI exclusions'),
+  snapCountableResources: amount('Assets counted under SNAP exclusions'),
+  tanfCountableResources: amount('Assets counted under TANF exclusions'),
+  medicaidCountableResources: amount('Assets counted under non-MAGI Medicaid exclusions'),
+  resources: amount('Available resources', { label: 'your available resources' }),
+  liquidAssets: amount('Cash and easily converted assets', { label: 'your liquid assets' }),
+  vehicleValue: amount('Vehicle value', { label: 'your vehicle value' }),
+  bankBalance: amount('Bank account balance', { label: 'your bank account balance' }),
+
+  // Location & State
+  state: { type: 'string', sourceQuestion: 'state', description: 'State of residence as entered', label: 'your state of residence', fixed: true },
+  stateCode: { type: 'string', description: 'Two-letter state code' },
+  county: { type: 'string', sourceQuestion: 'county', description: 'County of residence', label: 'your county', fixed: true },
+  zipCode: { type: 'string', description: 'ZIP code', label: 'your ZIP code' },
+  jurisdiction: { type: 'string', description: 'Jurisdiction code', label: 'your location' },
+  stateHasExpanded: flag('State has expanded Medicaid', { label: 'whether your state has expanded coverage' }),
+  livesInState: flag('Applicant lives in the state the rule covers', { label: 'state residency' }),
+  livesInUS: flag('Applicant lives in the United States'),
+  livesInRuralArea: flag('Applicant lives in a rural area'),
+  inCalifornia: flag('Applicant lives in California'),
+  fplYear: { type: 'number', unit: 'year', description: 'Poverty guideline year for the evaluation date' },
+  fplRegion: { type: 'string', description: 'Poverty guideline table: contiguous, alaska or hawaii' },
+  evaluationDate: { type: 'string', description: 'Evaluation date (YYYY-MM-DD)' },
+
+  // Work & School
+  employmentStatus: { type: 'string', sourceQuestion: 'employmentStatus', description: 'Employment status', label: 'your employment status' },
+  isEmployed: flag('Applicant is employed'),
+  isStudent: flag('Applicant is a student', { sourceQuestion: 'isStudent', label: 'student status' }),
+  isABAWD: flag('Able-bodied adult without dependents'),
+  meetsWorkRequirement: flag('Applicant meets the work requirement'),
+  meetsWorkRequirements: flag('Applicant meets the work requirements'),
+  isExemptFromWork: flag('Applicant is exempt from work requirements'),
+  isExemptFromWorkRequirements: flag('Applicant is exempt from work requirements'),
+  isWorkExempt: flag('Applicant is exempt from work requirements'),
+  worksAtLeast20Hours: flag('Applicant works at least 20 hours a week'),
+  participatesInWorkProgram: flag('Applicant participates in a work program'),
+  inEmploymentTraining: flag('Applicant is in an employment and training program'),
+  receivesWorkStudy: flag('Applicant receives work-study'),
+  isVeteran: flag('Applicant is a veteran', { label: 'veteran status' }),
+
+  // Health
+  hasHealthInsurance: flag('Applicant has health insurance', { label: 'current health insurance coverage' }),
+  hasEmergencyMedicalCondition: flag('Applicant has an emergency medical condition', { sourceQuestion: 'hasEmergencyMedicalCondition', fixed: true }),
+  hasNutritionalRisk: flag('Applicant has a nutritional risk'),
+  hasMedicalRisk: flag('Applicant has a medical nutritional risk'),
+  hasDietaryRisk: flag('Applicant has a dietary risk'),
+  isWICApplicant: flag('Applicant is in a WIC category'),
+
+  // Housing
+  isHomeless: flag('Applicant is homeless', { label: 'housing situation' }),
+  isOvercrowded: flag('Current housing is overcrowded'),
+  isUnaffordableHousing: flag('Current housing costs more than the household can afford'),
+  isUnsafeHousing: flag('Current housing is unsafe'),
+  hasCriminalHistory: flag('Someone in the household has a criminal history', { sourceQuestion: 'hasCriminalHistory', fixed: true }),
+  hasDisqualifyingCrimes: flag('Someone in the household has a disqualifying conviction'),
+  hasEvictionHistory: flag('Household has been evicted', { sourceQuestion: 'hasEvictionHistory', fixed: true }),
+  hasRentalDebt: flag('Household owes a previous landlord'),
+  hasRentalHistory: flag('Household has a rental history'),
+  areaMedianIncome: money('Area median income limit for the county and household size'),
+  areaMedianIncome50Percent: money('50% of area median income'),
+  areaMedianIncome60Percent: money('60% of area median income'),
+  hudFairMarketRent: money('HUD fair market rent'),
+  lihtcUnitsAvailable: { type: 'number', unit: 'count', description: 'LIHTC units available' },
+  maxUnitSize: { type: 'number', unit: 'count', description: 'Largest unit size (bedrooms) allowed for the household' },
+
+  // Benefits
+  receivesSSI: flag('Household receives SSI', { label: 'Supplemental Security Income (SSI)' }),
+  receivesSNAP: flag('Household receives SNAP', { label: 'SNAP benefits' }),
+  receivesTANF: flag('Household receives TANF', { label: 'TANF benefits' }),
+  receivesWIC: flag('Household receives WIC', { label: 'WIC benefits' }),
+  receivesMedicaid: flag('Household receives Medicaid'),
+  receivesCalWorks: flag('Household receives CalWORKs'),
+  receivesGeneralAssistance: flag('Household receives General Assistance'),
+  receivesUnemployment: flag('Household receives unemployment benefits', { label: 'unemployment benefits' }),
+  isTANFRecipient: flag('Applicant receives TANF'),
+  receivedTANFBrochure: flag('Applicant received the TANF information brochure'),
+  monthsOfTANFReceived: { type: 'number', unit: 'months', description: 'Months of TANF received' },
+  monthsOnTANF: { type: 'number', unit: 'months', description: 'Months of TANF received' },
+});
+
+/**
+ * Variable families resolved by name pattern
+ */
+export const VARIABLE_PATTERNS: VariablePattern[] = [
+  {
+    // livesInGeorgia, livesInNewHampshire, ...
+    pattern: /^livesIn[A-Z][A-Za-z]+$/,
+    definition: flag('Applicant lives in the named state'),
+  },
+  {
+    // ami50, ami60, ami80
+    pattern: /^ami\d{2}$/,
+    definition: money('Area median income limit at the given percentage'),
+  },
+  {
+    // likelyEligibleSNAP, likelyEligibleTANF, ...
+    pattern: /^likelyEligible[A-Z][A-Za-z0-9]*$/,
+    definition: flag('Household likely qualifies for the named program (set for dependent programs)'),
+  },
+];
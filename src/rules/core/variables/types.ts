@@ -0,0 +1,51 @@
+/**
+ * Rule Variable Types
+ */
+
+/**
+ * Value type a rule can expect from a variable
+ */
+export type VariableType = 'number' | 'boolean' | 'string' | 'array' | 'object';
+
+/**
+ * Unit of a numeric variable
+ */
+export type VariableUnit = 'usd' | 'people' | 'count' | 'years' | 'months' | 'year';
+
+/**
+ * Period a money amount covers
+ */
+export type VariablePeriod = 'monthly' | 'annual';
+
+/**
+ * A variable rules can reference with `{ "var": name }`
+ */
+export interface VariableDefinition {
+  name: string;
+  type: VariableType;
+  unit?: VariableUnit;
+  period?: VariablePeriod;
+  /** Questionnaire field that answers this variable; absent for derived variables */
+  sourceQuestion?: string;
+  /** What the variable holds, for rule authors */
+  description: string;
+  /** i18n key of the user-facing label */
+  labelKey: string;
+  /** English label, phrased to fit mid-sentence (e.g. "your age") */
+  label?: string;
+  /** An answer the user can't change to qualify (age, citizenship, ...); counterfactual search leaves it alone */
+  fixed?: boolean;
+}
+
+/**
+ * Registry entry before the name and label key are filled in
+ */
+export type VariableDefinitionInput = Omit<VariableDefinition, 'name' | 'labelKey'>;
+
+/**
+ * A family of variables that share a definition, such as `livesIn<State>`
+ */
+export interface VariablePattern {
+  pattern: RegExp;
+  definition: VariableDefinitionInput;
+}
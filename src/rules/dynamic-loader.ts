@@ -6,6 +6,11 @@
  */
 
 import type { RuleDefinition } from './core/types';
+import {
+  resolvePackageRules,
+  type ResolvableRule,
+  type RuleResolutionEntry,
+} from './core/packageResolution';
 import { importManager } from '../services/ImportManager';
 
 export interface StateRules {
@@ -16,6 +21,10 @@ export interface StateRules {
       program: string;
       version: string;
       lastUpdated: number;
+      /** Source package ID */
+      packageId?: string;
+      /** Package IDs the source package extends */
+      extends?: string[];
     };
   };
 }
@@ -25,8 +34,17 @@ export interface RuleLoadResult {
   rules: StateRules;
   errors: string[];
   loadTime: number;
+  /** Per program: where each rule came from and which rule won */
+  resolution?: Record<string, RuleResolutionEntry[]>;
 }
 
+type LoadedPackage = {
+  rules: RuleDefinition[];
+  metadata?: { id?: string; extends?: string[] };
+};
+
+type ResolvableRuleDefinition = RuleDefinition & ResolvableRule;
+
 /**
  * Load federal rules dynamically
  */
@@ -48,7 +66,7 @@ export async function loadFederalRules(): Promise<RuleLoadResult> {
       }
 
       if (ruleData && typeof ruleData === 'object' && 'rules' in ruleData) {
-        const validatedRuleData = ruleData as { rules: RuleDefinition[] };
+        const validatedRuleData = ruleData as LoadedPackage;
         // Use Object.assign for safer property assignment
         Object.assign(rules, {
           [programName]: {
@@ -58,6 +76,8 @@ export async function loadFederalRules(): Promise<RuleLoadResult> {
               program: programName,
               version: '1.0.0',
               lastUpdated: Date.now(),
+              packageId: validatedRuleData.metadata?.id,
+              extends: validatedRuleData.metadata?.extends,
             },
           },
         });
@@ -112,7 +132,7 @@ export async function loadStateRules(stateCode: string): Promise<RuleLoadResult>
       }
 
       if (ruleData && typeof ruleData === 'object' && 'rules' in ruleData) {
-        const validatedRuleData = ruleData as { rules: RuleDefinition[] };
+        const validatedRuleData = ruleData as LoadedPackage;
         // Use Object.assign for safer property assignment
         Object.assign(rules, {
           [programName]: {
@@ -122,6 +142,8 @@ export async function loadStateRules(stateCode: string): Promise<RuleLoadResult>
               program: programName,
               version: '1.0.0',
               lastUpdated: Date.now(),
+              packageId: validatedRuleData.metadata?.id,
+              extends: validatedRuleData.metadata?.extends,
             },
           },
         });
@@ -152,12 +174,41 @@ export async function loadStateRules(stateCode: string): Promise<RuleLoadResult>
   }
 }
 
+/**
+ * Merge a state package into the federal package it extends
+ */
+function resolveStateProgramRules(
+  federalProgramRules: StateRules[string],
+  stateProgramRules: StateRules[string]
+): { programRules: StateRules[string]; resolution: RuleResolutionEntry[]; issues: string[] } {
+  const toPackage = (programRules: StateRules[string]): { metadata: { id: string; extends?: string[] }; rules: ResolvableRuleDefinition[] } => ({
+    metadata: { id: programRules.metadata.packageId ?? '', extends: programRules.metadata.extends },
+    rules: programRules.rules as ResolvableRuleDefinition[],
+  });
+
+  const resolved = resolvePackageRules(stateProgramRules.metadata.packageId ?? '', [
+    toPackage(federalProgramRules),
+    toPackage(stateProgramRules),
+  ]);
+
+  return {
+    programRules: { rules: resolved.rules, metadata: stateProgramRules.metadata },
+    resolution: resolved.resolution,
+    issues: resolved.issues.map(issue => issue.message),
+  };
+}
+
 /**
  * Load rules for a specific program and state
+ *
+ * A state package that lists the federal package in `metadata.extends` is
+ * merged with it: federal rules apply unless a state rule overrides them.
+ * A state package that does not extend the federal package replaces it.
  */
 export async function loadProgramRules(program: string, stateCode?: string): Promise<RuleLoadResult> {
   const startTime = performance.now();
   const errors: string[] = [];
+  const resolution: Record<string, RuleResolutionEntry[]> = {};
 
   try {
     const rules: StateRules = {};
@@ -182,10 +233,24 @@ export async function loadProgramRules(program: string, stateCode?: string): Pro
       const stateResult = await loadStateRules(stateCode);
       if (stateResult.success && Object.hasOwnProperty.call(stateResult.rules, program)) {
         const stateProgramRules = stateResult.rules[program as keyof StateRules];
-        // State rules override federal rules
-        Object.assign(rules, {
-          [program]: stateProgramRules,
-        });
+        const federalProgramRules = Object.hasOwnProperty.call(rules, program)
+          ? rules[program as keyof StateRules]
+          : undefined;
+        const federalPackageId = federalProgramRules?.metadata.packageId;
+
+        if (federalProgramRules && federalPackageId && stateProgramRules.metadata.extends?.includes(federalPackageId)) {
+          const resolved = resolveStateProgramRules(federalProgramRules, stateProgramRules);
+          errors.push(...resolved.issues);
+          Object.assign(resolution, { [program]: resolved.resolution });
+          Object.assign(rules, {
+            [program]: resolved.programRules,
+          });
+        } else {
+          // State rules replace federal rules
+          Object.assign(rules, {
+            [program]: stateProgramRules,
+          });
+        }
       }
     }
 
@@ -196,6 +261,7 @@ export async function loadProgramRules(program: string, stateCode?: string): Pro
       rules,
       errors,
       loadTime,
+      resolution,
     };
   } catch (error) {
     const loadTime = performance.now() - startTime;
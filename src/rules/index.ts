@@ -28,6 +28,7 @@ export {
   validateRules,
   isValidRule,
   sanitizeRule,
+  validateRuleVariables,
   DEFAULT_VALIDATION_OPTIONS,
   STANDARD_OPERATORS,
   VALIDATION_ERROR_CODES,
@@ -48,11 +49,99 @@ export {
   TestSuiteBuilder,
 } from './core/tester';
 
+// Rule Coverage
+export {
+  OPERATOR_MUTATIONS,
+  getRuleBranches,
+  traceRuleBranches,
+  generateRuleMutants,
+  runMutationTests,
+  analyzeRuleCoverage,
+  analyzePackageCoverage,
+  type CoverageTestCase,
+  type CoverageEvaluator,
+  type CoverageOptions,
+  type CoverageRule,
+  type RuleBranch,
+  type RuleMutant,
+  type RuleMutationReport,
+  type RuleCoverageReport,
+  type PackageCoverageReport,
+} from './core/coverage';
+
+// Package Diff
+export {
+  diffRule,
+  diffRulePackages,
+  formatRulePackageDiff,
+  type DiffProfile,
+  type DiffEvaluator,
+  type RulePackageDiffOptions,
+  type RulePackageDiff,
+  type RuleDiff,
+  type RuleSummary,
+  type ThresholdChange,
+  type EligibilityFlip,
+} from './core/packageDiff';
+
+// Population Simulation
+export {
+  createSeededRandom,
+  generatePopulation,
+  buildSimulationPrograms,
+  simulateEligibility,
+  compareSimulations,
+  formatSimulationReport,
+  type PopulationOptions,
+  type SyntheticHousehold,
+  type SimulationProgram,
+  type SimulationOptions,
+  type SimulationReport,
+  type SimulationDelta,
+  type ProgramRate,
+  type ProgramRateDelta,
+} from './core/simulation';
+
+// Counterfactual Search
+export {
+  findCounterfactuals,
+  getAdjustableFields,
+  formatCounterfactualAmount,
+  type Counterfactual,
+  type CounterfactualChange,
+  type CounterfactualOptions,
+  type CounterfactualRule,
+} from './core/counterfactual';
+
+// Three-Valued Evaluation
+export {
+  evaluateThreeValued,
+  getRuleVariables,
+  type TruthValue,
+  type ThreeValuedResult,
+  type ThreeValuedOptions,
+} from './core/threeValued';
+
+// Benefit Cliff Analysis
+export {
+  analyzeBenefitCliffs,
+  getIncomeThresholds,
+  type BenefitCliff,
+  type BenefitCliffAnalysis,
+  type BenefitCliffOptions,
+  type CliffProgram,
+  type CliffRule,
+  type IncomeSweepPoint,
+  type IncomeThresholdMarker,
+} from './core/benefitCliff';
+
 // Schema
 export {
   RuleDefinitionSchema,
   RulePackageSchema,
   RuleVersionSchema,
+  RuleContentTranslationSchema,
+  RuleContentTranslationsSchema,
   validateRuleDefinition,
   validateRulePackage,
   parseVersion,
@@ -70,6 +159,8 @@ export {
   type RuleChange,
   type DocumentRequirement,
   type NextStep,
+  type RuleContentTranslation,
+  type RuleContentTranslations,
   type EmbeddedTestCase,
   type RulePackageMetadata,
   type RuleImportOptions,
@@ -90,7 +181,16 @@ export {
   importFromJSON,
   exportToJSON,
   exportPackageToJSON,
+  generateSigningKeyPair,
+  signRulePackage,
+  verifyRulePackageSignature,
+  TRUSTED_SIGNING_KEYS,
   IMPORT_ERROR_CODES,
+  type PackageSigner,
+  type PackageSignatureStatus,
+  type PackageSignatureVerification,
+  type TrustedSigningKey,
+  type RulePackageImportOptions,
 } from './core/import-export';
 
 // Versioning
@@ -118,6 +218,10 @@ export {
   evaluateMultiplePrograms,
   evaluateAllPrograms,
   getAllProgramRuleIds,
+  selectRulesInEffect,
+  orderProgramsByDependencies,
+  describeCategoricalEligibility,
+  PROGRAM_DEPENDENCIES,
   clearCachedResults,
   getCachedResults,
   type EligibilityEvaluationResult,
@@ -139,13 +243,19 @@ export {
   explainWhatWouldPass,
   explainDifference,
   formatRuleExplanation,
+  buildEligibilityFlow,
   type ResultExplanation,
   type ExplanationOptions,
+  type EligibilityFlow,
+  type EligibilityFlowNode,
+  type EligibilityFlowEdge,
+  type FlowNodeStatus,
 } from './core/explanation';
 
 // Debug
 export {
   debugRule,
+  findFailingPath,
   inspectVariable,
   inspectAllVariables,
   inspectRule,
@@ -188,3 +298,45 @@ export {
   type RuleLoadResult,
 } from './dynamic-loader';
 
+// Package Resolution
+export {
+  resolvePackageRules,
+  type ResolvableRule,
+  type ResolvablePackage,
+  type RuleResolutionEntry,
+  type PackageResolutionIssue,
+  type PackageResolutionIssueType,
+  type ResolvedRuleSet,
+} from './core/packageResolution';
+
+// Rule Content Localization
+export {
+  RULE_CONTENT_BASE_LANGUAGE,
+  RULE_CONTENT_LANGUAGES,
+  selectTranslation,
+  localizeRuleContent,
+  omitTranslatedExplanations,
+  getTranslationCoverage,
+  type LocalizableRuleContent,
+  type TranslationCoverage,
+} from './core/localization';
+
+// Variable Registry
+export {
+  VARIABLE_REGISTRY,
+  VARIABLE_PATTERNS,
+  getVariableDefinition,
+  isKnownVariable,
+  getVariableLabel,
+  getVariableLabels,
+  humanizeVariableName,
+  capitalizeLabel,
+  FIELD_NAME_MAPPINGS,
+  type VariableDefinition,
+  type VariableDefinitionInput,
+  type VariablePattern,
+  type VariablePeriod,
+  type VariableType,
+  type VariableUnit,
+} from './core/variables';
+
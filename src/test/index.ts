@@ -19,6 +19,10 @@ export {
   advanceTimersAndFlush,
 } from './utils';
 
+// PDF reader
+export { parsePdf } from './pdf';
+export type { ParsedPdf } from './pdf';
+
 // Store mocks
 export {
   mockAppSettingsStore,
@@ -0,0 +1,84 @@
+/**
+ * PDF Test Utilities
+ *
+ * A minimal reader for the uncompressed PDFs written by TaggedPdfWriter, so
+ * tests can check the generated bytes rather than mocking the writer.
+ */
+
+export interface ParsedPdf {
+  /** The whole file decoded as Latin-1 */
+  source: string;
+  /** Object bodies by object number, located through the xref table */
+  objects: Map<number, string>;
+  /** Text shown on each page, one entry per text operator */
+  pages: string[][];
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let index = 0; index < bytes.length; index += 8192) {
+    text += String.fromCharCode(...bytes.subarray(index, index + 8192));
+  }
+  return text;
+}
+
+/**
+ * Decode a PDF literal string, e.g. `(Caf\351 \(open\))`
+ */
+function decodeLiteral(literal: string): string {
+  return literal
+    .slice(1, -1)
+    .replace(/\\([0-7]{3}|.)/g, (_, escaped: string) => (
+      escaped.length === 3 ? String.fromCharCode(parseInt(escaped, 8)) : escaped
+    ));
+}
+
+function reference(body: string, key: string): number {
+  const match = new RegExp(`/${key} (\\d+) 0 R`).exec(body);
+  if (!match) {throw new Error(`Missing /${key} reference`);}
+  return Number(match[1]);
+}
+
+/**
+ * Parse a PDF, failing if the xref table does not point at its objects
+ *
+ * Usage:
+ * ```ts
+ * const pdf = parsePdf(writer.toBytes());
+ * expect(pdf.pages[0]).toContain('Summary');
+ * ```
+ */
+export function parsePdf(bytes: Uint8Array): ParsedPdf {
+  const source = decodeLatin1(bytes);
+  const startxref = /startxref\n(\d+)\n%%EOF\n$/.exec(source);
+  if (!startxref) {throw new Error('Missing startxref');}
+
+  const xref = /^xref\n0 (\d+)\n/.exec(source.slice(Number(startxref[1])));
+  if (!xref) {throw new Error('startxref does not point at the xref table');}
+
+  const objects = new Map<number, string>();
+  const entriesStart = Number(startxref[1]) + xref[0].length;
+  for (let ref = 1; ref < Number(xref[1]); ref++) {
+    const entry = source.slice(entriesStart + ref * 20, entriesStart + (ref + 1) * 20);
+    const offset = Number(entry.slice(0, 10));
+    const header = `${ref} 0 obj\n`;
+    if (!source.startsWith(header, offset)) {
+      throw new Error(`xref entry ${ref} does not point at its object`);
+    }
+    const start = offset + header.length;
+    objects.set(ref, source.slice(start, source.indexOf('\nendobj\n', start)));
+  }
+
+  const trailer = source.slice(source.lastIndexOf('trailer'));
+  const catalog = objects.get(reference(trailer, 'Root')) ?? '';
+  const pageTree = objects.get(reference(catalog, 'Pages')) ?? '';
+  const kids = /\/Kids \[([^\]]*)\]/.exec(pageTree)?.[1] ?? '';
+
+  const pages = Array.from(kids.matchAll(/(\d+) 0 R/g), ([, pageRef]) => {
+    const content = objects.get(reference(objects.get(Number(pageRef)) ?? '', 'Contents')) ?? '';
+    const stream = content.slice(content.indexOf('stream\n') + 7, content.lastIndexOf('\nendstream'));
+    return Array.from(stream.matchAll(/(\((?:\\.|[^\\)])*\)) Tj/g), ([, literal]) => decodeLiteral(literal));
+  });
+
+  return { source, objects, pages };
+}
@@ -36,6 +36,11 @@ vi.mock('../i18n/hooks', () => ({
     const overrides: Record<string, string> = {
       'results.processingMessage': 'Processing results',
       'results.actions.whyThisResult': 'Why this result?',
+      'results.estimate.title': 'Estimated benefit:',
+      'results.estimate.frequency.monthly': 'per month',
+      'results.estimate.cost.title': 'Estimated rent you would pay:',
+      'results.flowchart.open': 'View eligibility flowchart',
+      'results.flowchart.title': 'How eligibility is decided',
       'results.status.qualified': 'You Qualify',
       'results.summary.all': 'All',
       'results.summary.qualified': 'Qualified',
@@ -112,6 +117,12 @@ vi.mock('../db/database', () => {
   const mockProfiles: Array<Record<string, unknown>> = [];
   // Add eligibility results store to support caching tests
   const mockResults: Array<Record<string, any>> = [];
+  // Saved results history store, with live query listeners
+  const mockSavedResults: Array<Record<string, any>> = [];
+  const savedResultsListeners = new Set<(docs: unknown[]) => void>();
+  // Tracked applications store, keyed by programId, with live query listeners
+  const mockApplications: Array<Record<string, any>> = [];
+  const applicationsListeners = new Set<(docs: unknown[]) => void>();
 
   // Safe property access helper to prevent object injection
   const safeGet = (obj: Record<string, unknown>, key: string): unknown => {
@@ -364,6 +375,121 @@ vi.mock('../db/database', () => {
     count: () => ({ exec: () => Promise.resolve(mockResults.length) }),
   };
 
+  const makeSavedResultDoc = (r: Record<string, any>) => ({
+    ...r,
+    toJSON: () => r,
+    toMutableJSON: () => ({ ...r }),
+    get: (k: string) => safeGet(r, k),
+    incrementalPatch: async (patch: Record<string, unknown>) => {
+      Object.assign(r, patch);
+      notifySavedResults();
+    },
+    remove: async () => {
+      const idx = mockSavedResults.findIndex(x => x.id === r.id);
+      if (idx >= 0) mockSavedResults.splice(idx, 1);
+      notifySavedResults();
+    },
+  });
+  const savedResultsHistory = () => [...mockSavedResults]
+    .sort((a, b) => b.evaluatedAt - a.evaluatedAt)
+    .map(makeSavedResultDoc);
+  const notifySavedResults = () => {
+    const docs = savedResultsHistory();
+    savedResultsListeners.forEach(listener => listener(docs));
+  };
+  const upsertSavedResult = (data: Record<string, any>) => {
+    const idx = mockSavedResults.findIndex(x => x.id === data.id);
+    if (idx >= 0) mockSavedResults[idx] = { ...data };
+    else mockSavedResults.push({ ...data });
+  };
+
+  const savedResultsCollection: any = {
+    find: () => ({
+      exec: () => Promise.resolve(savedResultsHistory()),
+      limit: () => ({ exec: () => Promise.resolve(savedResultsHistory()) }),
+    }),
+    findHistory: () => ({
+      exec: () => Promise.resolve(savedResultsHistory()),
+      $: {
+        subscribe: (listener: (docs: unknown[]) => void) => {
+          savedResultsListeners.add(listener);
+          listener(savedResultsHistory());
+          return { unsubscribe: () => savedResultsListeners.delete(listener) };
+        },
+      },
+    }),
+    findOne: (id: string) => ({
+      exec: () => {
+        const found = mockSavedResults.find(r => r.id === id);
+        return Promise.resolve(found ? makeSavedResultDoc(found) : null);
+      },
+    }),
+    insert: (data: Record<string, any>) => {
+      upsertSavedResult(data);
+      notifySavedResults();
+      return Promise.resolve(makeSavedResultDoc(data));
+    },
+    bulkUpsert: (docs: Array<Record<string, any>>) => {
+      docs.forEach(upsertSavedResult);
+      notifySavedResults();
+      return Promise.resolve({ success: docs.map(makeSavedResultDoc), error: [] });
+    },
+    count: () => ({ exec: () => Promise.resolve(mockSavedResults.length) }),
+  };
+
+  const makeApplicationDoc = (a: Record<string, any>) => ({
+    ...a,
+    toJSON: () => a,
+    toMutableJSON: () => structuredClone(a),
+    get: (k: string) => safeGet(a, k),
+    incrementalPatch: async (patch: Record<string, unknown>) => {
+      Object.assign(a, patch);
+      notifyApplications();
+    },
+    remove: async () => {
+      const idx = mockApplications.findIndex(x => x.programId === a.programId);
+      if (idx >= 0) mockApplications.splice(idx, 1);
+      notifyApplications();
+    },
+  });
+  const trackedApplications = () => [...mockApplications]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(makeApplicationDoc);
+  const notifyApplications = () => {
+    const docs = trackedApplications();
+    applicationsListeners.forEach(listener => listener(docs));
+  };
+  const upsertApplication = (data: Record<string, any>) => {
+    const idx = mockApplications.findIndex(x => x.programId === data.programId);
+    if (idx >= 0) mockApplications[idx] = structuredClone(data);
+    else mockApplications.push(structuredClone(data));
+    notifyApplications();
+    return makeApplicationDoc(mockApplications.find(x => x.programId === data.programId)!);
+  };
+
+  const applicationsCollection: any = {
+    find: () => ({ exec: () => Promise.resolve(trackedApplications()) }),
+    findTracked: () => ({
+      exec: () => Promise.resolve(trackedApplications()),
+      $: {
+        subscribe: (listener: (docs: unknown[]) => void) => {
+          applicationsListeners.add(listener);
+          listener(trackedApplications());
+          return { unsubscribe: () => applicationsListeners.delete(listener) };
+        },
+      },
+    }),
+    findOne: (programId: string) => ({
+      exec: () => {
+        const found = mockApplications.find(a => a.programId === programId);
+        return Promise.resolve(found ? makeApplicationDoc(found) : null);
+      },
+    }),
+    insert: (data: Record<string, any>) => Promise.resolve(upsertApplication(data)),
+    upsert: (data: Record<string, any>) => Promise.resolve(upsertApplication(data)),
+    count: () => ({ exec: () => Promise.resolve(mockApplications.length) }),
+  };
+
   const appSettingsCollection: any = {
     find: () => ({ exec: () => Promise.resolve([]), limit: () => ({ exec: () => Promise.resolve([]) }) }),
     findOne: () => ({ exec: () => Promise.resolve(null) }),
@@ -376,9 +502,11 @@ vi.mock('../db/database', () => {
     benefit_programs: benefitProgramsCollection,
     eligibility_rules: eligibilityRulesCollection,
     eligibility_results: eligibilityResultsCollection,
+    saved_results: savedResultsCollection,
+    applications: applicationsCollection,
     app_settings: appSettingsCollection,
     // expose internal stores for debugging in tests
-    __internal_store: { mockPrograms, mockRules, mockProfiles, mockResults },
+    __internal_store: { mockPrograms, mockRules, mockProfiles, mockResults, mockSavedResults, mockApplications },
   } as const;
 
   return {
@@ -388,6 +516,8 @@ vi.mock('../db/database', () => {
       mockRules.length = 0;
       mockProfiles.length = 0;
       mockResults.length = 0;
+      mockSavedResults.length = 0;
+      mockApplications.length = 0;
       // Seed canonical WIC program and rule
       mockPrograms.push({ ...seededWicProgram });
       mockRules.push({ ...seededWicRule });
@@ -405,6 +535,8 @@ vi.mock('../db/database', () => {
       mockRules.length = 0;
       mockProfiles.length = 0;
       mockResults.length = 0;
+      mockSavedResults.length = 0;
+      mockApplications.length = 0;
       return Promise.resolve();
     },
     destroyDatabase: () => {
@@ -412,6 +544,8 @@ vi.mock('../db/database', () => {
       mockRules.length = 0;
       mockProfiles.length = 0;
       mockResults.length = 0;
+      mockSavedResults.length = 0;
+      mockApplications.length = 0;
       return Promise.resolve();
     },
     exportDatabase: () => Promise.resolve({ version: '1.0.0', timestamp: Date.now(), collections: {} }),
@@ -56,13 +56,13 @@ export const exampleHouseholdProfile: HouseholdProfile = {
       id: 'member-001',
       relationship: 'self',
       age: 38,
-      income: 25000,
+      income: { wages: 2083 },
     },
     {
       id: 'member-002',
       relationship: 'spouse',
       age: 40,
-      income: 10000,
+      income: { wages: 833 },
     },
     {
       id: 'member-003',
@@ -5,7 +5,7 @@
  * All sensitive data in these types should be encrypted at rest.
  */
 
-import type { UserProfile as DbUserProfile } from '../db/schemas';
+import type { UserProfile as DbUserProfile, HouseholdMember } from '../db/schemas';
 
 /**
  * Citizenship Status
@@ -32,15 +32,17 @@ export type EmploymentStatus =
  * Household Member
  *
  * Information about an individual household member.
+ * Same shape as the `householdMembers` entries stored on the profile.
  */
-export interface HouseholdMember {
-  id: string;
-  relationship: 'self' | 'spouse' | 'child' | 'parent' | 'sibling' | 'other';
-  age: number;
-  hasDisability?: boolean;
-  isStudent?: boolean;
-  income?: number;
-}
+export type { HouseholdMember, HouseholdMemberIncome, HouseholdMemberRelationship } from '../db/schemas';
+
+/**
+ * Income Source
+ *
+ * One income source as entered: amount per period and pay frequency.
+ * Same shape as the `incomeSourceEntries` stored on the profile.
+ */
+export type { IncomeSourceEntry, IncomeSourceType, IncomeFrequency } from '../db/schemas';
 
 /**
  * Address
@@ -96,7 +98,8 @@ export interface HouseholdProfile extends Omit<DbUserProfile, 'citizenship' | 'e
 /**
  * Household Income Details
  *
- * Breakdown of household income sources.
+ * Monthly household income by source. Built from the income sources
+ * question by `summarizeIncomeSources` in `utils/incomeSources`.
  */
 export interface IncomeDetails {
   employment?: number;
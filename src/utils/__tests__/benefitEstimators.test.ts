@@ -0,0 +1,176 @@
+/**
+ * Tests for Benefit Amount Estimators
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateSNAPNetIncome,
+  estimateSNAPAllotment,
+  estimateSSIPayment,
+  estimateTANFPayment,
+  estimateSection8TenantRent,
+  getFiscalYearForDate,
+  getSNAPAllotmentTable,
+  getSNAPMaxAllotment,
+  getSNAPStandardDeduction,
+  getSSIBenefitRates,
+  getTANFPaymentStandard,
+} from '../benefitEstimators';
+import { DEFAULT_SNAP_UTILITY_ALLOWANCE, getSNAPUtilityAllowance } from '../snapUtilityAllowances';
+
+describe('benefitEstimators', () => {
+  describe('table selection', () => {
+    it('maps dates to federal fiscal years', () => {
+      expect(getFiscalYearForDate('2025-09-30')).toBe(2025);
+      expect(getFiscalYearForDate('2025-10-01')).toBe(2026);
+    });
+
+    it('selects the SNAP table for the fiscal year, clamping to available data', () => {
+      expect(getSNAPAllotmentTable('2025-06-01').fiscalYear).toBe(2025);
+      expect(getSNAPAllotmentTable('2025-11-01').fiscalYear).toBe(2026);
+      expect(getSNAPAllotmentTable('2020-01-01').fiscalYear).toBe(2025);
+      expect(getSNAPAllotmentTable('2040-01-01').fiscalYear).toBe(2026);
+    });
+
+    it('selects SSI rates by calendar year', () => {
+      expect(getSSIBenefitRates('2024-12-31').individual).toBe(943);
+      expect(getSSIBenefitRates('2025-01-01').couple).toBe(1450);
+    });
+  });
+
+  describe('SNAP', () => {
+    it('looks up max allotments and standard deductions by household size', () => {
+      expect(getSNAPMaxAllotment(4, '2025-06-01')).toBe(975);
+      expect(getSNAPMaxAllotment(10, '2025-06-01')).toBe(1756 + 2 * 220);
+      expect(getSNAPStandardDeduction(2, '2025-06-01')).toBe(204);
+      expect(getSNAPStandardDeduction(9, '2025-06-01')).toBe(291);
+    });
+
+    it('subtracts 30% of net income after deductions from the max allotment', () => {
+      const estimate = estimateSNAPAllotment({
+        householdSize: 3,
+        grossIncome: 2000,
+        earnedIncome: 2000,
+        shelterCosts: 1200,
+        asOf: '2025-06-01',
+      });
+
+      // 2000 − 400 earned − 204 standard = 1396; shelter 1200 − 698 = 502; net 894; 768 − ceil(268.2)
+      expect(estimate.amount).toBe(499);
+      expect(estimate.frequency).toBe('monthly');
+      expect(estimate.steps.map(step => step.amount)).toEqual([2000, -400, -204, -502, 894, 768, -269, 499]);
+    });
+
+    it('caps the shelter deduction unless the household has an elderly or disabled member', () => {
+      const input = { householdSize: 2, grossIncome: 1000, shelterCosts: 2000, asOf: '2025-06-01' };
+
+      const capped = estimateSNAPAllotment(input);
+      expect(capped.steps.find(step => step.key === 'excessShelterDeductionCapped')).toMatchObject({
+        amount: -712,
+        values: { cap: '$712' },
+      });
+
+      const uncapped = estimateSNAPAllotment({ ...input, hasElderlyOrDisabled: true });
+      expect(uncapped.steps.find(step => step.key === 'excessShelterDeduction')?.amount).toBe(-1602);
+      expect(uncapped.amount).toBe(536);
+    });
+
+    it('applies dependent care and the minimum benefit for small households', () => {
+      const withCare = estimateSNAPAllotment({ householdSize: 3, grossIncome: 1500, dependentCareCosts: 300, asOf: '2025-06-01' });
+      expect(withCare.steps).toContainEqual({ key: 'dependentCareDeduction', label: 'Dependent care deduction', amount: -300 });
+
+      const minimum = estimateSNAPAllotment({ householdSize: 1, grossIncome: 1600, asOf: '2025-11-01' });
+      expect(minimum.amount).toBe(24);
+
+      const large = estimateSNAPAllotment({ householdSize: 3, grossIncome: 4000, asOf: '2025-06-01' });
+      expect(large.amount).toBe(0);
+    });
+  });
+
+  describe('SNAP net income', () => {
+    it('applies each deduction before the excess shelter deduction', () => {
+      const result = calculateSNAPNetIncome({
+        householdSize: 3,
+        grossIncome: 2500,
+        earnedIncome: 2000,
+        shelterCosts: 900,
+        utilityAllowance: 417,
+        dependentCareCosts: 200,
+        childSupportPaid: 150,
+        medicalExpenses: 100,
+        asOf: '2025-06-01',
+      });
+
+      // 2500 − 400 earned − 204 standard − 200 care − 150 support = 1546; shelter 1317 − 773 = 544
+      expect(result.medicalDeduction).toBe(0);
+      expect(result.adjustedIncome).toBe(1546);
+      expect(result.totalShelterCosts).toBe(1317);
+      expect(result.excessShelterDeduction).toBe(544);
+      expect(result.netIncome).toBe(1002);
+      expect(result.totalDeductions).toBe(1498);
+      expect(result.steps).toContainEqual({ key: 'childSupportDeduction', label: 'Child support paid deduction', amount: -150 });
+    });
+
+    it('deducts medical costs above $35 only for elderly or disabled households', () => {
+      const input = { householdSize: 1, grossIncome: 1200, medicalExpenses: 100, asOf: '2025-06-01' };
+
+      expect(calculateSNAPNetIncome(input).netIncome).toBe(996);
+
+      const elderly = calculateSNAPNetIncome({ ...input, hasElderlyOrDisabled: true });
+      expect(elderly.medicalDeduction).toBe(65);
+      expect(elderly.netIncome).toBe(931);
+    });
+
+    it('reports when the shelter cap limits the deduction', () => {
+      const result = calculateSNAPNetIncome({ householdSize: 2, grossIncome: 1000, shelterCosts: 2000, asOf: '2025-06-01' });
+      expect(result.shelterDeductionCapped).toBe(true);
+      expect(result.excessShelterDeduction).toBe(712);
+    });
+
+    it('looks up the state standard utility allowance', () => {
+      expect(getSNAPUtilityAllowance('ga')).toBe(417);
+      expect(getSNAPUtilityAllowance('ZZ')).toBe(DEFAULT_SNAP_UTILITY_ALLOWANCE);
+      expect(getSNAPUtilityAllowance(undefined)).toBe(DEFAULT_SNAP_UTILITY_ALLOWANCE);
+    });
+  });
+
+  describe('SSI', () => {
+    it('subtracts countable unearned income after the general exclusion', () => {
+      expect(estimateSSIPayment({ unearnedIncome: 420, asOf: '2025-06-01' }).amount).toBe(567);
+      expect(estimateSSIPayment({ isCouple: true, asOf: '2025-06-01' }).amount).toBe(1450);
+    });
+
+    it('excludes $65 and half the remainder of earnings, using any unused general exclusion', () => {
+      // (485 − 20 − 65) / 2 = 200
+      expect(estimateSSIPayment({ earnedIncome: 485, asOf: '2025-06-01' }).amount).toBe(767);
+      // Unearned 10 uses $10 of the general exclusion; earned (295 − 10 − 65) / 2 = 110
+      expect(estimateSSIPayment({ earnedIncome: 295, unearnedIncome: 10, asOf: '2025-06-01' }).amount).toBe(857);
+    });
+  });
+
+  describe('TANF', () => {
+    it('scales the family-of-three payment standard by household size', () => {
+      expect(getTANFPaymentStandard('ga', 3)).toBe(280);
+      expect(getTANFPaymentStandard('CA', 4)).toBe(1434);
+      expect(getTANFPaymentStandard('ZZ', 3)).toBe(0);
+    });
+
+    it('reduces the payment standard by countable income', () => {
+      const estimate = estimateTANFPayment({ stateCode: 'CA', householdSize: 4, earnedIncome: 500, unearnedIncome: 100 });
+      expect(estimate.amount).toBe(1434 - 410 - 100);
+      expect(estimateTANFPayment({ stateCode: 'GA', householdSize: 3, unearnedIncome: 500 }).amount).toBe(0);
+    });
+  });
+
+  describe('Section 8', () => {
+    it('charges 30% of monthly adjusted income', () => {
+      const estimate = estimateSection8TenantRent({ grossIncome: 2000, dependents: 2 });
+      expect(estimate.amount).toBe(576);
+    });
+
+    it('applies the elderly/disabled deduction and the 10% of gross income minimum', () => {
+      expect(estimateSection8TenantRent({ grossIncome: 1000, isElderlyOrDisabledFamily: true }).amount).toBe(287);
+      expect(estimateSection8TenantRent({ grossIncome: 1000, dependents: 1, childCareCosts: 700 }).amount).toBe(100);
+    });
+  });
+});
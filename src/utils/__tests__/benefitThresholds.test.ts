@@ -26,22 +26,35 @@ import {
   MEDICAID_EXPANSION_FPL_PERCENT,
   WIC_FPL_PERCENT,
 } from '../benefitThresholds';
+import { getAvailableGuidelineYears } from '../povertyGuidelines';
 
 describe('benefitThresholds', () => {
   describe('Core FPL Calculations', () => {
     it('should calculate 100% FPL for standard household sizes', () => {
-      expect(calculateFPL(1)).toBe(1255);
-      expect(calculateFPL(2)).toBe(1702);
-      expect(calculateFPL(3)).toBe(2148);
-      expect(calculateFPL(4)).toBe(2594);
-      expect(calculateFPL(8)).toBe(4378);
+      expect(calculateFPL(1, { year: 2025 })).toBe(1304);
+      expect(calculateFPL(2, { year: 2025 })).toBe(1763);
+      expect(calculateFPL(3, { year: 2025 })).toBe(2221);
+      expect(calculateFPL(4, { year: 2025 })).toBe(2679);
+      expect(calculateFPL(8, { year: 2025 })).toBe(4513);
     });
 
     it('should calculate 100% FPL for households larger than 8', () => {
-      // 8-person base (4378) + 2 additional people (446 each) = 5270
-      expect(calculateFPL(10)).toBe(5270);
-      // 8-person base + 5 additional people = 6608
-      expect(calculateFPL(13)).toBe(6608);
+      // ($54,150 + 2 × $5,500) / 12 = 5429
+      expect(calculateFPL(10, { year: 2025 })).toBe(5429);
+      // ($54,150 + 5 × $5,500) / 12 = 6804
+      expect(calculateFPL(13, { year: 2025 })).toBe(6804);
+    });
+
+    it('should use the requested guideline year and region', () => {
+      expect(calculateFPL(1, { year: 2024 })).toBe(1255);
+      expect(calculateFPL(3, { year: 2024 })).toBe(2152);
+      expect(calculateFPL(1, { asOf: '2024-06-01' })).toBe(1255);
+      expect(calculateFPL(3, { year: 2025, region: 'alaska' })).toBe(2776);
+      expect(calculateFPL(3, { year: 2025, region: 'hawaii' })).toBe(2554);
+    });
+
+    it('should default to the latest guideline year', () => {
+      expect(calculateFPL(3)).toBe(calculateFPL(3, { year: FPL_YEAR }));
     });
 
     it('should throw error for invalid household size', () => {
@@ -50,25 +63,24 @@ describe('benefitThresholds', () => {
     });
 
     it('should calculate FPL at different percentages', () => {
-      // 130% of FPL for 1 person: 1255 * 1.30 = 1632 (rounded to 1696 in actual guidelines)
-      const fpl130 = calculateFPLPercentage(1, 130);
-      expect(fpl130).toBeGreaterThan(1600);
-      expect(fpl130).toBeLessThan(1700);
+      // 130% of FPL for 1 person: 1304 * 1.30 = 1695
+      const fpl130 = calculateFPLPercentage(1, 130, { year: 2025 });
+      expect(fpl130).toBe(1695);
 
-      // 200% of FPL for 2 people: 1702 * 2 = 3404
-      const fpl200 = calculateFPLPercentage(2, 200);
-      expect(fpl200).toBe(3404);
+      // 200% of FPL for 2 people: 1763 * 2 = 3526
+      const fpl200 = calculateFPLPercentage(2, 200, { year: 2025 });
+      expect(fpl200).toBe(3526);
     });
 
     it('should check if income is at or below FPL threshold', () => {
-      // 1600 is below 130% FPL for 1 person (~1632)
-      expect(isIncomeAtOrBelowFPL(1600, 1, 130)).toBe(true);
+      // 1600 is below 130% FPL for 1 person (1695)
+      expect(isIncomeAtOrBelowFPL(1600, 1, 130, { year: 2025 })).toBe(true);
 
       // 3000 is above 130% FPL for 1 person
-      expect(isIncomeAtOrBelowFPL(3000, 1, 130)).toBe(false);
+      expect(isIncomeAtOrBelowFPL(3000, 1, 130, { year: 2025 })).toBe(false);
 
-      // 2500 is below 200% FPL for 2 people (3404)
-      expect(isIncomeAtOrBelowFPL(2500, 2, 200)).toBe(true);
+      // 2500 is below 200% FPL for 2 people (3526)
+      expect(isIncomeAtOrBelowFPL(2500, 2, 200, { year: 2025 })).toBe(true);
     });
   });
 
@@ -78,47 +90,48 @@ describe('benefitThresholds', () => {
     });
 
     it('should calculate SNAP gross income limits (130% FPL)', () => {
-      expect(getSNAPGrossIncomeLimit(1)).toBe(1696);
-      expect(getSNAPGrossIncomeLimit(2)).toBe(2292);
-      expect(getSNAPGrossIncomeLimit(3)).toBe(2888);
-      expect(getSNAPGrossIncomeLimit(4)).toBe(3483);
-      expect(getSNAPGrossIncomeLimit(8)).toBe(5867);
+      expect(getSNAPGrossIncomeLimit(1, { year: 2025 })).toBe(1696);
+      expect(getSNAPGrossIncomeLimit(2, { year: 2025 })).toBe(2292);
+      expect(getSNAPGrossIncomeLimit(3, { year: 2025 })).toBe(2888);
+      expect(getSNAPGrossIncomeLimit(4, { year: 2025 })).toBe(3483);
+      expect(getSNAPGrossIncomeLimit(8, { year: 2025 })).toBe(5867);
+    });
+
+    it('should calculate SNAP gross income limits for an earlier guideline year', () => {
+      expect(getSNAPGrossIncomeLimit(1, { year: 2024 })).toBe(1632);
+      expect(getSNAPGrossIncomeLimit(4, { year: 2024 })).toBe(3380);
     });
 
     it('should calculate SNAP limits for large households', () => {
       // 8-person limit (5867) + 2 additional (596 each) = 7059
-      expect(getSNAPGrossIncomeLimit(10)).toBe(7059);
+      expect(getSNAPGrossIncomeLimit(10, { year: 2025 })).toBe(7059);
     });
 
     it('should calculate SNAP net income limits (100% FPL)', () => {
-      expect(getSNAPNetIncomeLimit(1)).toBe(1255);
-      expect(getSNAPNetIncomeLimit(3)).toBe(2148);
+      expect(getSNAPNetIncomeLimit(1, { year: 2025 })).toBe(1305);
+      expect(getSNAPNetIncomeLimit(3, { year: 2025 })).toBe(2221);
     });
 
     it('should calculate SNAP BBCE limits (200% FPL)', () => {
-      const bbce1 = getSNAPBBCELimit(1);
-      const bbce3 = getSNAPBBCELimit(3);
-
-      // Should be approximately double the base FPL
-      expect(bbce1).toBeGreaterThan(2400);
-      expect(bbce1).toBeLessThan(2600);
-      expect(bbce3).toBeGreaterThan(4200);
-      expect(bbce3).toBeLessThan(4400);
+      expect(getSNAPBBCELimit(1, { year: 2025 })).toBe(2609);
+      expect(getSNAPBBCELimit(3, { year: 2025 })).toBe(4442);
     });
 
     it('should check SNAP income eligibility', () => {
+      const options = { year: 2025 };
+
       // Income below threshold
-      expect(isSNAPIncomeEligible(1200, 1)).toBe(true);
+      expect(isSNAPIncomeEligible(1200, 1, options)).toBe(true);
 
       // Income at threshold
-      expect(isSNAPIncomeEligible(1696, 1)).toBe(true);
+      expect(isSNAPIncomeEligible(1696, 1, options)).toBe(true);
 
       // Income above threshold
-      expect(isSNAPIncomeEligible(1700, 1)).toBe(false);
+      expect(isSNAPIncomeEligible(1700, 1, options)).toBe(false);
 
       // Family of 3 at boundary
-      expect(isSNAPIncomeEligible(2888, 3)).toBe(true);
-      expect(isSNAPIncomeEligible(2889, 3)).toBe(false);
+      expect(isSNAPIncomeEligible(2888, 3, options)).toBe(true);
+      expect(isSNAPIncomeEligible(2889, 3, options)).toBe(false);
     });
   });
 
@@ -162,14 +175,9 @@ describe('benefitThresholds', () => {
     });
 
     it('should calculate WIC income limits (185% FPL)', () => {
-      const wic1 = getWICIncomeLimit(1);
-      const wic3 = getWICIncomeLimit(3);
-
-      // Should be 185% of base FPL
-      expect(wic1).toBeGreaterThan(2300);
-      expect(wic1).toBeLessThan(2400);
-      expect(wic3).toBeGreaterThan(3900);
-      expect(wic3).toBeLessThan(4100);
+      // 185% of base FPL: 1304 * 1.85 = 2412, 2221 * 1.85 = 4109
+      expect(getWICIncomeLimit(1, { year: 2025 })).toBe(2412);
+      expect(getWICIncomeLimit(3, { year: 2025 })).toBe(4109);
     });
 
     it('should check WIC income eligibility', () => {
@@ -211,7 +219,7 @@ describe('benefitThresholds', () => {
 
   describe('Data Validation', () => {
     it('should have current year constant', () => {
-      expect(FPL_YEAR).toBe(2024);
+      expect(FPL_YEAR).toBe(Math.max(...getAvailableGuidelineYears()));
       expect(typeof FPL_YEAR).toBe('number');
     });
 
@@ -0,0 +1,91 @@
+/**
+ * Tests for Countable Resources
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeHouseholdAssets,
+  getTotalAssets,
+  getCountableResources,
+  getResourceLimit,
+  evaluateResourceTest,
+} from '../countableResources';
+import type { HouseholdAssets } from '../../db/schemas';
+
+const assets: HouseholdAssets = {
+  cash: 300,
+  bankAccounts: 1200,
+  primaryVehicle: 8000,
+  otherVehicles: 2500,
+  realProperty: 0,
+  retirementAccounts: 5000,
+};
+
+describe('Countable Resources', () => {
+  describe('normalizeHouseholdAssets', () => {
+    it('parses amounts and drops blank, negative or unknown values', () => {
+      expect(normalizeHouseholdAssets({
+        cash: '1,250',
+        bankAccounts: '',
+        primaryVehicle: -50,
+        retirementAccounts: 'abc',
+        jewelry: 400,
+      })).toEqual({ cash: 1250 });
+    });
+
+    it('returns undefined for non-object input', () => {
+      expect(normalizeHouseholdAssets(undefined)).toBeUndefined();
+      expect(normalizeHouseholdAssets(2000)).toBeUndefined();
+      expect(normalizeHouseholdAssets([])).toBeUndefined();
+    });
+  });
+
+  describe('getCountableResources', () => {
+    it('applies each program\'s exclusions', () => {
+      expect(getTotalAssets(assets)).toBe(17000);
+      expect(getCountableResources('ssi', assets)).toBe(9000);
+      expect(getCountableResources('snap', assets)).toBe(4000);
+      expect(getCountableResources('tanf', assets)).toBe(4000);
+      expect(getCountableResources('medicaid', assets)).toBe(9000);
+    });
+
+    it('treats missing categories as zero', () => {
+      expect(getCountableResources('ssi', {})).toBe(0);
+    });
+  });
+
+  describe('evaluateResourceTest', () => {
+    it('uses the couple limit for SSI when requested', () => {
+      expect(getResourceLimit('ssi')).toBe(2000);
+      expect(getResourceLimit('ssi', true)).toBe(3000);
+      expect(evaluateResourceTest('ssi', { bankAccounts: 2500 }).passes).toBe(false);
+      expect(evaluateResourceTest('ssi', { bankAccounts: 2500 }, true).passes).toBe(true);
+    });
+
+    it('uses the state\'s TANF limit and skips the test where there is none', () => {
+      expect(getResourceLimit('tanf', false, 'ma')).toBe(5000);
+      expect(getResourceLimit('tanf', false, 'OH')).toBeNull();
+      expect(getResourceLimit('tanf')).toBeNull();
+      expect(evaluateResourceTest('tanf', { bankAccounts: 3500 }, false, 'MA').passes).toBe(true);
+      expect(evaluateResourceTest('tanf', { bankAccounts: 3500 }, false, 'GA').passes).toBe(false);
+      expect(evaluateResourceTest('tanf', { bankAccounts: 50000 }, false, 'OH')).toMatchObject({ limit: null, passes: true });
+    });
+
+    it('uses the SSI limits for non-MAGI Medicaid unless the state sets its own', () => {
+      expect(getResourceLimit('medicaid', false, 'GA')).toBe(2000);
+      expect(getResourceLimit('medicaid', true)).toBe(3000);
+      expect(getResourceLimit('medicaid', false, 'NY')).toBe(32396);
+      expect(evaluateResourceTest('medicaid', { bankAccounts: 2400 }, false, 'CT').passes).toBe(false);
+    });
+
+    it('passes at the limit and reports excluded amounts', () => {
+      expect(evaluateResourceTest('snap', { bankAccounts: 3000, retirementAccounts: 40000 })).toEqual({
+        program: 'snap',
+        countable: 3000,
+        excluded: 40000,
+        limit: 3000,
+        passes: true,
+      });
+    });
+  });
+});
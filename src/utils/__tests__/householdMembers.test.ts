@@ -0,0 +1,161 @@
+/**
+ * Tests for Household Member Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import jsonLogic, { type RulesLogic } from 'json-logic-js';
+import {
+  normalizeHouseholdMembers,
+  getMemberAge,
+  sumMemberIncome,
+  buildMemberContext,
+  deriveHouseholdFields,
+  buildHouseholdMemberDataContext,
+  EARNED_INCOME_SOURCES,
+} from '../householdMembers';
+import type { HouseholdMember } from '../../db/schemas';
+
+const AS_OF = new Date(2025, 5, 1);
+
+const family: HouseholdMember[] = [
+  {
+    id: 'member-1',
+    relationship: 'self',
+    dateOfBirth: '1985-03-15',
+    citizenship: 'us_citizen',
+    hasDisability: false,
+    income: { wages: 2000, childSupport: 300 },
+  },
+  {
+    id: 'member-2',
+    relationship: 'spouse',
+    age: 38,
+    isPregnant: true,
+    income: { selfEmployment: 500 },
+  },
+  { id: 'member-3', relationship: 'child', age: 4 },
+  { id: 'member-4', relationship: 'grandparent', age: 72, hasDisability: true, income: { socialSecurity: 1100 } },
+];
+
+describe('householdMembers', () => {
+  describe('normalizeHouseholdMembers', () => {
+    it('returns an empty list for non-array input', () => {
+      expect(normalizeHouseholdMembers(undefined)).toEqual([]);
+      expect(normalizeHouseholdMembers('2')).toEqual([]);
+    });
+
+    it('coerces string values and assigns missing ids', () => {
+      const members = normalizeHouseholdMembers([
+        { relationship: 'self', age: '40', isPregnant: 'true', income: { wages: '1,200', pension: '' } },
+        null,
+        { relationship: 'cousin', hasDisability: 'false' },
+      ]);
+
+      expect(members).toEqual([
+        { id: 'member-1', relationship: 'self', age: 40, isPregnant: true, income: { wages: 1200 } },
+        { id: 'member-3', relationship: 'other', hasDisability: false },
+      ]);
+    });
+
+    it('drops negative and non-numeric income amounts', () => {
+      const [member] = normalizeHouseholdMembers([
+        { id: 'a', relationship: 'self', income: { wages: -5, ssi: 'abc' } },
+      ]);
+      expect(member.income).toBeUndefined();
+    });
+  });
+
+  describe('per-member helpers', () => {
+    it('prefers date of birth over stored age', () => {
+      expect(getMemberAge({ id: 'x', relationship: 'self', dateOfBirth: '2000-06-02', age: 99 }, AS_OF)).toBe(24);
+      expect(getMemberAge({ id: 'x', relationship: 'self', age: 30 }, AS_OF)).toBe(30);
+      expect(getMemberAge({ id: 'x', relationship: 'self' }, AS_OF)).toBeUndefined();
+    });
+
+    it('sums income by source', () => {
+      expect(sumMemberIncome(family[0])).toBe(2300);
+      expect(sumMemberIncome(family[0], EARNED_INCOME_SOURCES)).toBe(2000);
+      expect(sumMemberIncome(family[2])).toBe(0);
+    });
+
+    it('builds a fully populated member context', () => {
+      const context = buildMemberContext(family[3], AS_OF);
+      expect(context).toMatchObject({
+        age: 72,
+        isChild: false,
+        isElderly: true,
+        hasDisability: true,
+        isPregnant: false,
+        citizenship: null,
+        isCitizen: false,
+        earnedIncome: 0,
+        unearnedIncome: 1100,
+        totalIncome: 1100,
+      });
+      expect(context.income.wages).toBe(0);
+    });
+  });
+
+  describe('deriveHouseholdFields', () => {
+    it('derives household size, income and flags from members', () => {
+      const derived = deriveHouseholdFields(family, AS_OF);
+
+      expect(derived).toMatchObject({
+        householdSize: 4,
+        monthlyIncome: 3900,
+        earnedIncome: 2500,
+        unearnedIncome: 1400,
+        isMarried: true,
+        isPregnant: true,
+        hasChildren: true,
+        childCount: 1,
+        elderlyCount: 1,
+        disabledMemberCount: 1,
+        pregnantMemberCount: 1,
+      });
+    });
+
+    it('takes applicant fields from the self member', () => {
+      const derived = deriveHouseholdFields(family, AS_OF);
+
+      expect(derived.dateOfBirth).toBe('1985-03-15');
+      expect(derived.age).toBe(40);
+      expect(derived.isElderly).toBe(false);
+      expect(derived.citizenship).toBe('us_citizen');
+      expect(derived.hasDisability).toBe(false);
+      expect(derived.isBlind).toBeUndefined();
+    });
+
+    it('omits income when no member reports any', () => {
+      const derived = deriveHouseholdFields([{ id: 'a', relationship: 'self' }], AS_OF);
+      expect(derived.monthlyIncome).toBeUndefined();
+      expect(derived.hasChildren).toBe(false);
+    });
+  });
+
+  describe('buildHouseholdMemberDataContext', () => {
+    it('exposes monthly household income and the member array', () => {
+      const context = buildHouseholdMemberDataContext(family, AS_OF);
+
+      expect(context.householdIncome).toBe(3900);
+      expect(context.householdSize).toBe(4);
+      expect(context).not.toHaveProperty('monthlyIncome');
+      expect(context).not.toHaveProperty('isBlind');
+      expect(Array.isArray(context.householdMembers)).toBe(true);
+    });
+
+    it('supports per-person JSON Logic rules', () => {
+      const context = buildHouseholdMemberDataContext(family, AS_OF);
+
+      const hasYoungChild: RulesLogic = {
+        some: [{ var: 'householdMembers' }, { '<': [{ var: 'age' }, 5] }],
+      };
+      const allCitizens: RulesLogic = {
+        all: [{ var: 'householdMembers' }, { var: 'isCitizen' }],
+      };
+
+      expect(jsonLogic.apply(hasYoungChild, context)).toBe(true);
+      expect(jsonLogic.apply(allCitizens, context)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * iCalendar Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createIcsCalendar, escapeIcsText, foldIcsLine } from '../icsCalendar';
+
+/** Undo line folding so each content line can be checked whole */
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+describe('escapeIcsText', () => {
+  it('escapes the characters TEXT values reserve', () => {
+    expect(escapeIcsText('ID, pay stubs; lease\\notes\nline two')).toBe('ID\\, pay stubs\\; lease\\\\notes\\nline two');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('keeps every line within 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'Renovación pendiente — '.repeat(8)}`;
+    const folded = foldIcsLine(line);
+    const encoder = new TextEncoder();
+
+    for (const part of folded.split('\r\n')) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.split('\r\n').slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('VERSION:2.0')).toBe('VERSION:2.0');
+  });
+});
+
+describe('createIcsCalendar', () => {
+  const createdAt = new Date('2025-03-01T15:04:05.000Z');
+
+  it('writes all-day events with display alarms', () => {
+    const ics = createIcsCalendar([{
+      uid: 'snap-federal-deadline@benefit-finder',
+      date: new Date(2025, 5, 30, 14, 30),
+      summary: 'Apply for SNAP',
+      description: 'Bring ID, pay stubs',
+      url: 'https://www.fns.usda.gov/snap',
+      alarms: [
+        { minutesBefore: 7 * 24 * 60, description: 'SNAP application due in a week' },
+        { minutesBefore: 15 * 60, description: 'SNAP application due tomorrow' },
+      ],
+    }], { name: 'Benefit applications', createdAt });
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(unfold(ics)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Benefit Finder//Applications//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Benefit applications',
+      'BEGIN:VEVENT',
+      'UID:snap-federal-deadline@benefit-finder',
+      'DTSTAMP:20250301T150405Z',
+      'DTSTART;VALUE=DATE:20250630',
+      'DTEND;VALUE=DATE:20250701',
+      'SUMMARY:Apply for SNAP',
+      'DESCRIPTION:Bring ID\\, pay stubs',
+      'URL:https://www.fns.usda.gov/snap',
+      'TRANSP:TRANSPARENT',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:SNAP application due in a week',
+      'TRIGGER:-P7D',
+      'END:VALARM',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:SNAP application due tomorrow',
+      'TRIGGER:-PT15H',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]);
+  });
+
+  it('ends events on the following day across month and year ends', () => {
+    const ics = createIcsCalendar([{ uid: 'a', date: new Date(2025, 11, 31), summary: 'Renew Medicaid' }], { createdAt });
+
+    expect(unfold(ics)).toContain('DTEND;VALUE=DATE:20260101');
+  });
+
+  it('writes an empty calendar when there are no events', () => {
+    expect(unfold(createIcsCalendar([], { createdAt }))).not.toContain('BEGIN:VEVENT');
+  });
+});
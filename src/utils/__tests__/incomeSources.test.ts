@@ -0,0 +1,71 @@
+/**
+ * Tests for Income Sources
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeIncomeSources,
+  toMonthlyAmount,
+  summarizeIncomeSources,
+} from '../incomeSources';
+import type { IncomeSourceEntry } from '../../db/schemas';
+
+describe('Income Sources', () => {
+  describe('toMonthlyAmount', () => {
+    it('converts each pay frequency to a monthly amount', () => {
+      expect(toMonthlyAmount(500, 'weekly')).toBe(2166.67);
+      expect(toMonthlyAmount(1000, 'biweekly')).toBe(2166.67);
+      expect(toMonthlyAmount(1000, 'semimonthly')).toBe(2000);
+      expect(toMonthlyAmount(1500, 'monthly')).toBe(1500);
+      expect(toMonthlyAmount(36000, 'annual')).toBe(3000);
+    });
+
+    it('multiplies hourly pay by hours per week over 52 weeks', () => {
+      expect(toMonthlyAmount(15, 'hourly', 30)).toBe(1950);
+      expect(toMonthlyAmount(15, 'hourly')).toBe(0);
+    });
+  });
+
+  describe('normalizeIncomeSources', () => {
+    it('parses amounts and drops incomplete or unknown entries', () => {
+      expect(normalizeIncomeSources([
+        { id: 'job', source: 'employment', amount: '1,200', frequency: 'biweekly' },
+        { source: 'pension', amount: 400, frequency: 'monthly' },
+        { id: 'x', source: 'lottery', amount: 50, frequency: 'monthly' },
+        { id: 'y', source: 'other', amount: -5, frequency: 'monthly' },
+        { id: 'z', source: 'employment', amount: 20, frequency: 'hourly' },
+        { id: 'w', source: 'employment', amount: 20, frequency: 'hourly', hoursPerWeek: 25 },
+      ])).toEqual([
+        { id: 'job', source: 'employment', amount: 1200, frequency: 'biweekly' },
+        { id: 'income-2', source: 'pension', amount: 400, frequency: 'monthly' },
+        { id: 'w', source: 'employment', amount: 20, frequency: 'hourly', hoursPerWeek: 25 },
+      ]);
+    });
+
+    it('returns an empty list for non-array input', () => {
+      expect(normalizeIncomeSources(undefined)).toEqual([]);
+      expect(normalizeIncomeSources({ source: 'employment' })).toEqual([]);
+    });
+  });
+
+  describe('summarizeIncomeSources', () => {
+    it('totals monthly income by source and splits earned from unearned', () => {
+      const entries: IncomeSourceEntry[] = [
+        { id: 'a', source: 'employment', amount: 1000, frequency: 'biweekly' },
+        { id: 'b', source: 'employment', amount: 15, frequency: 'hourly', hoursPerWeek: 10 },
+        { id: 'c', source: 'childSupport', amount: 300, frequency: 'monthly' },
+        { id: 'd', source: 'socialSecurity', amount: 12000, frequency: 'annual' },
+      ];
+
+      expect(summarizeIncomeSources(entries)).toEqual({
+        details: { employment: 2816.67, childSupport: 300, socialSecurity: 1000, total: 4116.67 },
+        earnedIncome: 2816.67,
+        unearnedIncome: 1300,
+      });
+    });
+
+    it('returns zero totals for no sources', () => {
+      expect(summarizeIncomeSources([])).toEqual({ details: { total: 0 }, earnedIncome: 0, unearnedIncome: 0 });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for Poverty Guideline Tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAnnualPovertyGuideline,
+  getMonthlyFPLLimit,
+  getGuidelineYearForDate,
+  getPovertyGuidelineTable,
+  getAvailableGuidelineYears,
+  getGuidelineRegionForState,
+  LATEST_GUIDELINE_YEAR,
+  POVERTY_GUIDELINE_TABLES,
+} from '../povertyGuidelines';
+
+describe('povertyGuidelines', () => {
+  describe('table data', () => {
+    it('loads tables sorted by year with all regions and sizes', () => {
+      const years = getAvailableGuidelineYears();
+      expect(years).toEqual([...years].sort((a, b) => a - b));
+      expect(years).toContain(2024);
+      expect(years).toContain(2025);
+
+      for (const table of POVERTY_GUIDELINE_TABLES) {
+        for (const region of ['contiguous', 'alaska', 'hawaii'] as const) {
+          const guidelines = table.regions[region];
+          for (let size = 1; size <= 8; size++) {
+            expect(guidelines.annual[size]).toBeGreaterThan(0);
+          }
+          expect(guidelines.perAdditionalPerson).toBeGreaterThan(0);
+        }
+      }
+    });
+
+    it('exposes the latest year', () => {
+      expect(LATEST_GUIDELINE_YEAR).toBe(Math.max(...getAvailableGuidelineYears()));
+    });
+  });
+
+  describe('table selection', () => {
+    it('selects the table in effect on a date', () => {
+      expect(getGuidelineYearForDate('2024-06-01')).toBe(2024);
+      expect(getGuidelineYearForDate(new Date(2025, 0, 1))).toBe(2024);
+      expect(getGuidelineYearForDate(Date.parse('2025-03-01'))).toBe(2025);
+    });
+
+    it('clamps dates outside the available data', () => {
+      expect(getGuidelineYearForDate('2000-01-01')).toBe(2024);
+      expect(getGuidelineYearForDate('2100-01-01')).toBe(LATEST_GUIDELINE_YEAR);
+      expect(getGuidelineYearForDate('not a date')).toBe(LATEST_GUIDELINE_YEAR);
+    });
+
+    it('falls back to the closest earlier year', () => {
+      expect(getPovertyGuidelineTable(2023).year).toBe(2024);
+      expect(getPovertyGuidelineTable(2100).year).toBe(LATEST_GUIDELINE_YEAR);
+    });
+
+    it('maps states to guideline regions', () => {
+      expect(getGuidelineRegionForState('AK')).toBe('alaska');
+      expect(getGuidelineRegionForState('hi')).toBe('hawaii');
+      expect(getGuidelineRegionForState('GA')).toBe('contiguous');
+      expect(getGuidelineRegionForState(undefined)).toBe('contiguous');
+    });
+  });
+
+  describe('calculations', () => {
+    it('returns published annual guidelines', () => {
+      expect(getAnnualPovertyGuideline(1, { year: 2024 })).toBe(15060);
+      expect(getAnnualPovertyGuideline(4, { year: 2025 })).toBe(32150);
+      expect(getAnnualPovertyGuideline(2, { year: 2025, region: 'alaska' })).toBe(26430);
+      expect(getAnnualPovertyGuideline(10, { year: 2025 })).toBe(54150 + 2 * 5500);
+    });
+
+    it('computes monthly limits with USDA rounding', () => {
+      expect(getMonthlyFPLLimit(1, 130, { year: 2025 })).toBe(1696);
+      expect(getMonthlyFPLLimit(3, 130, { year: 2025 })).toBe(2888);
+      expect(getMonthlyFPLLimit(10, 130, { year: 2025 })).toBe(5867 + 2 * 596);
+      expect(getMonthlyFPLLimit(1, 100, { year: 2025 })).toBe(1305);
+    });
+
+    it('does not round up exact monthly amounts', () => {
+      // $31,200 / 12 = $2,600 exactly
+      expect(getMonthlyFPLLimit(4, 100, { year: 2024 })).toBe(2600);
+    });
+
+    it('selects the year from an as-of date', () => {
+      expect(getMonthlyFPLLimit(1, 130, { asOf: '2024-10-01' })).toBe(1632);
+    });
+
+    it('rejects invalid household sizes', () => {
+      expect(() => getAnnualPovertyGuideline(0)).toThrow('Household size must be at least 1');
+      expect(() => getMonthlyFPLLimit(-1, 130)).toThrow('Household size must be at least 1');
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * QR Code Encoder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode, qrCodeToSvgPath, reedSolomonRemainder } from '../qrCode';
+import type { QrErrorCorrection } from '../qrCode';
+import { parseTransferFrame, splitTransferCode } from '../../components/results/transferUtils';
+
+/** Read the 15 format bits next to the top-left finder */
+function readFormatBits(modules: boolean[][]): number {
+  const positions: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+    [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  return positions.reduce((bits, [x, y], index) => bits | (Number(modules[y][x]) << index), 0);
+}
+
+function hasFinderAt(modules: boolean[][], left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (modules[top + dy][left + dx] !== (ring !== 2)) {return false;}
+    }
+  }
+  return true;
+}
+
+// ============================================================================
+// DECODER
+// ============================================================================
+
+/** ISO/IEC 18004 Table 9: ECC codewords per block and [block count, data codewords] groups */
+const BLOCK_STRUCTURE: Record<number, Record<QrErrorCorrection, { ecc: number; groups: Array<[number, number]> }>> = {
+  1: { L: { ecc: 7, groups: [[1, 19]] }, M: { ecc: 10, groups: [[1, 16]] } },
+  2: { L: { ecc: 10, groups: [[1, 34]] }, M: { ecc: 16, groups: [[1, 28]] } },
+  5: { L: { ecc: 26, groups: [[1, 108]] }, M: { ecc: 24, groups: [[2, 43]] } },
+  7: { L: { ecc: 20, groups: [[2, 78]] }, M: { ecc: 18, groups: [[4, 31]] } },
+  10: { L: { ecc: 18, groups: [[2, 68], [2, 69]] }, M: { ecc: 26, groups: [[4, 43], [1, 44]] } },
+  14: { L: { ecc: 30, groups: [[3, 115], [1, 116]] }, M: { ecc: 24, groups: [[4, 40], [5, 41]] } },
+  15: { L: { ecc: 22, groups: [[5, 87], [1, 88]] }, M: { ecc: 24, groups: [[5, 41], [5, 42]] } },
+  16: { L: { ecc: 24, groups: [[5, 98], [1, 99]] }, M: { ecc: 28, groups: [[7, 45], [3, 46]] } },
+};
+
+/** ISO/IEC 18004 Annex E: alignment pattern centre coordinates */
+const ALIGNMENT_CENTERS: Record<number, number[]> = {
+  1: [],
+  2: [6, 18],
+  5: [6, 30],
+  7: [6, 22, 38],
+  10: [6, 28, 50],
+  14: [6, 26, 46, 66],
+  15: [6, 26, 48, 70],
+  16: [6, 26, 50, 74],
+};
+
+/** ISO/IEC 18004 Table 10, with i the row and j the column */
+const DATA_MASKS: Array<(i: number, j: number) => boolean> = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_i, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+function isFunctionModule(version: number, x: number, y: number): boolean {
+  const size = 17 + 4 * version;
+  // Finders with their separators and format information, plus the dark module
+  if (x <= 8 && y <= 8) {return true;}
+  if (x >= size - 8 && y <= 8) {return true;}
+  if (x <= 8 && y >= size - 8) {return true;}
+  // Timing patterns
+  if (x === 6 || y === 6) {return true;}
+  // Version information
+  if (version >= 7 && ((x >= size - 11 && x <= size - 9 && y <= 5) || (y >= size - 11 && y <= size - 9 && x <= 5))) {
+    return true;
+  }
+
+  const centers = ALIGNMENT_CENTERS[version];
+  const last = centers.length - 1;
+  return centers.some((cy, row) => centers.some((cx, column) => {
+    const overlapsFinder = (row === 0 && column === 0) || (row === 0 && column === last) || (row === last && column === 0);
+    return !overlapsFinder && Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2;
+  }));
+}
+
+/**
+ * Decode a byte-mode symbol independently of the encoder, checking the
+ * format and version information and every block's error correction
+ */
+function decodeQrCode(modules: boolean[][]): { text: string; version: number; errorCorrection: QrErrorCorrection } {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const dark = (x: number, y: number): boolean => modules[y][x];
+
+  let formatCopy = 0;
+  for (let i = 0; i < 8; i++) {formatCopy |= Number(dark(size - 1 - i, 8)) << i;}
+  for (let i = 8; i < 15; i++) {formatCopy |= Number(dark(8, size - 15 + i)) << i;}
+  const formatBits = readFormatBits(modules);
+  if (formatCopy !== formatBits) {throw new Error('Format information copies differ');}
+
+  const format = formatBits ^ 0x5412;
+  let remainder = format;
+  for (let bit = 14; bit >= 10; bit--) {
+    if ((remainder >>> bit) & 1) {remainder ^= 0x537 << (bit - 10);}
+  }
+  if (remainder !== 0) {throw new Error('Invalid format information');}
+
+  const levelBits = format >>> 13;
+  if (levelBits > 1) {throw new Error('Unexpected error correction level');}
+  const errorCorrection: QrErrorCorrection = levelBits === 1 ? 'L' : 'M';
+  const mask = DATA_MASKS[(format >>> 10) & 7];
+
+  if (version >= 7) {
+    let topRight = 0;
+    let bottomLeft = 0;
+    for (let i = 0; i < 18; i++) {
+      topRight |= Number(dark(size - 11 + (i % 3), Math.floor(i / 3))) << i;
+      bottomLeft |= Number(dark(Math.floor(i / 3), size - 11 + (i % 3))) << i;
+    }
+    if (topRight !== bottomLeft || topRight >>> 12 !== version) {throw new Error('Invalid version information');}
+  }
+
+  // Read column pairs right to left, alternating upward and downward
+  const bits: number[] = [];
+  let upward = true;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {right = 5;}
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (const x of [right, right - 1]) {
+        if (!isFunctionModule(version, x, y)) {bits.push(Number(dark(x, y) !== mask(y, x)));}
+      }
+    }
+    upward = !upward;
+  }
+  const codewords = Array.from({ length: Math.floor(bits.length / 8) }, (_, index) => (
+    bits.slice(index * 8, index * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0)
+  ));
+
+  const { ecc, groups } = BLOCK_STRUCTURE[version][errorCorrection];
+  const blockLengths = groups.flatMap(([count, length]) => Array<number>(count).fill(length));
+  const total = blockLengths.reduce((sum, length) => sum + length + ecc, 0);
+  if (codewords.length !== total) {throw new Error(`Expected ${total} codewords, read ${codewords.length}`);}
+
+  let next = 0;
+  const dataBlocks = blockLengths.map((): number[] => []);
+  for (let i = 0; i < Math.max(...blockLengths); i++) {
+    blockLengths.forEach((length, block) => {
+      if (i < length) {dataBlocks[block].push(codewords[next++]);}
+    });
+  }
+  const eccBlocks = blockLengths.map((): number[] => []);
+  for (let i = 0; i < ecc; i++) {
+    eccBlocks.forEach((block) => block.push(codewords[next++]));
+  }
+  dataBlocks.forEach((block, index) => {
+    if (reedSolomonRemainder(block, ecc).join() !== eccBlocks[index].join()) {
+      throw new Error(`Error correction mismatch in block ${index + 1}`);
+    }
+  });
+
+  const data = dataBlocks.flat();
+  let position = 0;
+  const read = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i++, position++) {
+      value = (value << 1) | ((data[position >>> 3] >>> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+
+  if (read(4) !== 0b0100) {throw new Error('Expected byte mode');}
+  const length = read(version <= 9 ? 8 : 16);
+  const bytes = Uint8Array.from({ length }, () => read(8));
+  return { text: new TextDecoder().decode(bytes), version, errorCorrection };
+}
+
+/** Text of the given length cycling through the base64 alphabet, as in transfer frames */
+function base64Text(length: number): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  return Array.from({ length }, (_, index) => alphabet[(index * 7) % alphabet.length]).join('');
+}
+
+describe('reedSolomonRemainder', () => {
+  it('matches the error correction codewords of the specification example', () => {
+    // "HELLO WORLD" as a 1-M symbol
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQrCode', () => {
+  it('picks the smallest version that holds the data', () => {
+    expect(encodeQrCode('a'.repeat(14)).version).toBe(1);
+    expect(encodeQrCode('a'.repeat(15)).version).toBe(2);
+    expect(encodeQrCode('a'.repeat(17), { errorCorrection: 'L' }).version).toBe(1);
+
+    const large = encodeQrCode('a'.repeat(400));
+    expect(large.version).toBe(15);
+    expect(large.size).toBe(77);
+    expect(large.modules).toHaveLength(77);
+  });
+
+  it('draws finder patterns in three corners', () => {
+    const { modules, size } = encodeQrCode('BFX1:0123456789abcdef:1/3:AAAA');
+
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, size - 7)).toBe(false);
+  });
+
+  it('records the error correction level and chosen mask in the format bits', () => {
+    const medium = encodeQrCode('hello');
+    const low = encodeQrCode('hello', { errorCorrection: 'L' });
+
+    const format = (qr: typeof medium): number => readFormatBits(qr.modules) ^ 0x5412;
+    expect(format(medium) >>> 10).toBe(medium.mask);
+    expect(format(low) >>> 10).toBe((1 << 3) | low.mask);
+  });
+
+  it('throws when the data does not fit', () => {
+    expect(() => encodeQrCode('a'.repeat(200), { maxVersion: 5 })).toThrow('Data too long for a version 5 QR code');
+  });
+
+  it('draws one square per dark module', () => {
+    const qr = encodeQrCode('hello');
+    const dark = qr.modules.flat().filter(Boolean).length;
+
+    expect(qrCodeToSvgPath(qr).match(/M/g)).toHaveLength(dark);
+  });
+});
+
+describe('encodeQrCode round trip', () => {
+  // The byte capacity of each version, so both the count field sizes and the fullest symbols are covered
+  const capacities: Array<[QrErrorCorrection, number, number]> = [
+    ['M', 1, 14], ['M', 2, 26], ['M', 5, 84], ['M', 7, 122], ['M', 10, 213],
+    ['L', 1, 17], ['L', 2, 32], ['L', 5, 106], ['L', 7, 154], ['L', 10, 271],
+  ];
+
+  it('decodes full symbols of several versions at both error correction levels', () => {
+    for (const [errorCorrection, version, length] of capacities) {
+      const text = base64Text(length);
+      const qr = encodeQrCode(text, { errorCorrection });
+
+      expect(qr.version).toBe(version);
+      expect(decodeQrCode(qr.modules)).toEqual({ text, version, errorCorrection });
+    }
+  });
+
+  it('notices a flipped data module', () => {
+    const { modules, size } = encodeQrCode('hello');
+    modules[size - 1][size - 1] = !modules[size - 1][size - 1];
+
+    expect(() => decodeQrCode(modules)).toThrow('Error correction mismatch in block 1');
+  });
+
+  it('decodes multi-byte characters', () => {
+    const text = '¿Año 2025? — sí';
+
+    expect(decodeQrCode(encodeQrCode(text).modules).text).toBe(text);
+  });
+
+  it('decodes a full 400-character transfer frame', () => {
+    const [frame] = splitTransferCode(`BFX1:0123456789abcdef:${base64Text(1000)}`);
+    expect(parseTransferFrame(frame)?.data).toHaveLength(400);
+
+    for (const errorCorrection of ['M', 'L'] as const) {
+      const qr = encodeQrCode(frame, { errorCorrection });
+      const decoded = decodeQrCode(qr.modules);
+
+      expect(decoded.text).toBe(frame);
+      expect(decoded.errorCorrection).toBe(errorCorrection);
+      expect(parseTransferFrame(decoded.text)).toEqual({ id: '0123456789abcdef', index: 1, total: 3, data: base64Text(400) });
+    }
+  });
+});
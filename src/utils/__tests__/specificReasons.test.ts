@@ -174,6 +174,32 @@ describe('specificReasons', () => {
         const reasons = getSpecificReasons('tanf-federal', 'not-qualified', profile);
         expect(reasons).toContain('You indicated you are not a U.S. citizen or qualified immigrant. TANF requires U.S. citizenship or eligible immigration status.');
       });
+
+      it('should return resources reason when countable resources exceed the state limit', () => {
+        const profile: UserProfile = { state: 'GA', assets: { cash: 500, bankAccounts: 2000, retirementAccounts: 10000 } };
+        const reasons = getSpecificReasons('tanf-federal', 'not-qualified', profile);
+        expect(reasons.some(r => r.includes('above your state\'s TANF resource limit'))).toBe(true);
+      });
+
+      it('should not return resources reason in a state without a resource limit', () => {
+        const profile: UserProfile = { state: 'OH', assets: { bankAccounts: 20000 } };
+        const reasons = getSpecificReasons('tanf-federal', 'not-qualified', profile);
+        expect(reasons.some(r => r.includes('TANF resource limit'))).toBe(false);
+      });
+    });
+
+    describe('Medicaid resource reasons', () => {
+      it('should return resources reason for an older applicant above the limit', () => {
+        const profile: UserProfile = { age: 70, state: 'GA', assets: { bankAccounts: 2500 } };
+        const reasons = getSpecificReasons('medicaid-federal', 'not-qualified', profile);
+        expect(reasons.some(r => r.includes('above the Medicaid resource limit'))).toBe(true);
+      });
+
+      it('should not count resources for income-based Medicaid', () => {
+        const profile: UserProfile = { age: 30, hasDisability: false, assets: { bankAccounts: 50000 } };
+        const reasons = getSpecificReasons('medicaid-federal', 'not-qualified', profile);
+        expect(reasons.some(r => r.includes('Medicaid resource limit'))).toBe(false);
+      });
     });
 
     describe('SSI specific reasons', () => {
@@ -209,6 +235,22 @@ describe('specificReasons', () => {
         const reasons = getSpecificReasons('ssi-federal', 'not-qualified', profile);
         expect(reasons).toContain('You indicated you are not a U.S. citizen or qualified immigrant. SSI requires U.S. citizenship or eligible immigration status.');
       });
+
+      it('should return resources reason when countable resources exceed the limit', () => {
+        const profile: UserProfile = { assets: { bankAccounts: 1800, otherVehicles: 900 } };
+        const reasons = getSpecificReasons('ssi-federal', 'not-qualified', profile);
+        expect(reasons.some(r => r.includes('above the SSI limit of $2,000'))).toBe(true);
+      });
+
+      it('should not count the primary vehicle or use the individual limit for couples', () => {
+        const withVehicle: UserProfile = { assets: { bankAccounts: 1800, primaryVehicle: 20000 } };
+        const couple: UserProfile = {
+          assets: { bankAccounts: 2500 },
+          householdMembers: [{ id: 'a', relationship: 'self' }, { id: 'b', relationship: 'spouse' }],
+        };
+        expect(getSpecificReasons('ssi-federal', 'not-qualified', withVehicle).some(r => r.includes('SSI limit'))).toBe(false);
+        expect(getSpecificReasons('ssi-federal', 'not-qualified', couple).some(r => r.includes('SSI limit'))).toBe(false);
+      });
     });
 
     describe('Section 8 specific reasons', () => {
@@ -547,6 +589,11 @@ describe('specificReasons', () => {
         const reasons = getMaybeReasons('ssi-federal', 'maybe', profile);
         expect(reasons.some(r => r.includes('medical documentation of disability'))).toBe(false);
       });
+
+      it('should ask for assets only when they were not reported', () => {
+        expect(getMaybeReasons('ssi-federal', 'maybe', {}).some(r => r.startsWith('Report your savings'))).toBe(true);
+        expect(getMaybeReasons('ssi-federal', 'maybe', { assets: {} }).some(r => r.startsWith('Report your savings'))).toBe(false);
+      });
     });
 
     describe('Section 8 maybe reasons', () => {
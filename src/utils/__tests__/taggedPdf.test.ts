@@ -0,0 +1,106 @@
+/**
+ * Tagged PDF Writer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TaggedPdfWriter } from '../taggedPdf';
+import { parsePdf } from '../../test/pdf';
+
+function structTypes(objects: Map<number, string>): string[] {
+  return Array.from(objects.values())
+    .map(body => /\/Type \/StructElem \/S \/(\w+)/.exec(body)?.[1])
+    .filter((type): type is string => type !== undefined);
+}
+
+describe('TaggedPdfWriter', () => {
+  it('writes a PDF whose xref table points at every object', () => {
+    const pdf = new TaggedPdfWriter({ title: 'Results' });
+    pdf.paragraph('Hello');
+
+    const bytes = pdf.toBytes();
+    const parsed = parsePdf(bytes);
+
+    expect(parsed.source.startsWith('%PDF-1.7\n')).toBe(true);
+    expect(parsed.objects.size).toBeGreaterThan(7);
+    expect(parsed.pages).toEqual([['Hello', 'Page 1 of 1']]);
+  });
+
+  it('marks the document as tagged, with its language and title', () => {
+    const pdf = new TaggedPdfWriter({ title: 'Resultados', language: 'es', createdAt: new Date('2025-01-15T12:00:00Z') });
+    pdf.heading('Resultados');
+
+    const { objects } = parsePdf(pdf.toBytes());
+    const catalog = objects.get(1) ?? '';
+
+    expect(catalog).toContain('/MarkInfo << /Marked true >>');
+    expect(catalog).toContain('/Lang (es)');
+    expect(catalog).toContain('/StructTreeRoot 7 0 R');
+    expect(catalog).toContain('/DisplayDocTitle true');
+    expect(objects.get(5)).toContain('/Title (Resultados) /Producer (BenefitFinder) /CreationDate (D:20250115120000Z)');
+    expect(objects.get(6)).toContain('<rdf:li xml:lang="x-default">Resultados</rdf:li>');
+  });
+
+  it('tags headings, lists and tables in reading order', () => {
+    const pdf = new TaggedPdfWriter({ title: 'Results' });
+    pdf.heading('Results', 1);
+    pdf.section(() => {
+      pdf.heading('SNAP', 3);
+      pdf.list(['Apply online', 'Call the office'], { ordered: true });
+    });
+    pdf.table([['Household size', '3']], { headers: ['Question', 'Answer'] });
+
+    const { objects, pages } = parsePdf(pdf.toBytes());
+
+    expect(structTypes(objects)).toEqual([
+      'Document', 'H1', 'Sect', 'H3', 'L', 'LI', 'Lbl', 'LBody', 'LI', 'Lbl', 'LBody',
+      'Table', 'TR', 'TH', 'TH', 'TR', 'TH', 'TD',
+    ]);
+    expect(pages[0]).toEqual([
+      'Results', 'SNAP', '1.', 'Apply online', '2.', 'Call the office',
+      'Question', 'Answer', 'Household size', '3', 'Page 1 of 1',
+    ]);
+    expect(pages.length).toBe(1);
+  });
+
+  it('maps each marked-content ID back to its structure element', () => {
+    const pdf = new TaggedPdfWriter({ title: 'Results' });
+    pdf.heading('Results');
+    pdf.paragraph('Body');
+
+    const { objects } = parsePdf(pdf.toBytes());
+    const parentTree = /\/Nums \[0 \[(\d+) 0 R (\d+) 0 R\]\]/.exec(objects.get(7) ?? '');
+
+    expect(parentTree).not.toBeNull();
+    expect(objects.get(Number(parentTree?.[1]))).toContain('/S /H1');
+    expect(objects.get(Number(parentTree?.[2]))).toContain('/S /P');
+    expect(objects.get(8)).toContain('/StructParents 0');
+  });
+
+  it('escapes PDF delimiters and encodes accented text as WinAnsi', () => {
+    const pdf = new TaggedPdfWriter({ title: 'Results' });
+    pdf.paragraph('Año (2025) \\ “SNAP” 😀');
+
+    const { pages } = parsePdf(pdf.toBytes());
+
+    expect(pages[0][0]).toBe('Año (2025) \\ \u0093SNAP\u0094 ?');
+  });
+
+  it('wraps long text and continues on new pages with their own footers', () => {
+    const pdf = new TaggedPdfWriter({
+      title: 'Results',
+      pageLabel: (page, pageCount) => `${page}/${pageCount}`,
+    });
+    for (let index = 0; index < 60; index++) {
+      pdf.paragraph(`Paragraph ${index} ${'word '.repeat(30)}`);
+    }
+
+    const { pages, objects } = parsePdf(pdf.toBytes());
+
+    expect(pages.length).toBeGreaterThan(2);
+    pages.forEach((text, index) => {
+      expect(text[text.length - 1]).toBe(`${index + 1}/${pages.length}`);
+    });
+    expect(pages.flat().filter(line => line.startsWith('Paragraph '))).toHaveLength(60);
+    expect(objects.get(2)).toContain(`/Count ${pages.length}`);
+  });
+});
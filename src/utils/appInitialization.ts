@@ -243,29 +243,35 @@ async function loadSamplePrograms(db: NonNullable<ReturnType<typeof getDatabase>
   });
 }
 
+/**
+ * Bundled packages ship inside the app, so they are as trusted as the
+ * code verifying them and are not signed
+ */
+const BUNDLED_PACKAGE_OPTIONS = { requireSignature: false } as const;
+
 /**
  * Load sample rules into the database
  */
 async function loadSampleRules(): Promise<void> {
   // Import SNAP rules
   const snapRules = await import('../rules/federal/snap/snap-rules.json');
-  await importRulePackage(snapRules.default);
+  await importRulePackage(snapRules.default, BUNDLED_PACKAGE_OPTIONS);
 
   // Import Medicaid rules
   const medicaidRules = await import('../rules/federal/medicaid/medicaid-federal-rules.json');
-  await importRulePackage(medicaidRules.default);
+  await importRulePackage(medicaidRules.default, BUNDLED_PACKAGE_OPTIONS);
 
   // Import WIC rules
   const wicRules = await import('../rules/federal/wic/wic-federal-rules.json');
-  await importRulePackage(wicRules.default);
+  await importRulePackage(wicRules.default, BUNDLED_PACKAGE_OPTIONS);
 
   // Import TANF rules
   const tanfRules = await import('../rules/federal/tanf/tanf-federal-rules.json');
-  await importRulePackage(tanfRules.default);
+  await importRulePackage(tanfRules.default, BUNDLED_PACKAGE_OPTIONS);
 
   // Import SSI rules
   const ssiRules = await import('../rules/federal/ssi/ssi-federal-rules.json');
-  await importRulePackage(ssiRules.default);
+  await importRulePackage(ssiRules.default, BUNDLED_PACKAGE_OPTIONS);
 }
 
 /**
@@ -0,0 +1,694 @@
+/**
+ * Benefit Amount Estimators
+ *
+ * Dollar estimates for programs whose benefit depends on household income:
+ * SNAP allotments, SSI payments, TANF cash assistance and the Section 8
+ * tenant rent share. Each estimator returns the amount together with the
+ * calculation steps so results can explain how the figure was reached.
+ * The Section 8 estimate is a `cost`: what the household pays, not what it
+ * receives.
+ *
+ * These are estimates for screening only. Agencies apply additional
+ * deductions, exclusions and local standards when determining the actual
+ * benefit.
+ *
+ * @see https://www.fns.usda.gov/snap/recipient/eligibility
+ * @see https://www.ssa.gov/oact/cola/SSI.html
+ * @see https://www.ecfr.gov/current/title-24/subtitle-A/part-5/subpart-F
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Calculation step labels, translated under `results.estimate.steps`
+ */
+export type BenefitStepKey =
+  | 'grossMonthlyIncome'
+  | 'earnedIncomeDeduction'
+  | 'standardDeduction'
+  | 'medicalDeduction'
+  | 'dependentCareDeduction'
+  | 'childSupportDeduction'
+  | 'excessShelterDeduction'
+  | 'excessShelterDeductionWithUtilities'
+  | 'excessShelterDeductionCapped'
+  | 'excessShelterDeductionWithUtilitiesCapped'
+  | 'netMonthlyIncome'
+  | 'snapMaxAllotment'
+  | 'snapNetIncomeShare'
+  | 'snapMinimumBenefit'
+  | 'snapEstimate'
+  | 'ssiBenefitRateIndividual'
+  | 'ssiBenefitRateCouple'
+  | 'ssiCountableUnearnedIncome'
+  | 'ssiCountableEarnedIncome'
+  | 'ssiEstimate'
+  | 'tanfPaymentStandard'
+  | 'tanfCountableEarnings'
+  | 'tanfUnearnedIncome'
+  | 'tanfEstimate'
+  | 'annualGrossIncome'
+  | 'section8DependentDeduction'
+  | 'section8ElderlyDisabledDeduction'
+  | 'section8ChildCareDeduction'
+  | 'annualAdjustedIncome'
+  | 'section8AdjustedIncomeShare'
+  | 'section8GrossIncomeShare'
+  | 'section8TenantRent';
+
+/**
+ * Estimate descriptions, translated under `results.estimate.descriptions`
+ */
+export type BenefitDescriptionKey = 'snap' | 'ssi' | 'tanf' | 'section8';
+
+/**
+ * One line of a benefit calculation
+ *
+ * Deductions are negative amounts; the final step holds the estimate.
+ * `label` is the English text, kept for exports and results saved before
+ * steps had translation keys.
+ */
+export interface BenefitCalculationStep {
+  label: string;
+  amount: number;
+  key?: BenefitStepKey;
+  /** Interpolation values for the translated label */
+  values?: Record<string, string | number>;
+}
+
+/**
+ * What an estimate measures: an amount the household receives, or an
+ * amount it pays (such as the Section 8 tenant rent share)
+ */
+export type EstimateKind = 'benefit' | 'cost';
+
+/**
+ * Estimated benefit with its calculation
+ *
+ * Estimates without a `kind` are benefits.
+ */
+export interface BenefitEstimate {
+  amount: number;
+  frequency: 'monthly';
+  kind?: EstimateKind;
+  description: string;
+  descriptionKey?: BenefitDescriptionKey;
+  /** Interpolation values for the translated description */
+  descriptionValues?: Record<string, string | number>;
+  steps: BenefitCalculationStep[];
+}
+
+/**
+ * SNAP figures for one federal fiscal year (48 states and DC)
+ */
+export interface SNAPAllotmentTable {
+  fiscalYear: number;
+  /** Maximum allotment by household size (1-8) */
+  maxAllotment: Record<number, number>;
+  maxAllotmentPerAdditionalPerson: number;
+  /** Standard deduction by household size; sizes above 6 use the 6-person amount */
+  standardDeduction: Record<number, number>;
+  /** Cap on the excess shelter deduction for households without an elderly or disabled member */
+  shelterDeductionCap: number;
+  /** Minimum monthly benefit for eligible 1- and 2-person households */
+  minimumBenefit: number;
+}
+
+/**
+ * SSI federal benefit rates for one calendar year
+ */
+export interface SSIBenefitRates {
+  year: number;
+  individual: number;
+  couple: number;
+}
+
+export interface SNAPNetIncomeInput {
+  householdSize: number;
+  /** Total monthly gross income */
+  grossIncome: number;
+  /** Portion of gross income from wages or self-employment */
+  earnedIncome?: number;
+  /** Monthly rent or mortgage, property tax and homeowner's insurance */
+  shelterCosts?: number;
+  /** Standard utility allowance, added to shelter costs when the household pays for heating or cooling */
+  utilityAllowance?: number;
+  dependentCareCosts?: number;
+  /** Legally obligated child support paid to someone outside the household */
+  childSupportPaid?: number;
+  /** Out-of-pocket medical expenses of elderly or disabled members */
+  medicalExpenses?: number;
+  hasElderlyOrDisabled?: boolean;
+  asOf?: Date | number | string;
+}
+
+/**
+ * SNAP net income with each deduction that produced it
+ */
+export interface SNAPNetIncomeResult {
+  fiscalYear: number;
+  grossIncome: number;
+  earnedIncomeDeduction: number;
+  standardDeduction: number;
+  medicalDeduction: number;
+  dependentCareDeduction: number;
+  childSupportDeduction: number;
+  /** Income after every deduction except shelter */
+  adjustedIncome: number;
+  /** Shelter costs including the utility allowance */
+  totalShelterCosts: number;
+  excessShelterDeduction: number;
+  /** True when the shelter cap reduced the excess shelter deduction */
+  shelterDeductionCapped: boolean;
+  totalDeductions: number;
+  netIncome: number;
+  steps: BenefitCalculationStep[];
+}
+
+export type SNAPEstimateInput = SNAPNetIncomeInput;
+
+export interface SSIEstimateInput {
+  isCouple?: boolean;
+  earnedIncome?: number;
+  unearnedIncome?: number;
+  asOf?: Date | number | string;
+}
+
+export interface TANFEstimateInput {
+  stateCode: string;
+  householdSize: number;
+  earnedIncome?: number;
+  unearnedIncome?: number;
+}
+
+export interface Section8EstimateInput {
+  /** Total monthly gross income */
+  grossIncome: number;
+  /** Number of household members under 18, full-time students or disabled, other than the head and spouse */
+  dependents?: number;
+  isElderlyOrDisabledFamily?: boolean;
+  /** Monthly child care needed to allow a household member to work or attend school */
+  childCareCosts?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * SNAP allotment tables, sorted by fiscal year ascending
+ *
+ * Fiscal years run October 1 through September 30.
+ */
+export const SNAP_ALLOTMENT_TABLES: readonly SNAPAllotmentTable[] = [
+  {
+    fiscalYear: 2025,
+    maxAllotment: { 1: 292, 2: 536, 3: 768, 4: 975, 5: 1158, 6: 1390, 7: 1536, 8: 1756 },
+    maxAllotmentPerAdditionalPerson: 220,
+    standardDeduction: { 1: 204, 2: 204, 3: 204, 4: 217, 5: 254, 6: 291 },
+    shelterDeductionCap: 712,
+    minimumBenefit: 23,
+  },
+  {
+    fiscalYear: 2026,
+    maxAllotment: { 1: 298, 2: 546, 3: 785, 4: 994, 5: 1183, 6: 1421, 7: 1571, 8: 1789 },
+    maxAllotmentPerAdditionalPerson: 218,
+    standardDeduction: { 1: 209, 2: 209, 3: 209, 4: 223, 5: 261, 6: 299 },
+    shelterDeductionCap: 744,
+    minimumBenefit: 24,
+  },
+];
+
+/** Share of earned income deducted when computing SNAP net income */
+export const SNAP_EARNED_INCOME_DEDUCTION_RATE = 0.2;
+
+/** Age at which a SNAP household member counts as elderly */
+export const SNAP_ELDERLY_AGE = 60;
+
+/** Monthly medical expenses an elderly or disabled household pays before the excess is deductible */
+export const SNAP_MEDICAL_EXPENSE_THRESHOLD = 35;
+
+/** Share of net income a household is expected to spend on food */
+export const SNAP_NET_INCOME_CONTRIBUTION_RATE = 0.3;
+
+/**
+ * SSI federal benefit rates, sorted by year ascending
+ */
+export const SSI_BENEFIT_RATES: readonly SSIBenefitRates[] = [
+  { year: 2024, individual: 943, couple: 1415 },
+  { year: 2025, individual: 967, couple: 1450 },
+  { year: 2026, individual: 994, couple: 1491 },
+];
+
+/** SSI general income exclusion (applied to unearned income first) */
+export const SSI_GENERAL_INCOME_EXCLUSION = 20;
+
+/** SSI earned income exclusion, applied before halving the remainder */
+export const SSI_EARNED_INCOME_EXCLUSION = 65;
+
+/**
+ * Approximate maximum monthly TANF benefit for a family of three, by state (2024)
+ *
+ * States publish their own payment standards by household size; these
+ * figures anchor the estimate and are scaled for other household sizes.
+ */
+export const TANF_PAYMENT_STANDARDS: Readonly<Record<string, number>> = {
+  AL: 215, AK: 923, AZ: 204, AR: 204, CA: 1247, CO: 649, CT: 833, DE: 338,
+  DC: 812, FL: 303, GA: 280, HI: 610, ID: 309, IL: 763, IN: 513, IA: 426,
+  KS: 429, KY: 372, LA: 344, ME: 747, MD: 862, MA: 836, MI: 492, MN: 632,
+  MS: 260, MO: 292, MT: 672, NE: 514, NV: 386, NH: 1150, NJ: 559, NM: 447,
+  NY: 789, NC: 272, ND: 486, OH: 549, OK: 292, OR: 621, PA: 403, RI: 721,
+  SC: 301, SD: 692, TN: 387, TX: 308, UT: 498, VT: 699, VA: 499, WA: 706,
+  WV: 340, WI: 653, WY: 710,
+};
+
+/** Household size the TANF payment standards are published for */
+export const TANF_STANDARD_HOUSEHOLD_SIZE = 3;
+
+/** Payment standard change per person above or below the standard household size */
+export const TANF_HOUSEHOLD_SIZE_ADJUSTMENT = 0.15;
+
+/** Monthly earned income disregarded before TANF benefits are reduced */
+export const TANF_EARNED_INCOME_DISREGARD = 90;
+
+/** Annual Section 8 deduction for each dependent */
+export const SECTION8_DEPENDENT_DEDUCTION = 480;
+
+/** Annual Section 8 deduction for elderly or disabled families */
+export const SECTION8_ELDERLY_DISABLED_DEDUCTION = 525;
+
+/** Share of adjusted income paid toward rent under the voucher program */
+export const SECTION8_ADJUSTED_INCOME_RATE = 0.3;
+
+/** Share of gross income that sets the minimum tenant payment */
+export const SECTION8_GROSS_INCOME_RATE = 0.1;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toDate(asOf: Date | number | string | undefined): Date {
+  if (asOf === undefined) {return new Date();}
+  const date = asOf instanceof Date ? asOf : new Date(asOf);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+function toAmount(value: number | undefined): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function step(
+  key: BenefitStepKey,
+  label: string,
+  amount: number,
+  values?: Record<string, string | number>
+): BenefitCalculationStep {
+  return values ? { key, label, amount, values } : { key, label, amount };
+}
+
+/**
+ * Get the federal fiscal year (October-September) containing a date
+ */
+export function getFiscalYearForDate(asOf?: Date | number | string): number {
+  const date = toDate(asOf);
+  return date.getUTCMonth() >= 9 ? date.getUTCFullYear() + 1 : date.getUTCFullYear();
+}
+
+/**
+ * Get the SNAP allotment table in effect on a date
+ *
+ * Dates after the latest table use the latest table; dates before the
+ * earliest use the earliest.
+ */
+export function getSNAPAllotmentTable(asOf?: Date | number | string): SNAPAllotmentTable {
+  const fiscalYear = getFiscalYearForDate(asOf);
+  let selected = SNAP_ALLOTMENT_TABLES[0];
+  for (const table of SNAP_ALLOTMENT_TABLES) {
+    if (table.fiscalYear <= fiscalYear) {
+      selected = table;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Get the SSI federal benefit rates in effect on a date
+ */
+export function getSSIBenefitRates(asOf?: Date | number | string): SSIBenefitRates {
+  const year = toDate(asOf).getUTCFullYear();
+  let selected = SSI_BENEFIT_RATES[0];
+  for (const rates of SSI_BENEFIT_RATES) {
+    if (rates.year <= year) {
+      selected = rates;
+    }
+  }
+  return selected;
+}
+
+// ============================================================================
+// SNAP
+// ============================================================================
+
+/**
+ * Maximum SNAP allotment for a household size
+ */
+export function getSNAPMaxAllotment(householdSize: number, asOf?: Date | number | string): number {
+  const table = getSNAPAllotmentTable(asOf);
+  const size = Math.max(1, Math.floor(householdSize));
+  if (size <= 8) {
+    return table.maxAllotment[size];
+  }
+  return table.maxAllotment[8] + (table.maxAllotmentPerAdditionalPerson * (size - 8));
+}
+
+/**
+ * SNAP standard deduction for a household size
+ */
+export function getSNAPStandardDeduction(householdSize: number, asOf?: Date | number | string): number {
+  const table = getSNAPAllotmentTable(asOf);
+  const size = Math.min(6, Math.max(1, Math.floor(householdSize)));
+  return table.standardDeduction[size];
+}
+
+/**
+ * Calculate SNAP net monthly income
+ *
+ * Deductions follow 7 CFR 273.9(d): 20% of earned income, the standard
+ * deduction, medical expenses above $35 for elderly or disabled households,
+ * dependent care and child support paid. Shelter costs (including any
+ * utility allowance) above half of the remaining income are then deducted,
+ * capped unless a member is elderly or disabled.
+ *
+ * @example
+ * ```typescript
+ * calculateSNAPNetIncome({ householdSize: 3, grossIncome: 2000, earnedIncome: 2000, shelterCosts: 900, utilityAllowance: 300, asOf: '2025-06-01' });
+ * // netIncome: 894 ($1,396 adjusted income − $502 excess shelter)
+ * ```
+ */
+export function calculateSNAPNetIncome(input: SNAPNetIncomeInput): SNAPNetIncomeResult {
+  const table = getSNAPAllotmentTable(input.asOf);
+  const householdSize = Math.max(1, Math.floor(input.householdSize));
+  const grossIncome = toAmount(input.grossIncome);
+  const earnedIncome = Math.min(toAmount(input.earnedIncome), grossIncome);
+  const shelterCosts = toAmount(input.shelterCosts);
+  const utilityAllowance = toAmount(input.utilityAllowance);
+
+  const steps: BenefitCalculationStep[] = [step('grossMonthlyIncome', 'Gross monthly income', roundCents(grossIncome))];
+
+  const earnedIncomeDeduction = roundCents(earnedIncome * SNAP_EARNED_INCOME_DEDUCTION_RATE);
+  if (earnedIncomeDeduction > 0) {
+    steps.push(step('earnedIncomeDeduction', 'Earned income deduction (20% of earnings)', -earnedIncomeDeduction));
+  }
+
+  const standardDeduction = getSNAPStandardDeduction(householdSize, input.asOf);
+  steps.push(step('standardDeduction', `Standard deduction (household of ${householdSize})`, -standardDeduction, { size: householdSize }));
+
+  // Only elderly or disabled households may deduct medical costs, and only the part above the threshold
+  const medicalDeduction = input.hasElderlyOrDisabled
+    ? roundCents(Math.max(0, toAmount(input.medicalExpenses) - SNAP_MEDICAL_EXPENSE_THRESHOLD))
+    : 0;
+  if (medicalDeduction > 0) {
+    const threshold = formatDollars(SNAP_MEDICAL_EXPENSE_THRESHOLD);
+    steps.push(step('medicalDeduction', `Medical expense deduction (costs above ${threshold})`, -medicalDeduction, { threshold }));
+  }
+
+  const dependentCareDeduction = roundCents(toAmount(input.dependentCareCosts));
+  if (dependentCareDeduction > 0) {
+    steps.push(step('dependentCareDeduction', 'Dependent care deduction', -dependentCareDeduction));
+  }
+
+  const childSupportDeduction = roundCents(toAmount(input.childSupportPaid));
+  if (childSupportDeduction > 0) {
+    steps.push(step('childSupportDeduction', 'Child support paid deduction', -childSupportDeduction));
+  }
+
+  const adjustedIncome = roundCents(Math.max(0, grossIncome - earnedIncomeDeduction - standardDeduction
+    - medicalDeduction - dependentCareDeduction - childSupportDeduction));
+
+  // Shelter costs above half of adjusted income are deductible, capped unless a member is elderly or disabled
+  const totalShelterCosts = roundCents(shelterCosts + utilityAllowance);
+  const excessShelter = Math.max(0, totalShelterCosts - (adjustedIncome / 2));
+  const excessShelterDeduction = roundCents(input.hasElderlyOrDisabled
+    ? excessShelter
+    : Math.min(excessShelter, table.shelterDeductionCap));
+  const shelterDeductionCapped = excessShelterDeduction < roundCents(excessShelter);
+  if (excessShelterDeduction > 0) {
+    const values = { utilities: formatDollars(utilityAllowance), cap: formatDollars(table.shelterDeductionCap) };
+    const utilities = utilityAllowance > 0 ? ` (includes ${values.utilities} utility allowance)` : '';
+    const capped = shelterDeductionCapped ? `, capped at ${values.cap}` : '';
+    const key = `excessShelterDeduction${utilities ? 'WithUtilities' : ''}${capped ? 'Capped' : ''}` as const;
+    steps.push(step(key, `Excess shelter deduction${utilities}${capped}`, -excessShelterDeduction, values));
+  }
+
+  const netIncome = roundCents(Math.max(0, adjustedIncome - excessShelterDeduction));
+  steps.push(step('netMonthlyIncome', 'Net monthly income', netIncome));
+
+  return {
+    fiscalYear: table.fiscalYear,
+    grossIncome: roundCents(grossIncome),
+    earnedIncomeDeduction,
+    standardDeduction,
+    medicalDeduction,
+    dependentCareDeduction,
+    childSupportDeduction,
+    adjustedIncome,
+    totalShelterCosts,
+    excessShelterDeduction,
+    shelterDeductionCapped,
+    totalDeductions: roundCents(Math.max(0, grossIncome - netIncome)),
+    netIncome,
+    steps,
+  };
+}
+
+/**
+ * Estimate a monthly SNAP allotment
+ *
+ * The allotment is the maximum for the household size less 30% of net
+ * income (rounded up), with the minimum benefit for eligible 1- and
+ * 2-person households. See {@link calculateSNAPNetIncome} for the
+ * deductions.
+ *
+ * @example
+ * ```typescript
+ * estimateSNAPAllotment({ householdSize: 3, grossIncome: 2000, earnedIncome: 2000, shelterCosts: 1200, asOf: '2025-06-01' });
+ * // amount: 499 ($768 − 30% of $894 net income)
+ * ```
+ */
+export function estimateSNAPAllotment(input: SNAPEstimateInput): BenefitEstimate {
+  const table = getSNAPAllotmentTable(input.asOf);
+  const householdSize = Math.max(1, Math.floor(input.householdSize));
+  const { netIncome, steps } = calculateSNAPNetIncome(input);
+
+  const maxAllotment = getSNAPMaxAllotment(householdSize, input.asOf);
+  steps.push(step('snapMaxAllotment', `Maximum allotment (household of ${householdSize})`, maxAllotment, { size: householdSize }));
+
+  const expectedContribution = Math.ceil(netIncome * SNAP_NET_INCOME_CONTRIBUTION_RATE);
+  steps.push(step('snapNetIncomeShare', '30% of net income', -expectedContribution));
+
+  let amount = Math.max(0, maxAllotment - expectedContribution);
+  if (householdSize <= 2 && amount < table.minimumBenefit) {
+    amount = table.minimumBenefit;
+    steps.push(step('snapMinimumBenefit', 'Minimum benefit for 1-2 person households', table.minimumBenefit));
+  }
+
+  steps.push(step('snapEstimate', 'Estimated monthly SNAP benefit', amount));
+
+  return {
+    amount,
+    frequency: 'monthly',
+    description: `Estimated SNAP allotment for fiscal year ${table.fiscalYear} based on your household size, income and expenses`,
+    descriptionKey: 'snap',
+    descriptionValues: { fiscalYear: table.fiscalYear },
+    steps,
+  };
+}
+
+// ============================================================================
+// SSI
+// ============================================================================
+
+/**
+ * Estimate a monthly federal SSI payment
+ *
+ * Countable income is unearned income less the $20 general exclusion, plus
+ * earned income less any unused general exclusion and the $65 earned income
+ * exclusion, halved. The payment is the federal benefit rate less countable
+ * income. State supplements are not included.
+ *
+ * @example
+ * ```typescript
+ * estimateSSIPayment({ unearnedIncome: 420, asOf: '2025-06-01' });
+ * // amount: 567 ($967 − ($420 − $20))
+ * ```
+ */
+export function estimateSSIPayment(input: SSIEstimateInput): BenefitEstimate {
+  const rates = getSSIBenefitRates(input.asOf);
+  const earnedIncome = toAmount(input.earnedIncome);
+  const unearnedIncome = toAmount(input.unearnedIncome);
+  const benefitRate = input.isCouple ? rates.couple : rates.individual;
+
+  const steps: BenefitCalculationStep[] = [
+    step(
+      input.isCouple ? 'ssiBenefitRateCouple' : 'ssiBenefitRateIndividual',
+      `Federal benefit rate (${input.isCouple ? 'couple' : 'individual'}, ${rates.year})`,
+      benefitRate,
+      { year: rates.year }
+    ),
+  ];
+
+  const unearnedExclusion = Math.min(unearnedIncome, SSI_GENERAL_INCOME_EXCLUSION);
+  const countableUnearned = unearnedIncome - unearnedExclusion;
+  const remainingGeneralExclusion = SSI_GENERAL_INCOME_EXCLUSION - unearnedExclusion;
+  const countableEarned = Math.max(0, earnedIncome - remainingGeneralExclusion - SSI_EARNED_INCOME_EXCLUSION) / 2;
+  const countableIncome = roundCents(countableUnearned + countableEarned);
+
+  if (unearnedIncome > 0) {
+    steps.push(step('ssiCountableUnearnedIncome', 'Countable unearned income (after $20 general exclusion)', -roundCents(countableUnearned)));
+  }
+  if (earnedIncome > 0) {
+    steps.push(step('ssiCountableEarnedIncome', 'Countable earned income (after $65 exclusion, then halved)', -roundCents(countableEarned)));
+  }
+
+  const amount = Math.max(0, Math.round(benefitRate - countableIncome));
+  steps.push(step('ssiEstimate', 'Estimated monthly SSI payment', amount));
+
+  return {
+    amount,
+    frequency: 'monthly',
+    description: 'Estimated federal SSI payment; your state may add a supplement',
+    descriptionKey: 'ssi',
+    steps,
+  };
+}
+
+// ============================================================================
+// TANF
+// ============================================================================
+
+/**
+ * Approximate TANF payment standard for a state and household size
+ *
+ * Returns 0 for states without a listed standard.
+ */
+export function getTANFPaymentStandard(stateCode: string, householdSize: number): number {
+  const standard = TANF_PAYMENT_STANDARDS[stateCode.toUpperCase()];
+  if (!standard) {return 0;}
+  const size = Math.max(1, Math.floor(householdSize));
+  const factor = 1 + (TANF_HOUSEHOLD_SIZE_ADJUSTMENT * (size - TANF_STANDARD_HOUSEHOLD_SIZE));
+  return Math.round(standard * factor);
+}
+
+/**
+ * Estimate monthly TANF cash assistance
+ *
+ * The state payment standard less countable income, where countable income
+ * is unearned income plus earnings above the work expense disregard.
+ */
+export function estimateTANFPayment(input: TANFEstimateInput): BenefitEstimate {
+  const stateCode = input.stateCode.toUpperCase();
+  const householdSize = Math.max(1, Math.floor(input.householdSize));
+  const earnedIncome = toAmount(input.earnedIncome);
+  const unearnedIncome = toAmount(input.unearnedIncome);
+  const paymentStandard = getTANFPaymentStandard(stateCode, householdSize);
+
+  const steps: BenefitCalculationStep[] = [
+    step(
+      'tanfPaymentStandard',
+      `${stateCode} payment standard (household of ${householdSize})`,
+      paymentStandard,
+      { state: stateCode, size: householdSize }
+    ),
+  ];
+
+  const countableEarned = Math.max(0, earnedIncome - TANF_EARNED_INCOME_DISREGARD);
+  if (earnedIncome > 0) {
+    const disregard = formatDollars(TANF_EARNED_INCOME_DISREGARD);
+    steps.push(step('tanfCountableEarnings', `Countable earnings (after ${disregard} disregard)`, -roundCents(countableEarned), { disregard }));
+  }
+  if (unearnedIncome > 0) {
+    steps.push(step('tanfUnearnedIncome', 'Unearned income', -roundCents(unearnedIncome)));
+  }
+
+  const amount = Math.max(0, Math.round(paymentStandard - countableEarned - unearnedIncome));
+  steps.push(step('tanfEstimate', 'Estimated monthly TANF payment', amount));
+
+  return {
+    amount,
+    frequency: 'monthly',
+    description: `Estimated cash assistance using ${stateCode}'s payment standard; your state's earnings rules may differ`,
+    descriptionKey: 'tanf',
+    descriptionValues: { state: stateCode },
+    steps,
+  };
+}
+
+// ============================================================================
+// SECTION 8
+// ============================================================================
+
+/**
+ * Estimate the monthly Section 8 tenant rent share (total tenant payment)
+ *
+ * Annual income less the dependent, elderly/disabled family and child care
+ * deductions gives adjusted income. The tenant pays the greater of 30% of
+ * monthly adjusted income and 10% of monthly gross income; the voucher
+ * covers the rest of the rent up to the local payment standard.
+ */
+export function estimateSection8TenantRent(input: Section8EstimateInput): BenefitEstimate {
+  const annualIncome = toAmount(input.grossIncome) * 12;
+  const dependents = Math.max(0, Math.floor(toAmount(input.dependents)));
+  const childCareCosts = toAmount(input.childCareCosts) * 12;
+
+  const steps: BenefitCalculationStep[] = [step('annualGrossIncome', 'Annual gross income', roundCents(annualIncome))];
+
+  const dependentDeduction = dependents * SECTION8_DEPENDENT_DEDUCTION;
+  if (dependentDeduction > 0) {
+    const deduction = formatDollars(SECTION8_DEPENDENT_DEDUCTION);
+    steps.push(step(
+      'section8DependentDeduction',
+      `Dependent deduction (${dependents} × ${deduction})`,
+      -dependentDeduction,
+      { count: dependents, deduction }
+    ));
+  }
+  const elderlyDeduction = input.isElderlyOrDisabledFamily ? SECTION8_ELDERLY_DISABLED_DEDUCTION : 0;
+  if (elderlyDeduction > 0) {
+    steps.push(step('section8ElderlyDisabledDeduction', 'Elderly or disabled family deduction', -elderlyDeduction));
+  }
+  if (childCareCosts > 0) {
+    steps.push(step('section8ChildCareDeduction', 'Child care deduction', -roundCents(childCareCosts)));
+  }
+
+  const adjustedIncome = Math.max(0, annualIncome - dependentDeduction - elderlyDeduction - childCareCosts);
+  steps.push(step('annualAdjustedIncome', 'Annual adjusted income', roundCents(adjustedIncome)));
+
+  const adjustedShare = Math.round((adjustedIncome / 12) * SECTION8_ADJUSTED_INCOME_RATE);
+  const grossShare = Math.round((annualIncome / 12) * SECTION8_GROSS_INCOME_RATE);
+  steps.push(step('section8AdjustedIncomeShare', '30% of monthly adjusted income', adjustedShare));
+  if (grossShare > adjustedShare) {
+    steps.push(step('section8GrossIncomeShare', '10% of monthly gross income (higher, so it applies)', grossShare));
+  }
+
+  const amount = Math.max(adjustedShare, grossShare);
+  steps.push(step('section8TenantRent', 'Estimated monthly rent you would pay', amount));
+
+  return {
+    amount,
+    frequency: 'monthly',
+    kind: 'cost',
+    description: 'Estimated share of rent you would pay with a voucher; the voucher covers the rest up to your local payment standard',
+    descriptionKey: 'section8',
+    steps,
+  };
+}
@@ -4,48 +4,50 @@
  * Centralizes Federal Poverty Level (FPL) thresholds and income limits
  * for SNAP, Medicaid, and other benefit programs.
  *
- * **Annual Update Required**: These values are based on the federal poverty
- * guidelines published annually by HHS (usually in January/February).
+ * FPL amounts come from the year-versioned guideline tables in
+ * `povertyGuidelines.ts`. Every calculation accepts an optional year, as-of
+ * date and region; without one, the latest published guidelines are used.
  *
  * @see https://aspe.hhs.gov/topics/poverty-economic-mobility/poverty-guidelines
  * @see https://www.fns.usda.gov/snap/recipient/eligibility (SNAP limits)
  * @see https://www.medicaid.gov/medicaid/eligibility/index.html (Medicaid limits)
  */
 
+import {
+  getAnnualPovertyGuideline,
+  getMonthlyFPLLimit,
+  LATEST_GUIDELINE_YEAR,
+  type GuidelineLookupOptions,
+} from './povertyGuidelines';
+
 // ============================================================================
-// CONSTANTS - 2024 VALUES
+// CONSTANTS
 // ============================================================================
 
 /**
- * 2024 Federal Poverty Level (100% FPL) - Monthly amounts
- * Source: HHS Poverty Guidelines for the 48 contiguous states and DC
+ * Year of the FPL data used when no year is requested
  *
- * NOTE: Alaska and Hawaii have different poverty guidelines (higher)
- * This implementation uses the 48-state standard
- *
- * Last Updated: 2024 guidelines
+ * This is the most recent table in `src/data/sources/poverty-guidelines/`.
  */
-export const FPL_2024_MONTHLY: Record<number, number> = {
-  1: 1255, // $15,060 annual / 12
-  2: 1702, // $20,440 annual / 12
-  3: 2148, // $25,820 annual / 12
-  4: 2594, // $31,200 annual / 12
-  5: 3040, // $36,580 annual / 12
-  6: 3486, // $41,960 annual / 12
-  7: 3932, // $47,340 annual / 12
-  8: 4378, // $52,720 annual / 12
-};
+export const FPL_YEAR = LATEST_GUIDELINE_YEAR;
 
 /**
- * Additional amount per person for households larger than 8
- * (add this for each additional member)
+ * 2024 Federal Poverty Level (100% FPL) - Monthly amounts
+ * Source: HHS Poverty Guidelines for the 48 contiguous states and DC
+ *
+ * @deprecated Use `calculateFPL(size, { year: 2024 })` or the guideline
+ * tables in `povertyGuidelines.ts`
  */
-export const FPL_2024_PER_ADDITIONAL_PERSON = 446; // $5,380 annual / 12
+export const FPL_2024_MONTHLY: Record<number, number> = Object.fromEntries(
+  [1, 2, 3, 4, 5, 6, 7, 8].map(size => [size, calculateFPL(size, { year: 2024 })])
+);
 
 /**
- * Year of current FPL data
+ * Additional monthly amount per person for households larger than 8 (2024)
+ *
+ * @deprecated Use `calculateFPL(size, { year: 2024 })`
  */
-export const FPL_YEAR = 2024;
+export const FPL_2024_PER_ADDITIONAL_PERSON = calculateFPL(9, { year: 2024 }) - calculateFPL(8, { year: 2024 });
 
 // ============================================================================
 // CORE FPL CALCULATION FUNCTIONS
@@ -55,26 +57,17 @@ export const FPL_YEAR = 2024;
  * Calculate 100% FPL (base poverty level) for a given household size
  *
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region (defaults to the latest contiguous-states table)
  * @returns Monthly FPL amount in dollars
  *
  * @example
  * ```typescript
- * calculateFPL(3); // Returns 2148 ($25,820/year)
- * calculateFPL(10); // Returns 5270 (8-person base + 2 additional)
+ * calculateFPL(3, { year: 2025 }); // Returns 2221 ($26,650/year)
+ * calculateFPL(3, { year: 2025, region: 'alaska' }); // Returns 2776 ($33,310/year)
  * ```
  */
-export function calculateFPL(householdSize: number): number {
-  if (householdSize < 1) {
-    throw new Error('Household size must be at least 1');
-  }
-
-  if (householdSize <= 8) {
-    return FPL_2024_MONTHLY[householdSize];
-  }
-
-  // For households larger than 8, add per-person amount
-  const additionalPeople = householdSize - 8;
-  return FPL_2024_MONTHLY[8] + (FPL_2024_PER_ADDITIONAL_PERSON * additionalPeople);
+export function calculateFPL(householdSize: number, options: GuidelineLookupOptions = {}): number {
+  return Math.round(getAnnualPovertyGuideline(householdSize, options) / 12);
 }
 
 /**
@@ -82,6 +75,7 @@ export function calculateFPL(householdSize: number): number {
  *
  * @param householdSize Number of people in household
  * @param percentage Percentage of FPL (e.g., 130 for 130% FPL, 200 for 200% FPL)
+ * @param options Guideline year, as-of date and region
  * @returns Monthly income threshold in dollars
  *
  * @example
@@ -92,9 +86,10 @@ export function calculateFPL(householdSize: number): number {
  */
 export function calculateFPLPercentage(
   householdSize: number,
-  percentage: number
+  percentage: number,
+  options: GuidelineLookupOptions = {}
 ): number {
-  const baseFPL = calculateFPL(householdSize);
+  const baseFPL = calculateFPL(householdSize, options);
   return Math.round(baseFPL * (percentage / 100));
 }
 
@@ -104,6 +99,7 @@ export function calculateFPLPercentage(
  * @param monthlyIncome Monthly household income in dollars
  * @param householdSize Number of people in household
  * @param percentage FPL percentage threshold
+ * @param options Guideline year, as-of date and region
  * @returns True if income is at or below threshold
  *
  * @example
@@ -114,9 +110,10 @@ export function calculateFPLPercentage(
 export function isIncomeAtOrBelowFPL(
   monthlyIncome: number,
   householdSize: number,
-  percentage: number
+  percentage: number,
+  options: GuidelineLookupOptions = {}
 ): boolean {
-  const threshold = calculateFPLPercentage(householdSize, percentage);
+  const threshold = calculateFPLPercentage(householdSize, percentage, options);
   return monthlyIncome <= threshold;
 }
 
@@ -147,45 +144,37 @@ export const SNAP_BBCE_FPL_PERCENT = 200;
 /**
  * Get SNAP gross income threshold for a household (130% FPL)
  *
+ * Uses the USDA rounding convention (monthly amounts rounded up), so the
+ * result matches the published SNAP income eligibility standards.
+ *
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region
  * @returns Monthly income threshold in dollars
  *
  * @example
  * ```typescript
- * getSNAPGrossIncomeLimit(3); // Returns 2,888 (130% FPL for 3 people)
+ * getSNAPGrossIncomeLimit(3, { year: 2025 }); // Returns 2,888 (130% FPL for 3 people)
  * ```
  */
-export function getSNAPGrossIncomeLimit(householdSize: number): number {
-  // Pre-calculated 2024 values for performance
-  // These match 130% of FPL
-  const thresholds: Record<number, number> = {
-    1: 1696,
-    2: 2292,
-    3: 2888,
-    4: 3483,
-    5: 4079,
-    6: 4675,
-    7: 5271,
-    8: 5867,
-  };
-
-    if (householdSize <= 8) {
-    return thresholds[householdSize];
-  }
-
-  // For households larger than 8, add $596 per additional member
-  // (this is 130% of the per-person FPL increase)
-  return thresholds[8] + (596 * (householdSize - 8));
+export function getSNAPGrossIncomeLimit(
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  return getMonthlyFPLLimit(householdSize, SNAP_GROSS_INCOME_FPL_PERCENT, options);
 }
 
 /**
  * Get SNAP net income threshold for a household (100% FPL)
  *
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region
  * @returns Monthly income threshold in dollars
  */
-export function getSNAPNetIncomeLimit(householdSize: number): number {
-  return calculateFPL(householdSize);
+export function getSNAPNetIncomeLimit(
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  return getMonthlyFPLLimit(householdSize, SNAP_NET_INCOME_FPL_PERCENT, options);
 }
 
 /**
@@ -193,10 +182,14 @@ export function getSNAPNetIncomeLimit(householdSize: number): number {
  * Used in states with Broad-Based Categorical Eligibility
  *
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region
  * @returns Monthly income threshold in dollars
  */
-export function getSNAPBBCELimit(householdSize: number): number {
-  return calculateFPLPercentage(householdSize, SNAP_BBCE_FPL_PERCENT);
+export function getSNAPBBCELimit(
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  return getMonthlyFPLLimit(householdSize, SNAP_BBCE_FPL_PERCENT, options);
 }
 
 /**
@@ -204,6 +197,7 @@ export function getSNAPBBCELimit(householdSize: number): number {
  *
  * @param monthlyIncome Monthly household income
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region
  * @returns True if eligible based on gross income
  *
  * @example
@@ -213,9 +207,10 @@ export function getSNAPBBCELimit(householdSize: number): number {
  */
 export function isSNAPIncomeEligible(
   monthlyIncome: number,
-  householdSize: number
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
 ): boolean {
-  const threshold = getSNAPGrossIncomeLimit(householdSize);
+  const threshold = getSNAPGrossIncomeLimit(householdSize, options);
   return monthlyIncome <= threshold;
 }
 
@@ -322,10 +317,14 @@ export const WIC_FPL_PERCENT = 185;
  * Get WIC income limit (185% FPL)
  *
  * @param householdSize Number of people in household
+ * @param options Guideline year, as-of date and region
  * @returns Monthly income threshold in dollars
  */
-export function getWICIncomeLimit(householdSize: number): number {
-  return calculateFPLPercentage(householdSize, WIC_FPL_PERCENT);
+export function getWICIncomeLimit(
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  return calculateFPLPercentage(householdSize, WIC_FPL_PERCENT, options);
 }
 
 /**
@@ -0,0 +1,303 @@
+/**
+ * Countable Resources
+ *
+ * Resource (asset) tests for programs with resource limits. Households
+ * report what they own by category; each program excludes some categories
+ * before comparing the remainder to its limit. Medicaid here means the
+ * non-MAGI pathways for people who are 65 or older, blind or disabled;
+ * MAGI Medicaid has no resource test.
+ *
+ * These are screening approximations. Agencies value resources at equity
+ * (market value less amounts owed) and apply further exclusions, and TANF
+ * limits are set by each state; some states have no TANF resource test.
+ *
+ * @see https://www.ssa.gov/ssi/text-resources-ussi.htm
+ * @see https://www.ecfr.gov/current/title-7/subtitle-B/chapter-II/subchapter-C/part-273/subpart-D/section-273.8
+ * @see https://wrd.urban.org/
+ * @see https://www.medicaid.gov/medicaid/eligibility/index.html
+ */
+
+import type { HouseholdAssets } from '../db/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssetCategory = keyof HouseholdAssets;
+
+/**
+ * Programs with a resource test
+ */
+export type ResourceProgram = 'ssi' | 'snap' | 'tanf' | 'medicaid';
+
+/**
+ * Resource limits for one program
+ */
+export interface ResourceLimits {
+  standard: number;
+  /** Higher limit for couples (SSI, Medicaid) or households with an elderly or disabled member (SNAP, TANF) */
+  higher: number;
+}
+
+/**
+ * Outcome of a resource test
+ */
+export interface ResourceTestResult {
+  program: ResourceProgram;
+  countable: number;
+  excluded: number;
+  /** null when there is no resource test (the state has none, or its limit is not known) */
+  limit: number | null;
+  passes: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ASSET_CATEGORIES: readonly AssetCategory[] = [
+  'cash',
+  'bankAccounts',
+  'primaryVehicle',
+  'otherVehicles',
+  'realProperty',
+  'retirementAccounts',
+];
+
+/**
+ * Asset categories each program leaves out of countable resources
+ *
+ * - SSI excludes one vehicle used for transportation regardless of value
+ *   (20 CFR § 416.1218); retirement funds that can be withdrawn count.
+ * - SNAP excludes tax-preferred retirement accounts (7 CFR § 273.8(e)(2));
+ *   nearly every state excludes at least one vehicle.
+ * - TANF rules are set by each state; most exclude a vehicle and
+ *   retirement savings.
+ * - Non-MAGI Medicaid follows SSI methodology (42 CFR § 435.601), so it
+ *   uses the SSI exclusions.
+ */
+export const RESOURCE_EXCLUSIONS: Readonly<Record<ResourceProgram, readonly AssetCategory[]>> = {
+  ssi: ['primaryVehicle'],
+  snap: ['primaryVehicle', 'retirementAccounts'],
+  tanf: ['primaryVehicle', 'retirementAccounts'],
+  medicaid: ['primaryVehicle'],
+};
+
+/**
+ * Resource limits by program, used when a state sets no limit of its own
+ *
+ * SSI limits are set by statute; SNAP limits are adjusted each fiscal year
+ * (FY 2025 shown). TANF has no national limit, so households are only
+ * screened on TANF resources once their state is known. Most states use
+ * the SSI limits for non-MAGI Medicaid.
+ */
+export const RESOURCE_LIMITS: Readonly<Record<ResourceProgram, ResourceLimits | null>> = {
+  ssi: { standard: 2000, higher: 3000 },
+  snap: { standard: 3000, higher: 4500 },
+  tanf: null,
+  medicaid: { standard: 2000, higher: 3000 },
+};
+
+/**
+ * Approximate TANF resource limits for applicants by state (2024)
+ *
+ * `null` marks states without a TANF resource test. The higher limit
+ * applies to families with an elderly or disabled member where the state
+ * sets one.
+ */
+export const TANF_STATE_RESOURCE_LIMITS: Readonly<Record<string, ResourceLimits | null>> = {
+  AL: null,
+  AK: { standard: 2000, higher: 3000 },
+  AZ: { standard: 2000, higher: 2000 },
+  AR: { standard: 3000, higher: 3000 },
+  CA: { standard: 12137, higher: 18206 },
+  CO: null,
+  CT: { standard: 6000, higher: 6000 },
+  DE: { standard: 10000, higher: 10000 },
+  DC: { standard: 2000, higher: 3000 },
+  FL: { standard: 2000, higher: 2000 },
+  GA: { standard: 1000, higher: 1000 },
+  HI: null,
+  ID: { standard: 5000, higher: 5000 },
+  IL: null,
+  IN: { standard: 10000, higher: 10000 },
+  IA: { standard: 2000, higher: 2000 },
+  KS: { standard: 2000, higher: 2000 },
+  KY: { standard: 10000, higher: 10000 },
+  LA: null,
+  ME: { standard: 2000, higher: 2000 },
+  MD: null,
+  MA: { standard: 5000, higher: 5000 },
+  MI: { standard: 15000, higher: 15000 },
+  MN: { standard: 10000, higher: 10000 },
+  MS: { standard: 2000, higher: 2000 },
+  MO: { standard: 5000, higher: 5000 },
+  MT: { standard: 3000, higher: 3000 },
+  NE: { standard: 6000, higher: 6000 },
+  NV: { standard: 10000, higher: 10000 },
+  NH: { standard: 1000, higher: 1000 },
+  NJ: { standard: 2000, higher: 2000 },
+  NM: { standard: 3500, higher: 3500 },
+  NY: { standard: 2000, higher: 3000 },
+  NC: { standard: 3000, higher: 3000 },
+  ND: { standard: 6000, higher: 6000 },
+  OH: null,
+  OK: { standard: 1000, higher: 1000 },
+  OR: { standard: 2500, higher: 2500 },
+  PA: { standard: 1000, higher: 1000 },
+  RI: { standard: 1000, higher: 1000 },
+  SC: { standard: 2500, higher: 2500 },
+  SD: { standard: 2000, higher: 2000 },
+  TN: { standard: 2000, higher: 2000 },
+  TX: { standard: 1000, higher: 1000 },
+  UT: { standard: 2000, higher: 2000 },
+  VT: { standard: 9000, higher: 9000 },
+  VA: null,
+  WA: { standard: 6000, higher: 6000 },
+  WV: { standard: 2000, higher: 2000 },
+  WI: { standard: 2500, higher: 2500 },
+  WY: { standard: 2500, higher: 2500 },
+};
+
+/**
+ * Approximate non-MAGI Medicaid resource limits for states that do not use
+ * the SSI limits (2025; California from 2026)
+ *
+ * The higher limit applies to couples.
+ */
+export const MEDICAID_STATE_RESOURCE_LIMITS: Readonly<Record<string, ResourceLimits | null>> = {
+  CA: { standard: 130000, higher: 195000 },
+  CT: { standard: 1600, higher: 2400 },
+  MN: { standard: 3000, higher: 6000 },
+  ND: { standard: 3000, higher: 6000 },
+  NY: { standard: 32396, higher: 43781 },
+};
+
+/**
+ * State limits that replace a program's national limit
+ */
+const STATE_RESOURCE_LIMITS: Readonly<Partial<Record<ResourceProgram, Readonly<Record<string, ResourceLimits | null>>>>> = {
+  tanf: TANF_STATE_RESOURCE_LIMITS,
+  medicaid: MEDICAID_STATE_RESOURCE_LIMITS,
+};
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function toAmount(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {return undefined;}
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]+/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Normalize raw asset data (questionnaire answers or stored profile data)
+ *
+ * Returns undefined when the input is not an object. Negative or
+ * non-numeric amounts are dropped.
+ */
+export function normalizeHouseholdAssets(raw: unknown): HouseholdAssets | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {return undefined;}
+  const source = raw as Record<string, unknown>;
+  const assets: HouseholdAssets = {};
+
+  for (const category of ASSET_CATEGORIES) {
+    const amount = toAmount(source[category]);
+    if (amount !== undefined) {
+      assets[category] = amount;
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * Check whether a value names a program with a resource test
+ */
+export function isResourceProgram(value: unknown): value is ResourceProgram {
+  return value === 'ssi' || value === 'snap' || value === 'tanf' || value === 'medicaid';
+}
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Total of every reported asset, before exclusions
+ */
+export function getTotalAssets(assets: HouseholdAssets): number {
+  return ASSET_CATEGORIES.reduce((total, category) => total + (assets[category] ?? 0), 0);
+}
+
+/**
+ * Countable resources for a program after its exclusions
+ *
+ * @example
+ * ```typescript
+ * const assets = { bankAccounts: 1200, primaryVehicle: 8000, retirementAccounts: 5000 };
+ * getCountableResources('ssi', assets); // 6200 (vehicle excluded)
+ * getCountableResources('snap', assets); // 1200 (vehicle and retirement excluded)
+ * ```
+ */
+export function getCountableResources(program: ResourceProgram, assets: HouseholdAssets): number {
+  const excluded = RESOURCE_EXCLUSIONS[program];
+  return ASSET_CATEGORIES
+    .filter(category => !excluded.includes(category))
+    .reduce((total, category) => total + (assets[category] ?? 0), 0);
+}
+
+/**
+ * Resource limit for a program
+ *
+ * Returns null when there is no resource test: the state has none, or the
+ * program has no national limit and the state is unknown.
+ *
+ * @param useHigherLimit Couple (SSI, Medicaid) or household with an elderly or disabled member (SNAP, TANF)
+ * @param stateCode Two-letter state code, for programs whose states set limits
+ *
+ * @example
+ * ```typescript
+ * getResourceLimit('ssi', true); // 3000
+ * getResourceLimit('tanf', false, 'MA'); // 5000
+ * getResourceLimit('tanf', false, 'OH'); // null (no resource test)
+ * ```
+ */
+export function getResourceLimit(
+  program: ResourceProgram,
+  useHigherLimit = false,
+  stateCode?: string | null
+): number | null {
+  const stateLimits = STATE_RESOURCE_LIMITS[program];
+  const state = stateCode?.toUpperCase();
+  const limits = stateLimits && state && Object.prototype.hasOwnProperty.call(stateLimits, state)
+    ? stateLimits[state]
+    : RESOURCE_LIMITS[program];
+
+  if (!limits) {return null;}
+  return useHigherLimit ? limits.higher : limits.standard;
+}
+
+/**
+ * Run a program's resource test
+ *
+ * Resources at the limit pass; only amounts above it disqualify. Without
+ * a limit the test passes.
+ */
+export function evaluateResourceTest(
+  program: ResourceProgram,
+  assets: HouseholdAssets,
+  useHigherLimit = false,
+  stateCode?: string | null
+): ResourceTestResult {
+  const countable = getCountableResources(program, assets);
+  const limit = getResourceLimit(program, useHigherLimit, stateCode);
+
+  return {
+    program,
+    countable,
+    excluded: getTotalAssets(assets) - countable,
+    limit,
+    passes: limit === null || countable <= limit,
+  };
+}
@@ -110,7 +110,7 @@ export type EncryptionStrength = 'none' | 'weak' | 'medium' | 'strong' | 'very-s
  * @param buffer ArrayBuffer or ArrayBufferLike to convert
  * @returns Base64-encoded string
  */
-function arrayBufferToBase64(buffer: ArrayBufferLike): string {
+export function arrayBufferToBase64(buffer: ArrayBufferLike): string {
   const bytes = new Uint8Array(buffer);
   let binary = '';
   for (let i = 0; i < bytes.length; i++) {
@@ -151,7 +151,7 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
  * @param base64 Base64-encoded string
  * @returns Uint8Array
  */
-function base64ToUint8Array(base64: string): Uint8Array {
+export function base64ToUint8Array(base64: string): Uint8Array {
   let binary: string;
 
   // Use atob if available (browser), otherwise use Buffer (Node.js)
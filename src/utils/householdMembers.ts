@@ -0,0 +1,348 @@
+/**
+ * Household Member Utilities
+ *
+ * Normalizes household member answers and derives the flat, household-level
+ * profile fields (size, income, pregnancy, children, ...) that existing rule
+ * JSON was written against. Rules that need per-person logic can use the
+ * member context array with JSON Logic `some` / `all` / `none` / `filter`.
+ */
+
+import type {
+  HouseholdMember,
+  HouseholdMemberIncome,
+  HouseholdMemberRelationship,
+} from '../db/schemas';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Relationships accepted for a household member */
+export const MEMBER_RELATIONSHIPS: readonly HouseholdMemberRelationship[] = [
+  'self',
+  'spouse',
+  'child',
+  'parent',
+  'grandparent',
+  'grandchild',
+  'sibling',
+  'other',
+];
+
+/** Income sources counted as earned income */
+export const EARNED_INCOME_SOURCES = ['wages', 'selfEmployment'] as const;
+
+/** Income sources counted as unearned income */
+export const UNEARNED_INCOME_SOURCES = [
+  'socialSecurity',
+  'ssi',
+  'ssdi',
+  'childSupport',
+  'unemployment',
+  'pension',
+  'other',
+] as const;
+
+export type MemberIncomeSource = keyof HouseholdMemberIncome;
+
+/** All member income sources, earned first */
+export const MEMBER_INCOME_SOURCES: readonly MemberIncomeSource[] = [
+  ...EARNED_INCOME_SOURCES,
+  ...UNEARNED_INCOME_SOURCES,
+];
+
+const CHILD_AGE_LIMIT = 18;
+const ELDERLY_AGE = 65;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Household member as exposed to rule evaluation
+ *
+ * Every field is populated so rules can reference them without null checks.
+ */
+export interface HouseholdMemberContext {
+  id: string;
+  relationship: HouseholdMemberRelationship;
+  age: number | null;
+  isChild: boolean;
+  isElderly: boolean;
+  isPregnant: boolean;
+  hasDisability: boolean;
+  isBlind: boolean;
+  isStudent: boolean;
+  citizenship: HouseholdMember['citizenship'] | null;
+  isCitizen: boolean;
+  income: Required<HouseholdMemberIncome>;
+  earnedIncome: number;
+  unearnedIncome: number;
+  totalIncome: number;
+}
+
+/**
+ * Household-level fields derived from the member list
+ *
+ * Optional fields are omitted when no member supplies the information,
+ * so callers can fall back to the answer the user gave directly.
+ */
+export interface DerivedHouseholdFields {
+  householdSize: number;
+  /** Monthly total across all members (only when any member reports income) */
+  monthlyIncome?: number;
+  earnedIncome?: number;
+  unearnedIncome?: number;
+  /** Applicant ('self') fields */
+  dateOfBirth?: string;
+  age?: number;
+  citizenship?: HouseholdMember['citizenship'];
+  hasDisability?: boolean;
+  isBlind?: boolean;
+  isElderly?: boolean;
+  /** Household flags */
+  isMarried: boolean;
+  isPregnant: boolean;
+  hasChildren: boolean;
+  childCount: number;
+  elderlyCount: number;
+  disabledMemberCount: number;
+  pregnantMemberCount: number;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === 'true') {return true;}
+  if (value === false || value === 'false') {return false;}
+  return undefined;
+}
+
+function toAmount(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {return undefined;}
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]+/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function normalizeIncome(raw: unknown): HouseholdMemberIncome | undefined {
+  if (!raw || typeof raw !== 'object') {return undefined;}
+  const source = raw as Record<string, unknown>;
+  const income: HouseholdMemberIncome = {};
+  let hasAny = false;
+
+  for (const key of MEMBER_INCOME_SOURCES) {
+    const amount = toAmount(source[key]);
+    if (amount !== undefined) {
+      income[key] = amount;
+      hasAny = true;
+    }
+  }
+
+  return hasAny ? income : undefined;
+}
+
+/**
+ * Normalize raw member answers (from the questionnaire or imports)
+ *
+ * Accepts string booleans and numeric strings, assigns ids to members that
+ * lack one and drops entries that are not objects.
+ */
+export function normalizeHouseholdMembers(raw: unknown): HouseholdMember[] {
+  if (!Array.isArray(raw)) {return [];}
+
+  const members: HouseholdMember[] = [];
+
+  raw.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') {return;}
+    const source = entry as Record<string, unknown>;
+
+    const relationship = MEMBER_RELATIONSHIPS.includes(source.relationship as HouseholdMemberRelationship)
+      ? source.relationship as HouseholdMemberRelationship
+      : 'other';
+
+    const member: HouseholdMember = {
+      id: typeof source.id === 'string' && source.id.length > 0 ? source.id : `member-${index + 1}`,
+      relationship,
+    };
+
+    if (typeof source.dateOfBirth === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(source.dateOfBirth)) {
+      member.dateOfBirth = source.dateOfBirth;
+    }
+
+    const age = toAmount(source.age);
+    if (age !== undefined) {
+      member.age = Math.floor(age);
+    }
+
+    if (typeof source.citizenship === 'string') {
+      member.citizenship = source.citizenship as HouseholdMember['citizenship'];
+    }
+
+    const flags = ['hasDisability', 'isBlind', 'isPregnant', 'isStudent'] as const;
+    for (const flag of flags) {
+      const value = toBoolean(source[flag]);
+      if (value !== undefined) {
+        member[flag] = value;
+      }
+    }
+
+    const income = normalizeIncome(source.income);
+    if (income) {
+      member.income = income;
+    }
+
+    members.push(member);
+  });
+
+  return members;
+}
+
+// ============================================================================
+// PER-MEMBER HELPERS
+// ============================================================================
+
+/**
+ * Get a member's age in whole years
+ *
+ * Date of birth takes precedence over a stored age.
+ */
+export function getMemberAge(member: HouseholdMember, asOf: Date = new Date()): number | undefined {
+  if (member.dateOfBirth) {
+    // Parse as a local date to avoid timezone shifts
+    const [year, month, day] = member.dateOfBirth.split('-').map(Number);
+    const birthDate = new Date(year, month - 1, day);
+    let age = asOf.getFullYear() - birthDate.getFullYear();
+    const monthDiff = asOf.getMonth() - birthDate.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && asOf.getDate() < birthDate.getDate())) {
+      age--;
+    }
+    return age;
+  }
+  return member.age;
+}
+
+/**
+ * Sum a member's monthly income for the given sources
+ */
+export function sumMemberIncome(
+  member: HouseholdMember,
+  sources: readonly MemberIncomeSource[] = MEMBER_INCOME_SOURCES
+): number {
+  if (!member.income) {return 0;}
+  const income = member.income;
+  return sources.reduce((total, source) => total + (income[source] ?? 0), 0);
+}
+
+/**
+ * Build the rule-facing context for one member
+ */
+export function buildMemberContext(member: HouseholdMember, asOf: Date = new Date()): HouseholdMemberContext {
+  const age = getMemberAge(member, asOf);
+  const income = Object.fromEntries(
+    MEMBER_INCOME_SOURCES.map(source => [source, member.income?.[source] ?? 0])
+  ) as Required<HouseholdMemberIncome>;
+  const earnedIncome = sumMemberIncome(member, EARNED_INCOME_SOURCES);
+  const unearnedIncome = sumMemberIncome(member, UNEARNED_INCOME_SOURCES);
+
+  return {
+    id: member.id,
+    relationship: member.relationship,
+    age: age ?? null,
+    isChild: age !== undefined && age < CHILD_AGE_LIMIT,
+    isElderly: age !== undefined && age >= ELDERLY_AGE,
+    isPregnant: member.isPregnant === true,
+    hasDisability: member.hasDisability === true,
+    isBlind: member.isBlind === true,
+    isStudent: member.isStudent === true,
+    citizenship: member.citizenship ?? null,
+    isCitizen: member.citizenship === 'us_citizen',
+    income,
+    earnedIncome,
+    unearnedIncome,
+    totalIncome: earnedIncome + unearnedIncome,
+  };
+}
+
+// ============================================================================
+// HOUSEHOLD DERIVATION
+// ============================================================================
+
+/**
+ * Derive the flat household fields from the member list
+ *
+ * Applicant fields (date of birth, citizenship, disability, blindness) come
+ * from the member marked 'self'. Household flags are true when any member
+ * qualifies: `isPregnant` when anyone is pregnant, `hasChildren` when anyone
+ * is under 18.
+ */
+export function deriveHouseholdFields(
+  members: HouseholdMember[],
+  asOf: Date = new Date()
+): DerivedHouseholdFields {
+  const contexts = members.map(member => buildMemberContext(member, asOf));
+  const self = members.find(member => member.relationship === 'self');
+  const selfContext = contexts.find(context => context.relationship === 'self');
+  const reportsIncome = members.some(member => member.income !== undefined);
+
+  const derived: DerivedHouseholdFields = {
+    householdSize: members.length,
+    isMarried: members.some(member => member.relationship === 'spouse'),
+    isPregnant: contexts.some(context => context.isPregnant),
+    hasChildren: contexts.some(context => context.isChild),
+    childCount: contexts.filter(context => context.isChild).length,
+    elderlyCount: contexts.filter(context => context.isElderly).length,
+    disabledMemberCount: contexts.filter(context => context.hasDisability).length,
+    pregnantMemberCount: contexts.filter(context => context.isPregnant).length,
+  };
+
+  if (reportsIncome) {
+    derived.earnedIncome = contexts.reduce((total, context) => total + context.earnedIncome, 0);
+    derived.unearnedIncome = contexts.reduce((total, context) => total + context.unearnedIncome, 0);
+    derived.monthlyIncome = derived.earnedIncome + derived.unearnedIncome;
+  }
+
+  if (self && selfContext) {
+    if (self.dateOfBirth) {derived.dateOfBirth = self.dateOfBirth;}
+    if (selfContext.age !== null) {
+      derived.age = selfContext.age;
+      derived.isElderly = selfContext.isElderly;
+    }
+    if (self.citizenship) {derived.citizenship = self.citizenship;}
+    if (self.hasDisability !== undefined) {derived.hasDisability = self.hasDisability;}
+    if (self.isBlind !== undefined) {derived.isBlind = self.isBlind;}
+  }
+
+  return derived;
+}
+
+/**
+ * Build the member-related portion of the rule data context
+ *
+ * Returns the `householdMembers` array plus the derived flat fields,
+ * with `householdIncome` expressed as a monthly amount.
+ */
+export function buildHouseholdMemberDataContext(
+  members: HouseholdMember[],
+  asOf: Date = new Date()
+): Record<string, unknown> {
+  const derived = deriveHouseholdFields(members, asOf);
+  const { monthlyIncome, ...rest } = derived;
+
+  const context: Record<string, unknown> = {
+    householdMembers: members.map(member => buildMemberContext(member, asOf)),
+  };
+
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) {
+      context[key] = value;
+    }
+  }
+
+  if (monthlyIncome !== undefined) {
+    context.householdIncome = monthlyIncome;
+  }
+
+  return context;
+}
@@ -0,0 +1,188 @@
+/**
+ * iCalendar Writer
+ *
+ * Writes RFC 5545 `.ics` files that any calendar app can import, so users
+ * get reminders from their own calendar instead of a push service. Events
+ * are all-day, on the local calendar date they fall on, and each can carry
+ * display alarms.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IcsAlarm {
+  /** How long before the start of the event day the alarm fires */
+  minutesBefore: number;
+  description: string;
+}
+
+export interface IcsEvent {
+  /** Globally unique; reusing it lets a re-import update the event */
+  uid: string;
+  /** Day of the event, in local time */
+  date: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  alarms?: IcsAlarm[];
+}
+
+export interface IcsCalendarOptions {
+  /** Calendar name shown by apps that support X-WR-CALNAME */
+  name?: string;
+  /** Product identifier (default: '-//Benefit Finder//Applications//EN') */
+  productId?: string;
+  /** Timestamp written as DTSTAMP (default: now) */
+  createdAt?: Date;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_PRODUCT_ID = '-//Benefit Finder//Applications//EN';
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Local calendar date as an RFC 5545 DATE value
+ */
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/**
+ * Instant as an RFC 5545 UTC DATE-TIME value
+ */
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Negative duration for an alarm trigger, e.g. -P7D or -PT15H
+ */
+function formatTrigger(minutesBefore: number): string {
+  const minutes = Math.max(0, Math.round(minutesBefore));
+  if (minutes === 0) {return 'PT0M';}
+  if (minutes % (24 * 60) === 0) {return `-P${minutes / (24 * 60)}D`;}
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `-PT${hours > 0 ? `${hours}H` : ''}${rest > 0 ? `${rest}M` : ''}`;
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks
+ *
+ * @example
+ * escapeIcsText('Bring ID, pay stubs; lease'); // 'Bring ID\\, pay stubs\\; lease'
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no line is longer than 75 octets
+ *
+ * Continuation lines start with a space, and multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+}
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const end = new Date(event.date.getFullYear(), event.date.getMonth(), event.date.getDate() + 1);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  // Reminders should not show the whole day as busy
+  lines.push('TRANSP:TRANSPARENT');
+
+  for (const alarm of event.alarms ?? []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(alarm.description)}`,
+      `TRIGGER:${formatTrigger(alarm.minutesBefore)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Write events as the text of an `.ics` file
+ *
+ * @example
+ * const ics = createIcsCalendar([{
+ *   uid: 'snap-federal-deadline@benefit-finder',
+ *   date: new Date(2025, 5, 30),
+ *   summary: 'Apply for SNAP',
+ *   alarms: [{ minutesBefore: 7 * 24 * 60, description: 'SNAP application due in a week' }],
+ * }]);
+ */
+export function createIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const stamp = formatUtcDateTime(options.createdAt ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.productId ?? DEFAULT_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  }
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
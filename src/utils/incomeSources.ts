@@ -0,0 +1,202 @@
+/**
+ * Income Sources
+ *
+ * Normalizes income reported by source and pay frequency, converts each
+ * amount to a monthly figure and splits the total into earned and unearned
+ * income for rules.
+ *
+ * Conversions follow the usual benefit agency practice: weekly pay is
+ * multiplied by 52 weeks and biweekly by 26 pay periods before dividing
+ * by 12, rather than assuming four weeks per month.
+ *
+ * @see https://www.ecfr.gov/current/title-7/subtitle-B/chapter-II/subchapter-C/part-273/subpart-D/section-273.10
+ */
+
+import type { IncomeFrequency, IncomeSourceEntry, IncomeSourceType } from '../db/schemas';
+import type { IncomeDetails } from '../types/household';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Income source kinds, earned first */
+export const INCOME_SOURCE_TYPES: readonly IncomeSourceType[] = [
+  'employment',
+  'selfEmployment',
+  'socialSecurity',
+  'disability',
+  'pension',
+  'childSupport',
+  'alimony',
+  'unemployment',
+  'other',
+];
+
+/** Income source kinds counted as earned income */
+export const EARNED_INCOME_SOURCE_TYPES: readonly IncomeSourceType[] = ['employment', 'selfEmployment'];
+
+/** Pay frequencies accepted for an income source */
+export const INCOME_FREQUENCIES: readonly IncomeFrequency[] = [
+  'weekly',
+  'biweekly',
+  'semimonthly',
+  'monthly',
+  'annual',
+  'hourly',
+];
+
+/** Pay periods per year for each fixed frequency */
+export const PERIODS_PER_YEAR: Readonly<Record<Exclude<IncomeFrequency, 'hourly'>, number>> = {
+  weekly: 52,
+  biweekly: 26,
+  semimonthly: 24,
+  monthly: 12,
+  annual: 1,
+};
+
+const WEEKS_PER_YEAR = 52;
+const MAX_HOURS_PER_WEEK = 168;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Monthly income totals derived from income sources
+ */
+export interface IncomeSourceSummary {
+  /** Monthly amount per source; `total` is the sum */
+  details: IncomeDetails;
+  earnedIncome: number;
+  unearnedIncome: number;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function toAmount(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {return undefined;}
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]+/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function isIncomeSourceType(value: unknown): value is IncomeSourceType {
+  return INCOME_SOURCE_TYPES.includes(value as IncomeSourceType);
+}
+
+function isIncomeFrequency(value: unknown): value is IncomeFrequency {
+  return INCOME_FREQUENCIES.includes(value as IncomeFrequency);
+}
+
+/**
+ * Normalize raw income source entries (questionnaire answers or stored profile data)
+ *
+ * Entries without a known source, frequency or a valid amount are dropped,
+ * as are hourly entries without hours. Missing ids are filled in.
+ */
+export function normalizeIncomeSources(raw: unknown): IncomeSourceEntry[] {
+  if (!Array.isArray(raw)) {return [];}
+
+  const entries: IncomeSourceEntry[] = [];
+  raw.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {return;}
+    const source = item as Record<string, unknown>;
+    const amount = toAmount(source.amount);
+    if (!isIncomeSourceType(source.source) || !isIncomeFrequency(source.frequency) || amount === undefined) {return;}
+
+    const entry: IncomeSourceEntry = {
+      id: typeof source.id === 'string' && source.id.length > 0 ? source.id : `income-${index + 1}`,
+      source: source.source,
+      amount,
+      frequency: source.frequency,
+    };
+
+    if (entry.frequency === 'hourly') {
+      const hours = toAmount(source.hoursPerWeek);
+      if (!hours || hours > MAX_HOURS_PER_WEEK) {return;}
+      entry.hoursPerWeek = hours;
+    }
+
+    entries.push(entry);
+  });
+
+  return entries;
+}
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Convert an amount received at a pay frequency to a monthly amount
+ *
+ * Hourly pay is rate × hours per week × 52 weeks ÷ 12. Results are rounded
+ * to cents.
+ *
+ * @example
+ * ```typescript
+ * toMonthlyAmount(500, 'weekly'); // 2166.67
+ * toMonthlyAmount(1000, 'biweekly'); // 2166.67
+ * toMonthlyAmount(15, 'hourly', 30); // 1950
+ * ```
+ */
+export function toMonthlyAmount(amount: number, frequency: IncomeFrequency, hoursPerWeek = 0): number {
+  const annual = frequency === 'hourly'
+    ? amount * hoursPerWeek * WEEKS_PER_YEAR
+    : amount * PERIODS_PER_YEAR[frequency];
+  return Math.round((annual / 12) * 100) / 100;
+}
+
+/**
+ * Monthly amount of one income source entry
+ */
+export function getMonthlyIncome(entry: IncomeSourceEntry): number {
+  return toMonthlyAmount(entry.amount, entry.frequency, entry.hoursPerWeek);
+}
+
+/**
+ * Check whether an income source kind counts as earned income
+ */
+export function isEarnedIncomeSource(source: IncomeSourceType): boolean {
+  return EARNED_INCOME_SOURCE_TYPES.includes(source);
+}
+
+/**
+ * Total monthly income by source, plus the earned/unearned split
+ *
+ * @example
+ * ```typescript
+ * summarizeIncomeSources([
+ *   { id: 'a', source: 'employment', amount: 1000, frequency: 'biweekly' },
+ *   { id: 'b', source: 'childSupport', amount: 300, frequency: 'monthly' },
+ * ]);
+ * // { details: { employment: 2166.67, childSupport: 300, total: 2466.67 },
+ * //   earnedIncome: 2166.67, unearnedIncome: 300 }
+ * ```
+ */
+export function summarizeIncomeSources(entries: IncomeSourceEntry[]): IncomeSourceSummary {
+  const details: IncomeDetails = { total: 0 };
+  let earnedIncome = 0;
+  let unearnedIncome = 0;
+
+  for (const entry of entries) {
+    const monthly = getMonthlyIncome(entry);
+    details[entry.source] = roundCents((details[entry.source] ?? 0) + monthly);
+    if (isEarnedIncomeSource(entry.source)) {
+      earnedIncome += monthly;
+    } else {
+      unearnedIncome += monthly;
+    }
+  }
+
+  earnedIncome = roundCents(earnedIncome);
+  unearnedIncome = roundCents(unearnedIncome);
+  details.total = roundCents(earnedIncome + unearnedIncome);
+
+  return { details, earnedIncome, unearnedIncome };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,240 @@
+/**
+ * Poverty Guideline Tables
+ *
+ * Year- and region-versioned HHS poverty guidelines. Income limits expressed
+ * as a percentage of the Federal Poverty Level (FPL) are computed from these
+ * tables, so an annual update only requires adding the new year's data file
+ * under `src/data/sources/poverty-guidelines/`.
+ *
+ * @see https://aspe.hhs.gov/topics/poverty-economic-mobility/poverty-guidelines
+ */
+
+import { POVERTY_GUIDELINE_SOURCES } from '../data/sources/poverty-guidelines';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Guideline regions published by HHS
+ */
+export type PovertyGuidelineRegion = 'contiguous' | 'alaska' | 'hawaii';
+
+/**
+ * Annual guideline amounts for one region
+ */
+export interface RegionGuidelines {
+  /** Annual guideline by household size (1-8) */
+  annual: Record<number, number>;
+  /** Amount added for each person beyond 8 */
+  perAdditionalPerson: number;
+}
+
+/**
+ * Guideline table for one year
+ */
+export interface PovertyGuidelineTable {
+  year: number;
+  /** Date (YYYY-MM-DD) the guidelines took effect */
+  effectiveDate: string;
+  source: string;
+  url?: string;
+  regions: Record<PovertyGuidelineRegion, RegionGuidelines>;
+}
+
+/**
+ * Options for selecting a guideline table
+ */
+export interface GuidelineLookupOptions {
+  /** Guideline year; takes precedence over `asOf` */
+  year?: number;
+  /** Select the table in effect on this date */
+  asOf?: Date | number | string;
+  region?: PovertyGuidelineRegion;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Households up to this size have an explicit guideline amount
+ */
+export const MAX_LISTED_HOUSEHOLD_SIZE = 8;
+
+/**
+ * Loaded tables, sorted by year ascending
+ */
+export const POVERTY_GUIDELINE_TABLES: readonly PovertyGuidelineTable[] = normalizeSources(POVERTY_GUIDELINE_SOURCES);
+
+/**
+ * Most recent guideline year available
+ */
+export const LATEST_GUIDELINE_YEAR = POVERTY_GUIDELINE_TABLES[POVERTY_GUIDELINE_TABLES.length - 1].year;
+
+function normalizeSources(sources: unknown[]): PovertyGuidelineTable[] {
+  const tables = sources.map(source => {
+    const table = source as PovertyGuidelineTable;
+    const regions = {} as Record<PovertyGuidelineRegion, RegionGuidelines>;
+
+    for (const [region, guidelines] of Object.entries(table.regions)) {
+      const annual: Record<number, number> = {};
+      for (const [size, amount] of Object.entries(guidelines.annual)) {
+        annual[Number(size)] = amount;
+      }
+      regions[region as PovertyGuidelineRegion] = { annual, perAdditionalPerson: guidelines.perAdditionalPerson };
+    }
+
+    return { ...table, regions };
+  });
+
+  if (tables.length === 0) {
+    throw new Error('No poverty guideline tables are available');
+  }
+
+  return tables.sort((a, b) => a.year - b.year);
+}
+
+// ============================================================================
+// TABLE SELECTION
+// ============================================================================
+
+function toTimestamp(date: Date | number | string): number {
+  if (date instanceof Date) {return date.getTime();}
+  if (typeof date === 'number') {return date;}
+  return Date.parse(date);
+}
+
+/**
+ * Get the guideline year in effect on a date
+ *
+ * Returns the latest table whose effective date is on or before `asOf`.
+ * Dates before the earliest table resolve to the earliest year.
+ */
+export function getGuidelineYearForDate(asOf: Date | number | string = new Date()): number {
+  const timestamp = toTimestamp(asOf);
+  if (Number.isNaN(timestamp)) {
+    return LATEST_GUIDELINE_YEAR;
+  }
+
+  let year = POVERTY_GUIDELINE_TABLES[0].year;
+  for (const table of POVERTY_GUIDELINE_TABLES) {
+    if (Date.parse(table.effectiveDate) <= timestamp) {
+      year = table.year;
+    }
+  }
+  return year;
+}
+
+/**
+ * Get the guideline table for a year
+ *
+ * Years without a table fall back to the closest earlier year (or the
+ * earliest table when the year predates all data).
+ */
+export function getPovertyGuidelineTable(year: number = LATEST_GUIDELINE_YEAR): PovertyGuidelineTable {
+  let selected = POVERTY_GUIDELINE_TABLES[0];
+  for (const table of POVERTY_GUIDELINE_TABLES) {
+    if (table.year <= year) {
+      selected = table;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Get the guideline years that have data
+ */
+export function getAvailableGuidelineYears(): number[] {
+  return POVERTY_GUIDELINE_TABLES.map(table => table.year);
+}
+
+/**
+ * Map a state code to its guideline region
+ */
+export function getGuidelineRegionForState(stateCode?: string | null): PovertyGuidelineRegion {
+  switch (stateCode?.toUpperCase()) {
+    case 'AK':
+      return 'alaska';
+    case 'HI':
+      return 'hawaii';
+    default:
+      return 'contiguous';
+  }
+}
+
+function resolveYear(options: GuidelineLookupOptions): number {
+  if (options.year !== undefined) {return options.year;}
+  if (options.asOf !== undefined) {return getGuidelineYearForDate(options.asOf);}
+  return LATEST_GUIDELINE_YEAR;
+}
+
+// ============================================================================
+// GUIDELINE CALCULATIONS
+// ============================================================================
+
+/**
+ * Get the annual poverty guideline (100% FPL) for a household
+ *
+ * @example
+ * ```typescript
+ * getAnnualPovertyGuideline(3, { year: 2025 }); // 26650
+ * getAnnualPovertyGuideline(2, { year: 2025, region: 'alaska' }); // 26430
+ * ```
+ */
+export function getAnnualPovertyGuideline(
+  householdSize: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  if (householdSize < 1) {
+    throw new Error('Household size must be at least 1');
+  }
+
+  const table = getPovertyGuidelineTable(resolveYear(options));
+  const guidelines = table.regions[options.region ?? 'contiguous'];
+  const size = Math.floor(householdSize);
+
+  if (size <= MAX_LISTED_HOUSEHOLD_SIZE) {
+    return guidelines.annual[size];
+  }
+
+  const additionalPeople = size - MAX_LISTED_HOUSEHOLD_SIZE;
+  return guidelines.annual[MAX_LISTED_HOUSEHOLD_SIZE] + (guidelines.perAdditionalPerson * additionalPeople);
+}
+
+/**
+ * Get a monthly income limit at a percentage of FPL
+ *
+ * Follows the USDA convention for published monthly limits: each listed
+ * household size and the per-additional-person increment are converted to
+ * monthly amounts and rounded up to the next whole dollar.
+ *
+ * @example
+ * ```typescript
+ * getMonthlyFPLLimit(1, 130, { year: 2025 }); // 1696
+ * getMonthlyFPLLimit(10, 130, { year: 2025 }); // 5867 + 2 × 596 = 7059
+ * ```
+ */
+export function getMonthlyFPLLimit(
+  householdSize: number,
+  percentage: number,
+  options: GuidelineLookupOptions = {}
+): number {
+  if (householdSize < 1) {
+    throw new Error('Household size must be at least 1');
+  }
+
+  const table = getPovertyGuidelineTable(resolveYear(options));
+  const guidelines = table.regions[options.region ?? 'contiguous'];
+  const size = Math.floor(householdSize);
+  // Round to cents first so floating point noise cannot push an exact amount up a dollar
+  const toMonthly = (annual: number): number => Math.ceil(Math.round((annual * percentage) / 12) / 100);
+
+  if (size <= MAX_LISTED_HOUSEHOLD_SIZE) {
+    return toMonthly(guidelines.annual[size]);
+  }
+
+  const additionalPeople = size - MAX_LISTED_HOUSEHOLD_SIZE;
+  return toMonthly(guidelines.annual[MAX_LISTED_HOUSEHOLD_SIZE])
+    + (toMonthly(guidelines.perAdditionalPerson) * additionalPeople);
+}
@@ -0,0 +1,452 @@
+/**
+ * QR Code Encoder
+ *
+ * Encodes text as a QR code (ISO/IEC 18004, byte mode) entirely in the
+ * browser, so data can be shown to another device's camera without any
+ * network request or third-party service.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Error correction level: L recovers ~7% of the symbol, M ~15% */
+export type QrErrorCorrection = 'L' | 'M';
+
+export interface QrCodeOptions {
+  /** Error correction level (default: 'M') */
+  errorCorrection?: QrErrorCorrection;
+  /** Largest version (size) to use, 1-40 (default: 40) */
+  maxVersion?: number;
+}
+
+export interface QrCode {
+  /** Version 1-40; the symbol is 17 + 4 * version modules wide */
+  version: number;
+  size: number;
+  /** Mask pattern 0-7 that was applied */
+  mask: number;
+  /** Rows of modules, `true` for dark */
+  modules: boolean[][];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Error correction codewords per block, indexed by version */
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+};
+
+/** Error correction blocks, indexed by version */
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+};
+
+/** Format information bits for each level */
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0 };
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// ============================================================================
+// CAPACITY
+// ============================================================================
+
+/**
+ * Modules available for data and error correction in a version
+ */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {result -= 36;}
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version];
+}
+
+/** Bits in the byte-mode character count field */
+function countBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {return [];}
+
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// ============================================================================
+// REED-SOLOMON
+// ============================================================================
+
+/** Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> bit) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {result[j] ^= result[j + 1];}
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Error correction codewords for a block of data codewords
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = rsDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Byte-mode segment, terminator and padding as data codewords
+ */
+function buildDataCodewords(data: Uint8Array, version: number, level: QrErrorCorrection): number[] {
+  const capacityBits = dataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number): void => {
+    for (let bit = length - 1; bit >= 0; bit--) {bits.push((value >>> bit) & 1);}
+  };
+
+  append(0b0100, 4);
+  append(data.length, countBits(version));
+  data.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let index = 0; index < bits.length; index += 8) {
+    codewords.push(bits.slice(index, index + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, add error correction and interleave
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+  const blocks: number[][] = [];
+  for (let block = 0, offset = 0; block < blockCount; block++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (block < shortBlocks ? 0 : 1));
+    offset += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, eccLength);
+    // Pad short blocks so every block lines up when interleaving
+    if (block < shortBlocks) {blockData.push(0);}
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let index = 0; index < blocks[0].length; index++) {
+    blocks.forEach((block, blockIndex) => {
+      if (index !== shortBlockLength - eccLength || blockIndex >= shortBlocks) {
+        result.push(block[index]);
+      }
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  /** Finder, timing, alignment, format and version modules, which masks skip */
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly level: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners that hold finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {return;}
+        this.drawAlignment(x, y);
+      });
+    });
+
+    // Reserve the format area; the real bits are drawn once the mask is chosen
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinder(centerX: number, centerY: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) {continue;}
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(centerX: number, centerY: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);}
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (index: number): boolean => ((bits >>> index) & 1) !== 0;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) {this.setFunction(8, i, bit(i));}
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) {this.setFunction(14 - i, 8, bit(i));}
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) {this.setFunction(this.size - 1 - i, 8, bit(i));}
+    for (let i = 8; i < 15; i++) {this.setFunction(8, this.size - 15 + i, bit(i));}
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {return;}
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);}
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Place codewords in the zigzag column order, skipping function modules
+   */
+  drawCodewords(codewords: number[]): void {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      // The vertical timing pattern takes up column 6
+      if (right === 6) {right = 5;}
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let column = 0; column < 2; column++) {
+          const x = right - column;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (this.isFunction[y][x] || index >= codewords.length * 8) {continue;}
+          this.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) !== 0;
+          index++;
+        }
+      }
+    }
+  }
+
+  /** Flip the data modules selected by a mask; applying it twice undoes it */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score from the four rules in the specification; lower scans better
+   */
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    const finderLike = [true, false, true, true, true, false, true];
+
+    const scoreLine = (get: (i: number) => boolean): void => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) {score += run - 2;}
+        run = 1;
+      }
+
+      // 1:1:3:1:1 finder-like runs with four light modules on either side
+      for (let i = 0; i + 7 <= size; i++) {
+        if (!finderLike.every((dark, offset) => get(i + offset) === dark)) {continue;}
+        const lightBefore = [1, 2, 3, 4].every(offset => i - offset < 0 || !get(i - offset));
+        const lightAfter = [0, 1, 2, 3].every(offset => i + 7 + offset >= size || !get(i + 7 + offset));
+        if (lightBefore || lightAfter) {score += 40;}
+      }
+    };
+
+    for (let i = 0; i < size; i++) {
+      scoreLine(x => modules[i][x]);
+      scoreLine(y => modules[y][i]);
+    }
+
+    for (let y = 0; y + 1 < size; y++) {
+      for (let x = 0; x + 1 < size; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = modules.reduce((total, row) => total + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encode text or bytes as the smallest QR code that fits
+ *
+ * @example
+ * ```typescript
+ * const qr = encodeQrCode('BFX1:3f2a9c1e:1/4:eJzt...');
+ * qr.modules[0][0]; // true - part of the top-left finder
+ * ```
+ */
+export function encodeQrCode(data: string | Uint8Array, options: QrCodeOptions = {}): QrCode {
+  const level = options.errorCorrection ?? 'M';
+  const maxVersion = Math.min(options.maxVersion ?? 40, 40);
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+  let version = 1;
+  while (version <= maxVersion && 4 + countBits(version) + bytes.length * 8 > dataCodewords(version, level) * 8) {
+    version++;
+  }
+  if (version > maxVersion) {
+    throw new Error(`Data too long for a version ${maxVersion} QR code: ${bytes.length} bytes`);
+  }
+
+  const matrix = new QrMatrix(version, level);
+  matrix.drawCodewords(addErrorCorrection(buildDataCodewords(bytes, version, level), version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { version, size: matrix.size, mask: bestMask, modules: matrix.modules };
+}
+
+/**
+ * SVG path drawing the dark modules, one unit per module
+ *
+ * @example
+ * ```tsx
+ * <svg viewBox={`0 0 ${qr.size + 8} ${qr.size + 8}`}>
+ *   <path d={qrCodeToSvgPath(qr)} transform="translate(4 4)" />
+ * </svg>
+ * ```
+ */
+export function qrCodeToSvgPath(qr: QrCode): string {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {parts.push(`M${x} ${y}h1v1h-1z`);}
+    });
+  });
+  return parts.join('');
+}
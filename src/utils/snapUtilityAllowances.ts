@@ -0,0 +1,41 @@
+/**
+ * SNAP Standard Utility Allowances
+ *
+ * Households that pay for heating or cooling separately from their rent or
+ * mortgage count a state-set standard utility allowance (SUA) toward
+ * shelter costs instead of their actual utility bills. States update their
+ * allowances every October and some vary them by region or household size;
+ * the figures here are statewide heating/cooling SUAs used for screening.
+ *
+ * @see https://www.fns.usda.gov/snap/eligibility/deduction/standard-utility-allowances
+ */
+
+/**
+ * Approximate heating/cooling standard utility allowance by state (FY 2025)
+ */
+export const SNAP_STANDARD_UTILITY_ALLOWANCES: Readonly<Record<string, number>> = {
+  AL: 481, AK: 866, AZ: 363, AR: 436, CA: 612, CO: 548, CT: 987, DE: 504,
+  DC: 350, FL: 372, GA: 417, HI: 895, ID: 422, IL: 533, IN: 474, IA: 491,
+  KS: 437, KY: 463, LA: 438, ME: 891, MD: 443, MA: 917, MI: 680, MN: 522,
+  MS: 409, MO: 448, MT: 565, NE: 453, NV: 383, NH: 868, NJ: 762, NM: 371,
+  NY: 1037, NC: 445, ND: 549, OH: 607, OK: 410, OR: 510, PA: 774, RI: 969,
+  SC: 435, SD: 456, TN: 426, TX: 571, UT: 449, VT: 945, VA: 480, WA: 636,
+  WV: 517, WI: 497, WY: 458,
+};
+
+/** Allowance used when the state is unknown */
+export const DEFAULT_SNAP_UTILITY_ALLOWANCE = 480;
+
+/**
+ * Get the heating/cooling standard utility allowance for a state
+ *
+ * @example
+ * ```typescript
+ * getSNAPUtilityAllowance('GA'); // 417
+ * getSNAPUtilityAllowance(undefined); // 480
+ * ```
+ */
+export function getSNAPUtilityAllowance(stateCode?: string | null): number {
+  if (!stateCode) {return DEFAULT_SNAP_UTILITY_ALLOWANCE;}
+  return SNAP_STANDARD_UTILITY_ALLOWANCES[stateCode.toUpperCase()] ?? DEFAULT_SNAP_UTILITY_ALLOWANCE;
+}
@@ -6,6 +6,11 @@
  */
 
 import { EligibilityStatus } from '../components/results/types';
+import {
+  evaluateResourceTest,
+  normalizeHouseholdAssets,
+  type ResourceProgram
+} from './countableResources';
 
 export interface UserProfile {
   state?: string;
@@ -54,6 +59,34 @@ const INCOME_THRESHOLDS = {
   GENERIC: 30000    // Generic threshold for most programs
 } as const;
 
+/**
+ * Check whether reported assets exceed a program's resource limit
+ *
+ * Returns false when assets were not reported. A spouse in the household
+ * member list selects the SSI couple limit; TANF uses the state's standard
+ * limit and passes in states without one.
+ */
+function exceedsResourceLimit(program: ResourceProgram, profile: UserProfile): boolean {
+  const assets = normalizeHouseholdAssets(profile.assets);
+  if (!assets) {return false;}
+
+  const members = Array.isArray(profile.householdMembers) ? profile.householdMembers as Array<{ relationship?: string }> : [];
+  const isMarried = profile.isMarried === true || members.some(member => member.relationship === 'spouse');
+  const useHigherLimit = program === 'tanf' ? false : isMarried;
+  return !evaluateResourceTest(program, assets, useHigherLimit, profile.state).passes;
+}
+
+/**
+ * Check whether Medicaid would use its non-MAGI (65+, blind or disabled)
+ * pathway, the only one with a resource test
+ */
+function usesNonMagiMedicaid(profile: UserProfile): boolean {
+  return profile.hasDisability === true ||
+    profile.isBlind === true ||
+    profile.isElderly === true ||
+    (typeof profile.age === 'number' && profile.age >= 65);
+}
+
 /**
  * Generic specific reasons that apply to most programs
  */
@@ -131,6 +164,11 @@ const programSpecificReasons: ProgramSpecificReasons = {
       key: 'citizenship',
       message: `${CITIZENSHIP_MESSAGE}. Medicaid requires U.S. citizenship or eligible immigration status.`,
       condition: (profile) => Boolean(profile.citizenship && !ELIGIBLE_CITIZENSHIP_STATUSES.includes(profile.citizenship))
+    },
+    {
+      key: 'resourcesTooHigh',
+      message: 'Your countable resources appear to be above the Medicaid resource limit for people who are 65 or older, blind or disabled, which is $2,000 for an individual or $3,000 for a couple in most states. Your home and one vehicle used for transportation do not count.',
+      condition: (profile) => usesNonMagiMedicaid(profile) && exceedsResourceLimit('medicaid', profile)
     }
   ],
   'snap-federal': [
@@ -186,6 +224,11 @@ const programSpecificReasons: ProgramSpecificReasons = {
       key: 'citizenship',
       message: `${CITIZENSHIP_MESSAGE}. TANF requires U.S. citizenship or eligible immigration status.`,
       condition: (profile) => Boolean(profile.citizenship && !ELIGIBLE_CITIZENSHIP_STATUSES.includes(profile.citizenship))
+    },
+    {
+      key: 'resourcesTooHigh',
+      message: 'Your countable resources appear to be above your state\'s TANF resource limit. Cash, bank accounts, extra vehicles and property other than your home count toward the limit; your home, one vehicle and retirement savings usually do not.',
+      condition: (profile) => exceedsResourceLimit('tanf', profile)
     }
   ],
   'ssi-federal': [
@@ -212,6 +255,11 @@ const programSpecificReasons: ProgramSpecificReasons = {
       key: 'citizenship',
       message: `${CITIZENSHIP_MESSAGE}. SSI requires U.S. citizenship or eligible immigration status.`,
       condition: (profile) => Boolean(profile.citizenship && !ELIGIBLE_CITIZENSHIP_STATUSES.includes(profile.citizenship))
+    },
+    {
+      key: 'resourcesTooHigh',
+      message: 'Your countable resources appear to be above the SSI limit of $2,000 for an individual or $3,000 for a couple. SSI counts cash, bank accounts, extra vehicles, property other than your home and retirement funds you can withdraw; your home and one vehicle used for transportation do not count.',
+      condition: (profile) => exceedsResourceLimit('ssi', profile)
     }
   ],
   'section8-federal': [
@@ -349,6 +397,11 @@ const programMaybeReasons: ProgramMaybeReasons = {
       key: 'stateSpecific',
       message: 'Check state-specific Medicaid expansion - eligibility varies significantly by state, with some states covering adults 19-64',
       condition: (profile) => !profile.state
+    },
+    {
+      key: 'assetVerification',
+      message: 'Report your savings, vehicles and other property - Medicaid for people who are 65 or older, blind or disabled usually limits resources to $2,000 for an individual or $3,000 for a couple, not counting your home and one vehicle',
+      condition: (profile) => usesNonMagiMedicaid(profile) && profile.assets === undefined
     }
   ],
   'snap-federal': [
@@ -393,6 +446,11 @@ const programMaybeReasons: ProgramMaybeReasons = {
       key: 'timeLimits',
       message: 'Check lifetime limits - TANF has 60-month lifetime limit in most states, with some exceptions for hardship cases',
       condition: () => true // Always relevant for TANF
+    },
+    {
+      key: 'assetVerification',
+      message: 'Report your savings, vehicles and other property - most states limit TANF resources, from about $1,000 to $15,000 depending on the state, not counting your home and one vehicle',
+      condition: (profile) => profile.assets === undefined
     }
   ],
   'ssi-federal': [
@@ -415,6 +473,11 @@ const programMaybeReasons: ProgramMaybeReasons = {
       key: 'workHistory',
       message: 'Provide work history - SSI considers work credits and employment history, but work history is not required for SSI',
       condition: (profile) => !profile.employmentStatus
+    },
+    {
+      key: 'assetVerification',
+      message: 'Report your savings, vehicles and other property - SSI counts resources up to $2,000 for an individual or $3,000 for a couple, not counting your home and one vehicle',
+      condition: (profile) => profile.assets === undefined
     }
   ],
   'section8-federal': [
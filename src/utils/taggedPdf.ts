@@ -0,0 +1,583 @@
+/**
+ * Tagged PDF Writer
+ *
+ * Writes accessible PDF files in the browser, offline and without a print
+ * dialog. Headings, paragraphs, lists and tables are tagged in the document
+ * structure tree so assistive technology reads them in order; rules and
+ * page numbers are marked as artifacts.
+ *
+ * Text is set in the standard Helvetica fonts with WinAnsi encoding, which
+ * covers English and Spanish. Characters outside it are written as '?'.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaggedPdfOptions {
+  /** Document title, shown in the viewer's title bar */
+  title: string;
+  /** BCP 47 language of the text (default: 'en-US') */
+  language?: string;
+  author?: string;
+  subject?: string;
+  /** Creation date written to the document info (default: now) */
+  createdAt?: Date;
+  /** Footer text for each page (default: 'Page 1 of 2') */
+  pageLabel?: (page: number, pageCount: number) => string;
+}
+
+export type HeadingLevel = 1 | 2 | 3 | 4;
+
+export interface ListOptions {
+  /** Number the items instead of using bullets */
+  ordered?: boolean;
+}
+
+export interface TableOptions {
+  /** Column headers; without them only the first column heads each row */
+  headers?: [string, string];
+}
+
+/** Text placed on a page inside a marked-content sequence */
+interface MarkedContent {
+  page: number;
+  mcid: number;
+}
+
+interface StructElement {
+  type: string;
+  /** Attribute dictionary written as /A */
+  attributes?: string;
+  children: Array<StructElement | MarkedContent>;
+}
+
+type FontName = 'regular' | 'bold';
+
+interface TextStyle {
+  font: FontName;
+  size: number;
+}
+
+// ============================================================================
+// LAYOUT CONSTANTS
+// ============================================================================
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_BASELINE = 30;
+const LINE_SPACING = 1.35;
+const BLOCK_GAP = 6;
+const LIST_INDENT = 20;
+const CELL_GAP = 12;
+const CELL_PADDING = 4;
+
+const BODY: TextStyle = { font: 'regular', size: 11 };
+const HEADINGS: Record<HeadingLevel, TextStyle> = {
+  1: { font: 'bold', size: 18 },
+  2: { font: 'bold', size: 14 },
+  3: { font: 'bold', size: 12 },
+  4: { font: 'bold', size: 11 },
+};
+
+const FONT_RESOURCES: Record<FontName, string> = { regular: 'F1', bold: 'F2' };
+
+/** Advance widths (1/1000 em) of printable ASCII, 32-126 */
+const GLYPH_WIDTHS: Record<FontName, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+/** Width used for accented and other non-ASCII characters */
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/** WinAnsi codes for characters outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, 'š': 0x9a,
+  '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+const BULLET = '•';
+
+// ============================================================================
+// TEXT ENCODING
+// ============================================================================
+
+/**
+ * Encode text as WinAnsi bytes, collapsing whitespace
+ */
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text.replace(/\s+/g, ' ')) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else {
+      bytes.push(WIN_ANSI_EXTRAS[char] ?? 0x3f);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Write bytes as a PDF literal string, escaping anything outside printable ASCII
+ */
+function toLiteral(bytes: number[]): string {
+  const escaped = bytes.map((byte) => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {return `\\${String.fromCharCode(byte)}`;}
+    if (byte < 0x20 || byte > 0x7e) {return `\\${byte.toString(8).padStart(3, '0')}`;}
+    return String.fromCharCode(byte);
+  });
+  return `(${escaped.join('')})`;
+}
+
+/**
+ * Write a document info string: literal when ASCII, UTF-16BE otherwise
+ */
+function toTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return toLiteral(Array.from(text, char => char.charCodeAt(0)));
+  }
+  const hex = Array.from(text, char => char.charCodeAt(0).toString(16).padStart(4, '0')).join('');
+  return `<FEFF${hex.toUpperCase()}>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function measure(bytes: number[], style: TextStyle): number {
+  const widths = GLYPH_WIDTHS[style.font];
+  const units = bytes.reduce((total, byte) => (
+    total + (byte >= 0x20 && byte <= 0x7e ? widths[byte - 0x20] : DEFAULT_GLYPH_WIDTH)
+  ), 0);
+  return (units / 1000) * style.size;
+}
+
+/**
+ * Break text into lines that fit a width, splitting words longer than a line
+ */
+function wrapText(text: string, style: TextStyle, maxWidth: number): number[][] {
+  const words = toWinAnsi(text.trim()).reduce<number[][]>((result, byte) => {
+    if (byte === 0x20) {
+      result.push([]);
+    } else {
+      result[result.length - 1].push(byte);
+    }
+    return result;
+  }, [[]]).filter(word => word.length > 0);
+
+  const lines: number[][] = [];
+  let line: number[] = [];
+  for (const word of words) {
+    const candidate = line.length > 0 ? [...line, 0x20, ...word] : word;
+    if (measure(candidate, style) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line.length > 0) {lines.push(line);}
+    line = [];
+    if (measure(word, style) <= maxWidth) {
+      line = word;
+      continue;
+    }
+    for (const byte of word) {
+      if (line.length > 0 && measure([...line, byte], style) > maxWidth) {
+        lines.push(line);
+        line = [];
+      }
+      line.push(byte);
+    }
+  }
+  if (line.length > 0 || lines.length === 0) {lines.push(line);}
+  return lines;
+}
+
+function lineHeight(style: TextStyle): number {
+  return style.size * LINE_SPACING;
+}
+
+function isMarkedContent(node: StructElement | MarkedContent): node is MarkedContent {
+  return 'mcid' in node;
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Builds a tagged PDF top to bottom, starting new pages as needed
+ *
+ * @example
+ * ```typescript
+ * const pdf = new TaggedPdfWriter({ title: 'Benefit Eligibility Results' });
+ * pdf.heading('Benefit Eligibility Results');
+ * pdf.paragraph('You qualify for 2 programs.');
+ * pdf.list(['Bring a photo ID', 'Bring pay stubs'], { ordered: true });
+ * const blob = new Blob([pdf.toBytes()], { type: 'application/pdf' });
+ * ```
+ */
+export class TaggedPdfWriter {
+  private readonly options: TaggedPdfOptions;
+  private readonly pages: string[][] = [];
+  /** Per page, the element that owns each marked-content ID */
+  private readonly pageOwners: StructElement[][] = [];
+  private readonly root: StructElement = { type: 'Document', children: [] };
+  private readonly containers: StructElement[] = [this.root];
+  private y = 0;
+
+  constructor(options: TaggedPdfOptions) {
+    this.options = options;
+    this.addPage();
+  }
+
+  /**
+   * Add a heading (H1-H4); it moves to the next page rather than end one
+   */
+  heading(text: string, level: HeadingLevel = 1): void {
+    const style = HEADINGS[level];
+    const lines = wrapText(text, style, CONTENT_WIDTH);
+    this.ensureSpace(lineHeight(style) * (lines.length + 2));
+
+    const element = this.addElement(`H${level}`);
+    this.y -= BLOCK_GAP;
+    lines.forEach(line => this.placeLine(element, line, MARGIN, style));
+
+    if (level === 1) {
+      this.drawRule(this.y + 2);
+      this.y -= BLOCK_GAP;
+    }
+  }
+
+  /**
+   * Add a paragraph, wrapped to the page width
+   */
+  paragraph(text: string, options: { bold?: boolean } = {}): void {
+    const style: TextStyle = { ...BODY, font: options.bold ? 'bold' : 'regular' };
+    const element = this.addElement('P');
+    wrapText(text, style, CONTENT_WIDTH).forEach(line => this.placeLine(element, line, MARGIN, style));
+    this.y -= BLOCK_GAP;
+  }
+
+  /**
+   * Add a bulleted or numbered list
+   */
+  list(items: string[], options: ListOptions = {}): void {
+    if (items.length === 0) {return;}
+
+    const numbering = options.ordered ? '/Decimal' : '/Disc';
+    const list = this.addElement('L', `<< /O /List /ListNumbering ${numbering} >>`);
+
+    items.forEach((item, index) => {
+      const listItem = this.addElement('LI', undefined, list);
+      const label = this.addElement('Lbl', undefined, listItem);
+      const body = this.addElement('LBody', undefined, listItem);
+      const lines = wrapText(item, BODY, CONTENT_WIDTH - LIST_INDENT);
+
+      lines.forEach((line, lineIndex) => {
+        this.ensureSpace(lineHeight(BODY));
+        if (lineIndex === 0) {
+          this.placeText(label, toWinAnsi(options.ordered ? `${index + 1}.` : BULLET), MARGIN + 4, BODY);
+        }
+        this.placeLine(body, line, MARGIN + LIST_INDENT, BODY);
+      });
+      this.y -= 2;
+    });
+    this.y -= BLOCK_GAP;
+  }
+
+  /**
+   * Add a two-column table; the first column heads each row
+   */
+  table(rows: Array<[string, string]>, options: TableOptions = {}): void {
+    if (rows.length === 0) {return;}
+
+    const table = this.addElement('Table');
+    const firstWidth = CONTENT_WIDTH * 0.45;
+    const secondX = MARGIN + firstWidth + CELL_GAP;
+    const secondWidth = CONTENT_WIDTH - firstWidth - CELL_GAP;
+
+    const addRow = (cells: [string, string], header: boolean): void => {
+      const cellStyle: TextStyle = header ? { ...BODY, font: 'bold' } : BODY;
+      const firstLines = wrapText(cells[0], { ...BODY, font: 'bold' }, firstWidth);
+      const secondLines = wrapText(cells[1], cellStyle, secondWidth);
+      const rowLines = Math.max(firstLines.length, secondLines.length);
+      this.ensureSpace(rowLines * lineHeight(BODY) + CELL_PADDING * 2);
+
+      const row = this.addElement('TR', undefined, table);
+      const scope = header ? '/Column' : '/Row';
+      const first = this.addElement('TH', `<< /O /Table /Scope ${scope} >>`, row);
+      const second = header
+        ? this.addElement('TH', '<< /O /Table /Scope /Column >>', row)
+        : this.addElement('TD', undefined, row);
+
+      const top = this.y - CELL_PADDING;
+      this.y = top;
+      firstLines.forEach(line => this.placeLine(first, line, MARGIN, { ...BODY, font: 'bold' }));
+      this.y = top;
+      secondLines.forEach(line => this.placeLine(second, line, secondX, cellStyle));
+      this.y = top - rowLines * lineHeight(BODY) - CELL_PADDING;
+      this.drawRule(this.y);
+    };
+
+    if (options.headers) {addRow(options.headers, true);}
+    rows.forEach(cells => addRow(cells, false));
+    this.y -= BLOCK_GAP * 2;
+  }
+
+  /**
+   * Group everything added in `build` into a section
+   */
+  section(build: () => void): void {
+    this.containers.push(this.addElement('Sect'));
+    try {
+      build();
+    } finally {
+      this.containers.pop();
+    }
+  }
+
+  /**
+   * Write the finished document
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const pageCount = this.pages.length;
+    const pageLabel = this.options.pageLabel ?? ((page: number, total: number) => `Page ${page} of ${total}`);
+    this.pages.forEach((ops, index) => {
+      const label = toWinAnsi(pageLabel(index + 1, pageCount));
+      const x = PAGE_WIDTH - MARGIN - measure(label, { font: 'regular', size: 9 });
+      ops.push(
+        '/Artifact << /Type /Pagination /Subtype /Footer >> BDC',
+        `BT /F1 9 Tf ${x.toFixed(2)} ${FOOTER_BASELINE} Td ${toLiteral(label)} Tj ET`,
+        'EMC'
+      );
+    });
+
+    // Fixed objects come first, then each page and its content, then the structure tree
+    const CATALOG = 1;
+    const PAGES = 2;
+    const FONT_REGULAR = 3;
+    const FONT_BOLD = 4;
+    const INFO = 5;
+    const METADATA = 6;
+    const STRUCT_TREE_ROOT = 7;
+    const pageRef = (page: number): number => 8 + page * 2;
+    const contentRef = (page: number): number => 9 + page * 2;
+
+    const elementRefs = new Map<StructElement, number>();
+    const parentRefs = new Map<StructElement, number>();
+    let nextRef = 8 + pageCount * 2;
+    const number = (element: StructElement, parentRef: number): void => {
+      const ref = nextRef++;
+      elementRefs.set(element, ref);
+      parentRefs.set(element, parentRef);
+      element.children.forEach(child => {
+        if (!isMarkedContent(child)) {number(child, ref);}
+      });
+    };
+    number(this.root, STRUCT_TREE_ROOT);
+
+    const objects = new Map<number, string>();
+    const language = this.options.language ?? 'en-US';
+    const createdAt = this.options.createdAt ?? new Date();
+
+    objects.set(CATALOG, [
+      '<< /Type /Catalog',
+      `/Pages ${PAGES} 0 R`,
+      `/StructTreeRoot ${STRUCT_TREE_ROOT} 0 R`,
+      '/MarkInfo << /Marked true >>',
+      `/Lang ${toTextString(language)}`,
+      `/Metadata ${METADATA} 0 R`,
+      '/ViewerPreferences << /DisplayDocTitle true >>',
+      '>>',
+    ].join(' '));
+    objects.set(PAGES, `<< /Type /Pages /Kids [${this.pages.map((_, page) => `${pageRef(page)} 0 R`).join(' ')}] /Count ${pageCount} >>`);
+    objects.set(FONT_REGULAR, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.set(FONT_BOLD, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const info = [`/Title ${toTextString(this.options.title)}`];
+    if (this.options.author) {info.push(`/Author ${toTextString(this.options.author)}`);}
+    if (this.options.subject) {info.push(`/Subject ${toTextString(this.options.subject)}`);}
+    info.push('/Producer (BenefitFinder)', `/CreationDate (${formatPdfDate(createdAt)})`);
+    objects.set(INFO, `<< ${info.join(' ')} >>`);
+
+    const xmp = [
+      '<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">',
+      `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(this.options.title)}</rdf:li></rdf:Alt></dc:title>`,
+      `<dc:language><rdf:Bag><rdf:li>${escapeXml(language)}</rdf:li></rdf:Bag></dc:language>`,
+      '<pdf:Producer>BenefitFinder</pdf:Producer>',
+      '</rdf:Description>',
+      '</rdf:RDF>',
+      '</x:xmpmeta>',
+      '<?xpacket end="r"?>',
+    ].join('\n');
+    const xmpLength = new TextEncoder().encode(xmp).length;
+    objects.set(METADATA, `<< /Type /Metadata /Subtype /XML /Length ${xmpLength} >>\nstream\n${xmp}\nendstream`);
+
+    const parentTree = this.pageOwners
+      .map((owners, page) => `${page} [${owners.map(owner => `${elementRefs.get(owner)} 0 R`).join(' ')}]`)
+      .join(' ');
+    objects.set(STRUCT_TREE_ROOT, [
+      '<< /Type /StructTreeRoot',
+      `/K [${elementRefs.get(this.root)} 0 R]`,
+      `/ParentTree << /Nums [${parentTree}] >>`,
+      `/ParentTreeNextKey ${pageCount}`,
+      '>>',
+    ].join(' '));
+
+    this.pages.forEach((ops, page) => {
+      objects.set(pageRef(page), [
+        '<< /Type /Page',
+        `/Parent ${PAGES} 0 R`,
+        `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+        `/Resources << /Font << /F1 ${FONT_REGULAR} 0 R /F2 ${FONT_BOLD} 0 R >> >>`,
+        `/Contents ${contentRef(page)} 0 R`,
+        `/StructParents ${page}`,
+        '/Tabs /S',
+        '>>',
+      ].join(' '));
+      const stream = ops.join('\n');
+      objects.set(contentRef(page), `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    elementRefs.forEach((ref, element) => {
+      const parent = parentRefs.get(element);
+      const kids = element.children.map(child => (isMarkedContent(child)
+        ? `<< /Type /MCR /Pg ${pageRef(child.page)} 0 R /MCID ${child.mcid} >>`
+        : `${elementRefs.get(child)} 0 R`));
+      const attributes = element.attributes ? ` /A ${element.attributes}` : '';
+      objects.set(ref, `<< /Type /StructElem /S /${element.type} /P ${parent} 0 R${attributes} /K [${kids.join(' ')}] >>`);
+    });
+
+    return serialize(objects, CATALOG, INFO);
+  }
+
+  // ==========================================================================
+  // LAYOUT HELPERS
+  // ==========================================================================
+
+  private get pageIndex(): number {
+    return this.pages.length - 1;
+  }
+
+  private addPage(): void {
+    this.pages.push([]);
+    this.pageOwners.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private addElement(type: string, attributes?: string, parent?: StructElement): StructElement {
+    const element: StructElement = { type, attributes, children: [] };
+    (parent ?? this.containers[this.containers.length - 1]).children.push(element);
+    return element;
+  }
+
+  /**
+   * Place one line of text on the next baseline and advance
+   */
+  private placeLine(element: StructElement, line: number[], x: number, style: TextStyle): void {
+    this.ensureSpace(lineHeight(style));
+    this.placeText(element, line, x, style);
+    this.y -= lineHeight(style);
+  }
+
+  /**
+   * Tag text at the current line without advancing
+   */
+  private placeText(element: StructElement, text: number[], x: number, style: TextStyle): void {
+    const owners = this.pageOwners[this.pageIndex];
+    const mcid = owners.length;
+    owners.push(element);
+    element.children.push({ page: this.pageIndex, mcid });
+
+    const baseline = this.y - style.size;
+    this.pages[this.pageIndex].push(
+      `/${element.type} << /MCID ${mcid} >> BDC`,
+      `BT /${FONT_RESOURCES[style.font]} ${style.size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${toLiteral(text)} Tj ET`,
+      'EMC'
+    );
+  }
+
+  private drawRule(y: number): void {
+    this.pages[this.pageIndex].push(
+      '/Artifact BMC',
+      `0.8 G 0.5 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S 0 G`,
+      'EMC'
+    );
+  }
+}
+
+/**
+ * Write numbered objects with a cross-reference table
+ */
+function serialize(objects: Map<number, string>, root: number, info: number): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (chunk: Uint8Array | string): void => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Binary comment marks the file as binary for transfer tools
+  write('%PDF-1.7\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  const count = objects.size + 1;
+  const offsets: number[] = [];
+  for (let ref = 1; ref < count; ref++) {
+    offsets[ref] = length;
+    write(`${ref} 0 obj\n${objects.get(ref)}\nendobj\n`);
+  }
+
+  const xrefOffset = length;
+  const entries = offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`);
+  write(`xref\n0 ${count}\n0000000000 65535 f \n${entries.join('')}`);
+  write(`trailer\n<< /Size ${count} /Root ${root} 0 R /Info ${info} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}